@@ -0,0 +1,125 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { BellIcon } from "lucide-react";
+import { NotificationAPI } from "../lib/api";
+import type { Notification } from "../lib/types";
+import { Button } from "./ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "./ui/popover";
+
+// How often the unread count is refreshed while the page is open
+const POLL_INTERVAL_MS = 60000;
+
+interface NotificationBellProps {
+  onOpenTask?: (taskId: number) => void;
+}
+
+const NotificationBell: React.FC<NotificationBellProps> = ({ onOpenTask }) => {
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [open, setOpen] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchNotifications = useCallback(async () => {
+    try {
+      const page = await NotificationAPI.getPage({ limit: 20 });
+      setNotifications(page.data);
+      setUnreadCount(page.unread_count);
+      setError(null);
+    } catch (err: any) {
+      setError(err?.message || "Failed to load notifications");
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchNotifications();
+    const timer = setInterval(fetchNotifications, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [fetchNotifications]);
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next);
+    if (next) {
+      setLoading(true);
+      fetchNotifications().finally(() => setLoading(false));
+    }
+  };
+
+  const handleSelect = async (notification: Notification) => {
+    if (!notification.read_at) {
+      try {
+        const read = await NotificationAPI.markRead(notification.notification_id);
+        setNotifications(prev => prev.map(item => item.notification_id === read.notification_id ? read : item));
+        setUnreadCount(count => Math.max(0, count - 1));
+      } catch (err: any) {
+        setError(err?.message || "Failed to update notification");
+      }
+    }
+    if (notification.task_id && onOpenTask) {
+      setOpen(false);
+      onOpenTask(notification.task_id);
+    }
+  };
+
+  const handleMarkAllRead = async () => {
+    try {
+      await NotificationAPI.markAllRead();
+      const now = new Date().toISOString();
+      setNotifications(prev => prev.map(item => item.read_at ? item : { ...item, read_at: now }));
+      setUnreadCount(0);
+    } catch (err: any) {
+      setError(err?.message || "Failed to update notifications");
+    }
+  };
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative" aria-label={`Notifications (${unreadCount} unread)`}>
+          <BellIcon />
+          {unreadCount > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-4 h-4 px-1 rounded-full bg-red-500 text-white text-[10px] leading-4 text-center">
+              {unreadCount > 99 ? "99+" : unreadCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between border-b px-4 py-2">
+          <h3 className="text-sm font-semibold">Notifications</h3>
+          <Button variant="link" size="sm" className="h-auto p-0" disabled={unreadCount === 0} onClick={handleMarkAllRead}>
+            Mark all as read
+          </Button>
+        </div>
+        {error && <div className="px-4 py-2 text-sm text-red-500">{error}</div>}
+        {loading && notifications.length === 0 && (
+          <div className="px-4 py-2 text-sm text-gray-500">Loading notifications...</div>
+        )}
+        {!loading && !error && notifications.length === 0 && (
+          <div className="px-4 py-2 text-sm text-gray-500">You're all caught up.</div>
+        )}
+        <ul className="max-h-80 overflow-y-auto">
+          {notifications.map(notification => (
+            <li key={notification.notification_id}>
+              <button
+                type="button"
+                className={`w-full text-left px-4 py-2 text-sm hover:bg-gray-50 ${notification.read_at ? "text-gray-500" : "font-medium"}`}
+                onClick={() => handleSelect(notification)}
+              >
+                <div className="flex items-start gap-2">
+                  {!notification.read_at && <span className="mt-1.5 size-2 shrink-0 rounded-full bg-blue-500" />}
+                  <div>
+                    <div>{notification.title}</div>
+                    {notification.body && <div className="text-xs text-gray-500">{notification.body}</div>}
+                    <div className="text-xs text-gray-400">{new Date(notification.created_at).toLocaleString()}</div>
+                  </div>
+                </div>
+              </button>
+            </li>
+          ))}
+        </ul>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default NotificationBell;
@@ -0,0 +1,176 @@
+// RecurrencePicker.tsx - Picks the RRULE-style recurrence of a task, relative to its due date
+import React from "react";
+import type { RecurrenceFrequency, RecurrenceRule, Weekday } from "~/lib/types";
+import { Input } from "./ui/input";
+import { Button } from "./ui/button";
+import {
+  Select,
+  SelectTrigger,
+  SelectValue,
+  SelectContent,
+  SelectItem,
+} from "./ui/select";
+
+interface RecurrencePickerProps {
+  value: RecurrenceRule | null;
+  onChange: (value: RecurrenceRule | null) => void;
+  dueDate?: string; // YYYY-MM-DD; weekly and monthly defaults follow it
+}
+
+// Weekdays in the order of Date.getDay()
+const WEEKDAYS: Weekday[] = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+const WEEKDAY_LABELS: Record<Weekday, string> = {
+  MO: "Mon", TU: "Tue", WE: "Wed", TH: "Thu", FR: "Fri", SA: "Sat", SU: "Sun",
+};
+const UNITS: Record<RecurrenceFrequency, string> = {
+  daily: "day(s)", weekly: "week(s)", monthly: "month(s)", yearly: "year(s)",
+};
+const ORDINALS: Record<number, string> = { 1: "first", 2: "second", 3: "third", 4: "fourth", [-1]: "last" };
+
+const parseDueDate = (dueDate?: string): Date | null => {
+  const match = dueDate && /^(\d{4})-(\d{2})-(\d{2})/.exec(dueDate);
+  return match ? new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3])) : null;
+};
+
+// The week of the month of a date, counting the last seven days as the last week
+const weekOfMonth = (date: Date): number => {
+  const nth = Math.ceil(date.getDate() / 7);
+  return nth > 4 ? -1 : nth;
+};
+
+export const RecurrencePicker: React.FC<RecurrencePickerProps> = ({ value, onChange, dueDate }) => {
+  const due = parseDueDate(dueDate);
+  const ends = value?.count !== undefined ? "count" : value?.until !== undefined ? "until" : "never";
+
+  // Rebuild the rule on top of the current one; undefined fields are dropped
+  const update = (changes: Partial<RecurrenceRule>) => {
+    const next = { ...value, ...changes } as RecurrenceRule;
+    (Object.keys(next) as Array<keyof RecurrenceRule>).forEach(key => next[key] === undefined && delete next[key]);
+    onChange(next);
+  };
+
+  const setFrequency = (frequency: string) => {
+    if (frequency === "none") {
+      onChange(null);
+      return;
+    }
+    onChange({ frequency: frequency as RecurrenceFrequency, interval: value?.interval, count: value?.count, until: value?.until });
+  };
+
+  const toggleWeekday = (day: Weekday) => {
+    const weekdays = value?.weekdays || [];
+    const next = weekdays.includes(day) ? weekdays.filter(d => d !== day) : [...weekdays, day];
+    update({ weekdays: next.length > 0 ? next : undefined });
+  };
+
+  const setMonthlyMode = (mode: string) => {
+    if (mode === "weekday" && due) {
+      update({ week_of_month: weekOfMonth(due), weekdays: [WEEKDAYS[due.getDay()]] });
+    } else {
+      update({ week_of_month: undefined, weekdays: undefined });
+    }
+  };
+
+  const setEnds = (mode: string) => {
+    update({
+      count: mode === "count" ? value?.count || 10 : undefined,
+      until: mode === "until" ? value?.until || dueDate?.slice(0, 10) : undefined,
+    });
+  };
+
+  return (
+    <div className="space-y-2">
+      <Select value={value?.frequency || "none"} onValueChange={setFrequency}>
+        <SelectTrigger className="w-48">
+          <SelectValue placeholder="Repeat" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="none">Does not repeat</SelectItem>
+          <SelectItem value="daily">Daily</SelectItem>
+          <SelectItem value="weekly">Weekly</SelectItem>
+          <SelectItem value="monthly">Monthly</SelectItem>
+          <SelectItem value="yearly">Yearly</SelectItem>
+        </SelectContent>
+      </Select>
+      {value && (
+        <>
+          <div className="flex items-center gap-2 text-sm">
+            Every
+            <Input
+              type="number"
+              min={1}
+              max={99}
+              className="w-16"
+              value={value.interval || 1}
+              onChange={e => update({ interval: Number(e.target.value) > 1 ? Number(e.target.value) : undefined })}
+            />
+            {UNITS[value.frequency]}
+          </div>
+          {value.frequency === "weekly" && (
+            <div className="flex flex-wrap gap-1">
+              {WEEKDAYS.map(day => (
+                <Button
+                  key={day}
+                  type="button"
+                  size="sm"
+                  variant={value.weekdays?.includes(day) ? "default" : "outline"}
+                  onClick={() => toggleWeekday(day)}
+                >
+                  {WEEKDAY_LABELS[day]}
+                </Button>
+              ))}
+            </div>
+          )}
+          {value.frequency === "monthly" && due && (
+            <Select value={value.week_of_month !== undefined ? "weekday" : "day"} onValueChange={setMonthlyMode}>
+              <SelectTrigger className="w-64">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="day">On day {due.getDate()}</SelectItem>
+                <SelectItem value="weekday">
+                  On the {ORDINALS[weekOfMonth(due)]} {WEEKDAY_LABELS[WEEKDAYS[due.getDay()]]}
+                </SelectItem>
+              </SelectContent>
+            </Select>
+          )}
+          <div className="flex items-center gap-2 text-sm">
+            <Select value={ends} onValueChange={setEnds}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="never">Never ends</SelectItem>
+                <SelectItem value="count">Ends after</SelectItem>
+                <SelectItem value="until">Ends on</SelectItem>
+              </SelectContent>
+            </Select>
+            {ends === "count" && (
+              <>
+                <Input
+                  type="number"
+                  min={1}
+                  className="w-20"
+                  value={value.count}
+                  onChange={e => update({ count: Math.max(1, Number(e.target.value)) })}
+                />
+                occurrences
+              </>
+            )}
+            {ends === "until" && (
+              <Input
+                type="date"
+                className="w-40"
+                value={value.until || ""}
+                onChange={e => update({ until: e.target.value || undefined })}
+              />
+            )}
+          </div>
+          {!due && <div className="text-sm text-gray-500">Pick a due date for the first occurrence.</div>}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default RecurrencePicker;
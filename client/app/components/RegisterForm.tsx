@@ -2,6 +2,7 @@ import React, { useState } from 'react';
 import { useAuth } from '../lib/authContext';
 import { Input } from './ui/input';
 import { Button } from './ui/button';
+import { AuthAPI } from '../lib/api';
 
 const RegisterForm: React.FC = () => {
   const { register, error } = useAuth();
@@ -10,6 +11,8 @@ const RegisterForm: React.FC = () => {
   const [name, setName] = useState('');
   const [formError, setFormError] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
+  const [registered, setRegistered] = useState(false);
+  const [resendStatus, setResendStatus] = useState<string | null>(null);
 
   const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
@@ -19,10 +22,31 @@ const RegisterForm: React.FC = () => {
       return;
     }
     setLoading(true);
-    await register(email, password, name);
+    const success = await register(email, password, name);
     setLoading(false);
+    setRegistered(success);
   };
 
+  const handleResend = async () => {
+    setResendStatus(null);
+    try {
+      await AuthAPI.resendVerification();
+      setResendStatus('Verification email sent');
+    } catch (err: any) {
+      setResendStatus(err.message || 'Failed to resend verification email');
+    }
+  };
+
+  if (registered) {
+    return (
+      <div>
+        <p>We sent a verification link to <strong>{email}</strong>. Check your inbox to verify your email address.</p>
+        {resendStatus && <div>{resendStatus}</div>}
+        <Button type="button" onClick={handleResend}>Resend email</Button>
+      </div>
+    );
+  }
+
   return (
     <form onSubmit={handleSubmit}>
       <Input
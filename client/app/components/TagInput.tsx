@@ -0,0 +1,111 @@
+// TagInput.tsx - Multi-select input for the tags of a task, suggesting existing tags as the user types
+import React, { useEffect, useState } from "react";
+import { TagAPI } from "~/lib/api";
+import type { Tag } from "~/lib/types";
+import { Input } from "./ui/input";
+
+const SUGGESTION_LIMIT = 8;
+
+interface TagInputProps {
+  value: string[];
+  onChange: (value: string[]) => void;
+  workspaceId?: number | null; // suggests the tags of this workspace
+}
+
+const sameName = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+export const TagInput: React.FC<TagInputProps> = ({ value, onChange, workspaceId }) => {
+  const [text, setText] = useState("");
+  const [suggestions, setSuggestions] = useState<Tag[]>([]);
+
+  // Suggestions follow the typed prefix; a short delay keeps typing from sending a request per key
+  useEffect(() => {
+    const prefix = text.trim();
+    if (!prefix) {
+      setSuggestions([]);
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      TagAPI.getAll({ prefix, workspace_id: workspaceId ?? undefined, limit: SUGGESTION_LIMIT })
+        .then((tags) => { if (!cancelled) setSuggestions(tags); })
+        .catch(() => { if (!cancelled) setSuggestions([]); });
+    }, 200);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [text, workspaceId]);
+
+  const addTag = (name: string) => {
+    const tag = name.trim().replace(/\s+/g, " ");
+    if (tag && !value.some(current => sameName(current, tag))) {
+      onChange([...value, tag]);
+    }
+    setText("");
+  };
+
+  const removeTag = (name: string) => onChange(value.filter(current => current !== name));
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter" || e.key === ",") {
+      // Enter would submit the form and commas separate tags
+      e.preventDefault();
+      addTag(text);
+    } else if (e.key === "Backspace" && !text && value.length > 0) {
+      removeTag(value[value.length - 1]);
+    }
+  };
+
+  const shownSuggestions = suggestions.filter(tag => !value.some(current => sameName(current, tag.name)));
+
+  return (
+    <div className="relative">
+      <div className="flex flex-wrap items-center gap-1 mb-1">
+        {value.map(tag => (
+          <span key={tag} className="inline-flex items-center gap-1 rounded bg-gray-100 px-2 py-0.5 text-xs">
+            {tag}
+            <button
+              type="button"
+              className="text-gray-500 hover:text-gray-800"
+              onClick={() => removeTag(tag)}
+              aria-label={`Remove tag ${tag}`}
+            >
+              ×
+            </button>
+          </span>
+        ))}
+      </div>
+      <Input
+        value={text}
+        onChange={e => setText(e.target.value)}
+        onKeyDown={handleKeyDown}
+        onBlur={() => text.trim() && addTag(text)}
+        placeholder="Add tags"
+        maxLength={50}
+      />
+      {shownSuggestions.length > 0 && (
+        <ul className="absolute z-20 mt-1 w-full rounded border bg-white shadow text-sm">
+          {shownSuggestions.map(tag => (
+            <li key={tag.tag_id}>
+              <button
+                type="button"
+                className="flex w-full justify-between px-2 py-1 text-left hover:bg-gray-50"
+                // Picking a suggestion must happen before the input's blur adds the typed text
+                onMouseDown={e => {
+                  e.preventDefault();
+                  addTag(tag.name);
+                }}
+              >
+                <span>{tag.name}</span>
+                <span className="text-xs text-gray-500">{tag.task_count ?? 0}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default TagInput;
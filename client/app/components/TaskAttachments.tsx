@@ -0,0 +1,106 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { TaskAPI } from "../lib/api";
+import type { TaskAttachment } from "../lib/types";
+import { Button } from "./ui/button";
+
+/**
+ * Format a file size, e.g. 2.4 MB
+ */
+const formatSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+interface TaskAttachmentsProps {
+  taskId: number;
+}
+
+const TaskAttachments: React.FC<TaskAttachmentsProps> = ({ taskId }) => {
+  const [attachments, setAttachments] = useState<TaskAttachment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [uploading, setUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    TaskAPI.getAttachments(taskId)
+      .then((data) => { if (!cancelled) setAttachments(data); })
+      .catch((err: any) => { if (!cancelled) setError(err?.message || "Failed to load attachments"); })
+      .finally(() => { if (!cancelled) setLoading(false); });
+    return () => { cancelled = true; };
+  }, [taskId]);
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setUploading(true);
+    try {
+      const attachment = await TaskAPI.addAttachment(taskId, file);
+      setAttachments(prev => [...prev, attachment]);
+      setError(null);
+    } catch (err: any) {
+      setError(err?.error?.message || err?.message || "Failed to attach file");
+    } finally {
+      setUploading(false);
+      if (fileInput.current) fileInput.current.value = "";
+    }
+  };
+
+  // Download links are signed and expire quickly, so one is requested per click
+  const handleDownload = async (attachment: TaskAttachment) => {
+    try {
+      const { url } = await TaskAPI.getAttachmentUrl(taskId, attachment.attachment_id);
+      window.open(url, "_blank", "noopener");
+    } catch (err: any) {
+      setError(err?.message || "Failed to download attachment");
+    }
+  };
+
+  const handleDelete = async (attachment: TaskAttachment) => {
+    try {
+      await TaskAPI.deleteAttachment(taskId, attachment.attachment_id);
+      setAttachments(prev => prev.filter(current => current.attachment_id !== attachment.attachment_id));
+    } catch (err: any) {
+      setError(err?.message || "Failed to remove attachment");
+    }
+  };
+
+  return (
+    <div className="mt-4 border-t pt-4">
+      <h3 className="text-sm font-semibold mb-2">Attachments</h3>
+      {loading && <div className="text-sm text-gray-500">Loading attachments...</div>}
+      {error && <div className="text-sm text-red-500">{error}</div>}
+      {!loading && !error && attachments.length === 0 && (
+        <div className="text-sm text-gray-500">No attachments yet.</div>
+      )}
+      <ul className="space-y-1">
+        {attachments.map(attachment => (
+          <li key={attachment.attachment_id} className="flex items-center gap-2 text-sm">
+            <Button variant="link" size="sm" className="h-auto p-0 truncate" onClick={() => handleDownload(attachment)}>
+              {attachment.file_name}
+            </Button>
+            <span className="text-xs text-gray-500">
+              {formatSize(attachment.size_bytes)}
+              {attachment.username && ` · ${attachment.username}`}
+            </span>
+            <Button variant="ghost" size="sm" className="ml-auto" onClick={() => handleDelete(attachment)}>
+              Remove
+            </Button>
+          </li>
+        ))}
+      </ul>
+      <div className="mt-2">
+        <input ref={fileInput} type="file" className="hidden" onChange={handleUpload} />
+        <Button type="button" size="sm" disabled={uploading} onClick={() => fileInput.current?.click()}>
+          {uploading ? "Uploading..." : "Attach File"}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default TaskAttachments;
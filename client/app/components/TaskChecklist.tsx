@@ -0,0 +1,87 @@
+import React, { useEffect, useState } from 'react';
+import { TaskAPI } from "../lib/api";
+import type { ChecklistItem } from "../lib/types";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+
+interface TaskChecklistProps {
+  taskId: number;
+}
+
+const TaskChecklist: React.FC<TaskChecklistProps> = ({ taskId }) => {
+  const [items, setItems] = useState<ChecklistItem[]>([]);
+  const [content, setContent] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    TaskAPI.getChecklist(taskId)
+      .then((data) => { if (!cancelled) setItems(data); })
+      .catch((err: any) => { if (!cancelled) setError(err?.message || "Failed to load checklist"); })
+      .finally(() => { if (!cancelled) setLoading(false); });
+    return () => { cancelled = true; };
+  }, [taskId]);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!content.trim()) return;
+    try {
+      const item = await TaskAPI.addChecklistItem(taskId, content.trim());
+      setItems(prev => [...prev, item]);
+      setContent("");
+      setError(null);
+    } catch (err: any) {
+      setError(err?.message || "Failed to add checklist item");
+    }
+  };
+
+  const handleToggle = async (item: ChecklistItem) => {
+    try {
+      const updated = await TaskAPI.updateChecklistItem(taskId, item.item_id, { is_done: !item.is_done });
+      setItems(prev => prev.map(current => current.item_id === updated.item_id ? updated : current));
+    } catch (err: any) {
+      setError(err?.message || "Failed to update checklist item");
+    }
+  };
+
+  const handleDelete = async (item: ChecklistItem) => {
+    try {
+      await TaskAPI.deleteChecklistItem(taskId, item.item_id);
+      setItems(prev => prev.filter(current => current.item_id !== item.item_id));
+    } catch (err: any) {
+      setError(err?.message || "Failed to delete checklist item");
+    }
+  };
+
+  const done = items.filter(item => item.is_done).length;
+
+  return (
+    <div className="mt-4 border-t pt-4">
+      <h3 className="text-sm font-semibold mb-2">
+        Checklist{items.length > 0 && <span className="font-normal text-gray-500"> ({done}/{items.length})</span>}
+      </h3>
+      {loading && <div className="text-sm text-gray-500">Loading checklist...</div>}
+      {error && <div className="text-sm text-red-500">{error}</div>}
+      <ul className="max-h-48 overflow-y-auto space-y-1">
+        {items.map(item => (
+          <li key={item.item_id} className="flex items-center gap-2 text-sm">
+            <input type="checkbox" checked={item.is_done} onChange={() => handleToggle(item)} />
+            <span className={`flex-1 ${item.is_done ? "line-through text-gray-500" : ""}`}>{item.content}</span>
+            <Button variant="ghost" size="sm" onClick={() => handleDelete(item)} aria-label="Delete checklist item">
+              ×
+            </Button>
+          </li>
+        ))}
+      </ul>
+      <form onSubmit={handleAdd} className="mt-2 flex gap-2">
+        <Input value={content} onChange={e => setContent(e.target.value)} placeholder="Add an item" maxLength={255} />
+        <Button type="submit" size="sm" disabled={!content.trim()}>Add</Button>
+      </form>
+    </div>
+  );
+};
+
+export default TaskChecklist;
@@ -0,0 +1,179 @@
+import React, { useEffect, useState } from 'react';
+import { TaskAPI } from "../lib/api";
+import { useAuth } from "../lib/authContext";
+import type { TaskComment } from "../lib/types";
+import { Button } from "./ui/button";
+
+// Same rule as the server: an @username not preceded by a word character
+const MENTION_PATTERN = /(^|[^\w@])(@[A-Za-z0-9_](?:[A-Za-z0-9_.-]*[A-Za-z0-9_])?)/g;
+
+/**
+ * Render comment text with its @mentions highlighted
+ */
+const CommentText: React.FC<{ text: string }> = ({ text }) => {
+  const parts = text.split(MENTION_PATTERN);
+  return (
+    <span className="whitespace-pre-wrap">
+      {parts.map((part, index) =>
+        part.startsWith("@") && index % 3 === 2
+          ? <span key={index} className="font-medium text-blue-600">{part}</span>
+          : part
+      )}
+    </span>
+  );
+};
+
+const commentInputClass = "w-full rounded-md border px-3 py-2 text-sm";
+
+interface TaskCommentsProps {
+  taskId: number;
+}
+
+const TaskComments: React.FC<TaskCommentsProps> = ({ taskId }) => {
+  const { user } = useAuth();
+  const [comments, setComments] = useState<TaskComment[]>([]);
+  const [content, setContent] = useState("");
+  const [replyTo, setReplyTo] = useState<TaskComment | null>(null);
+  const [editing, setEditing] = useState<{ id: number; content: string } | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    TaskAPI.getComments(taskId)
+      .then((data) => { if (!cancelled) setComments(data); })
+      .catch((err: any) => { if (!cancelled) setError(err?.message || "Failed to load comments"); })
+      .finally(() => { if (!cancelled) setLoading(false); });
+    return () => { cancelled = true; };
+  }, [taskId]);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!content.trim()) return;
+    try {
+      const comment = await TaskAPI.addComment(taskId, content.trim(), replyTo?.comment_id);
+      setComments(prev => [...prev, comment]);
+      setContent("");
+      setReplyTo(null);
+      setError(null);
+    } catch (err: any) {
+      setError(err?.message || "Failed to add comment");
+    }
+  };
+
+  const handleSave = async () => {
+    if (!editing || !editing.content.trim()) return;
+    try {
+      const updated = await TaskAPI.updateComment(taskId, editing.id, editing.content.trim());
+      setComments(prev => prev.map(comment => comment.comment_id === updated.comment_id ? updated : comment));
+      setEditing(null);
+    } catch (err: any) {
+      setError(err?.message || "Failed to update comment");
+    }
+  };
+
+  const handleDelete = async (comment: TaskComment) => {
+    try {
+      await TaskAPI.deleteComment(taskId, comment.comment_id);
+      const deletedAt = new Date().toISOString();
+      setComments(prev => prev.map(item =>
+        item.comment_id === comment.comment_id ? { ...item, content: null, deleted_at: deletedAt } : item
+      ));
+    } catch (err: any) {
+      setError(err?.message || "Failed to delete comment");
+    }
+  };
+
+  const renderComment = (comment: TaskComment) => {
+    const isAuthor = user?.user_id === comment.user_id;
+    return (
+      <div className="text-sm">
+        <div className="text-xs text-gray-500">
+          <span className="font-medium text-gray-700">{comment.username || "Deleted user"}</span>{" "}
+          {new Date(comment.created_at).toLocaleString()}
+          {comment.edited_at && !comment.deleted_at && " (edited)"}
+        </div>
+        {comment.deleted_at ? (
+          <div className="italic text-gray-400">This comment was deleted.</div>
+        ) : editing?.id === comment.comment_id ? (
+          <div className="space-y-1">
+            <textarea
+              className={commentInputClass}
+              value={editing.content}
+              onChange={e => setEditing({ id: comment.comment_id, content: e.target.value })}
+            />
+            <div className="flex gap-2">
+              <Button size="sm" onClick={handleSave} disabled={!editing.content.trim()}>Save</Button>
+              <Button size="sm" variant="ghost" onClick={() => setEditing(null)}>Cancel</Button>
+            </div>
+          </div>
+        ) : (
+          <>
+            <CommentText text={comment.content || ""} />
+            <div className="flex gap-2">
+              <Button variant="link" size="sm" className="h-auto p-0" onClick={() => setReplyTo(comment)}>Reply</Button>
+              {isAuthor && (
+                <Button
+                  variant="link"
+                  size="sm"
+                  className="h-auto p-0"
+                  onClick={() => setEditing({ id: comment.comment_id, content: comment.content || "" })}
+                >
+                  Edit
+                </Button>
+              )}
+              <Button variant="link" size="sm" className="h-auto p-0" onClick={() => handleDelete(comment)}>Delete</Button>
+            </div>
+          </>
+        )}
+      </div>
+    );
+  };
+
+  const threads = comments.filter(comment => comment.parent_comment_id === null);
+
+  return (
+    <div className="mt-4 border-t pt-4">
+      <h3 className="text-sm font-semibold mb-2">Comments</h3>
+      {loading && <div className="text-sm text-gray-500">Loading comments...</div>}
+      {error && <div className="text-sm text-red-500">{error}</div>}
+      {!loading && !error && comments.length === 0 && (
+        <div className="text-sm text-gray-500">No comments yet.</div>
+      )}
+      <ol className="max-h-64 overflow-y-auto space-y-3">
+        {threads.map(thread => (
+          <li key={thread.comment_id}>
+            {renderComment(thread)}
+            <ol className="ml-4 mt-2 space-y-2 border-l pl-3">
+              {comments
+                .filter(reply => reply.parent_comment_id === thread.comment_id)
+                .map(reply => <li key={reply.comment_id}>{renderComment(reply)}</li>)}
+            </ol>
+          </li>
+        ))}
+      </ol>
+      <form onSubmit={handleAdd} className="mt-2 space-y-1">
+        {replyTo && (
+          <div className="text-xs text-gray-500">
+            Replying to {replyTo.username || "a deleted user"}{" "}
+            <Button type="button" variant="link" size="sm" className="h-auto p-0" onClick={() => setReplyTo(null)}>
+              Cancel
+            </Button>
+          </div>
+        )}
+        <textarea
+          className={commentInputClass}
+          value={content}
+          onChange={e => setContent(e.target.value)}
+          placeholder="Write a comment; mention people with @username"
+          maxLength={5000}
+        />
+        <Button type="submit" size="sm" disabled={!content.trim()}>Comment</Button>
+      </form>
+    </div>
+  );
+};
+
+export default TaskComments;
@@ -0,0 +1,107 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { TaskAPI } from "../lib/api";
+import type { TaskGraph, TaskGraphNode } from "../lib/types";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+
+const isOpen = (node: TaskGraphNode) => node.status_category !== 'done' && node.status_category !== 'cancelled';
+
+interface TaskDependenciesProps {
+  taskId: number;
+}
+
+const TaskDependencies: React.FC<TaskDependenciesProps> = ({ taskId }) => {
+  const [graph, setGraph] = useState<TaskGraph | null>(null);
+  const [blockerId, setBlockerId] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchGraph = useCallback(async () => {
+    try {
+      setGraph(await TaskAPI.getGraph(taskId));
+    } catch (err: any) {
+      setError(err?.message || "Failed to load dependencies");
+    }
+  }, [taskId]);
+
+  useEffect(() => {
+    setLoading(true);
+    setError(null);
+    fetchGraph().finally(() => setLoading(false));
+  }, [fetchGraph]);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!blockerId) return;
+    try {
+      await TaskAPI.addBlocker(taskId, Number(blockerId));
+      setBlockerId("");
+      setError(null);
+      await fetchGraph();
+    } catch (err: any) {
+      setError(err?.message || "Failed to add blocking task");
+    }
+  };
+
+  const handleRemove = async (node: TaskGraphNode) => {
+    try {
+      await TaskAPI.removeBlocker(taskId, node.task_id);
+      await fetchGraph();
+    } catch (err: any) {
+      setError(err?.message || "Failed to remove blocking task");
+    }
+  };
+
+  const renderNode = (node: TaskGraphNode, removable: boolean) => (
+    <li key={node.task_id} className="flex items-center gap-2 text-sm">
+      <span className={`flex-1 ${isOpen(node) ? "" : "line-through text-gray-500"}`}>
+        #{node.task_id} {node.title}
+        {node.depth > 1 && <span className="text-xs text-gray-400"> (indirect)</span>}
+      </span>
+      <span className="text-xs text-gray-500">{node.status}</span>
+      {removable && (
+        <Button variant="ghost" size="sm" onClick={() => handleRemove(node)} aria-label="Remove blocking task">
+          ×
+        </Button>
+      )}
+    </li>
+  );
+
+  const openBlockers = graph ? graph.upstream.filter(node => node.depth === 1 && isOpen(node)).length : 0;
+
+  return (
+    <div className="mt-4 border-t pt-4">
+      <h3 className="text-sm font-semibold mb-2">
+        Dependencies{openBlockers > 0 && <span className="font-normal text-red-500"> (blocked by {openBlockers})</span>}
+      </h3>
+      {loading && <div className="text-sm text-gray-500">Loading dependencies...</div>}
+      {error && <div className="text-sm text-red-500">{error}</div>}
+      {graph && (
+        <div className="max-h-48 overflow-y-auto space-y-2">
+          <div>
+            <div className="text-xs font-medium text-gray-500">Blocked by</div>
+            {graph.upstream.length === 0 && <div className="text-sm text-gray-500">No blocking tasks.</div>}
+            <ul className="space-y-1">{graph.upstream.map(node => renderNode(node, node.depth === 1))}</ul>
+          </div>
+          <div>
+            <div className="text-xs font-medium text-gray-500">Blocks</div>
+            {graph.downstream.length === 0 && <div className="text-sm text-gray-500">No blocked tasks.</div>}
+            <ul className="space-y-1">{graph.downstream.map(node => renderNode(node, false))}</ul>
+          </div>
+        </div>
+      )}
+      <form onSubmit={handleAdd} className="mt-2 flex gap-2">
+        <Input
+          type="number"
+          min={1}
+          value={blockerId}
+          onChange={e => setBlockerId(e.target.value)}
+          placeholder="ID of a blocking task"
+        />
+        <Button type="submit" size="sm" disabled={!blockerId}>Add</Button>
+      </form>
+    </div>
+  );
+};
+
+export default TaskDependencies;
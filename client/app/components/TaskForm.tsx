@@ -1,6 +1,7 @@
 // TaskForm.tsx - Form for creating and editing tasks using shadcn/ui
 import React, { useEffect, useState, useRef } from "react";
-import type { Task, TaskCreate, TaskUpdate } from "~/lib/types";
+import type { Category, Priority, RecurrenceRule, RecurrenceScope, Task, TaskCreate, TaskUpdate } from "~/lib/types";
+import { CategoryAPI, PriorityAPI } from "~/lib/api";
 import { Input } from "./ui/input";
 import {
   Select,
@@ -15,22 +16,14 @@ import { Calendar } from "./ui/calendar";
 import { Button } from "./ui/button";
 import { Popover, PopoverTrigger, PopoverContent } from "./ui/popover";
 import { Label } from "./ui/label";
+import { RecurrencePicker } from "./RecurrencePicker";
+import { TagInput } from "./TagInput";
 import { ChevronDownIcon } from "lucide-react";
 import { useAuth } from "../lib/authContext";
 
-interface PriorityOption {
-  id: number;
-  name: string;
-}
-
-interface CategoryOption {
-  id: number;
-  name: string;
-}
-
 interface TaskFormProps {
   initialValues?: Partial<Task | null>;
-  onSubmit: (data: TaskCreate | TaskUpdate) => Promise<void>;
+  onSubmit: (data: TaskCreate | TaskUpdate, scope?: RecurrenceScope) => Promise<void>;
   loading?: boolean;
   error?: string | null;
 }
@@ -46,24 +39,23 @@ export const TaskForm: React.FC<TaskFormProps> = ({
   const [description, setDescription] = useState(initialValues?.description || "");
   const [priorityId, setPriorityId] = useState(initialValues?.priority_id || "");
   const [categoryId, setCategoryId] = useState(initialValues?.category_id || "");
+  const [tags, setTags] = useState<string[]>(initialValues?.tags || []);
   const [dueDate, setDueDate] = useState(initialValues?.due_date || "");
+  const [recurrence, setRecurrence] = useState<RecurrenceRule | null>(initialValues?.recurrence || null);
+  const [scope, setScope] = useState<RecurrenceScope>("this");
+  const isRecurring = Boolean(initialValues?.series_id);
   const [formError, setFormError] = useState<string | null>(null);
-  const [priorities, setPriorities] = useState<PriorityOption[]>([]);
-  const [categories, setCategories] = useState<CategoryOption[]>([]);
+  const [priorities, setPriorities] = useState<Priority[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
   const [open, setOpen] = useState(false);
 
   useEffect(() => {
-    // TODO: Replace with real API call
-    setPriorities([
-      { id: 1, name: "Low" },
-      { id: 2, name: "Medium" },
-      { id: 3, name: "High" },
-    ]);
-    setCategories([
-      { id: 1, name: "Work" },
-      { id: 2, name: "Personal" },
-      { id: 3, name: "Errands" },
-    ]);
+    PriorityAPI.getAll()
+      .then((data) => setPriorities([...data].sort((a, b) => a.rank - b.rank)))
+      .catch(() => setPriorities([]));
+    CategoryAPI.getAll()
+      .then(setCategories)
+      .catch(() => setCategories([]));
   }, []);
 
   const validate = () => {
@@ -96,14 +88,23 @@ export const TaskForm: React.FC<TaskFormProps> = ({
         setFormError("Description is required.");
         return;
       }
+      if (recurrence && !dueDate) {
+        setFormError("A recurring task needs a due date.");
+        return;
+      }
       await onSubmit({
         user_id: user_id,
         title,
         description,
         priority_id: priorityId ? Number(priorityId) : undefined,
         category_id: categoryId ? Number(categoryId) : undefined,
+        tags,
         due_date: dueDate ? new Date(dueDate) : undefined,
-      });
+        // The parent is picked before the form opens and only set on new tasks
+        parent_task_id: initialValues?.task_id ? undefined : initialValues?.parent_task_id ?? undefined,
+        // Stopping the recurrence of a recurring task needs an explicit null
+        recurrence: recurrence || (isRecurring ? null : undefined),
+      }, isRecurring ? scope : undefined);
     } catch (submitError: any) {
       setFormError(submitError?.message || "Failed to submit");
     }
@@ -129,7 +130,7 @@ export const TaskForm: React.FC<TaskFormProps> = ({
             <SelectGroup>
               <SelectLabel>Priority</SelectLabel>
               {priorities.map((p) => (
-                <SelectItem key={p.id} value={p.id.toString()}>{p.name}</SelectItem>
+                <SelectItem key={p.priority_id} value={p.priority_id.toString()}>{p.name}</SelectItem>
               ))}
             </SelectGroup>
           </SelectContent>
@@ -145,12 +146,19 @@ export const TaskForm: React.FC<TaskFormProps> = ({
             <SelectGroup>
               <SelectLabel>Category</SelectLabel>
               {categories.map((c) => (
-                <SelectItem key={c.id} value={c.id.toString()}>{c.name}</SelectItem>
+                <SelectItem key={c.category_id} value={c.category_id.toString()}>
+                  <span className="inline-block h-2 w-2 rounded-full" style={{ backgroundColor: c.color }} />
+                  {c.name}
+                </SelectItem>
               ))}
             </SelectGroup>
           </SelectContent>
         </Select>
       </div>
+      <div>
+        <label className="block mb-1">Tags</label>
+        <TagInput value={tags} onChange={setTags} workspaceId={initialValues?.workspace_id} />
+      </div>
       <div>
         <Label htmlFor="due-date" className="block mb-1">Due Date</Label>
         <Popover open={open} onOpenChange={setOpen}>
@@ -178,6 +186,24 @@ export const TaskForm: React.FC<TaskFormProps> = ({
           </PopoverContent>
         </Popover>
       </div>
+      <div>
+        <Label className="block mb-1">Repeat</Label>
+        <RecurrencePicker value={recurrence} onChange={setRecurrence} dueDate={dueDate} />
+      </div>
+      {isRecurring && (
+        <div>
+          <Label className="block mb-1">Apply changes to</Label>
+          <Select value={scope} onValueChange={v => setScope(v as RecurrenceScope)}>
+            <SelectTrigger className="w-56">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="this">This occurrence</SelectItem>
+              <SelectItem value="future">This and future occurrences</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      )}
       {(formError || error) && (
         <div className="text-red-500 text-sm">{formError || error}</div>
       )}
@@ -0,0 +1,100 @@
+import React, { useEffect, useState } from 'react';
+import { TaskAPI } from "../lib/api";
+import type { TaskEvent } from "../lib/types";
+
+const FIELD_LABELS: Record<string, string> = {
+  title: "title",
+  description: "description",
+  category_id: "category",
+  priority_id: "priority",
+  due_date: "due date",
+  status: "status",
+  archived_at: "archived",
+  workspace_id: "workspace",
+  parent_task_id: "parent task",
+  assignee: "assignee",
+  tags: "tags",
+};
+
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === '' || (Array.isArray(value) && value.length === 0)) {
+    return "none";
+  }
+  return Array.isArray(value) ? value.join(", ") : String(value);
+};
+
+/**
+ * Describe a task event in one line, e.g. "changed status from pending to completed"
+ */
+const describeEvent = (event: TaskEvent): string => {
+  const change = (field: string) => event.changes[field] || { from: null, to: null };
+  switch (event.event_type) {
+    case 'created':
+      return "created the task";
+    case 'deleted':
+      return "deleted the task";
+    case 'assigned':
+      return `assigned user #${formatValue(change('assignee').to)}`;
+    case 'unassigned':
+      return `unassigned user #${formatValue(change('assignee').from)}`;
+    case 'status_changed':
+      return `changed status from ${formatValue(change('status').from)} to ${formatValue(change('status').to)}`;
+    case 'commented':
+      return "commented";
+    case 'comment_edited':
+      return "edited a comment";
+    case 'comment_deleted':
+      return "deleted a comment";
+    case 'attachment_added':
+      return `attached ${formatValue(change('file_name').to)}`;
+    case 'attachment_removed':
+      return `removed attachment ${formatValue(change('file_name').from)}`;
+    default:
+      return Object.entries(event.changes)
+        .map(([field, { from, to }]) => `changed ${FIELD_LABELS[field] || field} from ${formatValue(from)} to ${formatValue(to)}`)
+        .join(", ");
+  }
+};
+
+interface TaskHistoryProps {
+  taskId: number;
+}
+
+const TaskHistory: React.FC<TaskHistoryProps> = ({ taskId }) => {
+  const [events, setEvents] = useState<TaskEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    TaskAPI.getHistory(taskId)
+      .then((data) => { if (!cancelled) setEvents(data); })
+      .catch((err: any) => { if (!cancelled) setError(err?.message || "Failed to load history"); })
+      .finally(() => { if (!cancelled) setLoading(false); });
+    return () => { cancelled = true; };
+  }, [taskId]);
+
+  return (
+    <div className="mt-4 border-t pt-4">
+      <h3 className="text-sm font-semibold mb-2">History</h3>
+      {loading && <div className="text-sm text-gray-500">Loading history...</div>}
+      {error && <div className="text-sm text-red-500">{error}</div>}
+      {!loading && !error && events.length === 0 && (
+        <div className="text-sm text-gray-500">No activity yet.</div>
+      )}
+      <ol className="max-h-48 overflow-y-auto space-y-2">
+        {events.map(event => (
+          <li key={event.event_id} className="text-sm">
+            <span className="font-medium">{event.username || "System"}</span>{" "}
+            {describeEvent(event)}
+            <div className="text-xs text-gray-500">{new Date(event.created_at).toLocaleString()}</div>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+};
+
+export default TaskHistory;
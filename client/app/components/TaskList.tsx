@@ -1,35 +1,137 @@
 import React, { useState, useMemo } from 'react';
-import type { Task } from "../lib/types";
+import type {
+  Category,
+  Priority,
+  Status,
+  StatusCategory,
+  Task,
+  TaskBulkRequest,
+  TaskProgress,
+  TaskSearchResult,
+} from "../lib/types";
 import { Button } from "./ui/button";
 
-const PRIORITY_MAP: Record<number, string> = {
-  1: "Low",
-  2: "Medium",
-  3: "High",
+// Status filters matching every status of their categories
+const STATUS_GROUPS: Record<string, StatusCategory[]> = {
+  open: ['todo', 'in_progress'],
+  closed: ['done', 'cancelled'],
 };
-const CATEGORY_MAP: Record<number, string> = {
-  1: "Work",
-  2: "Personal",
-  3: "Errands",
+
+export type TaskSortBy = 'due_date' | 'priority' | 'created_at' | 'updated_at' | 'title' | 'status';
+
+// Operation of the bulk action bar; the selected tasks are added by the list
+export type TaskBulkAction = Omit<TaskBulkRequest, 'task_ids' | 'filter'>;
+
+/**
+ * Render search highlights; matches arrive wrapped in <mark></mark> and the rest
+ * is rendered as plain text, so task content is never interpreted as HTML
+ */
+const Highlight: React.FC<{ text: string }> = ({ text }) => (
+  <>
+    {text.split(/<mark>(.*?)<\/mark>/g).map((part, index) =>
+      index % 2 === 1 ? <mark key={index}>{part}</mark> : <React.Fragment key={index}>{part}</React.Fragment>
+    )}
+  </>
+);
+
+/**
+ * Show how much of a task's subtasks or checklist is done, e.g. "3/5"
+ */
+const ProgressBadge: React.FC<{ progress?: TaskProgress; label: string; icon?: string }> = ({ progress, label, icon }) => {
+  if (!progress || progress.total === 0) {
+    return null;
+  }
+  const complete = progress.done >= progress.total;
+  return (
+    <span
+      className={`rounded px-1.5 text-xs font-normal ${complete ? "bg-green-100 text-green-700" : "bg-gray-100 text-gray-600"}`}
+      title={`${progress.done} of ${progress.total} ${label} done`}
+    >
+      {icon}{progress.done}/{progress.total}
+    </span>
+  );
 };
 
+type ListedTask = Task | TaskSearchResult;
+
+interface TaskRow {
+  task: ListedTask;
+  depth: number;
+  hasSubtasks: boolean;
+}
+
 interface TaskListProps {
   tasks: Task[];
+  searchResults?: TaskSearchResult[] | null;
+  categories?: Category[];
+  priorities?: Priority[];
+  statuses?: Status[];
+  total?: number;
+  sortBy?: TaskSortBy;
+  sortOrder?: 'asc' | 'desc';
+  hasMore?: boolean;
+  loadingMore?: boolean;
+  showArchived?: boolean;
+  onSortChange?: (sortBy: TaskSortBy, sortOrder: 'asc' | 'desc') => void;
+  onLoadMore?: () => void;
+  onSearchChange?: (search: string) => void;
   onDeleteTask?: (id: number) => void;
   onEditTask?: (task: Task) => void;
+  onAddSubtask?: (parent: Task) => void;
+  onBulkAction?: (taskIds: number[], action: TaskBulkAction) => Promise<void>;
+  onShowArchivedChange?: (showArchived: boolean) => void;
 }
 
-const TaskList: React.FC<TaskListProps> = ({ tasks, onDeleteTask, onEditTask }) => {
+const TaskList: React.FC<TaskListProps> = ({
+  tasks,
+  searchResults = null,
+  categories = [],
+  priorities = [],
+  statuses = [],
+  total,
+  sortBy = 'due_date',
+  sortOrder = 'asc',
+  hasMore = false,
+  loadingMore = false,
+  showArchived = false,
+  onSortChange,
+  onLoadMore,
+  onSearchChange,
+  onDeleteTask,
+  onEditTask,
+  onAddSubtask,
+  onBulkAction,
+  onShowArchivedChange,
+}) => {
   const [search, setSearch] = useState('');
+  const [collapsed, setCollapsed] = useState<Set<number>>(new Set());
   const [filterStatus, setFilterStatus] = useState('');
   const [priorityFilter, setPriorityFilter] = useState('');
   const [categoryFilter, setCategoryFilter] = useState('');
-  const [sortBy, setSortBy] = useState('due_date');
-  const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('asc');
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [bulkBusy, setBulkBusy] = useState(false);
+
+  const categoriesById = useMemo(
+    () => new Map(categories.map(category => [category.category_id, category])),
+    [categories]
+  );
+
+  const prioritiesById = useMemo(
+    () => new Map(priorities.map(priority => [priority.priority_id, priority])),
+    [priorities]
+  );
+
+  // Workspace statuses take precedence over built-in ones with the same key
+  const findStatus = (task: Task) =>
+    statuses.find(status => status.key === task.status && status.workspace_id === (task.workspace_id ?? null))
+    ?? statuses.find(status => status.key === task.status && status.workspace_id === null);
 
   const filteredTasks = useMemo(() => {
-    let filtered = Array.isArray(tasks) ? tasks : [];
-    if (filterStatus) {
+    // Search is done by the server; results replace the loaded page while searching
+    let filtered: Array<Task | TaskSearchResult> = searchResults ?? (Array.isArray(tasks) ? tasks : []);
+    if (STATUS_GROUPS[filterStatus]) {
+      filtered = filtered.filter(task => STATUS_GROUPS[filterStatus].includes(task.status_category ?? 'todo'));
+    } else if (filterStatus) {
       filtered = filtered.filter(task => task.status === filterStatus);
     }
     if (priorityFilter) {
@@ -38,14 +140,72 @@ const TaskList: React.FC<TaskListProps> = ({ tasks, onDeleteTask, onEditTask })
     if (categoryFilter) {
       filtered = filtered.filter(task => String(task.category_id) === categoryFilter);
     }
-    if (search) {
-      filtered = filtered.filter(task =>
-        task.title.toLowerCase().includes(search.toLowerCase()) ||
-        (task.description && task.description.toLowerCase().includes(search.toLowerCase()))
-      );
-    }
     return filtered;
-  }, [tasks, search, filterStatus, priorityFilter, categoryFilter, sortBy, sortOrder]);
+  }, [tasks, searchResults, filterStatus, priorityFilter, categoryFilter]);
+
+  // Subtasks are listed under their parent when both are shown; the others stay top-level
+  const rows = useMemo(() => {
+    const shown = new Set(filteredTasks.map(task => task.task_id));
+    const subtasks = new Map<number, ListedTask[]>();
+    const roots: ListedTask[] = [];
+    for (const task of filteredTasks) {
+      if (task.parent_task_id && shown.has(task.parent_task_id)) {
+        subtasks.set(task.parent_task_id, [...(subtasks.get(task.parent_task_id) || []), task]);
+      } else {
+        roots.push(task);
+      }
+    }
+
+    const result: TaskRow[] = [];
+    const visit = (task: ListedTask, depth: number) => {
+      const children = subtasks.get(task.task_id) || [];
+      result.push({ task, depth, hasSubtasks: children.length > 0 });
+      if (!collapsed.has(task.task_id)) {
+        children.forEach(child => visit(child, depth + 1));
+      }
+    };
+    roots.forEach(task => visit(task, 0));
+    return result;
+  }, [filteredTasks, collapsed]);
+
+  // Only the tasks still shown count as selected once filters change
+  const selectedIds = rows.map(row => row.task.task_id).filter(taskId => selected.has(taskId));
+  const allSelected = rows.length > 0 && selectedIds.length === rows.length;
+
+  const toggleSelected = (taskId: number) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(taskId)) {
+        next.delete(taskId);
+      } else {
+        next.add(taskId);
+      }
+      return next;
+    });
+  };
+
+  const runBulkAction = async (action: TaskBulkAction) => {
+    if (!onBulkAction || selectedIds.length === 0) return;
+    setBulkBusy(true);
+    try {
+      await onBulkAction(selectedIds, action);
+      setSelected(new Set());
+    } finally {
+      setBulkBusy(false);
+    }
+  };
+
+  const toggleCollapsed = (taskId: number) => {
+    setCollapsed(prev => {
+      const next = new Set(prev);
+      if (next.has(taskId)) {
+        next.delete(taskId);
+      } else {
+        next.add(taskId);
+      }
+      return next;
+    });
+  };
 
   return (
     <div className="p-4 max-w-4xl mx-auto">
@@ -54,11 +214,26 @@ const TaskList: React.FC<TaskListProps> = ({ tasks, onDeleteTask, onEditTask })
           type="text"
           placeholder="Search tasks..."
           value={search}
-          onChange={e => setSearch(e.target.value)}
+          onChange={e => {
+            setSearch(e.target.value);
+            onSearchChange && onSearchChange(e.target.value);
+          }}
           className="border rounded px-2 py-1 w-full md:w-1/3"
         />
         <div className="flex gap-2 flex-wrap">
           {/* Filter by Status */}
+          <select
+            value={filterStatus}
+            onChange={e => setFilterStatus(e.target.value)}
+            className="border rounded px-2 py-1"
+          >
+            <option value="">All Statuses</option>
+            <option value="open">Open</option>
+            <option value="closed">Closed</option>
+            {Array.from(new Map(statuses.map(status => [status.key, status])).values()).map(status => (
+              <option key={status.key} value={status.key}>{status.name}</option>
+            ))}
+          </select>
           {/* Filter by Priority */}
           <select
             value={priorityFilter}
@@ -66,9 +241,9 @@ const TaskList: React.FC<TaskListProps> = ({ tasks, onDeleteTask, onEditTask })
             className="border rounded px-2 py-1"
           >
             <option value="">All Priorities</option>
-            <option value="1">Low</option>
-            <option value="2">Medium</option>
-            <option value="3">High</option>
+            {priorities.map(priority => (
+              <option key={priority.priority_id} value={priority.priority_id}>{priority.name}</option>
+            ))}
           </select>
           {/* Filter by Category */}
           <select
@@ -77,37 +252,114 @@ const TaskList: React.FC<TaskListProps> = ({ tasks, onDeleteTask, onEditTask })
             className="border rounded px-2 py-1"
           >
             <option value="">All Categories</option>
-            <option value="1">Work</option>
-            <option value="2">Personal</option>
-            <option value="3">Errands</option>
+            {categories.map(category => (
+              <option key={category.category_id} value={String(category.category_id)}>{category.name}</option>
+            ))}
           </select>
-          {/* <select
+          {/* Sort (applied by the server) */}
+          <select
             value={sortBy}
-            onChange={e => setSortBy(e.target.value)}
+            onChange={e => onSortChange && onSortChange(e.target.value as TaskSortBy, sortOrder)}
             className="border rounded px-2 py-1"
           >
             <option value="due_date">Due Date</option>
-            <option value="priority_id">Priority ID</option>
+            <option value="priority">Priority</option>
             <option value="title">Title</option>
+            <option value="status">Status</option>
+            <option value="created_at">Created At</option>
+            <option value="updated_at">Updated At</option>
           </select>
           <button
-            onClick={() => setSortOrder(sortOrder === 'asc' ? 'desc' : 'asc')}
+            onClick={() => onSortChange && onSortChange(sortBy, sortOrder === 'asc' ? 'desc' : 'asc')}
             className="border rounded px-2 py-1"
             aria-label="Toggle sort order"
           >
             {sortOrder === 'asc' ? '↑' : '↓'}
-          </button> */}
+          </button>
+          {onShowArchivedChange && (
+            <label className="flex items-center gap-1">
+              <input
+                type="checkbox"
+                checked={showArchived}
+                onChange={e => onShowArchivedChange(e.target.checked)}
+              />
+              Archived
+            </label>
+          )}
         </div>
       </div>
+      {onBulkAction && selectedIds.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 mb-2 rounded border bg-blue-50 px-3 py-2 text-sm">
+          <span className="font-medium">{selectedIds.length} selected</span>
+          {/* Picking an option applies it to every selected task */}
+          <select
+            value=""
+            disabled={bulkBusy}
+            onChange={e => e.target.value && runBulkAction({ operation: 'change_status', status: e.target.value })}
+            className="border rounded px-2 py-1"
+          >
+            <option value="">Set status...</option>
+            {Array.from(new Map(statuses.map(status => [status.key, status])).values()).map(status => (
+              <option key={status.key} value={status.key}>{status.name}</option>
+            ))}
+          </select>
+          <select
+            value=""
+            disabled={bulkBusy}
+            onChange={e => e.target.value && runBulkAction({ operation: 'update', fields: { priority_id: Number(e.target.value) } })}
+            className="border rounded px-2 py-1"
+          >
+            <option value="">Set priority...</option>
+            {priorities.map(priority => (
+              <option key={priority.priority_id} value={priority.priority_id}>{priority.name}</option>
+            ))}
+          </select>
+          <select
+            value=""
+            disabled={bulkBusy}
+            onChange={e => e.target.value && runBulkAction({ operation: 'update', fields: { category_id: Number(e.target.value) } })}
+            className="border rounded px-2 py-1"
+          >
+            <option value="">Set category...</option>
+            {categories.map(category => (
+              <option key={category.category_id} value={String(category.category_id)}>{category.name}</option>
+            ))}
+          </select>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={bulkBusy}
+            onClick={() => runBulkAction({ operation: showArchived ? 'unarchive' : 'archive' })}
+          >
+            {showArchived ? "Unarchive" : "Archive"}
+          </Button>
+          <Button variant="destructive" size="sm" disabled={bulkBusy} onClick={() => runBulkAction({ operation: 'delete' })}>
+            Delete
+          </Button>
+          <Button variant="ghost" size="sm" disabled={bulkBusy} onClick={() => setSelected(new Set())}>
+            Clear
+          </Button>
+        </div>
+      )}
       <div className="overflow-x-auto">
         <table className="min-w-[1200px] bg-white border rounded shadow text-sm">
           <thead className="bg-gray-50">
             <tr>
+              {onBulkAction && (
+                <th className="px-2 py-2">
+                  <input
+                    type="checkbox"
+                    checked={allSelected}
+                    onChange={() => setSelected(allSelected ? new Set() : new Set(rows.map(row => row.task.task_id)))}
+                    aria-label="Select all tasks"
+                  />
+                </th>
+              )}
               <th className="px-4 py-2 text-left">Title</th>
               <th className="px-4 py-2 text-left">Description</th>
               <th className="px-4 py-2 text-left">Status</th>
               <th className="px-4 py-2 text-left">Priority</th>
-              <th className="px-4 py-2 text-left">Category</th>
+              <th className="px-4 py-2 text-left">Category / Tags</th>
               <th className="px-4 py-2 text-left">Due Date</th>
               <th className="px-4 py-2 text-left">Created At</th>
               <th className="px-4 py-2 text-left">Updated At</th>
@@ -115,18 +367,75 @@ const TaskList: React.FC<TaskListProps> = ({ tasks, onDeleteTask, onEditTask })
             </tr>
           </thead>
           <tbody>
-            {filteredTasks.length === 0 ? (
+            {rows.length === 0 ? (
               <tr>
-                <td colSpan={9} className="text-center text-gray-500 py-4">No tasks found.</td>
+                <td colSpan={onBulkAction ? 10 : 9} className="text-center text-gray-500 py-4">No tasks found.</td>
               </tr>
             ) : (
-              filteredTasks.map(task => (
+              rows.map(({ task, depth, hasSubtasks }) => (
                 <tr key={task.task_id} className="border-t hover:bg-gray-50">
-                  <td className="px-4 py-2 font-medium">{task.title}</td>
-                  <td className="px-4 py-2">{task.description}</td>
-                  <td className="px-4 py-2">{task.status}</td>
-                  <td className="px-4 py-2">{PRIORITY_MAP[task.priority_id] || task.priority_id}</td>
-                  <td className="px-4 py-2">{CATEGORY_MAP[task.category_id] || task.category_id}</td>
+                  {onBulkAction && (
+                    <td className="px-2 py-2">
+                      <input
+                        type="checkbox"
+                        checked={selected.has(task.task_id)}
+                        onChange={() => toggleSelected(task.task_id)}
+                        aria-label={`Select ${task.title}`}
+                      />
+                    </td>
+                  )}
+                  <td className="px-4 py-2 font-medium">
+                    <div className="flex items-center gap-1" style={{ paddingLeft: `${depth * 1.25}rem` }}>
+                      {hasSubtasks ? (
+                        <button
+                          type="button"
+                          onClick={() => toggleCollapsed(task.task_id)}
+                          className="w-4 text-gray-500"
+                          aria-label={collapsed.has(task.task_id) ? "Show subtasks" : "Hide subtasks"}
+                        >
+                          {collapsed.has(task.task_id) ? '▸' : '▾'}
+                        </button>
+                      ) : (
+                        <span className="w-4" />
+                      )}
+                      <span>{"highlights" in task ? <Highlight text={task.highlights.title} /> : task.title}</span>
+                      <ProgressBadge progress={task.subtask_progress} label="subtasks" />
+                      <ProgressBadge progress={task.checklist_progress} label="checklist items" icon="☑ " />
+                    </div>
+                  </td>
+                  <td className="px-4 py-2">
+                    {"highlights" in task && task.highlights.description
+                      ? <Highlight text={task.highlights.description} />
+                      : task.description}
+                  </td>
+                  <td className="px-4 py-2" title={task.cancellation_reason || undefined}>
+                    <span className="inline-flex items-center gap-1">
+                      <span
+                        className="inline-block h-2 w-2 rounded-full"
+                        style={{ backgroundColor: findStatus(task)?.color ?? '#6B7280' }}
+                      />
+                      {findStatus(task)?.name ?? task.status}
+                    </span>
+                  </td>
+                  <td className="px-4 py-2">{prioritiesById.get(task.priority_id)?.name || task.priority_id}</td>
+                  <td className="px-4 py-2">
+                    {categoriesById.has(task.category_id) && (
+                      <span className="inline-flex items-center gap-1">
+                        <span
+                          className="inline-block h-2 w-2 rounded-full"
+                          style={{ backgroundColor: categoriesById.get(task.category_id)!.color }}
+                        />
+                        {categoriesById.get(task.category_id)!.name}
+                      </span>
+                    )}
+                    {task.tags && task.tags.length > 0 && (
+                      <div className="mt-1 flex flex-wrap gap-1">
+                        {task.tags.map(tag => (
+                          <span key={tag} className="rounded bg-gray-100 px-1.5 py-0.5 text-xs text-gray-700">{tag}</span>
+                        ))}
+                      </div>
+                    )}
+                  </td>
                   <td className="px-4 py-2">{task.due_date ? new Date(task.due_date).toLocaleDateString() : ""}</td>
                   <td className="px-4 py-2">{task.created_at ? new Date(task.created_at).toLocaleString() : ""}</td>
                   <td className="px-4 py-2">{task.updated_at ? new Date(task.updated_at).toLocaleString() : ""}</td>
@@ -134,6 +443,11 @@ const TaskList: React.FC<TaskListProps> = ({ tasks, onDeleteTask, onEditTask })
                     <Button variant="outline" size="sm" onClick={() => onEditTask && onEditTask(task)}>
                       Edit
                     </Button>
+                    {onAddSubtask && (
+                      <Button variant="outline" size="sm" onClick={() => onAddSubtask(task)}>
+                        Add subtask
+                      </Button>
+                    )}
                     <Button variant="destructive" size="sm" onClick={() => onDeleteTask && onDeleteTask(task.task_id)}>
                       Delete
                     </Button>
@@ -144,6 +458,16 @@ const TaskList: React.FC<TaskListProps> = ({ tasks, onDeleteTask, onEditTask })
           </tbody>
         </table>
       </div>
+      <div className="flex items-center justify-between mt-2 text-sm text-gray-500">
+        {searchResults
+          ? <span>{searchResults.length} matching tasks</span>
+          : total !== undefined && <span>Showing {tasks.length} of {total} tasks</span>}
+        {hasMore && !searchResults && (
+          <Button variant="outline" size="sm" onClick={onLoadMore} disabled={loadingMore}>
+            {loadingMore ? "Loading..." : "Load more"}
+          </Button>
+        )}
+      </div>
     </div>
   );
 };
@@ -1,12 +1,41 @@
 import axios, { AxiosError } from "axios";
 import type {
+  Category,
+  CategoryCreate,
+  Priority,
+  Tag,
   Task,
   TaskCreate,
   TaskUpdate,
   TaskQuery,
+  TaskPage,
+  TaskSearchResult,
+  TaskBulkRequest,
+  TaskBulkResult,
+  TaskEvent,
+  RecurrenceScope,
+  SubtaskCompletion,
+  ChecklistItem,
+  TaskDependency,
+  TaskGraph,
+  TaskComment,
+  TaskAttachment,
+  AttachmentUrl,
   AuthLogin,
   AuthRegister,
   AuthResponse,
+  AuthTokens,
+  User,
+  Status,
+  StatusCreate,
+  StatusTransitions,
+  Workspace,
+  WorkspaceMember,
+  WorkspaceRole,
+  Notification,
+  NotificationPage,
+  NotificationQuery,
+  NotificationPreference,
 } from "./types";
 
 const API_BASE_URL = "http://localhost:3000/api";
@@ -35,10 +64,48 @@ api.interceptors.request.use(
   (error) => Promise.reject(error)
 );
 
+// --- Silent token refresh ---
+// Concurrent requests that hit an expired token share a single refresh call
+let refreshRequest: Promise<string> | null = null;
+
+function refreshAccessToken(): Promise<string> {
+  if (!refreshRequest) {
+    const refreshToken = localStorage.getItem("refreshToken");
+    refreshRequest = (refreshToken
+      ? AuthAPI.refreshToken(refreshToken).then((tokens) => {
+          localStorage.setItem("accessToken", tokens.accessToken);
+          localStorage.setItem("refreshToken", tokens.refreshToken);
+          return tokens.accessToken;
+        })
+      : Promise.reject(new Error("No refresh token"))
+    ).finally(() => {
+      refreshRequest = null;
+    });
+  }
+  return refreshRequest;
+}
+
 // Response interceptor for error handling
 api.interceptors.response.use(
   (response: any) => response,
-  (error: AxiosError) => {
+  async (error: AxiosError<any>) => {
+    const original: any = error.config;
+    if (
+      error.response?.status === 401 &&
+      error.response.data?.error?.code === "TOKEN_EXPIRED" &&
+      original &&
+      !original._retry
+    ) {
+      original._retry = true;
+      try {
+        const accessToken = await refreshAccessToken();
+        original.headers["Authorization"] = `Bearer ${accessToken}`;
+        return api(original);
+      } catch {
+        localStorage.removeItem("accessToken");
+        localStorage.removeItem("refreshToken");
+      }
+    }
     if (error.response) {
       if (error.response.status === 401) {
         window.location.href = "/login";
@@ -56,14 +123,147 @@ api.interceptors.response.use(
 export const TaskAPI = {
   getAll: (params?: TaskQuery) =>
     api.get<{data: Task[]}>("/tasks", { params }).then((res) => res.data.data),
+  getPage: (params?: TaskQuery) =>
+    api.get<TaskPage>("/tasks", { params }).then((res) => res.data),
+  search: (q: string, params?: TaskQuery) =>
+    api.get<{ data: TaskSearchResult[] }>("/tasks/search", { params: { ...params, q } }).then((res) => res.data.data),
   getById: (id: number) =>
     api.get<{ success: boolean; data: Task }>(`/tasks/${id}`).then((res) => res.data.data),
+  getHistory: (id: number) =>
+    api.get<{ success: boolean; data: TaskEvent[] }>(`/tasks/${id}/history`).then((res) => res.data.data),
   create: (data: TaskCreate) =>
     api.post<{ success: boolean; data: Task }>("/tasks", data).then((res) => res.data.data),
-  update: (id: number, data: TaskUpdate) =>
-    api.put<{ success: boolean; data: Task }>(`/tasks/${id}`, data).then((res) => res.data.data),
+  update: (id: number, data: TaskUpdate, scope?: RecurrenceScope) =>
+    api.put<{ success: boolean; data: Task }>(`/tasks/${id}`, data, { params: { scope } }).then((res) => res.data.data),
   delete: (id: number) =>
     api.delete(`/tasks/${id}`).then((res) => res.status === 204),
+  changeStatus: (id: number, status: string, reason?: string, subtasks?: SubtaskCompletion, force?: boolean) =>
+    api.patch<{ success: boolean; data: Task }>(`/tasks/${id}/status`, { status, reason, subtasks, force }).then((res) => res.data.data),
+  bulk: (request: TaskBulkRequest) =>
+    api.post<{ success: boolean; data: TaskBulkResult[] }>("/tasks/bulk", request).then((res) => res.data.data),
+  getSubtasks: (id: number) =>
+    api.get<{ success: boolean; data: Task[] }>(`/tasks/${id}/subtasks`).then((res) => res.data.data),
+  getChecklist: (id: number) =>
+    api.get<{ success: boolean; data: ChecklistItem[] }>(`/tasks/${id}/checklist`).then((res) => res.data.data),
+  addChecklistItem: (id: number, content: string, position?: number) =>
+    api.post<{ success: boolean; data: ChecklistItem }>(`/tasks/${id}/checklist`, { content, position }).then((res) => res.data.data),
+  updateChecklistItem: (id: number, itemId: number, data: { content?: string; is_done?: boolean; position?: number }) =>
+    api.patch<{ success: boolean; data: ChecklistItem }>(`/tasks/${id}/checklist/${itemId}`, data).then((res) => res.data.data),
+  deleteChecklistItem: (id: number, itemId: number) =>
+    api.delete(`/tasks/${id}/checklist/${itemId}`).then((res) => res.status === 200),
+  getGraph: (id: number, depth?: number) =>
+    api.get<{ success: boolean; data: TaskGraph }>(`/tasks/${id}/graph`, { params: { depth } }).then((res) => res.data.data),
+  addBlocker: (id: number, blocker_task_id: number) =>
+    api.post<{ success: boolean; data: TaskDependency }>(`/tasks/${id}/blockers`, { blocker_task_id }).then((res) => res.data.data),
+  removeBlocker: (id: number, blockerId: number) =>
+    api.delete(`/tasks/${id}/blockers/${blockerId}`).then((res) => res.status === 200),
+  getComments: (id: number) =>
+    api.get<{ success: boolean; data: TaskComment[] }>(`/tasks/${id}/comments`).then((res) => res.data.data),
+  addComment: (id: number, content: string, parent_comment_id?: number) =>
+    api.post<{ success: boolean; data: TaskComment }>(`/tasks/${id}/comments`, { content, parent_comment_id }).then((res) => res.data.data),
+  updateComment: (id: number, commentId: number, content: string) =>
+    api.patch<{ success: boolean; data: TaskComment }>(`/tasks/${id}/comments/${commentId}`, { content }).then((res) => res.data.data),
+  deleteComment: (id: number, commentId: number) =>
+    api.delete(`/tasks/${id}/comments/${commentId}`).then((res) => res.status === 200),
+  getAttachments: (id: number) =>
+    api.get<{ success: boolean; data: TaskAttachment[] }>(`/tasks/${id}/attachments`).then((res) => res.data.data),
+  addAttachment: (id: number, file: File) => {
+    const form = new FormData();
+    form.append("file", file);
+    return api
+      .post<{ success: boolean; data: TaskAttachment }>(`/tasks/${id}/attachments`, form, {
+        headers: { "Content-Type": "multipart/form-data" },
+      })
+      .then((res) => res.data.data);
+  },
+  getAttachmentUrl: (id: number, attachmentId: number) =>
+    api.get<{ success: boolean; data: AttachmentUrl }>(`/tasks/${id}/attachments/${attachmentId}/url`).then((res) => res.data.data),
+  deleteAttachment: (id: number, attachmentId: number) =>
+    api.delete(`/tasks/${id}/attachments/${attachmentId}`).then((res) => res.status === 200),
+  getAssigned: (params?: TaskQuery) =>
+    api.get<{ data: Task[] }>("/tasks/assigned", { params }).then((res) => res.data.data),
+  assign: (id: number, user_id: number) =>
+    api.post<{ success: boolean; data: Task }>(`/tasks/${id}/assignees`, { user_id }).then((res) => res.data.data),
+  unassign: (id: number, user_id: number) =>
+    api.delete<{ success: boolean; data: Task }>(`/tasks/${id}/assignees/${user_id}`).then((res) => res.data.data),
+};
+
+// --- Category API ---
+export const CategoryAPI = {
+  getAll: (params?: { workspace_id?: number }) =>
+    api.get<{ success: boolean; data: Category[] }>("/categories", { params }).then((res) => res.data.data),
+  create: (data: CategoryCreate) =>
+    api.post<{ success: boolean; data: Category }>("/categories", data).then((res) => res.data.data),
+  update: (id: number, data: Partial<CategoryCreate>) =>
+    api.put<{ success: boolean; data: Category }>(`/categories/${id}`, data).then((res) => res.data.data),
+  delete: (id: number) =>
+    api.delete(`/categories/${id}`).then((res) => res.status === 200),
+};
+
+// --- Priority API ---
+export const PriorityAPI = {
+  getAll: () =>
+    api.get<{ success: boolean; data: Priority[] }>("/priorities").then((res) => res.data.data),
+};
+
+// --- Tag API ---
+export const TagAPI = {
+  getAll: (params?: { prefix?: string; workspace_id?: number; limit?: number }) =>
+    api.get<{ success: boolean; data: Tag[] }>("/tags", { params }).then((res) => res.data.data),
+  rename: (id: number, name: string) =>
+    api.put<{ success: boolean; data: Tag }>(`/tags/${id}`, { name }).then((res) => res.data.data),
+  merge: (id: number, targetId: number) =>
+    api.post<{ success: boolean; data: Tag }>(`/tags/${id}/merge`, { target_id: targetId }).then((res) => res.data.data),
+  delete: (id: number) =>
+    api.delete(`/tags/${id}`).then((res) => res.status === 200),
+};
+
+// --- Status API ---
+export const StatusAPI = {
+  getAll: (params?: { workspace_id?: number }) =>
+    api.get<{ success: boolean; data: Status[] }>("/statuses", { params }).then((res) => res.data.data),
+  create: (data: StatusCreate) =>
+    api.post<{ success: boolean; data: Status }>("/statuses", data).then((res) => res.data.data),
+  update: (id: number, data: { name?: string; color?: string; position?: number }) =>
+    api.put<{ success: boolean; data: Status }>(`/statuses/${id}`, data).then((res) => res.data.data),
+  delete: (id: number) =>
+    api.delete(`/statuses/${id}`).then((res) => res.status === 200),
+};
+
+// --- Workspace API ---
+export const WorkspaceAPI = {
+  getAll: () =>
+    api.get<{ success: boolean; data: Workspace[] }>("/workspaces").then((res) => res.data.data),
+  getById: (id: number) =>
+    api.get<{ success: boolean; data: Workspace }>(`/workspaces/${id}`).then((res) => res.data.data),
+  create: (name: string) =>
+    api.post<{ success: boolean; data: Workspace }>("/workspaces", { name }).then((res) => res.data.data),
+  update: (id: number, data: { name?: string; status_transitions?: StatusTransitions | null }) =>
+    api.put<{ success: boolean; data: Workspace }>(`/workspaces/${id}`, data).then((res) => res.data.data),
+  delete: (id: number) =>
+    api.delete(`/workspaces/${id}`).then((res) => res.status === 200),
+  getMembers: (id: number) =>
+    api.get<{ success: boolean; data: WorkspaceMember[] }>(`/workspaces/${id}/members`).then((res) => res.data.data),
+  addMember: (id: number, user_id: number, role?: WorkspaceRole) =>
+    api.post<{ success: boolean; data: WorkspaceMember }>(`/workspaces/${id}/members`, { user_id, role }).then((res) => res.data.data),
+  updateMemberRole: (id: number, user_id: number, role: WorkspaceRole) =>
+    api.patch<{ success: boolean; data: WorkspaceMember }>(`/workspaces/${id}/members/${user_id}`, { role }).then((res) => res.data.data),
+  removeMember: (id: number, user_id: number) =>
+    api.delete(`/workspaces/${id}/members/${user_id}`).then((res) => res.status === 200),
+};
+
+// --- Notification API ---
+export const NotificationAPI = {
+  getPage: (params?: NotificationQuery) =>
+    api.get<NotificationPage>("/notifications", { params }).then((res) => res.data),
+  markRead: (id: number) =>
+    api.patch<{ success: boolean; data: Notification }>(`/notifications/${id}/read`).then((res) => res.data.data),
+  markAllRead: () =>
+    api.post<{ success: boolean; data: { updated: number } }>("/notifications/read-all").then((res) => res.data.data.updated),
+  getPreferences: () =>
+    api.get<{ success: boolean; data: NotificationPreference[] }>("/notifications/preferences").then((res) => res.data.data),
+  updatePreferences: (preferences: NotificationPreference[]) =>
+    api.patch<{ success: boolean; data: NotificationPreference[] }>("/notifications/preferences", { preferences }).then((res) => res.data.data),
 };
 
 // --- Auth API ---
@@ -73,7 +273,13 @@ export const AuthAPI = {
   register: (data: AuthRegister) =>
     api.post<AuthResponse>("/auth/register", data).then((res) => res.data),
   refreshToken: (refresh_token: string) =>
-    api.post<AuthResponse>("/auth/refresh-token", { refresh_token }).then((res) => res.data),
+    api.post<{ success: boolean; data: AuthTokens }>("/auth/refresh-token", { refresh_token }).then((res) => res.data.data),
+  logout: (refresh_token: string) =>
+    api.post("/auth/logout", { refresh_token }).then((res) => res.status === 200),
+  verifyEmail: (token: string) =>
+    api.post<{ success: boolean; data: User }>("/auth/verify-email", { token }).then((res) => res.data.data),
+  resendVerification: () =>
+    api.post("/auth/resend-verification").then((res) => res.status === 200),
 };
 
 export default api;
\ No newline at end of file
@@ -6,13 +6,20 @@ import type { AuthLogin, AuthRegister, AuthResponse, User } from './types';
 interface AuthContextType {
   user: User | null;
   login: (email: string, password: string) => Promise<void>;
-  register: (email: string, password: string, username: string) => Promise<void>;
+  register: (email: string, password: string, username: string) => Promise<boolean>;
   logout: () => void;
   error: string | null;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
+const storeTokens = (res: AuthResponse) => {
+  localStorage.setItem('accessToken', res.data.accessToken);
+  if (res.data.refreshToken) {
+    localStorage.setItem('refreshToken', res.data.refreshToken);
+  }
+};
+
 export const AuthProvider = ({ children }: { children: ReactNode }) => {
   const [user, setUser] = useState<User | null>(null);
   const [error, setError] = useState<string | null>(null);
@@ -35,8 +42,8 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     setError(null);
     try {
       const res: AuthResponse = await AuthAPI.login({ email, password });
-      // Store accessToken and authUser in localStorage
-      localStorage.setItem('accessToken', res.data.accessToken);
+      // Store tokens and authUser in localStorage
+      storeTokens(res);
       if (res.data.user) {
         localStorage.setItem('authUser', JSON.stringify(res.data.user));
       }
@@ -50,15 +57,27 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     setError(null);
     try {
       const res: AuthResponse = await AuthAPI.register({ email, password, username });
-      localStorage.setItem('accessToken', res.data.accessToken);
+      storeTokens(res);
+      if (res.data.user) {
+        localStorage.setItem('authUser', JSON.stringify(res.data.user));
+      }
       setUser(res.data.user);
+      return true;
     } catch (err: any) {
       setError(err.message || 'Registration failed');
+      return false;
     }
   };
 
   const logout = () => {
+    // Revoke the refresh token server-side; local state is cleared regardless
+    const refreshToken = localStorage.getItem('refreshToken');
+    if (refreshToken) {
+      AuthAPI.logout(refreshToken).catch(() => undefined);
+    }
     localStorage.removeItem('accessToken');
+    localStorage.removeItem('refreshToken');
+    localStorage.removeItem('authUser');
     setUser(null);
   };
 
@@ -2,14 +2,267 @@
 export interface Task {
   task_id: number;
   user_id: number;
+  workspace_id?: number | null;
+  parent_task_id?: number | null; // parent of a subtask
   title: string;
   description: string;
   priority_id: number;
   category_id: number;
   due_date: string;
+  status: string; // key of a built-in or workspace status
+  status_category?: StatusCategory;
+  completed_at?: string | null;
+  cancelled_at?: string | null;
+  cancellation_reason?: string | null;
+  archived_at?: string | null; // archived tasks are left out of listings
+  series_id?: number | null; // series of a recurring task
+  recurrence?: RecurrenceRule | null;
+  assignees?: TaskAssignee[];
+  tags?: string[]; // tag names, sorted
+  subtask_progress?: TaskProgress; // direct subtasks, cancelled ones left out
+  checklist_progress?: TaskProgress;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface TaskProgress {
+  total: number;
+  done: number;
+}
+
+// What completing a task does to its open subtasks
+export type SubtaskCompletion = 'reject' | 'cascade';
+
+export interface ChecklistItem {
+  item_id: number;
+  task_id: number;
+  content: string;
+  is_done: boolean;
+  position: number;
+  created_at: string;
+  updated_at: string;
+}
+
+// A task in the dependency graph of another task
+export interface TaskGraphNode {
+  task_id: number;
+  title: string;
   status: string;
+  status_category: StatusCategory;
+  depth: number; // links between the task and the root of the graph
+}
+
+export interface TaskDependency {
+  blocker_task_id: number;
+  blocked_task_id: number;
+  created_by: number | null;
+  created_at: string;
+}
+
+export interface TaskGraph {
+  task_id: number;
+  upstream: TaskGraphNode[]; // tasks blocking the root
+  downstream: TaskGraphNode[]; // tasks the root blocks
+  edges: Array<Pick<TaskDependency, "blocker_task_id" | "blocked_task_id">>;
+}
+
+export interface TaskComment {
+  comment_id: number;
+  task_id: number;
+  user_id: number | null;
+  username: string | null;
+  parent_comment_id: number | null; // first comment of the thread
+  content: string | null; // null once deleted
   created_at: string;
   updated_at: string;
+  edited_at: string | null;
+  deleted_at: string | null;
+}
+
+export interface TaskAttachment {
+  attachment_id: number;
+  task_id: number;
+  user_id: number | null;
+  username: string | null;
+  file_name: string;
+  mime_type: string;
+  size_bytes: number;
+  sha256: string;
+  created_at: string;
+}
+
+export interface AttachmentUrl {
+  url: string; // signed, works without the bearer token
+  expires_at: string;
+}
+
+export interface TaskSearchResult extends Task {
+  rank: number;
+  highlights: {
+    title: string; // matches wrapped in <mark></mark>
+    description: string | null;
+  };
+}
+
+export type TaskEventType =
+  | 'created'
+  | 'updated'
+  | 'status_changed'
+  | 'assigned'
+  | 'unassigned'
+  | 'commented'
+  | 'comment_edited'
+  | 'comment_deleted'
+  | 'attachment_added'
+  | 'attachment_removed'
+  | 'deleted';
+
+export interface TaskEvent {
+  event_id: number;
+  task_id: number;
+  user_id: number | null; // null for system changes
+  username: string | null;
+  event_type: TaskEventType;
+  changes: Record<string, { from: unknown; to: unknown }>;
+  created_at: string;
+}
+
+export interface TaskAssignee {
+  user_id: number;
+  username: string;
+  email: string;
+  assigned_at: string;
+}
+
+export interface Category {
+  category_id: number;
+  user_id: number;
+  workspace_id?: number | null;
+  name: string;
+  color: string;
+  icon?: string | null;
+  is_default: boolean;
+  created_at: string;
+}
+
+export interface Tag {
+  tag_id: number;
+  user_id: number;
+  workspace_id?: number | null;
+  name: string;
+  task_count?: number;
+  created_at: string;
+}
+
+export interface CategoryCreate {
+  name: string;
+  color?: string;
+  icon?: string;
+  workspace_id?: number;
+}
+
+export interface Priority {
+  priority_id: number;
+  name: string;
+  rank: number;
+}
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'yearly';
+
+export type Weekday = 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA' | 'SU';
+
+// RRULE-style rule; occurrences are spaced from the task's due date
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval?: number;
+  weekdays?: Weekday[]; // weekly days, or the single weekday of week_of_month
+  month_day?: number;
+  week_of_month?: number; // 1-4, or -1 for the last
+  count?: number;
+  until?: string; // YYYY-MM-DD
+}
+
+// Occurrences of a recurring task an edit applies to
+export type RecurrenceScope = 'this' | 'future';
+
+export type StatusCategory = 'todo' | 'in_progress' | 'done' | 'cancelled';
+
+export interface Status {
+  status_id: number;
+  workspace_id: number | null; // null for built-in statuses
+  key: string;
+  name: string;
+  category: StatusCategory;
+  position: number;
+  color: string;
+  created_at: string;
+}
+
+export interface StatusCreate {
+  workspace_id: number;
+  name: string;
+  category: StatusCategory;
+  key?: string;
+  color?: string;
+  position?: number;
+}
+
+export type WorkspaceRole = 'owner' | 'admin' | 'member' | 'viewer';
+
+// Status category changes allowed on top of the default workflow, e.g. { done: ["todo"] }
+export type StatusTransitions = Partial<Record<StatusCategory, StatusCategory[]>>;
+
+export interface Workspace {
+  workspace_id: number;
+  name: string;
+  created_by: number | null;
+  status_transitions: StatusTransitions | null;
+  role?: WorkspaceRole;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface WorkspaceMember {
+  workspace_id: number;
+  user_id: number;
+  username: string;
+  email: string;
+  role: WorkspaceRole;
+  joined_at: string;
+}
+
+export type NotificationType = 'reminder' | 'assignment' | 'overdue' | 'mention';
+
+export type NotificationChannel = 'in_app' | 'email';
+
+export interface Notification {
+  notification_id: number;
+  user_id: number;
+  type: NotificationType;
+  title: string;
+  body: string | null;
+  task_id: number | null;
+  read_at: string | null;
+  created_at: string;
+}
+
+export interface NotificationPage {
+  success: boolean;
+  count: number;
+  unread_count: number;
+  data: Notification[];
+}
+
+export interface NotificationQuery {
+  unread?: boolean;
+  limit?: number;
+  before?: number;
+}
+
+export interface NotificationPreference {
+  type: NotificationType;
+  channel: NotificationChannel;
+  enabled: boolean;
 }
 
 export interface TaskCreate {
@@ -18,19 +271,67 @@ export interface TaskCreate {
   description: string;
   priority_id?: number;
   category_id?: number;
+  workspace_id?: number;
+  parent_task_id?: number; // the subtask joins the parent's workspace
   due_date?: Date; // Can be a Date object or ISO string
+  recurrence?: RecurrenceRule; // needs a due date
+  tags?: string[]; // missing tags are created
 }
 
-export interface TaskUpdate extends Partial<TaskCreate> {
+export interface TaskUpdate extends Partial<Omit<TaskCreate, 'recurrence' | 'parent_task_id'>> {
   status?: string;
+  recurrence?: RecurrenceRule | null; // null stops the series
+  parent_task_id?: number | null; // null makes a subtask top-level
+}
+
+export type TaskBulkOperationType = 'update' | 'change_status' | 'delete' | 'archive' | 'unarchive' | 'assign';
+
+// One operation applied to the tasks listed in task_ids, or to the tasks matching filter
+export interface TaskBulkRequest {
+  task_ids?: number[];
+  filter?: Omit<TaskQuery, 'sort' | 'limit' | 'cursor' | 'fields'>;
+  operation: TaskBulkOperationType;
+  fields?: Pick<TaskUpdate, 'category_id' | 'priority_id' | 'due_date' | 'tags'>; // for update
+  status?: string; // for change_status
+  reason?: string;
+  subtasks?: SubtaskCompletion;
+  force?: boolean;
+  user_id?: number; // for assign
+}
+
+export interface TaskBulkResult {
+  task_id: number;
+  success: boolean;
+  task?: Task; // left out for deletions
+  error?: { message: string; code: string; status: number };
 }
 
 export interface TaskQuery {
-  priority_id?: number;
-  category_id?: number;
-  status?: string;
+  workspace_id?: number;
+  priority_id?: number | string; // e.g. 1, "1,2", "none" or "!1"
+  category_id?: number | string;
+  status?: string; // e.g. "pending,in_review", "!completed" or "open"
   search?: string;
+  tags?: string; // e.g. "urgent,client a"
+  tags_match?: 'any' | 'all';
   due_date?: string;
+  due_before?: string;
+  due_after?: string;
+  created_since?: string;
+  has_due_date?: boolean;
+  filter?: string; // e.g. "status:open priority:>=medium due:<7d"
+  archived?: boolean; // lists the archived tasks instead of the others
+  sort?: string; // e.g. "-priority,due_date"
+  limit?: number;
+  cursor?: string;
+  fields?: string;
+}
+
+export interface TaskPage {
+  data: Task[];
+  count: number;
+  total: number;
+  nextCursor: string | null;
 }
 
 export interface AuthLogin {
@@ -44,6 +345,11 @@ export interface AuthRegister {
   password: string;
 }
 
+export interface AuthTokens {
+  accessToken: string;
+  refreshToken: string;
+}
+
 export interface AuthResponse {
   data: {
     user: User;
@@ -63,6 +369,7 @@ export interface User {
   email: string;
   username?: string;
   role?: string;
+  email_verified_at?: string | null;
 }
 
 // Component props
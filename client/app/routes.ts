@@ -5,4 +5,5 @@ export default [
   route("tasks/list", "routes/tasks.list.tsx"),
   route("login", "routes/login.tsx"),
   route("register", "routes/register.tsx"),
+  route("verify-email", "routes/verify-email.tsx"),
 ] satisfies RouteConfig;
@@ -1,8 +1,14 @@
 import React, { useState, useEffect } from "react";
 import TaskForm from "~/components/TaskForm";
-import { TaskAPI } from "~/lib/api";
-import TaskList from "~/components/TaskList";
-import type { Task } from "~/lib/types";
+import TaskHistory from "~/components/TaskHistory";
+import TaskChecklist from "~/components/TaskChecklist";
+import TaskDependencies from "~/components/TaskDependencies";
+import TaskComments from "~/components/TaskComments";
+import TaskAttachments from "~/components/TaskAttachments";
+import NotificationBell from "~/components/NotificationBell";
+import { CategoryAPI, PriorityAPI, StatusAPI, TaskAPI } from "~/lib/api";
+import TaskList, { type TaskBulkAction, type TaskSortBy } from "~/components/TaskList";
+import type { Category, Priority, RecurrenceScope, Status, Task, TaskSearchResult } from "~/lib/types";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogClose } from "../components/ui/dialog";
 import { toast } from "sonner";
 
@@ -11,19 +17,34 @@ const TaskNewRoute = () => {
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState(false);
   const [tasks, setTasks] = useState<any[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [priorities, setPriorities] = useState<Priority[]>([]);
+  const [statuses, setStatuses] = useState<Status[]>([]);
   const [tasksLoading, setTasksLoading] = useState(true);
   const [tasksError, setTasksError] = useState<string | null>(null);
   const [editTask, setEditTask] = useState<Task | null>(null);
   const [showEditModal, setShowEditModal] = useState(false);
+  const [parentTask, setParentTask] = useState<Task | null>(null);
   const [formKey, setFormKey] = useState(0);
-  const [filter, setFilter] = useState<{ priority_id?: number; category_id?: number; status?: string }>({});
+  const [filter, setFilter] = useState<{ priority_id?: number; category_id?: number; status?: string; archived?: boolean }>({});
+  const [sortBy, setSortBy] = useState<TaskSortBy>("due_date");
+  const [sortOrder, setSortOrder] = useState<"asc" | "desc">("asc");
+  const [total, setTotal] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [search, setSearch] = useState("");
+  const [searchResults, setSearchResults] = useState<TaskSearchResult[] | null>(null);
+
+  const sort = `${sortOrder === "desc" ? "-" : ""}${sortBy}`;
 
   const fetchTasks = async () => {
     setTasksLoading(true);
     setTasksError(null);
     try {
-      const data = await TaskAPI.getAll(filter);
-      setTasks(data);
+      const page = await TaskAPI.getPage({ ...filter, sort });
+      setTasks(page.data);
+      setTotal(page.total);
+      setNextCursor(page.nextCursor);
     } catch (err: any) {
       setTasksError(err?.message || "Failed to load tasks");
     } finally {
@@ -31,6 +52,26 @@ const TaskNewRoute = () => {
     }
   };
 
+  const loadMoreTasks = async () => {
+    if (!nextCursor) return;
+    setLoadingMore(true);
+    try {
+      const page = await TaskAPI.getPage({ ...filter, sort, cursor: nextCursor });
+      setTasks((prev) => [...prev, ...page.data]);
+      setTotal(page.total);
+      setNextCursor(page.nextCursor);
+    } catch (err: any) {
+      toast.error(err?.message || "Failed to load more tasks");
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const handleSortChange = (newSortBy: TaskSortBy, newSortOrder: "asc" | "desc") => {
+    setSortBy(newSortBy);
+    setSortOrder(newSortOrder);
+  };
+
   const handleFilterChange = (e: React.ChangeEvent<HTMLSelectElement | HTMLInputElement>) => {
     const { name, value } = e.target;
     setFilter((prev) => ({
@@ -42,10 +83,33 @@ const TaskNewRoute = () => {
   useEffect(() => {
     fetchTasks();
     // eslint-disable-next-line
-  }, [filter]);
+  }, [filter, sort]);
 
+  // Debounce the search box so the server is queried once typing pauses
   useEffect(() => {
-    fetchTasks();
+    const q = search.trim();
+    if (!q) {
+      setSearchResults(null);
+      return;
+    }
+    const timeout = setTimeout(() => {
+      TaskAPI.search(q, filter)
+        .then(setSearchResults)
+        .catch(() => setSearchResults([]));
+    }, 300);
+    return () => clearTimeout(timeout);
+  }, [search, filter]);
+
+  useEffect(() => {
+    CategoryAPI.getAll()
+      .then(setCategories)
+      .catch(() => setCategories([]));
+    PriorityAPI.getAll()
+      .then((data) => setPriorities([...data].sort((a, b) => a.rank - b.rank)))
+      .catch(() => setPriorities([]));
+    StatusAPI.getAll()
+      .then(setStatuses)
+      .catch(() => setStatuses([]));
   }, []);
 
   const handleSubmit = async (data: any) => {
@@ -66,17 +130,56 @@ const TaskNewRoute = () => {
     }
   };
 
+  const handleBulkAction = async (taskIds: number[], action: TaskBulkAction) => {
+    try {
+      const results = await TaskAPI.bulk({ ...action, task_ids: taskIds });
+      const failed = results.filter((result) => !result.success);
+      if (failed.length === 0) {
+        toast.success(`Updated ${results.length} tasks`);
+      } else {
+        toast.error(`${failed.length} of ${results.length} tasks were not updated: ${failed[0].error?.message}`);
+      }
+      fetchTasks();
+    } catch (err: any) {
+      toast.error(err?.message || "Failed to update tasks");
+    }
+  };
+
   const handleEditTask = (task: Task) => {
     setEditTask(task);
     setShowEditModal(true);
   };
 
-  const handleUpdateTask = async (data: any) => {
+  const handleOpenTask = async (taskId: number) => {
+    try {
+      handleEditTask(await TaskAPI.getById(taskId));
+    } catch (err: any) {
+      toast.error(err?.message || "Task not found");
+    }
+  };
+
+  const handleCreateSubtask = async (data: any) => {
+    if (!parentTask) return;
+    setLoading(true);
+    setError(null);
+    try {
+      await TaskAPI.create(data);
+      setParentTask(null);
+      fetchTasks();
+      toast.success("Subtask created successfully!");
+    } catch (err: any) {
+      setError(err?.message || "Failed to create subtask");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleUpdateTask = async (data: any, scope?: RecurrenceScope) => {
     if (!editTask) return;
     setLoading(true);
     setError(null);
     try {
-      await TaskAPI.update(editTask.task_id, data);
+      await TaskAPI.update(editTask.task_id, data, scope);
       setShowEditModal(false);
       setEditTask(null);
       fetchTasks();
@@ -96,13 +199,36 @@ const TaskNewRoute = () => {
         {success && <div className="text-green-600 mt-4">Task created successfully!</div>}
       </div>
       <div className="md:w-2/3 w-full">
-        <h2 className="text-xl font-semibold mb-2">Task List</h2>
+        <div className="flex items-center justify-between mb-2">
+          <h2 className="text-xl font-semibold">Task List</h2>
+          <NotificationBell onOpenTask={handleOpenTask} />
+        </div>
         {tasksLoading ? (
           <div className="text-gray-500 p-4">Loading tasks...</div>
         ) : tasksError ? (
           <div className="text-red-500 p-4">{tasksError}</div>
         ) : (
-          <TaskList tasks={tasks} onDeleteTask={async (id) => { await TaskAPI.delete(id); fetchTasks(); }} onEditTask={handleEditTask} />
+          <TaskList
+            tasks={tasks}
+            searchResults={searchResults}
+            categories={categories}
+            priorities={priorities}
+            statuses={statuses}
+            total={total}
+            sortBy={sortBy}
+            sortOrder={sortOrder}
+            hasMore={nextCursor !== null}
+            loadingMore={loadingMore}
+            showArchived={filter.archived === true}
+            onSortChange={handleSortChange}
+            onLoadMore={loadMoreTasks}
+            onSearchChange={setSearch}
+            onDeleteTask={async (id) => { await TaskAPI.delete(id); fetchTasks(); }}
+            onEditTask={handleEditTask}
+            onAddSubtask={setParentTask}
+            onBulkAction={handleBulkAction}
+            onShowArchivedChange={(archived) => setFilter((prev) => ({ ...prev, archived: archived || undefined }))}
+          />
         )}
       </div>
       {showEditModal && (
@@ -114,6 +240,26 @@ const TaskNewRoute = () => {
               </DialogClose>
             </DialogHeader>
             <TaskForm initialValues={editTask} onSubmit={handleUpdateTask} loading={loading} error={error} />
+            {editTask && <TaskChecklist taskId={editTask.task_id} />}
+            {editTask && <TaskDependencies taskId={editTask.task_id} />}
+            {editTask && <TaskAttachments taskId={editTask.task_id} />}
+            {editTask && <TaskComments taskId={editTask.task_id} />}
+            {editTask && <TaskHistory taskId={editTask.task_id} />}
+          </DialogContent>
+        </Dialog>
+      )}
+      {parentTask && (
+        <Dialog open={parentTask !== null} onOpenChange={(open) => { if (!open) setParentTask(null); }}>
+          <DialogContent className="sm:max-w-[425px]">
+            <DialogHeader>
+              <DialogTitle>Add Subtask to "{parentTask.title}"</DialogTitle>
+            </DialogHeader>
+            <TaskForm
+              initialValues={{ parent_task_id: parentTask.task_id }}
+              onSubmit={handleCreateSubtask}
+              loading={loading}
+              error={error}
+            />
           </DialogContent>
         </Dialog>
       )}
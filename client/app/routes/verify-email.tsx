@@ -0,0 +1,33 @@
+import React, { useEffect, useState } from 'react';
+import { useSearchParams } from 'react-router';
+import { AuthAPI } from '../lib/api';
+
+export default function VerifyEmailRoute() {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token');
+  const [status, setStatus] = useState<'verifying' | 'verified' | 'failed'>('verifying');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!token) {
+      setStatus('failed');
+      setError('Verification link is missing its token');
+      return;
+    }
+    AuthAPI.verifyEmail(token)
+      .then(() => setStatus('verified'))
+      .catch((err: any) => {
+        setStatus('failed');
+        setError(err.message || 'Verification failed');
+      });
+  }, [token]);
+
+  return (
+    <main className="flex flex-col items-center justify-center min-h-screen">
+      <h1 className="text-2xl font-bold mb-4">Verify Email</h1>
+      {status === 'verifying' && <p>Verifying your email address...</p>}
+      {status === 'verified' && <p>Your email address has been verified.</p>}
+      {status === 'failed' && <div style={{ color: 'red' }}>{error}</div>}
+    </main>
+  );
+}
@@ -5,37 +5,206 @@ CREATE TABLE users (
     email VARCHAR(100) NOT NULL UNIQUE, -- Unique email
     password_hash VARCHAR(255) NOT NULL, -- Password hash
     role VARCHAR(20) DEFAULT 'user', -- User role (e.g., user, admin)
+    email_verified_at TIMESTAMP, -- Timestamp for email verification (NULL until verified)
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP, -- Timestamp for account creation
     updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP -- Timestamp for last update
 );
 
+-- Create the workspaces table
+CREATE TABLE workspaces (
+    workspace_id SERIAL PRIMARY KEY, -- Primary key
+    name VARCHAR(100) NOT NULL, -- Workspace name
+    created_by INT, -- Foreign key to users table (user who created the workspace)
+    status_transitions JSONB, -- Status category changes allowed on top of the default workflow (e.g. {"done": ["todo"]})
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP, -- Timestamp for workspace creation
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP, -- Timestamp for last update
+    FOREIGN KEY (created_by) REFERENCES users(user_id) ON DELETE SET NULL -- Set NULL on delete
+);
+
+-- Create the workspace_members table
+CREATE TABLE workspace_members (
+    workspace_id INT NOT NULL, -- Foreign key to workspaces table
+    user_id INT NOT NULL, -- Foreign key to users table
+    role VARCHAR(20) NOT NULL DEFAULT 'member' CHECK (role IN ('owner', 'admin', 'member', 'viewer')), -- Membership role
+    joined_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP, -- Timestamp for joining the workspace
+    PRIMARY KEY (workspace_id, user_id), -- A user is a member of a workspace only once
+    FOREIGN KEY (workspace_id) REFERENCES workspaces(workspace_id) ON DELETE CASCADE, -- Cascade delete
+    FOREIGN KEY (user_id) REFERENCES users(user_id) ON DELETE CASCADE -- Cascade delete
+);
+
 -- Create the priorities table
 CREATE TABLE priorities (
     priority_id SERIAL PRIMARY KEY, -- Primary key
-    name VARCHAR(20) NOT NULL UNIQUE -- Priority name (e.g., low, medium, high)
+    name VARCHAR(20) NOT NULL UNIQUE, -- Priority name (e.g., low, medium, high)
+    rank INT NOT NULL DEFAULT 0 -- Ordinal weight, higher rank means more important
 );
 
+-- Seed the default priority levels
+INSERT INTO priorities (name, rank) VALUES ('low', 1), ('medium', 2), ('high', 3);
+
 -- Create the categories table
 CREATE TABLE categories (
     category_id SERIAL PRIMARY KEY, -- Primary key
-    name VARCHAR(50) NOT NULL UNIQUE -- Category name (e.g., work, personal, etc.)
+    user_id INT NOT NULL, -- Foreign key to users table (category owner)
+    workspace_id INT, -- Foreign key to workspaces table (NULL for personal categories)
+    name VARCHAR(50) NOT NULL, -- Category name (e.g., work, personal, etc.)
+    color VARCHAR(7) NOT NULL DEFAULT '#6B7280', -- Hex color used to display the category
+    icon VARCHAR(50), -- Optional icon name
+    is_default BOOLEAN NOT NULL DEFAULT FALSE, -- Whether the category was seeded on registration
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP, -- Timestamp for category creation
+    FOREIGN KEY (user_id) REFERENCES users(user_id) ON DELETE CASCADE, -- Cascade delete
+    FOREIGN KEY (workspace_id) REFERENCES workspaces(workspace_id) ON DELETE CASCADE -- Cascade delete
+);
+
+-- Create the statuses table
+CREATE TABLE statuses (
+    status_id SERIAL PRIMARY KEY, -- Primary key
+    workspace_id INT, -- Foreign key to workspaces table (NULL for built-in statuses available to every task)
+    key VARCHAR(30) NOT NULL, -- Status key stored in tasks.status (e.g., in_review)
+    name VARCHAR(50) NOT NULL, -- Status name (e.g., In review)
+    category VARCHAR(20) NOT NULL CHECK (category IN ('todo', 'in_progress', 'done', 'cancelled')), -- Status category driving the workflow and due date reminders
+    position INT NOT NULL DEFAULT 0, -- Display order among the statuses
+    color VARCHAR(7) NOT NULL DEFAULT '#6B7280', -- Hex color used to display the status
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP, -- Timestamp for status creation
+    UNIQUE (workspace_id, key), -- Status keys are unique per workspace
+    FOREIGN KEY (workspace_id) REFERENCES workspaces(workspace_id) ON DELETE CASCADE -- Cascade delete
+);
+
+-- Seed the built-in statuses
+INSERT INTO statuses (workspace_id, key, name, category, position, color) VALUES
+    (NULL, 'pending', 'Pending', 'todo', 1, '#6B7280'),
+    (NULL, 'in_progress', 'In progress', 'in_progress', 2, '#3B82F6'),
+    (NULL, 'completed', 'Completed', 'done', 3, '#10B981'),
+    (NULL, 'cancelled', 'Cancelled', 'cancelled', 4, '#EF4444');
+
+-- Create the task_series table
+CREATE TABLE task_series (
+    series_id SERIAL PRIMARY KEY, -- Primary key
+    recurrence JSONB NOT NULL, -- RRULE-style recurrence rule (frequency, interval, weekdays, month_day, week_of_month, count or until)
+    title VARCHAR(100) NOT NULL, -- Title copied to new occurrences
+    description TEXT, -- Description copied to new occurrences
+    category_id INT, -- Category copied to new occurrences
+    priority_id INT, -- Priority copied to new occurrences
+    occurrence_count INT NOT NULL DEFAULT 1, -- Occurrences generated so far, including the first one
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP, -- Timestamp for series creation
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP, -- Timestamp for last update
+    FOREIGN KEY (category_id) REFERENCES categories(category_id) ON DELETE SET NULL, -- Set NULL on delete
+    FOREIGN KEY (priority_id) REFERENCES priorities(priority_id) ON DELETE SET NULL -- Set NULL on delete
 );
 
 -- Create the tasks table
 CREATE TABLE tasks (
     task_id SERIAL PRIMARY KEY, -- Primary key
     user_id INT NOT NULL, -- Foreign key to users table
+    workspace_id INT, -- Foreign key to workspaces table (NULL for personal tasks)
+    parent_task_id INT, -- Foreign key to the parent task (NULL for top-level tasks; at most 3 levels deep)
     category_id INT, -- Foreign key to categories table
     priority_id INT, -- Foreign key to priorities table
     title VARCHAR(100) NOT NULL, -- Task title
     description TEXT, -- Task description
     due_date DATE, -- Due date for the task
-    status VARCHAR(20) DEFAULT 'pending', -- Task status (e.g., pending, completed)
+    status VARCHAR(30) DEFAULT 'pending', -- Key of a built-in or workspace status (e.g., pending, in_review)
+    completed_at TIMESTAMP, -- Timestamp for completion (NULL unless completed)
+    cancelled_at TIMESTAMP, -- Timestamp for cancellation (NULL unless cancelled)
+    cancellation_reason VARCHAR(500), -- Optional reason given when cancelling
+    archived_at TIMESTAMP, -- Timestamp for archiving (NULL unless archived; only completed or cancelled tasks, cleared on reopening)
+    series_id INT, -- Foreign key to task_series table (NULL unless the task is an occurrence of a recurring task)
+    overdue_notified_on DATE, -- Due date the task was last announced as overdue for
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP, -- Timestamp for task creation
     updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP, -- Timestamp for last update
+    search_vector TSVECTOR GENERATED ALWAYS AS (
+        setweight(to_tsvector('english', COALESCE(title, '')), 'A') ||
+        setweight(to_tsvector('english', COALESCE(description, '')), 'B')
+    ) STORED, -- Full-text search document kept up to date on insert/update (title ranks above description)
     FOREIGN KEY (user_id) REFERENCES users(user_id) ON DELETE CASCADE, -- Cascade delete
+    FOREIGN KEY (workspace_id) REFERENCES workspaces(workspace_id) ON DELETE CASCADE, -- Cascade delete
     FOREIGN KEY (category_id) REFERENCES categories(category_id) ON DELETE SET NULL, -- Set NULL on delete
-    FOREIGN KEY (priority_id) REFERENCES priorities(priority_id) ON DELETE SET NULL -- Set NULL on delete
+    FOREIGN KEY (priority_id) REFERENCES priorities(priority_id) ON DELETE SET NULL, -- Set NULL on delete
+    FOREIGN KEY (series_id) REFERENCES task_series(series_id) ON DELETE SET NULL, -- Set NULL on delete (occurrences become standalone tasks)
+    FOREIGN KEY (parent_task_id) REFERENCES tasks(task_id) ON DELETE CASCADE -- Cascade delete (subtasks go with their parent)
+);
+
+-- Create the task_checklist_items table (lightweight to-do items of a task)
+CREATE TABLE task_checklist_items (
+    item_id SERIAL PRIMARY KEY, -- Primary key
+    task_id INT NOT NULL, -- Foreign key to tasks table
+    content VARCHAR(255) NOT NULL, -- Item text
+    is_done BOOLEAN NOT NULL DEFAULT FALSE, -- Whether the item is ticked off
+    position INT NOT NULL DEFAULT 0, -- Order of the item in the checklist
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP, -- Timestamp for item creation
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP, -- Timestamp for last update
+    FOREIGN KEY (task_id) REFERENCES tasks(task_id) ON DELETE CASCADE -- Cascade delete
+);
+
+-- Create the task_dependencies table (the blocker task has to be finished before the blocked task)
+CREATE TABLE task_dependencies (
+    blocker_task_id INT NOT NULL, -- Foreign key to tasks table (task that blocks)
+    blocked_task_id INT NOT NULL, -- Foreign key to tasks table (task that is blocked)
+    created_by INT, -- Foreign key to users table (user who added the dependency)
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP, -- Timestamp for dependency creation
+    PRIMARY KEY (blocker_task_id, blocked_task_id), -- A task blocks another task once
+    CHECK (blocker_task_id <> blocked_task_id), -- A task cannot block itself
+    FOREIGN KEY (blocker_task_id) REFERENCES tasks(task_id) ON DELETE CASCADE, -- Cascade delete
+    FOREIGN KEY (blocked_task_id) REFERENCES tasks(task_id) ON DELETE CASCADE, -- Cascade delete
+    FOREIGN KEY (created_by) REFERENCES users(user_id) ON DELETE SET NULL -- Keep dependencies of deleted users
+);
+
+-- Create the task_comments table (threaded discussion of a task; deleted comments are kept for their replies)
+CREATE TABLE task_comments (
+    comment_id SERIAL PRIMARY KEY, -- Primary key
+    task_id INT NOT NULL, -- Foreign key to tasks table
+    user_id INT, -- Foreign key to users table (author)
+    parent_comment_id INT, -- Foreign key to task_comments table (first comment of the thread; NULL for the first comment itself)
+    content TEXT NOT NULL, -- Comment text, may mention users as @username
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP, -- Timestamp for comment creation
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP, -- Timestamp for last update
+    edited_at TIMESTAMP, -- Timestamp for the last edit of the text
+    deleted_at TIMESTAMP, -- Timestamp for soft deletion
+    FOREIGN KEY (task_id) REFERENCES tasks(task_id) ON DELETE CASCADE, -- Cascade delete
+    FOREIGN KEY (user_id) REFERENCES users(user_id) ON DELETE SET NULL, -- Keep comments of deleted users
+    FOREIGN KEY (parent_comment_id) REFERENCES task_comments(comment_id) ON DELETE CASCADE -- Cascade delete
+);
+
+-- Create the attachment_blobs table (file contents, stored once per checksum by the storage driver)
+CREATE TABLE attachment_blobs (
+    sha256 CHAR(64) PRIMARY KEY, -- SHA-256 checksum of the contents (hex); the storage key is derived from it
+    size_bytes BIGINT NOT NULL CHECK (size_bytes > 0), -- Size of the contents in bytes
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP -- Timestamp for the first upload of the contents
+);
+
+-- Create the task_attachments table (files attached to tasks)
+CREATE TABLE task_attachments (
+    attachment_id SERIAL PRIMARY KEY, -- Primary key
+    task_id INT NOT NULL, -- Foreign key to tasks table
+    user_id INT, -- Foreign key to users table (uploader)
+    sha256 CHAR(64) NOT NULL, -- Foreign key to attachment_blobs table (contents of the file)
+    file_name VARCHAR(255) NOT NULL, -- Name of the uploaded file
+    mime_type VARCHAR(255) NOT NULL, -- MIME type of the uploaded file
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP, -- Timestamp for the upload
+    UNIQUE (task_id, sha256), -- The same file is attached to a task once
+    FOREIGN KEY (task_id) REFERENCES tasks(task_id) ON DELETE CASCADE, -- Cascade delete (unreferenced contents are purged afterwards)
+    FOREIGN KEY (user_id) REFERENCES users(user_id) ON DELETE SET NULL, -- Keep attachments of deleted users
+    FOREIGN KEY (sha256) REFERENCES attachment_blobs(sha256) -- Contents are only removed once no attachment refers to them
+);
+
+-- Create the tags table (free-form labels; personal tags for personal tasks, workspace tags for workspace tasks)
+CREATE TABLE tags (
+    tag_id SERIAL PRIMARY KEY, -- Primary key
+    user_id INT NOT NULL, -- Foreign key to users table (owner of a personal tag, creator of a workspace tag)
+    workspace_id INT, -- Foreign key to workspaces table (NULL for personal tags)
+    name VARCHAR(50) NOT NULL, -- Tag name; unique per scope ignoring case
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP, -- Timestamp for tag creation
+    FOREIGN KEY (user_id) REFERENCES users(user_id) ON DELETE CASCADE, -- Cascade delete
+    FOREIGN KEY (workspace_id) REFERENCES workspaces(workspace_id) ON DELETE CASCADE -- Cascade delete
+);
+
+-- Create the task_tags table (tags carried by tasks)
+CREATE TABLE task_tags (
+    task_id INT NOT NULL, -- Foreign key to tasks table
+    tag_id INT NOT NULL, -- Foreign key to tags table
+    PRIMARY KEY (task_id, tag_id), -- A task carries a tag once
+    FOREIGN KEY (task_id) REFERENCES tasks(task_id) ON DELETE CASCADE, -- Cascade delete
+    FOREIGN KEY (tag_id) REFERENCES tags(tag_id) ON DELETE CASCADE -- Cascade delete
 );
 
 -- Create the task_assignments table
@@ -44,15 +213,156 @@ CREATE TABLE task_assignments (
     task_id INT NOT NULL, -- Foreign key to tasks table
     user_id INT NOT NULL, -- Foreign key to users table
     assigned_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP, -- Timestamp for task assignment
+    UNIQUE (task_id, user_id), -- A user can be assigned to a task only once
+    FOREIGN KEY (task_id) REFERENCES tasks(task_id) ON DELETE CASCADE, -- Cascade delete
+    FOREIGN KEY (user_id) REFERENCES users(user_id) ON DELETE CASCADE -- Cascade delete
+);
+
+-- Create the task_events table (activity history; kept after the task is deleted)
+CREATE TABLE task_events (
+    event_id SERIAL PRIMARY KEY, -- Primary key
+    task_id INT NOT NULL, -- ID of the task (not a foreign key so history outlives the task)
+    user_id INT, -- Foreign key to users table (user who made the change; NULL for system changes)
+    event_type VARCHAR(20) NOT NULL CHECK (event_type IN ('created', 'updated', 'status_changed', 'assigned', 'unassigned', 'commented', 'comment_edited', 'comment_deleted', 'attachment_added', 'attachment_removed', 'deleted')), -- Kind of change
+    changes JSONB NOT NULL DEFAULT '{}', -- Changed fields as {"field": {"from": old, "to": new}}
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP, -- Timestamp for the change
+    FOREIGN KEY (user_id) REFERENCES users(user_id) ON DELETE SET NULL -- Set NULL on delete
+);
+
+-- Create the task_reminders table
+CREATE TABLE task_reminders (
+    reminder_id SERIAL PRIMARY KEY, -- Primary key
+    task_id INT NOT NULL, -- Foreign key to tasks table
+    user_id INT NOT NULL, -- Foreign key to users table (recipient)
+    remind_at TIMESTAMP, -- Absolute reminder time (NULL for reminders relative to the due date)
+    offset_minutes INT CHECK (offset_minutes >= 0), -- Minutes before the start of the due day (NULL for absolute reminders)
+    fire_at TIMESTAMP, -- When the reminder fires (NULL while a relative reminder's task has no due date)
+    channels TEXT[] NOT NULL DEFAULT '{in_app}', -- Delivery channels (in_app, email, webhook)
+    status VARCHAR(20) NOT NULL DEFAULT 'pending', -- Delivery status (pending, sent, skipped, failed)
+    delivered_channels TEXT[] NOT NULL DEFAULT '{}', -- Channels already delivered, so retries do not repeat them
+    attempts INT NOT NULL DEFAULT 0, -- Number of delivery attempts made
+    next_attempt_at TIMESTAMP, -- Earliest time of the next delivery attempt
+    last_error TEXT, -- Error of the last failed attempt
+    sent_at TIMESTAMP, -- Timestamp for successful delivery
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP, -- Timestamp for reminder creation
+    CHECK ((remind_at IS NULL) <> (offset_minutes IS NULL)), -- Either absolute or relative
     FOREIGN KEY (task_id) REFERENCES tasks(task_id) ON DELETE CASCADE, -- Cascade delete
     FOREIGN KEY (user_id) REFERENCES users(user_id) ON DELETE CASCADE -- Cascade delete
 );
 
+-- Create the reminder_settings table (reminder defaults of users)
+CREATE TABLE reminder_settings (
+    user_id INT PRIMARY KEY, -- Primary key and foreign key to users table
+    default_offsets INT[] NOT NULL DEFAULT '{}', -- Minutes before the due day of the reminders added to new due dates
+    default_channels TEXT[] NOT NULL DEFAULT '{in_app}', -- Channels of the default reminders
+    webhook_url VARCHAR(2048), -- URL receiving the reminders of the webhook channel
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP, -- Timestamp for last update
+    FOREIGN KEY (user_id) REFERENCES users(user_id) ON DELETE CASCADE -- Cascade delete
+);
+
+-- Create the notifications table (in-app notifications)
+CREATE TABLE notifications (
+    notification_id SERIAL PRIMARY KEY, -- Primary key
+    user_id INT NOT NULL, -- Foreign key to users table (recipient)
+    type VARCHAR(30) NOT NULL, -- Kind of notification (reminder, assignment, overdue, mention)
+    title VARCHAR(255) NOT NULL, -- Short text shown in the notification list
+    body TEXT, -- Optional details
+    task_id INT, -- Foreign key to tasks table (task the notification is about)
+    read_at TIMESTAMP, -- Timestamp for when the user read the notification
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP, -- Timestamp for notification creation
+    FOREIGN KEY (user_id) REFERENCES users(user_id) ON DELETE CASCADE, -- Cascade delete
+    FOREIGN KEY (task_id) REFERENCES tasks(task_id) ON DELETE SET NULL -- Set NULL on delete
+);
+
+-- Create the notification_preferences table (channels per notification type; defaults apply without a row)
+CREATE TABLE notification_preferences (
+    user_id INT NOT NULL, -- Foreign key to users table
+    type VARCHAR(30) NOT NULL, -- Notification type (assignment, overdue, mention)
+    channel VARCHAR(20) NOT NULL, -- Delivery channel (in_app, email)
+    enabled BOOLEAN NOT NULL, -- Whether the type is delivered on the channel
+    PRIMARY KEY (user_id, type, channel), -- Composite primary key
+    FOREIGN KEY (user_id) REFERENCES users(user_id) ON DELETE CASCADE -- Cascade delete
+);
+
+-- Create the refresh_tokens table
+CREATE TABLE refresh_tokens (
+    token_id UUID PRIMARY KEY, -- Primary key, matches the jti claim of the refresh token
+    user_id INT NOT NULL, -- Foreign key to users table
+    family_id UUID NOT NULL, -- Shared by every token rotated from the same login
+    replaced_by UUID, -- Token issued when this one was rotated
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP, -- Timestamp for token issue
+    rotated_at TIMESTAMP, -- Timestamp for when the token was exchanged
+    revoked_at TIMESTAMP, -- Timestamp for logout or family revocation
+    FOREIGN KEY (user_id) REFERENCES users(user_id) ON DELETE CASCADE -- Cascade delete
+);
+
+-- Create the password_reset_tokens table
+CREATE TABLE password_reset_tokens (
+    reset_token_id SERIAL PRIMARY KEY, -- Primary key
+    user_id INT NOT NULL, -- Foreign key to users table
+    token_hash CHAR(64) NOT NULL UNIQUE, -- SHA-256 hex digest of the emailed token; the token itself is never stored
+    expires_at TIMESTAMP NOT NULL, -- Timestamp after which the token can no longer be used
+    used_at TIMESTAMP, -- Timestamp for when the token was used or superseded
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP, -- Timestamp for token creation
+    FOREIGN KEY (user_id) REFERENCES users(user_id) ON DELETE CASCADE -- Cascade delete
+);
+
+-- Create the email_outbox table
+CREATE TABLE email_outbox (
+    email_id SERIAL PRIMARY KEY, -- Primary key
+    recipient VARCHAR(100) NOT NULL, -- Recipient email address
+    subject VARCHAR(255) NOT NULL, -- Rendered subject
+    text_body TEXT NOT NULL, -- Rendered plain text body
+    html_body TEXT, -- Rendered HTML body
+    status VARCHAR(20) NOT NULL DEFAULT 'pending', -- Delivery status (pending, sent, failed)
+    attempts INT NOT NULL DEFAULT 0, -- Number of delivery attempts made
+    next_attempt_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP, -- Earliest time of the next delivery attempt
+    last_error TEXT, -- Error of the last failed attempt
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP, -- Timestamp for when the email was queued
+    sent_at TIMESTAMP -- Timestamp for successful delivery
+);
+
+-- Create the app_settings table
+CREATE TABLE app_settings (
+    key VARCHAR(100) PRIMARY KEY, -- Setting name
+    value JSONB NOT NULL, -- Setting value
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP -- Timestamp for last update
+);
+
+-- Seed the default application settings
+INSERT INTO app_settings (key, value) VALUES ('require_verified_email_for_tasks', 'false');
+
 -- Create indexes for faster querying
 CREATE INDEX idx_tasks_user_id ON tasks(user_id); -- Index on user_id for tasks
 CREATE INDEX idx_tasks_category_id ON tasks(category_id); -- Index on category_id for tasks
 CREATE INDEX idx_tasks_priority_id ON tasks(priority_id); -- Index on priority_id for tasks
+CREATE INDEX idx_categories_user_id ON categories(user_id); -- Index on user_id for categories
+CREATE INDEX idx_priorities_rank ON priorities(rank); -- Index on rank for priority ordering
 CREATE INDEX idx_tasks_due_date ON tasks(due_date); -- Index on due_date for tasks
 CREATE INDEX idx_tasks_status ON tasks(status); -- Index on status for tasks
 CREATE INDEX idx_task_assignments_task_id ON task_assignments(task_id); -- Index on task_id for task assignments
-CREATE INDEX idx_task_assignments_user_id ON task_assignments(user_id); -- Index on user_id for task assignments
\ No newline at end of file
+CREATE INDEX idx_task_assignments_user_id ON task_assignments(user_id); -- Index on user_id for task assignments
+CREATE INDEX idx_refresh_tokens_user_id ON refresh_tokens(user_id); -- Index on user_id for refresh tokens
+CREATE INDEX idx_refresh_tokens_family_id ON refresh_tokens(family_id); -- Index on family_id for family revocation
+CREATE INDEX idx_password_reset_tokens_user_id ON password_reset_tokens(user_id); -- Index on user_id for password reset tokens
+CREATE INDEX idx_email_outbox_pending ON email_outbox(next_attempt_at) WHERE status = 'pending'; -- Index on due pending email for the outbox dispatcher
+CREATE UNIQUE INDEX idx_categories_user_name ON categories(user_id, name) WHERE workspace_id IS NULL; -- Personal category names are unique per user
+CREATE UNIQUE INDEX idx_categories_workspace_name ON categories(workspace_id, name) WHERE workspace_id IS NOT NULL; -- Workspace category names are unique per workspace
+CREATE INDEX idx_tasks_workspace_id ON tasks(workspace_id); -- Index on workspace_id for tasks
+CREATE INDEX idx_workspace_members_user_id ON workspace_members(user_id); -- Index on user_id for membership lookups
+CREATE INDEX idx_tasks_search_vector ON tasks USING GIN (search_vector); -- Index on the search document for full-text search
+CREATE INDEX idx_task_events_task_id ON task_events(task_id, created_at); -- Index on task_id for task history
+CREATE UNIQUE INDEX idx_statuses_builtin_key ON statuses(key) WHERE workspace_id IS NULL; -- Built-in status keys are unique
+CREATE INDEX idx_tasks_series_id ON tasks(series_id, due_date); -- Index on series_id for the occurrences of recurring tasks
+CREATE INDEX idx_task_reminders_task_user ON task_reminders(task_id, user_id); -- Index on task_id for the reminders of a task
+CREATE INDEX idx_task_reminders_pending ON task_reminders(next_attempt_at) WHERE status = 'pending'; -- Index on due pending reminders for the reminder scheduler
+CREATE INDEX idx_notifications_user_id ON notifications(user_id, notification_id); -- Index on user_id for the notifications of a user
+CREATE INDEX idx_notifications_unread ON notifications(user_id) WHERE read_at IS NULL; -- Index on unread notifications for unread counts
+CREATE INDEX idx_tasks_parent_task_id ON tasks(parent_task_id); -- Index on parent_task_id for subtasks and progress roll-up
+CREATE INDEX idx_task_checklist_items_task_id ON task_checklist_items(task_id, position); -- Index on task_id for the checklist of a task
+CREATE INDEX idx_task_dependencies_blocked ON task_dependencies(blocked_task_id); -- Index on blocked_task_id for the blockers of a task
+CREATE INDEX idx_task_comments_task_id ON task_comments(task_id, created_at); -- Index on task_id for the comments on a task
+CREATE INDEX idx_task_attachments_sha256 ON task_attachments(sha256); -- Index on sha256 for purging unreferenced contents
+CREATE UNIQUE INDEX idx_tags_user_name ON tags(user_id, lower(name)) WHERE workspace_id IS NULL; -- Personal tag names are unique per user, ignoring case
+CREATE UNIQUE INDEX idx_tags_workspace_name ON tags(workspace_id, lower(name)) WHERE workspace_id IS NOT NULL; -- Workspace tag names are unique per workspace, ignoring case
+CREATE INDEX idx_task_tags_tag_id ON task_tags(tag_id); -- Index on tag_id for tag counts and tag filters
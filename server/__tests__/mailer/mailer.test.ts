@@ -0,0 +1,111 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { FileTransport, Mailer, MemoryTransport } from '../../src/mailer';
+import { renderTemplate, resolveLocale } from '../../src/mailer/templates';
+import { IEmailOutboxRepository } from '../../src/interfaces/emailOutboxRepository.interface';
+
+describe('Mailer', () => {
+  const data = { username: 'testuser', resetUrl: 'http://localhost/reset?token=abc', ttlMinutes: 60 };
+
+  describe('renderTemplate', () => {
+    it('should render text and HTML bodies with the template data', () => {
+      // Act
+      const message = renderTemplate('password_reset', 'en', data);
+
+      // Assert
+      expect(message.subject).toBe('Reset your password');
+      expect(message.text).toContain('Hi testuser,');
+      expect(message.text).toContain(data.resetUrl);
+      expect(message.html).toContain(`<a href="${data.resetUrl}">`);
+    });
+
+    it('should escape values in the HTML body only', () => {
+      // Act
+      const message = renderTemplate('password_reset', 'en', { ...data, username: '<b>Tom & Jerry</b>' });
+
+      // Assert
+      expect(message.text).toContain('Hi <b>Tom & Jerry</b>,');
+      expect(message.html).toContain('Hi &lt;b&gt;Tom &amp; Jerry&lt;/b&gt;,');
+    });
+
+    it('should use the template of the requested locale', () => {
+      // Act
+      const message = renderTemplate('password_reset', 'vi-VN', data);
+
+      // Assert
+      expect(message.subject).toBe('Đặt lại mật khẩu');
+    });
+
+    it('should throw if a placeholder has no value', () => {
+      // Act & Assert
+      expect(() => renderTemplate('password_reset', 'en', { username: 'testuser' }))
+        .toThrow('Missing value for email template placeholder');
+    });
+  });
+
+  describe('resolveLocale', () => {
+    it('should fall back to the default locale', () => {
+      // Act & Assert
+      expect(resolveLocale('fr')).toBe('en');
+      expect(resolveLocale(undefined)).toBe('en');
+      expect(resolveLocale('EN-us')).toBe('en');
+    });
+  });
+
+  describe('sendTemplate', () => {
+    it('should deliver directly through the transport without an outbox', async () => {
+      // Arrange
+      const transport = new MemoryTransport();
+      const mailer = new Mailer(transport);
+
+      // Act
+      await mailer.sendTemplate('password_reset', { to: 'test@example.com', data });
+
+      // Assert
+      expect(transport.outbox).toHaveLength(1);
+      expect(transport.outbox[0]).toMatchObject({ to: 'test@example.com', subject: 'Reset your password' });
+    });
+
+    it('should queue the rendered message when an outbox is configured', async () => {
+      // Arrange
+      const transport = new MemoryTransport();
+      const outbox = { enqueue: jest.fn().mockResolvedValue({}) } as unknown as IEmailOutboxRepository;
+      const mailer = new Mailer(transport, outbox);
+
+      // Act
+      await mailer.sendTemplate('password_reset', { to: 'test@example.com', locale: 'vi', data });
+
+      // Assert
+      expect(transport.outbox).toHaveLength(0);
+      expect(outbox.enqueue).toHaveBeenCalledWith(expect.objectContaining({
+        to: 'test@example.com',
+        subject: 'Đặt lại mật khẩu'
+      }));
+    });
+  });
+
+  describe('FileTransport', () => {
+    it('should write the message to an .eml file', async () => {
+      // Arrange
+      const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'mail-'));
+      const transport = new FileTransport(directory, 'no-reply@localhost');
+
+      try {
+        // Act
+        await transport.deliver({ to: 'test@example.com', subject: 'Hello', text: 'Body', html: '<p>Body</p>' });
+
+        // Assert
+        const files = await fs.readdir(directory);
+        expect(files).toHaveLength(1);
+        expect(files[0]).toMatch(/\.eml$/);
+        const eml = await fs.readFile(path.join(directory, files[0]), 'utf8');
+        expect(eml).toContain('To: test@example.com');
+        expect(eml).toContain('Subject: Hello');
+        expect(eml).toContain('multipart/alternative');
+      } finally {
+        await fs.rm(directory, { recursive: true, force: true });
+      }
+    });
+  });
+});
@@ -0,0 +1,84 @@
+import { OutboxDispatcher, MemoryTransport } from '../../src/mailer';
+import { EmailStatus, IEmailOutboxMessage } from '../../src/interfaces/emailOutbox.interface';
+import { IEmailOutboxRepository } from '../../src/interfaces/emailOutboxRepository.interface';
+
+describe('OutboxDispatcher', () => {
+  let transport: MemoryTransport;
+  let repository: jest.Mocked<IEmailOutboxRepository>;
+  let dispatcher: OutboxDispatcher;
+
+  const options = { batchSize: 10, maxAttempts: 3, retryDelayMs: 1000, pollIntervalMs: 5000 };
+
+  const entry = (overrides: Partial<IEmailOutboxMessage> = {}): IEmailOutboxMessage => ({
+    email_id: 1,
+    recipient: 'test@example.com',
+    subject: 'Subject',
+    text_body: 'Body',
+    html_body: '<p>Body</p>',
+    status: EmailStatus.PENDING,
+    attempts: 0,
+    next_attempt_at: new Date(),
+    created_at: new Date(),
+    ...overrides
+  });
+
+  beforeEach(() => {
+    transport = new MemoryTransport();
+    repository = {
+      enqueue: jest.fn(),
+      claimDue: jest.fn(),
+      markSent: jest.fn().mockResolvedValue(undefined),
+      markFailed: jest.fn().mockResolvedValue(undefined)
+    };
+    dispatcher = new OutboxDispatcher(transport, repository, options);
+  });
+
+  it('should deliver due messages and mark them as sent', async () => {
+    // Arrange
+    repository.claimDue.mockResolvedValue([entry(), entry({ email_id: 2, html_body: null })]);
+
+    // Act
+    const delivered = await dispatcher.dispatchDue();
+
+    // Assert
+    expect(delivered).toBe(2);
+    expect(repository.claimDue).toHaveBeenCalledWith(options.batchSize, expect.any(Number));
+    expect(transport.outbox).toEqual([
+      { to: 'test@example.com', subject: 'Subject', text: 'Body', html: '<p>Body</p>' },
+      { to: 'test@example.com', subject: 'Subject', text: 'Body' }
+    ]);
+    expect(repository.markSent).toHaveBeenCalledWith(1);
+    expect(repository.markSent).toHaveBeenCalledWith(2);
+  });
+
+  it('should schedule a retry with exponential backoff when delivery fails', async () => {
+    // Arrange
+    repository.claimDue.mockResolvedValue([entry({ attempts: 1 })]);
+    jest.spyOn(transport, 'deliver').mockRejectedValue(new Error('Connection refused'));
+    const before = Date.now();
+
+    // Act
+    const delivered = await dispatcher.dispatchDue();
+
+    // Assert
+    expect(delivered).toBe(0);
+    expect(repository.markSent).not.toHaveBeenCalled();
+    const [emailId, error, nextAttemptAt] = repository.markFailed.mock.calls[0];
+    expect(emailId).toBe(1);
+    expect(error).toBe('Connection refused');
+    // Second attempt failed: wait twice the base delay
+    expect((nextAttemptAt as Date).getTime()).toBeGreaterThanOrEqual(before + 2 * options.retryDelayMs);
+  });
+
+  it('should give up once the maximum number of attempts is reached', async () => {
+    // Arrange
+    repository.claimDue.mockResolvedValue([entry({ attempts: options.maxAttempts - 1 })]);
+    jest.spyOn(transport, 'deliver').mockRejectedValue(new Error('Mailbox unavailable'));
+
+    // Act
+    await dispatcher.dispatchDue();
+
+    // Assert
+    expect(repository.markFailed).toHaveBeenCalledWith(1, 'Mailbox unavailable', null);
+  });
+});
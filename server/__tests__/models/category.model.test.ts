@@ -0,0 +1,13 @@
+import { Category } from '../../src/models/category.model';
+
+describe('Category model', () => {
+  describe('namePattern', () => {
+    it('should escape LIKE wildcards', () => {
+      expect(Category.namePattern('50%_off\\')).toBe('%50\\%\\_off\\\\%');
+    });
+
+    it('should match names containing the text', () => {
+      expect(Category.namePattern('work')).toBe('%work%');
+    });
+  });
+});
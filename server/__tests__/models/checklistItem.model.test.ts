@@ -0,0 +1,36 @@
+import { ChecklistItem } from '../../src/models/checklistItem.model';
+
+describe('ChecklistItem model', () => {
+  describe('validateCreate', () => {
+    it('should accept an item with an optional position', () => {
+      expect(() => ChecklistItem.validateCreate({ task_id: 1, content: 'Book the room' })).not.toThrow();
+      expect(() => ChecklistItem.validateCreate({ task_id: 1, content: 'Book the room', position: 2 })).not.toThrow();
+    });
+
+    it('should reject empty or too long items and invalid positions', () => {
+      expect(() => ChecklistItem.validateCreate({ task_id: 1, content: '  ' }))
+        .toThrow(expect.objectContaining({ statusCode: 400, code: 'INVALID_CHECKLIST_ITEM' }));
+      expect(() => ChecklistItem.validateCreate({
+        task_id: 1,
+        content: 'x'.repeat(ChecklistItem.MAX_CONTENT_LENGTH + 1)
+      })).toThrow(expect.objectContaining({ statusCode: 400, code: 'INVALID_CHECKLIST_ITEM' }));
+      expect(() => ChecklistItem.validateCreate({ task_id: 1, content: 'Book the room', position: -1 }))
+        .toThrow(expect.objectContaining({ statusCode: 400, code: 'INVALID_CHECKLIST_ITEM' }));
+    });
+  });
+
+  describe('validateUpdate', () => {
+    it('should require a change', () => {
+      expect(() => ChecklistItem.validateUpdate({}))
+        .toThrow(expect.objectContaining({ statusCode: 400, code: 'NO_UPDATE_DATA' }));
+    });
+
+    it('should validate the changed fields', () => {
+      expect(() => ChecklistItem.validateUpdate({ is_done: true })).not.toThrow();
+      expect(() => ChecklistItem.validateUpdate({ is_done: 'yes' as unknown as boolean }))
+        .toThrow(expect.objectContaining({ statusCode: 400, code: 'INVALID_CHECKLIST_ITEM' }));
+      expect(() => ChecklistItem.validateUpdate({ content: '' }))
+        .toThrow(expect.objectContaining({ statusCode: 400, code: 'INVALID_CHECKLIST_ITEM' }));
+    });
+  });
+});
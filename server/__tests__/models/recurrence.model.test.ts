@@ -0,0 +1,100 @@
+import { Recurrence } from '../../src/models/recurrence.model';
+import { RecurrenceFrequency, Weekday } from '../../src/interfaces/taskSeries.interface';
+
+describe('Recurrence model', () => {
+  describe('validate', () => {
+    it('should accept rules of every frequency', () => {
+      expect(Recurrence.validate({ frequency: 'daily', interval: 2, count: 5 })).toEqual({
+        frequency: RecurrenceFrequency.DAILY,
+        interval: 2,
+        count: 5
+      });
+      expect(Recurrence.validate({ frequency: 'weekly', weekdays: ['MO', 'WE', 'MO'] })).toEqual({
+        frequency: RecurrenceFrequency.WEEKLY,
+        weekdays: [Weekday.MO, Weekday.WE]
+      });
+      expect(() => Recurrence.validate({ frequency: 'monthly', month_day: 31 })).not.toThrow();
+      expect(() => Recurrence.validate({ frequency: 'monthly', week_of_month: -1, weekdays: ['FR'] })).not.toThrow();
+      expect(() => Recurrence.validate({ frequency: 'yearly', until: '2030-12-31' })).not.toThrow();
+      expect(() => Recurrence.validate({ frequency: 'yearly', month_day: 29 })).not.toThrow();
+    });
+
+    it('should reject malformed rules and fields of other frequencies', () => {
+      const invalid = [
+        null,
+        'daily',
+        { frequency: 'hourly' },
+        { frequency: 'daily', interval: 0 },
+        { frequency: 'daily', weekdays: ['MO'] },
+        { frequency: 'daily', count: 3, until: '2030-01-01' },
+        { frequency: 'daily', until: '2030-02-30' },
+        { frequency: 'weekly', weekdays: [] },
+        { frequency: 'weekly', month_day: 1 },
+        { frequency: 'monthly', week_of_month: 2 },
+        { frequency: 'monthly', week_of_month: 2, weekdays: ['MO', 'TU'] },
+        { frequency: 'monthly', week_of_month: 5, weekdays: ['MO'] },
+        { frequency: 'monthly', month_day: 1, week_of_month: 1, weekdays: ['MO'] },
+        { frequency: 'yearly', week_of_month: 1, weekdays: ['MO'] },
+        { frequency: 'daily', byhour: 9 }
+      ];
+
+      for (const rule of invalid) {
+        expect(() => Recurrence.validate(rule)).toThrow(expect.objectContaining({
+          statusCode: 400,
+          code: 'INVALID_RECURRENCE'
+        }));
+      }
+    });
+  });
+
+  describe('nextOccurrence', () => {
+    it('should move daily and yearly occurrences by the interval', () => {
+      expect(Recurrence.nextOccurrence({ frequency: RecurrenceFrequency.DAILY, interval: 3 }, '2025-02-27', 1))
+        .toBe('2025-03-02');
+      expect(Recurrence.nextOccurrence({ frequency: RecurrenceFrequency.YEARLY }, '2024-02-29', 1))
+        .toBe('2025-02-28');
+    });
+
+    it('should move weekly occurrences to the next listed weekday of an active week', () => {
+      const rule = { frequency: RecurrenceFrequency.WEEKLY, interval: 2, weekdays: [Weekday.MO, Weekday.FR] };
+
+      // 2025-07-07 is a Monday
+      expect(Recurrence.nextOccurrence(rule, '2025-07-07', 1)).toBe('2025-07-11');
+      expect(Recurrence.nextOccurrence(rule, '2025-07-11', 2)).toBe('2025-07-21');
+      expect(Recurrence.nextOccurrence({ frequency: RecurrenceFrequency.WEEKLY }, '2025-07-11', 1))
+        .toBe('2025-07-18');
+    });
+
+    it('should keep the day of monthly occurrences and clamp it to shorter months', () => {
+      const rule = Recurrence.anchor({ frequency: RecurrenceFrequency.MONTHLY }, '2025-01-31');
+
+      expect(rule.month_day).toBe(31);
+      expect(Recurrence.nextOccurrence(rule, '2025-01-31', 1)).toBe('2025-02-28');
+      expect(Recurrence.nextOccurrence(rule, '2025-02-28', 2)).toBe('2025-03-31');
+    });
+
+    it('should return yearly occurrences to February 29 in leap years', () => {
+      const rule = Recurrence.anchor({ frequency: RecurrenceFrequency.YEARLY }, '2024-02-29');
+
+      expect(rule.month_day).toBe(29);
+      expect(Recurrence.nextOccurrence(rule, '2024-02-29', 1)).toBe('2025-02-28');
+      expect(Recurrence.nextOccurrence(rule, '2027-02-28', 4)).toBe('2028-02-29');
+    });
+
+    it('should move monthly occurrences to the nth weekday', () => {
+      const secondTuesday = { frequency: RecurrenceFrequency.MONTHLY, week_of_month: 2, weekdays: [Weekday.TU] };
+      const lastFriday = { frequency: RecurrenceFrequency.MONTHLY, week_of_month: -1, weekdays: [Weekday.FR] };
+
+      expect(Recurrence.nextOccurrence(secondTuesday, '2025-07-08', 1)).toBe('2025-08-12');
+      expect(Recurrence.nextOccurrence(secondTuesday, '2025-07-01', 1)).toBe('2025-07-08');
+      expect(Recurrence.nextOccurrence(lastFriday, '2025-07-25', 1)).toBe('2025-08-29');
+    });
+
+    it('should end series after the count or the until date', () => {
+      expect(Recurrence.nextOccurrence({ frequency: RecurrenceFrequency.DAILY, count: 3 }, '2025-07-01', 3))
+        .toBeNull();
+      expect(Recurrence.nextOccurrence({ frequency: RecurrenceFrequency.DAILY, until: '2025-07-01' }, '2025-07-01', 1))
+        .toBeNull();
+    });
+  });
+});
@@ -0,0 +1,79 @@
+import { Reminder } from '../../src/models/reminder.model';
+import { ReminderChannel } from '../../src/interfaces/reminder.interface';
+
+describe('Reminder model', () => {
+  describe('validateCreate', () => {
+    it('should accept a reminder at a future time or before the due date', () => {
+      expect(() => Reminder.validateCreate({ task_id: 1, user_id: 1, remind_at: new Date(Date.now() + 60000) }))
+        .not.toThrow();
+      expect(() => Reminder.validateCreate({
+        task_id: 1,
+        user_id: 1,
+        offset_minutes: 1440,
+        channels: [ReminderChannel.EMAIL, ReminderChannel.WEBHOOK]
+      })).not.toThrow();
+    });
+
+    it('should require exactly one of a time and an offset', () => {
+      expect(() => Reminder.validateCreate({ task_id: 1, user_id: 1 }))
+        .toThrow(expect.objectContaining({ statusCode: 400, code: 'INVALID_REMINDER' }));
+      expect(() => Reminder.validateCreate({
+        task_id: 1,
+        user_id: 1,
+        remind_at: new Date(Date.now() + 60000),
+        offset_minutes: 60
+      })).toThrow(expect.objectContaining({ statusCode: 400, code: 'INVALID_REMINDER' }));
+    });
+
+    it('should reject past times, out of range offsets and unknown channels', () => {
+      expect(() => Reminder.validateCreate({ task_id: 1, user_id: 1, remind_at: new Date(Date.now() - 60000) }))
+        .toThrow(expect.objectContaining({ statusCode: 400, code: 'INVALID_REMINDER' }));
+      expect(() => Reminder.validateCreate({ task_id: 1, user_id: 1, offset_minutes: Reminder.MAX_OFFSET_MINUTES + 1 }))
+        .toThrow(expect.objectContaining({ statusCode: 400, code: 'INVALID_OFFSET' }));
+      expect(() => Reminder.validateCreate({ task_id: 1, user_id: 1, offset_minutes: 60, channels: [] }))
+        .toThrow(expect.objectContaining({ statusCode: 400, code: 'INVALID_CHANNELS' }));
+      expect(() => Reminder.validateCreate({
+        task_id: 1,
+        user_id: 1,
+        offset_minutes: 60,
+        channels: ['sms' as ReminderChannel]
+      })).toThrow(expect.objectContaining({ statusCode: 400, code: 'INVALID_CHANNELS' }));
+    });
+  });
+
+  describe('validateSettings', () => {
+    it('should accept defaults and clearing the webhook URL', () => {
+      expect(() => Reminder.validateSettings({
+        default_offsets: [0, 1440],
+        default_channels: [ReminderChannel.IN_APP],
+        webhook_url: 'https://hooks.example.com/reminders'
+      })).not.toThrow();
+      expect(() => Reminder.validateSettings({ webhook_url: null })).not.toThrow();
+    });
+
+    it('should reject too many defaults and non-http webhook URLs', () => {
+      expect(() => Reminder.validateSettings({ default_offsets: [0, 10, 20, 30, 40, 50] }))
+        .toThrow(expect.objectContaining({ statusCode: 400, code: 'INVALID_OFFSET' }));
+      expect(() => Reminder.validateSettings({ webhook_url: 'ftp://example.com/hook' }))
+        .toThrow(expect.objectContaining({ statusCode: 400, code: 'INVALID_WEBHOOK_URL' }));
+      expect(() => Reminder.validateSettings({ webhook_url: 'not a url' }))
+        .toThrow(expect.objectContaining({ statusCode: 400, code: 'INVALID_WEBHOOK_URL' }));
+    });
+  });
+
+  describe('describeDueDate', () => {
+    const now = new Date(2025, 6, 10, 9, 30);
+
+    it('should describe the due date relative to today', () => {
+      expect(Reminder.describeDueDate('2025-07-10', now)).toBe('Due today');
+      expect(Reminder.describeDueDate('2025-07-11', now)).toBe('Due tomorrow');
+      expect(Reminder.describeDueDate('2025-07-13', now)).toBe('Due in 3 days');
+      expect(Reminder.describeDueDate('2025-07-09', now)).toBe('Overdue by 1 day');
+      expect(Reminder.describeDueDate('2025-07-05', now)).toBe('Overdue by 5 days');
+    });
+
+    it('should return null without a due date', () => {
+      expect(Reminder.describeDueDate(null, now)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,47 @@
+import { Status } from '../../src/models/status.model';
+import { StatusCategory } from '../../src/interfaces/status.interface';
+
+describe('Status model', () => {
+  describe('keyFromName', () => {
+    it('should derive lowercase keys from names', () => {
+      expect(Status.keyFromName('In review')).toBe('in_review');
+      expect(Status.keyFromName('  Blocked / waiting! ')).toBe('blocked_waiting');
+      expect(Status.keyFromName('2nd pass')).toBe('s_2nd_pass');
+    });
+  });
+
+  describe('isOpen', () => {
+    it('should treat todo, in progress and unknown categories as open', () => {
+      expect(Status.isOpen(StatusCategory.TODO)).toBe(true);
+      expect(Status.isOpen(StatusCategory.IN_PROGRESS)).toBe(true);
+      expect(Status.isOpen(undefined)).toBe(true);
+      expect(Status.isOpen(StatusCategory.DONE)).toBe(false);
+      expect(Status.isOpen(StatusCategory.CANCELLED)).toBe(false);
+    });
+  });
+
+  describe('validateCreate', () => {
+    it('should accept a workspace status', () => {
+      expect(() => Status.validateCreate({
+        workspace_id: 10,
+        key: 'blocked',
+        name: 'Blocked',
+        category: StatusCategory.IN_PROGRESS,
+        color: '#EF4444'
+      })).not.toThrow();
+    });
+
+    it('should reject reserved keys, unknown categories and malformed colors', () => {
+      const base = { workspace_id: 10, name: 'Blocked', category: StatusCategory.IN_PROGRESS };
+
+      expect(() => Status.validateCreate({ ...base, key: 'completed' }))
+        .toThrow(expect.objectContaining({ statusCode: 400, code: 'INVALID_KEY' }));
+      expect(() => Status.validateCreate({ ...base, key: 'In Review' }))
+        .toThrow(expect.objectContaining({ statusCode: 400, code: 'INVALID_KEY' }));
+      expect(() => Status.validateCreate({ ...base, category: 'blocked' as StatusCategory }))
+        .toThrow(expect.objectContaining({ statusCode: 400, code: 'INVALID_CATEGORY' }));
+      expect(() => Status.validateCreate({ ...base, color: 'red' }))
+        .toThrow(expect.objectContaining({ statusCode: 400, code: 'INVALID_COLOR' }));
+    });
+  });
+});
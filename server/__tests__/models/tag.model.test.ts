@@ -0,0 +1,46 @@
+import { Tag } from '../../src/models/tag.model';
+
+describe('Tag model', () => {
+  describe('normalizeName', () => {
+    it('should trim and collapse spaces', () => {
+      expect(Tag.normalizeName('  client   review ')).toBe('client review');
+    });
+
+    it('should reject empty, long and comma separated names', () => {
+      expect(() => Tag.normalizeName('   '))
+        .toThrow(expect.objectContaining({ statusCode: 400, code: 'INVALID_TAG' }));
+      expect(() => Tag.normalizeName('a'.repeat(Tag.MAX_NAME_LENGTH + 1)))
+        .toThrow(expect.objectContaining({ statusCode: 400, code: 'INVALID_TAG' }));
+      expect(() => Tag.normalizeName('urgent,later'))
+        .toThrow(expect.objectContaining({ statusCode: 400, code: 'INVALID_TAG' }));
+      expect(() => Tag.normalizeName(7))
+        .toThrow(expect.objectContaining({ statusCode: 400, code: 'INVALID_TAG' }));
+    });
+  });
+
+  describe('normalizeNames', () => {
+    it('should keep the first spelling of names repeated in another case', () => {
+      expect(Tag.normalizeNames(['Urgent', 'client', 'urgent ', 'CLIENT'])).toEqual(['Urgent', 'client']);
+    });
+
+    it('should reject lists that are not arrays or have too many tags', () => {
+      expect(() => Tag.normalizeNames('urgent'))
+        .toThrow(expect.objectContaining({ statusCode: 400, code: 'INVALID_TAGS' }));
+      const names = Array.from({ length: Tag.MAX_PER_TASK + 1 }, (_, index) => `tag ${index}`);
+      expect(() => Tag.normalizeNames(names))
+        .toThrow(expect.objectContaining({ statusCode: 400, code: 'TOO_MANY_TAGS' }));
+    });
+  });
+
+  describe('parseList', () => {
+    it('should split comma separated names and skip empty ones', () => {
+      expect(Tag.parseList('urgent, client a,,')).toEqual(['urgent', 'client a']);
+    });
+  });
+
+  describe('prefixPattern', () => {
+    it('should escape LIKE wildcards', () => {
+      expect(Tag.prefixPattern('50%_off\\')).toBe('50\\%\\_off\\\\%');
+    });
+  });
+});
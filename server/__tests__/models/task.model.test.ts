@@ -0,0 +1,124 @@
+import { Task } from '../../src/models/task.model';
+import { ITask, TaskStatus } from '../../src/interfaces/task.interface';
+
+describe('Task model', () => {
+  describe('parseSort', () => {
+    it('should parse multiple sort keys with directions', () => {
+      expect(Task.parseSort('-priority,due_date, title')).toEqual([
+        { field: 'priority', direction: 'desc' },
+        { field: 'due_date', direction: 'asc' },
+        { field: 'title', direction: 'asc' }
+      ]);
+    });
+
+    it('should reject unknown and repeated fields', () => {
+      expect(() => Task.parseSort('description')).toThrow(expect.objectContaining({ code: 'INVALID_SORT' }));
+      expect(() => Task.parseSort('title,-title')).toThrow(expect.objectContaining({ code: 'INVALID_SORT' }));
+    });
+  });
+
+  describe('resolveSort', () => {
+    it('should prefer explicit sort keys', () => {
+      const sort = [{ field: 'updated_at' as const, direction: 'desc' as const }];
+      expect(Task.resolveSort({ sort, sort_by: 'title' })).toEqual(sort);
+    });
+
+    it('should default to due date then newest first', () => {
+      expect(Task.resolveSort()).toEqual([
+        { field: 'due_date', direction: 'asc' },
+        { field: 'created_at', direction: 'desc' }
+      ]);
+    });
+
+    it('should sort by priority highest first when only sort_by is given', () => {
+      expect(Task.resolveSort({ sort_by: 'priority' })[0]).toEqual({ field: 'priority', direction: 'desc' });
+    });
+  });
+
+  describe('parseFields', () => {
+    it('should always include the task ID', () => {
+      expect(Task.parseFields('title,status')).toEqual(['task_id', 'title', 'status']);
+    });
+
+    it('should reject unknown fields', () => {
+      expect(() => Task.parseFields('title,password_hash')).toThrow(expect.objectContaining({
+        statusCode: 400,
+        code: 'INVALID_FIELDS'
+      }));
+    });
+  });
+
+  describe('searchResultFromDatabaseRow', () => {
+    it('should map rank and highlights', () => {
+      // Arrange
+      const row = {
+        task_id: 1,
+        user_id: 1,
+        title: 'Quarterly report',
+        description: null,
+        status: 'pending',
+        rank: '0.25',
+        title_highlight: 'Quarterly <mark>report</mark>',
+        description_highlight: null,
+        created_at: '2023-01-01T00:00:00Z',
+        updated_at: '2023-01-01T00:00:00Z'
+      };
+
+      // Act
+      const result = Task.searchResultFromDatabaseRow(row);
+
+      // Assert
+      expect(result).toMatchObject({
+        task_id: 1,
+        rank: 0.25,
+        highlights: { title: 'Quarterly <mark>report</mark>', description: null }
+      });
+    });
+  });
+
+  describe('fromDatabaseRow', () => {
+    it('should map the parent and the progress of subtasks and checklist', () => {
+      // Arrange
+      const row = {
+        task_id: 3,
+        user_id: 1,
+        parent_task_id: 1,
+        title: 'Draft outline',
+        status: 'pending',
+        subtask_progress: { total: '5', done: '3' },
+        checklist_progress: null,
+        created_at: '2023-01-01T00:00:00Z',
+        updated_at: '2023-01-01T00:00:00Z'
+      };
+
+      // Act
+      const result = Task.fromDatabaseRow(row);
+
+      // Assert
+      expect(result).toMatchObject({
+        parent_task_id: 1,
+        subtask_progress: { total: 5, done: 3 },
+        checklist_progress: { total: 0, done: 0 }
+      });
+    });
+  });
+
+  describe('pickFields', () => {
+    const task: ITask = {
+      task_id: 1,
+      user_id: 1,
+      title: 'Complete project',
+      status: TaskStatus.PENDING,
+      created_at: new Date('2023-01-01'),
+      updated_at: new Date('2023-01-01')
+    };
+
+    it('should keep only the selected fields', () => {
+      expect(Task.pickFields(task, ['task_id', 'title'])).toEqual({ task_id: 1, title: 'Complete project' });
+    });
+
+    it('should return the whole task without a selection', () => {
+      expect(Task.pickFields(task)).toBe(task);
+    });
+  });
+});
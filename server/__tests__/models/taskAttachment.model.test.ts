@@ -0,0 +1,70 @@
+import { TaskAttachment } from '../../src/models/taskAttachment.model';
+
+describe('TaskAttachment model', () => {
+  const allowed = ['image/png', 'application/pdf'];
+
+  describe('validateFile', () => {
+    it('should accept allowed files within the size limit', () => {
+      expect(() => TaskAttachment.validateFile('image/png', 1024, allowed, 2048)).not.toThrow();
+    });
+
+    it('should reject files of other types, empty files and files over the limit', () => {
+      expect(() => TaskAttachment.validateFile('image/svg+xml', 1024, allowed, 2048))
+        .toThrow(expect.objectContaining({ statusCode: 415, code: 'UNSUPPORTED_FILE_TYPE' }));
+      expect(() => TaskAttachment.validateFile('image/png', 0, allowed, 2048))
+        .toThrow(expect.objectContaining({ statusCode: 400, code: 'INVALID_FILE' }));
+      expect(() => TaskAttachment.validateFile('image/png', 2049, allowed, 2048))
+        .toThrow(expect.objectContaining({ statusCode: 413, code: 'FILE_TOO_LARGE' }));
+    });
+  });
+
+  describe('sanitizeFileName', () => {
+    it('should strip directories, quotes and control characters', () => {
+      expect(TaskAttachment.sanitizeFileName('../../etc/passwd')).toBe('passwd');
+      expect(TaskAttachment.sanitizeFileName('C:\\Users\\me\\report "final".pdf')).toBe('report final.pdf');
+      expect(TaskAttachment.sanitizeFileName('line\r\nbreak.txt')).toBe('linebreak.txt');
+      expect(TaskAttachment.sanitizeFileName('..')).toBe('file');
+    });
+
+    it('should cut long names but keep the extension', () => {
+      const name = TaskAttachment.sanitizeFileName(`${'a'.repeat(300)}.png`);
+
+      expect(name).toHaveLength(TaskAttachment.MAX_FILE_NAME_LENGTH);
+      expect(name.endsWith('.png')).toBe(true);
+    });
+  });
+
+  describe('checksum and storageKey', () => {
+    it('should key contents by their SHA-256 checksum', () => {
+      const sha256 = TaskAttachment.checksum(Buffer.from('hello'));
+
+      expect(sha256).toBe('2cf24dba5fb0a30e26e83b2ac5b9e29e1b161e5c1fa7425e73043362938b9824');
+      expect(TaskAttachment.storageKey(sha256)).toBe(`2c/${sha256}`);
+    });
+  });
+
+  describe('verifyDownload', () => {
+    const secret = 'test-secret';
+    const now = new Date('2024-01-01T00:00:00Z');
+    const expires = now.getTime() / 1000 + 60;
+
+    it('should accept a signed link until it expires', () => {
+      const signature = TaskAttachment.signDownload(1, 7, expires, secret);
+
+      expect(() => TaskAttachment.verifyDownload(1, 7, expires, signature, secret, now)).not.toThrow();
+      expect(() => TaskAttachment.verifyDownload(1, 7, expires, signature, secret, new Date(expires * 1000 + 1)))
+        .toThrow(expect.objectContaining({ statusCode: 403, code: 'LINK_EXPIRED' }));
+    });
+
+    it('should reject links signed for another attachment or with another secret', () => {
+      const signature = TaskAttachment.signDownload(1, 7, expires, secret);
+
+      expect(() => TaskAttachment.verifyDownload(1, 8, expires, signature, secret, now))
+        .toThrow(expect.objectContaining({ statusCode: 403, code: 'INVALID_SIGNATURE' }));
+      expect(() => TaskAttachment.verifyDownload(1, 7, expires, signature, 'other-secret', now))
+        .toThrow(expect.objectContaining({ statusCode: 403, code: 'INVALID_SIGNATURE' }));
+      expect(() => TaskAttachment.verifyDownload(1, 7, expires, 'abc', secret, now))
+        .toThrow(expect.objectContaining({ statusCode: 403, code: 'INVALID_SIGNATURE' }));
+    });
+  });
+});
@@ -0,0 +1,51 @@
+import { TaskComment } from '../../src/models/taskComment.model';
+
+describe('TaskComment model', () => {
+  describe('extractMentions', () => {
+    it('should find each mentioned username once, in order', () => {
+      expect(TaskComment.extractMentions('@alice and @bob.smith, then @alice again'))
+        .toEqual(['alice', 'bob.smith']);
+    });
+
+    it('should leave out email addresses and trailing punctuation', () => {
+      expect(TaskComment.extractMentions('Mail bob@example.com or ask @carol.')).toEqual(['carol']);
+      expect(TaskComment.extractMentions('(@dave_1) @@eve')).toEqual(['dave_1']);
+    });
+
+    it('should notify at most the maximum number of users', () => {
+      const content = Array.from({ length: TaskComment.MAX_MENTIONS + 5 }, (_, i) => `@user${i}`).join(' ');
+
+      expect(TaskComment.extractMentions(content)).toHaveLength(TaskComment.MAX_MENTIONS);
+    });
+  });
+
+  describe('validateContent', () => {
+    it('should reject empty or too long comments', () => {
+      expect(() => TaskComment.validateContent('   '))
+        .toThrow(expect.objectContaining({ statusCode: 400, code: 'INVALID_COMMENT' }));
+      expect(() => TaskComment.validateContent('x'.repeat(TaskComment.MAX_CONTENT_LENGTH + 1)))
+        .toThrow(expect.objectContaining({ statusCode: 400, code: 'INVALID_COMMENT' }));
+      expect(() => TaskComment.validateContent('Looks good')).not.toThrow();
+    });
+  });
+
+  describe('fromDatabaseRow', () => {
+    it('should not return the text of deleted comments', () => {
+      const comment = TaskComment.fromDatabaseRow({
+        comment_id: 1,
+        task_id: 2,
+        user_id: 3,
+        username: 'alice',
+        parent_comment_id: null,
+        content: 'Secret plan',
+        created_at: '2023-01-01T00:00:00Z',
+        updated_at: '2023-01-02T00:00:00Z',
+        edited_at: null,
+        deleted_at: '2023-01-02T00:00:00Z'
+      });
+
+      expect(comment.content).toBeNull();
+      expect(comment.deleted_at).toEqual(new Date('2023-01-02T00:00:00Z'));
+    });
+  });
+});
@@ -0,0 +1,30 @@
+import { TaskDependency } from '../../src/models/taskDependency.model';
+import { StatusCategory } from '../../src/interfaces/status.interface';
+
+describe('TaskDependency model', () => {
+  describe('validate', () => {
+    it('should reject a task blocking itself', () => {
+      expect(() => TaskDependency.validate(3, 3))
+        .toThrow(expect.objectContaining({ statusCode: 400, code: 'INVALID_DEPENDENCY' }));
+      expect(() => TaskDependency.validate(3, 4)).not.toThrow();
+    });
+  });
+
+  describe('nodeFromDatabaseRow', () => {
+    it('should parse the depth and default the status category', () => {
+      expect(TaskDependency.nodeFromDatabaseRow({
+        task_id: 4,
+        title: 'Write the spec',
+        status: 'pending',
+        status_category: null,
+        depth: '2'
+      })).toEqual({
+        task_id: 4,
+        title: 'Write the spec',
+        status: 'pending',
+        status_category: StatusCategory.TODO,
+        depth: 2
+      });
+    });
+  });
+});
@@ -0,0 +1,56 @@
+import { TaskEvent } from '../../src/models/taskEvent.model';
+import { TaskEventType } from '../../src/interfaces/taskEvent.interface';
+
+describe('TaskEvent model', () => {
+  describe('diff', () => {
+    it('should list only the tracked fields that changed', () => {
+      // Arrange
+      const before = { task_id: 1, title: 'Draft', status: 'pending', due_date: '2024-03-01', updated_at: '2024-01-01' };
+      const after = { task_id: 1, title: 'Final', status: 'pending', due_date: null, updated_at: '2024-01-02' };
+
+      // Act
+      const changes = TaskEvent.diff(before, after);
+
+      // Assert
+      expect(changes).toEqual({
+        title: { from: 'Draft', to: 'Final' },
+        due_date: { from: '2024-03-01', to: null }
+      });
+    });
+
+    it('should record every set field when a task is created', () => {
+      expect(TaskEvent.diff({}, { title: 'New task', description: null, status: 'pending' })).toEqual({
+        title: { from: null, to: 'New task' },
+        status: { from: null, to: 'pending' }
+      });
+    });
+  });
+
+  describe('fromDatabaseRow', () => {
+    it('should map system events without an actor', () => {
+      // Arrange
+      const row = {
+        event_id: 3,
+        task_id: 1,
+        user_id: null,
+        event_type: 'unassigned',
+        changes: { assignee: { from: 2, to: null } },
+        created_at: '2024-01-01T00:00:00Z'
+      };
+
+      // Act
+      const event = TaskEvent.fromDatabaseRow(row);
+
+      // Assert
+      expect(event).toEqual({
+        event_id: 3,
+        task_id: 1,
+        user_id: null,
+        username: null,
+        event_type: TaskEventType.UNASSIGNED,
+        changes: { assignee: { from: 2, to: null } },
+        created_at: new Date('2024-01-01T00:00:00Z')
+      });
+    });
+  });
+});
@@ -0,0 +1,88 @@
+import { TaskFilter } from '../../src/models/taskFilter.model';
+import { TaskStatus } from '../../src/interfaces/task.interface';
+import { StatusCategory } from '../../src/interfaces/status.interface';
+
+describe('TaskFilter model', () => {
+  const now = new Date('2024-03-01T12:00:00Z');
+
+  describe('parse', () => {
+    it('should parse fields, comparisons, relative dates and text terms', () => {
+      // Act
+      const filters = TaskFilter.parse('status:open priority:>=medium due:<7d "weekly report"', now);
+
+      // Assert
+      expect(filters).toEqual([
+        { field: 'status_category', operator: 'in', values: [StatusCategory.TODO, StatusCategory.IN_PROGRESS] },
+        { field: 'priority', operator: 'gte', value: 'medium' },
+        { field: 'due_date', operator: 'lt', value: new Date('2024-03-08T12:00:00Z') },
+        { field: 'text', operator: 'contains', value: 'weekly report' }
+      ]);
+    });
+
+    it('should negate terms with a leading dash', () => {
+      expect(TaskFilter.parse('-status:completed -urgent', now)).toEqual([
+        { field: 'status', operator: 'in', values: [TaskStatus.COMPLETED], negate: true },
+        { field: 'text', operator: 'contains', value: 'urgent', negate: true }
+      ]);
+    });
+
+    it('should match empty fields with none', () => {
+      expect(TaskFilter.parse('category:none priority:none due:none', now)).toEqual([
+        { field: 'category_id', operator: 'in', values: [null] },
+        { field: 'priority', operator: 'in', values: [null] },
+        { field: 'due_date', operator: 'is_null' }
+      ]);
+    });
+
+    it('should match a day and past offsets', () => {
+      expect(TaskFilter.parse('created:2024-02-01 updated:>-2w', now)).toEqual([
+        { field: 'created_at', operator: 'on', value: new Date('2024-02-01') },
+        { field: 'updated_at', operator: 'gt', value: new Date('2024-02-16T12:00:00Z') }
+      ]);
+    });
+
+    it('should reject invalid terms', () => {
+      const invalid = ['owner:me', 'status:in-review', 'status:open,pending', 'status:>pending', 'due:<soon', 'priority:>=none', 'category:work'];
+
+      for (const expression of invalid) {
+        expect(() => TaskFilter.parse(expression, now)).toThrow(expect.objectContaining({
+          statusCode: 400,
+          code: 'INVALID_FILTER'
+        }));
+      }
+    });
+  });
+
+  describe('fromStatusList', () => {
+    it('should parse multiple statuses and exclusions', () => {
+      expect(TaskFilter.fromStatusList('pending,in_review')).toEqual({
+        field: 'status',
+        operator: 'in',
+        values: [TaskStatus.PENDING, 'in_review']
+      });
+      expect(TaskFilter.fromStatusList('!closed')).toEqual({
+        field: 'status_category',
+        operator: 'in',
+        values: [StatusCategory.DONE, StatusCategory.CANCELLED],
+        negate: true
+      });
+    });
+  });
+
+  describe('fromIdList', () => {
+    it('should parse IDs and none', () => {
+      expect(TaskFilter.fromIdList('category_id', '3,none')).toEqual({
+        field: 'category_id',
+        operator: 'in',
+        values: [3, null]
+      });
+      expect(TaskFilter.fromIdList('priority_id', '!1')).toMatchObject({ values: [1], negate: true });
+    });
+
+    it('should reject values that are not IDs', () => {
+      expect(() => TaskFilter.fromIdList('category_id', 'work')).toThrow(expect.objectContaining({
+        code: 'INVALID_FILTER'
+      }));
+    });
+  });
+});
@@ -0,0 +1,103 @@
+import { TaskWorkflow } from '../../src/models/taskWorkflow.model';
+import { StatusCategory } from '../../src/interfaces/status.interface';
+
+describe('TaskWorkflow model', () => {
+  describe('assertTransition', () => {
+    it('should allow the default transitions and moves within a category', () => {
+      expect(() => TaskWorkflow.assertTransition(StatusCategory.TODO, StatusCategory.IN_PROGRESS)).not.toThrow();
+      expect(() => TaskWorkflow.assertTransition(StatusCategory.DONE, StatusCategory.IN_PROGRESS)).not.toThrow();
+      expect(() => TaskWorkflow.assertTransition(StatusCategory.CANCELLED, StatusCategory.CANCELLED)).not.toThrow();
+    });
+
+    it('should reject transitions outside the graph', () => {
+      expect(() => TaskWorkflow.assertTransition(StatusCategory.DONE, StatusCategory.TODO)).toThrow(
+        expect.objectContaining({ statusCode: 409, code: 'INVALID_TRANSITION' })
+      );
+      expect(() => TaskWorkflow.assertTransition(StatusCategory.CANCELLED, StatusCategory.DONE)).toThrow(
+        expect.objectContaining({ statusCode: 409, code: 'INVALID_TRANSITION' })
+      );
+    });
+  });
+
+  describe('transitions', () => {
+    it('should add extra transitions to the default graph', () => {
+      // Act
+      const transitions = TaskWorkflow.transitions({
+        [StatusCategory.DONE]: [StatusCategory.TODO, StatusCategory.IN_PROGRESS]
+      });
+
+      // Assert
+      expect(transitions[StatusCategory.DONE]).toEqual([StatusCategory.IN_PROGRESS, StatusCategory.TODO]);
+      expect(transitions[StatusCategory.CANCELLED]).toEqual([StatusCategory.TODO]);
+      expect(TaskWorkflow.canTransition(StatusCategory.DONE, StatusCategory.TODO, transitions)).toBe(true);
+    });
+  });
+
+  describe('assertEditable', () => {
+    it('should only let cancelled tasks be edited when they are restored', () => {
+      expect(() => TaskWorkflow.assertEditable(StatusCategory.DONE)).not.toThrow();
+      expect(() => TaskWorkflow.assertEditable(StatusCategory.CANCELLED, StatusCategory.TODO)).not.toThrow();
+      expect(() => TaskWorkflow.assertEditable(StatusCategory.CANCELLED)).toThrow(
+        expect.objectContaining({ statusCode: 409, code: 'TASK_CANCELLED' })
+      );
+    });
+  });
+
+  describe('assertSubtasksClosed', () => {
+    it('should reject completing a task with open subtasks', () => {
+      expect(() => TaskWorkflow.assertSubtasksClosed(StatusCategory.IN_PROGRESS, StatusCategory.DONE, 2)).toThrow(
+        expect.objectContaining({ statusCode: 409, code: 'OPEN_SUBTASKS' })
+      );
+    });
+
+    it('should allow other changes and tasks whose subtasks are closed', () => {
+      expect(() => TaskWorkflow.assertSubtasksClosed(StatusCategory.TODO, StatusCategory.DONE, 0)).not.toThrow();
+      expect(() => TaskWorkflow.assertSubtasksClosed(StatusCategory.TODO, StatusCategory.IN_PROGRESS, 2)).not.toThrow();
+      expect(() => TaskWorkflow.assertSubtasksClosed(StatusCategory.DONE, StatusCategory.DONE, 2)).not.toThrow();
+    });
+  });
+
+  describe('assertUnblocked', () => {
+    const blocker = {
+      task_id: 2,
+      title: 'Write the spec',
+      status: 'pending',
+      status_category: StatusCategory.TODO,
+      depth: 1
+    };
+
+    it('should reject starting or completing a task with open blockers', () => {
+      for (const to of [StatusCategory.IN_PROGRESS, StatusCategory.DONE]) {
+        expect(() => TaskWorkflow.assertUnblocked(StatusCategory.TODO, to, [blocker])).toThrow(
+          expect.objectContaining({ statusCode: 409, code: 'TASK_BLOCKED' })
+        );
+      }
+    });
+
+    it('should allow other changes and tasks without open blockers', () => {
+      expect(() => TaskWorkflow.assertUnblocked(StatusCategory.TODO, StatusCategory.DONE, [])).not.toThrow();
+      expect(() => TaskWorkflow.assertUnblocked(StatusCategory.TODO, StatusCategory.CANCELLED, [blocker])).not.toThrow();
+      expect(() => TaskWorkflow.assertUnblocked(StatusCategory.IN_PROGRESS, StatusCategory.IN_PROGRESS, [blocker]))
+        .not.toThrow();
+    });
+  });
+
+  describe('validateTransitions', () => {
+    it('should accept a map of categories without duplicates', () => {
+      expect(TaskWorkflow.validateTransitions({ done: ['todo', 'todo'] })).toEqual({
+        done: [StatusCategory.TODO]
+      });
+    });
+
+    it('should reject unknown categories and malformed values', () => {
+      const invalid = [[], 'done', { completed: ['todo'] }, { done: 'todo' }, { done: ['done'] }];
+
+      for (const value of invalid) {
+        expect(() => TaskWorkflow.validateTransitions(value)).toThrow(expect.objectContaining({
+          statusCode: 400,
+          code: 'INVALID_TRANSITIONS'
+        }));
+      }
+    });
+  });
+});
@@ -0,0 +1,115 @@
+import { Notifier, OverdueScanner } from '../../src/notifications';
+import { Mailer, MemoryTransport } from '../../src/mailer';
+import {
+  INotificationCreate,
+  INotifier,
+  NotificationChannel,
+  NotificationType
+} from '../../src/interfaces/notification.interface';
+import { INotificationRepository } from '../../src/interfaces/notificationRepository.interface';
+import { IUserRepository } from '../../src/interfaces/userRepository.interface';
+
+const createRepository = (): jest.Mocked<INotificationRepository> => ({
+  create: jest.fn(),
+  findByUser: jest.fn(),
+  countUnread: jest.fn(),
+  markRead: jest.fn(),
+  markAllRead: jest.fn(),
+  getPreferences: jest.fn().mockResolvedValue([]),
+  savePreferences: jest.fn(),
+  claimOverdue: jest.fn()
+});
+
+describe('Notifier', () => {
+  let repository: jest.Mocked<INotificationRepository>;
+  let users: jest.Mocked<Pick<IUserRepository, 'findById'>>;
+  let transport: MemoryTransport;
+  let notifier: Notifier;
+
+  const assignment: INotificationCreate = {
+    user_id: 2,
+    type: NotificationType.ASSIGNMENT,
+    title: 'You were assigned to "Send report"',
+    task_id: 7
+  };
+
+  beforeEach(() => {
+    repository = createRepository();
+    users = {
+      findById: jest.fn().mockResolvedValue({
+        user_id: 2,
+        username: 'assignee',
+        email: 'assignee@example.com',
+        password_hash: 'hashed',
+        role: 'user',
+        created_at: new Date()
+      })
+    };
+    transport = new MemoryTransport();
+    notifier = new Notifier(repository, users as unknown as IUserRepository, new Mailer(transport));
+  });
+
+  it('should only notify in-app by default', async () => {
+    // Act
+    await notifier.notify(assignment);
+
+    // Assert
+    expect(repository.create).toHaveBeenCalledWith(assignment);
+    expect(transport.outbox).toHaveLength(0);
+  });
+
+  it('should follow the channels the user enabled for the type', async () => {
+    // Arrange
+    repository.getPreferences.mockResolvedValue([
+      { type: NotificationType.ASSIGNMENT, channel: NotificationChannel.IN_APP, enabled: false },
+      { type: NotificationType.ASSIGNMENT, channel: NotificationChannel.EMAIL, enabled: true }
+    ]);
+
+    // Act
+    await notifier.notify(assignment);
+
+    // Assert
+    expect(repository.create).not.toHaveBeenCalled();
+    expect(transport.outbox).toHaveLength(1);
+    expect(transport.outbox[0]).toMatchObject({
+      to: 'assignee@example.com',
+      subject: 'You were assigned to "Send report"'
+    });
+  });
+
+  it('should not fail when a notification cannot be stored', async () => {
+    // Arrange
+    repository.create.mockRejectedValue(new Error('Database unavailable'));
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    // Act & Assert
+    await expect(notifier.notify(assignment)).resolves.toBeUndefined();
+  });
+});
+
+describe('OverdueScanner', () => {
+  it('should notify the owner and assignees of tasks that became overdue', async () => {
+    // Arrange
+    const repository = createRepository();
+    const notifier: jest.Mocked<INotifier> = { notify: jest.fn().mockResolvedValue(undefined) };
+    repository.claimOverdue.mockResolvedValue([
+      { task_id: 7, user_id: 1, title: 'Send report', due_date: '2025-07-09' },
+      { task_id: 7, user_id: 2, title: 'Send report', due_date: '2025-07-09' }
+    ]);
+    const scanner = new OverdueScanner(repository, notifier, { batchSize: 50, pollIntervalMs: 60000 });
+
+    // Act
+    const sent = await scanner.scan();
+
+    // Assert
+    expect(sent).toBe(2);
+    expect(repository.claimOverdue).toHaveBeenCalledWith(50);
+    expect(notifier.notify).toHaveBeenCalledTimes(2);
+    expect(notifier.notify).toHaveBeenCalledWith(expect.objectContaining({
+      user_id: 2,
+      type: NotificationType.OVERDUE,
+      title: 'Overdue: Send report',
+      task_id: 7
+    }));
+  });
+});
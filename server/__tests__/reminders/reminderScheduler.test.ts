@@ -0,0 +1,136 @@
+import { ReminderScheduler } from '../../src/reminders/reminderScheduler';
+import {
+  IDueReminder,
+  IReminderNotifier,
+  ReminderChannel,
+  ReminderStatus
+} from '../../src/interfaces/reminder.interface';
+import { IReminderRepository } from '../../src/interfaces/reminderRepository.interface';
+import { StatusCategory } from '../../src/interfaces/status.interface';
+
+describe('ReminderScheduler', () => {
+  let repository: jest.Mocked<IReminderRepository>;
+  let inApp: jest.Mocked<IReminderNotifier>;
+  let email: jest.Mocked<IReminderNotifier>;
+  let scheduler: ReminderScheduler;
+
+  const options = { batchSize: 10, maxAttempts: 3, retryDelayMs: 1000, pollIntervalMs: 5000 };
+
+  const reminder = (overrides: Partial<IDueReminder> = {}): IDueReminder => ({
+    reminder_id: 1,
+    task_id: 7,
+    user_id: 2,
+    remind_at: null,
+    offset_minutes: 60,
+    fire_at: new Date(),
+    channels: [ReminderChannel.IN_APP, ReminderChannel.EMAIL],
+    status: ReminderStatus.PENDING,
+    delivered_channels: [],
+    attempts: 0,
+    created_at: new Date(),
+    task_title: 'Send report',
+    task_due_date: '2025-07-10',
+    task_status_category: StatusCategory.TODO,
+    username: 'testuser',
+    email: 'test@example.com',
+    webhook_url: null,
+    ...overrides
+  });
+
+  beforeEach(() => {
+    repository = {
+      findByTask: jest.fn(),
+      create: jest.fn(),
+      delete: jest.fn(),
+      getSettings: jest.fn(),
+      updateSettings: jest.fn(),
+      createDefaults: jest.fn(),
+      reschedule: jest.fn(),
+      claimDue: jest.fn(),
+      markChannelDelivered: jest.fn().mockResolvedValue(undefined),
+      markSent: jest.fn().mockResolvedValue(undefined),
+      markSkipped: jest.fn().mockResolvedValue(undefined),
+      markFailed: jest.fn().mockResolvedValue(undefined)
+    };
+    inApp = { channel: ReminderChannel.IN_APP, deliver: jest.fn().mockResolvedValue(undefined) };
+    email = { channel: ReminderChannel.EMAIL, deliver: jest.fn().mockResolvedValue(undefined) };
+    scheduler = new ReminderScheduler(repository, [inApp, email], options);
+  });
+
+  it('should deliver due reminders on each channel and mark them as sent', async () => {
+    // Arrange
+    const due = reminder();
+    repository.claimDue.mockResolvedValue([due]);
+
+    // Act
+    const sent = await scheduler.fireDue();
+
+    // Assert
+    expect(sent).toBe(1);
+    expect(repository.claimDue).toHaveBeenCalledWith(options.batchSize, expect.any(Number));
+    expect(inApp.deliver).toHaveBeenCalledWith(due);
+    expect(email.deliver).toHaveBeenCalledWith(due);
+    expect(repository.markChannelDelivered).toHaveBeenCalledWith(1, ReminderChannel.IN_APP);
+    expect(repository.markChannelDelivered).toHaveBeenCalledWith(1, ReminderChannel.EMAIL);
+    expect(repository.markSent).toHaveBeenCalledWith(1);
+  });
+
+  it('should not deliver again on channels that already delivered', async () => {
+    // Arrange
+    repository.claimDue.mockResolvedValue([reminder({ delivered_channels: [ReminderChannel.IN_APP], attempts: 1 })]);
+
+    // Act
+    await scheduler.fireDue();
+
+    // Assert
+    expect(inApp.deliver).not.toHaveBeenCalled();
+    expect(email.deliver).toHaveBeenCalledTimes(1);
+    expect(repository.markSent).toHaveBeenCalledWith(1);
+  });
+
+  it('should skip reminders of closed tasks', async () => {
+    // Arrange
+    repository.claimDue.mockResolvedValue([reminder({ task_status_category: StatusCategory.DONE })]);
+
+    // Act
+    const sent = await scheduler.fireDue();
+
+    // Assert
+    expect(sent).toBe(0);
+    expect(inApp.deliver).not.toHaveBeenCalled();
+    expect(repository.markSkipped).toHaveBeenCalledWith(1);
+    expect(repository.markSent).not.toHaveBeenCalled();
+  });
+
+  it('should keep delivered channels and schedule a retry when a channel fails', async () => {
+    // Arrange
+    repository.claimDue.mockResolvedValue([reminder({ attempts: 1 })]);
+    email.deliver.mockRejectedValue(new Error('Mailbox unavailable'));
+    const before = Date.now();
+
+    // Act
+    const sent = await scheduler.fireDue();
+
+    // Assert
+    expect(sent).toBe(0);
+    expect(repository.markChannelDelivered).toHaveBeenCalledWith(1, ReminderChannel.IN_APP);
+    expect(repository.markChannelDelivered).not.toHaveBeenCalledWith(1, ReminderChannel.EMAIL);
+    expect(repository.markSent).not.toHaveBeenCalled();
+    const [reminderId, error, nextAttemptAt] = repository.markFailed.mock.calls[0];
+    expect(reminderId).toBe(1);
+    expect(error).toBe('Delivery failed on the email channel');
+    // Second attempt failed: wait twice the base delay
+    expect((nextAttemptAt as Date).getTime()).toBeGreaterThanOrEqual(before + 2 * options.retryDelayMs);
+  });
+
+  it('should give up once the maximum number of attempts is reached', async () => {
+    // Arrange
+    repository.claimDue.mockResolvedValue([reminder({ channels: [ReminderChannel.WEBHOOK], attempts: options.maxAttempts - 1 })]);
+
+    // Act
+    await scheduler.fireDue();
+
+    // Assert
+    expect(repository.markFailed).toHaveBeenCalledWith(1, 'No notifier for reminder channel: webhook', null);
+  });
+});
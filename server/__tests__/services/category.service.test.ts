@@ -0,0 +1,273 @@
+import { CategoryService } from '../../src/services/category.service';
+import { CategoryRepository } from '../../src/repositories/categoryRepository';
+import { ApiError } from '../../src/utils/error.utils';
+import { ICategory } from '../../src/interfaces/category.interface';
+import { WorkspaceRepository } from '../../src/repositories/workspaceRepository';
+import { WorkspaceRole } from '../../src/interfaces/workspace.interface';
+
+// Mock the repositories
+jest.mock('../../src/repositories/categoryRepository');
+jest.mock('../../src/repositories/workspaceRepository');
+
+describe('CategoryService', () => {
+  let categoryService: CategoryService;
+  let mockCategoryRepository: jest.Mocked<CategoryRepository>;
+  let mockWorkspaceRepository: jest.Mocked<WorkspaceRepository>;
+
+  // Mock data
+  const mockCategories: ICategory[] = [
+    {
+      category_id: 1,
+      user_id: 1,
+      name: 'Work',
+      color: '#3B82F6',
+      icon: 'briefcase',
+      is_default: true,
+      created_at: new Date('2023-01-01')
+    },
+    {
+      category_id: 2,
+      user_id: 1,
+      name: 'Side project',
+      color: '#6B7280',
+      is_default: false,
+      created_at: new Date('2023-01-02')
+    }
+  ];
+
+  // Category created by user 1 in workspace 10
+  const mockWorkspaceCategory: ICategory = {
+    category_id: 3,
+    user_id: 1,
+    workspace_id: 10,
+    name: 'Team',
+    color: '#10B981',
+    is_default: false,
+    created_at: new Date('2023-01-03')
+  };
+
+  beforeEach(() => {
+    // Clear all mocks before each test
+    jest.clearAllMocks();
+
+    // Create a new instance of CategoryService for each test
+    categoryService = new CategoryService();
+
+    // Get the mocked CategoryRepository instance
+    mockCategoryRepository = CategoryRepository.prototype as jest.Mocked<CategoryRepository>;
+    mockWorkspaceRepository = WorkspaceRepository.prototype as jest.Mocked<WorkspaceRepository>;
+    mockWorkspaceRepository.getMemberRole.mockResolvedValue(null);
+  });
+
+  describe('getUserCategories', () => {
+    it('should return the categories of a user', async () => {
+      // Arrange
+      mockCategoryRepository.findByUserId.mockResolvedValue(mockCategories);
+
+      // Act
+      const result = await categoryService.getUserCategories(1);
+
+      // Assert
+      expect(result).toEqual(mockCategories);
+      expect(mockCategoryRepository.findByUserId).toHaveBeenCalledWith(1, undefined);
+    });
+  });
+
+  describe('getCategoryById', () => {
+    it('should return a category owned by the user', async () => {
+      // Arrange
+      mockCategoryRepository.findById.mockResolvedValue(mockCategories[0]);
+
+      // Act
+      const result = await categoryService.getCategoryById(1, 1);
+
+      // Assert
+      expect(result).toEqual(mockCategories[0]);
+      expect(mockCategoryRepository.findById).toHaveBeenCalledWith(1);
+    });
+
+    it('should return null if category not found', async () => {
+      // Arrange
+      mockCategoryRepository.findById.mockResolvedValue(null);
+
+      // Act
+      const result = await categoryService.getCategoryById(999, 1);
+
+      // Assert
+      expect(result).toBeNull();
+    });
+
+    it('should throw error if category belongs to another user', async () => {
+      // Arrange
+      mockCategoryRepository.findById.mockResolvedValue(mockCategories[0]);
+
+      // Act & Assert
+      await expect(categoryService.getCategoryById(1, 2))
+        .rejects.toThrow(ApiError);
+    });
+  });
+
+  describe('createCategory', () => {
+    it('should create a new category', async () => {
+      // Arrange
+      const categoryData = { user_id: 1, name: 'Errands', color: '#F59E0B' };
+      const newCategory = { ...mockCategories[1], category_id: 3, ...categoryData };
+      mockCategoryRepository.create.mockResolvedValue(newCategory);
+
+      // Act
+      const result = await categoryService.createCategory(categoryData);
+
+      // Assert
+      expect(result).toEqual(newCategory);
+      expect(mockCategoryRepository.create).toHaveBeenCalledWith(categoryData);
+    });
+
+    it('should propagate conflict errors for duplicate names', async () => {
+      // Arrange
+      const conflict = ApiError.conflict('You already have a category with this name', 'CATEGORY_EXISTS');
+      mockCategoryRepository.create.mockRejectedValue(conflict);
+
+      // Act & Assert
+      await expect(categoryService.createCategory({ user_id: 1, name: 'Work' }))
+        .rejects.toMatchObject({ statusCode: 409, code: 'CATEGORY_EXISTS' });
+    });
+  });
+
+  describe('createDefaultCategories', () => {
+    it('should seed the default categories for a user', async () => {
+      // Arrange
+      mockCategoryRepository.createDefaults.mockResolvedValue([mockCategories[0]]);
+
+      // Act
+      const result = await categoryService.createDefaultCategories(1);
+
+      // Assert
+      expect(result).toEqual([mockCategories[0]]);
+      expect(mockCategoryRepository.createDefaults).toHaveBeenCalledWith(1);
+    });
+  });
+
+  describe('updateCategory', () => {
+    it('should update an existing category', async () => {
+      // Arrange
+      const renamed = { ...mockCategories[0], name: 'Office', color: '#111827' };
+      mockCategoryRepository.findById.mockResolvedValue(mockCategories[0]);
+      mockCategoryRepository.update.mockResolvedValue(renamed);
+
+      // Act
+      const result = await categoryService.updateCategory(1, { name: 'Office', color: '#111827' }, 1);
+
+      // Assert
+      expect(result).toEqual(renamed);
+      expect(mockCategoryRepository.update).toHaveBeenCalledWith(1, { name: 'Office', color: '#111827' });
+    });
+
+    it('should return null if category not found', async () => {
+      // Arrange
+      mockCategoryRepository.findById.mockResolvedValue(null);
+
+      // Act
+      const result = await categoryService.updateCategory(999, { name: 'Office' }, 1);
+
+      // Assert
+      expect(result).toBeNull();
+      expect(mockCategoryRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should throw error if user not authorized', async () => {
+      // Arrange
+      mockCategoryRepository.findById.mockResolvedValue(mockCategories[0]);
+
+      // Act & Assert
+      await expect(categoryService.updateCategory(1, { name: 'Office' }, 2))
+        .rejects.toThrow(ApiError);
+      expect(mockCategoryRepository.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deleteCategory', () => {
+    it('should delete a category and report affected tasks', async () => {
+      // Arrange
+      mockCategoryRepository.findById.mockResolvedValue(mockCategories[0]);
+      mockCategoryRepository.deleteWithTaskCount.mockResolvedValue({ deleted: true, affected_tasks: 4 });
+
+      // Act
+      const result = await categoryService.deleteCategory(1, 1);
+
+      // Assert
+      expect(result).toEqual({ deleted: true, affected_tasks: 4 });
+      expect(mockCategoryRepository.deleteWithTaskCount).toHaveBeenCalledWith(1);
+    });
+
+    it('should report not deleted if category not found', async () => {
+      // Arrange
+      mockCategoryRepository.findById.mockResolvedValue(null);
+
+      // Act
+      const result = await categoryService.deleteCategory(999, 1);
+
+      // Assert
+      expect(result.deleted).toBe(false);
+      expect(mockCategoryRepository.deleteWithTaskCount).not.toHaveBeenCalled();
+    });
+
+    it('should throw error if user not authorized', async () => {
+      // Arrange
+      mockCategoryRepository.findById.mockResolvedValue(mockCategories[0]);
+
+      // Act & Assert
+      await expect(categoryService.deleteCategory(1, 2))
+        .rejects.toThrow(ApiError);
+      expect(mockCategoryRepository.deleteWithTaskCount).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('workspace categories', () => {
+    it('should let workspace members view a shared category', async () => {
+      // Arrange
+      mockCategoryRepository.findById.mockResolvedValue(mockWorkspaceCategory);
+      mockWorkspaceRepository.getMemberRole.mockResolvedValue(WorkspaceRole.VIEWER);
+
+      // Act
+      const result = await categoryService.getCategoryById(3, 2);
+
+      // Assert
+      expect(result).toEqual(mockWorkspaceCategory);
+      expect(mockWorkspaceRepository.getMemberRole).toHaveBeenCalledWith(10, 2);
+    });
+
+    it('should not let viewers create categories in a workspace', async () => {
+      // Arrange
+      mockWorkspaceRepository.getMemberRole.mockResolvedValue(WorkspaceRole.VIEWER);
+
+      // Act & Assert
+      await expect(categoryService.createCategory({ user_id: 2, workspace_id: 10, name: 'Team' }))
+        .rejects.toMatchObject({ statusCode: 403, code: 'FORBIDDEN' });
+      expect(mockCategoryRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('should not let members update categories created by someone else', async () => {
+      // Arrange
+      mockCategoryRepository.findById.mockResolvedValue(mockWorkspaceCategory);
+      mockWorkspaceRepository.getMemberRole.mockResolvedValue(WorkspaceRole.MEMBER);
+
+      // Act & Assert
+      await expect(categoryService.updateCategory(3, { name: 'Shared' }, 2))
+        .rejects.toMatchObject({ statusCode: 403 });
+      expect(mockCategoryRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should let workspace admins delete any shared category', async () => {
+      // Arrange
+      mockCategoryRepository.findById.mockResolvedValue(mockWorkspaceCategory);
+      mockCategoryRepository.deleteWithTaskCount.mockResolvedValue({ deleted: true, affected_tasks: 0 });
+      mockWorkspaceRepository.getMemberRole.mockResolvedValue(WorkspaceRole.ADMIN);
+
+      // Act
+      const result = await categoryService.deleteCategory(3, 2);
+
+      // Assert
+      expect(result.deleted).toBe(true);
+    });
+  });
+});
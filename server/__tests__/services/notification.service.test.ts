@@ -0,0 +1,122 @@
+import { NotificationService } from '../../src/services/notification.service';
+import { NotificationRepository } from '../../src/repositories/notificationRepository';
+import { INotification, NotificationChannel, NotificationType } from '../../src/interfaces/notification.interface';
+
+// Mock the repositories
+jest.mock('../../src/repositories/notificationRepository');
+
+describe('NotificationService', () => {
+  let notificationService: NotificationService;
+  let mockNotificationRepository: jest.Mocked<NotificationRepository>;
+
+  // Mock data
+  const mockNotification: INotification = {
+    notification_id: 3,
+    user_id: 1,
+    type: NotificationType.ASSIGNMENT,
+    title: 'You were assigned to "Complete project"',
+    body: null,
+    task_id: 1,
+    read_at: null,
+    created_at: new Date('2023-01-01')
+  };
+
+  beforeEach(() => {
+    // Clear all mocks before each test
+    jest.clearAllMocks();
+
+    notificationService = new NotificationService();
+    mockNotificationRepository = NotificationRepository.prototype as jest.Mocked<NotificationRepository>;
+  });
+
+  describe('getNotifications', () => {
+    it('should return the notifications with the unread count', async () => {
+      // Arrange
+      mockNotificationRepository.findByUser.mockResolvedValue([mockNotification]);
+      mockNotificationRepository.countUnread.mockResolvedValue(4);
+
+      // Act
+      const result = await notificationService.getNotifications(1, { unread: true, limit: 10 });
+
+      // Assert
+      expect(result).toEqual({ notifications: [mockNotification], unread_count: 4 });
+      expect(mockNotificationRepository.findByUser).toHaveBeenCalledWith(1, { unread: true, limit: 10 });
+      expect(mockNotificationRepository.countUnread).toHaveBeenCalledWith(1);
+    });
+  });
+
+  describe('markRead', () => {
+    it('should mark a notification of the user as read', async () => {
+      // Arrange
+      const read = { ...mockNotification, read_at: new Date('2023-01-02') };
+      mockNotificationRepository.markRead.mockResolvedValue(read);
+
+      // Act
+      const result = await notificationService.markRead(3, 1);
+
+      // Assert
+      expect(result).toEqual(read);
+      expect(mockNotificationRepository.markRead).toHaveBeenCalledWith(3, 1);
+    });
+
+    it('should return null for notifications of other users', async () => {
+      // Arrange
+      mockNotificationRepository.markRead.mockResolvedValue(null);
+
+      // Act
+      const result = await notificationService.markRead(3, 2);
+
+      // Assert
+      expect(result).toBeNull();
+    });
+  });
+
+  describe('markAllRead', () => {
+    it('should return the number of notifications marked', async () => {
+      // Arrange
+      mockNotificationRepository.markAllRead.mockResolvedValue(4);
+
+      // Act
+      const result = await notificationService.markAllRead(1);
+
+      // Assert
+      expect(result).toBe(4);
+    });
+  });
+
+  describe('preferences', () => {
+    it('should complete saved preferences with the defaults', async () => {
+      // Arrange
+      mockNotificationRepository.getPreferences.mockResolvedValue([
+        { type: NotificationType.OVERDUE, channel: NotificationChannel.EMAIL, enabled: true }
+      ]);
+
+      // Act
+      const result = await notificationService.getPreferences(1);
+
+      // Assert
+      expect(result).toEqual([
+        { type: NotificationType.ASSIGNMENT, channel: NotificationChannel.IN_APP, enabled: true },
+        { type: NotificationType.ASSIGNMENT, channel: NotificationChannel.EMAIL, enabled: false },
+        { type: NotificationType.OVERDUE, channel: NotificationChannel.IN_APP, enabled: true },
+        { type: NotificationType.OVERDUE, channel: NotificationChannel.EMAIL, enabled: true },
+        { type: NotificationType.MENTION, channel: NotificationChannel.IN_APP, enabled: true },
+        { type: NotificationType.MENTION, channel: NotificationChannel.EMAIL, enabled: false }
+      ]);
+    });
+
+    it('should save preferences and return them all', async () => {
+      // Arrange
+      const preferences = [{ type: NotificationType.ASSIGNMENT, channel: NotificationChannel.IN_APP, enabled: false }];
+      mockNotificationRepository.getPreferences.mockResolvedValue(preferences);
+
+      // Act
+      const result = await notificationService.updatePreferences(1, preferences);
+
+      // Assert
+      expect(mockNotificationRepository.savePreferences).toHaveBeenCalledWith(1, preferences);
+      expect(result).toContainEqual(preferences[0]);
+      expect(result).toHaveLength(6);
+    });
+  });
+});
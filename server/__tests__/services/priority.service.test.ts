@@ -0,0 +1,111 @@
+import { PriorityService } from '../../src/services/priority.service';
+import { PriorityRepository } from '../../src/repositories/priorityRepository';
+import { ApiError } from '../../src/utils/error.utils';
+import { IPriority } from '../../src/interfaces/priority.interface';
+
+// Mock the PriorityRepository
+jest.mock('../../src/repositories/priorityRepository');
+
+describe('PriorityService', () => {
+  let priorityService: PriorityService;
+  let mockPriorityRepository: jest.Mocked<PriorityRepository>;
+
+  // Mock data (ordered highest rank first, as returned by the repository)
+  const mockPriorities: IPriority[] = [
+    { priority_id: 3, name: 'high', rank: 3 },
+    { priority_id: 2, name: 'medium', rank: 2 },
+    { priority_id: 1, name: 'low', rank: 1 }
+  ];
+
+  beforeEach(() => {
+    // Clear all mocks before each test
+    jest.clearAllMocks();
+
+    // Create a new instance of PriorityService for each test
+    priorityService = new PriorityService();
+
+    // Get the mocked PriorityRepository instance
+    mockPriorityRepository = PriorityRepository.prototype as jest.Mocked<PriorityRepository>;
+  });
+
+  describe('getAllPriorities', () => {
+    it('should return all priorities', async () => {
+      // Arrange
+      mockPriorityRepository.findAll.mockResolvedValue(mockPriorities);
+
+      // Act
+      const result = await priorityService.getAllPriorities();
+
+      // Assert
+      expect(result).toEqual(mockPriorities);
+      expect(mockPriorityRepository.findAll).toHaveBeenCalledWith(undefined);
+    });
+  });
+
+  describe('createPriority', () => {
+    it('should create a new priority with a rank', async () => {
+      // Arrange
+      const urgent = { priority_id: 4, name: 'urgent', rank: 4 };
+      mockPriorityRepository.create.mockResolvedValue(urgent);
+
+      // Act
+      const result = await priorityService.createPriority({ name: 'urgent', rank: 4 });
+
+      // Assert
+      expect(result).toEqual(urgent);
+      expect(mockPriorityRepository.create).toHaveBeenCalledWith({ name: 'urgent', rank: 4 });
+    });
+
+    it('should propagate conflict errors for duplicate names', async () => {
+      // Arrange
+      const conflict = ApiError.conflict('Priority name is already in use', 'PRIORITY_EXISTS');
+      mockPriorityRepository.create.mockRejectedValue(conflict);
+
+      // Act & Assert
+      await expect(priorityService.createPriority({ name: 'high' }))
+        .rejects.toMatchObject({ statusCode: 409, code: 'PRIORITY_EXISTS' });
+    });
+  });
+
+  describe('updatePriority', () => {
+    it('should re-rank an existing priority', async () => {
+      // Arrange
+      const reranked = { ...mockPriorities[2], rank: 5 };
+      mockPriorityRepository.findById.mockResolvedValue(mockPriorities[2]);
+      mockPriorityRepository.update.mockResolvedValue(reranked);
+
+      // Act
+      const result = await priorityService.updatePriority(1, { rank: 5 });
+
+      // Assert
+      expect(result).toEqual(reranked);
+      expect(mockPriorityRepository.update).toHaveBeenCalledWith(1, { rank: 5 });
+    });
+
+    it('should return null if priority not found', async () => {
+      // Arrange
+      mockPriorityRepository.findById.mockResolvedValue(null);
+
+      // Act
+      const result = await priorityService.updatePriority(999, { rank: 5 });
+
+      // Assert
+      expect(result).toBeNull();
+      expect(mockPriorityRepository.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deletePriority', () => {
+    it('should delete a priority', async () => {
+      // Arrange
+      mockPriorityRepository.delete.mockResolvedValue(true);
+
+      // Act
+      const result = await priorityService.deletePriority(1);
+
+      // Assert
+      expect(result).toBe(true);
+      expect(mockPriorityRepository.delete).toHaveBeenCalledWith(1);
+    });
+  });
+});
@@ -0,0 +1,182 @@
+import { StatusService } from '../../src/services/status.service';
+import { StatusRepository } from '../../src/repositories/statusRepository';
+import { WorkspaceRepository } from '../../src/repositories/workspaceRepository';
+import { IStatus, StatusCategory } from '../../src/interfaces/status.interface';
+import { WorkspaceRole } from '../../src/interfaces/workspace.interface';
+
+// Mock the repositories
+jest.mock('../../src/repositories/statusRepository');
+jest.mock('../../src/repositories/workspaceRepository');
+
+describe('StatusService', () => {
+  let statusService: StatusService;
+  let mockStatusRepository: jest.Mocked<StatusRepository>;
+  let mockWorkspaceRepository: jest.Mocked<WorkspaceRepository>;
+
+  // Mock data
+  const mockBuiltInStatus: IStatus = {
+    status_id: 1,
+    workspace_id: null,
+    key: 'pending',
+    name: 'Pending',
+    category: StatusCategory.TODO,
+    position: 1,
+    color: '#6B7280',
+    created_at: new Date('2023-01-01')
+  };
+
+  const mockWorkspaceStatus: IStatus = {
+    status_id: 5,
+    workspace_id: 10,
+    key: 'in_review',
+    name: 'In review',
+    category: StatusCategory.IN_PROGRESS,
+    position: 5,
+    color: '#8B5CF6',
+    created_at: new Date('2023-01-02')
+  };
+
+  beforeEach(() => {
+    // Clear all mocks before each test
+    jest.clearAllMocks();
+
+    // Create a new instance of StatusService for each test
+    statusService = new StatusService();
+
+    // Get the mocked repository instances
+    mockStatusRepository = StatusRepository.prototype as jest.Mocked<StatusRepository>;
+    mockWorkspaceRepository = WorkspaceRepository.prototype as jest.Mocked<WorkspaceRepository>;
+
+    // Nobody is a workspace member by default
+    mockWorkspaceRepository.getMemberRole.mockResolvedValue(null);
+  });
+
+  describe('getStatuses', () => {
+    it('should return the built-in statuses without a workspace', async () => {
+      // Arrange
+      mockStatusRepository.findAvailable.mockResolvedValue([mockBuiltInStatus]);
+
+      // Act
+      const result = await statusService.getStatuses(1);
+
+      // Assert
+      expect(result).toEqual([mockBuiltInStatus]);
+      expect(mockStatusRepository.findAvailable).toHaveBeenCalledWith(null);
+      expect(mockWorkspaceRepository.getMemberRole).not.toHaveBeenCalled();
+    });
+
+    it('should return the statuses of a workspace to its members', async () => {
+      // Arrange
+      mockWorkspaceRepository.getMemberRole.mockResolvedValue(WorkspaceRole.VIEWER);
+      mockStatusRepository.findAvailable.mockResolvedValue([mockBuiltInStatus, mockWorkspaceStatus]);
+
+      // Act
+      const result = await statusService.getStatuses(2, 10);
+
+      // Assert
+      expect(result).toHaveLength(2);
+      expect(mockStatusRepository.findAvailable).toHaveBeenCalledWith(10);
+    });
+
+    it('should throw error if the user is not a workspace member', async () => {
+      // Act & Assert
+      await expect(statusService.getStatuses(3, 10))
+        .rejects.toMatchObject({ statusCode: 403, code: 'FORBIDDEN' });
+      expect(mockStatusRepository.findAvailable).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('createStatus', () => {
+    const statusData = { workspace_id: 10, name: 'In review', category: StatusCategory.IN_PROGRESS };
+
+    it('should let workspace admins create statuses', async () => {
+      // Arrange
+      mockWorkspaceRepository.getMemberRole.mockResolvedValue(WorkspaceRole.ADMIN);
+      mockStatusRepository.create.mockResolvedValue(mockWorkspaceStatus);
+
+      // Act
+      const result = await statusService.createStatus(statusData, 1);
+
+      // Assert
+      expect(result).toEqual(mockWorkspaceStatus);
+      expect(mockWorkspaceRepository.getMemberRole).toHaveBeenCalledWith(10, 1);
+      expect(mockStatusRepository.create).toHaveBeenCalledWith(statusData);
+    });
+
+    it('should throw error if the user is only a workspace member', async () => {
+      // Arrange
+      mockWorkspaceRepository.getMemberRole.mockResolvedValue(WorkspaceRole.MEMBER);
+
+      // Act & Assert
+      await expect(statusService.createStatus(statusData, 2))
+        .rejects.toMatchObject({ statusCode: 403, code: 'FORBIDDEN' });
+      expect(mockStatusRepository.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateStatus', () => {
+    it('should update a workspace status', async () => {
+      // Arrange
+      const updatedStatus = { ...mockWorkspaceStatus, name: 'Review' };
+      mockStatusRepository.findById.mockResolvedValue(mockWorkspaceStatus);
+      mockWorkspaceRepository.getMemberRole.mockResolvedValue(WorkspaceRole.OWNER);
+      mockStatusRepository.update.mockResolvedValue(updatedStatus);
+
+      // Act
+      const result = await statusService.updateStatus(5, { name: 'Review' }, 1);
+
+      // Assert
+      expect(result).toEqual(updatedStatus);
+      expect(mockStatusRepository.update).toHaveBeenCalledWith(5, { name: 'Review' });
+    });
+
+    it('should return null if status not found', async () => {
+      // Arrange
+      mockStatusRepository.findById.mockResolvedValue(null);
+
+      // Act
+      const result = await statusService.updateStatus(999, { name: 'Review' }, 1);
+
+      // Assert
+      expect(result).toBeNull();
+      expect(mockStatusRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should not change built-in statuses', async () => {
+      // Arrange
+      mockStatusRepository.findById.mockResolvedValue(mockBuiltInStatus);
+
+      // Act & Assert
+      await expect(statusService.updateStatus(1, { color: '#000000' }, 1))
+        .rejects.toMatchObject({ statusCode: 403, code: 'BUILT_IN_STATUS' });
+      expect(mockStatusRepository.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deleteStatus', () => {
+    it('should delete a workspace status', async () => {
+      // Arrange
+      mockStatusRepository.findById.mockResolvedValue(mockWorkspaceStatus);
+      mockWorkspaceRepository.getMemberRole.mockResolvedValue(WorkspaceRole.ADMIN);
+      mockStatusRepository.delete.mockResolvedValue(true);
+
+      // Act
+      const result = await statusService.deleteStatus(5, 1);
+
+      // Assert
+      expect(result).toBe(true);
+      expect(mockStatusRepository.delete).toHaveBeenCalledWith(5);
+    });
+
+    it('should throw error if the user is not a workspace admin', async () => {
+      // Arrange
+      mockStatusRepository.findById.mockResolvedValue(mockWorkspaceStatus);
+      mockWorkspaceRepository.getMemberRole.mockResolvedValue(WorkspaceRole.MEMBER);
+
+      // Act & Assert
+      await expect(statusService.deleteStatus(5, 2))
+        .rejects.toMatchObject({ statusCode: 403, code: 'FORBIDDEN' });
+      expect(mockStatusRepository.delete).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,166 @@
+import { TagService } from '../../src/services/tag.service';
+import { TagRepository } from '../../src/repositories/tagRepository';
+import { WorkspaceRepository } from '../../src/repositories/workspaceRepository';
+import { ITag } from '../../src/interfaces/tag.interface';
+import { WorkspaceRole } from '../../src/interfaces/workspace.interface';
+
+// Mock the repositories
+jest.mock('../../src/repositories/tagRepository');
+jest.mock('../../src/repositories/workspaceRepository');
+
+describe('TagService', () => {
+  let tagService: TagService;
+  let mockTagRepository: jest.Mocked<TagRepository>;
+  let mockWorkspaceRepository: jest.Mocked<WorkspaceRepository>;
+
+  // Personal tags of user 1
+  const urgent: ITag = { tag_id: 1, user_id: 1, workspace_id: null, name: 'urgent', created_at: new Date('2023-01-01') };
+  const asap: ITag = { tag_id: 2, user_id: 1, workspace_id: null, name: 'asap', created_at: new Date('2023-01-02') };
+
+  // Tag created by user 2 in workspace 10
+  const teamTag: ITag = { tag_id: 3, user_id: 2, workspace_id: 10, name: 'release', created_at: new Date('2023-01-03') };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    tagService = new TagService();
+
+    mockTagRepository = TagRepository.prototype as jest.Mocked<TagRepository>;
+    mockWorkspaceRepository = WorkspaceRepository.prototype as jest.Mocked<WorkspaceRepository>;
+    mockWorkspaceRepository.getMemberRole.mockResolvedValue(null);
+  });
+
+  describe('getUserTags', () => {
+    it('should return the tags of a user with their task counts', async () => {
+      // Arrange
+      const tags = [{ ...urgent, task_count: 4 }];
+      mockTagRepository.findByUserId.mockResolvedValue(tags);
+
+      // Act
+      const result = await tagService.getUserTags(1, { prefix: 'ur', limit: 10 });
+
+      // Assert
+      expect(result).toEqual(tags);
+      expect(mockTagRepository.findByUserId).toHaveBeenCalledWith(1, { prefix: 'ur', limit: 10 });
+    });
+  });
+
+  describe('renameTag', () => {
+    it('should rename a personal tag of the user', async () => {
+      // Arrange
+      mockTagRepository.findById.mockResolvedValue(urgent);
+      mockTagRepository.rename.mockResolvedValue({ ...urgent, name: 'Urgent' });
+
+      // Act
+      const result = await tagService.renameTag(1, 'Urgent', 1);
+
+      // Assert
+      expect(result).toMatchObject({ name: 'Urgent' });
+      expect(mockTagRepository.rename).toHaveBeenCalledWith(1, 'Urgent');
+    });
+
+    it('should return null if the tag is not found', async () => {
+      // Arrange
+      mockTagRepository.findById.mockResolvedValue(null);
+
+      // Act
+      const result = await tagService.renameTag(999, 'Urgent', 1);
+
+      // Assert
+      expect(result).toBeNull();
+      expect(mockTagRepository.rename).not.toHaveBeenCalled();
+    });
+
+    it('should let workspace admins rename tags created by other members', async () => {
+      // Arrange
+      mockTagRepository.findById.mockResolvedValue(teamTag);
+      mockTagRepository.rename.mockResolvedValue({ ...teamTag, name: 'launch' });
+      mockWorkspaceRepository.getMemberRole.mockResolvedValue(WorkspaceRole.ADMIN);
+
+      // Act
+      await tagService.renameTag(3, 'launch', 1);
+
+      // Assert
+      expect(mockTagRepository.rename).toHaveBeenCalledWith(3, 'launch');
+    });
+
+    it('should forbid other members from renaming a workspace tag', async () => {
+      // Arrange
+      mockTagRepository.findById.mockResolvedValue(teamTag);
+      mockWorkspaceRepository.getMemberRole.mockResolvedValue(WorkspaceRole.MEMBER);
+
+      // Act & Assert
+      await expect(tagService.renameTag(3, 'launch', 1))
+        .rejects.toMatchObject({ statusCode: 403, code: 'FORBIDDEN' });
+      expect(mockTagRepository.rename).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('mergeTags', () => {
+    it('should merge a tag into another tag of the same scope', async () => {
+      // Arrange
+      mockTagRepository.findById.mockImplementation(async (id: number) => (id === 2 ? asap : urgent));
+      mockTagRepository.merge.mockResolvedValue({ ...urgent, task_count: 6 });
+
+      // Act
+      const result = await tagService.mergeTags(2, 1, 1);
+
+      // Assert
+      expect(result).toMatchObject({ tag_id: 1, task_count: 6 });
+      expect(mockTagRepository.merge).toHaveBeenCalledWith(2, 1);
+    });
+
+    it('should reject merging a tag into itself', async () => {
+      await expect(tagService.mergeTags(1, 1, 1))
+        .rejects.toMatchObject({ statusCode: 400, code: 'INVALID_MERGE' });
+      expect(mockTagRepository.findById).not.toHaveBeenCalled();
+    });
+
+    it('should reject merging tags of different scopes', async () => {
+      // Arrange
+      mockTagRepository.findById.mockImplementation(async (id: number) => (id === 3 ? teamTag : urgent));
+      mockWorkspaceRepository.getMemberRole.mockResolvedValue(WorkspaceRole.ADMIN);
+
+      // Act & Assert
+      await expect(tagService.mergeTags(1, 3, 1))
+        .rejects.toMatchObject({ statusCode: 400, code: 'TAG_SCOPE_MISMATCH' });
+      expect(mockTagRepository.merge).not.toHaveBeenCalled();
+    });
+
+    it('should return null if either tag is not found', async () => {
+      // Arrange
+      mockTagRepository.findById.mockImplementation(async (id: number) => (id === 1 ? urgent : null));
+
+      // Act
+      const result = await tagService.mergeTags(1, 999, 1);
+
+      // Assert
+      expect(result).toBeNull();
+      expect(mockTagRepository.merge).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deleteTag', () => {
+    it('should delete a personal tag of the user', async () => {
+      // Arrange
+      mockTagRepository.findById.mockResolvedValue(urgent);
+      mockTagRepository.delete.mockResolvedValue(true);
+
+      // Act
+      const result = await tagService.deleteTag(1, 1);
+
+      // Assert
+      expect(result).toBe(true);
+      expect(mockTagRepository.delete).toHaveBeenCalledWith(1);
+    });
+
+    it('should forbid deleting the personal tag of another user', async () => {
+      // Arrange
+      mockTagRepository.findById.mockResolvedValue(urgent);
+
+      // Act & Assert
+      await expect(tagService.deleteTag(1, 2)).rejects.toMatchObject({ statusCode: 403 });
+      expect(mockTagRepository.delete).not.toHaveBeenCalled();
+    });
+  });
+});
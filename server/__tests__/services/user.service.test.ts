@@ -1,6 +1,11 @@
 import bcrypt from 'bcryptjs';
 import { UserService } from '../../src/services/user.service';
 import { UserRepository } from '../../src/repositories/userRepository';
+import { CategoryRepository } from '../../src/repositories/categoryRepository';
+import { RefreshTokenRepository } from '../../src/repositories/refreshTokenRepository';
+import { PasswordResetRepository } from '../../src/repositories/passwordResetRepository';
+import { Mailer, MemoryTransport } from '../../src/mailer';
+import { hashToken } from '../../src/utils/token.utils';
 import { ApiError } from '../../src/utils/error.utils';
 import { IUser, IUserCreate, IUserLogin } from '../../src/interfaces/user.interface';
 import * as jwtUtils from '../../src/utils/jwt.utils';
@@ -8,13 +13,26 @@ import * as passwordUtils from '../../src/utils/password.utils';
 
 // Mock the dependencies
 jest.mock('../../src/repositories/userRepository');
+jest.mock('../../src/repositories/categoryRepository');
+jest.mock('../../src/repositories/refreshTokenRepository');
+jest.mock('../../src/repositories/passwordResetRepository');
 jest.mock('../../src/utils/jwt.utils');
 jest.mock('../../src/utils/password.utils');
 jest.mock('bcryptjs');
+// Transactions run their callback with a stand-in client
+jest.mock('../../src/config/database', () => ({
+  transaction: (callback: (client: unknown) => Promise<unknown>) => callback(mockClient)
+}));
+
+const mockClient = { query: jest.fn() };
 
 describe('UserService', () => {
   let userService: UserService;
   let mockUserRepository: jest.Mocked<UserRepository>;
+  let mockCategoryRepository: jest.Mocked<CategoryRepository>;
+  let mockRefreshTokenRepository: jest.Mocked<RefreshTokenRepository>;
+  let mockPasswordResetRepository: jest.Mocked<PasswordResetRepository>;
+  let mailTransport: MemoryTransport;
   
   // Mock data
   const mockUser: IUser = {
@@ -40,21 +58,36 @@ describe('UserService', () => {
   
   const mockTokens = {
     accessToken: 'mock-access-token',
-    refreshToken: 'mock-refresh-token'
+    refreshToken: 'mock-refresh-token',
+    refreshTokenId: 'mock-refresh-token-id'
+  };
+
+  const mockStoredToken = {
+    token_id: 'stored-token-id',
+    user_id: mockUser.user_id,
+    family_id: 'family-id',
+    created_at: new Date('2023-01-01')
   };
 
   beforeEach(() => {
     // Clear all mocks before each test
     jest.clearAllMocks();
     
-    // Create a new instance of UserService for each test
-    userService = new UserService();
+    // Create a new instance of UserService for each test, capturing sent email
+    mailTransport = new MemoryTransport();
+    userService = new UserService(new Mailer(mailTransport));
     
     // Get the mocked UserRepository instance
     mockUserRepository = UserRepository.prototype as jest.Mocked<UserRepository>;
+    mockCategoryRepository = CategoryRepository.prototype as jest.Mocked<CategoryRepository>;
+    mockCategoryRepository.createDefaults.mockResolvedValue([]);
+    mockRefreshTokenRepository = RefreshTokenRepository.prototype as jest.Mocked<RefreshTokenRepository>;
+    mockRefreshTokenRepository.create.mockResolvedValue(mockStoredToken);
+    mockPasswordResetRepository = PasswordResetRepository.prototype as jest.Mocked<PasswordResetRepository>;
     
     // Setup default mock implementations
     (jwtUtils.generateTokens as jest.Mock).mockReturnValue(mockTokens);
+    (jwtUtils.generateEmailVerificationToken as jest.Mock).mockReturnValue('verification-token');
     (passwordUtils.validatePassword as jest.Mock).mockImplementation(() => true);
     (bcrypt.compare as jest.Mock).mockResolvedValue(true);
   });
@@ -84,12 +117,49 @@ describe('UserService', () => {
       expect(mockUserRepository.emailExists).toHaveBeenCalledWith(mockUserCreate.email);
       expect(mockUserRepository.usernameExists).toHaveBeenCalledWith(mockUserCreate.username);
       expect(mockUserRepository.create).toHaveBeenCalledWith(mockUserCreate);
+      expect(mockCategoryRepository.createDefaults).toHaveBeenCalledWith(mockUser.user_id);
       expect(jwtUtils.generateTokens).toHaveBeenCalledWith({
         id: mockUser.user_id,
         username: mockUser.username,
         email: mockUser.email,
         role: mockUser.role
       });
+      expect(mockRefreshTokenRepository.create).toHaveBeenCalledWith({
+        token_id: mockTokens.refreshTokenId,
+        user_id: mockUser.user_id,
+        family_id: expect.any(String)
+      });
+    });
+
+    it('should email a verification link to the new user', async () => {
+      // Arrange
+      mockUserRepository.emailExists.mockResolvedValue(false);
+      mockUserRepository.usernameExists.mockResolvedValue(false);
+      mockUserRepository.create.mockResolvedValue(mockUser);
+      
+      // Act
+      await userService.register(mockUserCreate);
+      
+      // Assert
+      expect(jwtUtils.generateEmailVerificationToken).toHaveBeenCalledWith(mockUser.user_id, mockUser.email);
+      expect(mailTransport.outbox).toHaveLength(1);
+      expect(mailTransport.outbox[0].to).toBe(mockUser.email);
+      expect(mailTransport.outbox[0].text).toContain('/verify-email?token=verification-token');
+    });
+
+    it('should still register the user if seeding default categories fails', async () => {
+      // Arrange
+      mockUserRepository.emailExists.mockResolvedValue(false);
+      mockUserRepository.usernameExists.mockResolvedValue(false);
+      mockUserRepository.create.mockResolvedValue(mockUser);
+      mockCategoryRepository.createDefaults.mockRejectedValue(new Error('Database error'));
+      
+      // Act
+      const result = await userService.register(mockUserCreate);
+      
+      // Assert
+      expect(result.user.user_id).toBe(mockUser.user_id);
+      expect(result.accessToken).toBe(mockTokens.accessToken);
     });
 
     it('should throw error if required fields are missing', async () => {
@@ -166,6 +236,11 @@ describe('UserService', () => {
         email: mockUser.email,
         role: mockUser.role
       });
+      expect(mockRefreshTokenRepository.create).toHaveBeenCalledWith({
+        token_id: mockTokens.refreshTokenId,
+        user_id: mockUser.user_id,
+        family_id: expect.any(String)
+      });
     });
 
     it('should throw error if user does not exist', async () => {
@@ -299,6 +374,39 @@ describe('UserService', () => {
       expect(mockUserRepository.update).toHaveBeenCalledWith(userId, updateData);
     });
 
+    it('should send a verification link when the email changes', async () => {
+      // Arrange
+      const userId = 1;
+      const updateData = { email: 'changed@example.com' };
+      const updatedUser = { ...mockUser, ...updateData, email_verified_at: null };
+      
+      mockUserRepository.findById.mockResolvedValue({ ...mockUser, email_verified_at: new Date() });
+      mockUserRepository.emailExists.mockResolvedValue(false);
+      mockUserRepository.update.mockResolvedValue(updatedUser);
+      
+      // Act
+      await userService.updateUser(userId, updateData, userId);
+      
+      // Assert
+      expect(jwtUtils.generateEmailVerificationToken).toHaveBeenCalledWith(userId, 'changed@example.com');
+      expect(mailTransport.outbox).toHaveLength(1);
+      expect(mailTransport.outbox[0].to).toBe('changed@example.com');
+    });
+
+    it('should not send a verification link when the email is unchanged', async () => {
+      // Arrange
+      const userId = 1;
+      mockUserRepository.findById.mockResolvedValue(mockUser);
+      mockUserRepository.usernameExists.mockResolvedValue(false);
+      mockUserRepository.update.mockResolvedValue({ ...mockUser, username: 'updateduser' });
+      
+      // Act
+      await userService.updateUser(userId, { username: 'updateduser' }, userId);
+      
+      // Assert
+      expect(mailTransport.outbox).toHaveLength(0);
+    });
+
     it('should allow admin to update other user profiles', async () => {
       // Arrange
       const userId = 2;
@@ -538,100 +646,328 @@ describe('UserService', () => {
   });
 
   describe('initiatePasswordReset', () => {
-    it('should initiate password reset successfully when user exists', async () => {
+    it('should store a hashed token and email the reset link when user exists', async () => {
       // Arrange
       const email = 'test@example.com';
       
       mockUserRepository.findByEmail.mockResolvedValue(mockUser);
       
       // Act
-      const result = await userService.initiatePasswordReset(email);
+      await userService.initiatePasswordReset(email);
       
       // Assert
-      expect(result.success).toBe(true);
-      expect(result.resetToken).toBeDefined();
       expect(mockUserRepository.findByEmail).toHaveBeenCalledWith(email);
+      expect(mockPasswordResetRepository.invalidateForUser).toHaveBeenCalledWith(mockUser.user_id);
+      expect(mailTransport.outbox).toHaveLength(1);
+      expect(mailTransport.outbox[0].to).toBe(mockUser.email);
+
+      const token = mailTransport.outbox[0].text.match(/token=([a-f0-9]{64})/)?.[1] as string;
+      expect(token).toBeDefined();
+      const stored = mockPasswordResetRepository.create.mock.calls[0][0];
+      expect(stored.user_id).toBe(mockUser.user_id);
+      expect(stored.token_hash).toBe(hashToken(token));
+      expect(stored.token_hash).not.toBe(token);
+      expect(stored.expires_at.getTime()).toBeGreaterThan(Date.now());
     });
 
-    it('should return success even if user does not exist (security measure)', async () => {
+    it('should resolve without sending email if user does not exist (security measure)', async () => {
       // Arrange
       const email = 'nonexistent@example.com';
       
       mockUserRepository.findByEmail.mockResolvedValue(null);
       
       // Act
-      const result = await userService.initiatePasswordReset(email);
+      await userService.initiatePasswordReset(email);
       
       // Assert
-      expect(result.success).toBe(true);
-      expect(result.resetToken).toBeUndefined();
       expect(mockUserRepository.findByEmail).toHaveBeenCalledWith(email);
+      expect(mockPasswordResetRepository.create).not.toHaveBeenCalled();
+      expect(mailTransport.outbox).toHaveLength(0);
+    });
+
+    it('should not fail if the email cannot be sent', async () => {
+      // Arrange
+      mockUserRepository.findByEmail.mockResolvedValue(mockUser);
+      jest.spyOn(mailTransport, 'deliver').mockRejectedValue(new Error('SMTP down'));
+      
+      // Act & Assert
+      await expect(userService.initiatePasswordReset(mockUser.email)).resolves.toBeUndefined();
     });
   });
 
-  describe('refreshAccessToken', () => {
-    it('should refresh access token successfully', async () => {
+  describe('resetPassword', () => {
+    const resetToken = 'a'.repeat(64);
+    const storedResetToken = {
+      reset_token_id: 1,
+      user_id: mockUser.user_id,
+      token_hash: hashToken(resetToken),
+      expires_at: new Date(Date.now() + 60 * 60 * 1000),
+      used_at: new Date(),
+      created_at: new Date()
+    };
+
+    it('should consume the token, change the password and revoke refresh tokens', async () => {
       // Arrange
-      const refreshToken = 'valid-refresh-token';
-      const payload = {
-        id: mockUser.user_id,
-        username: mockUser.username,
-        email: mockUser.email,
-        role: mockUser.role
-      };
+      mockPasswordResetRepository.consume.mockResolvedValue(storedResetToken);
+      mockUserRepository.changePassword.mockResolvedValue(true);
+      mockRefreshTokenRepository.revokeAllForUser.mockResolvedValue(2);
       
-      (jwtUtils.verifyToken as jest.Mock).mockReturnValue(payload);
-      mockUserRepository.findById.mockResolvedValue(mockUser);
-      (jwtUtils.generateTokens as jest.Mock).mockReturnValue({
-        accessToken: 'new-access-token',
-        refreshToken: 'new-refresh-token'
+      // Act
+      const result = await userService.resetPassword(resetToken, 'NewPassword123!');
+      
+      // Assert
+      expect(result).toBe(true);
+      expect(mockPasswordResetRepository.consume).toHaveBeenCalledWith(hashToken(resetToken), mockClient);
+      expect(mockUserRepository.changePassword).toHaveBeenCalledWith(mockUser.user_id, 'NewPassword123!', mockClient);
+      expect(mockRefreshTokenRepository.revokeAllForUser).toHaveBeenCalledWith(mockUser.user_id, mockClient);
+    });
+
+    it('should fail the whole reset if the refresh tokens cannot be revoked', async () => {
+      // Arrange
+      mockPasswordResetRepository.consume.mockResolvedValue(storedResetToken);
+      mockUserRepository.changePassword.mockResolvedValue(true);
+      mockRefreshTokenRepository.revokeAllForUser.mockRejectedValue(new ApiError('Error revoking refresh tokens', 500));
+
+      // Act & Assert
+      await expect(userService.resetPassword(resetToken, 'NewPassword123!'))
+        .rejects.toMatchObject({ statusCode: 500 });
+      // The token and the password change share the transaction that is rolled back
+      expect(mockPasswordResetRepository.consume).toHaveBeenCalledWith(hashToken(resetToken), mockClient);
+      expect(mockUserRepository.changePassword).toHaveBeenCalledWith(mockUser.user_id, 'NewPassword123!', mockClient);
+    });
+
+    it('should throw error if token is invalid, expired or already used', async () => {
+      // Arrange
+      mockPasswordResetRepository.consume.mockResolvedValue(null);
+      
+      // Act & Assert
+      await expect(userService.resetPassword(resetToken, 'NewPassword123!'))
+        .rejects.toMatchObject({ statusCode: 400, code: 'INVALID_RESET_TOKEN' });
+      expect(mockUserRepository.changePassword).not.toHaveBeenCalled();
+      expect(mockRefreshTokenRepository.revokeAllForUser).not.toHaveBeenCalled();
+    });
+
+    it('should not consume the token if the new password is too weak', async () => {
+      // Arrange
+      (passwordUtils.validatePassword as jest.Mock).mockImplementation(() => {
+        throw new ApiError('Invalid password', 400);
+      });
+      
+      // Act & Assert
+      await expect(userService.resetPassword(resetToken, 'weak'))
+        .rejects.toThrow(ApiError);
+      expect(mockPasswordResetRepository.consume).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('verifyEmail', () => {
+    it('should mark the email address as verified', async () => {
+      // Arrange
+      const verifiedUser = { ...mockUser, email_verified_at: new Date() };
+      (jwtUtils.verifyEmailVerificationToken as jest.Mock).mockReturnValue({
+        valid: true,
+        userId: mockUser.user_id,
+        email: mockUser.email
       });
+      mockUserRepository.markEmailVerified.mockResolvedValue(verifiedUser);
       
       // Act
-      const result = await userService.refreshAccessToken(refreshToken);
+      const result = await userService.verifyEmail('verification-token');
       
       // Assert
-      expect(result).toBe('new-access-token');
-      expect(jwtUtils.verifyToken).toHaveBeenCalledWith(refreshToken, true);
-      expect(mockUserRepository.findById).toHaveBeenCalledWith(payload.id);
-      expect(jwtUtils.generateTokens).toHaveBeenCalledWith(payload);
+      expect(result.email_verified_at).toEqual(verifiedUser.email_verified_at);
+      expect(result).not.toHaveProperty('password_hash');
+      expect(mockUserRepository.markEmailVerified).toHaveBeenCalledWith(mockUser.user_id, mockUser.email);
+    });
+
+    it('should throw error if the token is invalid', async () => {
+      // Arrange
+      (jwtUtils.verifyEmailVerificationToken as jest.Mock).mockReturnValue({ valid: false, reason: 'invalid_signature' });
+      
+      // Act & Assert
+      await expect(userService.verifyEmail('bad-token'))
+        .rejects.toMatchObject({ statusCode: 400, code: 'INVALID_VERIFICATION_TOKEN' });
+      expect(mockUserRepository.markEmailVerified).not.toHaveBeenCalled();
     });
 
-    it('should return null if refresh token is invalid', async () => {
+    it('should throw error if the token has expired', async () => {
       // Arrange
-      const refreshToken = 'invalid-refresh-token';
+      (jwtUtils.verifyEmailVerificationToken as jest.Mock).mockReturnValue({ valid: false, reason: 'expired' });
       
-      (jwtUtils.verifyToken as jest.Mock).mockReturnValue(null);
+      // Act & Assert
+      await expect(userService.verifyEmail('old-token'))
+        .rejects.toMatchObject({ statusCode: 400, code: 'VERIFICATION_TOKEN_EXPIRED' });
+    });
+
+    it('should throw error if the token was issued for a previous email address', async () => {
+      // Arrange
+      (jwtUtils.verifyEmailVerificationToken as jest.Mock).mockReturnValue({
+        valid: true,
+        userId: mockUser.user_id,
+        email: 'old@example.com'
+      });
+      mockUserRepository.markEmailVerified.mockResolvedValue(null);
+      
+      // Act & Assert
+      await expect(userService.verifyEmail('verification-token'))
+        .rejects.toMatchObject({ statusCode: 400, code: 'INVALID_VERIFICATION_TOKEN' });
+    });
+  });
+
+  describe('resendVerificationEmail', () => {
+    it('should send a new verification link', async () => {
+      // Arrange
+      mockUserRepository.findById.mockResolvedValue({ ...mockUser, email_verified_at: null });
       
       // Act
-      const result = await userService.refreshAccessToken(refreshToken);
+      await userService.resendVerificationEmail(mockUser.user_id);
       
       // Assert
-      expect(result).toBeNull();
+      expect(mailTransport.outbox).toHaveLength(1);
+      expect(mailTransport.outbox[0].to).toBe(mockUser.email);
+    });
+
+    it('should throw error if the email is already verified', async () => {
+      // Arrange
+      mockUserRepository.findById.mockResolvedValue({ ...mockUser, email_verified_at: new Date() });
+      
+      // Act & Assert
+      await expect(userService.resendVerificationEmail(mockUser.user_id))
+        .rejects.toMatchObject({ statusCode: 400, code: 'EMAIL_ALREADY_VERIFIED' });
+      expect(mailTransport.outbox).toHaveLength(0);
+    });
+  });
+
+  describe('refreshTokens', () => {
+    const refreshToken = 'valid-refresh-token';
+    const payload = {
+      id: mockUser.user_id,
+      username: mockUser.username,
+      email: mockUser.email,
+      role: mockUser.role,
+      jti: mockStoredToken.token_id
+    };
+
+    it('should rotate the refresh token and return new tokens', async () => {
+      // Arrange
+      (jwtUtils.verifyToken as jest.Mock).mockReturnValue({ valid: true, payload });
+      mockRefreshTokenRepository.findById.mockResolvedValue(mockStoredToken);
+      mockUserRepository.findById.mockResolvedValue(mockUser);
+      mockRefreshTokenRepository.rotate.mockResolvedValue({ status: 'rotated' });
+      
+      // Act
+      const result = await userService.refreshTokens(refreshToken);
+      
+      // Assert
+      expect(result).toEqual({
+        accessToken: mockTokens.accessToken,
+        refreshToken: mockTokens.refreshToken
+      });
       expect(jwtUtils.verifyToken).toHaveBeenCalledWith(refreshToken, true);
-      expect(mockUserRepository.findById).not.toHaveBeenCalled();
+      expect(mockRefreshTokenRepository.rotate).toHaveBeenCalledWith(mockStoredToken.token_id, {
+        token_id: mockTokens.refreshTokenId,
+        user_id: mockUser.user_id,
+        family_id: mockStoredToken.family_id
+      });
+      expect(mockRefreshTokenRepository.revokeFamily).not.toHaveBeenCalled();
+    });
+
+    it('should throw error if refresh token is invalid', async () => {
+      // Arrange
+      (jwtUtils.verifyToken as jest.Mock).mockReturnValue({ valid: false, reason: 'invalid_signature' });
+      
+      // Act & Assert
+      await expect(userService.refreshTokens('invalid-refresh-token'))
+        .rejects.toMatchObject({ statusCode: 401, code: 'INVALID_REFRESH_TOKEN' });
+      expect(mockRefreshTokenRepository.findById).not.toHaveBeenCalled();
+    });
+
+    it('should report an expired refresh token', async () => {
+      // Arrange
+      (jwtUtils.verifyToken as jest.Mock).mockReturnValue({ valid: false, reason: 'expired' });
+      
+      // Act & Assert
+      await expect(userService.refreshTokens(refreshToken))
+        .rejects.toMatchObject({ statusCode: 401, code: 'REFRESH_TOKEN_EXPIRED' });
+      expect(mockRefreshTokenRepository.findById).not.toHaveBeenCalled();
     });
 
-    it('should return null if user no longer exists', async () => {
+    it('should throw error if refresh token was never stored', async () => {
       // Arrange
-      const refreshToken = 'valid-refresh-token';
-      const payload = {
-        id: 999,
-        username: 'deleteduser',
-        email: 'deleted@example.com',
-        role: 'user'
-      };
+      (jwtUtils.verifyToken as jest.Mock).mockReturnValue({ valid: true, payload });
+      mockRefreshTokenRepository.findById.mockResolvedValue(null);
       
-      (jwtUtils.verifyToken as jest.Mock).mockReturnValue(payload);
+      // Act & Assert
+      await expect(userService.refreshTokens(refreshToken))
+        .rejects.toMatchObject({ statusCode: 401, code: 'INVALID_REFRESH_TOKEN' });
+      expect(mockRefreshTokenRepository.rotate).not.toHaveBeenCalled();
+    });
+
+    it('should throw error if user no longer exists', async () => {
+      // Arrange
+      (jwtUtils.verifyToken as jest.Mock).mockReturnValue({ valid: true, payload });
+      mockRefreshTokenRepository.findById.mockResolvedValue(mockStoredToken);
       mockUserRepository.findById.mockResolvedValue(null);
       
+      // Act & Assert
+      await expect(userService.refreshTokens(refreshToken))
+        .rejects.toMatchObject({ statusCode: 401, code: 'INVALID_REFRESH_TOKEN' });
+      expect(jwtUtils.generateTokens).not.toHaveBeenCalled();
+    });
+
+    it('should revoke the token family when a rotated token is reused', async () => {
+      // Arrange
+      (jwtUtils.verifyToken as jest.Mock).mockReturnValue({ valid: true, payload });
+      mockRefreshTokenRepository.findById.mockResolvedValue(mockStoredToken);
+      mockUserRepository.findById.mockResolvedValue(mockUser);
+      mockRefreshTokenRepository.rotate.mockResolvedValue({ status: 'reused' });
+      mockRefreshTokenRepository.revokeFamily.mockResolvedValue(2);
+      
+      // Act & Assert
+      await expect(userService.refreshTokens(refreshToken))
+        .rejects.toMatchObject({ statusCode: 401, code: 'REFRESH_TOKEN_REUSED' });
+      expect(mockRefreshTokenRepository.revokeFamily).toHaveBeenCalledWith(mockStoredToken.family_id);
+    });
+
+    it('should throw error if refresh token was revoked', async () => {
+      // Arrange
+      (jwtUtils.verifyToken as jest.Mock).mockReturnValue({ valid: true, payload });
+      mockRefreshTokenRepository.findById.mockResolvedValue(mockStoredToken);
+      mockUserRepository.findById.mockResolvedValue(mockUser);
+      mockRefreshTokenRepository.rotate.mockResolvedValue({ status: 'revoked' });
+      
+      // Act & Assert
+      await expect(userService.refreshTokens(refreshToken))
+        .rejects.toMatchObject({ statusCode: 401, code: 'REFRESH_TOKEN_REVOKED' });
+      expect(mockRefreshTokenRepository.revokeFamily).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('logout', () => {
+    it('should revoke the refresh token', async () => {
+      // Arrange
+      (jwtUtils.verifyToken as jest.Mock).mockReturnValue({
+        valid: true,
+        payload: { id: mockUser.user_id, jti: 'token-id' }
+      });
+      mockRefreshTokenRepository.revoke.mockResolvedValue(true);
+      
       // Act
-      const result = await userService.refreshAccessToken(refreshToken);
+      await userService.logout('valid-refresh-token');
       
       // Assert
-      expect(result).toBeNull();
-      expect(mockUserRepository.findById).toHaveBeenCalledWith(payload.id);
-      expect(jwtUtils.generateTokens).not.toHaveBeenCalled();
+      expect(jwtUtils.verifyToken).toHaveBeenCalledWith('valid-refresh-token', true);
+      expect(mockRefreshTokenRepository.revoke).toHaveBeenCalledWith('token-id');
+    });
+
+    it('should throw error if refresh token is invalid', async () => {
+      // Arrange
+      (jwtUtils.verifyToken as jest.Mock).mockReturnValue({ valid: false, reason: 'invalid_signature' });
+      
+      // Act & Assert
+      await expect(userService.logout('invalid-refresh-token'))
+        .rejects.toMatchObject({ statusCode: 401, code: 'INVALID_REFRESH_TOKEN' });
+      expect(mockRefreshTokenRepository.revoke).not.toHaveBeenCalled();
     });
   });
-});
\ No newline at end of file
+});
@@ -0,0 +1,184 @@
+import { WorkspaceService } from '../../src/services/workspace.service';
+import { WorkspaceRepository } from '../../src/repositories/workspaceRepository';
+import { UserRepository } from '../../src/repositories/userRepository';
+import { IWorkspace, IWorkspaceMember, WorkspaceRole } from '../../src/interfaces/workspace.interface';
+import { IUser } from '../../src/interfaces/user.interface';
+
+// Mock the repositories
+jest.mock('../../src/repositories/workspaceRepository');
+jest.mock('../../src/repositories/userRepository');
+
+describe('WorkspaceService', () => {
+  let workspaceService: WorkspaceService;
+  let mockWorkspaceRepository: jest.Mocked<WorkspaceRepository>;
+  let mockUserRepository: jest.Mocked<UserRepository>;
+
+  // Mock data
+  const mockWorkspace: IWorkspace = {
+    workspace_id: 10,
+    name: 'Team',
+    created_by: 1,
+    status_transitions: null,
+    role: WorkspaceRole.OWNER,
+    created_at: new Date('2023-01-01'),
+    updated_at: new Date('2023-01-01')
+  };
+
+  const mockUser: IUser = {
+    user_id: 2,
+    username: 'teammate',
+    email: 'teammate@example.com',
+    password_hash: 'hashedpassword123',
+    created_at: new Date('2023-01-01')
+  };
+
+  const mockMember: IWorkspaceMember = {
+    workspace_id: 10,
+    user_id: 2,
+    username: 'teammate',
+    email: 'teammate@example.com',
+    role: WorkspaceRole.MEMBER,
+    joined_at: new Date('2023-01-02')
+  };
+
+  beforeEach(() => {
+    // Clear all mocks before each test
+    jest.clearAllMocks();
+
+    // Create a new instance of WorkspaceService for each test
+    workspaceService = new WorkspaceService();
+
+    // Get the mocked repository instances
+    mockWorkspaceRepository = WorkspaceRepository.prototype as jest.Mocked<WorkspaceRepository>;
+    mockUserRepository = UserRepository.prototype as jest.Mocked<UserRepository>;
+  });
+
+  describe('createWorkspace', () => {
+    it('should create a workspace owned by its creator', async () => {
+      // Arrange
+      mockWorkspaceRepository.create.mockResolvedValue(mockWorkspace);
+
+      // Act
+      const result = await workspaceService.createWorkspace({ name: 'Team', created_by: 1 });
+
+      // Assert
+      expect(result.role).toBe(WorkspaceRole.OWNER);
+      expect(mockWorkspaceRepository.create).toHaveBeenCalledWith({ name: 'Team', created_by: 1 });
+    });
+  });
+
+  describe('addMember', () => {
+    it('should add a user as member by default', async () => {
+      // Arrange
+      mockUserRepository.findById.mockResolvedValue(mockUser);
+      mockWorkspaceRepository.addMember.mockResolvedValue(mockMember);
+
+      // Act
+      const result = await workspaceService.addMember(10, { user_id: 2 }, WorkspaceRole.ADMIN);
+
+      // Assert
+      expect(result).toEqual(mockMember);
+      expect(mockWorkspaceRepository.addMember).toHaveBeenCalledWith(10, 2, WorkspaceRole.MEMBER);
+    });
+
+    it('should reject unknown users', async () => {
+      // Arrange
+      mockUserRepository.findById.mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(workspaceService.addMember(10, { user_id: 99 }, WorkspaceRole.OWNER))
+        .rejects.toMatchObject({ statusCode: 400, code: 'INVALID_MEMBER' });
+      expect(mockWorkspaceRepository.addMember).not.toHaveBeenCalled();
+    });
+
+    it('should only let the owner add admins', async () => {
+      // Act & Assert
+      await expect(workspaceService.addMember(10, { user_id: 2, role: WorkspaceRole.ADMIN }, WorkspaceRole.ADMIN))
+        .rejects.toMatchObject({ statusCode: 403, code: 'FORBIDDEN' });
+      expect(mockWorkspaceRepository.addMember).not.toHaveBeenCalled();
+    });
+
+    it('should not grant the owner role', async () => {
+      // Act & Assert
+      await expect(workspaceService.addMember(10, { user_id: 2, role: WorkspaceRole.OWNER }, WorkspaceRole.OWNER))
+        .rejects.toMatchObject({ statusCode: 400, code: 'INVALID_ROLE' });
+    });
+  });
+
+  describe('updateMemberRole', () => {
+    it('should change the role of a member', async () => {
+      // Arrange
+      const viewer = { ...mockMember, role: WorkspaceRole.VIEWER };
+      mockWorkspaceRepository.getMemberRole.mockResolvedValue(WorkspaceRole.MEMBER);
+      mockWorkspaceRepository.updateMemberRole.mockResolvedValue(viewer);
+
+      // Act
+      const result = await workspaceService.updateMemberRole(10, 2, WorkspaceRole.VIEWER, WorkspaceRole.ADMIN);
+
+      // Assert
+      expect(result).toEqual(viewer);
+      expect(mockWorkspaceRepository.updateMemberRole).toHaveBeenCalledWith(10, 2, WorkspaceRole.VIEWER);
+    });
+
+    it('should not change the role of the owner', async () => {
+      // Arrange
+      mockWorkspaceRepository.getMemberRole.mockResolvedValue(WorkspaceRole.OWNER);
+
+      // Act & Assert
+      await expect(workspaceService.updateMemberRole(10, 1, WorkspaceRole.MEMBER, WorkspaceRole.OWNER))
+        .rejects.toMatchObject({ statusCode: 400, code: 'CANNOT_CHANGE_OWNER' });
+    });
+
+    it('should not let admins demote other admins', async () => {
+      // Arrange
+      mockWorkspaceRepository.getMemberRole.mockResolvedValue(WorkspaceRole.ADMIN);
+
+      // Act & Assert
+      await expect(workspaceService.updateMemberRole(10, 3, WorkspaceRole.MEMBER, WorkspaceRole.ADMIN))
+        .rejects.toMatchObject({ statusCode: 403 });
+      expect(mockWorkspaceRepository.updateMemberRole).not.toHaveBeenCalled();
+    });
+
+    it('should throw 404 if the user is not a member', async () => {
+      // Arrange
+      mockWorkspaceRepository.getMemberRole.mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(workspaceService.updateMemberRole(10, 99, WorkspaceRole.VIEWER, WorkspaceRole.OWNER))
+        .rejects.toMatchObject({ statusCode: 404, code: 'MEMBER_NOT_FOUND' });
+    });
+  });
+
+  describe('removeMember', () => {
+    it('should let members leave a workspace', async () => {
+      // Arrange
+      mockWorkspaceRepository.getMemberRole.mockResolvedValue(WorkspaceRole.VIEWER);
+      mockWorkspaceRepository.removeMember.mockResolvedValue(true);
+
+      // Act
+      await workspaceService.removeMember(10, 2, 2, WorkspaceRole.VIEWER);
+
+      // Assert
+      expect(mockWorkspaceRepository.removeMember).toHaveBeenCalledWith(10, 2);
+    });
+
+    it('should not let members remove someone else', async () => {
+      // Arrange
+      mockWorkspaceRepository.getMemberRole.mockResolvedValue(WorkspaceRole.MEMBER);
+
+      // Act & Assert
+      await expect(workspaceService.removeMember(10, 3, 2, WorkspaceRole.MEMBER))
+        .rejects.toMatchObject({ statusCode: 403 });
+      expect(mockWorkspaceRepository.removeMember).not.toHaveBeenCalled();
+    });
+
+    it('should not remove the owner', async () => {
+      // Arrange
+      mockWorkspaceRepository.getMemberRole.mockResolvedValue(WorkspaceRole.OWNER);
+
+      // Act & Assert
+      await expect(workspaceService.removeMember(10, 1, 1, WorkspaceRole.OWNER))
+        .rejects.toMatchObject({ statusCode: 400, code: 'CANNOT_REMOVE_OWNER' });
+    });
+  });
+});
@@ -0,0 +1,121 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import http from 'http';
+import { AddressInfo } from 'net';
+import os from 'os';
+import path from 'path';
+import { LocalStorageDriver, S3StorageDriver } from '../../src/storage';
+
+describe('LocalStorageDriver', () => {
+  let directory: string;
+  let driver: LocalStorageDriver;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'attachments-'));
+    driver = new LocalStorageDriver(directory);
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should store, read and delete contents', async () => {
+    // Act
+    await driver.put('ab/abcdef', Buffer.from('hello'), 'text/plain');
+
+    // Assert
+    expect(await driver.get('ab/abcdef')).toEqual(Buffer.from('hello'));
+    expect(await fs.readdir(path.join(directory, 'ab'))).toEqual(['abcdef']);
+    await driver.delete('ab/abcdef');
+    expect(await driver.get('ab/abcdef')).toBeNull();
+    await expect(driver.delete('ab/abcdef')).resolves.toBeUndefined();
+  });
+
+  it('should refuse keys outside the storage directory', async () => {
+    await expect(driver.put('../escape', Buffer.from('x'), 'text/plain')).rejects.toThrow('Invalid storage key');
+  });
+});
+
+describe('S3StorageDriver', () => {
+  // Local stand-in for an S3 bucket: keeps objects in memory and checks the signed headers
+  const objects = new Map<string, Buffer>();
+  const requests: http.IncomingMessage[] = [];
+  let server: http.Server;
+  let driver: S3StorageDriver;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      const chunks: Buffer[] = [];
+      req.on('data', chunk => chunks.push(chunk));
+      req.on('end', () => {
+        requests.push(req);
+        const body = Buffer.concat(chunks);
+        const payloadHash = crypto.createHash('sha256').update(body).digest('hex');
+        if (!String(req.headers.authorization).startsWith('AWS4-HMAC-SHA256 Credential=test-key/')
+          || req.headers['x-amz-content-sha256'] !== payloadHash) {
+          res.writeHead(403).end();
+          return;
+        }
+
+        const key = req.url!;
+        if (req.method === 'PUT') {
+          objects.set(key, body);
+          res.writeHead(200).end();
+        } else if (req.method === 'GET') {
+          const object = objects.get(key);
+          if (object) {
+            res.writeHead(200).end(object);
+          } else {
+            res.writeHead(404).end();
+          }
+        } else {
+          objects.delete(key);
+          res.writeHead(204).end();
+        }
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+    driver = new S3StorageDriver({
+      endpoint: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+      region: 'us-east-1',
+      bucket: 'attachments',
+      accessKeyId: 'test-key',
+      secretAccessKey: 'test-secret',
+      forcePathStyle: true,
+      timeoutMs: 5000
+    });
+  });
+
+  afterAll(async () => {
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    objects.clear();
+    requests.length = 0;
+  });
+
+  it('should store, read and delete objects with signed requests', async () => {
+    // Act
+    await driver.put('ab/abcdef', Buffer.from('hello'), 'text/plain');
+    const stored = await driver.get('ab/abcdef');
+    await driver.delete('ab/abcdef');
+
+    // Assert
+    expect(stored).toEqual(Buffer.from('hello'));
+    expect(objects.size).toBe(0);
+    expect(requests.map(req => `${req.method} ${req.url}`)).toEqual([
+      'PUT /attachments/ab/abcdef',
+      'GET /attachments/ab/abcdef',
+      'DELETE /attachments/ab/abcdef'
+    ]);
+    expect(requests[0].headers['content-type']).toBe('text/plain');
+    expect(requests[0].headers.authorization)
+      .toMatch(/SignedHeaders=content-type;host;x-amz-content-sha256;x-amz-date, Signature=[0-9a-f]{64}$/);
+  });
+
+  it('should return null for missing objects', async () => {
+    expect(await driver.get('ab/missing')).toBeNull();
+  });
+});
@@ -0,0 +1,48 @@
+import { decodeCursor, encodeCursor, isCursorValue } from '../../src/utils/cursor.utils';
+
+describe('cursor.utils', () => {
+  it('should round-trip a cursor payload', () => {
+    // Arrange
+    const payload = { sort: 'due_date:asc', key: ['2023-12-31', 42] };
+
+    // Act
+    const cursor = encodeCursor(payload);
+
+    // Assert
+    expect(cursor).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(decodeCursor(cursor)).toEqual(payload);
+  });
+
+  it('should reject malformed cursors', () => {
+    expect(() => decodeCursor('not a cursor')).toThrow(expect.objectContaining({
+      statusCode: 400,
+      code: 'INVALID_CURSOR'
+    }));
+    expect(() => decodeCursor(Buffer.from('42').toString('base64url'))).toThrow(expect.objectContaining({
+      code: 'INVALID_CURSOR'
+    }));
+  });
+
+  describe('isCursorValue', () => {
+    it('should accept values of the expected type', () => {
+      expect(isCursorValue('2024-02-29', 'date')).toBe(true);
+      expect(isCursorValue('2023-12-31T10:15:30.123456', 'timestamp')).toBe(true);
+      expect(isCursorValue('2023-12-31T10:15:30Z', 'timestamp')).toBe(true);
+      expect(isCursorValue(42, 'integer')).toBe(true);
+      expect(isCursorValue('Write docs', 'string')).toBe(true);
+    });
+
+    it('should reject tampered values', () => {
+      expect(isCursorValue('2023-02-30', 'date')).toBe(false);
+      expect(isCursorValue('yesterday', 'date')).toBe(false);
+      expect(isCursorValue(20231231, 'date')).toBe(false);
+      expect(isCursorValue('2023-12-31', 'timestamp')).toBe(false);
+      expect(isCursorValue('2023-12-31T25:00:00', 'timestamp')).toBe(false);
+      expect(isCursorValue('42', 'integer')).toBe(false);
+      expect(isCursorValue(1.5, 'integer')).toBe(false);
+      expect(isCursorValue(2 ** 31, 'integer')).toBe(false);
+      expect(isCursorValue({ title: 'x' }, 'string')).toBe(false);
+      expect(isCursorValue('a\u0000b', 'string')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,130 @@
+import jwt from 'jsonwebtoken';
+import {
+  generateEmailVerificationToken,
+  generateTokens,
+  verifyEmailVerificationToken,
+  verifyToken
+} from '../../src/utils/jwt.utils';
+import { config } from '../../src/config/config';
+
+describe('jwt.utils', () => {
+  const user = {
+    id: 1,
+    username: 'testuser',
+    email: 'test@example.com',
+    role: 'user'
+  };
+
+  describe('generateTokens', () => {
+    it('should sign tokens with expiry, jti, iat, issuer and audience claims', () => {
+      // Act
+      const { accessToken, refreshToken, refreshTokenId } = generateTokens(user);
+
+      // Assert
+      const access = jwt.decode(accessToken) as jwt.JwtPayload;
+      const refresh = jwt.decode(refreshToken) as jwt.JwtPayload;
+      expect(access).toMatchObject({ id: user.id, iss: config.JWT.ISSUER, aud: config.JWT.AUDIENCE });
+      expect(access.jti).toBeDefined();
+      expect(access.iat).toBeDefined();
+      expect(access.exp).toBeGreaterThan(access.iat as number);
+      expect(refresh.jti).toBe(refreshTokenId);
+      expect(refresh.exp).toBeGreaterThan(access.exp as number);
+    });
+  });
+
+  describe('verifyToken', () => {
+    const sign = (options: jwt.SignOptions, secret: string = config.JWT.SECRET) =>
+      jwt.sign(user, secret, {
+        expiresIn: '1h',
+        issuer: config.JWT.ISSUER,
+        audience: config.JWT.AUDIENCE,
+        jwtid: 'token-id',
+        ...options
+      });
+
+    it('should return the payload of a valid token', () => {
+      // Arrange
+      const { accessToken } = generateTokens(user);
+
+      // Act
+      const result = verifyToken(accessToken);
+
+      // Assert
+      expect(result.valid).toBe(true);
+      expect(result.valid && result.payload.id).toBe(user.id);
+    });
+
+    it('should verify refresh tokens with the refresh secret', () => {
+      // Arrange
+      const { accessToken, refreshToken } = generateTokens(user);
+
+      // Act & Assert
+      expect(verifyToken(refreshToken, true).valid).toBe(true);
+      expect(verifyToken(accessToken, true)).toEqual({ valid: false, reason: 'invalid_signature' });
+    });
+
+    it('should report an expired token', () => {
+      // Arrange
+      const token = sign({ expiresIn: -10 });
+
+      // Act & Assert
+      expect(verifyToken(token)).toEqual({ valid: false, reason: 'expired' });
+    });
+
+    it('should report a bad signature', () => {
+      // Arrange
+      const token = sign({}, 'some-other-secret');
+
+      // Act & Assert
+      expect(verifyToken(token)).toEqual({ valid: false, reason: 'invalid_signature' });
+    });
+
+    it('should report a wrong audience', () => {
+      // Arrange
+      const token = sign({ audience: 'another-client' });
+
+      // Act & Assert
+      expect(verifyToken(token)).toEqual({ valid: false, reason: 'invalid_audience' });
+    });
+
+    it('should report a wrong issuer', () => {
+      // Arrange
+      const token = sign({ issuer: 'another-api' });
+
+      // Act & Assert
+      expect(verifyToken(token)).toEqual({ valid: false, reason: 'invalid_issuer' });
+    });
+
+    it('should reject tokens without a token id', () => {
+      // Arrange
+      const token = jwt.sign(user, config.JWT.SECRET, {
+        expiresIn: '1h',
+        issuer: config.JWT.ISSUER,
+        audience: config.JWT.AUDIENCE
+      });
+
+      // Act & Assert
+      expect(verifyToken(token)).toEqual({ valid: false, reason: 'malformed' });
+    });
+  });
+
+  describe('email verification tokens', () => {
+    it('should round-trip the user ID and email', () => {
+      // Arrange
+      const token = generateEmailVerificationToken(user.id, user.email);
+
+      // Act & Assert
+      expect(verifyEmailVerificationToken(token)).toEqual({ valid: true, userId: user.id, email: user.email });
+    });
+
+    it('should not be interchangeable with access tokens', () => {
+      // Arrange
+      const verificationToken = generateEmailVerificationToken(user.id, user.email);
+      const { accessToken } = generateTokens(user);
+
+      // Act & Assert
+      expect(verifyToken(verificationToken)).toEqual({ valid: false, reason: 'invalid_audience' });
+      expect(verifyEmailVerificationToken(accessToken)).toEqual({ valid: false, reason: 'invalid_audience' });
+    });
+  });
+});
@@ -0,0 +1,31 @@
+import { isPublicAddress, isPublicUrl } from '../../src/utils/network.utils';
+
+describe('network.utils', () => {
+  describe('isPublicAddress', () => {
+    it('should accept public addresses', () => {
+      expect(isPublicAddress('93.184.216.34')).toBe(true);
+      expect(isPublicAddress('2606:2800:220:1:248:1893:25c8:1946')).toBe(true);
+    });
+
+    it('should reject loopback, private, link-local and unique-local addresses', () => {
+      ['127.0.0.1', '10.1.2.3', '172.16.0.1', '192.168.1.1', '169.254.169.254', '0.0.0.0', '::1', 'fd00::1', 'fe80::1']
+        .forEach(address => expect(isPublicAddress(address)).toBe(false));
+    });
+
+    it('should reject IPv4-mapped private addresses', () => {
+      expect(isPublicAddress('::ffff:127.0.0.1')).toBe(false);
+    });
+  });
+
+  describe('isPublicUrl', () => {
+    it('should check the host of URLs with an IP address', async () => {
+      await expect(isPublicUrl('https://93.184.216.34/hook')).resolves.toBe(true);
+      await expect(isPublicUrl('http://169.254.169.254/latest/meta-data')).resolves.toBe(false);
+      await expect(isPublicUrl('http://[::1]:8080/hook')).resolves.toBe(false);
+    });
+
+    it('should reject malformed URLs', async () => {
+      await expect(isPublicUrl('not a url')).resolves.toBe(false);
+    });
+  });
+});
@@ -25,6 +25,89 @@ const JWT = {
   EXPIRES_IN: process.env.JWT_EXPIRES_IN || '1d',
   REFRESH_SECRET: process.env.JWT_REFRESH_SECRET || 'fallback_jwt_refresh_secret_key_for_dev_only',
   REFRESH_EXPIRES_IN: process.env.JWT_REFRESH_EXPIRES_IN || '7d',
+  ISSUER: process.env.JWT_ISSUER || 'task-management-api',
+  AUDIENCE: process.env.JWT_AUDIENCE || 'task-management-client',
+};
+
+// Client application configuration (used to build links in emails)
+const CLIENT = {
+  URL: process.env.CLIENT_URL || 'http://localhost:5173',
+};
+
+// Password reset configuration
+const PASSWORD_RESET = {
+  TOKEN_TTL_MINUTES: parseInt(process.env.PASSWORD_RESET_TTL_MINUTES || '60', 10),
+};
+
+// Email verification configuration
+const EMAIL_VERIFICATION = {
+  TOKEN_TTL_HOURS: parseInt(process.env.EMAIL_VERIFICATION_TTL_HOURS || '24', 10),
+};
+
+// Mail configuration
+const MAIL = {
+  // Transport used to deliver email: 'file' (writes .eml files), 'memory' or 'smtp'
+  TRANSPORT: process.env.MAIL_TRANSPORT || (SERVER.NODE_ENV === 'test' ? 'memory' : 'file'),
+  FROM: process.env.MAIL_FROM || 'Task Management <no-reply@localhost>',
+  DEFAULT_LOCALE: process.env.MAIL_DEFAULT_LOCALE || 'en',
+  FILE_DIR: process.env.MAIL_FILE_DIR || path.resolve(__dirname, '../../mail'),
+  SMTP_HOST: process.env.SMTP_HOST || 'localhost',
+  SMTP_PORT: parseInt(process.env.SMTP_PORT || '1025', 10), // Default port of local SMTP sinks (MailHog, Mailpit)
+  SMTP_SECURE: process.env.SMTP_SECURE === 'true',
+  SMTP_USER: process.env.SMTP_USER || '',
+  SMTP_PASSWORD: process.env.SMTP_PASSWORD || '',
+  OUTBOX_POLL_INTERVAL_MS: parseInt(process.env.MAIL_OUTBOX_POLL_INTERVAL_MS || '10000', 10),
+  OUTBOX_BATCH_SIZE: parseInt(process.env.MAIL_OUTBOX_BATCH_SIZE || '20', 10),
+  OUTBOX_MAX_ATTEMPTS: parseInt(process.env.MAIL_OUTBOX_MAX_ATTEMPTS || '5', 10),
+  OUTBOX_RETRY_DELAY_MS: parseInt(process.env.MAIL_OUTBOX_RETRY_DELAY_MS || '30000', 10),
+};
+
+// Reminder scheduler configuration
+const REMINDERS = {
+  POLL_INTERVAL_MS: parseInt(process.env.REMINDERS_POLL_INTERVAL_MS || '30000', 10),
+  BATCH_SIZE: parseInt(process.env.REMINDERS_BATCH_SIZE || '50', 10),
+  MAX_ATTEMPTS: parseInt(process.env.REMINDERS_MAX_ATTEMPTS || '5', 10),
+  RETRY_DELAY_MS: parseInt(process.env.REMINDERS_RETRY_DELAY_MS || '60000', 10),
+  WEBHOOK_TIMEOUT_MS: parseInt(process.env.REMINDERS_WEBHOOK_TIMEOUT_MS || '5000', 10),
+};
+
+// Notification configuration
+const NOTIFICATIONS = {
+  OVERDUE_SCAN_INTERVAL_MS: parseInt(process.env.NOTIFICATIONS_OVERDUE_SCAN_INTERVAL_MS || '300000', 10),
+  OVERDUE_BATCH_SIZE: parseInt(process.env.NOTIFICATIONS_OVERDUE_BATCH_SIZE || '100', 10),
+};
+
+// Attachment configuration
+const ATTACHMENTS = {
+  // Driver storing attachment contents: 'local' (files under LOCAL_DIR), 's3' (S3-compatible bucket) or 'memory'
+  STORAGE_DRIVER: process.env.ATTACHMENTS_STORAGE_DRIVER || (SERVER.NODE_ENV === 'test' ? 'memory' : 'local'),
+  LOCAL_DIR: process.env.ATTACHMENTS_LOCAL_DIR || path.resolve(__dirname, '../../uploads'),
+  MAX_FILE_SIZE_BYTES: parseInt(process.env.ATTACHMENTS_MAX_FILE_SIZE_BYTES || '10485760', 10), // 10 MB
+  ALLOWED_MIME_TYPES: (process.env.ATTACHMENTS_ALLOWED_MIME_TYPES || [
+    'image/png',
+    'image/jpeg',
+    'image/gif',
+    'image/webp',
+    'application/pdf',
+    'text/plain',
+    'text/csv',
+    'application/zip',
+    'application/msword',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    'application/vnd.ms-excel',
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+  ].join(',')).split(',').map(type => type.trim()).filter(type => type.length > 0),
+  // Download links are signed with URL_SECRET and expire after URL_TTL_SECONDS
+  URL_SECRET: process.env.ATTACHMENTS_URL_SECRET || 'fallback_attachment_url_secret_for_dev_only',
+  URL_TTL_SECONDS: parseInt(process.env.ATTACHMENTS_URL_TTL_SECONDS || '300', 10),
+  PUBLIC_URL: process.env.API_PUBLIC_URL || `http://localhost:${SERVER.PORT}`,
+  S3_ENDPOINT: process.env.S3_ENDPOINT || 'http://localhost:9000', // Default port of local S3 stand-ins (MinIO)
+  S3_REGION: process.env.S3_REGION || 'us-east-1',
+  S3_BUCKET: process.env.S3_BUCKET || 'task-attachments',
+  S3_ACCESS_KEY_ID: process.env.S3_ACCESS_KEY_ID || '',
+  S3_SECRET_ACCESS_KEY: process.env.S3_SECRET_ACCESS_KEY || '',
+  S3_FORCE_PATH_STYLE: process.env.S3_FORCE_PATH_STYLE !== 'false',
+  S3_TIMEOUT_MS: parseInt(process.env.S3_TIMEOUT_MS || '10000', 10),
 };
 
 // CORS configuration
@@ -43,7 +126,8 @@ const validateEnv = (): void => {
     'DB_USER', 
     'DB_PASSWORD',
     'JWT_SECRET',
-    'JWT_REFRESH_SECRET'
+    'JWT_REFRESH_SECRET',
+    'ATTACHMENTS_URL_SECRET'
   ];
 
   if (SERVER.NODE_ENV === 'production') {
@@ -59,6 +143,13 @@ export const config = {
   SERVER,
   DATABASE,
   JWT,
+  CLIENT,
+  PASSWORD_RESET,
+  EMAIL_VERIFICATION,
+  MAIL,
+  REMINDERS,
+  NOTIFICATIONS,
+  ATTACHMENTS,
   CORS,
   validateEnv,
 };
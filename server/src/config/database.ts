@@ -1,3 +1,4 @@
+import { AsyncLocalStorage } from 'async_hooks';
 import { Pool, PoolClient } from 'pg';
 import { config } from './config';
 
@@ -26,7 +27,18 @@ pool.on('error', (err: Error) => {
 });
 
 /**
- * Execute a query using a connection from the pool
+ * Client of the transaction work started with runInTransaction runs in
+ */
+const sharedTransaction = new AsyncLocalStorage<PoolClient>();
+
+/**
+ * Number of savepoints created so far, so each one gets a unique name
+ */
+let savepointCount = 0;
+
+/**
+ * Execute a query using a connection from the pool, or the client of the
+ * transaction started by runInTransaction the call runs in
  * @param text - SQL query text
  * @param params - Query parameters
  * @returns Query result
@@ -34,7 +46,8 @@ pool.on('error', (err: Error) => {
 export const query = async (text: string, params?: any[]) => {
   const start = Date.now();
   try {
-    const res = await pool.query(text, params);
+    const shared = sharedTransaction.getStore();
+    const res = shared ? await shared.query(text, params) : await pool.query(text, params);
     const duration = Date.now() - start;
     
     if (config.SERVER.NODE_ENV === 'development') {
@@ -65,12 +78,38 @@ export const getClient = async () => {
   return client;
 };
 
+/**
+ * Run work in a savepoint of a transaction, so its failure only undoes its own changes
+ * @param client - Client of the transaction
+ * @param work - Work to run
+ * @returns Result of the work
+ */
+const inSavepoint = async <T>(client: PoolClient, work: () => Promise<T>): Promise<T> => {
+  const savepoint = `nested_${++savepointCount}`;
+  await client.query(`SAVEPOINT ${savepoint}`);
+
+  try {
+    const result = await work();
+    await client.query(`RELEASE SAVEPOINT ${savepoint}`);
+    return result;
+  } catch (e) {
+    await client.query(`ROLLBACK TO SAVEPOINT ${savepoint}`);
+    throw e;
+  }
+};
+
 /**
  * Execute a transaction with the provided callback function
+ * Inside work started with runInTransaction, the transaction runs in a savepoint of the shared one.
  * @param callback - Function to execute within transaction
  * @returns Result of the callback function
  */
 export const transaction = async <T>(callback: (client: PoolClient) => Promise<T>): Promise<T> => {
+  const shared = sharedTransaction.getStore();
+  if (shared) {
+    return inSavepoint(shared, () => callback(shared));
+  }
+
   const client = await pool.connect();
   
   try {
@@ -86,6 +125,22 @@ export const transaction = async <T>(callback: (client: PoolClient) => Promise<T
   }
 };
 
+/**
+ * Run work in one transaction that the queries and transactions it starts join
+ * Transactions started by the work, and nested calls, run in savepoints of it.
+ * Used by batches built from single-item operations; other code passes its client explicitly.
+ * @param work - Work to run
+ * @returns Result of the work
+ */
+export const runInTransaction = async <T>(work: () => Promise<T>): Promise<T> => {
+  const shared = sharedTransaction.getStore();
+  if (shared) {
+    return inSavepoint(shared, work);
+  }
+
+  return transaction(client => sharedTransaction.run(client, work));
+};
+
 /**
  * Test database connection
  * @returns Boolean indicating successful connection
@@ -106,5 +161,6 @@ export default {
   query,
   getClient,
   transaction,
+  runInTransaction,
   testConnection
 };
\ No newline at end of file
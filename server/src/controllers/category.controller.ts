@@ -0,0 +1,202 @@
+import { Request, Response, NextFunction } from 'express';
+import { validationResult } from 'express-validator';
+import { ApiError } from '../utils/error.utils';
+import { ICategoryCreate, ICategoryUpdate } from '../interfaces/category.interface';
+import { CategoryService } from '../services/category.service';
+
+/**
+ * Category Controller
+ * Handles HTTP requests related to categories
+ */
+export class CategoryController {
+  private static categoryService: CategoryService = new CategoryService();
+
+  /**
+   * @route   GET /api/categories
+   * @desc    Get all categories of the current user and their workspaces
+   * @access  Private
+   */
+  static async getAllCategories(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        next(ApiError.badRequest('Validation error', 'VALIDATION_ERROR', errors.array()));
+        return;
+      }
+
+      if (!req.user || !req.user.id) {
+        next(ApiError.unauthorized('Not authorized', 'NOT_AUTHORIZED'));
+        return;
+      }
+
+      const filter: Record<string, any> = {};
+      if (req.query.name) filter.name = req.query.name as string;
+      if (req.query.workspace_id) filter.workspace_id = parseInt(req.query.workspace_id as string);
+
+      const categories = await CategoryController.categoryService.getUserCategories(req.user.id, filter);
+
+      res.status(200).json({
+        success: true,
+        count: categories.length,
+        data: categories
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @route   GET /api/categories/:id
+   * @desc    Get category by ID
+   * @access  Private
+   */
+  static async getCategoryById(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        next(ApiError.badRequest('Validation error', 'VALIDATION_ERROR', errors.array()));
+        return;
+      }
+
+      if (!req.user || !req.user.id) {
+        next(ApiError.unauthorized('Not authorized', 'NOT_AUTHORIZED'));
+        return;
+      }
+
+      const categoryId = parseInt(req.params.id);
+      const category = await CategoryController.categoryService.getCategoryById(categoryId, req.user.id);
+
+      if (!category) {
+        next(ApiError.notFound('Category not found', 'CATEGORY_NOT_FOUND'));
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: category
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @route   POST /api/categories
+   * @desc    Create new category
+   * @access  Private
+   */
+  static async createCategory(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        next(ApiError.badRequest('Validation error', 'VALIDATION_ERROR', errors.array()));
+        return;
+      }
+
+      if (!req.user || !req.user.id) {
+        next(ApiError.unauthorized('Not authorized', 'NOT_AUTHORIZED'));
+        return;
+      }
+
+      const categoryData: ICategoryCreate = {
+        user_id: req.user.id,
+        workspace_id: req.body.workspace_id,
+        name: req.body.name,
+        color: req.body.color,
+        icon: req.body.icon
+      };
+      const category = await CategoryController.categoryService.createCategory(categoryData);
+
+      res.status(201).json({
+        success: true,
+        message: 'Category created successfully',
+        data: category
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @route   PUT /api/categories/:id
+   * @desc    Update category
+   * @access  Private
+   */
+  static async updateCategory(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        next(ApiError.badRequest('Validation error', 'VALIDATION_ERROR', errors.array()));
+        return;
+      }
+
+      if (!req.user || !req.user.id) {
+        next(ApiError.unauthorized('Not authorized', 'NOT_AUTHORIZED'));
+        return;
+      }
+
+      const categoryId = parseInt(req.params.id);
+      const categoryData: ICategoryUpdate = {};
+      if (req.body.name !== undefined) categoryData.name = req.body.name;
+      if (req.body.color !== undefined) categoryData.color = req.body.color;
+      if (req.body.icon !== undefined) categoryData.icon = req.body.icon;
+
+      const updatedCategory = await CategoryController.categoryService.updateCategory(
+        categoryId,
+        categoryData,
+        req.user.id
+      );
+
+      if (!updatedCategory) {
+        next(ApiError.notFound('Category not found', 'CATEGORY_NOT_FOUND'));
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Category updated successfully',
+        data: updatedCategory
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @route   DELETE /api/categories/:id
+   * @desc    Delete category (tasks in it are kept without a category)
+   * @access  Private
+   */
+  static async deleteCategory(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        next(ApiError.badRequest('Validation error', 'VALIDATION_ERROR', errors.array()));
+        return;
+      }
+
+      if (!req.user || !req.user.id) {
+        next(ApiError.unauthorized('Not authorized', 'NOT_AUTHORIZED'));
+        return;
+      }
+
+      const categoryId = parseInt(req.params.id);
+      const result = await CategoryController.categoryService.deleteCategory(categoryId, req.user.id);
+
+      if (!result.deleted) {
+        next(ApiError.notFound('Category not found', 'CATEGORY_NOT_FOUND'));
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Category deleted successfully',
+        data: {
+          affected_tasks: result.affected_tasks
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -0,0 +1,164 @@
+import { Request, Response, NextFunction } from 'express';
+import { validationResult } from 'express-validator';
+import { ApiError } from '../utils/error.utils';
+import { NotificationService } from '../services/notification.service';
+
+/**
+ * Notification Controller
+ * Handles HTTP requests related to the notifications of the current user
+ */
+export class NotificationController {
+  private static notificationService: NotificationService = new NotificationService();
+
+  /**
+   * @route   GET /api/notifications
+   * @desc    Get the current user's notifications with the unread count
+   * @access  Private
+   */
+  static async getNotifications(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        next(ApiError.badRequest('Validation error', 'VALIDATION_ERROR', errors.array()));
+        return;
+      }
+
+      if (!req.user || !req.user.id) {
+        next(ApiError.unauthorized('Not authorized', 'NOT_AUTHORIZED'));
+        return;
+      }
+
+      const page = await NotificationController.notificationService.getNotifications(req.user.id, {
+        unread: req.query.unread === 'true',
+        limit: req.query.limit ? parseInt(req.query.limit as string) : undefined,
+        before: req.query.before ? parseInt(req.query.before as string) : undefined
+      });
+
+      res.status(200).json({
+        success: true,
+        count: page.notifications.length,
+        unread_count: page.unread_count,
+        data: page.notifications
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @route   PATCH /api/notifications/:id/read
+   * @desc    Mark one of the current user's notifications as read
+   * @access  Private
+   */
+  static async markRead(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        next(ApiError.badRequest('Validation error', 'VALIDATION_ERROR', errors.array()));
+        return;
+      }
+
+      if (!req.user || !req.user.id) {
+        next(ApiError.unauthorized('Not authorized', 'NOT_AUTHORIZED'));
+        return;
+      }
+
+      const notification = await NotificationController.notificationService.markRead(
+        parseInt(req.params.id),
+        req.user.id
+      );
+
+      if (!notification) {
+        next(ApiError.notFound('Notification not found', 'NOTIFICATION_NOT_FOUND'));
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: notification
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @route   POST /api/notifications/read-all
+   * @desc    Mark all of the current user's notifications as read
+   * @access  Private
+   */
+  static async markAllRead(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user || !req.user.id) {
+        next(ApiError.unauthorized('Not authorized', 'NOT_AUTHORIZED'));
+        return;
+      }
+
+      const updated = await NotificationController.notificationService.markAllRead(req.user.id);
+
+      res.status(200).json({
+        success: true,
+        message: 'Notifications marked as read',
+        data: { updated }
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @route   GET /api/notifications/preferences
+   * @desc    Get the current user's notification preferences
+   * @access  Private
+   */
+  static async getPreferences(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user || !req.user.id) {
+        next(ApiError.unauthorized('Not authorized', 'NOT_AUTHORIZED'));
+        return;
+      }
+
+      const preferences = await NotificationController.notificationService.getPreferences(req.user.id);
+
+      res.status(200).json({
+        success: true,
+        data: preferences
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @route   PATCH /api/notifications/preferences
+   * @desc    Update the current user's notification preferences
+   * @access  Private
+   */
+  static async updatePreferences(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        next(ApiError.badRequest('Validation error', 'VALIDATION_ERROR', errors.array()));
+        return;
+      }
+
+      if (!req.user || !req.user.id) {
+        next(ApiError.unauthorized('Not authorized', 'NOT_AUTHORIZED'));
+        return;
+      }
+
+      const preferences = await NotificationController.notificationService.updatePreferences(
+        req.user.id,
+        req.body.preferences
+      );
+
+      res.status(200).json({
+        success: true,
+        message: 'Notification preferences updated successfully',
+        data: preferences
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -0,0 +1,162 @@
+import { Request, Response, NextFunction } from 'express';
+import { validationResult } from 'express-validator';
+import { ApiError } from '../utils/error.utils';
+import { IPriorityCreate, IPriorityUpdate } from '../interfaces/priority.interface';
+import { PriorityService } from '../services/priority.service';
+
+/**
+ * Priority Controller
+ * Handles HTTP requests related to priorities
+ */
+export class PriorityController {
+  private static priorityService: PriorityService = new PriorityService();
+
+  /**
+   * @route   GET /api/priorities
+   * @desc    Get all priorities
+   * @access  Private
+   */
+  static async getAllPriorities(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const filter: Record<string, any> = {};
+      if (req.query.name) filter.name = req.query.name as string;
+
+      const priorities = await PriorityController.priorityService.getAllPriorities(filter);
+
+      res.status(200).json({
+        success: true,
+        count: priorities.length,
+        data: priorities
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @route   GET /api/priorities/:id
+   * @desc    Get priority by ID
+   * @access  Private
+   */
+  static async getPriorityById(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        next(ApiError.badRequest('Validation error', 'VALIDATION_ERROR', errors.array()));
+        return;
+      }
+
+      const priorityId = parseInt(req.params.id);
+      const priority = await PriorityController.priorityService.getPriorityById(priorityId);
+
+      if (!priority) {
+        next(ApiError.notFound('Priority not found', 'PRIORITY_NOT_FOUND'));
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: priority
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @route   POST /api/priorities
+   * @desc    Create new priority
+   * @access  Private/Admin
+   */
+  static async createPriority(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        next(ApiError.badRequest('Validation error', 'VALIDATION_ERROR', errors.array()));
+        return;
+      }
+
+      const priorityData: IPriorityCreate = {
+        name: req.body.name,
+        rank: req.body.rank !== undefined ? parseInt(req.body.rank) : undefined
+      };
+      const priority = await PriorityController.priorityService.createPriority(priorityData);
+
+      res.status(201).json({
+        success: true,
+        message: 'Priority created successfully',
+        data: priority
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @route   PUT /api/priorities/:id
+   * @desc    Rename or re-rank priority
+   * @access  Private/Admin
+   */
+  static async updatePriority(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        next(ApiError.badRequest('Validation error', 'VALIDATION_ERROR', errors.array()));
+        return;
+      }
+
+      const priorityId = parseInt(req.params.id);
+      const priorityData: IPriorityUpdate = {};
+      if (req.body.name !== undefined) priorityData.name = req.body.name;
+      if (req.body.rank !== undefined) priorityData.rank = parseInt(req.body.rank);
+
+      const updatedPriority = await PriorityController.priorityService.updatePriority(
+        priorityId,
+        priorityData
+      );
+
+      if (!updatedPriority) {
+        next(ApiError.notFound('Priority not found', 'PRIORITY_NOT_FOUND'));
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Priority updated successfully',
+        data: updatedPriority
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @route   DELETE /api/priorities/:id
+   * @desc    Delete priority (tasks with it are kept without a priority)
+   * @access  Private/Admin
+   */
+  static async deletePriority(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        next(ApiError.badRequest('Validation error', 'VALIDATION_ERROR', errors.array()));
+        return;
+      }
+
+      const priorityId = parseInt(req.params.id);
+      const success = await PriorityController.priorityService.deletePriority(priorityId);
+
+      if (!success) {
+        next(ApiError.notFound('Priority not found', 'PRIORITY_NOT_FOUND'));
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Priority deleted successfully'
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -0,0 +1,70 @@
+import { Request, Response, NextFunction } from 'express';
+import { validationResult } from 'express-validator';
+import { ApiError } from '../utils/error.utils';
+import { ReminderService } from '../services/reminder.service';
+
+/**
+ * Reminder Controller
+ * Handles HTTP requests related to the reminder defaults of the current user
+ */
+export class ReminderController {
+  private static reminderService: ReminderService = new ReminderService();
+
+  /**
+   * @route   GET /api/reminders/settings
+   * @desc    Get the current user's reminder defaults
+   * @access  Private
+   */
+  static async getSettings(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user || !req.user.id) {
+        next(ApiError.unauthorized('Not authorized', 'NOT_AUTHORIZED'));
+        return;
+      }
+
+      const settings = await ReminderController.reminderService.getSettings(req.user.id);
+
+      res.status(200).json({
+        success: true,
+        data: settings
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @route   PATCH /api/reminders/settings
+   * @desc    Update the current user's reminder defaults
+   * @access  Private
+   */
+  static async updateSettings(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        next(ApiError.badRequest('Validation error', 'VALIDATION_ERROR', errors.array()));
+        return;
+      }
+
+      if (!req.user || !req.user.id) {
+        next(ApiError.unauthorized('Not authorized', 'NOT_AUTHORIZED'));
+        return;
+      }
+
+      const { default_offsets, default_channels, webhook_url } = req.body;
+      const settings = await ReminderController.reminderService.updateSettings(req.user.id, {
+        default_offsets,
+        default_channels,
+        webhook_url
+      });
+
+      res.status(200).json({
+        success: true,
+        message: 'Reminder settings updated successfully',
+        data: settings
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -0,0 +1,55 @@
+import { Request, Response, NextFunction } from 'express';
+import { validationResult } from 'express-validator';
+import { ApiError } from '../utils/error.utils';
+import { SettingsService } from '../services/settings.service';
+
+/**
+ * Settings Controller
+ * Handles HTTP requests related to application settings
+ */
+export class SettingsController {
+  private static settingsService: SettingsService = new SettingsService();
+
+  /**
+   * @route   GET /api/settings
+   * @desc    Get application settings
+   * @access  Private/Admin
+   */
+  static async getSettings(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const settings = await SettingsController.settingsService.getSettings();
+
+      res.status(200).json({
+        success: true,
+        data: settings
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @route   PATCH /api/settings
+   * @desc    Update application settings
+   * @access  Private/Admin
+   */
+  static async updateSettings(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        next(ApiError.badRequest('Validation error', 'VALIDATION_ERROR', errors.array()));
+        return;
+      }
+
+      const settings = await SettingsController.settingsService.updateSettings(req.body);
+
+      res.status(200).json({
+        success: true,
+        message: 'Settings updated successfully',
+        data: settings
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
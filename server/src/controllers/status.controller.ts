@@ -0,0 +1,158 @@
+import { Request, Response, NextFunction } from 'express';
+import { validationResult } from 'express-validator';
+import { ApiError } from '../utils/error.utils';
+import { IStatusCreate, IStatusUpdate } from '../interfaces/status.interface';
+import { StatusService } from '../services/status.service';
+
+/**
+ * Status Controller
+ * Handles HTTP requests related to task statuses
+ */
+export class StatusController {
+  private static statusService: StatusService = new StatusService();
+
+  /**
+   * @route   GET /api/statuses
+   * @desc    Get the built-in statuses, plus the statuses of a workspace
+   * @access  Private
+   */
+  static async getStatuses(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        next(ApiError.badRequest('Validation error', 'VALIDATION_ERROR', errors.array()));
+        return;
+      }
+
+      if (!req.user || !req.user.id) {
+        next(ApiError.unauthorized('Not authorized', 'NOT_AUTHORIZED'));
+        return;
+      }
+
+      const workspaceId = req.query.workspace_id ? parseInt(req.query.workspace_id as string) : undefined;
+      const statuses = await StatusController.statusService.getStatuses(req.user.id, workspaceId);
+
+      res.status(200).json({
+        success: true,
+        count: statuses.length,
+        data: statuses
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @route   POST /api/statuses
+   * @desc    Create a workspace status
+   * @access  Private (workspace owner or admin)
+   */
+  static async createStatus(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        next(ApiError.badRequest('Validation error', 'VALIDATION_ERROR', errors.array()));
+        return;
+      }
+
+      if (!req.user || !req.user.id) {
+        next(ApiError.unauthorized('Not authorized', 'NOT_AUTHORIZED'));
+        return;
+      }
+
+      const statusData: IStatusCreate = {
+        workspace_id: req.body.workspace_id,
+        key: req.body.key,
+        name: req.body.name,
+        category: req.body.category,
+        position: req.body.position,
+        color: req.body.color
+      };
+      const status = await StatusController.statusService.createStatus(statusData, req.user.id);
+
+      res.status(201).json({
+        success: true,
+        message: 'Status created successfully',
+        data: status
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @route   PUT /api/statuses/:id
+   * @desc    Update a workspace status
+   * @access  Private (workspace owner or admin)
+   */
+  static async updateStatus(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        next(ApiError.badRequest('Validation error', 'VALIDATION_ERROR', errors.array()));
+        return;
+      }
+
+      if (!req.user || !req.user.id) {
+        next(ApiError.unauthorized('Not authorized', 'NOT_AUTHORIZED'));
+        return;
+      }
+
+      const statusId = parseInt(req.params.id);
+      const statusData: IStatusUpdate = {};
+      if (req.body.name !== undefined) statusData.name = req.body.name;
+      if (req.body.position !== undefined) statusData.position = req.body.position;
+      if (req.body.color !== undefined) statusData.color = req.body.color;
+
+      const status = await StatusController.statusService.updateStatus(statusId, statusData, req.user.id);
+
+      if (!status) {
+        next(ApiError.notFound('Status not found', 'STATUS_NOT_FOUND'));
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Status updated successfully',
+        data: status
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @route   DELETE /api/statuses/:id
+   * @desc    Delete a workspace status no task is in
+   * @access  Private (workspace owner or admin)
+   */
+  static async deleteStatus(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        next(ApiError.badRequest('Validation error', 'VALIDATION_ERROR', errors.array()));
+        return;
+      }
+
+      if (!req.user || !req.user.id) {
+        next(ApiError.unauthorized('Not authorized', 'NOT_AUTHORIZED'));
+        return;
+      }
+
+      const statusId = parseInt(req.params.id);
+      const deleted = await StatusController.statusService.deleteStatus(statusId, req.user.id);
+
+      if (!deleted) {
+        next(ApiError.notFound('Status not found', 'STATUS_NOT_FOUND'));
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Status deleted successfully'
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
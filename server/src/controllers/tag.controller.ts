@@ -0,0 +1,156 @@
+import { Request, Response, NextFunction } from 'express';
+import { validationResult } from 'express-validator';
+import { ApiError } from '../utils/error.utils';
+import { ITagQuery } from '../interfaces/tag.interface';
+import { TagService } from '../services/tag.service';
+
+/**
+ * Tag Controller
+ * Handles HTTP requests related to tags
+ */
+export class TagController {
+  private static tagService: TagService = new TagService();
+
+  /**
+   * @route   GET /api/tags
+   * @desc    Get the tags of the current user and their workspaces with task counts;
+   *          ?prefix= narrows them down for autocomplete
+   * @access  Private
+   */
+  static async getAllTags(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        next(ApiError.badRequest('Validation error', 'VALIDATION_ERROR', errors.array()));
+        return;
+      }
+
+      if (!req.user || !req.user.id) {
+        next(ApiError.unauthorized('Not authorized', 'NOT_AUTHORIZED'));
+        return;
+      }
+
+      const queryParams: ITagQuery = {};
+      if (req.query.prefix) queryParams.prefix = req.query.prefix as string;
+      if (req.query.workspace_id) queryParams.workspace_id = parseInt(req.query.workspace_id as string);
+      if (req.query.limit) queryParams.limit = parseInt(req.query.limit as string);
+
+      const tags = await TagController.tagService.getUserTags(req.user.id, queryParams);
+
+      res.status(200).json({
+        success: true,
+        count: tags.length,
+        data: tags
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @route   PUT /api/tags/:id
+   * @desc    Rename tag
+   * @access  Private
+   */
+  static async renameTag(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        next(ApiError.badRequest('Validation error', 'VALIDATION_ERROR', errors.array()));
+        return;
+      }
+
+      if (!req.user || !req.user.id) {
+        next(ApiError.unauthorized('Not authorized', 'NOT_AUTHORIZED'));
+        return;
+      }
+
+      const tagId = parseInt(req.params.id);
+      const tag = await TagController.tagService.renameTag(tagId, req.body.name, req.user.id);
+
+      if (!tag) {
+        next(ApiError.notFound('Tag not found', 'TAG_NOT_FOUND'));
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Tag renamed successfully',
+        data: tag
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @route   POST /api/tags/:id/merge
+   * @desc    Merge tag into another tag
+   * @access  Private
+   */
+  static async mergeTags(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        next(ApiError.badRequest('Validation error', 'VALIDATION_ERROR', errors.array()));
+        return;
+      }
+
+      if (!req.user || !req.user.id) {
+        next(ApiError.unauthorized('Not authorized', 'NOT_AUTHORIZED'));
+        return;
+      }
+
+      const tagId = parseInt(req.params.id);
+      const tag = await TagController.tagService.mergeTags(tagId, req.body.target_id, req.user.id);
+
+      if (!tag) {
+        next(ApiError.notFound('Tag not found', 'TAG_NOT_FOUND'));
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Tags merged successfully',
+        data: tag
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @route   DELETE /api/tags/:id
+   * @desc    Delete tag (tasks carrying it keep their other tags)
+   * @access  Private
+   */
+  static async deleteTag(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        next(ApiError.badRequest('Validation error', 'VALIDATION_ERROR', errors.array()));
+        return;
+      }
+
+      if (!req.user || !req.user.id) {
+        next(ApiError.unauthorized('Not authorized', 'NOT_AUTHORIZED'));
+        return;
+      }
+
+      const tagId = parseInt(req.params.id);
+      const deleted = await TagController.tagService.deleteTag(tagId, req.user.id);
+
+      if (!deleted) {
+        next(ApiError.notFound('Tag not found', 'TAG_NOT_FOUND'));
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Tag deleted successfully'
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -1,8 +1,21 @@
 import { Request, Response, NextFunction } from 'express';
 import { validationResult } from 'express-validator';
 import { ApiError } from '../utils/error.utils';
-import { ITaskCreate, ITaskUpdate, TaskStatus } from '../interfaces/task.interface';
+import {
+  ITaskBulkTarget,
+  ITaskCreate,
+  ITaskFilter,
+  ITaskQuery,
+  ITaskUpdate,
+  SubtaskCompletion,
+  TaskSortField
+} from '../interfaces/task.interface';
+import { IChecklistItemUpdate } from '../interfaces/checklist.interface';
+import { RecurrenceScope } from '../interfaces/taskSeries.interface';
 import { TaskService } from '../services/task.service';
+import { Tag } from '../models/tag.model';
+import { Task } from '../models/task.model';
+import { TaskFilter } from '../models/taskFilter.model';
 
 /**
  * Task Controller
@@ -13,52 +26,114 @@ export class TaskController {
 
   /**
    * @route   GET /api/tasks
-   * @desc    Get all tasks for current user
+   * @desc    Get a page of tasks for current user
    * @access  Private
    */
   static async getAllTasks(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
-      if (!req.user || !req.user.id) {
-        next(ApiError.unauthorized('Not authorized', 'NOT_AUTHORIZED'));
+      // Check for validation errors
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        next(ApiError.badRequest('Validation error', 'VALIDATION_ERROR', errors.array()));
         return;
       }
 
-      // Check for search term
-      if (req.query.search) {
-        const tasks = await TaskController.taskService.searchTasks(
-          req.user.id,
-          req.query.search as string
-        );
-        res.status(200).json({
-          success: true,
-          count: tasks.length,
-          data: tasks
-        });
+      if (!req.user || !req.user.id) {
+        next(ApiError.unauthorized('Not authorized', 'NOT_AUTHORIZED'));
         return;
       }
 
       // Build query filters from request query parameters
-      const filters: any = {};
+      const filters = TaskController.buildTaskQuery(req.query);
 
-      if (req.query.category_id) {
-        filters.category_id = parseInt(req.query.category_id as string);
+      if (req.query.limit) {
+        filters.limit = parseInt(req.query.limit as string);
       }
 
-      if (req.query.priority_id) {
-        filters.priority_id = parseInt(req.query.priority_id as string);
+      if (req.query.cursor) {
+        filters.cursor = req.query.cursor as string;
       }
 
-      if (req.query.status) {
-        filters.status = req.query.status as TaskStatus;
+      if (req.query.fields) {
+        filters.fields = Task.parseFields(req.query.fields as string);
       }
+
+      // Get one page of tasks with filters
+      const page = await TaskController.taskService.getUserTaskPage(req.user.id, filters);
       
-      if (req.query.due_date) {
-        filters.due_date = new Date(req.query.due_date as string);
+      res.status(200).json({
+        success: true,
+        count: page.tasks.length,
+        total: page.total,
+        nextCursor: page.next_cursor,
+        data: page.tasks
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @route   GET /api/tasks/search
+   * @desc    Full-text search tasks for current user, ranked by relevance with highlights
+   * @access  Private
+   */
+  static async searchTasks(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Check for validation errors
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        next(ApiError.badRequest('Validation error', 'VALIDATION_ERROR', errors.array()));
+        return;
       }
 
-      // Get all tasks with filters
-      const tasks = await TaskController.taskService.getUserTasks(req.user.id, filters);
-      
+      if (!req.user || !req.user.id) {
+        next(ApiError.unauthorized('Not authorized', 'NOT_AUTHORIZED'));
+        return;
+      }
+
+      const filters = TaskController.buildTaskQuery(req.query);
+
+      if (req.query.limit) {
+        filters.limit = parseInt(req.query.limit as string);
+      }
+
+      const results = await TaskController.taskService.searchTasks(req.user.id, req.query.q as string, filters);
+
+      res.status(200).json({
+        success: true,
+        count: results.length,
+        data: results
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @route   GET /api/tasks/assigned
+   * @desc    Get tasks assigned to current user
+   * @access  Private
+   */
+  static async getAssignedTasks(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Check for validation errors
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        next(ApiError.badRequest('Validation error', 'VALIDATION_ERROR', errors.array()));
+        return;
+      }
+
+      if (!req.user || !req.user.id) {
+        next(ApiError.unauthorized('Not authorized', 'NOT_AUTHORIZED'));
+        return;
+      }
+
+      const tasks = await TaskController.taskService.getAssignedTasks(
+        req.user.id,
+        TaskController.buildTaskQuery(req.query)
+      );
+
       res.status(200).json({
         success: true,
         count: tasks.length,
@@ -91,8 +166,8 @@ export class TaskController {
         return;
       }
 
-      // Check if user is authorized to view this task
-      if (task.user_id !== req.user.id && req.user.role !== 'admin') {
+      // Owners, assignees and admins can view a task
+      if (!await TaskController.taskService.canViewTask(task, req.user.id, req.user.role === 'admin')) {
         next(ApiError.forbidden('Not authorized to access this task', 'FORBIDDEN'));
         return;
       }
@@ -167,12 +242,14 @@ export class TaskController {
 
       // Update task data
       const taskData: ITaskUpdate = req.body;
+      const scope = req.query.scope as RecurrenceScope | undefined;
       
       // Update task using the service
       const updatedTask = await TaskController.taskService.updateTask(
         taskId, 
         taskData, 
-        req.user.id
+        req.user.id,
+        scope
       );
       
       if (!updatedTask) {
@@ -228,8 +305,15 @@ export class TaskController {
    */
   static async updateTaskStatus(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
+      // Check for validation errors
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        next(ApiError.badRequest('Validation error', 'VALIDATION_ERROR', errors.array()));
+        return;
+      }
+
       const taskId = parseInt(req.params.id);
-      const { status } = req.body;
+      const { status, reason, subtasks, force } = req.body;
       
       if (!req.user || !req.user.id) {
         next(ApiError.unauthorized('Not authorized', 'NOT_AUTHORIZED'));
@@ -240,7 +324,10 @@ export class TaskController {
       const updatedTask = await TaskController.taskService.changeTaskStatus(
         taskId, 
         status, 
-        req.user.id
+        req.user.id,
+        reason || null,
+        (subtasks as SubtaskCompletion | undefined) || SubtaskCompletion.REJECT,
+        force === true
       );
       
       if (!updatedTask) {
@@ -258,6 +345,56 @@ export class TaskController {
     }
   }
 
+  /**
+   * @route   POST /api/tasks/bulk
+   * @desc    Apply one operation to the listed tasks or the tasks matching a filter, in a single transaction
+   * @access  Private
+   */
+  static async bulkUpdateTasks(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Check for validation errors
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        next(ApiError.badRequest('Validation error', 'VALIDATION_ERROR', errors.array()));
+        return;
+      }
+
+      if (!req.user || !req.user.id) {
+        next(ApiError.unauthorized('Not authorized', 'NOT_AUTHORIZED'));
+        return;
+      }
+
+      const { task_ids, filter, operation, fields, status, reason, subtasks, force, user_id } = req.body;
+      const target: ITaskBulkTarget = task_ids
+        ? { task_ids }
+        : { query: TaskController.buildTaskQuery(filter) };
+
+      const results = await TaskController.taskService.bulkUpdateTasks(
+        target,
+        {
+          type: operation,
+          fields: fields as ITaskUpdate | undefined,
+          status,
+          reason: reason || null,
+          subtasks: subtasks as SubtaskCompletion | undefined,
+          force: force === true,
+          user_id
+        },
+        req.user.id
+      );
+      const succeeded = results.filter(result => result.success).length;
+
+      res.status(200).json({
+        success: true,
+        message: `Operation applied to ${succeeded} of ${results.length} tasks`,
+        count: results.length,
+        data: results
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
   /**
    * @route   GET /api/tasks/due-soon
    * @desc    Get tasks due soon (within specified days)
@@ -310,4 +447,1102 @@ export class TaskController {
       next(error);
     }
   }
+
+  /**
+   * @route   POST /api/tasks/:id/assignees
+   * @desc    Assign a user to a task
+   * @access  Private (task owner)
+   */
+  static async assignUser(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Check for validation errors
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        next(ApiError.badRequest('Validation error', 'VALIDATION_ERROR', errors.array()));
+        return;
+      }
+
+      const taskId = parseInt(req.params.id);
+
+      if (!req.user || !req.user.id) {
+        next(ApiError.unauthorized('Not authorized', 'NOT_AUTHORIZED'));
+        return;
+      }
+
+      const task = await TaskController.taskService.assignUser(
+        taskId,
+        parseInt(req.body.user_id),
+        req.user.id
+      );
+
+      if (!task) {
+        next(ApiError.notFound('Task not found', 'TASK_NOT_FOUND'));
+        return;
+      }
+
+      res.status(201).json({
+        success: true,
+        message: 'User assigned to task successfully',
+        data: task
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @route   DELETE /api/tasks/:id/assignees/:userId
+   * @desc    Remove a user from a task
+   * @access  Private (task owner, or the assignee themselves)
+   */
+  static async unassignUser(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Check for validation errors
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        next(ApiError.badRequest('Validation error', 'VALIDATION_ERROR', errors.array()));
+        return;
+      }
+
+      const taskId = parseInt(req.params.id);
+
+      if (!req.user || !req.user.id) {
+        next(ApiError.unauthorized('Not authorized', 'NOT_AUTHORIZED'));
+        return;
+      }
+
+      const task = await TaskController.taskService.unassignUser(
+        taskId,
+        parseInt(req.params.userId),
+        req.user.id
+      );
+
+      if (!task) {
+        next(ApiError.notFound('Task not found', 'TASK_NOT_FOUND'));
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'User unassigned from task successfully',
+        data: task
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @route   GET /api/tasks/:id/history
+   * @desc    Get the activity history of a task
+   * @access  Private
+   */
+  static async getTaskHistory(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Check for validation errors
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        next(ApiError.badRequest('Validation error', 'VALIDATION_ERROR', errors.array()));
+        return;
+      }
+
+      const taskId = parseInt(req.params.id);
+
+      if (!req.user || !req.user.id) {
+        next(ApiError.unauthorized('Not authorized', 'NOT_AUTHORIZED'));
+        return;
+      }
+
+      const events = await TaskController.taskService.getTaskHistory(
+        taskId,
+        req.user.id,
+        req.user.role === 'admin'
+      );
+
+      if (!events) {
+        next(ApiError.notFound('Task not found', 'TASK_NOT_FOUND'));
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        count: events.length,
+        data: events
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @route   GET /api/tasks/:id/reminders
+   * @desc    Get the current user's reminders on a task
+   * @access  Private
+   */
+  static async getTaskReminders(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Check for validation errors
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        next(ApiError.badRequest('Validation error', 'VALIDATION_ERROR', errors.array()));
+        return;
+      }
+
+      const taskId = parseInt(req.params.id);
+
+      if (!req.user || !req.user.id) {
+        next(ApiError.unauthorized('Not authorized', 'NOT_AUTHORIZED'));
+        return;
+      }
+
+      const reminders = await TaskController.taskService.getTaskReminders(
+        taskId,
+        req.user.id,
+        req.user.role === 'admin'
+      );
+
+      if (!reminders) {
+        next(ApiError.notFound('Task not found', 'TASK_NOT_FOUND'));
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        count: reminders.length,
+        data: reminders
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @route   POST /api/tasks/:id/reminders
+   * @desc    Add a reminder for the current user on a task
+   * @access  Private
+   */
+  static async addTaskReminder(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Check for validation errors
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        next(ApiError.badRequest('Validation error', 'VALIDATION_ERROR', errors.array()));
+        return;
+      }
+
+      const taskId = parseInt(req.params.id);
+
+      if (!req.user || !req.user.id) {
+        next(ApiError.unauthorized('Not authorized', 'NOT_AUTHORIZED'));
+        return;
+      }
+
+      const { remind_at, offset_minutes, channels } = req.body;
+      const reminder = await TaskController.taskService.addTaskReminder(
+        taskId,
+        req.user.id,
+        {
+          remind_at: remind_at !== undefined ? new Date(remind_at) : undefined,
+          offset_minutes: offset_minutes !== undefined ? parseInt(offset_minutes) : undefined,
+          channels
+        },
+        req.user.role === 'admin'
+      );
+
+      if (!reminder) {
+        next(ApiError.notFound('Task not found', 'TASK_NOT_FOUND'));
+        return;
+      }
+
+      res.status(201).json({
+        success: true,
+        message: 'Reminder created successfully',
+        data: reminder
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @route   DELETE /api/tasks/:id/reminders/:reminderId
+   * @desc    Delete one of the current user's reminders on a task
+   * @access  Private
+   */
+  static async deleteTaskReminder(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Check for validation errors
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        next(ApiError.badRequest('Validation error', 'VALIDATION_ERROR', errors.array()));
+        return;
+      }
+
+      const taskId = parseInt(req.params.id);
+
+      if (!req.user || !req.user.id) {
+        next(ApiError.unauthorized('Not authorized', 'NOT_AUTHORIZED'));
+        return;
+      }
+
+      const deleted = await TaskController.taskService.deleteTaskReminder(
+        taskId,
+        parseInt(req.params.reminderId),
+        req.user.id
+      );
+
+      if (deleted === null) {
+        next(ApiError.notFound('Task not found', 'TASK_NOT_FOUND'));
+        return;
+      }
+
+      if (!deleted) {
+        next(ApiError.notFound('Reminder not found', 'REMINDER_NOT_FOUND'));
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Reminder deleted successfully'
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @route   GET /api/tasks/:id/subtasks
+   * @desc    Get the direct subtasks of a task
+   * @access  Private
+   */
+  static async getSubtasks(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Check for validation errors
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        next(ApiError.badRequest('Validation error', 'VALIDATION_ERROR', errors.array()));
+        return;
+      }
+
+      const taskId = parseInt(req.params.id);
+
+      if (!req.user || !req.user.id) {
+        next(ApiError.unauthorized('Not authorized', 'NOT_AUTHORIZED'));
+        return;
+      }
+
+      const subtasks = await TaskController.taskService.getSubtasks(
+        taskId,
+        req.user.id,
+        req.user.role === 'admin'
+      );
+
+      if (!subtasks) {
+        next(ApiError.notFound('Task not found', 'TASK_NOT_FOUND'));
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        count: subtasks.length,
+        data: subtasks
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @route   GET /api/tasks/:id/checklist
+   * @desc    Get the checklist of a task
+   * @access  Private
+   */
+  static async getChecklist(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Check for validation errors
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        next(ApiError.badRequest('Validation error', 'VALIDATION_ERROR', errors.array()));
+        return;
+      }
+
+      const taskId = parseInt(req.params.id);
+
+      if (!req.user || !req.user.id) {
+        next(ApiError.unauthorized('Not authorized', 'NOT_AUTHORIZED'));
+        return;
+      }
+
+      const items = await TaskController.taskService.getChecklist(
+        taskId,
+        req.user.id,
+        req.user.role === 'admin'
+      );
+
+      if (!items) {
+        next(ApiError.notFound('Task not found', 'TASK_NOT_FOUND'));
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        count: items.length,
+        data: items
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @route   POST /api/tasks/:id/checklist
+   * @desc    Add an item to the checklist of a task
+   * @access  Private
+   */
+  static async addChecklistItem(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Check for validation errors
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        next(ApiError.badRequest('Validation error', 'VALIDATION_ERROR', errors.array()));
+        return;
+      }
+
+      const taskId = parseInt(req.params.id);
+
+      if (!req.user || !req.user.id) {
+        next(ApiError.unauthorized('Not authorized', 'NOT_AUTHORIZED'));
+        return;
+      }
+
+      const { content, position } = req.body;
+      const item = await TaskController.taskService.addChecklistItem(
+        taskId,
+        { content, position },
+        req.user.id
+      );
+
+      if (!item) {
+        next(ApiError.notFound('Task not found', 'TASK_NOT_FOUND'));
+        return;
+      }
+
+      res.status(201).json({
+        success: true,
+        message: 'Checklist item created successfully',
+        data: item
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @route   PATCH /api/tasks/:id/checklist/:itemId
+   * @desc    Update an item of a task's checklist
+   * @access  Private
+   */
+  static async updateChecklistItem(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Check for validation errors
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        next(ApiError.badRequest('Validation error', 'VALIDATION_ERROR', errors.array()));
+        return;
+      }
+
+      const taskId = parseInt(req.params.id);
+
+      if (!req.user || !req.user.id) {
+        next(ApiError.unauthorized('Not authorized', 'NOT_AUTHORIZED'));
+        return;
+      }
+
+      const itemData: IChecklistItemUpdate = {};
+      if (req.body.content !== undefined) itemData.content = req.body.content;
+      if (req.body.is_done !== undefined) itemData.is_done = req.body.is_done;
+      if (req.body.position !== undefined) itemData.position = req.body.position;
+
+      const item = await TaskController.taskService.updateChecklistItem(
+        taskId,
+        parseInt(req.params.itemId),
+        itemData,
+        req.user.id
+      );
+
+      if (!item) {
+        next(ApiError.notFound('Checklist item not found', 'CHECKLIST_ITEM_NOT_FOUND'));
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Checklist item updated successfully',
+        data: item
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @route   DELETE /api/tasks/:id/checklist/:itemId
+   * @desc    Delete an item of a task's checklist
+   * @access  Private
+   */
+  static async deleteChecklistItem(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Check for validation errors
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        next(ApiError.badRequest('Validation error', 'VALIDATION_ERROR', errors.array()));
+        return;
+      }
+
+      const taskId = parseInt(req.params.id);
+
+      if (!req.user || !req.user.id) {
+        next(ApiError.unauthorized('Not authorized', 'NOT_AUTHORIZED'));
+        return;
+      }
+
+      const deleted = await TaskController.taskService.deleteChecklistItem(
+        taskId,
+        parseInt(req.params.itemId),
+        req.user.id
+      );
+
+      if (deleted === null) {
+        next(ApiError.notFound('Task not found', 'TASK_NOT_FOUND'));
+        return;
+      }
+
+      if (!deleted) {
+        next(ApiError.notFound('Checklist item not found', 'CHECKLIST_ITEM_NOT_FOUND'));
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Checklist item deleted successfully'
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Build task query filters from listing parameters
+   * @param params Query string parameters, or the filter of a bulk operation
+   * @returns Task query filters
+   */
+  private static buildTaskQuery(params: Record<string, any>): ITaskQuery {
+    const filters: ITaskQuery = {};
+
+    if (params.workspace_id) {
+      filters.workspace_id = parseInt(params.workspace_id as string);
+    }
+
+    if (params.due_date) {
+      filters.due_date = new Date(params.due_date as string);
+    }
+
+    if (params.search) {
+      filters.search = params.search as string;
+    }
+
+    if (params.tags) {
+      filters.tags = Tag.parseList(params.tags as string);
+      filters.tags_match = params.tags_match === 'all' ? 'all' : 'any';
+    }
+
+    if (params.archived !== undefined) {
+      filters.archived = String(params.archived) === 'true';
+    }
+
+    if (params.sort_by) {
+      filters.sort_by = params.sort_by as TaskSortField;
+    }
+
+    if (params.sort_order) {
+      filters.sort_order = params.sort_order as 'asc' | 'desc';
+    }
+
+    if (params.sort) {
+      filters.sort = Task.parseSort(params.sort as string);
+    }
+
+    const conditions = TaskController.buildTaskFilters(params);
+    if (conditions.length > 0) {
+      filters.filters = conditions;
+    }
+
+    return filters;
+  }
+
+  /**
+   * Build filter conditions from listing parameters and the filter expression
+   * @param params Query string parameters, or the filter of a bulk operation
+   * @returns Filter conditions
+   */
+  private static buildTaskFilters(params: Record<string, any>): ITaskFilter[] {
+    const conditions: ITaskFilter[] = [];
+
+    if (params.status) {
+      conditions.push(TaskFilter.fromStatusList(params.status as string));
+    }
+
+    if (params.category_id) {
+      conditions.push(TaskFilter.fromIdList('category_id', params.category_id as string));
+    }
+
+    if (params.priority_id) {
+      conditions.push(TaskFilter.fromIdList('priority_id', params.priority_id as string));
+    }
+
+    if (params.due_before) {
+      conditions.push({ field: 'due_date', operator: 'lt', value: new Date(params.due_before as string) });
+    }
+
+    if (params.due_after) {
+      conditions.push({ field: 'due_date', operator: 'gt', value: new Date(params.due_after as string) });
+    }
+
+    if (params.created_since) {
+      conditions.push({ field: 'created_at', operator: 'gte', value: new Date(params.created_since as string) });
+    }
+
+    if (params.has_due_date) {
+      conditions.push({ field: 'due_date', operator: 'is_null', negate: params.has_due_date === 'true' });
+    }
+
+    if (params.filter) {
+      conditions.push(...TaskFilter.parse(params.filter as string));
+    }
+
+    return conditions;
+  }
+
+  /**
+   * @route   GET /api/tasks/:id/graph
+   * @desc    Get the tasks upstream and downstream of a task
+   * @access  Private
+   */
+  static async getTaskGraph(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Check for validation errors
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        next(ApiError.badRequest('Validation error', 'VALIDATION_ERROR', errors.array()));
+        return;
+      }
+
+      const taskId = parseInt(req.params.id);
+
+      if (!req.user || !req.user.id) {
+        next(ApiError.unauthorized('Not authorized', 'NOT_AUTHORIZED'));
+        return;
+      }
+
+      const graph = await TaskController.taskService.getTaskGraph(
+        taskId,
+        req.user.id,
+        req.user.role === 'admin',
+        req.query.depth ? parseInt(req.query.depth as string) : undefined
+      );
+
+      if (!graph) {
+        next(ApiError.notFound('Task not found', 'TASK_NOT_FOUND'));
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: graph
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @route   POST /api/tasks/:id/blockers
+   * @desc    Make a task blocked by another task
+   * @access  Private
+   */
+  static async addTaskBlocker(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Check for validation errors
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        next(ApiError.badRequest('Validation error', 'VALIDATION_ERROR', errors.array()));
+        return;
+      }
+
+      const taskId = parseInt(req.params.id);
+
+      if (!req.user || !req.user.id) {
+        next(ApiError.unauthorized('Not authorized', 'NOT_AUTHORIZED'));
+        return;
+      }
+
+      const dependency = await TaskController.taskService.addBlocker(
+        taskId,
+        req.body.blocker_task_id,
+        req.user.id
+      );
+
+      if (!dependency) {
+        next(ApiError.notFound('Task not found', 'TASK_NOT_FOUND'));
+        return;
+      }
+
+      res.status(201).json({
+        success: true,
+        message: 'Dependency added successfully',
+        data: dependency
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @route   DELETE /api/tasks/:id/blockers/:blockerId
+   * @desc    Remove a task blocking another task
+   * @access  Private
+   */
+  static async removeTaskBlocker(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Check for validation errors
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        next(ApiError.badRequest('Validation error', 'VALIDATION_ERROR', errors.array()));
+        return;
+      }
+
+      const taskId = parseInt(req.params.id);
+
+      if (!req.user || !req.user.id) {
+        next(ApiError.unauthorized('Not authorized', 'NOT_AUTHORIZED'));
+        return;
+      }
+
+      const removed = await TaskController.taskService.removeBlocker(
+        taskId,
+        parseInt(req.params.blockerId),
+        req.user.id
+      );
+
+      if (removed === null) {
+        next(ApiError.notFound('Task not found', 'TASK_NOT_FOUND'));
+        return;
+      }
+
+      if (!removed) {
+        next(ApiError.notFound('Dependency not found', 'DEPENDENCY_NOT_FOUND'));
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Dependency removed successfully'
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @route   GET /api/tasks/:id/comments
+   * @desc    Get the comments on a task
+   * @access  Private
+   */
+  static async getComments(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Check for validation errors
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        next(ApiError.badRequest('Validation error', 'VALIDATION_ERROR', errors.array()));
+        return;
+      }
+
+      const taskId = parseInt(req.params.id);
+
+      if (!req.user || !req.user.id) {
+        next(ApiError.unauthorized('Not authorized', 'NOT_AUTHORIZED'));
+        return;
+      }
+
+      const comments = await TaskController.taskService.getComments(
+        taskId,
+        req.user.id,
+        req.user.role === 'admin'
+      );
+
+      if (!comments) {
+        next(ApiError.notFound('Task not found', 'TASK_NOT_FOUND'));
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        count: comments.length,
+        data: comments
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @route   POST /api/tasks/:id/comments
+   * @desc    Comment on a task, or reply to a comment
+   * @access  Private
+   */
+  static async addComment(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Check for validation errors
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        next(ApiError.badRequest('Validation error', 'VALIDATION_ERROR', errors.array()));
+        return;
+      }
+
+      const taskId = parseInt(req.params.id);
+
+      if (!req.user || !req.user.id) {
+        next(ApiError.unauthorized('Not authorized', 'NOT_AUTHORIZED'));
+        return;
+      }
+
+      const { content, parent_comment_id } = req.body;
+      const comment = await TaskController.taskService.addComment(
+        taskId,
+        { content, parent_comment_id },
+        req.user.id
+      );
+
+      if (!comment) {
+        next(ApiError.notFound('Task not found', 'TASK_NOT_FOUND'));
+        return;
+      }
+
+      res.status(201).json({
+        success: true,
+        message: 'Comment created successfully',
+        data: comment
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @route   PATCH /api/tasks/:id/comments/:commentId
+   * @desc    Edit a comment on a task
+   * @access  Private
+   */
+  static async updateComment(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Check for validation errors
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        next(ApiError.badRequest('Validation error', 'VALIDATION_ERROR', errors.array()));
+        return;
+      }
+
+      const taskId = parseInt(req.params.id);
+
+      if (!req.user || !req.user.id) {
+        next(ApiError.unauthorized('Not authorized', 'NOT_AUTHORIZED'));
+        return;
+      }
+
+      const comment = await TaskController.taskService.updateComment(
+        taskId,
+        parseInt(req.params.commentId),
+        req.body.content,
+        req.user.id
+      );
+
+      if (!comment) {
+        next(ApiError.notFound('Comment not found', 'COMMENT_NOT_FOUND'));
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Comment updated successfully',
+        data: comment
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @route   DELETE /api/tasks/:id/comments/:commentId
+   * @desc    Delete a comment on a task
+   * @access  Private
+   */
+  static async deleteComment(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Check for validation errors
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        next(ApiError.badRequest('Validation error', 'VALIDATION_ERROR', errors.array()));
+        return;
+      }
+
+      const taskId = parseInt(req.params.id);
+
+      if (!req.user || !req.user.id) {
+        next(ApiError.unauthorized('Not authorized', 'NOT_AUTHORIZED'));
+        return;
+      }
+
+      const deleted = await TaskController.taskService.deleteComment(
+        taskId,
+        parseInt(req.params.commentId),
+        req.user.id
+      );
+
+      if (deleted === null) {
+        next(ApiError.notFound('Task not found', 'TASK_NOT_FOUND'));
+        return;
+      }
+
+      if (!deleted) {
+        next(ApiError.notFound('Comment not found', 'COMMENT_NOT_FOUND'));
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Comment deleted successfully'
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @route   GET /api/tasks/:id/attachments
+   * @desc    Get the attachments of a task
+   * @access  Private
+   */
+  static async getAttachments(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Check for validation errors
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        next(ApiError.badRequest('Validation error', 'VALIDATION_ERROR', errors.array()));
+        return;
+      }
+
+      const taskId = parseInt(req.params.id);
+
+      if (!req.user || !req.user.id) {
+        next(ApiError.unauthorized('Not authorized', 'NOT_AUTHORIZED'));
+        return;
+      }
+
+      const attachments = await TaskController.taskService.getAttachments(
+        taskId,
+        req.user.id,
+        req.user.role === 'admin'
+      );
+
+      if (!attachments) {
+        next(ApiError.notFound('Task not found', 'TASK_NOT_FOUND'));
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        count: attachments.length,
+        data: attachments
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @route   POST /api/tasks/:id/attachments
+   * @desc    Attach a file to a task (multipart/form-data with a `file` field)
+   * @access  Private
+   */
+  static async addAttachment(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Check for validation errors
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        next(ApiError.badRequest('Validation error', 'VALIDATION_ERROR', errors.array()));
+        return;
+      }
+
+      const taskId = parseInt(req.params.id);
+
+      if (!req.user || !req.user.id) {
+        next(ApiError.unauthorized('Not authorized', 'NOT_AUTHORIZED'));
+        return;
+      }
+
+      if (!req.file) {
+        next(ApiError.badRequest('A file is required', 'FILE_REQUIRED'));
+        return;
+      }
+
+      const attachment = await TaskController.taskService.addAttachment(
+        taskId,
+        { file_name: req.file.originalname, mime_type: req.file.mimetype, data: req.file.buffer },
+        req.user.id
+      );
+
+      if (!attachment) {
+        next(ApiError.notFound('Task not found', 'TASK_NOT_FOUND'));
+        return;
+      }
+
+      res.status(201).json({
+        success: true,
+        message: 'File attached successfully',
+        data: attachment
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @route   GET /api/tasks/:id/attachments/:attachmentId/url
+   * @desc    Get a signed, time-limited download URL for an attachment
+   * @access  Private
+   */
+  static async getAttachmentUrl(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Check for validation errors
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        next(ApiError.badRequest('Validation error', 'VALIDATION_ERROR', errors.array()));
+        return;
+      }
+
+      const taskId = parseInt(req.params.id);
+
+      if (!req.user || !req.user.id) {
+        next(ApiError.unauthorized('Not authorized', 'NOT_AUTHORIZED'));
+        return;
+      }
+
+      const download = await TaskController.taskService.getAttachmentUrl(
+        taskId,
+        parseInt(req.params.attachmentId),
+        req.user.id,
+        req.user.role === 'admin'
+      );
+
+      if (!download) {
+        next(ApiError.notFound('Attachment not found', 'ATTACHMENT_NOT_FOUND'));
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: download
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @route   GET /api/tasks/:id/attachments/:attachmentId/content
+   * @desc    Download an attachment through a signed URL
+   * @access  Public (the URL's signature grants access until it expires)
+   */
+  static async downloadAttachment(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Check for validation errors
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        next(ApiError.badRequest('Validation error', 'VALIDATION_ERROR', errors.array()));
+        return;
+      }
+
+      const content = await TaskController.taskService.getAttachmentContent(
+        parseInt(req.params.id),
+        parseInt(req.params.attachmentId),
+        Number(req.query.expires),
+        String(req.query.signature)
+      );
+
+      if (!content) {
+        next(ApiError.notFound('Attachment not found', 'ATTACHMENT_NOT_FOUND'));
+        return;
+      }
+
+      const { attachment, data } = content;
+      const asciiName = attachment.file_name.replace(/[^\x20-\x7e]/g, '_');
+      res.set({
+        'Content-Type': attachment.mime_type,
+        'Content-Length': String(data.length),
+        'Content-Disposition': `attachment; filename="${asciiName}"; filename*=UTF-8''${encodeURIComponent(attachment.file_name)}`,
+        'Cache-Control': 'private, no-cache',
+        // The signature already limits who can load the file, so the client app may embed it
+        'Cross-Origin-Resource-Policy': 'cross-origin'
+      });
+      res.status(200).send(data);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @route   DELETE /api/tasks/:id/attachments/:attachmentId
+   * @desc    Remove an attachment from a task
+   * @access  Private
+   */
+  static async deleteAttachment(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Check for validation errors
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        next(ApiError.badRequest('Validation error', 'VALIDATION_ERROR', errors.array()));
+        return;
+      }
+
+      const taskId = parseInt(req.params.id);
+
+      if (!req.user || !req.user.id) {
+        next(ApiError.unauthorized('Not authorized', 'NOT_AUTHORIZED'));
+        return;
+      }
+
+      const deleted = await TaskController.taskService.deleteAttachment(
+        taskId,
+        parseInt(req.params.attachmentId),
+        req.user.id
+      );
+
+      if (deleted === null) {
+        next(ApiError.notFound('Task not found', 'TASK_NOT_FOUND'));
+        return;
+      }
+
+      if (!deleted) {
+        next(ApiError.notFound('Attachment not found', 'ATTACHMENT_NOT_FOUND'));
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Attachment deleted successfully'
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
 }
\ No newline at end of file
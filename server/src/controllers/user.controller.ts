@@ -1,15 +1,16 @@
 import { Request, Response, NextFunction } from 'express';
 import { validationResult } from 'express-validator';
-import bcrypt from 'bcryptjs';
 import { User } from '../models/user.model';
 import { ApiError } from '../utils/error.utils';
-import { generateTokens } from '../utils/jwt.utils';
 import { IUserCreate, IUserLogin } from '../interfaces/user.interface';
+import { UserService } from '../services/user.service';
 
 /**
  * User Controller
  */
 export class UserController {
+  private static userService: UserService = new UserService();
+
   /**
    * @route   POST /api/auth/register
    * @desc    Register a new user
@@ -26,23 +27,16 @@ export class UserController {
 
       const userData: IUserCreate = req.body;
 
-      // Create the user (validation is handled in the repository)
-      const newUser = await User.create(userData);
-
-      // Generate tokens
-      const tokens = generateTokens({
-        id: newUser.user_id,
-        username: newUser.username,
-        email: newUser.email,
-        role: newUser.role
-      });
+      // Register the user (creates the account, seeds defaults and issues tokens)
+      const { user, accessToken, refreshToken } = await UserController.userService.register(userData);
 
       res.status(201).json({
         success: true,
         message: 'User registered successfully',
         data: {
-          user: newUser,
-          ...tokens
+          user,
+          accessToken,
+          refreshToken
         }
       });
     } catch (error) {
@@ -64,40 +58,171 @@ export class UserController {
         return;
       }
 
-      const { email, password }: IUserLogin = req.body;
+      const loginData: IUserLogin = req.body;
 
-      // Check if user exists
-      const user = await User.findByEmail(email);
-      if (!user) {
-        next(ApiError.unauthorized('Invalid credentials', 'INVALID_CREDENTIALS'));
+      // Verify credentials and issue tokens
+      const { user, accessToken, refreshToken } = await UserController.userService.login(loginData);
+
+      res.status(200).json({
+        success: true,
+        message: 'Login successful',
+        data: {
+          user,
+          accessToken,
+          refreshToken
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @route   POST /api/auth/refresh-token
+   * @desc    Exchange a refresh token for a new access token and refresh token
+   * @access  Public
+   */
+  static async refreshToken(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Check for validation errors
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        next(ApiError.badRequest('Validation error', 'VALIDATION_ERROR', errors.array()));
         return;
       }
 
-      // Check if password matches
-      const isMatch = await bcrypt.compare(password, user.password_hash);
-      if (!isMatch) {
-        next(ApiError.unauthorized('Invalid credentials', 'INVALID_CREDENTIALS'));
+      const tokens = await UserController.userService.refreshTokens(req.body.refresh_token);
+
+      res.status(200).json({
+        success: true,
+        message: 'Token refreshed successfully',
+        data: tokens
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @route   POST /api/auth/logout
+   * @desc    Logout user by revoking the refresh token
+   * @access  Public
+   */
+  static async logout(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Check for validation errors
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        next(ApiError.badRequest('Validation error', 'VALIDATION_ERROR', errors.array()));
         return;
       }
 
-      // Generate tokens
-      const tokens = generateTokens({
-        id: user.user_id,
-        username: user.username,
-        email: user.email,
-        role: user.role
+      await UserController.userService.logout(req.body.refresh_token);
+
+      res.status(200).json({
+        success: true,
+        message: 'Logged out successfully'
       });
+    } catch (error) {
+      next(error);
+    }
+  }
 
-      // Return user without password and tokens
-      const { password_hash, ...userWithoutPassword } = user;
+  /**
+   * @route   POST /api/auth/forgot-password
+   * @desc    Email a password reset link
+   * @access  Public
+   */
+  static async forgotPassword(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Check for validation errors
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        next(ApiError.badRequest('Validation error', 'VALIDATION_ERROR', errors.array()));
+        return;
+      }
 
+      await UserController.userService.initiatePasswordReset(req.body.email);
+
+      // Same response whether or not the email is registered
       res.status(200).json({
         success: true,
-        message: 'Login successful',
-        data: {
-          user: userWithoutPassword,
-          ...tokens
-        }
+        message: 'If an account exists for this email, a password reset link has been sent'
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @route   POST /api/auth/reset-password
+   * @desc    Set a new password using a reset token
+   * @access  Public
+   */
+  static async resetPassword(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Check for validation errors
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        next(ApiError.badRequest('Validation error', 'VALIDATION_ERROR', errors.array()));
+        return;
+      }
+
+      const { token, password } = req.body;
+      await UserController.userService.resetPassword(token, password);
+
+      res.status(200).json({
+        success: true,
+        message: 'Password has been reset successfully'
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @route   POST /api/auth/verify-email
+   * @desc    Verify email address using the token from a verification link
+   * @access  Public
+   */
+  static async verifyEmail(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Check for validation errors
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        next(ApiError.badRequest('Validation error', 'VALIDATION_ERROR', errors.array()));
+        return;
+      }
+
+      const user = await UserController.userService.verifyEmail(req.body.token);
+
+      res.status(200).json({
+        success: true,
+        message: 'Email verified successfully',
+        data: user
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @route   POST /api/auth/resend-verification
+   * @desc    Send a new email verification link to the current user
+   * @access  Private
+   */
+  static async resendVerification(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user || !req.user.id) {
+        next(ApiError.unauthorized('Not authorized', 'NOT_AUTHORIZED'));
+        return;
+      }
+
+      await UserController.userService.resendVerificationEmail(req.user.id);
+
+      res.status(200).json({
+        success: true,
+        message: 'Verification email sent'
       });
     } catch (error) {
       next(error);
@@ -146,8 +271,13 @@ export class UserController {
         return;
       }
       
-      // Update user
-      const updatedUser = await User.update(userId, req.body);
+      // Update user (re-sends verification if the email changes)
+      const updatedUser = await UserController.userService.updateUser(
+        userId,
+        req.body,
+        req.user.id,
+        req.user.role === 'admin'
+      );
       
       if (!updatedUser) {
         next(ApiError.notFound('User not found', 'USER_NOT_FOUND'));
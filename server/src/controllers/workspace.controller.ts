@@ -0,0 +1,291 @@
+import { Request, Response, NextFunction } from 'express';
+import { validationResult } from 'express-validator';
+import { ApiError } from '../utils/error.utils';
+import { IWorkspaceCreate, IWorkspaceUpdate, WorkspaceRole } from '../interfaces/workspace.interface';
+import { WorkspaceService } from '../services/workspace.service';
+
+/**
+ * Workspace Controller
+ * Handles HTTP requests related to workspaces and their members
+ */
+export class WorkspaceController {
+  private static workspaceService: WorkspaceService = new WorkspaceService();
+
+  /**
+   * @route   GET /api/workspaces
+   * @desc    Get the workspaces of the current user
+   * @access  Private
+   */
+  static async getAllWorkspaces(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user || !req.user.id) {
+        next(ApiError.unauthorized('Not authorized', 'NOT_AUTHORIZED'));
+        return;
+      }
+
+      const workspaces = await WorkspaceController.workspaceService.getUserWorkspaces(req.user.id);
+
+      res.status(200).json({
+        success: true,
+        count: workspaces.length,
+        data: workspaces
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @route   GET /api/workspaces/:id
+   * @desc    Get workspace by ID
+   * @access  Private (workspace members)
+   */
+  static async getWorkspaceById(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        next(ApiError.badRequest('Validation error', 'VALIDATION_ERROR', errors.array()));
+        return;
+      }
+
+      const workspace = await WorkspaceController.workspaceService.getWorkspaceById(parseInt(req.params.id));
+
+      if (!workspace) {
+        next(ApiError.notFound('Workspace not found', 'WORKSPACE_NOT_FOUND'));
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: { ...workspace, role: req.workspaceRole }
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @route   POST /api/workspaces
+   * @desc    Create new workspace owned by the current user
+   * @access  Private
+   */
+  static async createWorkspace(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        next(ApiError.badRequest('Validation error', 'VALIDATION_ERROR', errors.array()));
+        return;
+      }
+
+      if (!req.user || !req.user.id) {
+        next(ApiError.unauthorized('Not authorized', 'NOT_AUTHORIZED'));
+        return;
+      }
+
+      const workspaceData: IWorkspaceCreate = {
+        name: req.body.name,
+        created_by: req.user.id
+      };
+      const workspace = await WorkspaceController.workspaceService.createWorkspace(workspaceData);
+
+      res.status(201).json({
+        success: true,
+        message: 'Workspace created successfully',
+        data: workspace
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @route   PUT /api/workspaces/:id
+   * @desc    Update workspace
+   * @access  Private (workspace owner or admin)
+   */
+  static async updateWorkspace(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        next(ApiError.badRequest('Validation error', 'VALIDATION_ERROR', errors.array()));
+        return;
+      }
+
+      const workspaceData: IWorkspaceUpdate = {};
+      if (req.body.name !== undefined) {
+        workspaceData.name = req.body.name;
+      }
+      if (req.body.status_transitions !== undefined) {
+        workspaceData.status_transitions = req.body.status_transitions;
+      }
+
+      const workspace = await WorkspaceController.workspaceService.updateWorkspace(
+        parseInt(req.params.id),
+        workspaceData
+      );
+
+      if (!workspace) {
+        next(ApiError.notFound('Workspace not found', 'WORKSPACE_NOT_FOUND'));
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Workspace updated successfully',
+        data: workspace
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @route   DELETE /api/workspaces/:id
+   * @desc    Delete workspace with its tasks and categories
+   * @access  Private (workspace owner)
+   */
+  static async deleteWorkspace(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        next(ApiError.badRequest('Validation error', 'VALIDATION_ERROR', errors.array()));
+        return;
+      }
+
+      const deleted = await WorkspaceController.workspaceService.deleteWorkspace(parseInt(req.params.id));
+
+      if (!deleted) {
+        next(ApiError.notFound('Workspace not found', 'WORKSPACE_NOT_FOUND'));
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Workspace deleted successfully'
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @route   GET /api/workspaces/:id/members
+   * @desc    Get workspace members
+   * @access  Private (workspace members)
+   */
+  static async getMembers(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        next(ApiError.badRequest('Validation error', 'VALIDATION_ERROR', errors.array()));
+        return;
+      }
+
+      const members = await WorkspaceController.workspaceService.getMembers(parseInt(req.params.id));
+
+      res.status(200).json({
+        success: true,
+        count: members.length,
+        data: members
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @route   POST /api/workspaces/:id/members
+   * @desc    Add a member to a workspace
+   * @access  Private (workspace owner or admin)
+   */
+  static async addMember(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        next(ApiError.badRequest('Validation error', 'VALIDATION_ERROR', errors.array()));
+        return;
+      }
+
+      const member = await WorkspaceController.workspaceService.addMember(
+        parseInt(req.params.id),
+        {
+          user_id: parseInt(req.body.user_id),
+          role: req.body.role as WorkspaceRole | undefined
+        },
+        req.workspaceRole as WorkspaceRole
+      );
+
+      res.status(201).json({
+        success: true,
+        message: 'Member added successfully',
+        data: member
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @route   PATCH /api/workspaces/:id/members/:userId
+   * @desc    Change the role of a workspace member
+   * @access  Private (workspace owner or admin)
+   */
+  static async updateMemberRole(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        next(ApiError.badRequest('Validation error', 'VALIDATION_ERROR', errors.array()));
+        return;
+      }
+
+      const member = await WorkspaceController.workspaceService.updateMemberRole(
+        parseInt(req.params.id),
+        parseInt(req.params.userId),
+        req.body.role as WorkspaceRole,
+        req.workspaceRole as WorkspaceRole
+      );
+
+      res.status(200).json({
+        success: true,
+        message: 'Member role updated successfully',
+        data: member
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @route   DELETE /api/workspaces/:id/members/:userId
+   * @desc    Remove a member from a workspace (or leave it)
+   * @access  Private (workspace owner or admin, or the member themselves)
+   */
+  static async removeMember(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        next(ApiError.badRequest('Validation error', 'VALIDATION_ERROR', errors.array()));
+        return;
+      }
+
+      if (!req.user || !req.user.id) {
+        next(ApiError.unauthorized('Not authorized', 'NOT_AUTHORIZED'));
+        return;
+      }
+
+      await WorkspaceController.workspaceService.removeMember(
+        parseInt(req.params.id),
+        parseInt(req.params.userId),
+        req.user.id,
+        req.workspaceRole as WorkspaceRole
+      );
+
+      res.status(200).json({
+        success: true,
+        message: 'Member removed successfully'
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -4,6 +4,9 @@ import helmet from 'helmet';
 import morgan from 'morgan';
 import compression from 'compression';
 import { testConnection } from './config/database';
+import { startOutboxDispatcher } from './mailer';
+import { startReminderScheduler } from './reminders';
+import { startOverdueScanner } from './notifications';
 import { config } from './config/config';
 import apiRoutes from './routes';
 import testRoutes from './routes/test.routes';
@@ -58,6 +61,15 @@ const startServer = async () => {
       throw new Error('Failed to connect to the database');
     }
     console.log('Database connection has been established successfully.');
+
+    // Deliver queued email in the background
+    startOutboxDispatcher();
+
+    // Fire due task reminders in the background
+    startReminderScheduler();
+
+    // Tell users when their open tasks become overdue
+    startOverdueScanner();
     
     app.listen(PORT, () => {
       console.log(`Server running on port ${PORT}`);
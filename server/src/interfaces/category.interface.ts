@@ -1,8 +1,30 @@
 export interface ICategory {
   category_id: number;
+  user_id: number;
+  workspace_id?: number | null;
   name: string;
+  color: string;
+  icon?: string;
+  is_default: boolean;
+  created_at: Date;
 }
 
 export interface ICategoryCreate {
+  user_id: number;
+  workspace_id?: number;
   name: string;
-}
\ No newline at end of file
+  color?: string;
+  icon?: string;
+  is_default?: boolean;
+}
+
+export interface ICategoryUpdate {
+  name?: string;
+  color?: string;
+  icon?: string | null;
+}
+
+export interface ICategoryDeleteResult {
+  deleted: boolean;
+  affected_tasks: number;
+}
@@ -0,0 +1,30 @@
+import { IBaseRepository } from './repository.interface';
+import { ICategory, ICategoryCreate, ICategoryDeleteResult } from './category.interface';
+
+/**
+ * Category Repository Interface
+ * Extends base repository with category-specific operations
+ */
+export interface ICategoryRepository extends IBaseRepository<ICategory, number, ICategoryCreate> {
+  /**
+   * Find the categories a user can access: their personal categories and the categories of their workspaces
+   * @param userId User ID
+   * @param filter Optional filter criteria
+   * @returns Promise resolving to array of categories
+   */
+  findByUserId(userId: number, filter?: Partial<ICategory>): Promise<ICategory[]>;
+
+  /**
+   * Create the default categories for a newly registered user
+   * @param userId User ID
+   * @returns Promise resolving to the created categories
+   */
+  createDefaults(userId: number): Promise<ICategory[]>;
+
+  /**
+   * Delete a category and report how many tasks lost their category
+   * @param id Category ID
+   * @returns Promise resolving to deletion result with affected task count
+   */
+  deleteWithTaskCount(id: number): Promise<ICategoryDeleteResult>;
+}
@@ -0,0 +1,21 @@
+export interface IChecklistItem {
+  item_id: number;
+  task_id: number;
+  content: string;
+  is_done: boolean;
+  position: number;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface IChecklistItemCreate {
+  task_id: number;
+  content: string;
+  position?: number; // defaults to the end of the checklist
+}
+
+export interface IChecklistItemUpdate {
+  content?: string;
+  is_done?: boolean;
+  position?: number;
+}
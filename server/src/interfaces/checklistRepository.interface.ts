@@ -0,0 +1,38 @@
+import { IChecklistItem, IChecklistItemCreate, IChecklistItemUpdate } from './checklist.interface';
+
+/**
+ * Checklist Repository Interface
+ * Defines storage operations for the checklist items of tasks
+ */
+export interface IChecklistRepository {
+  /**
+   * Find the checklist items of a task
+   * @param taskId Task ID
+   * @returns Promise resolving to the items in checklist order
+   */
+  findByTask(taskId: number): Promise<IChecklistItem[]>;
+
+  /**
+   * Add an item to the checklist of a task
+   * @param data Item data
+   * @returns Promise resolving to the created item
+   */
+  create(data: IChecklistItemCreate): Promise<IChecklistItem>;
+
+  /**
+   * Update an item of a task's checklist
+   * @param itemId Item ID
+   * @param taskId Task ID
+   * @param data Item data to update
+   * @returns Promise resolving to the updated item or null if not found
+   */
+  update(itemId: number, taskId: number, data: IChecklistItemUpdate): Promise<IChecklistItem | null>;
+
+  /**
+   * Delete an item of a task's checklist
+   * @param itemId Item ID
+   * @param taskId Task ID
+   * @returns Promise resolving to true if an item was deleted
+   */
+  delete(itemId: number, taskId: number): Promise<boolean>;
+}
@@ -0,0 +1,19 @@
+export interface IEmailOutboxMessage {
+  email_id: number;
+  recipient: string;
+  subject: string;
+  text_body: string;
+  html_body?: string | null;
+  status: EmailStatus;
+  attempts: number;
+  next_attempt_at: Date;
+  last_error?: string | null;
+  created_at: Date;
+  sent_at?: Date | null;
+}
+
+export enum EmailStatus {
+  PENDING = 'pending',
+  SENT = 'sent',
+  FAILED = 'failed'
+}
@@ -0,0 +1,39 @@
+import { IEmailOutboxMessage } from './emailOutbox.interface';
+import { IMailMessage } from './mailer.interface';
+
+/**
+ * Email Outbox Repository Interface
+ * Defines storage operations for queued outbound email
+ */
+export interface IEmailOutboxRepository {
+  /**
+   * Queue a message for delivery
+   * @param message Rendered message
+   * @returns Promise resolving to the queued outbox entry
+   */
+  enqueue(message: IMailMessage): Promise<IEmailOutboxMessage>;
+
+  /**
+   * Claim pending messages that are due for a delivery attempt
+   * @param limit Maximum number of messages to claim
+   * @param leaseMs How long the claimed messages are hidden from other workers
+   * @returns Promise resolving to the claimed messages
+   */
+  claimDue(limit: number, leaseMs: number): Promise<IEmailOutboxMessage[]>;
+
+  /**
+   * Mark a message as delivered
+   * @param emailId Outbox entry ID
+   * @returns Promise resolving when the entry is updated
+   */
+  markSent(emailId: number): Promise<void>;
+
+  /**
+   * Record a failed delivery attempt
+   * @param emailId Outbox entry ID
+   * @param errorMessage Error message of the attempt
+   * @param nextAttemptAt When to retry, or null to give up
+   * @returns Promise resolving when the entry is updated
+   */
+  markFailed(emailId: number, errorMessage: string, nextAttemptAt: Date | null): Promise<void>;
+}
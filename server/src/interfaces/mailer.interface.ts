@@ -0,0 +1,63 @@
+export interface IMailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/**
+ * Names of the available email templates
+ */
+export type MailTemplateName = 'password_reset' | 'email_verification' | 'task_reminder' | 'notification';
+
+/**
+ * Values substituted into a template's {{placeholders}}
+ */
+export type MailTemplateData = Record<string, string | number>;
+
+export interface IMailTemplate {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export interface IMailTemplateOptions {
+  to: string;
+  locale?: string;
+  data: MailTemplateData;
+}
+
+/**
+ * Mailer Interface
+ * Renders and queues outbound email
+ */
+export interface IMailer {
+  /**
+   * Send an email message
+   * @param message Message to send
+   * @returns Promise resolving once the message has been queued
+   */
+  send(message: IMailMessage): Promise<void>;
+
+  /**
+   * Render a template in the recipient's locale and send it
+   * @param template Template name
+   * @param options Recipient, locale and template data
+   * @returns Promise resolving once the message has been queued
+   */
+  sendTemplate(template: MailTemplateName, options: IMailTemplateOptions): Promise<void>;
+}
+
+/**
+ * Mail Transport Interface
+ * Delivers a rendered message (to disk, memory or an SMTP server)
+ */
+export interface IMailTransport {
+  /**
+   * Deliver a message
+   * @param message Rendered message
+   * @returns Promise resolving once the message has been delivered
+   * @throws Error if delivery fails
+   */
+  deliver(message: IMailMessage): Promise<void>;
+}
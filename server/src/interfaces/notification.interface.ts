@@ -0,0 +1,73 @@
+export interface INotification {
+  notification_id: number;
+  user_id: number;
+  type: NotificationType;
+  title: string;
+  body: string | null;
+  task_id: number | null;
+  read_at: Date | null;
+  created_at: Date;
+}
+
+export interface INotificationCreate {
+  user_id: number;
+  type: NotificationType;
+  title: string;
+  body?: string | null;
+  task_id?: number | null;
+}
+
+export interface INotificationQuery {
+  unread?: boolean;
+  limit?: number;
+  before?: number; // notification ID; returns older notifications
+}
+
+export interface INotificationPage {
+  notifications: INotification[];
+  unread_count: number;
+}
+
+/**
+ * Whether a user receives one type of notification on one channel
+ */
+export interface INotificationPreference {
+  type: NotificationType;
+  channel: NotificationChannel;
+  enabled: boolean;
+}
+
+/**
+ * An open task that became overdue, with one of the users to tell
+ */
+export interface IOverdueTask {
+  task_id: number;
+  user_id: number; // owner or assignee
+  title: string;
+  due_date: string; // YYYY-MM-DD
+}
+
+export enum NotificationType {
+  REMINDER = 'reminder',
+  ASSIGNMENT = 'assignment',
+  OVERDUE = 'overdue',
+  MENTION = 'mention'
+}
+
+export enum NotificationChannel {
+  IN_APP = 'in_app',
+  EMAIL = 'email'
+}
+
+/**
+ * Notifier Interface
+ * Tells a user about an event on the channels they enabled for its type
+ */
+export interface INotifier {
+  /**
+   * Notify a user
+   * @param data Notification to deliver
+   * @returns Promise resolving once the notification is stored and queued; failures are logged only
+   */
+  notify(data: INotificationCreate): Promise<void>;
+}
@@ -0,0 +1,72 @@
+import {
+  INotification,
+  INotificationCreate,
+  INotificationPreference,
+  INotificationQuery,
+  IOverdueTask
+} from './notification.interface';
+
+/**
+ * Notification Repository Interface
+ * Defines storage operations for in-app notifications and notification preferences
+ */
+export interface INotificationRepository {
+  /**
+   * Create a notification
+   * @param data Notification data
+   * @returns Promise resolving to the created notification
+   */
+  create(data: INotificationCreate): Promise<INotification>;
+
+  /**
+   * Find the notifications of a user, newest first
+   * @param userId User ID
+   * @param query Unread filter, page size and position
+   * @returns Promise resolving to the notifications
+   */
+  findByUser(userId: number, query: INotificationQuery): Promise<INotification[]>;
+
+  /**
+   * Count the unread notifications of a user
+   * @param userId User ID
+   * @returns Promise resolving to the number of unread notifications
+   */
+  countUnread(userId: number): Promise<number>;
+
+  /**
+   * Mark a notification of a user as read
+   * @param notificationId Notification ID
+   * @param userId User ID
+   * @returns Promise resolving to the notification or null if not found
+   */
+  markRead(notificationId: number, userId: number): Promise<INotification | null>;
+
+  /**
+   * Mark all notifications of a user as read
+   * @param userId User ID
+   * @returns Promise resolving to the number of notifications marked
+   */
+  markAllRead(userId: number): Promise<number>;
+
+  /**
+   * Get the preferences a user saved
+   * @param userId User ID
+   * @returns Promise resolving to the saved preferences (defaults apply to the others)
+   */
+  getPreferences(userId: number): Promise<INotificationPreference[]>;
+
+  /**
+   * Save preferences of a user
+   * @param userId User ID
+   * @param preferences Preferences to save
+   * @returns Promise resolving when the preferences are saved
+   */
+  savePreferences(userId: number, preferences: INotificationPreference[]): Promise<void>;
+
+  /**
+   * Claim open tasks that became overdue since they were last announced
+   * @param limit Maximum number of tasks to claim
+   * @returns Promise resolving to the claimed tasks, once per owner and assignee
+   */
+  claimOverdue(limit: number): Promise<IOverdueTask[]>;
+}
@@ -0,0 +1,14 @@
+export interface IPasswordResetToken {
+  reset_token_id: number;
+  user_id: number;
+  token_hash: string;
+  expires_at: Date;
+  used_at?: Date | null;
+  created_at: Date;
+}
+
+export interface IPasswordResetTokenCreate {
+  user_id: number;
+  token_hash: string;
+  expires_at: Date;
+}
@@ -0,0 +1,30 @@
+import { PoolClient } from 'pg';
+import { IPasswordResetToken, IPasswordResetTokenCreate } from './passwordReset.interface';
+
+/**
+ * Password Reset Repository Interface
+ * Defines storage operations for hashed password reset tokens
+ */
+export interface IPasswordResetRepository {
+  /**
+   * Store a new password reset token
+   * @param data Reset token data (hash only)
+   * @returns Promise resolving to stored reset token
+   */
+  create(data: IPasswordResetTokenCreate): Promise<IPasswordResetToken>;
+
+  /**
+   * Mark an unused, unexpired token as used
+   * @param tokenHash SHA-256 hash of the reset token
+   * @param client Database client of a surrounding transaction, if any
+   * @returns Promise resolving to the consumed token or null if none matched
+   */
+  consume(tokenHash: string, client?: PoolClient): Promise<IPasswordResetToken | null>;
+
+  /**
+   * Mark every outstanding reset token of a user as used
+   * @param userId User ID
+   * @returns Promise resolving to number of invalidated tokens
+   */
+  invalidateForUser(userId: number): Promise<number>;
+}
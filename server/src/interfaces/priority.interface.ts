@@ -1,8 +1,15 @@
 export interface IPriority {
   priority_id: number;
   name: string;
+  rank: number;
 }
 
 export interface IPriorityCreate {
   name: string;
-}
\ No newline at end of file
+  rank?: number;
+}
+
+export interface IPriorityUpdate {
+  name?: string;
+  rank?: number;
+}
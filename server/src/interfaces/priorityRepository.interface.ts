@@ -0,0 +1,15 @@
+import { IBaseRepository } from './repository.interface';
+import { IPriority, IPriorityCreate } from './priority.interface';
+
+/**
+ * Priority Repository Interface
+ * Extends base repository with priority-specific operations
+ */
+export interface IPriorityRepository extends IBaseRepository<IPriority, number, IPriorityCreate> {
+  /**
+   * Find priority by name
+   * @param name Priority name
+   * @returns Promise resolving to priority or null if not found
+   */
+  findByName(name: string): Promise<IPriority | null>;
+}
@@ -0,0 +1,25 @@
+export interface IRefreshToken {
+  token_id: string;
+  user_id: number;
+  family_id: string;
+  replaced_by?: string | null;
+  created_at: Date;
+  rotated_at?: Date | null;
+  revoked_at?: Date | null;
+}
+
+export interface IRefreshTokenCreate {
+  token_id: string;
+  user_id: number;
+  family_id: string;
+}
+
+/**
+ * Outcome of exchanging a stored refresh token for its successor
+ */
+export type RefreshTokenRotationStatus = 'rotated' | 'reused' | 'revoked' | 'not_found';
+
+export interface IRefreshTokenRotation {
+  status: RefreshTokenRotationStatus;
+  token?: IRefreshToken;
+}
@@ -0,0 +1,52 @@
+import { PoolClient } from 'pg';
+import { IRefreshToken, IRefreshTokenCreate, IRefreshTokenRotation } from './refreshToken.interface';
+
+/**
+ * Refresh Token Repository Interface
+ * Defines storage operations for issued refresh tokens
+ */
+export interface IRefreshTokenRepository {
+  /**
+   * Find a refresh token by its token ID (jti claim)
+   * @param tokenId Token ID
+   * @returns Promise resolving to refresh token or null if not found
+   */
+  findById(tokenId: string): Promise<IRefreshToken | null>;
+
+  /**
+   * Store a newly issued refresh token
+   * @param data Refresh token data
+   * @returns Promise resolving to stored refresh token
+   */
+  create(data: IRefreshTokenCreate): Promise<IRefreshToken>;
+
+  /**
+   * Exchange a refresh token for its successor
+   * @param tokenId ID of the token being used
+   * @param next Successor token to store in the same family
+   * @returns Promise resolving to the rotation outcome
+   */
+  rotate(tokenId: string, next: IRefreshTokenCreate): Promise<IRefreshTokenRotation>;
+
+  /**
+   * Revoke a single refresh token
+   * @param tokenId Token ID
+   * @returns Promise resolving to boolean indicating if a token was revoked
+   */
+  revoke(tokenId: string): Promise<boolean>;
+
+  /**
+   * Revoke every active token in a family
+   * @param familyId Family ID
+   * @returns Promise resolving to number of revoked tokens
+   */
+  revokeFamily(familyId: string): Promise<number>;
+
+  /**
+   * Revoke every active token of a user
+   * @param userId User ID
+   * @param client Database client of a surrounding transaction, if any
+   * @returns Promise resolving to number of revoked tokens
+   */
+  revokeAllForUser(userId: number, client?: PoolClient): Promise<number>;
+}
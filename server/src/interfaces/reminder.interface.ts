@@ -0,0 +1,85 @@
+import { StatusCategory } from './status.interface';
+
+export interface IReminder {
+  reminder_id: number;
+  task_id: number;
+  user_id: number; // recipient
+  remind_at: Date | null; // absolute time, or null for a reminder relative to the due date
+  offset_minutes: number | null; // minutes before the start of the due day
+  fire_at: Date | null; // when the reminder fires; null while a relative reminder's task has no due date
+  channels: ReminderChannel[];
+  status: ReminderStatus;
+  delivered_channels: ReminderChannel[];
+  attempts: number;
+  last_error?: string | null;
+  sent_at?: Date | null;
+  created_at: Date;
+}
+
+/**
+ * A reminder is either absolute (remind_at) or relative to the due date (offset_minutes)
+ */
+export interface IReminderCreate {
+  task_id: number;
+  user_id: number;
+  remind_at?: Date;
+  offset_minutes?: number;
+  channels?: ReminderChannel[];
+}
+
+/**
+ * A claimed reminder with what its channels need to deliver it
+ */
+export interface IDueReminder extends IReminder {
+  task_title: string;
+  task_due_date: string | null; // YYYY-MM-DD
+  task_status_category: StatusCategory | null;
+  username: string;
+  email: string;
+  webhook_url: string | null;
+}
+
+/**
+ * Reminder defaults of a user, added to the tasks they own whenever a due date is set
+ */
+export interface IReminderSettings {
+  user_id: number;
+  default_offsets: number[]; // minutes before the due day
+  default_channels: ReminderChannel[];
+  webhook_url: string | null;
+  updated_at?: Date;
+}
+
+export type IReminderSettingsUpdate = Partial<Omit<IReminderSettings, 'user_id' | 'updated_at'>>;
+
+export enum ReminderChannel {
+  IN_APP = 'in_app',
+  EMAIL = 'email',
+  WEBHOOK = 'webhook'
+}
+
+export enum ReminderStatus {
+  PENDING = 'pending',
+  SENT = 'sent',
+  SKIPPED = 'skipped', // the task was done or cancelled when the reminder fired
+  FAILED = 'failed'
+}
+
+/**
+ * Reminder Notifier Interface
+ * Delivers a fired reminder on one channel
+ */
+export interface IReminderNotifier {
+  /**
+   * Channel this notifier delivers on
+   */
+  readonly channel: ReminderChannel;
+
+  /**
+   * Deliver a reminder
+   * @param reminder Claimed reminder with its task and recipient
+   * @returns Promise resolving once the reminder has been delivered
+   * @throws Error if delivery fails
+   */
+  deliver(reminder: IDueReminder): Promise<void>;
+}
@@ -0,0 +1,110 @@
+import { PoolClient } from 'pg';
+import {
+  IDueReminder,
+  IReminder,
+  IReminderCreate,
+  IReminderSettings,
+  IReminderSettingsUpdate,
+  ReminderChannel
+} from './reminder.interface';
+
+/**
+ * Reminder Repository Interface
+ * Defines storage operations for task reminders, the reminder defaults of users
+ * and the delivery state polled by the reminder scheduler
+ */
+export interface IReminderRepository {
+  /**
+   * Find the reminders a user set on a task
+   * @param taskId Task ID
+   * @param userId Recipient ID
+   * @returns Promise resolving to the reminders, soonest first
+   */
+  findByTask(taskId: number, userId: number): Promise<IReminder[]>;
+
+  /**
+   * Create a reminder
+   * @param data Reminder data
+   * @returns Promise resolving to the created reminder
+   */
+  create(data: IReminderCreate): Promise<IReminder>;
+
+  /**
+   * Delete a reminder of a user
+   * @param reminderId Reminder ID
+   * @param taskId Task ID
+   * @param userId Recipient ID
+   * @returns Promise resolving to true if a reminder was deleted
+   */
+  delete(reminderId: number, taskId: number, userId: number): Promise<boolean>;
+
+  /**
+   * Get the reminder defaults of a user
+   * @param userId User ID
+   * @returns Promise resolving to the settings (empty defaults when never saved)
+   */
+  getSettings(userId: number): Promise<IReminderSettings>;
+
+  /**
+   * Save the reminder defaults of a user
+   * @param userId User ID
+   * @param data Settings to change
+   * @returns Promise resolving to the saved settings
+   */
+  updateSettings(userId: number, data: IReminderSettingsUpdate): Promise<IReminderSettings>;
+
+  /**
+   * Add the default reminders of a task's owner within the transaction creating the task
+   * @param client Client of the open transaction
+   * @param taskId Task ID
+   * @returns Promise resolving when the reminders are added
+   */
+  createDefaults(client: PoolClient, taskId: number): Promise<void>;
+
+  /**
+   * Move the reminders relative to a task's due date after the due date changed
+   * @param client Client of the open transaction
+   * @param taskId Task ID
+   * @returns Promise resolving when the reminders are moved
+   */
+  reschedule(client: PoolClient, taskId: number): Promise<void>;
+
+  /**
+   * Claim pending reminders that are due
+   * @param limit Maximum number of reminders to claim
+   * @param leaseMs Time before an undelivered claimed reminder can be claimed again
+   * @returns Promise resolving to the claimed reminders with their task and recipient
+   */
+  claimDue(limit: number, leaseMs: number): Promise<IDueReminder[]>;
+
+  /**
+   * Record that a channel delivered a reminder, so a retry does not deliver it again
+   * @param reminderId Reminder ID
+   * @param channel Channel
+   * @returns Promise resolving when the delivery is recorded
+   */
+  markChannelDelivered(reminderId: number, channel: ReminderChannel): Promise<void>;
+
+  /**
+   * Mark a reminder as delivered on all its channels
+   * @param reminderId Reminder ID
+   * @returns Promise resolving when the reminder is updated
+   */
+  markSent(reminderId: number): Promise<void>;
+
+  /**
+   * Mark a reminder whose task was closed when it fired
+   * @param reminderId Reminder ID
+   * @returns Promise resolving when the reminder is updated
+   */
+  markSkipped(reminderId: number): Promise<void>;
+
+  /**
+   * Record a failed delivery attempt
+   * @param reminderId Reminder ID
+   * @param errorMessage Error message of the attempt
+   * @param nextAttemptAt When to retry, or null to mark the reminder as failed
+   * @returns Promise resolving when the reminder is updated
+   */
+  markFailed(reminderId: number, errorMessage: string, nextAttemptAt: Date | null): Promise<void>;
+}
@@ -0,0 +1,9 @@
+/**
+ * Application-wide settings managed by admins
+ */
+export interface IAppSettings {
+  // Users must verify their email address before they can create tasks
+  require_verified_email_for_tasks: boolean;
+}
+
+export type AppSettingKey = keyof IAppSettings;
@@ -0,0 +1,27 @@
+import { AppSettingKey, IAppSettings } from './settings.interface';
+
+/**
+ * Settings Repository Interface
+ * Defines storage operations for application settings
+ */
+export interface ISettingsRepository {
+  /**
+   * Get all settings, with defaults for settings that were never stored
+   * @returns Promise resolving to the application settings
+   */
+  getAll(): Promise<IAppSettings>;
+
+  /**
+   * Get a single setting
+   * @param key Setting name
+   * @returns Promise resolving to the setting value
+   */
+  get<K extends AppSettingKey>(key: K): Promise<IAppSettings[K]>;
+
+  /**
+   * Store new values for some settings
+   * @param settings Settings to change
+   * @returns Promise resolving to the updated application settings
+   */
+  update(settings: Partial<IAppSettings>): Promise<IAppSettings>;
+}
@@ -0,0 +1,36 @@
+export interface IStatus {
+  status_id: number;
+  workspace_id: number | null; // NULL for built-in statuses available to every task
+  key: string; // value stored in tasks.status
+  name: string;
+  category: StatusCategory;
+  position: number;
+  color: string;
+  created_at: Date;
+}
+
+export interface IStatusCreate {
+  workspace_id: number;
+  key?: string; // derived from the name when omitted
+  name: string;
+  category: StatusCategory;
+  position?: number;
+  color?: string;
+}
+
+export interface IStatusUpdate {
+  name?: string;
+  position?: number;
+  color?: string;
+}
+
+/**
+ * Kind of a status; workflow rules, completion tracking and due date reminders
+ * depend on the category rather than on the status itself
+ */
+export enum StatusCategory {
+  TODO = 'todo',
+  IN_PROGRESS = 'in_progress',
+  DONE = 'done',
+  CANCELLED = 'cancelled'
+}
@@ -0,0 +1,23 @@
+import { IBaseRepository } from './repository.interface';
+import { IStatus, IStatusCreate } from './status.interface';
+
+/**
+ * Status Repository Interface
+ * Extends base repository with status-specific operations
+ */
+export interface IStatusRepository extends IBaseRepository<IStatus, number, IStatusCreate> {
+  /**
+   * Find the statuses available to tasks: the built-in ones and those of a workspace
+   * @param workspaceId Workspace ID (null for personal tasks)
+   * @returns Promise resolving to array of statuses ordered by position
+   */
+  findAvailable(workspaceId: number | null): Promise<IStatus[]>;
+
+  /**
+   * Find a status available to tasks by its key
+   * @param key Status key
+   * @param workspaceId Workspace ID (null for personal tasks)
+   * @returns Promise resolving to status or null if not found
+   */
+  findByKey(key: string, workspaceId: number | null): Promise<IStatus | null>;
+}
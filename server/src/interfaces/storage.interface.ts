@@ -0,0 +1,28 @@
+/**
+ * Storage Driver Interface
+ * Stores file contents under a key (on local disk, in memory or in an S3-compatible bucket)
+ */
+export interface IStorageDriver {
+  /**
+   * Store contents under a key, replacing any contents already stored there
+   * @param key Storage key
+   * @param data File contents
+   * @param contentType MIME type of the contents
+   * @returns Promise resolving once the contents are stored
+   */
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+
+  /**
+   * Read the contents stored under a key
+   * @param key Storage key
+   * @returns Promise resolving to the contents or null if nothing is stored under the key
+   */
+  get(key: string): Promise<Buffer | null>;
+
+  /**
+   * Remove the contents stored under a key; removing a missing key is not an error
+   * @param key Storage key
+   * @returns Promise resolving once the contents are removed
+   */
+  delete(key: string): Promise<void>;
+}
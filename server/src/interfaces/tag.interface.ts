@@ -0,0 +1,35 @@
+export interface ITag {
+  tag_id: number;
+  user_id: number; // owner of a personal tag, creator of a workspace tag
+  workspace_id?: number | null;
+  name: string;
+  task_count?: number; // tasks carrying the tag, in listings
+  created_at: Date;
+}
+
+export interface ITagQuery {
+  prefix?: string; // case-insensitive start of the name, for autocomplete
+  workspace_id?: number;
+  limit?: number;
+}
+
+export interface ITagUpdate {
+  name: string;
+}
+
+/**
+ * Tag names of a task before and after they were set
+ */
+export interface ITaskTagChange {
+  from: string[];
+  to: string[];
+}
+
+/**
+ * Task a set of tags is applied to; tags are looked up in the task's scope
+ */
+export interface ITaggedTask {
+  task_id: number;
+  user_id: number;
+  workspace_id?: number | null;
+}
@@ -0,0 +1,57 @@
+import { PoolClient } from 'pg';
+import { ITag, ITaggedTask, ITagQuery, ITaskTagChange } from './tag.interface';
+
+/**
+ * Tag Repository Interface
+ * Defines storage operations for tags and the tags of tasks
+ */
+export interface ITagRepository {
+  /**
+   * Find the tags a user can access: their personal tags and the tags of their workspaces
+   * @param userId User ID
+   * @param queryParams Optional prefix, workspace and limit
+   * @returns Promise resolving to tags with their task counts
+   */
+  findByUserId(userId: number, queryParams?: ITagQuery): Promise<ITag[]>;
+
+  /**
+   * Find a tag by ID
+   * @param id Tag ID
+   * @returns Promise resolving to the tag or null if not found
+   */
+  findById(id: number): Promise<ITag | null>;
+
+  /**
+   * Rename a tag
+   * @param id Tag ID
+   * @param name New name
+   * @returns Promise resolving to the renamed tag or null if not found
+   */
+  rename(id: number, name: string): Promise<ITag | null>;
+
+  /**
+   * Move the tasks of a tag to another tag of the same scope and delete it
+   * @param sourceId ID of the tag merged away
+   * @param targetId ID of the tag kept
+   * @returns Promise resolving to the kept tag with its task count
+   */
+  merge(sourceId: number, targetId: number): Promise<ITag>;
+
+  /**
+   * Delete a tag; tasks carrying it keep their other tags
+   * @param id Tag ID
+   * @returns Promise resolving to whether a tag was deleted
+   */
+  delete(id: number): Promise<boolean>;
+
+  /**
+   * Replace the tags of a task within the transaction making the change
+   * Missing tags are created in the task's scope
+   * @param client Client of the open transaction
+   * @param task Task to tag
+   * @param names Tag names
+   * @param actorId ID of the user tagging the task
+   * @returns Promise resolving to the tag names before and after the change
+   */
+  setTaskTags(client: PoolClient, task: ITaggedTask, names: string[], actorId: number | null): Promise<ITaskTagChange>;
+}
@@ -1,23 +1,60 @@
+import { ITaskAssignee } from './taskAssignment.interface';
+import { StatusCategory } from './status.interface';
+import { IRecurrenceRule } from './taskSeries.interface';
+
 export interface ITask {
   task_id: number;
   user_id: number;
+  workspace_id?: number | null;
+  parent_task_id?: number | null; // parent of a subtask
   category_id?: number;
   priority_id?: number;
   title: string;
   description?: string;
   due_date?: Date;
-  status: TaskStatus;
+  status: string; // key of a built-in or workspace status
+  status_category?: StatusCategory;
+  completed_at?: Date | null;
+  cancelled_at?: Date | null;
+  cancellation_reason?: string | null;
+  archived_at?: Date | null; // archived tasks are left out of listings
+  series_id?: number | null; // series of a recurring task
+  recurrence?: IRecurrenceRule | null; // rule of the series
+  assignees?: ITaskAssignee[];
+  tags?: string[]; // tag names, sorted
+  subtask_progress?: ITaskProgress; // direct subtasks, cancelled ones left out
+  checklist_progress?: ITaskProgress;
   created_at: Date;
   updated_at: Date;
 }
 
+/**
+ * How many of the subtasks or checklist items of a task are done
+ */
+export interface ITaskProgress {
+  total: number;
+  done: number;
+}
+
+export interface ITaskSearchResult extends ITask {
+  rank: number;
+  highlights: {
+    title: string;
+    description: string | null;
+  };
+}
+
 export interface ITaskCreate {
   user_id: number;
+  workspace_id?: number;
+  parent_task_id?: number; // makes the task a subtask; it joins the parent's workspace
   title: string;
   description?: string;
   category_id?: number;
   priority_id?: number;
   due_date?: Date;
+  recurrence?: IRecurrenceRule; // makes the task the first occurrence of a series; needs a due date
+  tags?: string[]; // tag names of the task's scope; missing tags are created
 }
 
 export interface ITaskUpdate {
@@ -26,17 +63,125 @@ export interface ITaskUpdate {
   category_id?: number;
   priority_id?: number;
   due_date?: Date;
-  status?: TaskStatus;
+  status?: string;
+  recurrence?: IRecurrenceRule | null; // null stops the series
+  parent_task_id?: number | null; // null makes a subtask a top-level task
+  tags?: string[]; // replaces the tags of the task; [] removes them all
 }
 
 export interface ITaskQuery {
+  workspace_id?: number;
   priority_id?: number;
   category_id?: number;
-  status?: TaskStatus;
+  status?: string;
   due_date?: Date;
   search?: string;
+  tags?: string[]; // tag names, matched ignoring case
+  tags_match?: 'any' | 'all'; // whether tasks need one of the tags (default) or all of them
+  archived?: boolean; // lists the archived tasks instead of the others
+  sort_by?: TaskSortField;
+  sort_order?: 'asc' | 'desc';
+  sort?: ITaskSort[];
+  limit?: number;
+  cursor?: string;
+  fields?: TaskField[];
+  filters?: ITaskFilter[];
+}
+
+/**
+ * A condition on task listings; all conditions of a query must match
+ */
+export interface ITaskFilter {
+  field: TaskFilterField;
+  operator: TaskFilterOperator;
+  values?: Array<string | number | null>; // for 'in'; null matches an empty field
+  value?: string | number | Date; // for comparisons, 'on' and 'contains'
+  negate?: boolean;
+}
+
+export type TaskFilterField =
+  | 'status'
+  | 'status_category'
+  | 'priority'
+  | 'priority_id'
+  | 'category_id'
+  | 'due_date'
+  | 'created_at'
+  | 'updated_at'
+  | 'text';
+
+export type TaskFilterOperator = 'in' | 'is_null' | 'on' | 'lt' | 'lte' | 'gt' | 'gte' | 'contains';
+
+export interface ITaskSort {
+  field: TaskSortField;
+  direction: 'asc' | 'desc';
+}
+
+export interface ITaskPage {
+  tasks: Partial<ITask>[];
+  total: number;
+  next_cursor: string | null;
+}
+
+export type TaskSortField = 'due_date' | 'priority' | 'created_at' | 'updated_at' | 'title' | 'status';
+
+export type TaskField = keyof ITask;
+
+export type TaskAction = 'view' | 'edit' | 'change_status' | 'comment' | 'delete';
+
+export type TaskBulkOperationType = 'update' | 'change_status' | 'delete' | 'archive' | 'unarchive' | 'assign';
+
+/**
+ * Tasks a bulk operation applies to: listed by ID or selected by a listing query
+ */
+export interface ITaskBulkTarget {
+  task_ids?: number[];
+  query?: ITaskQuery;
+}
+
+/**
+ * Operation applied to every task of a bulk request
+ */
+export interface ITaskBulkOperation {
+  type: TaskBulkOperationType;
+  fields?: ITaskUpdate; // for 'update'
+  status?: string; // for 'change_status'
+  reason?: string | null;
+  subtasks?: SubtaskCompletion;
+  force?: boolean;
+  user_id?: number; // for 'assign'
+}
+
+/**
+ * Outcome of a bulk operation for one task
+ */
+export interface ITaskBulkResult {
+  task_id: number;
+  success: boolean;
+  task?: ITask; // the changed task; left out for deletions
+  error?: {
+    message: string;
+    code: string;
+    status: number;
+  };
+}
+
+/**
+ * Status transition graph: the status categories each category can change to
+ */
+export type TaskStatusTransitions = Partial<Record<StatusCategory, StatusCategory[]>>;
+
+/**
+ * What completing a task does to its open subtasks
+ */
+export enum SubtaskCompletion {
+  REJECT = 'reject', // the task cannot be completed while subtasks are open
+  CASCADE = 'cascade' // open subtasks are completed with it
 }
 
+/**
+ * Keys of the built-in statuses every task can use
+ */
 export enum TaskStatus {
   PENDING = 'pending',
   IN_PROGRESS = 'in_progress',
@@ -0,0 +1,13 @@
+export interface ITaskAssignment {
+  assignment_id: number;
+  task_id: number;
+  user_id: number;
+  assigned_at: Date;
+}
+
+export interface ITaskAssignee {
+  user_id: number;
+  username: string;
+  email: string;
+  assigned_at: Date;
+}
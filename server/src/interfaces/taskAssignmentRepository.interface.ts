@@ -0,0 +1,25 @@
+import { ITaskAssignment } from './taskAssignment.interface';
+
+/**
+ * Task Assignment Repository Interface
+ * Defines storage operations for users assigned to tasks
+ */
+export interface ITaskAssignmentRepository {
+  /**
+   * Assign a user to a task and record it in the task history
+   * @param taskId Task ID
+   * @param userId ID of the user to assign
+   * @param actorId ID of the user making the assignment
+   * @returns Promise resolving to the created assignment
+   */
+  assign(taskId: number, userId: number, actorId?: number | null): Promise<ITaskAssignment>;
+
+  /**
+   * Remove a user from a task and record it in the task history
+   * @param taskId Task ID
+   * @param userId ID of the user to unassign
+   * @param actorId ID of the user removing the assignment
+   * @returns Promise resolving to boolean indicating if the user was assigned
+   */
+  unassign(taskId: number, userId: number, actorId?: number | null): Promise<boolean>;
+}
@@ -0,0 +1,45 @@
+export interface ITaskAttachment {
+  attachment_id: number;
+  task_id: number;
+  user_id: number | null;
+  username: string | null;
+  file_name: string;
+  mime_type: string;
+  size_bytes: number;
+  sha256: string; // checksum of the contents, which are stored once however often they are attached
+  created_at: Date;
+}
+
+export interface ITaskAttachmentCreate {
+  task_id: number;
+  user_id: number;
+  file_name: string;
+  mime_type: string;
+  size_bytes: number;
+  sha256: string;
+}
+
+/**
+ * A file uploaded to be attached to a task
+ */
+export interface IAttachmentUpload {
+  file_name: string;
+  mime_type: string;
+  data: Buffer;
+}
+
+/**
+ * Signed, time-limited download URL of an attachment
+ */
+export interface IAttachmentUrl {
+  url: string;
+  expires_at: Date;
+}
+
+/**
+ * An attachment with its contents, for download
+ */
+export interface IAttachmentContent {
+  attachment: ITaskAttachment;
+  data: Buffer;
+}
@@ -0,0 +1,46 @@
+import { ITaskAttachment, ITaskAttachmentCreate } from './taskAttachment.interface';
+
+/**
+ * Task Attachment Repository Interface
+ * Defines storage operations for the files attached to tasks
+ */
+export interface ITaskAttachmentRepository {
+  /**
+   * Find the attachments of a task
+   * @param taskId Task ID
+   * @returns Promise resolving to the attachments, oldest first
+   */
+  findByTask(taskId: number): Promise<ITaskAttachment[]>;
+
+  /**
+   * Find an attachment of a task
+   * @param attachmentId Attachment ID
+   * @param taskId Task ID
+   * @returns Promise resolving to the attachment or null if not found
+   */
+  findById(attachmentId: number, taskId: number): Promise<ITaskAttachment | null>;
+
+  /**
+   * Attach a file to a task and record it in the task's history
+   * @param data Attachment data
+   * @param storeContent Called to store the contents when no attachment has them yet
+   * @returns Promise resolving to the created attachment
+   */
+  create(data: ITaskAttachmentCreate, storeContent: (sha256: string) => Promise<void>): Promise<ITaskAttachment>;
+
+  /**
+   * Remove an attachment from a task and record it in the task's history
+   * @param attachmentId Attachment ID
+   * @param taskId Task ID
+   * @param actorId ID of the user removing the attachment
+   * @returns Promise resolving to true if an attachment was removed
+   */
+  delete(attachmentId: number, taskId: number, actorId: number): Promise<boolean>;
+
+  /**
+   * Remove stored contents that no attachment refers to any more
+   * @param removeContent Called to remove the contents of each checksum
+   * @returns Promise resolving to the number of contents removed
+   */
+  purgeUnreferenced(removeContent: (sha256: string) => Promise<void>): Promise<number>;
+}
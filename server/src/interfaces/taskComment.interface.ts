@@ -0,0 +1,19 @@
+export interface ITaskComment {
+  comment_id: number;
+  task_id: number;
+  user_id: number | null;
+  username: string | null;
+  parent_comment_id: number | null; // first comment of the thread; null for the first comment itself
+  content: string | null; // null once deleted
+  created_at: Date;
+  updated_at: Date;
+  edited_at: Date | null;
+  deleted_at: Date | null;
+}
+
+export interface ITaskCommentCreate {
+  task_id: number;
+  user_id: number;
+  content: string;
+  parent_comment_id?: number; // comment replied to
+}
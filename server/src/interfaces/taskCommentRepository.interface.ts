@@ -0,0 +1,48 @@
+import { ITaskComment, ITaskCommentCreate } from './taskComment.interface';
+
+/**
+ * Task Comment Repository Interface
+ * Defines storage operations for the comments on tasks
+ */
+export interface ITaskCommentRepository {
+  /**
+   * Find the comments on a task, deleted ones included so their replies keep their thread
+   * @param taskId Task ID
+   * @returns Promise resolving to the comments, oldest first
+   */
+  findByTask(taskId: number): Promise<ITaskComment[]>;
+
+  /**
+   * Find a comment on a task
+   * @param commentId Comment ID
+   * @param taskId Task ID
+   * @returns Promise resolving to the comment or null if not found
+   */
+  findById(commentId: number, taskId: number): Promise<ITaskComment | null>;
+
+  /**
+   * Add a comment to a task and record it in the task's history
+   * @param data Comment data
+   * @returns Promise resolving to the created comment
+   */
+  create(data: ITaskCommentCreate): Promise<ITaskComment>;
+
+  /**
+   * Change the text of a comment and record the edit in the task's history
+   * @param commentId Comment ID
+   * @param taskId Task ID
+   * @param content New text
+   * @param actorId ID of the user editing the comment
+   * @returns Promise resolving to the updated comment or null if not found or deleted
+   */
+  update(commentId: number, taskId: number, content: string, actorId: number): Promise<ITaskComment | null>;
+
+  /**
+   * Soft-delete a comment and record the deletion in the task's history
+   * @param commentId Comment ID
+   * @param taskId Task ID
+   * @param actorId ID of the user deleting the comment
+   * @returns Promise resolving to true if a comment was deleted
+   */
+  softDelete(commentId: number, taskId: number, actorId: number): Promise<boolean>;
+}
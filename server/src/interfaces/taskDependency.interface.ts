@@ -0,0 +1,34 @@
+import { StatusCategory } from './status.interface';
+
+/**
+ * A blocker task that has to be finished before the blocked task
+ */
+export interface ITaskDependency {
+  blocker_task_id: number;
+  blocked_task_id: number;
+  created_by: number | null;
+  created_at: Date;
+}
+
+/**
+ * A task in the dependency graph of another task
+ */
+export interface ITaskGraphNode {
+  task_id: number;
+  title: string;
+  status: string;
+  status_category: StatusCategory;
+  depth: number; // dependency links between the task and the root of the graph
+}
+
+export interface ITaskGraphEdge {
+  blocker_task_id: number;
+  blocked_task_id: number;
+}
+
+export interface ITaskGraph {
+  task_id: number;
+  upstream: ITaskGraphNode[]; // tasks blocking the root, directly or through other tasks
+  downstream: ITaskGraphNode[]; // tasks the root blocks, directly or through other tasks
+  edges: ITaskGraphEdge[];
+}
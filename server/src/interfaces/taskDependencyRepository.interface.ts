@@ -0,0 +1,40 @@
+import { ITaskDependency, ITaskGraph, ITaskGraphNode } from './taskDependency.interface';
+
+/**
+ * Task Dependency Repository Interface
+ * Defines storage operations for the blocks / blocked-by links between tasks
+ */
+export interface ITaskDependencyRepository {
+  /**
+   * Find the open tasks that directly block a task
+   * @param taskId Task ID
+   * @returns Promise resolving to the blockers that are neither done nor cancelled
+   */
+  findOpenBlockers(taskId: number): Promise<ITaskGraphNode[]>;
+
+  /**
+   * Find the tasks upstream and downstream of a task
+   * @param taskId Task ID
+   * @param depth Maximum number of links followed in each direction
+   * @param viewerId User the graph is shown to, or null to show every task
+   * @returns Promise resolving to the dependency graph
+   */
+  findGraph(taskId: number, depth: number, viewerId: number | null): Promise<ITaskGraph>;
+
+  /**
+   * Make a task block another task
+   * @param blockerId ID of the blocker task
+   * @param blockedId ID of the blocked task
+   * @param actorId ID of the user adding the dependency
+   * @returns Promise resolving to the created dependency
+   */
+  create(blockerId: number, blockedId: number, actorId: number | null): Promise<ITaskDependency>;
+
+  /**
+   * Remove a dependency
+   * @param blockerId ID of the blocker task
+   * @param blockedId ID of the blocked task
+   * @returns Promise resolving to true if a dependency was removed
+   */
+  delete(blockerId: number, blockedId: number): Promise<boolean>;
+}
@@ -0,0 +1,35 @@
+export interface ITaskEvent {
+  event_id: number;
+  task_id: number;
+  user_id: number | null;
+  username: string | null;
+  event_type: TaskEventType;
+  changes: ITaskChanges;
+  created_at: Date;
+}
+
+export interface ITaskEventCreate {
+  task_id: number;
+  user_id: number | null;
+  event_type: TaskEventType;
+  changes: ITaskChanges;
+}
+
+/**
+ * Changed fields with their old and new values
+ */
+export type ITaskChanges = Record<string, { from: unknown; to: unknown }>;
+
+export enum TaskEventType {
+  CREATED = 'created',
+  UPDATED = 'updated',
+  STATUS_CHANGED = 'status_changed',
+  ASSIGNED = 'assigned',
+  UNASSIGNED = 'unassigned',
+  COMMENTED = 'commented',
+  COMMENT_EDITED = 'comment_edited',
+  COMMENT_DELETED = 'comment_deleted',
+  ATTACHMENT_ADDED = 'attachment_added',
+  ATTACHMENT_REMOVED = 'attachment_removed',
+  DELETED = 'deleted'
+}
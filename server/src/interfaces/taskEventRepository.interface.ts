@@ -0,0 +1,23 @@
+import { PoolClient } from 'pg';
+import { ITaskEvent, ITaskEventCreate } from './taskEvent.interface';
+
+/**
+ * Task Event Repository Interface
+ * Defines storage operations for the activity history of tasks
+ */
+export interface ITaskEventRepository {
+  /**
+   * Record an event within the transaction making the change
+   * @param client Client of the open transaction
+   * @param event Event to record
+   * @returns Promise resolving when the event is written
+   */
+  record(client: PoolClient, event: ITaskEventCreate): Promise<void>;
+
+  /**
+   * Find the events of a task
+   * @param taskId Task ID
+   * @returns Promise resolving to the events, newest first
+   */
+  findByTaskId(taskId: number): Promise<ITaskEvent[]>;
+}
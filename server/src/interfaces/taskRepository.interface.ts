@@ -1,5 +1,15 @@
 import { IBaseRepository } from './repository.interface';
-import { ITask, ITaskCreate, ITaskQuery, ITaskUpdate } from './task.interface';
+import {
+  ITask,
+  ITaskCreate,
+  ITaskPage,
+  ITaskQuery,
+  ITaskSearchResult,
+  ITaskUpdate,
+  SubtaskCompletion,
+  TaskStatusTransitions
+} from './task.interface';
+import { RecurrenceScope } from './taskSeries.interface';
 
 /**
  * Task Repository Interface
@@ -7,12 +17,28 @@ import { ITask, ITaskCreate, ITaskQuery, ITaskUpdate } from './task.interface';
  */
 export interface ITaskRepository extends IBaseRepository<ITask, number, ITaskCreate> {
   /**
-   * Find tasks by user ID
+   * Find the tasks a user can access: their personal tasks and the tasks of their workspaces
    * @param userId User ID
    * @param query Optional query parameters for filtering and searching
    * @returns Promise resolving to array of tasks
    */
   findByUserId(userId: number, query?: ITaskQuery): Promise<ITask[]>;
+
+  /**
+   * Find one page of the tasks a user can access
+   * @param userId User ID
+   * @param query Optional query parameters for filtering, sorting, field selection and pagination
+   * @returns Promise resolving to the page with the total count and the cursor of the next page
+   */
+  findPageByUserId(userId: number, query?: ITaskQuery): Promise<ITaskPage>;
+
+  /**
+   * Find tasks a user is assigned to
+   * @param userId ID of the assignee
+   * @param query Optional query parameters for filtering and searching
+   * @returns Promise resolving to array of tasks
+   */
+  findAssignedToUser(userId: number, query?: ITaskQuery): Promise<ITask[]>;
   
   /**
    * Find tasks by category ID
@@ -29,18 +55,109 @@ export interface ITaskRepository extends IBaseRepository<ITask, number, ITaskCre
   findByPriorityId(priorityId: number): Promise<ITask[]>;
   
   /**
-   * Search tasks by title or description
+   * Full-text search the tasks a user can access by title and description
    * @param userId User ID
-   * @param searchTerm Search term
-   * @returns Promise resolving to array of matching tasks
+   * @param searchTerm Web search style query (quoted phrases, -exclusions, or)
+   * @param query Optional query parameters for filtering and the result limit
+   * @returns Promise resolving to matching tasks, most relevant first, with highlights
    */
-  search(userId: number, searchTerm: string): Promise<ITask[]>;
+  search(userId: number, searchTerm: string, query?: ITaskQuery): Promise<ITaskSearchResult[]>;
   
   /**
-   * Change task status
+   * Update a task and record the changed fields in its history
+   * @param id Task ID
+   * @param data Task data to update
+   * @param actorId ID of the user making the change
+   * @param transitions Status transition graph enforced when the status changes
+   * @param scope Occurrences of a recurring task the changes apply to
+   * @returns Promise resolving to updated task or null if not found
+   */
+  update(
+    id: number,
+    data: ITaskUpdate,
+    actorId?: number | null,
+    transitions?: TaskStatusTransitions,
+    scope?: RecurrenceScope
+  ): Promise<ITask | null>;
+
+  /**
+   * Delete a task and record its last values in its history
+   * @param id Task ID
+   * @param actorId ID of the user deleting the task
+   * @returns Promise resolving to boolean indicating if deletion was successful
+   */
+  delete(id: number, actorId?: number | null): Promise<boolean>;
+
+  /**
+   * Change task status and record the transition in its history
+   * Completing an occurrence of a recurring task creates the next one
    * @param taskId Task ID
    * @param status New status
+   * @param actorId ID of the user changing the status
+   * @param transitions Status transition graph to enforce
+   * @param reason Reason of a cancellation
+   * @param subtasks Whether completing the task is rejected while subtasks are open, or completes them
    * @returns Promise resolving to updated task or null if not found
    */
-  changeStatus(taskId: number, status: string): Promise<ITask | null>;
+  changeStatus(
+    taskId: number,
+    status: string,
+    actorId?: number | null,
+    transitions?: TaskStatusTransitions,
+    reason?: string | null,
+    subtasks?: SubtaskCompletion
+  ): Promise<ITask | null>;
+
+  /**
+   * Archive or restore a task and record it in its history
+   * @param taskId Task ID
+   * @param archived Whether the task is archived or restored
+   * @param actorId ID of the user archiving the task
+   * @returns Promise resolving to updated task or null if not found
+   */
+  setArchived(taskId: number, archived: boolean, actorId?: number | null): Promise<ITask | null>;
+
+  /**
+   * Run work in a single transaction that the repository calls it makes join
+   * @param work Work to run
+   * @returns Promise resolving to the result of the work
+   */
+  withTransaction<T>(work: () => Promise<T>): Promise<T>;
+
+  /**
+   * Find the IDs of the tasks a user can access, in listing order
+   * @param userId User ID
+   * @param queryParams Optional query parameters
+   * @param limit Maximum number of IDs
+   * @returns Promise resolving to the task IDs
+   */
+  findIdsByUserId(userId: number, queryParams: ITaskQuery | undefined, limit: number): Promise<number[]>;
+
+  /**
+   * Find the direct subtasks of a task
+   * @param taskId Task ID
+   * @returns Promise resolving to the subtasks, oldest first
+   */
+  findSubtasks(taskId: number): Promise<ITask[]>;
+
+  /**
+   * Find the open subtasks of a task at any depth
+   * @param taskId Task ID
+   * @returns Promise resolving to the subtasks that are neither completed nor cancelled
+   */
+  findOpenSubtasks(taskId: number): Promise<ITask[]>;
+
+  /**
+   * Find the ancestors of a task
+   * @param taskId Task ID
+   * @returns Promise resolving to the IDs of the parent, its parent and so on
+   */
+  findAncestorIds(taskId: number): Promise<number[]>;
+
+  /**
+   * Count the levels of a task and its subtasks
+   * @param taskId Task ID
+   * @returns Promise resolving to 1 for a task without subtasks, 2 when its subtasks have none, and so on
+   */
+  getSubtreeHeight(taskId: number): Promise<number>;
 }
\ No newline at end of file
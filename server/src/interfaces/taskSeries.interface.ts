@@ -0,0 +1,65 @@
+/**
+ * RRULE-style recurrence rule of a task series
+ */
+export interface IRecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval?: number; // every N days, weeks, months or years (default 1)
+  weekdays?: Weekday[]; // weekly: days of the week; monthly: the day of week_of_month
+  month_day?: number; // monthly or yearly: day of the month, clamped to the last day of shorter months
+  week_of_month?: number; // monthly: 1-4, or -1 for the last week, with a single weekday
+  count?: number; // total number of occurrences
+  until?: string; // last possible due date (YYYY-MM-DD)
+}
+
+/**
+ * A recurring task: the values copied to each new occurrence and the rule spacing them
+ */
+export interface ITaskSeries {
+  series_id: number;
+  recurrence: IRecurrenceRule;
+  title: string;
+  description?: string | null;
+  category_id?: number | null;
+  priority_id?: number | null;
+  occurrence_count: number; // occurrences generated so far, including the first one
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface ITaskSeriesCreate {
+  recurrence: IRecurrenceRule;
+  title: string;
+  description?: string | null;
+  category_id?: number | null;
+  priority_id?: number | null;
+}
+
+export type ITaskSeriesUpdate = Partial<ITaskSeriesCreate>;
+
+export enum RecurrenceFrequency {
+  DAILY = 'daily',
+  WEEKLY = 'weekly',
+  MONTHLY = 'monthly',
+  YEARLY = 'yearly'
+}
+
+/**
+ * Days of the week, as RRULE BYDAY codes
+ */
+export enum Weekday {
+  MO = 'MO',
+  TU = 'TU',
+  WE = 'WE',
+  TH = 'TH',
+  FR = 'FR',
+  SA = 'SA',
+  SU = 'SU'
+}
+
+/**
+ * Occurrences affected by an edit of a recurring task
+ */
+export enum RecurrenceScope {
+  THIS = 'this', // only the edited occurrence
+  FUTURE = 'future' // the edited occurrence, the open ones after it and the ones not generated yet
+}
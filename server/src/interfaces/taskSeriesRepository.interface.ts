@@ -0,0 +1,50 @@
+import { PoolClient } from 'pg';
+import { ITaskSeries, ITaskSeriesCreate, ITaskSeriesUpdate } from './taskSeries.interface';
+
+/**
+ * Task Series Repository Interface
+ * Defines storage operations for recurring tasks; every operation runs within
+ * the transaction changing the occurrences of the series
+ */
+export interface ITaskSeriesRepository {
+  /**
+   * Create a series whose first occurrence is being created
+   * @param client Client of the open transaction
+   * @param data Series data
+   * @returns Promise resolving to the created series
+   */
+  create(client: PoolClient, data: ITaskSeriesCreate): Promise<ITaskSeries>;
+
+  /**
+   * Find a series and lock it until the transaction ends
+   * @param client Client of the open transaction
+   * @param seriesId Series ID
+   * @returns Promise resolving to the series or null if not found
+   */
+  lock(client: PoolClient, seriesId: number): Promise<ITaskSeries | null>;
+
+  /**
+   * Update the rule or the values copied to new occurrences
+   * @param client Client of the open transaction
+   * @param seriesId Series ID
+   * @param data Series data to update
+   * @returns Promise resolving when the series is updated
+   */
+  update(client: PoolClient, seriesId: number, data: ITaskSeriesUpdate): Promise<void>;
+
+  /**
+   * Count a newly generated occurrence
+   * @param client Client of the open transaction
+   * @param seriesId Series ID
+   * @returns Promise resolving when the count is updated
+   */
+  incrementOccurrences(client: PoolClient, seriesId: number): Promise<void>;
+
+  /**
+   * Delete a series; its occurrences stay as standalone tasks
+   * @param client Client of the open transaction
+   * @param seriesId Series ID
+   * @returns Promise resolving when the series is deleted
+   */
+  delete(client: PoolClient, seriesId: number): Promise<void>;
+}
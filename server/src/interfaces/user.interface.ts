@@ -5,6 +5,7 @@ export interface IUser {
   password_hash: string;
   created_at: Date;
   role?: string;
+  email_verified_at?: Date | null;
 }
 
 export interface IUserCreate {
@@ -24,4 +25,14 @@ export interface IUserTokenPayload {
   username: string;
   email: string;
   role?: string;
+  jti?: string;
+  iat?: number;
+  exp?: number;
+  iss?: string;
+  aud?: string | string[];
+}
+
+export interface IAuthTokens {
+  accessToken: string;
+  refreshToken: string;
 }
\ No newline at end of file
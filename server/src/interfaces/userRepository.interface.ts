@@ -1,3 +1,4 @@
+import { PoolClient } from 'pg';
 import { IBaseRepository } from './repository.interface';
 import { IUser, IUserCreate } from './user.interface';
 
@@ -26,6 +27,13 @@ export interface IUserRepository extends IBaseRepository<IUser, number, IUserCre
    * @returns Promise resolving to boolean indicating if username exists
    */
   usernameExists(username: string): Promise<boolean>;
+
+  /**
+   * Find users by username (without password hash)
+   * @param usernames Usernames
+   * @returns Promise resolving to the users found; unknown usernames are left out
+   */
+  findByUsernames(usernames: string[]): Promise<Omit<IUser, 'password_hash'>[]>;
   
   /**
    * Find user by ID (without password hash)
@@ -38,7 +46,16 @@ export interface IUserRepository extends IBaseRepository<IUser, number, IUserCre
    * Change user password
    * @param userId User ID
    * @param newPassword New password (plain text)
+   * @param client Database client of a surrounding transaction, if any
    * @returns Promise resolving to boolean indicating success
    */
-  changePassword(userId: number, newPassword: string): Promise<boolean>;
+  changePassword(userId: number, newPassword: string, client?: PoolClient): Promise<boolean>;
+
+  /**
+   * Mark a user's email address as verified
+   * @param userId User ID
+   * @param email Address that was verified
+   * @returns Promise resolving to updated user or null if the user or email does not match
+   */
+  markEmailVerified(userId: number, email: string): Promise<IUser | null>;
 }
\ No newline at end of file
@@ -0,0 +1,42 @@
+import { TaskStatusTransitions } from './task.interface';
+
+export interface IWorkspace {
+  workspace_id: number;
+  name: string;
+  created_by: number | null;
+  status_transitions: TaskStatusTransitions | null; // status changes allowed on top of the default workflow
+  role?: WorkspaceRole;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface IWorkspaceCreate {
+  name: string;
+  created_by: number;
+}
+
+export interface IWorkspaceUpdate {
+  name?: string;
+  status_transitions?: TaskStatusTransitions | null; // null restores the default workflow
+}
+
+export interface IWorkspaceMember {
+  workspace_id: number;
+  user_id: number;
+  username: string;
+  email: string;
+  role: WorkspaceRole;
+  joined_at: Date;
+}
+
+export interface IWorkspaceMemberCreate {
+  user_id: number;
+  role?: WorkspaceRole;
+}
+
+export enum WorkspaceRole {
+  OWNER = 'owner',
+  ADMIN = 'admin',
+  MEMBER = 'member',
+  VIEWER = 'viewer'
+}
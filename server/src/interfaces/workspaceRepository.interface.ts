@@ -0,0 +1,56 @@
+import { IBaseRepository } from './repository.interface';
+import { IWorkspace, IWorkspaceCreate, IWorkspaceMember, WorkspaceRole } from './workspace.interface';
+
+/**
+ * Workspace Repository Interface
+ * Extends base repository with membership operations
+ */
+export interface IWorkspaceRepository extends IBaseRepository<IWorkspace, number, IWorkspaceCreate> {
+  /**
+   * Find the workspaces a user is a member of
+   * @param userId User ID
+   * @returns Promise resolving to array of workspaces including the user's role
+   */
+  findByUserId(userId: number): Promise<IWorkspace[]>;
+
+  /**
+   * Find the members of a workspace
+   * @param workspaceId Workspace ID
+   * @returns Promise resolving to array of members
+   */
+  findMembers(workspaceId: number): Promise<IWorkspaceMember[]>;
+
+  /**
+   * Get the role of a user in a workspace
+   * @param workspaceId Workspace ID
+   * @param userId User ID
+   * @returns Promise resolving to the role or null if the user is not a member
+   */
+  getMemberRole(workspaceId: number, userId: number): Promise<WorkspaceRole | null>;
+
+  /**
+   * Add a member to a workspace
+   * @param workspaceId Workspace ID
+   * @param userId User ID
+   * @param role Membership role
+   * @returns Promise resolving to the added member
+   */
+  addMember(workspaceId: number, userId: number, role: WorkspaceRole): Promise<IWorkspaceMember>;
+
+  /**
+   * Change the role of a workspace member
+   * @param workspaceId Workspace ID
+   * @param userId User ID
+   * @param role New membership role
+   * @returns Promise resolving to the updated member or null if not a member
+   */
+  updateMemberRole(workspaceId: number, userId: number, role: WorkspaceRole): Promise<IWorkspaceMember | null>;
+
+  /**
+   * Remove a member from a workspace
+   * @param workspaceId Workspace ID
+   * @param userId User ID
+   * @returns Promise resolving to boolean indicating if the user was a member
+   */
+  removeMember(workspaceId: number, userId: number): Promise<boolean>;
+}
@@ -0,0 +1,89 @@
+import { config } from '../config/config';
+import { IMailer, IMailTransport } from '../interfaces/mailer.interface';
+import { EmailOutboxRepository } from '../repositories/emailOutboxRepository';
+import { Mailer } from './mailer';
+import { OutboxDispatcher } from './outboxDispatcher';
+import { FileTransport } from './transports/fileTransport';
+import { MemoryTransport } from './transports/memoryTransport';
+import { SmtpTransport } from './transports/smtpTransport';
+
+export { Mailer } from './mailer';
+export { OutboxDispatcher } from './outboxDispatcher';
+export { FileTransport } from './transports/fileTransport';
+export { MemoryTransport } from './transports/memoryTransport';
+export { SmtpTransport } from './transports/smtpTransport';
+
+let transport: IMailTransport | null = null;
+let mailer: IMailer | null = null;
+let dispatcher: OutboxDispatcher | null = null;
+
+/**
+ * Create the transport selected by MAIL_TRANSPORT
+ * @returns Mail transport
+ * @throws Error if the configured transport is unknown
+ */
+const createTransport = (): IMailTransport => {
+  switch (config.MAIL.TRANSPORT) {
+    case 'file':
+      return new FileTransport(config.MAIL.FILE_DIR, config.MAIL.FROM);
+    case 'memory':
+      return new MemoryTransport();
+    case 'smtp':
+      return new SmtpTransport({
+        host: config.MAIL.SMTP_HOST,
+        port: config.MAIL.SMTP_PORT,
+        secure: config.MAIL.SMTP_SECURE,
+        user: config.MAIL.SMTP_USER,
+        password: config.MAIL.SMTP_PASSWORD
+      }, config.MAIL.FROM);
+    default:
+      throw new Error(`Unknown mail transport: ${config.MAIL.TRANSPORT}`);
+  }
+};
+
+/**
+ * Get the configured mail transport
+ * @returns Mail transport
+ */
+export const getTransport = (): IMailTransport => {
+  if (!transport) {
+    transport = createTransport();
+  }
+  return transport;
+};
+
+/**
+ * Get the application mailer, which queues messages in the email outbox
+ * @returns Mailer
+ */
+export const getMailer = (): IMailer => {
+  if (!mailer) {
+    mailer = new Mailer(getTransport(), new EmailOutboxRepository());
+  }
+  return mailer;
+};
+
+/**
+ * Replace the application mailer (e.g. with a Mailer over a MemoryTransport in tests)
+ * @param instance Mailer to use for outbound email
+ */
+export const setMailer = (instance: IMailer): void => {
+  mailer = instance;
+};
+
+/**
+ * Start delivering queued email in the background
+ * @returns Running dispatcher
+ */
+export const startOutboxDispatcher = (): OutboxDispatcher => {
+  if (!dispatcher) {
+    dispatcher = new OutboxDispatcher(getTransport(), new EmailOutboxRepository(), {
+      batchSize: config.MAIL.OUTBOX_BATCH_SIZE,
+      maxAttempts: config.MAIL.OUTBOX_MAX_ATTEMPTS,
+      retryDelayMs: config.MAIL.OUTBOX_RETRY_DELAY_MS,
+      pollIntervalMs: config.MAIL.OUTBOX_POLL_INTERVAL_MS
+    });
+    dispatcher.start();
+  }
+  return dispatcher;
+};
@@ -0,0 +1,30 @@
+import { IMailer, IMailMessage, IMailTemplateOptions, IMailTransport, MailTemplateName } from '../interfaces/mailer.interface';
+import { IEmailOutboxRepository } from '../interfaces/emailOutboxRepository.interface';
+import { renderTemplate } from './templates';
+
+/**
+ * Mailer
+ * Renders templates and hands messages to the outbox for delivery. Without an
+ * outbox (tests, scripts) messages go straight to the transport.
+ */
+export class Mailer implements IMailer {
+  /**
+   * @param transport Transport used when no outbox is configured
+   * @param outbox Outbox that queues messages for the dispatcher
+   */
+  constructor(private transport: IMailTransport, private outbox?: IEmailOutboxRepository) {}
+
+  async send(message: IMailMessage): Promise<void> {
+    if (this.outbox) {
+      await this.outbox.enqueue(message);
+      return;
+    }
+
+    await this.transport.deliver(message);
+  }
+
+  async sendTemplate(template: MailTemplateName, options: IMailTemplateOptions): Promise<void> {
+    const rendered = renderTemplate(template, options.locale, options.data);
+    await this.send({ to: options.to, ...rendered });
+  }
+}
@@ -0,0 +1,99 @@
+import { IMailTransport } from '../interfaces/mailer.interface';
+import { IEmailOutboxRepository } from '../interfaces/emailOutboxRepository.interface';
+import { EmailOutbox } from '../models/emailOutbox.model';
+
+export interface IOutboxDispatcherOptions {
+  batchSize: number;
+  maxAttempts: number;
+  retryDelayMs: number;
+  pollIntervalMs: number;
+}
+
+/**
+ * Outbox Dispatcher
+ * Delivers queued email in the background, retrying failed sends with exponential backoff
+ */
+export class OutboxDispatcher {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(
+    private transport: IMailTransport,
+    private repository: IEmailOutboxRepository,
+    private options: IOutboxDispatcherOptions
+  ) {}
+
+  /**
+   * Deliver the messages that are currently due
+   * @returns Number of messages delivered
+   */
+  async dispatchDue(): Promise<number> {
+    // Lease long enough to cover delivering the whole batch
+    const entries = await this.repository.claimDue(this.options.batchSize, this.options.pollIntervalMs * 6);
+    let delivered = 0;
+
+    for (const entry of entries) {
+      try {
+        await this.transport.deliver(EmailOutbox.toMailMessage(entry));
+        await this.repository.markSent(entry.email_id);
+        delivered++;
+      } catch (error) {
+        const attempts = entry.attempts + 1;
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(`Error delivering email ${entry.email_id} (attempt ${attempts}):`, message);
+        await this.repository.markFailed(entry.email_id, message, this.getNextAttemptAt(attempts));
+      }
+    }
+
+    return delivered;
+  }
+
+  /**
+   * Start polling the outbox
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      // Skip a tick if the previous batch is still being delivered
+      if (this.running) {
+        return;
+      }
+      this.running = true;
+      this.dispatchDue()
+        .catch(error => console.error('Error dispatching email outbox:', error))
+        .finally(() => {
+          this.running = false;
+        });
+    }, this.options.pollIntervalMs);
+
+    // Polling alone should not keep the process alive
+    this.timer.unref();
+  }
+
+  /**
+   * Stop polling the outbox
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Work out when to retry after a failed attempt
+   * @param attempts Number of attempts made so far
+   * @returns Time of the next attempt, or null once attempts are exhausted
+   */
+  private getNextAttemptAt(attempts: number): Date | null {
+    if (attempts >= this.options.maxAttempts) {
+      return null;
+    }
+
+    const delay = this.options.retryDelayMs * Math.pow(2, attempts - 1);
+    return new Date(Date.now() + delay);
+  }
+}
@@ -0,0 +1,72 @@
+import { IMailTemplate, MailTemplateName } from '../../interfaces/mailer.interface';
+
+/**
+ * English email templates
+ */
+export const en: Record<MailTemplateName, IMailTemplate> = {
+  password_reset: {
+    subject: 'Reset your password',
+    text: [
+      'Hi {{username}},',
+      '',
+      'Use the link below to choose a new password. It expires in {{ttlMinutes}} minutes.',
+      '',
+      '{{resetUrl}}',
+      '',
+      'If you did not request a password reset, you can ignore this email.'
+    ].join('\n'),
+    html: [
+      '<p>Hi {{username}},</p>',
+      '<p>Use the link below to choose a new password. It expires in {{ttlMinutes}} minutes.</p>',
+      '<p><a href="{{resetUrl}}">Reset your password</a></p>',
+      '<p>If you did not request a password reset, you can ignore this email.</p>'
+    ].join('\n')
+  },
+  email_verification: {
+    subject: 'Verify your email address',
+    text: [
+      'Hi {{username}},',
+      '',
+      'Please confirm that {{email}} is your email address by opening the link below. It expires in {{ttlHours}} hours.',
+      '',
+      '{{verifyUrl}}'
+    ].join('\n'),
+    html: [
+      '<p>Hi {{username}},</p>',
+      '<p>Please confirm that {{email}} is your email address. The link expires in {{ttlHours}} hours.</p>',
+      '<p><a href="{{verifyUrl}}">Verify email address</a></p>'
+    ].join('\n')
+  },
+  task_reminder: {
+    subject: 'Reminder: {{taskTitle}}',
+    text: [
+      'Hi {{username}},',
+      '',
+      'This is your reminder for the task "{{taskTitle}}" (due: {{dueDate}}).',
+      '',
+      '{{taskUrl}}'
+    ].join('\n'),
+    html: [
+      '<p>Hi {{username}},</p>',
+      '<p>This is your reminder for the task &quot;{{taskTitle}}&quot; (due: {{dueDate}}).</p>',
+      '<p><a href="{{taskUrl}}">Open your tasks</a></p>'
+    ].join('\n')
+  },
+  notification: {
+    subject: '{{title}}',
+    text: [
+      'Hi {{username}},',
+      '',
+      '{{title}}',
+      '{{body}}',
+      '',
+      '{{url}}'
+    ].join('\n'),
+    html: [
+      '<p>Hi {{username}},</p>',
+      '<p><strong>{{title}}</strong></p>',
+      '<p>{{body}}</p>',
+      '<p><a href="{{url}}">Open your tasks</a></p>'
+    ].join('\n')
+  }
+};
@@ -0,0 +1,78 @@
+import { config } from '../../config/config';
+import { IMailMessage, IMailTemplate, MailTemplateData, MailTemplateName } from '../../interfaces/mailer.interface';
+import { en } from './en';
+import { vi } from './vi';
+
+const templates: Record<string, Record<MailTemplateName, IMailTemplate>> = { en, vi };
+
+/**
+ * Locales that have email templates
+ */
+export const SUPPORTED_LOCALES = Object.keys(templates);
+
+/**
+ * Pick the template locale for a requested locale
+ * Region suffixes are ignored (en-US uses en); unsupported locales fall back to the default
+ * @param locale Requested locale
+ * @returns Supported locale
+ */
+export const resolveLocale = (locale?: string): string => {
+  const language = locale?.toLowerCase().split(/[-_]/)[0];
+  return language && templates[language] ? language : config.MAIL.DEFAULT_LOCALE;
+};
+
+/**
+ * Render a template into a message
+ * @param name Template name
+ * @param locale Requested locale
+ * @param data Values for the template placeholders
+ * @returns Rendered subject, text and HTML body
+ * @throws Error if the template uses a placeholder missing from data
+ */
+export const renderTemplate = (
+  name: MailTemplateName,
+  locale: string | undefined,
+  data: MailTemplateData
+): Omit<IMailMessage, 'to'> => {
+  const template = templates[resolveLocale(locale)][name];
+
+  return {
+    subject: interpolate(template.subject, data),
+    text: interpolate(template.text, data),
+    html: interpolate(template.html, data, escapeHtml)
+  };
+};
+
+/**
+ * Replace {{placeholders}} with data values
+ * @param template Template string
+ * @param data Placeholder values
+ * @param encode Optional encoder applied to each value
+ * @returns Interpolated string
+ */
+const interpolate = (
+  template: string,
+  data: MailTemplateData,
+  encode: (value: string) => string = value => value
+): string => {
+  return template.replace(/\{\{(\w+)\}\}/g, (_match, key: string) => {
+    if (data[key] === undefined) {
+      throw new Error(`Missing value for email template placeholder "${key}"`);
+    }
+    return encode(String(data[key]));
+  });
+};
+
+/**
+ * Escape a value for inclusion in HTML
+ * @param value Raw value
+ * @returns HTML-safe value
+ */
+const escapeHtml = (value: string): string => {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+};
@@ -0,0 +1,72 @@
+import { IMailTemplate, MailTemplateName } from '../../interfaces/mailer.interface';
+
+/**
+ * Vietnamese email templates
+ */
+export const vi: Record<MailTemplateName, IMailTemplate> = {
+  password_reset: {
+    subject: 'Đặt lại mật khẩu',
+    text: [
+      'Xin chào {{username}},',
+      '',
+      'Hãy dùng liên kết dưới đây để đặt mật khẩu mới. Liên kết hết hạn sau {{ttlMinutes}} phút.',
+      '',
+      '{{resetUrl}}',
+      '',
+      'Nếu bạn không yêu cầu đặt lại mật khẩu, bạn có thể bỏ qua email này.'
+    ].join('\n'),
+    html: [
+      '<p>Xin chào {{username}},</p>',
+      '<p>Hãy dùng liên kết dưới đây để đặt mật khẩu mới. Liên kết hết hạn sau {{ttlMinutes}} phút.</p>',
+      '<p><a href="{{resetUrl}}">Đặt lại mật khẩu</a></p>',
+      '<p>Nếu bạn không yêu cầu đặt lại mật khẩu, bạn có thể bỏ qua email này.</p>'
+    ].join('\n')
+  },
+  email_verification: {
+    subject: 'Xác minh địa chỉ email',
+    text: [
+      'Xin chào {{username}},',
+      '',
+      'Vui lòng mở liên kết dưới đây để xác nhận {{email}} là địa chỉ email của bạn. Liên kết hết hạn sau {{ttlHours}} giờ.',
+      '',
+      '{{verifyUrl}}'
+    ].join('\n'),
+    html: [
+      '<p>Xin chào {{username}},</p>',
+      '<p>Vui lòng xác nhận {{email}} là địa chỉ email của bạn. Liên kết hết hạn sau {{ttlHours}} giờ.</p>',
+      '<p><a href="{{verifyUrl}}">Xác minh email</a></p>'
+    ].join('\n')
+  },
+  task_reminder: {
+    subject: 'Nhắc nhở: {{taskTitle}}',
+    text: [
+      'Xin chào {{username}},',
+      '',
+      'Đây là lời nhắc cho công việc "{{taskTitle}}" (hạn: {{dueDate}}).',
+      '',
+      '{{taskUrl}}'
+    ].join('\n'),
+    html: [
+      '<p>Xin chào {{username}},</p>',
+      '<p>Đây là lời nhắc cho công việc &quot;{{taskTitle}}&quot; (hạn: {{dueDate}}).</p>',
+      '<p><a href="{{taskUrl}}">Mở danh sách công việc</a></p>'
+    ].join('\n')
+  },
+  notification: {
+    subject: '{{title}}',
+    text: [
+      'Xin chào {{username}},',
+      '',
+      '{{title}}',
+      '{{body}}',
+      '',
+      '{{url}}'
+    ].join('\n'),
+    html: [
+      '<p>Xin chào {{username}},</p>',
+      '<p><strong>{{title}}</strong></p>',
+      '<p>{{body}}</p>',
+      '<p><a href="{{url}}">Mở danh sách công việc</a></p>'
+    ].join('\n')
+  }
+};
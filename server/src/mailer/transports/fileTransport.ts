@@ -0,0 +1,27 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import nodemailer from 'nodemailer';
+import { IMailMessage, IMailTransport } from '../../interfaces/mailer.interface';
+
+/**
+ * Development transport that writes each message to an .eml file
+ * The files open in any mail client, so email can be checked without an SMTP server
+ */
+export class FileTransport implements IMailTransport {
+  private composer = nodemailer.createTransport({ streamTransport: true, buffer: true });
+
+  /**
+   * @param directory Directory the .eml files are written to
+   * @param from Sender address
+   */
+  constructor(private directory: string, private from: string) {}
+
+  async deliver(message: IMailMessage): Promise<void> {
+    const info = await this.composer.sendMail({ from: this.from, ...message });
+
+    await fs.mkdir(this.directory, { recursive: true });
+    const fileName = `${Date.now()}-${crypto.randomBytes(4).toString('hex')}.eml`;
+    await fs.writeFile(path.join(this.directory, fileName), info.message as Buffer);
+  }
+}
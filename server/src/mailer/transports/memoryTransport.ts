@@ -0,0 +1,20 @@
+import { IMailMessage, IMailTransport } from '../../interfaces/mailer.interface';
+
+/**
+ * Transport that keeps delivered messages in an in-memory outbox
+ * Used by tests to assert on outgoing email
+ */
+export class MemoryTransport implements IMailTransport {
+  readonly outbox: IMailMessage[] = [];
+
+  async deliver(message: IMailMessage): Promise<void> {
+    this.outbox.push(message);
+  }
+
+  /**
+   * Remove all messages from the outbox
+   */
+  clear(): void {
+    this.outbox.length = 0;
+  }
+}
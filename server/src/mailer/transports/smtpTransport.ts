@@ -0,0 +1,35 @@
+import nodemailer, { Transporter } from 'nodemailer';
+import { IMailMessage, IMailTransport } from '../../interfaces/mailer.interface';
+
+export interface ISmtpOptions {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  password?: string;
+}
+
+/**
+ * Transport that delivers messages to an SMTP server
+ * Point it at a local sink (MailHog, Mailpit) in development
+ */
+export class SmtpTransport implements IMailTransport {
+  private transporter: Transporter;
+
+  /**
+   * @param options SMTP connection options
+   * @param from Sender address
+   */
+  constructor(options: ISmtpOptions, private from: string) {
+    this.transporter = nodemailer.createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.secure,
+      ...(options.user && { auth: { user: options.user, pass: options.password } })
+    });
+  }
+
+  async deliver(message: IMailMessage): Promise<void> {
+    await this.transporter.sendMail({ from: this.from, ...message });
+  }
+}
@@ -2,18 +2,26 @@ import { Request, Response, NextFunction } from 'express';
 import { verifyToken } from '../utils/jwt.utils';
 import { IUserTokenPayload } from '../interfaces/user.interface';
 import { ApiError } from '../utils/error.utils';
+import { WorkspaceRole } from '../interfaces/workspace.interface';
+import { WorkspaceRepository } from '../repositories/workspaceRepository';
 
 // Extend Express Request interface to include strongly typed user property
+// and the user's role in the workspace addressed by the route
 declare global {
   namespace Express {
     interface Request {
       user?: IUserTokenPayload;
+      workspaceRole?: WorkspaceRole;
     }
   }
 }
 
+const workspaceRepository = new WorkspaceRepository();
+
 /**
- * Extract JWT token from request headers, cookies, or query params
+ * Extract JWT token from request headers or cookies
+ * Tokens in query params are not accepted since URLs end up in logs and browser history;
+ * links that must work without a header (e.g. attachment downloads) are signed instead
  * @param req Express request object
  * @returns Token string or null if not found
  */
@@ -28,17 +36,12 @@ const extractToken = (req: Request): string | null => {
     return req.cookies.token;
   }
   
-  // Check if token exists in query params (less secure, use with caution)
-  if (req.query && req.query.token) {
-    return req.query.token as string;
-  }
-  
   return null;
 };
 
 /**
  * Middleware to protect routes that require authentication
- * @throws {ApiError} 401 Unauthorized if token is missing or invalid
+ * @throws {ApiError} 401 Unauthorized if token is missing or invalid (TOKEN_EXPIRED if expired)
  */
 export const protect = async (
   req: Request,
@@ -56,16 +59,21 @@ export const protect = async (
     }
     
     // Verify token using utility function
-    const decodedUser = verifyToken(token);
+    const verification = verifyToken(token);
     
-    // Check if token verification was successful
-    if (!decodedUser) {
-      next(ApiError.unauthorized('Invalid or expired token', 'INVALID_TOKEN'));
+    // Check if token verification was successful; an expired token is reported
+    // separately so the client knows to refresh it
+    if (!verification.valid) {
+      if (verification.reason === 'expired') {
+        next(ApiError.unauthorized('Token has expired', 'TOKEN_EXPIRED'));
+      } else {
+        next(ApiError.unauthorized('Invalid token', 'INVALID_TOKEN'));
+      }
       return;
     }
     
     // Add user info from token to request object
-    req.user = decodedUser;
+    req.user = verification.payload;
     
     next();
   } catch (error) {
@@ -103,6 +111,47 @@ export const authorize = (...roles: string[]) => {
   };
 };
 
+/**
+ * Middleware to restrict access based on the user's role in a workspace
+ * The workspace is taken from the `id` route parameter; the role is stored on req.workspaceRole
+ * @param roles Workspace roles allowed to access the route (any member if empty)
+ * @throws {ApiError} 404 Not Found if the workspace does not exist or the user is not a member
+ * @throws {ApiError} 403 Forbidden if the user's workspace role is not allowed
+ */
+export const authorizeWorkspace = (...roles: WorkspaceRole[]) => {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        next(ApiError.unauthorized('User not authenticated', 'USER_NOT_AUTHENTICATED'));
+        return;
+      }
+
+      const workspaceId = parseInt(req.params.id);
+      if (isNaN(workspaceId)) {
+        next(ApiError.badRequest('Workspace ID must be an integer', 'INVALID_WORKSPACE_ID'));
+        return;
+      }
+
+      // Non-members get the same response as for a missing workspace
+      const role = await workspaceRepository.getMemberRole(workspaceId, req.user.id);
+      if (!role) {
+        next(ApiError.notFound('Workspace not found', 'WORKSPACE_NOT_FOUND'));
+        return;
+      }
+
+      if (roles.length > 0 && !roles.includes(role)) {
+        next(ApiError.forbidden('You do not have permission to perform this action in this workspace', 'FORBIDDEN'));
+        return;
+      }
+
+      req.workspaceRole = role;
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+};
+
 /**
  * Optional authentication middleware - doesn't reject if no token is provided
  * but will set req.user if a valid token is found
@@ -116,9 +165,9 @@ export const optionalAuth = async (
     const token = extractToken(req);
     
     if (token) {
-      const decodedUser = verifyToken(token);
-      if (decodedUser) {
-        req.user = decodedUser;
+      const verification = verifyToken(token);
+      if (verification.valid) {
+        req.user = verification.payload;
       }
     }
     
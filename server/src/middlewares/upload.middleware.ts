@@ -0,0 +1,58 @@
+import multer from 'multer';
+import { Request, Response, NextFunction } from 'express';
+import { config } from '../config/config';
+import { ApiError } from '../utils/error.utils';
+
+/**
+ * Multipart parser keeping a single file in memory
+ * Files over the size limit or of a type that cannot be attached are rejected while they are received
+ */
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: config.ATTACHMENTS.MAX_FILE_SIZE_BYTES,
+    files: 1,
+    fields: 10
+  },
+  fileFilter: (req, file, callback) => {
+    if (!config.ATTACHMENTS.ALLOWED_MIME_TYPES.includes(file.mimetype)) {
+      callback(new ApiError(`Files of type ${file.mimetype} cannot be attached`, 415, 'UNSUPPORTED_FILE_TYPE'));
+      return;
+    }
+    callback(null, true);
+  }
+});
+
+/**
+ * Middleware parsing a multipart upload of one file into req.file
+ * @param field Name of the form field holding the file
+ * @throws {ApiError} 413 if the file is too large, 415 if its type is not allowed,
+ * 400 if the upload is malformed or has more than one file
+ */
+export const uploadSingleFile = (field: string) => {
+  const parse = upload.single(field);
+
+  return (req: Request, res: Response, next: NextFunction): void => {
+    parse(req, res, (error?: unknown) => {
+      if (!error) {
+        next();
+        return;
+      }
+
+      if (error instanceof multer.MulterError) {
+        if (error.code === 'LIMIT_FILE_SIZE') {
+          next(new ApiError(
+            `File must be ${config.ATTACHMENTS.MAX_FILE_SIZE_BYTES} bytes or less`,
+            413,
+            'FILE_TOO_LARGE'
+          ));
+        } else {
+          next(ApiError.badRequest(error.message, 'INVALID_UPLOAD'));
+        }
+        return;
+      }
+
+      next(error);
+    });
+  };
+};
@@ -0,0 +1,133 @@
+import { ICategory, ICategoryCreate, ICategoryUpdate } from '../interfaces/category.interface';
+import { ApiError } from '../utils/error.utils';
+
+/**
+ * Category Model
+ * Provides validation and utility methods for category entities
+ */
+export class Category {
+  /**
+   * Color used when a category is created without one
+   */
+  static readonly DEFAULT_COLOR = '#6B7280';
+
+  /**
+   * System categories seeded for every newly registered user
+   */
+  static readonly DEFAULTS: ReadonlyArray<Omit<ICategoryCreate, 'user_id'>> = [
+    { name: 'Work', color: '#3B82F6', icon: 'briefcase' },
+    { name: 'Personal', color: '#10B981', icon: 'user' },
+    { name: 'Errands', color: '#F59E0B', icon: 'shopping-cart' }
+  ];
+
+  /**
+   * Validate category creation data
+   * @param data Category data to validate
+   * @throws ApiError if validation fails
+   */
+  static validateCreate(data: ICategoryCreate): void {
+    // User ID is required
+    if (!data.user_id) {
+      throw ApiError.badRequest('User ID is required', 'USER_ID_REQUIRED');
+    }
+
+    this.validateName(data.name);
+
+    if (data.color !== undefined) {
+      this.validateColor(data.color);
+    }
+
+    if (data.icon !== undefined) {
+      this.validateIcon(data.icon);
+    }
+  }
+
+  /**
+   * Validate category update data
+   * @param data Category data to validate
+   * @throws ApiError if validation fails
+   */
+  static validateUpdate(data: ICategoryUpdate): void {
+    if (Object.keys(data).length === 0) {
+      throw ApiError.badRequest('No data provided for update', 'NO_UPDATE_DATA');
+    }
+
+    if (data.name !== undefined) {
+      this.validateName(data.name);
+    }
+
+    if (data.color !== undefined) {
+      this.validateColor(data.color);
+    }
+
+    if (data.icon !== undefined && data.icon !== null) {
+      this.validateIcon(data.icon);
+    }
+  }
+
+  /**
+   * Escape the LIKE wildcards of a name search, for use with ESCAPE '\'
+   * @param name Part of a category name
+   * @returns Pattern matching names that contain the text
+   */
+  static namePattern(name: string): string {
+    return `%${name.replace(/[\\%_]/g, character => `\\${character}`)}%`;
+  }
+
+  /**
+   * Parse category from database row
+   * @param row Database row
+   * @returns Category object
+   */
+  static fromDatabaseRow(row: any): ICategory {
+    return {
+      category_id: row.category_id,
+      user_id: row.user_id,
+      workspace_id: row.workspace_id || null,
+      name: row.name,
+      color: row.color,
+      icon: row.icon || null,
+      is_default: Boolean(row.is_default),
+      created_at: new Date(row.created_at)
+    };
+  }
+
+  /**
+   * Validate category name
+   * @param name Category name
+   * @throws ApiError if name is empty or too long
+   */
+  private static validateName(name?: string): void {
+    if (!name || name.trim().length === 0) {
+      throw ApiError.badRequest('Category name is required', 'INVALID_NAME');
+    }
+
+    // Name should not exceed 50 characters (based on DB schema)
+    if (name.length > 50) {
+      throw ApiError.badRequest('Category name must be 50 characters or less', 'INVALID_NAME_LENGTH');
+    }
+  }
+
+  /**
+   * Validate category color
+   * @param color Hex color (e.g. #3B82F6)
+   * @throws ApiError if color is not a 6-digit hex color
+   */
+  private static validateColor(color: string): void {
+    if (!/^#[0-9A-Fa-f]{6}$/.test(color)) {
+      throw ApiError.badRequest('Category color must be a hex color like #3B82F6', 'INVALID_COLOR');
+    }
+  }
+
+  /**
+   * Validate category icon
+   * @param icon Icon name
+   * @throws ApiError if icon name is too long
+   */
+  private static validateIcon(icon: string): void {
+    // Icon should not exceed 50 characters (based on DB schema)
+    if (icon.length > 50) {
+      throw ApiError.badRequest('Category icon must be 50 characters or less', 'INVALID_ICON');
+    }
+  }
+}
@@ -0,0 +1,99 @@
+import { IChecklistItem, IChecklistItemCreate, IChecklistItemUpdate } from '../interfaces/checklist.interface';
+import { ApiError } from '../utils/error.utils';
+
+/**
+ * Checklist Item Model
+ * Provides validation and utility methods for the checklist items of tasks
+ */
+export class ChecklistItem {
+  /**
+   * Maximum length of an item (based on DB schema)
+   */
+  static readonly MAX_CONTENT_LENGTH = 255;
+
+  /**
+   * Maximum number of items on one checklist; longer lists belong in subtasks
+   */
+  static readonly MAX_ITEMS = 100;
+
+  /**
+   * Validate checklist item creation data
+   * @param data Item data to validate
+   * @throws ApiError if validation fails
+   */
+  static validateCreate(data: IChecklistItemCreate): void {
+    ChecklistItem.validateContent(data.content);
+
+    if (data.position !== undefined) {
+      ChecklistItem.validatePosition(data.position);
+    }
+  }
+
+  /**
+   * Validate checklist item update data
+   * @param data Item data to validate
+   * @throws ApiError if validation fails
+   */
+  static validateUpdate(data: IChecklistItemUpdate): void {
+    if (Object.keys(data).length === 0) {
+      throw ApiError.badRequest('No data provided for update', 'NO_UPDATE_DATA');
+    }
+
+    if (data.content !== undefined) {
+      ChecklistItem.validateContent(data.content);
+    }
+
+    if (data.is_done !== undefined && typeof data.is_done !== 'boolean') {
+      throw ApiError.badRequest('Done must be a boolean', 'INVALID_CHECKLIST_ITEM');
+    }
+
+    if (data.position !== undefined) {
+      ChecklistItem.validatePosition(data.position);
+    }
+  }
+
+  /**
+   * Convert database row to checklist item object
+   * @param row Database row
+   * @returns Checklist item object
+   */
+  static fromDatabaseRow(row: any): IChecklistItem {
+    return {
+      item_id: row.item_id,
+      task_id: row.task_id,
+      content: row.content,
+      is_done: row.is_done,
+      position: row.position,
+      created_at: new Date(row.created_at),
+      updated_at: new Date(row.updated_at)
+    };
+  }
+
+  /**
+   * Validate the text of an item
+   * @param content Item text
+   * @throws ApiError if the text is empty or too long
+   */
+  private static validateContent(content: string): void {
+    if (typeof content !== 'string' || content.trim().length === 0) {
+      throw ApiError.badRequest('Checklist item content is required', 'INVALID_CHECKLIST_ITEM');
+    }
+    if (content.length > ChecklistItem.MAX_CONTENT_LENGTH) {
+      throw ApiError.badRequest(
+        `Checklist item content must be ${ChecklistItem.MAX_CONTENT_LENGTH} characters or less`,
+        'INVALID_CHECKLIST_ITEM'
+      );
+    }
+  }
+
+  /**
+   * Validate the position of an item
+   * @param position Position in the checklist
+   * @throws ApiError if the position is not a non-negative integer
+   */
+  private static validatePosition(position: number): void {
+    if (!Number.isInteger(position) || position < 0) {
+      throw ApiError.badRequest('Position must be a non-negative integer', 'INVALID_CHECKLIST_ITEM');
+    }
+  }
+}
@@ -0,0 +1,43 @@
+import { EmailStatus, IEmailOutboxMessage } from '../interfaces/emailOutbox.interface';
+import { IMailMessage } from '../interfaces/mailer.interface';
+
+/**
+ * Email Outbox Model
+ * Provides utility methods for queued outbound email
+ */
+export class EmailOutbox {
+  /**
+   * Convert database row to outbox message object
+   * @param row Database row
+   * @returns Outbox message object
+   */
+  static fromDatabaseRow(row: any): IEmailOutboxMessage {
+    return {
+      email_id: row.email_id,
+      recipient: row.recipient,
+      subject: row.subject,
+      text_body: row.text_body,
+      html_body: row.html_body || null,
+      status: row.status as EmailStatus,
+      attempts: row.attempts,
+      next_attempt_at: new Date(row.next_attempt_at),
+      last_error: row.last_error || null,
+      created_at: new Date(row.created_at),
+      sent_at: row.sent_at ? new Date(row.sent_at) : null
+    };
+  }
+
+  /**
+   * Convert an outbox entry back to a deliverable message
+   * @param entry Outbox message
+   * @returns Mail message
+   */
+  static toMailMessage(entry: IEmailOutboxMessage): IMailMessage {
+    return {
+      to: entry.recipient,
+      subject: entry.subject,
+      text: entry.text_body,
+      ...(entry.html_body && { html: entry.html_body })
+    };
+  }
+}
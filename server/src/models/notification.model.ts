@@ -0,0 +1,116 @@
+import {
+  INotification,
+  INotificationPreference,
+  NotificationChannel,
+  NotificationType
+} from '../interfaces/notification.interface';
+import { ApiError } from '../utils/error.utils';
+
+/**
+ * Notification Model
+ * Provides validation and utility methods for notifications and notification preferences
+ */
+export class Notification {
+  /**
+   * Notifications returned per page by default
+   */
+  static readonly DEFAULT_PAGE_SIZE = 20;
+
+  /**
+   * Largest page of notifications
+   */
+  static readonly MAX_PAGE_SIZE = 100;
+
+  /**
+   * Types users can set preferences for
+   * Reminders are left out: each reminder picks its own channels
+   */
+  static readonly CONFIGURABLE_TYPES: ReadonlyArray<NotificationType> = [
+    NotificationType.ASSIGNMENT,
+    NotificationType.OVERDUE,
+    NotificationType.MENTION
+  ];
+
+  /**
+   * Channels used when a user has no preference for a type
+   */
+  static readonly DEFAULT_CHANNELS: Readonly<Record<NotificationChannel, boolean>> = {
+    [NotificationChannel.IN_APP]: true,
+    [NotificationChannel.EMAIL]: false
+  };
+
+  /**
+   * Complete saved preferences with the defaults
+   * @param saved Preferences the user saved
+   * @returns One preference per configurable type and channel
+   */
+  static resolvePreferences(saved: INotificationPreference[]): INotificationPreference[] {
+    return Notification.CONFIGURABLE_TYPES.flatMap(type =>
+      Object.values(NotificationChannel).map(channel => {
+        const preference = saved.find(item => item.type === type && item.channel === channel);
+        return { type, channel, enabled: preference ? preference.enabled : Notification.DEFAULT_CHANNELS[channel] };
+      })
+    );
+  }
+
+  /**
+   * Check whether a notification type is delivered on a channel
+   * @param preferences Resolved preferences
+   * @param type Notification type
+   * @param channel Channel
+   * @returns True if enabled; types without preferences only go in-app
+   */
+  static isEnabled(
+    preferences: INotificationPreference[],
+    type: NotificationType,
+    channel: NotificationChannel
+  ): boolean {
+    const preference = preferences.find(item => item.type === type && item.channel === channel);
+    return preference ? preference.enabled : channel === NotificationChannel.IN_APP;
+  }
+
+  /**
+   * Validate preferences to save
+   * @param preferences Preferences to validate
+   * @throws ApiError if a type, channel or value is invalid
+   */
+  static validatePreferences(preferences: INotificationPreference[]): void {
+    if (!Array.isArray(preferences) || preferences.length === 0) {
+      throw ApiError.badRequest('Preferences must be a non-empty list', 'INVALID_PREFERENCES');
+    }
+
+    const channels = Object.values(NotificationChannel);
+    for (const preference of preferences) {
+      if (!Notification.CONFIGURABLE_TYPES.includes(preference.type)) {
+        throw ApiError.badRequest(
+          `Preference types must be among: ${Notification.CONFIGURABLE_TYPES.join(', ')}`,
+          'INVALID_PREFERENCES'
+        );
+      }
+      if (!channels.includes(preference.channel)) {
+        throw ApiError.badRequest(`Preference channels must be among: ${channels.join(', ')}`, 'INVALID_PREFERENCES');
+      }
+      if (typeof preference.enabled !== 'boolean') {
+        throw ApiError.badRequest('Preference enabled must be a boolean', 'INVALID_PREFERENCES');
+      }
+    }
+  }
+
+  /**
+   * Convert database row to notification object
+   * @param row Database row
+   * @returns Notification object
+   */
+  static fromDatabaseRow(row: any): INotification {
+    return {
+      notification_id: row.notification_id,
+      user_id: row.user_id,
+      type: row.type as NotificationType,
+      title: row.title,
+      body: row.body || null,
+      task_id: row.task_id ?? null,
+      read_at: row.read_at ? new Date(row.read_at) : null,
+      created_at: new Date(row.created_at)
+    };
+  }
+}
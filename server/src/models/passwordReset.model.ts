@@ -0,0 +1,23 @@
+import { IPasswordResetToken } from '../interfaces/passwordReset.interface';
+
+/**
+ * Password Reset Model
+ * Provides utility methods for stored password reset tokens
+ */
+export class PasswordReset {
+  /**
+   * Convert database row to password reset token object
+   * @param row Database row
+   * @returns Password reset token object
+   */
+  static fromDatabaseRow(row: any): IPasswordResetToken {
+    return {
+      reset_token_id: row.reset_token_id,
+      user_id: row.user_id,
+      token_hash: row.token_hash,
+      expires_at: new Date(row.expires_at),
+      used_at: row.used_at ? new Date(row.used_at) : null,
+      created_at: new Date(row.created_at)
+    };
+  }
+}
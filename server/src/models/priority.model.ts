@@ -0,0 +1,80 @@
+import { IPriority, IPriorityCreate, IPriorityUpdate } from '../interfaces/priority.interface';
+import { ApiError } from '../utils/error.utils';
+
+/**
+ * Priority Model
+ * Provides validation and utility methods for priority entities
+ */
+export class Priority {
+  /**
+   * Validate priority creation data
+   * @param data Priority data to validate
+   * @throws ApiError if validation fails
+   */
+  static validateCreate(data: IPriorityCreate): void {
+    this.validateName(data.name);
+
+    if (data.rank !== undefined) {
+      this.validateRank(data.rank);
+    }
+  }
+
+  /**
+   * Validate priority update data
+   * @param data Priority data to validate
+   * @throws ApiError if validation fails
+   */
+  static validateUpdate(data: IPriorityUpdate): void {
+    if (Object.keys(data).length === 0) {
+      throw ApiError.badRequest('No data provided for update', 'NO_UPDATE_DATA');
+    }
+
+    if (data.name !== undefined) {
+      this.validateName(data.name);
+    }
+
+    if (data.rank !== undefined) {
+      this.validateRank(data.rank);
+    }
+  }
+
+  /**
+   * Parse priority from database row
+   * @param row Database row
+   * @returns Priority object
+   */
+  static fromDatabaseRow(row: any): IPriority {
+    return {
+      priority_id: row.priority_id,
+      name: row.name,
+      rank: row.rank
+    };
+  }
+
+  /**
+   * Validate priority name
+   * @param name Priority name
+   * @throws ApiError if name is empty or too long
+   */
+  private static validateName(name?: string): void {
+    if (!name || name.trim().length === 0) {
+      throw ApiError.badRequest('Priority name is required', 'INVALID_NAME');
+    }
+
+    // Name should not exceed 20 characters (based on DB schema)
+    if (name.length > 20) {
+      throw ApiError.badRequest('Priority name must be 20 characters or less', 'INVALID_NAME_LENGTH');
+    }
+  }
+
+  /**
+   * Validate priority rank
+   * @param rank Priority rank
+   * @throws ApiError if rank is not a non-negative integer
+   */
+  private static validateRank(rank: number): void {
+    if (!Number.isInteger(rank) || rank < 0) {
+      throw ApiError.badRequest('Priority rank must be a non-negative integer', 'INVALID_RANK');
+    }
+  }
+}
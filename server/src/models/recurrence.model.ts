@@ -0,0 +1,331 @@
+import { IRecurrenceRule, ITaskSeries, RecurrenceFrequency, Weekday } from '../interfaces/taskSeries.interface';
+import { ApiError } from '../utils/error.utils';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Weekdays in the order of Date.getDay()
+ */
+const WEEKDAYS: Weekday[] = [Weekday.SU, Weekday.MO, Weekday.TU, Weekday.WE, Weekday.TH, Weekday.FR, Weekday.SA];
+
+/**
+ * Fields of a recurrence rule
+ */
+const RULE_FIELDS = ['frequency', 'interval', 'weekdays', 'month_day', 'week_of_month', 'count', 'until'];
+
+/**
+ * Recurrence Model
+ * Validates recurrence rules and computes the due dates of recurring tasks
+ *
+ * Dates are calendar days: due dates are read and written as YYYY-MM-DD strings
+ * and computed with local dates, so daylight saving time never shifts them
+ */
+export class Recurrence {
+  static readonly MAX_INTERVAL = 99;
+  static readonly MAX_COUNT = 1000;
+
+  /**
+   * Validate a recurrence rule
+   * @param value Rule to validate
+   * @returns Rule with only its known fields and without duplicate weekdays
+   * @throws ApiError if the rule is malformed or combines fields of different frequencies
+   */
+  static validate(value: unknown): IRecurrenceRule {
+    const invalid = (message: string) => ApiError.badRequest(message, 'INVALID_RECURRENCE');
+
+    if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+      throw invalid('Recurrence must be an object');
+    }
+
+    const rule = value as Record<string, any>;
+    const unknown = Object.keys(rule).filter(key => !RULE_FIELDS.includes(key));
+    if (unknown.length > 0) {
+      throw invalid(`Unknown recurrence fields: ${unknown.join(', ')}`);
+    }
+
+    if (!Object.values(RecurrenceFrequency).includes(rule.frequency)) {
+      throw invalid(`Recurrence frequency must be one of: ${Object.values(RecurrenceFrequency).join(', ')}`);
+    }
+
+    const normalized: IRecurrenceRule = { frequency: rule.frequency };
+
+    if (rule.interval !== undefined) {
+      if (!Number.isInteger(rule.interval) || rule.interval < 1 || rule.interval > Recurrence.MAX_INTERVAL) {
+        throw invalid(`Recurrence interval must be an integer between 1 and ${Recurrence.MAX_INTERVAL}`);
+      }
+      normalized.interval = rule.interval;
+    }
+
+    if (rule.weekdays !== undefined) {
+      if (
+        !Array.isArray(rule.weekdays) ||
+        rule.weekdays.length === 0 ||
+        rule.weekdays.some((day: unknown) => !WEEKDAYS.includes(day as Weekday))
+      ) {
+        throw invalid(`Recurrence weekdays must be a list among: ${WEEKDAYS.join(', ')}`);
+      }
+      normalized.weekdays = Array.from(new Set(rule.weekdays as Weekday[]));
+    }
+
+    if (rule.month_day !== undefined) {
+      if (!Number.isInteger(rule.month_day) || rule.month_day < 1 || rule.month_day > 31) {
+        throw invalid('Recurrence month day must be an integer between 1 and 31');
+      }
+      normalized.month_day = rule.month_day;
+    }
+
+    if (rule.week_of_month !== undefined) {
+      if (![1, 2, 3, 4, -1].includes(rule.week_of_month)) {
+        throw invalid('Recurrence week of month must be 1, 2, 3, 4 or -1 (last)');
+      }
+      normalized.week_of_month = rule.week_of_month;
+    }
+
+    if (rule.count !== undefined) {
+      if (!Number.isInteger(rule.count) || rule.count < 1 || rule.count > Recurrence.MAX_COUNT) {
+        throw invalid(`Recurrence count must be an integer between 1 and ${Recurrence.MAX_COUNT}`);
+      }
+      normalized.count = rule.count;
+    }
+
+    if (rule.until !== undefined) {
+      if (typeof rule.until !== 'string' || !Recurrence.parseDate(rule.until)) {
+        throw invalid('Recurrence until must be a date (YYYY-MM-DD)');
+      }
+      normalized.until = rule.until;
+    }
+
+    if (normalized.count !== undefined && normalized.until !== undefined) {
+      throw invalid('Recurrence cannot have both a count and an until date');
+    }
+
+    Recurrence.validateFrequencyFields(normalized);
+
+    return normalized;
+  }
+
+  /**
+   * Anchor a rule to the due date of the first occurrence
+   * Monthly and yearly rules without a day repeat on the day of the first due date, so that
+   * clamping to the end of a shorter month (or to February 28) does not move later occurrences
+   * @param rule Recurrence rule
+   * @param dueDate Due date of the first occurrence (YYYY-MM-DD)
+   * @returns Anchored rule
+   */
+  static anchor(rule: IRecurrenceRule, dueDate: string): IRecurrenceRule {
+    const date = Recurrence.parseDate(dueDate);
+    if (
+      !date ||
+      (rule.frequency !== RecurrenceFrequency.MONTHLY && rule.frequency !== RecurrenceFrequency.YEARLY) ||
+      rule.month_day !== undefined ||
+      rule.week_of_month !== undefined
+    ) {
+      return rule;
+    }
+
+    return { ...rule, month_day: date.getDate() };
+  }
+
+  /**
+   * Compute the due date of the occurrence following another one
+   * @param rule Recurrence rule
+   * @param dueDate Due date of the current occurrence (YYYY-MM-DD)
+   * @param occurrences Number of occurrences generated so far
+   * @returns Due date of the next occurrence (YYYY-MM-DD), or null when the series is over
+   */
+  static nextOccurrence(rule: IRecurrenceRule, dueDate: string, occurrences: number): string | null {
+    const current = Recurrence.parseDate(dueDate);
+    if (!current || (rule.count !== undefined && occurrences >= rule.count)) {
+      return null;
+    }
+
+    const interval = rule.interval || 1;
+    let next: Date;
+
+    switch (rule.frequency) {
+      case RecurrenceFrequency.DAILY:
+        next = Recurrence.addDays(current, interval);
+        break;
+      case RecurrenceFrequency.WEEKLY:
+        next = Recurrence.nextWeekly(current, interval, rule.weekdays);
+        break;
+      case RecurrenceFrequency.MONTHLY:
+        next = Recurrence.nextMonthly(current, interval, rule);
+        break;
+      case RecurrenceFrequency.YEARLY:
+        next = Recurrence.dayOfMonth(current.getFullYear() + interval, current.getMonth(), rule.month_day ?? current.getDate());
+        break;
+    }
+
+    const until = rule.until ? Recurrence.parseDate(rule.until) : null;
+    if (until && next > until) {
+      return null;
+    }
+
+    return Recurrence.formatDate(next);
+  }
+
+  /**
+   * Parse task series from database row
+   * @param row Database row
+   * @returns Task series object
+   */
+  static seriesFromDatabaseRow(row: any): ITaskSeries {
+    return {
+      series_id: row.series_id,
+      recurrence: row.recurrence,
+      title: row.title,
+      description: row.description || null,
+      category_id: row.category_id || null,
+      priority_id: row.priority_id || null,
+      occurrence_count: row.occurrence_count,
+      created_at: new Date(row.created_at),
+      updated_at: new Date(row.updated_at)
+    };
+  }
+
+  /**
+   * Format a date as a calendar day
+   * @param date Date
+   * @returns Local date as YYYY-MM-DD
+   */
+  static formatDate(date: Date): string {
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+  }
+
+  /**
+   * Ensure the fields of a rule fit its frequency
+   * @param rule Recurrence rule
+   * @throws ApiError if a field does not apply to the frequency
+   */
+  private static validateFrequencyFields(rule: IRecurrenceRule): void {
+    const invalid = (message: string) => ApiError.badRequest(message, 'INVALID_RECURRENCE');
+
+    switch (rule.frequency) {
+      case RecurrenceFrequency.WEEKLY:
+        if (rule.month_day !== undefined || rule.week_of_month !== undefined) {
+          throw invalid('Weekly recurrences repeat on weekdays, not on days of the month');
+        }
+        break;
+      case RecurrenceFrequency.MONTHLY:
+        if (rule.month_day !== undefined && rule.week_of_month !== undefined) {
+          throw invalid('Monthly recurrences repeat either on a day of the month or on the nth weekday');
+        }
+        if ((rule.week_of_month !== undefined) !== (rule.weekdays !== undefined)) {
+          throw invalid('Monthly recurrences on the nth weekday need both a week of month and a weekday');
+        }
+        if (rule.weekdays && rule.weekdays.length !== 1) {
+          throw invalid('Monthly recurrences on the nth weekday repeat on a single weekday');
+        }
+        break;
+      case RecurrenceFrequency.YEARLY:
+        if (rule.weekdays !== undefined || rule.week_of_month !== undefined) {
+          throw invalid('Yearly recurrences repeat on a day of the month, not on weekdays');
+        }
+        break;
+      default:
+        if (rule.weekdays !== undefined || rule.month_day !== undefined || rule.week_of_month !== undefined) {
+          throw invalid(`${rule.frequency} recurrences cannot have weekdays or days of the month`);
+        }
+    }
+  }
+
+  /**
+   * Find the next day of a weekly recurrence
+   * Weeks start on Monday; only every interval-th week, counted from the current one, is used
+   * @param current Current due date
+   * @param interval Number of weeks between active weeks
+   * @param weekdays Days of the week (default: the weekday of the current due date)
+   * @returns Next due date
+   */
+  private static nextWeekly(current: Date, interval: number, weekdays?: Weekday[]): Date {
+    if (!weekdays) {
+      return Recurrence.addDays(current, 7 * interval);
+    }
+
+    const days = weekdays.map(day => WEEKDAYS.indexOf(day));
+    const currentWeek = Recurrence.startOfWeek(current);
+
+    // The interval-th week after the current one contains every weekday, so this always ends
+    for (let offset = 1; ; offset++) {
+      const candidate = Recurrence.addDays(current, offset);
+      const weeks = Math.round((Recurrence.startOfWeek(candidate).getTime() - currentWeek.getTime()) / (7 * DAY_MS));
+      if (weeks % interval === 0 && days.includes(candidate.getDay())) {
+        return candidate;
+      }
+    }
+  }
+
+  /**
+   * Find the next day of a monthly recurrence
+   * @param current Current due date
+   * @param interval Number of months between occurrences
+   * @param rule Recurrence rule with a day of the month, or a week of month and weekday
+   * @returns Next due date
+   */
+  private static nextMonthly(current: Date, interval: number, rule: IRecurrenceRule): Date {
+    const dayIn = (month: number): Date =>
+      rule.week_of_month !== undefined && rule.weekdays
+        ? Recurrence.nthWeekday(current.getFullYear(), month, WEEKDAYS.indexOf(rule.weekdays[0]), rule.week_of_month)
+        : Recurrence.dayOfMonth(current.getFullYear(), month, rule.month_day ?? current.getDate());
+
+    // The rule's day may still be ahead in the current month
+    const sameMonth = dayIn(current.getMonth());
+    return sameMonth > current ? sameMonth : dayIn(current.getMonth() + interval);
+  }
+
+  /**
+   * Get the nth weekday of a month
+   * @param year Year
+   * @param month Month index; overflowing months roll into the next years
+   * @param weekday Day of the week as returned by Date.getDay()
+   * @param nth 1-4, or -1 for the last one
+   * @returns Date
+   */
+  private static nthWeekday(year: number, month: number, weekday: number, nth: number): Date {
+    if (nth === -1) {
+      const last = new Date(year, month + 1, 0);
+      return Recurrence.addDays(last, -((last.getDay() - weekday + 7) % 7));
+    }
+
+    const first = new Date(year, month, 1);
+    return Recurrence.addDays(first, (weekday - first.getDay() + 7) % 7 + (nth - 1) * 7);
+  }
+
+  /**
+   * Get a day of a month, clamped to the last day of shorter months
+   * @param year Year
+   * @param month Month index; overflowing months roll into the next years
+   * @param day Day of the month
+   * @returns Date
+   */
+  private static dayOfMonth(year: number, month: number, day: number): Date {
+    const lastDay = new Date(year, month + 1, 0).getDate();
+    return new Date(year, month, Math.min(day, lastDay));
+  }
+
+  /**
+   * Parse a calendar day
+   * @param value Date as YYYY-MM-DD
+   * @returns Local date, or null if the value is not a valid date
+   */
+  private static parseDate(value: string): Date | null {
+    const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+    if (!match) {
+      return null;
+    }
+
+    const date = new Date(parseInt(match[1]), parseInt(match[2]) - 1, parseInt(match[3]));
+    return Recurrence.formatDate(date) === value ? date : null;
+  }
+
+  private static addDays(date: Date, days: number): Date {
+    return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+  }
+
+  private static startOfWeek(date: Date): Date {
+    return Recurrence.addDays(date, -((date.getDay() + 6) % 7));
+  }
+}
@@ -0,0 +1,24 @@
+import { IRefreshToken } from '../interfaces/refreshToken.interface';
+
+/**
+ * Refresh Token Model
+ * Provides utility methods for stored refresh tokens
+ */
+export class RefreshToken {
+  /**
+   * Convert database row to refresh token object
+   * @param row Database row
+   * @returns Refresh token object
+   */
+  static fromDatabaseRow(row: any): IRefreshToken {
+    return {
+      token_id: row.token_id,
+      user_id: row.user_id,
+      family_id: row.family_id,
+      replaced_by: row.replaced_by || null,
+      created_at: new Date(row.created_at),
+      rotated_at: row.rotated_at ? new Date(row.rotated_at) : null,
+      revoked_at: row.revoked_at ? new Date(row.revoked_at) : null
+    };
+  }
+}
@@ -0,0 +1,201 @@
+import {
+  IDueReminder,
+  IReminder,
+  IReminderCreate,
+  IReminderSettings,
+  IReminderSettingsUpdate,
+  ReminderChannel,
+  ReminderStatus
+} from '../interfaces/reminder.interface';
+import { StatusCategory } from '../interfaces/status.interface';
+import { ApiError } from '../utils/error.utils';
+
+/**
+ * Reminder Model
+ * Provides validation and utility methods for task reminders and reminder defaults
+ */
+export class Reminder {
+  /**
+   * Longest offset before a due date (30 days)
+   */
+  static readonly MAX_OFFSET_MINUTES = 30 * 24 * 60;
+
+  /**
+   * Most default reminders a user can have
+   */
+  static readonly MAX_DEFAULT_OFFSETS = 5;
+
+  /**
+   * Channels used when a reminder is created without any
+   */
+  static readonly DEFAULT_CHANNELS: ReadonlyArray<ReminderChannel> = [ReminderChannel.IN_APP];
+
+  /**
+   * Validate reminder creation data
+   * @param data Reminder data to validate
+   * @throws ApiError if validation fails
+   */
+  static validateCreate(data: IReminderCreate): void {
+    const hasTime = data.remind_at !== undefined;
+    const hasOffset = data.offset_minutes !== undefined;
+
+    if (hasTime === hasOffset) {
+      throw ApiError.badRequest('A reminder needs either a time or an offset before the due date', 'INVALID_REMINDER');
+    }
+
+    if (hasTime) {
+      const remindAt = new Date(data.remind_at as Date);
+      if (isNaN(remindAt.getTime())) {
+        throw ApiError.badRequest('Invalid reminder time format', 'INVALID_REMINDER');
+      }
+      if (remindAt.getTime() <= Date.now()) {
+        throw ApiError.badRequest('Reminder time must be in the future', 'INVALID_REMINDER');
+      }
+    } else {
+      Reminder.validateOffset(data.offset_minutes as number);
+    }
+
+    if (data.channels !== undefined) {
+      Reminder.validateChannels(data.channels);
+    }
+  }
+
+  /**
+   * Validate reminder settings
+   * @param data Settings to validate
+   * @throws ApiError if validation fails
+   */
+  static validateSettings(data: IReminderSettingsUpdate): void {
+    if (data.default_offsets !== undefined) {
+      if (!Array.isArray(data.default_offsets) || data.default_offsets.length > Reminder.MAX_DEFAULT_OFFSETS) {
+        throw ApiError.badRequest(
+          `Default offsets must be a list of at most ${Reminder.MAX_DEFAULT_OFFSETS} offsets`,
+          'INVALID_OFFSET'
+        );
+      }
+      data.default_offsets.forEach(Reminder.validateOffset);
+    }
+
+    if (data.default_channels !== undefined) {
+      Reminder.validateChannels(data.default_channels);
+    }
+
+    if (data.webhook_url !== undefined && data.webhook_url !== null) {
+      let url: URL | null = null;
+      try {
+        url = new URL(data.webhook_url);
+      } catch {
+        url = null;
+      }
+      if (!url || !['http:', 'https:'].includes(url.protocol)) {
+        throw ApiError.badRequest('Webhook URL must be an http or https URL', 'INVALID_WEBHOOK_URL');
+      }
+    }
+  }
+
+  /**
+   * Describe when a task is due, relative to a reminder firing now
+   * @param dueDate Due date (YYYY-MM-DD), if any
+   * @param now Current time
+   * @returns Description such as "Due today" or "Due in 3 days", or null without a due date
+   */
+  static describeDueDate(dueDate: string | null, now: Date = new Date()): string | null {
+    const match = dueDate ? /^(\d{4})-(\d{2})-(\d{2})/.exec(dueDate) : null;
+    if (!match) {
+      return null;
+    }
+
+    const due = new Date(parseInt(match[1]), parseInt(match[2]) - 1, parseInt(match[3]));
+    const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+    const days = Math.round((due.getTime() - today.getTime()) / (24 * 60 * 60 * 1000));
+
+    if (days === 0) {
+      return 'Due today';
+    }
+    if (days === 1) {
+      return 'Due tomorrow';
+    }
+    return days > 0 ? `Due in ${days} days` : `Overdue by ${-days} day${days === -1 ? '' : 's'}`;
+  }
+
+  /**
+   * Convert database row to reminder object
+   * @param row Database row
+   * @returns Reminder object
+   */
+  static fromDatabaseRow(row: any): IReminder {
+    return {
+      reminder_id: row.reminder_id,
+      task_id: row.task_id,
+      user_id: row.user_id,
+      remind_at: row.remind_at ? new Date(row.remind_at) : null,
+      offset_minutes: row.offset_minutes ?? null,
+      fire_at: row.fire_at ? new Date(row.fire_at) : null,
+      channels: (row.channels || []) as ReminderChannel[],
+      status: row.status as ReminderStatus,
+      delivered_channels: (row.delivered_channels || []) as ReminderChannel[],
+      attempts: row.attempts,
+      last_error: row.last_error || null,
+      sent_at: row.sent_at ? new Date(row.sent_at) : null,
+      created_at: new Date(row.created_at)
+    };
+  }
+
+  /**
+   * Convert database row to claimed reminder object
+   * @param row Database row joined with the task and the recipient
+   * @returns Claimed reminder object
+   */
+  static dueFromDatabaseRow(row: any): IDueReminder {
+    return {
+      ...Reminder.fromDatabaseRow(row),
+      task_title: row.task_title,
+      task_due_date: row.task_due_date || null,
+      task_status_category: (row.task_status_category as StatusCategory) || null,
+      username: row.username,
+      email: row.email,
+      webhook_url: row.webhook_url || null
+    };
+  }
+
+  /**
+   * Convert database row to reminder settings object
+   * @param row Database row
+   * @returns Reminder settings object
+   */
+  static settingsFromDatabaseRow(row: any): IReminderSettings {
+    return {
+      user_id: row.user_id,
+      default_offsets: row.default_offsets || [],
+      default_channels: (row.default_channels || []) as ReminderChannel[],
+      webhook_url: row.webhook_url || null,
+      updated_at: row.updated_at ? new Date(row.updated_at) : undefined
+    };
+  }
+
+  /**
+   * Validate an offset before a due date
+   * @param offset Minutes before the due day
+   * @throws ApiError if the offset is out of range
+   */
+  private static validateOffset(offset: number): void {
+    if (!Number.isInteger(offset) || offset < 0 || offset > Reminder.MAX_OFFSET_MINUTES) {
+      throw ApiError.badRequest(
+        `Reminder offsets must be whole minutes between 0 and ${Reminder.MAX_OFFSET_MINUTES}`,
+        'INVALID_OFFSET'
+      );
+    }
+  }
+
+  /**
+   * Validate a list of channels
+   * @param channels Channels
+   * @throws ApiError if the list is empty or has unknown channels
+   */
+  private static validateChannels(channels: ReminderChannel[]): void {
+    const known = Object.values(ReminderChannel);
+    if (!Array.isArray(channels) || channels.length === 0 || channels.some(channel => !known.includes(channel))) {
+      throw ApiError.badRequest(`Channels must be a list among: ${known.join(', ')}`, 'INVALID_CHANNELS');
+    }
+  }
+}
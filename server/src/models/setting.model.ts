@@ -0,0 +1,68 @@
+import { AppSettingKey, IAppSettings } from '../interfaces/settings.interface';
+import { ApiError } from '../utils/error.utils';
+
+/**
+ * Setting Model
+ * Provides validation and utility methods for application settings
+ */
+export class Setting {
+  /**
+   * Values used for settings that have not been stored
+   */
+  static readonly DEFAULTS: Readonly<IAppSettings> = {
+    require_verified_email_for_tasks: false
+  };
+
+  /**
+   * Validate a settings update
+   * @param data Settings to change
+   * @throws ApiError if a setting is unknown or has the wrong type
+   */
+  static validateUpdate(data: Record<string, unknown>): void {
+    const keys = Object.keys(data);
+    if (keys.length === 0) {
+      throw ApiError.badRequest('No settings provided', 'NO_SETTINGS');
+    }
+
+    for (const key of keys) {
+      if (!this.isKey(key)) {
+        throw ApiError.badRequest(`Unknown setting: ${key}`, 'UNKNOWN_SETTING');
+      }
+
+      if (typeof data[key] !== typeof this.DEFAULTS[key]) {
+        throw ApiError.badRequest(
+          `Setting ${key} must be a ${typeof this.DEFAULTS[key]}`,
+          'INVALID_SETTING_VALUE'
+        );
+      }
+    }
+  }
+
+  /**
+   * Check whether a name is a known setting
+   * @param key Setting name
+   * @returns Boolean indicating if the setting exists
+   */
+  static isKey(key: string): key is AppSettingKey {
+    return Object.prototype.hasOwnProperty.call(this.DEFAULTS, key);
+  }
+
+  /**
+   * Convert database rows to application settings
+   * Unknown keys are ignored and missing keys take their default
+   * @param rows Database rows with key and value columns
+   * @returns Application settings
+   */
+  static fromDatabaseRows(rows: any[]): IAppSettings {
+    const settings: IAppSettings = { ...this.DEFAULTS };
+
+    for (const row of rows) {
+      const key: string = row.key;
+      if (this.isKey(key)) {
+        (settings as Record<AppSettingKey, unknown>)[key] = row.value;
+      }
+    }
+
+    return settings;
+  }
+}
@@ -0,0 +1,192 @@
+import { IStatus, IStatusCreate, IStatusUpdate, StatusCategory } from '../interfaces/status.interface';
+import { TaskStatus } from '../interfaces/task.interface';
+import { ApiError } from '../utils/error.utils';
+
+/**
+ * Status Model
+ * Provides validation and utility methods for task statuses
+ */
+export class Status {
+  /**
+   * Format of status keys
+   */
+  static readonly KEY_PATTERN = /^[a-z][a-z0-9_]{0,29}$/;
+
+  /**
+   * Color used when a status is created without one
+   */
+  static readonly DEFAULT_COLOR = '#6B7280';
+
+  /**
+   * Categories of statuses whose tasks still need work
+   */
+  static readonly OPEN_CATEGORIES: ReadonlyArray<StatusCategory> = [StatusCategory.TODO, StatusCategory.IN_PROGRESS];
+
+  /**
+   * Categories of statuses whose tasks are finished, one way or another
+   */
+  static readonly CLOSED_CATEGORIES: ReadonlyArray<StatusCategory> = [StatusCategory.DONE, StatusCategory.CANCELLED];
+
+  /**
+   * Check whether tasks in a status category still need work
+   * @param category Status category
+   * @returns Boolean indicating if the category is open
+   */
+  static isOpen(category?: StatusCategory | null): boolean {
+    return !category || Status.OPEN_CATEGORIES.includes(category);
+  }
+
+  /**
+   * Derive a status key from its name, e.g. "In review" becomes "in_review"
+   * @param name Status name
+   * @returns Status key
+   */
+  static keyFromName(name: string): string {
+    const key = name
+      .trim()
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '_')
+      .replace(/^_+|_+$/g, '');
+
+    return (/^[a-z]/.test(key) ? key : `s_${key}`).slice(0, 30).replace(/_+$/, '');
+  }
+
+  /**
+   * Validate status creation data
+   * @param data Status data to validate
+   * @throws ApiError if validation fails
+   */
+  static validateCreate(data: IStatusCreate): void {
+    if (!data.workspace_id) {
+      throw ApiError.badRequest('Workspace ID is required', 'WORKSPACE_ID_REQUIRED');
+    }
+
+    this.validateName(data.name);
+    this.validateCategory(data.category);
+
+    if (data.key !== undefined) {
+      this.validateKey(data.key);
+    }
+
+    if (data.color !== undefined) {
+      this.validateColor(data.color);
+    }
+
+    if (data.position !== undefined) {
+      this.validatePosition(data.position);
+    }
+  }
+
+  /**
+   * Validate status update data
+   * The category cannot change because tasks already in the status depend on it
+   * @param data Status data to validate
+   * @throws ApiError if validation fails
+   */
+  static validateUpdate(data: IStatusUpdate): void {
+    if (Object.keys(data).length === 0) {
+      throw ApiError.badRequest('No data provided for update', 'NO_UPDATE_DATA');
+    }
+
+    if (data.name !== undefined) {
+      this.validateName(data.name);
+    }
+
+    if (data.color !== undefined) {
+      this.validateColor(data.color);
+    }
+
+    if (data.position !== undefined) {
+      this.validatePosition(data.position);
+    }
+  }
+
+  /**
+   * Validate a status key
+   * Built-in keys are reserved so that a task's status always resolves to one status
+   * @param key Status key
+   * @throws ApiError if the key is malformed or reserved
+   */
+  static validateKey(key: string): void {
+    if (!Status.KEY_PATTERN.test(key)) {
+      throw ApiError.badRequest(
+        'Status key must start with a letter and contain at most 30 lowercase letters, digits or underscores',
+        'INVALID_KEY'
+      );
+    }
+
+    if ((Object.values(TaskStatus) as string[]).includes(key)) {
+      throw ApiError.badRequest(`Status key ${key} is reserved for a built-in status`, 'INVALID_KEY');
+    }
+  }
+
+  /**
+   * Parse status from database row
+   * @param row Database row
+   * @returns Status object
+   */
+  static fromDatabaseRow(row: any): IStatus {
+    return {
+      status_id: row.status_id,
+      workspace_id: row.workspace_id || null,
+      key: row.key,
+      name: row.name,
+      category: row.category as StatusCategory,
+      position: row.position,
+      color: row.color,
+      created_at: new Date(row.created_at)
+    };
+  }
+
+  /**
+   * Validate status name
+   * @param name Status name
+   * @throws ApiError if name is empty or too long
+   */
+  private static validateName(name?: string): void {
+    if (!name || name.trim().length === 0) {
+      throw ApiError.badRequest('Status name is required', 'INVALID_NAME');
+    }
+
+    // Name should not exceed 50 characters (based on DB schema)
+    if (name.length > 50) {
+      throw ApiError.badRequest('Status name must be 50 characters or less', 'INVALID_NAME_LENGTH');
+    }
+  }
+
+  /**
+   * Validate status category
+   * @param category Status category
+   * @throws ApiError if the category is unknown
+   */
+  private static validateCategory(category: string): void {
+    if (!Object.values(StatusCategory).includes(category as StatusCategory)) {
+      throw ApiError.badRequest(
+        `Status category must be one of: ${Object.values(StatusCategory).join(', ')}`,
+        'INVALID_CATEGORY'
+      );
+    }
+  }
+
+  /**
+   * Validate status color
+   * @param color Hex color (e.g. #3B82F6)
+   * @throws ApiError if color is not a 6-digit hex color
+   */
+  private static validateColor(color: string): void {
+    if (!/^#[0-9A-Fa-f]{6}$/.test(color)) {
+      throw ApiError.badRequest('Status color must be a hex color like #3B82F6', 'INVALID_COLOR');
+    }
+  }
+
+  /**
+   * Validate status position
+   * @param position Position among the statuses
+   * @throws ApiError if the position is not a non-negative integer
+   */
+  private static validatePosition(position: number): void {
+    if (!Number.isInteger(position) || position < 0) {
+      throw ApiError.badRequest('Status position must be a non-negative integer', 'INVALID_POSITION');
+    }
+  }
+}
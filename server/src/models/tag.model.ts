@@ -0,0 +1,106 @@
+import { ITag } from '../interfaces/tag.interface';
+import { ApiError } from '../utils/error.utils';
+
+/**
+ * Tag Model
+ * Provides validation and utility methods for tags
+ */
+export class Tag {
+  static readonly MAX_NAME_LENGTH = 50;
+
+  /**
+   * Most tags a single task can carry
+   */
+  static readonly MAX_PER_TASK = 20;
+
+  static readonly DEFAULT_LIMIT = 20;
+  static readonly MAX_LIMIT = 100;
+
+  /**
+   * Normalize a tag name: surrounding spaces are trimmed and inner runs of spaces collapsed
+   * Names are compared case-insensitively; commas separate tags in filters, so they are not allowed
+   * @param name Tag name
+   * @returns Normalized name
+   * @throws ApiError if the name is empty, too long or contains a comma
+   */
+  static normalizeName(name: unknown): string {
+    if (typeof name !== 'string' || name.trim().length === 0) {
+      throw ApiError.badRequest('Tag name is required', 'INVALID_TAG');
+    }
+
+    const normalized = name.trim().replace(/\s+/g, ' ');
+    if (normalized.length > Tag.MAX_NAME_LENGTH) {
+      throw ApiError.badRequest(`Tag names must be ${Tag.MAX_NAME_LENGTH} characters or less`, 'INVALID_TAG');
+    }
+    if (normalized.includes(',')) {
+      throw ApiError.badRequest('Tag names cannot contain commas', 'INVALID_TAG');
+    }
+
+    return normalized;
+  }
+
+  /**
+   * Normalize the tags of a task, dropping names repeated in another case
+   * @param names Tag names
+   * @returns Normalized names in their first spelling
+   * @throws ApiError if the tags are not a list of valid names or there are too many
+   */
+  static normalizeNames(names: unknown): string[] {
+    if (!Array.isArray(names)) {
+      throw ApiError.badRequest('Tags must be a list of names', 'INVALID_TAGS');
+    }
+
+    const unique = new Map<string, string>();
+    for (const name of names) {
+      const normalized = Tag.normalizeName(name);
+      if (!unique.has(normalized.toLowerCase())) {
+        unique.set(normalized.toLowerCase(), normalized);
+      }
+    }
+
+    if (unique.size > Tag.MAX_PER_TASK) {
+      throw ApiError.badRequest(`A task can have at most ${Tag.MAX_PER_TASK} tags`, 'TOO_MANY_TAGS');
+    }
+
+    return Array.from(unique.values());
+  }
+
+  /**
+   * Parse a tag list such as `urgent,client a`
+   * @param value Comma separated tag names
+   * @returns Normalized names
+   * @throws ApiError if a name is invalid
+   */
+  static parseList(value: string): string[] {
+    return Tag.normalizeNames(value.split(',').filter(name => name.trim().length > 0));
+  }
+
+  /**
+   * Escape the LIKE wildcards of a name prefix
+   * @param prefix Name prefix
+   * @returns Pattern matching names starting with the prefix
+   */
+  static prefixPattern(prefix: string): string {
+    return `${prefix.replace(/[\\%_]/g, character => `\\${character}`)}%`;
+  }
+
+  /**
+   * Parse tag from database row
+   * @param row Database row, with task_count in listings
+   * @returns Tag object
+   */
+  static fromDatabaseRow(row: any): ITag {
+    const tag: ITag = {
+      tag_id: row.tag_id,
+      user_id: row.user_id,
+      workspace_id: row.workspace_id || null,
+      name: row.name,
+      created_at: new Date(row.created_at)
+    };
+    if (row.task_count !== undefined) {
+      tag.task_count = Number(row.task_count);
+    }
+
+    return tag;
+  }
+}
@@ -1,11 +1,76 @@
-import { ITask, ITaskCreate, ITaskUpdate, TaskStatus } from '../interfaces/task.interface';
+import {
+  ITask,
+  ITaskCreate,
+  ITaskProgress,
+  ITaskQuery,
+  ITaskSearchResult,
+  ITaskSort,
+  ITaskUpdate,
+  TaskBulkOperationType,
+  TaskField,
+  TaskSortField
+} from '../interfaces/task.interface';
+import { StatusCategory } from '../interfaces/status.interface';
 import { ApiError } from '../utils/error.utils';
+import { Recurrence } from './recurrence.model';
+import { Status } from './status.model';
+import { Tag } from './tag.model';
+import { TaskAssignment } from './taskAssignment.model';
 
 /**
  * Task Model
  * Provides validation and utility methods for task entities
  */
 export class Task {
+  static readonly DEFAULT_PAGE_SIZE = 50;
+  static readonly MAX_PAGE_SIZE = 100;
+  static readonly DEFAULT_SEARCH_LIMIT = 20;
+
+  /**
+   * Deepest level of subtasks; top-level tasks are on level 1
+   */
+  static readonly MAX_DEPTH = 3;
+
+  /**
+   * Most tasks a bulk operation applies to
+   */
+  static readonly MAX_BULK_SIZE = 100;
+
+  static readonly BULK_OPERATIONS: TaskBulkOperationType[] = ['update', 'change_status', 'delete', 'archive', 'unarchive', 'assign'];
+
+  /**
+   * Fields a bulk update can set; the others are specific to each task
+   */
+  static readonly BULK_UPDATE_FIELDS: (keyof ITaskUpdate)[] = ['category_id', 'priority_id', 'due_date', 'tags'];
+
+  static readonly SORT_FIELDS: TaskSortField[] = ['due_date', 'priority', 'created_at', 'updated_at', 'title', 'status'];
+
+  static readonly FIELDS: TaskField[] = [
+    'task_id',
+    'user_id',
+    'workspace_id',
+    'parent_task_id',
+    'category_id',
+    'priority_id',
+    'title',
+    'description',
+    'due_date',
+    'status',
+    'status_category',
+    'completed_at',
+    'cancelled_at',
+    'cancellation_reason',
+    'archived_at',
+    'series_id',
+    'recurrence',
+    'assignees',
+    'tags',
+    'subtask_progress',
+    'checklist_progress',
+    'created_at',
+    'updated_at'
+  ];
+
   /**
    * Validate task creation data
    * @param data Task data to validate
@@ -31,6 +96,19 @@ export class Task {
     if (data.due_date && isNaN(new Date(data.due_date).getTime())) {
       throw ApiError.badRequest('Invalid due date format', 'INVALID_DUE_DATE');
     }
+
+    // Occurrences of a recurring task are spaced from their due dates
+    if (data.recurrence !== undefined) {
+      Recurrence.validate(data.recurrence);
+      if (!data.due_date) {
+        throw ApiError.badRequest('A recurring task needs a due date', 'RECURRENCE_REQUIRES_DUE_DATE');
+      }
+    }
+
+    // Validate tags if provided
+    if (data.tags !== undefined) {
+      Tag.normalizeNames(data.tags);
+    }
   }
 
   /**
@@ -59,15 +137,19 @@ export class Task {
       throw ApiError.badRequest('Invalid due date format', 'INVALID_DUE_DATE');
     }
 
-    // Validate status if provided
-    if (data.status) {
-      const validStatuses = Object.values(TaskStatus);
-      if (!validStatuses.includes(data.status)) {
-        throw ApiError.badRequest(
-          `Status must be one of: ${validStatuses.join(', ')}`,
-          'INVALID_STATUS'
-        );
-      }
+    // Validate status key format if provided; whether the status exists depends on the workspace
+    if (data.status !== undefined && !Status.KEY_PATTERN.test(data.status)) {
+      throw ApiError.badRequest('Status must be a valid status key', 'INVALID_STATUS');
+    }
+
+    // Validate recurrence if provided; null stops the series
+    if (data.recurrence !== undefined && data.recurrence !== null) {
+      Recurrence.validate(data.recurrence);
+    }
+
+    // Validate tags if provided; an empty list removes them
+    if (data.tags !== undefined) {
+      Tag.normalizeNames(data.tags);
     }
   }
 
@@ -80,14 +162,159 @@ export class Task {
     return {
       task_id: row.task_id,
       user_id: row.user_id,
+      workspace_id: row.workspace_id || null,
+      parent_task_id: row.parent_task_id || null,
       category_id: row.category_id || null,
       priority_id: row.priority_id || null,
       title: row.title,
       description: row.description || null,
       due_date: row.due_date ? new Date(row.due_date) : undefined,
-      status: row.status as TaskStatus,
+      status: row.status,
+      status_category: (row.status_category as StatusCategory) || undefined,
+      completed_at: row.completed_at ? new Date(row.completed_at) : null,
+      cancelled_at: row.cancelled_at ? new Date(row.cancelled_at) : null,
+      cancellation_reason: row.cancellation_reason || null,
+      archived_at: row.archived_at ? new Date(row.archived_at) : null,
+      series_id: row.series_id || null,
+      recurrence: row.recurrence || null,
+      assignees: TaskAssignment.assigneesFromJson(row.assignees),
+      tags: row.tags || [],
+      subtask_progress: Task.progressFromJson(row.subtask_progress),
+      checklist_progress: Task.progressFromJson(row.checklist_progress),
       created_at: new Date(row.created_at),
       updated_at: new Date(row.updated_at)
     };
   }
+
+  /**
+   * Convert an aggregated progress object
+   * @param progress Object built by json_build_object, or undefined when not selected
+   * @returns Progress, with nothing done when the task has no subtasks or items
+   */
+  static progressFromJson(progress: any): ITaskProgress {
+    return {
+      total: Number(progress?.total ?? 0),
+      done: Number(progress?.done ?? 0)
+    };
+  }
+
+  /**
+   * Parse search result from database row
+   * @param row Database row with rank and highlight columns
+   * @returns Task search result
+   */
+  static searchResultFromDatabaseRow(row: any): ITaskSearchResult {
+    return {
+      ...Task.fromDatabaseRow(row),
+      rank: parseFloat(row.rank),
+      highlights: {
+        title: row.title_highlight,
+        description: row.description_highlight || null
+      }
+    };
+  }
+
+  /**
+   * Parse a sort expression such as "-priority,due_date"
+   * Fields are applied in order; a leading "-" sorts that field descending
+   * @param value Comma separated sort fields
+   * @returns Sort keys
+   * @throws ApiError if a field is unknown or repeated
+   */
+  static parseSort(value: string): ITaskSort[] {
+    const sort: ITaskSort[] = [];
+
+    for (const part of value.split(',').map(item => item.trim())) {
+      const descending = part.startsWith('-');
+      const field = (descending ? part.slice(1) : part) as TaskSortField;
+
+      if (!Task.SORT_FIELDS.includes(field)) {
+        throw ApiError.badRequest(
+          `Sort fields must be among: ${Task.SORT_FIELDS.join(', ')}`,
+          'INVALID_SORT'
+        );
+      }
+
+      if (sort.some(key => key.field === field)) {
+        throw ApiError.badRequest(`Sort field ${field} is repeated`, 'INVALID_SORT');
+      }
+
+      sort.push({ field, direction: descending ? 'desc' : 'asc' });
+    }
+
+    return sort;
+  }
+
+  /**
+   * Resolve the sort keys of a task query
+   * Falls back to sort_by/sort_order, whose fields keep their historical tie-breakers
+   * @param queryParams Optional query parameters
+   * @returns Sort keys (default: due date ascending, then newest first)
+   */
+  static resolveSort(queryParams?: ITaskQuery): ITaskSort[] {
+    if (queryParams?.sort && queryParams.sort.length > 0) {
+      return queryParams.sort;
+    }
+
+    const sortBy = queryParams?.sort_by || 'due_date';
+    const sortOrder = queryParams?.sort_order;
+
+    switch (sortBy) {
+      case 'priority':
+        return [
+          { field: 'priority', direction: sortOrder || 'desc' },
+          { field: 'due_date', direction: 'asc' },
+          { field: 'created_at', direction: 'desc' }
+        ];
+      case 'due_date':
+        return [
+          { field: 'due_date', direction: sortOrder || 'asc' },
+          { field: 'created_at', direction: 'desc' }
+        ];
+      case 'created_at':
+      case 'updated_at':
+        return [{ field: sortBy, direction: sortOrder || 'desc' }];
+      default:
+        return [{ field: sortBy, direction: sortOrder || 'asc' }];
+    }
+  }
+
+  /**
+   * Parse a sparse field selection such as "task_id,title,status"
+   * @param value Comma separated field names
+   * @returns Selected fields (task_id is always included)
+   * @throws ApiError if a field is unknown
+   */
+  static parseFields(value: string): TaskField[] {
+    const fields = value.split(',').map(item => item.trim()) as TaskField[];
+
+    const unknown = fields.filter(field => !Task.FIELDS.includes(field));
+    if (unknown.length > 0) {
+      throw ApiError.badRequest(
+        `Unknown fields: ${unknown.join(', ')}. Fields must be among: ${Task.FIELDS.join(', ')}`,
+        'INVALID_FIELDS'
+      );
+    }
+
+    return Array.from(new Set<TaskField>(['task_id', ...fields]));
+  }
+
+  /**
+   * Keep only the selected fields of a task
+   * @param task Task object
+   * @param fields Selected fields, or undefined for every field
+   * @returns Task with the selected fields
+   */
+  static pickFields(task: ITask, fields?: TaskField[]): Partial<ITask> {
+    if (!fields) {
+      return task;
+    }
+
+    const picked: Partial<ITask> = {};
+    const pick = <K extends TaskField>(field: K): void => {
+      picked[field] = task[field];
+    };
+    fields.forEach(pick);
+    return picked;
+  }
 }
\ No newline at end of file
@@ -0,0 +1,35 @@
+import { ITaskAssignee, ITaskAssignment } from '../interfaces/taskAssignment.interface';
+
+/**
+ * Task Assignment Model
+ * Provides utility methods for task assignments
+ */
+export class TaskAssignment {
+  /**
+   * Convert database row to task assignment object
+   * @param row Database row
+   * @returns Task assignment object
+   */
+  static fromDatabaseRow(row: any): ITaskAssignment {
+    return {
+      assignment_id: row.assignment_id,
+      task_id: row.task_id,
+      user_id: row.user_id,
+      assigned_at: new Date(row.assigned_at)
+    };
+  }
+
+  /**
+   * Convert aggregated assignee JSON to assignee objects
+   * @param assignees Array built by json_agg, or null when the task has none
+   * @returns Array of assignees
+   */
+  static assigneesFromJson(assignees: any[] | null | undefined): ITaskAssignee[] {
+    return (assignees || []).map((assignee) => ({
+      user_id: assignee.user_id,
+      username: assignee.username,
+      email: assignee.email,
+      assigned_at: new Date(assignee.assigned_at)
+    }));
+  }
+}
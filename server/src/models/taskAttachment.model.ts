@@ -0,0 +1,138 @@
+import crypto from 'crypto';
+import path from 'path';
+import { ITaskAttachment } from '../interfaces/taskAttachment.interface';
+import { ApiError } from '../utils/error.utils';
+import { signPayload, verifyPayloadSignature } from '../utils/token.utils';
+
+/**
+ * Task Attachment Model
+ * Provides validation and utility methods for the files attached to tasks
+ */
+export class TaskAttachment {
+  /**
+   * Maximum length of a file name
+   */
+  static readonly MAX_FILE_NAME_LENGTH = 255;
+
+  /**
+   * Maximum number of unreferenced contents removed in one purge
+   */
+  static readonly PURGE_BATCH_SIZE = 100;
+
+  /**
+   * Validate an uploaded file against the configured limits
+   * @param mimeType MIME type reported for the file
+   * @param size Size of the file in bytes
+   * @param allowedMimeTypes MIME types that may be attached
+   * @param maxSize Largest allowed size in bytes
+   * @throws ApiError 400 if the file is empty, 413 if it is too large, 415 if its type is not allowed
+   */
+  static validateFile(mimeType: string, size: number, allowedMimeTypes: string[], maxSize: number): void {
+    if (!allowedMimeTypes.includes(mimeType)) {
+      throw new ApiError(`Files of type ${mimeType} cannot be attached`, 415, 'UNSUPPORTED_FILE_TYPE');
+    }
+    if (size === 0) {
+      throw ApiError.badRequest('File is empty', 'INVALID_FILE');
+    }
+    if (size > maxSize) {
+      throw new ApiError(`File must be ${maxSize} bytes or less`, 413, 'FILE_TOO_LARGE');
+    }
+  }
+
+  /**
+   * Clean up the name of an uploaded file: directories and control characters are removed
+   * and long names are cut, keeping the extension
+   * @param fileName Name sent by the client
+   * @returns File name safe to store and send back in a Content-Disposition header
+   */
+  static sanitizeFileName(fileName: string): string {
+    const baseName = path.basename(fileName.replace(/\\/g, '/'))
+      .replace(/[\u0000-\u001f\u007f"]/g, '')
+      .trim();
+    if (baseName.length === 0 || baseName === '.' || baseName === '..') {
+      return 'file';
+    }
+    if (baseName.length <= TaskAttachment.MAX_FILE_NAME_LENGTH) {
+      return baseName;
+    }
+
+    const extension = path.extname(baseName).slice(0, 20);
+    return baseName.slice(0, TaskAttachment.MAX_FILE_NAME_LENGTH - extension.length) + extension;
+  }
+
+  /**
+   * Compute the checksum identifying the contents of a file
+   * @param data File contents
+   * @returns SHA-256 hex digest
+   */
+  static checksum(data: Buffer): string {
+    return crypto.createHash('sha256').update(data).digest('hex');
+  }
+
+  /**
+   * Get the storage key of the contents with a checksum
+   * Keys are spread over directories by their first two characters
+   * @param sha256 Checksum of the contents
+   * @returns Storage key
+   */
+  static storageKey(sha256: string): string {
+    return `${sha256.slice(0, 2)}/${sha256}`;
+  }
+
+  /**
+   * Sign the download link of an attachment
+   * @param taskId Task ID
+   * @param attachmentId Attachment ID
+   * @param expires Expiry of the link in seconds since the epoch
+   * @param secret Signing secret
+   * @returns Signature
+   */
+  static signDownload(taskId: number, attachmentId: number, expires: number, secret: string): string {
+    return signPayload(`${taskId}:${attachmentId}:${expires}`, secret);
+  }
+
+  /**
+   * Check the signature and expiry of a download link
+   * @param taskId Task ID
+   * @param attachmentId Attachment ID
+   * @param expires Expiry of the link in seconds since the epoch
+   * @param signature Signature of the link
+   * @param secret Signing secret
+   * @param now Current time
+   * @throws ApiError 403 if the signature does not match or the link has expired
+   */
+  static verifyDownload(
+    taskId: number,
+    attachmentId: number,
+    expires: number,
+    signature: string,
+    secret: string,
+    now: Date = new Date()
+  ): void {
+    if (!verifyPayloadSignature(`${taskId}:${attachmentId}:${expires}`, signature, secret)) {
+      throw ApiError.forbidden('Invalid download link', 'INVALID_SIGNATURE');
+    }
+    if (expires * 1000 < now.getTime()) {
+      throw ApiError.forbidden('Download link has expired', 'LINK_EXPIRED');
+    }
+  }
+
+  /**
+   * Convert database row to attachment object
+   * @param row Database row joined with the username of the uploader
+   * @returns Attachment object
+   */
+  static fromDatabaseRow(row: any): ITaskAttachment {
+    return {
+      attachment_id: row.attachment_id,
+      task_id: row.task_id,
+      user_id: row.user_id ?? null,
+      username: row.username ?? null,
+      file_name: row.file_name,
+      mime_type: row.mime_type,
+      size_bytes: Number(row.size_bytes),
+      sha256: row.sha256,
+      created_at: new Date(row.created_at)
+    };
+  }
+}
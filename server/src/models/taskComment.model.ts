@@ -0,0 +1,96 @@
+import { ITaskComment } from '../interfaces/taskComment.interface';
+import { ApiError } from '../utils/error.utils';
+
+/**
+ * Task Comment Model
+ * Provides validation and utility methods for the comments on tasks
+ */
+export class TaskComment {
+  /**
+   * Maximum length of a comment
+   */
+  static readonly MAX_CONTENT_LENGTH = 5000;
+
+  /**
+   * Maximum number of users notified for one comment
+   */
+  static readonly MAX_MENTIONS = 20;
+
+  /**
+   * Length of the comment excerpt shown in notifications
+   */
+  static readonly EXCERPT_LENGTH = 200;
+
+  /**
+   * An @username not preceded by a word character, so email addresses are not mentions;
+   * usernames end on a letter, digit or underscore so trailing punctuation is left out
+   */
+  private static readonly MENTION_PATTERN = /(^|[^\w@])@([A-Za-z0-9_](?:[A-Za-z0-9_.-]*[A-Za-z0-9_])?)/g;
+
+  /**
+   * Validate the text of a comment
+   * @param content Comment text
+   * @throws ApiError if the text is empty or too long
+   */
+  static validateContent(content: string): void {
+    if (typeof content !== 'string' || content.trim().length === 0) {
+      throw ApiError.badRequest('Comment content is required', 'INVALID_COMMENT');
+    }
+    if (content.length > TaskComment.MAX_CONTENT_LENGTH) {
+      throw ApiError.badRequest(
+        `Comment content must be ${TaskComment.MAX_CONTENT_LENGTH} characters or less`,
+        'INVALID_COMMENT'
+      );
+    }
+  }
+
+  /**
+   * Find the users mentioned in a comment
+   * @param content Comment text
+   * @returns Mentioned usernames without duplicates, in order of appearance, at most MAX_MENTIONS
+   */
+  static extractMentions(content: string): string[] {
+    const usernames = new Set<string>();
+    const pattern = new RegExp(TaskComment.MENTION_PATTERN);
+
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(content)) !== null) {
+      usernames.add(match[2]);
+    }
+
+    return Array.from(usernames).slice(0, TaskComment.MAX_MENTIONS);
+  }
+
+  /**
+   * Shorten a comment for notifications
+   * @param content Comment text
+   * @returns The text, cut at EXCERPT_LENGTH characters
+   */
+  static excerpt(content: string): string {
+    const text = content.trim();
+    return text.length > TaskComment.EXCERPT_LENGTH
+      ? `${text.slice(0, TaskComment.EXCERPT_LENGTH - 3)}...`
+      : text;
+  }
+
+  /**
+   * Convert database row to comment object
+   * The text of deleted comments is not returned
+   * @param row Database row joined with the username of the author
+   * @returns Comment object
+   */
+  static fromDatabaseRow(row: any): ITaskComment {
+    return {
+      comment_id: row.comment_id,
+      task_id: row.task_id,
+      user_id: row.user_id ?? null,
+      username: row.username ?? null,
+      parent_comment_id: row.parent_comment_id ?? null,
+      content: row.deleted_at ? null : row.content,
+      created_at: new Date(row.created_at),
+      updated_at: new Date(row.updated_at),
+      edited_at: row.edited_at ? new Date(row.edited_at) : null,
+      deleted_at: row.deleted_at ? new Date(row.deleted_at) : null
+    };
+  }
+}
@@ -0,0 +1,60 @@
+import { ITaskDependency, ITaskGraphNode } from '../interfaces/taskDependency.interface';
+import { StatusCategory } from '../interfaces/status.interface';
+import { ApiError } from '../utils/error.utils';
+
+/**
+ * Task Dependency Model
+ * Provides validation and utility methods for the blocks / blocked-by links between tasks
+ */
+export class TaskDependency {
+  /**
+   * Links followed in each direction when no graph depth is requested
+   */
+  static readonly DEFAULT_GRAPH_DEPTH = 3;
+
+  /**
+   * Largest graph depth that can be requested
+   */
+  static readonly MAX_GRAPH_DEPTH = 10;
+
+  /**
+   * Validate a new dependency
+   * @param blockerId ID of the blocker task
+   * @param blockedId ID of the blocked task
+   * @throws ApiError if a task would block itself
+   */
+  static validate(blockerId: number, blockedId: number): void {
+    if (blockerId === blockedId) {
+      throw ApiError.badRequest('A task cannot block itself', 'INVALID_DEPENDENCY');
+    }
+  }
+
+  /**
+   * Convert database row to dependency object
+   * @param row Database row
+   * @returns Dependency object
+   */
+  static fromDatabaseRow(row: any): ITaskDependency {
+    return {
+      blocker_task_id: row.blocker_task_id,
+      blocked_task_id: row.blocked_task_id,
+      created_by: row.created_by ?? null,
+      created_at: new Date(row.created_at)
+    };
+  }
+
+  /**
+   * Convert database row to graph node
+   * @param row Database row with the task's status category and its depth in the graph
+   * @returns Graph node
+   */
+  static nodeFromDatabaseRow(row: any): ITaskGraphNode {
+    return {
+      task_id: row.task_id,
+      title: row.title,
+      status: row.status,
+      status_category: (row.status_category as StatusCategory) || StatusCategory.TODO,
+      depth: parseInt(row.depth)
+    };
+  }
+}
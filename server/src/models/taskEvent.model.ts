@@ -0,0 +1,62 @@
+import { ITaskChanges, ITaskEvent, TaskEventType } from '../interfaces/taskEvent.interface';
+
+/**
+ * Task Event Model
+ * Provides utility methods for the activity history of tasks
+ */
+export class TaskEvent {
+  /**
+   * Task fields whose changes are recorded
+   */
+  static readonly TRACKED_FIELDS = [
+    'title',
+    'description',
+    'category_id',
+    'priority_id',
+    'due_date',
+    'status',
+    'cancellation_reason',
+    'archived_at',
+    'workspace_id',
+    'series_id',
+    'parent_task_id'
+  ];
+
+  /**
+   * Compare two snapshots of a task
+   * Snapshots are rows serialized by to_jsonb, so dates compare as the strings stored
+   * @param before Snapshot before the change (empty when the task is created)
+   * @param after Snapshot after the change (empty when the task is deleted)
+   * @returns Changed tracked fields with their old and new values
+   */
+  static diff(before: Record<string, any>, after: Record<string, any>): ITaskChanges {
+    const changes: ITaskChanges = {};
+
+    for (const field of TaskEvent.TRACKED_FIELDS) {
+      const from = before[field] ?? null;
+      const to = after[field] ?? null;
+      if (from !== to) {
+        changes[field] = { from, to };
+      }
+    }
+
+    return changes;
+  }
+
+  /**
+   * Convert database row to task event object
+   * @param row Database row joined with the username of the actor
+   * @returns Task event object
+   */
+  static fromDatabaseRow(row: any): ITaskEvent {
+    return {
+      event_id: row.event_id,
+      task_id: row.task_id,
+      user_id: row.user_id ?? null,
+      username: row.username ?? null,
+      event_type: row.event_type as TaskEventType,
+      changes: row.changes || {},
+      created_at: new Date(row.created_at)
+    };
+  }
+}
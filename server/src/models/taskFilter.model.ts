@@ -0,0 +1,245 @@
+import { ITaskFilter, TaskFilterOperator } from '../interfaces/task.interface';
+import { StatusCategory } from '../interfaces/status.interface';
+import { ApiError } from '../utils/error.utils';
+import { Status } from './status.model';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Status aliases usable wherever a status is expected, matching every status of their categories
+ */
+const STATUS_ALIASES: Record<string, ReadonlyArray<StatusCategory>> = {
+  open: Status.OPEN_CATEGORIES,
+  closed: Status.CLOSED_CATEGORIES
+};
+
+/**
+ * Comparison prefixes of filter expression values
+ */
+const COMPARISONS: Record<string, TaskFilterOperator> = {
+  '>=': 'gte',
+  '<=': 'lte',
+  '>': 'gt',
+  '<': 'lt'
+};
+
+/**
+ * Date fields of filter expressions and the task column they apply to
+ */
+const DATE_FIELDS: Record<string, 'due_date' | 'created_at' | 'updated_at'> = {
+  due: 'due_date',
+  created: 'created_at',
+  updated: 'updated_at'
+};
+
+/**
+ * Task Filter Model
+ * Parses filter parameters and compact filter expressions into task filter conditions
+ */
+export class TaskFilter {
+  /**
+   * Parse a compact filter expression such as `status:open priority:>=medium due:<7d report`
+   *
+   * Terms are separated by spaces and must all match. A term is `field:value`, or a bare
+   * word (or "quoted phrase") searched in the title and description. A leading `-` negates
+   * a term. Supported fields:
+   * - `status:pending,in_review` - any of the status keys; `open` and `closed` are aliases
+   *   matching every status of the todo and in progress, or done and cancelled categories
+   * - `priority:high,medium`, `priority:>=medium`, `priority:none` - by name or rank
+   * - `category:3,5`, `category:none` - by category ID
+   * - `due:`, `created:`, `updated:` - `<`, `<=`, `>`, `>=` or a day; values are
+   *   YYYY-MM-DD dates, `today` or offsets from now such as `7d`, `-2w`; `due:none`
+   *   matches tasks without a due date
+   * @param expression Filter expression
+   * @param now Reference time of relative dates (default: current time)
+   * @returns Filter conditions
+   * @throws ApiError if a term is invalid
+   */
+  static parse(expression: string, now: Date = new Date()): ITaskFilter[] {
+    const filters: ITaskFilter[] = [];
+    const termPattern = /(-?)(?:([a-z_]+):)?(?:"([^"]*)"|(\S+))/gi;
+    let match: RegExpExecArray | null;
+
+    while ((match = termPattern.exec(expression)) !== null) {
+      const [term, sign, field, phrase, word] = match;
+      const negate = sign === '-';
+      const value = phrase !== undefined ? phrase : word;
+
+      const filter = field
+        ? TaskFilter.parseTerm(field.toLowerCase(), value, term, now)
+        : { field: 'text' as const, operator: 'contains' as const, value };
+
+      if (filter.operator === 'contains' && !String(filter.value).trim()) {
+        continue;
+      }
+
+      filters.push(negate ? { ...filter, negate } : filter);
+    }
+
+    return filters;
+  }
+
+  /**
+   * Parse a status list such as `pending,in_review`; a leading `!` excludes the statuses
+   * @param value Comma separated status keys, or status aliases
+   * @returns Filter condition
+   * @throws ApiError if a status is invalid
+   */
+  static fromStatusList(value: string): ITaskFilter {
+    const negate = value.startsWith('!');
+    const filter = TaskFilter.parseStatuses(negate ? value.slice(1) : value);
+    return negate ? { ...filter, negate } : filter;
+  }
+
+  /**
+   * Parse an ID list such as `1,2` or `none`; a leading `!` excludes the IDs
+   * @param field Task field holding the ID
+   * @param value Comma separated IDs, `none` matching an empty field
+   * @returns Filter condition
+   * @throws ApiError if an ID is invalid
+   */
+  static fromIdList(field: 'category_id' | 'priority_id', value: string): ITaskFilter {
+    const negate = value.startsWith('!');
+    const filter: ITaskFilter = {
+      field,
+      operator: 'in',
+      values: TaskFilter.parseIds(negate ? value.slice(1) : value, field)
+    };
+    return negate ? { ...filter, negate } : filter;
+  }
+
+  /**
+   * Parse a `field:value` term of a filter expression
+   * @param field Field name
+   * @param rawValue Value with an optional comparison prefix
+   * @param term Whole term, for error messages
+   * @param now Reference time of relative dates
+   * @returns Filter condition without negation
+   */
+  private static parseTerm(field: string, rawValue: string, term: string, now: Date): ITaskFilter {
+    const prefix = Object.keys(COMPARISONS).find(candidate => rawValue.startsWith(candidate));
+    const operator = prefix ? COMPARISONS[prefix] : undefined;
+    const value = prefix ? rawValue.slice(prefix.length) : rawValue;
+
+    if (!value) {
+      throw ApiError.badRequest(`Filter term "${term}" has no value`, 'INVALID_FILTER');
+    }
+
+    if (field === 'status' || field === 'category') {
+      if (operator) {
+        throw ApiError.badRequest(`Filter term "${term}" does not support comparisons`, 'INVALID_FILTER');
+      }
+      return field === 'status'
+        ? TaskFilter.parseStatuses(value)
+        : { field: 'category_id', operator: 'in', values: TaskFilter.parseIds(value, 'category') };
+    }
+
+    if (field === 'priority') {
+      const names = value.split(',').map(name => name.trim().toLowerCase());
+      if (names.some(name => !/^[a-z0-9_-]+$/.test(name))) {
+        throw ApiError.badRequest(`Filter term "${term}" has an invalid priority`, 'INVALID_FILTER');
+      }
+      if (!operator) {
+        return { field: 'priority', operator: 'in', values: names.map(name => (name === 'none' ? null : name)) };
+      }
+      if (names.length > 1 || names[0] === 'none') {
+        throw ApiError.badRequest(`Filter term "${term}" must compare against a single priority`, 'INVALID_FILTER');
+      }
+      return { field: 'priority', operator, value: names[0] };
+    }
+
+    const dateField = DATE_FIELDS[field];
+    if (dateField) {
+      if (value.toLowerCase() === 'none') {
+        if (operator || dateField !== 'due_date') {
+          throw ApiError.badRequest(`Filter term "${term}" cannot match an empty date`, 'INVALID_FILTER');
+        }
+        return { field: dateField, operator: 'is_null' };
+      }
+      return { field: dateField, operator: operator || 'on', value: TaskFilter.parseDate(value, term, now) };
+    }
+
+    throw ApiError.badRequest(`Unknown filter field "${field}"`, 'INVALID_FILTER');
+  }
+
+  /**
+   * Parse comma separated status keys, or aliases which filter on the status category
+   * Keys are not checked against the statuses of the workspaces; unknown keys match no task
+   * @param value Comma separated status keys or aliases
+   * @returns Filter condition without negation
+   * @throws ApiError if a status is invalid or keys and aliases are mixed
+   */
+  private static parseStatuses(value: string): ITaskFilter {
+    const items = value.split(',').map(status => status.trim().toLowerCase());
+    const aliases = items.filter(item => STATUS_ALIASES[item]);
+
+    if (aliases.length === 0) {
+      if (items.some(item => !Status.KEY_PATTERN.test(item))) {
+        throw ApiError.badRequest(
+          `Status must be a status key or one of: ${Object.keys(STATUS_ALIASES).join(', ')}`,
+          'INVALID_FILTER'
+        );
+      }
+      return { field: 'status', operator: 'in', values: Array.from(new Set(items)) };
+    }
+
+    if (aliases.length < items.length) {
+      throw ApiError.badRequest(
+        `Status aliases (${Object.keys(STATUS_ALIASES).join(', ')}) cannot be combined with status keys`,
+        'INVALID_FILTER'
+      );
+    }
+
+    return {
+      field: 'status_category',
+      operator: 'in',
+      values: Array.from(new Set(aliases.flatMap(alias => STATUS_ALIASES[alias])))
+    };
+  }
+
+  /**
+   * Parse comma separated IDs where `none` matches an empty field
+   * @param value Comma separated IDs
+   * @param label Name of the field, for error messages
+   * @returns IDs, with null for `none`
+   * @throws ApiError if an ID is invalid
+   */
+  private static parseIds(value: string, label: string): Array<number | null> {
+    return value.split(',').map(item => {
+      const id = item.trim().toLowerCase();
+      if (id === 'none') {
+        return null;
+      }
+      if (!/^\d+$/.test(id)) {
+        throw ApiError.badRequest(`${label} must be a list of IDs or none`, 'INVALID_FILTER');
+      }
+      return parseInt(id);
+    });
+  }
+
+  /**
+   * Parse an absolute or relative date
+   * @param value YYYY-MM-DD date, ISO 8601 timestamp, `today` or an offset such as `7d`, `-2w`
+   * @param term Whole term, for error messages
+   * @param now Reference time of relative dates
+   * @returns Date
+   * @throws ApiError if the date is invalid
+   */
+  private static parseDate(value: string, term: string, now: Date): Date {
+    if (value.toLowerCase() === 'today') {
+      return now;
+    }
+
+    const offset = /^([+-]?\d+)([dw])$/i.exec(value);
+    if (offset) {
+      const days = parseInt(offset[1]) * (offset[2].toLowerCase() === 'w' ? 7 : 1);
+      return new Date(now.getTime() + days * DAY_MS);
+    }
+
+    const date = new Date(value);
+    if (!/^\d{4}-\d{2}-\d{2}/.test(value) || isNaN(date.getTime())) {
+      throw ApiError.badRequest(`Filter term "${term}" has an invalid date`, 'INVALID_FILTER');
+    }
+    return date;
+  }
+}
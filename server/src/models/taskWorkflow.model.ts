@@ -0,0 +1,172 @@
+import { TaskStatusTransitions } from '../interfaces/task.interface';
+import { StatusCategory } from '../interfaces/status.interface';
+import { ITaskGraphNode } from '../interfaces/taskDependency.interface';
+import { ApiError } from '../utils/error.utils';
+
+/**
+ * Task Workflow Model
+ * Defines which status changes are allowed for tasks
+ * Transitions are between status categories, so a workspace's custom statuses
+ * follow the same workflow as the built-in statuses of their category
+ */
+export class TaskWorkflow {
+  /**
+   * Transitions allowed everywhere; done tasks can be reopened and
+   * cancelled tasks restored, but neither can be closed the other way
+   */
+  static readonly DEFAULT_TRANSITIONS: Readonly<Record<StatusCategory, StatusCategory[]>> = {
+    [StatusCategory.TODO]: [StatusCategory.IN_PROGRESS, StatusCategory.DONE, StatusCategory.CANCELLED],
+    [StatusCategory.IN_PROGRESS]: [StatusCategory.TODO, StatusCategory.DONE, StatusCategory.CANCELLED],
+    [StatusCategory.DONE]: [StatusCategory.IN_PROGRESS],
+    [StatusCategory.CANCELLED]: [StatusCategory.TODO]
+  };
+
+  /**
+   * Categories a task cannot enter while tasks blocking it are open
+   */
+  static readonly BLOCKED_CATEGORIES: ReadonlyArray<StatusCategory> = [StatusCategory.IN_PROGRESS, StatusCategory.DONE];
+
+  /**
+   * Maximum length of a cancellation reason (based on DB schema)
+   */
+  static readonly MAX_REASON_LENGTH = 500;
+
+  /**
+   * Build a transition graph from the default one and additional transitions
+   * Workspaces can only relax the workflow, never forbid a default transition
+   * @param extra Additional transitions (e.g. configured by a workspace)
+   * @returns Transition graph
+   */
+  static transitions(extra?: TaskStatusTransitions | null): TaskStatusTransitions {
+    const graph: TaskStatusTransitions = {};
+
+    for (const category of Object.values(StatusCategory)) {
+      graph[category] = Array.from(new Set([
+        ...TaskWorkflow.DEFAULT_TRANSITIONS[category],
+        ...(extra?.[category] || [])
+      ]));
+    }
+
+    return graph;
+  }
+
+  /**
+   * Check whether a task can change from one status category to another
+   * Moving between statuses of the same category is always allowed
+   * @param from Category of the current status
+   * @param to Category of the new status
+   * @param transitions Transition graph (default: the default workflow)
+   * @returns Boolean indicating if the transition is allowed
+   */
+  static canTransition(
+    from: StatusCategory,
+    to: StatusCategory,
+    transitions: TaskStatusTransitions = TaskWorkflow.DEFAULT_TRANSITIONS
+  ): boolean {
+    return from === to || (transitions[from] || []).includes(to);
+  }
+
+  /**
+   * Ensure a task can change from one status category to another
+   * @param from Category of the current status
+   * @param to Category of the new status
+   * @param transitions Transition graph (default: the default workflow)
+   * @throws ApiError 409 if the transition is not allowed
+   */
+  static assertTransition(
+    from: StatusCategory,
+    to: StatusCategory,
+    transitions: TaskStatusTransitions = TaskWorkflow.DEFAULT_TRANSITIONS
+  ): void {
+    if (!TaskWorkflow.canTransition(from, to, transitions)) {
+      const allowed = transitions[from] || [];
+      throw ApiError.conflict(
+        `Cannot change status from ${from} to ${to}. ` +
+          (allowed.length > 0 ? `Allowed: ${allowed.join(', ')}` : 'No status changes are allowed'),
+        'INVALID_TRANSITION'
+      );
+    }
+  }
+
+  /**
+   * Ensure a task can be edited in its status
+   * Cancelled tasks are read-only until they are restored
+   * @param category Category of the current status
+   * @param nextCategory Category of the status set by the edit, if any
+   * @throws ApiError 409 if the task is cancelled and stays cancelled
+   */
+  static assertEditable(category: StatusCategory, nextCategory?: StatusCategory): void {
+    if (
+      category === StatusCategory.CANCELLED &&
+      (nextCategory === undefined || nextCategory === StatusCategory.CANCELLED)
+    ) {
+      throw ApiError.conflict('Cancelled tasks cannot be edited until they are restored', 'TASK_CANCELLED');
+    }
+  }
+
+  /**
+   * Ensure a task does not leave subtasks open when it is completed
+   * @param from Category of the current status
+   * @param to Category of the new status
+   * @param openSubtasks Number of open subtasks, at any depth
+   * @throws ApiError 409 if the task is being completed while subtasks are open
+   */
+  static assertSubtasksClosed(from: StatusCategory, to: StatusCategory, openSubtasks: number): void {
+    if (from !== StatusCategory.DONE && to === StatusCategory.DONE && openSubtasks > 0) {
+      throw ApiError.conflict(
+        `Task has ${openSubtasks} open subtask${openSubtasks === 1 ? '' : 's'}. ` +
+          'Complete them first or complete them with the task',
+        'OPEN_SUBTASKS'
+      );
+    }
+  }
+
+  /**
+   * Ensure a task is not started or completed while tasks blocking it are open
+   * @param from Category of the current status
+   * @param to Category of the new status
+   * @param openBlockers Open tasks directly blocking the task
+   * @throws ApiError 409 if the task enters a blocked category while blockers are open
+   */
+  static assertUnblocked(from: StatusCategory, to: StatusCategory, openBlockers: ITaskGraphNode[]): void {
+    if (from !== to && TaskWorkflow.BLOCKED_CATEGORIES.includes(to) && openBlockers.length > 0) {
+      const titles = openBlockers.map(blocker => `"${blocker.title}"`).join(', ');
+      throw ApiError.conflict(
+        `Task is blocked by ${openBlockers.length} open task${openBlockers.length === 1 ? '' : 's'}: ${titles}. ` +
+          'Finish them first or force the status change',
+        'TASK_BLOCKED'
+      );
+    }
+  }
+
+  /**
+   * Validate additional transitions configured for a workspace
+   * @param value Map of status categories to the categories they can additionally change to
+   * @returns Additional transitions without duplicates
+   * @throws ApiError if the value is not a map of valid status categories
+   */
+  static validateTransitions(value: unknown): TaskStatusTransitions {
+    const categories = Object.values(StatusCategory) as string[];
+    const invalid = () => ApiError.badRequest(
+      `Status transitions must map status categories to lists of categories among: ${categories.join(', ')}`,
+      'INVALID_TRANSITIONS'
+    );
+
+    if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+      throw invalid();
+    }
+
+    const transitions: TaskStatusTransitions = {};
+    for (const [from, targets] of Object.entries(value as Record<string, unknown>)) {
+      if (!categories.includes(from) || !Array.isArray(targets)) {
+        throw invalid();
+      }
+      if (targets.some(target => typeof target !== 'string' || !categories.includes(target) || target === from)) {
+        throw invalid();
+      }
+      transitions[from as StatusCategory] = Array.from(new Set(targets as StatusCategory[]));
+    }
+
+    return transitions;
+  }
+}
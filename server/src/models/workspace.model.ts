@@ -0,0 +1,124 @@
+import { IWorkspace, IWorkspaceCreate, IWorkspaceMember, IWorkspaceUpdate, WorkspaceRole } from '../interfaces/workspace.interface';
+import { ApiError } from '../utils/error.utils';
+import { TaskWorkflow } from './taskWorkflow.model';
+
+/**
+ * Workspace Model
+ * Provides validation and utility methods for workspaces and their members
+ */
+export class Workspace {
+  /**
+   * Rank of each membership role; a role includes the permissions of every lower rank
+   */
+  static readonly ROLE_RANK: Readonly<Record<WorkspaceRole, number>> = {
+    [WorkspaceRole.VIEWER]: 1,
+    [WorkspaceRole.MEMBER]: 2,
+    [WorkspaceRole.ADMIN]: 3,
+    [WorkspaceRole.OWNER]: 4
+  };
+
+  /**
+   * Check whether a role grants at least the permissions of another
+   * @param role Role held by the user (null if not a member)
+   * @param minimum Minimum required role
+   * @returns Boolean indicating if the role is sufficient
+   */
+  static hasRole(role: WorkspaceRole | null | undefined, minimum: WorkspaceRole): boolean {
+    return !!role && this.ROLE_RANK[role] >= this.ROLE_RANK[minimum];
+  }
+
+  /**
+   * Validate workspace creation data
+   * @param data Workspace data to validate
+   * @throws ApiError if validation fails
+   */
+  static validateCreate(data: IWorkspaceCreate): void {
+    if (!data.created_by) {
+      throw ApiError.badRequest('User ID is required', 'USER_ID_REQUIRED');
+    }
+
+    this.validateName(data.name);
+  }
+
+  /**
+   * Validate workspace update data
+   * @param data Workspace data to validate
+   * @throws ApiError if validation fails
+   */
+  static validateUpdate(data: IWorkspaceUpdate): void {
+    if (Object.keys(data).length === 0) {
+      throw ApiError.badRequest('No data provided for update', 'NO_UPDATE_DATA');
+    }
+
+    if (data.name !== undefined) {
+      this.validateName(data.name);
+    }
+
+    if (data.status_transitions !== undefined && data.status_transitions !== null) {
+      TaskWorkflow.validateTransitions(data.status_transitions);
+    }
+  }
+
+  /**
+   * Validate a membership role
+   * @param role Role to validate
+   * @throws ApiError if the role is unknown
+   */
+  static validateRole(role: string): void {
+    if (!Object.values(WorkspaceRole).includes(role as WorkspaceRole)) {
+      throw ApiError.badRequest(
+        `Role must be one of: ${Object.values(WorkspaceRole).join(', ')}`,
+        'INVALID_ROLE'
+      );
+    }
+  }
+
+  /**
+   * Parse workspace from database row
+   * @param row Database row, optionally including the requesting user's role
+   * @returns Workspace object
+   */
+  static fromDatabaseRow(row: any): IWorkspace {
+    return {
+      workspace_id: row.workspace_id,
+      name: row.name,
+      created_by: row.created_by || null,
+      status_transitions: row.status_transitions || null,
+      ...(row.role ? { role: row.role as WorkspaceRole } : {}),
+      created_at: new Date(row.created_at),
+      updated_at: new Date(row.updated_at)
+    };
+  }
+
+  /**
+   * Parse workspace member from database row joined with users
+   * @param row Database row
+   * @returns Workspace member object
+   */
+  static memberFromDatabaseRow(row: any): IWorkspaceMember {
+    return {
+      workspace_id: row.workspace_id,
+      user_id: row.user_id,
+      username: row.username,
+      email: row.email,
+      role: row.role as WorkspaceRole,
+      joined_at: new Date(row.joined_at)
+    };
+  }
+
+  /**
+   * Validate workspace name
+   * @param name Workspace name
+   * @throws ApiError if name is empty or too long
+   */
+  private static validateName(name?: string): void {
+    if (!name || name.trim().length === 0) {
+      throw ApiError.badRequest('Workspace name is required', 'INVALID_NAME');
+    }
+
+    // Name should not exceed 100 characters (based on DB schema)
+    if (name.length > 100) {
+      throw ApiError.badRequest('Workspace name must be 100 characters or less', 'INVALID_NAME_LENGTH');
+    }
+  }
+}
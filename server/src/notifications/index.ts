@@ -0,0 +1,47 @@
+import { config } from '../config/config';
+import { INotifier } from '../interfaces/notification.interface';
+import { getMailer } from '../mailer';
+import { NotificationRepository } from '../repositories/notificationRepository';
+import { UserRepository } from '../repositories/userRepository';
+import { Notifier } from './notifier';
+import { OverdueScanner } from './overdueScanner';
+
+export { Notifier } from './notifier';
+export { OverdueScanner } from './overdueScanner';
+
+let notifier: INotifier | null = null;
+let scanner: OverdueScanner | null = null;
+
+/**
+ * Get the application notifier
+ * @returns Notifier
+ */
+export const getNotifier = (): INotifier => {
+  if (!notifier) {
+    notifier = new Notifier(new NotificationRepository(), new UserRepository(), getMailer());
+  }
+  return notifier;
+};
+
+/**
+ * Replace the application notifier (e.g. with a mock in tests)
+ * @param instance Notifier to use
+ */
+export const setNotifier = (instance: INotifier): void => {
+  notifier = instance;
+};
+
+/**
+ * Start notifying users of overdue tasks in the background
+ * @returns Running scanner
+ */
+export const startOverdueScanner = (): OverdueScanner => {
+  if (!scanner) {
+    scanner = new OverdueScanner(new NotificationRepository(), getNotifier(), {
+      batchSize: config.NOTIFICATIONS.OVERDUE_BATCH_SIZE,
+      pollIntervalMs: config.NOTIFICATIONS.OVERDUE_SCAN_INTERVAL_MS
+    });
+    scanner.start();
+  }
+  return scanner;
+};
@@ -0,0 +1,51 @@
+import { config } from '../config/config';
+import { IMailer } from '../interfaces/mailer.interface';
+import { INotificationCreate, INotifier, NotificationChannel } from '../interfaces/notification.interface';
+import { INotificationRepository } from '../interfaces/notificationRepository.interface';
+import { IUserRepository } from '../interfaces/userRepository.interface';
+import { Notification } from '../models/notification.model';
+
+/**
+ * Notifier
+ * Stores in-app notifications and emails them, following the preferences of the recipient
+ */
+export class Notifier implements INotifier {
+  /**
+   * @param repository Repository storing notifications and preferences
+   * @param users Repository looking up the email address of recipients
+   * @param mailer Mailer queueing notification email
+   */
+  constructor(
+    private repository: INotificationRepository,
+    private users: IUserRepository,
+    private mailer: IMailer
+  ) {}
+
+  async notify(data: INotificationCreate): Promise<void> {
+    try {
+      const preferences = Notification.resolvePreferences(await this.repository.getPreferences(data.user_id));
+
+      if (Notification.isEnabled(preferences, data.type, NotificationChannel.IN_APP)) {
+        await this.repository.create(data);
+      }
+
+      if (Notification.isEnabled(preferences, data.type, NotificationChannel.EMAIL)) {
+        const user = await this.users.findById(data.user_id);
+        if (user) {
+          await this.mailer.sendTemplate('notification', {
+            to: user.email,
+            data: {
+              username: user.username,
+              title: data.title,
+              body: data.body || '',
+              url: `${config.CLIENT.URL}/tasks/list`
+            }
+          });
+        }
+      }
+    } catch (error) {
+      // Notifications must not fail the change they are about
+      console.error('Error sending notification:', error);
+    }
+  }
+}
@@ -0,0 +1,78 @@
+import { INotifier, NotificationType } from '../interfaces/notification.interface';
+import { INotificationRepository } from '../interfaces/notificationRepository.interface';
+import { Reminder } from '../models/reminder.model';
+
+export interface IOverdueScannerOptions {
+  batchSize: number;
+  pollIntervalMs: number;
+}
+
+/**
+ * Overdue Scanner
+ * Tells the owner and assignees of open tasks when the tasks become overdue
+ */
+export class OverdueScanner {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(
+    private repository: INotificationRepository,
+    private notifier: INotifier,
+    private options: IOverdueScannerOptions
+  ) {}
+
+  /**
+   * Notify the users of tasks that became overdue
+   * @returns Number of notifications sent
+   */
+  async scan(): Promise<number> {
+    const overdue = await this.repository.claimOverdue(this.options.batchSize);
+
+    for (const task of overdue) {
+      await this.notifier.notify({
+        user_id: task.user_id,
+        type: NotificationType.OVERDUE,
+        title: `Overdue: ${task.title}`,
+        body: Reminder.describeDueDate(task.due_date),
+        task_id: task.task_id
+      });
+    }
+
+    return overdue.length;
+  }
+
+  /**
+   * Start scanning for overdue tasks
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      // Skip a tick if the previous scan is still running
+      if (this.running) {
+        return;
+      }
+      this.running = true;
+      this.scan()
+        .catch(error => console.error('Error scanning overdue tasks:', error))
+        .finally(() => {
+          this.running = false;
+        });
+    }, this.options.pollIntervalMs);
+
+    // Polling alone should not keep the process alive
+    this.timer.unref();
+  }
+
+  /**
+   * Stop scanning for overdue tasks
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+}
@@ -0,0 +1,40 @@
+import { config } from '../config/config';
+import { getMailer } from '../mailer';
+import { NotificationRepository } from '../repositories/notificationRepository';
+import { ReminderRepository } from '../repositories/reminderRepository';
+import { ReminderScheduler } from './reminderScheduler';
+import { EmailNotifier } from './notifiers/emailNotifier';
+import { InAppNotifier } from './notifiers/inAppNotifier';
+import { WebhookNotifier } from './notifiers/webhookNotifier';
+
+export { ReminderScheduler } from './reminderScheduler';
+export { EmailNotifier } from './notifiers/emailNotifier';
+export { InAppNotifier } from './notifiers/inAppNotifier';
+export { WebhookNotifier } from './notifiers/webhookNotifier';
+
+let scheduler: ReminderScheduler | null = null;
+
+/**
+ * Start firing due reminders in the background
+ * @returns Running scheduler
+ */
+export const startReminderScheduler = (): ReminderScheduler => {
+  if (!scheduler) {
+    scheduler = new ReminderScheduler(
+      new ReminderRepository(),
+      [
+        new InAppNotifier(new NotificationRepository()),
+        new EmailNotifier(getMailer()),
+        new WebhookNotifier(config.REMINDERS.WEBHOOK_TIMEOUT_MS)
+      ],
+      {
+        batchSize: config.REMINDERS.BATCH_SIZE,
+        maxAttempts: config.REMINDERS.MAX_ATTEMPTS,
+        retryDelayMs: config.REMINDERS.RETRY_DELAY_MS,
+        pollIntervalMs: config.REMINDERS.POLL_INTERVAL_MS
+      }
+    );
+    scheduler.start();
+  }
+  return scheduler;
+};
@@ -0,0 +1,28 @@
+import { config } from '../../config/config';
+import { IMailer } from '../../interfaces/mailer.interface';
+import { IDueReminder, IReminderNotifier, ReminderChannel } from '../../interfaces/reminder.interface';
+
+/**
+ * Notifier that emails the reminder to the recipient
+ * Messages go through the email outbox, which retries delivery on its own
+ */
+export class EmailNotifier implements IReminderNotifier {
+  readonly channel = ReminderChannel.EMAIL;
+
+  /**
+   * @param mailer Mailer queueing the message
+   */
+  constructor(private mailer: IMailer) {}
+
+  async deliver(reminder: IDueReminder): Promise<void> {
+    await this.mailer.sendTemplate('task_reminder', {
+      to: reminder.email,
+      data: {
+        username: reminder.username,
+        taskTitle: reminder.task_title,
+        dueDate: reminder.task_due_date || '-',
+        taskUrl: `${config.CLIENT.URL}/tasks/list`
+      }
+    });
+  }
+}
@@ -0,0 +1,26 @@
+import { IDueReminder, IReminderNotifier, ReminderChannel } from '../../interfaces/reminder.interface';
+import { INotificationRepository } from '../../interfaces/notificationRepository.interface';
+import { NotificationType } from '../../interfaces/notification.interface';
+import { Reminder } from '../../models/reminder.model';
+
+/**
+ * Notifier that adds the reminder to the recipient's in-app notifications
+ */
+export class InAppNotifier implements IReminderNotifier {
+  readonly channel = ReminderChannel.IN_APP;
+
+  /**
+   * @param notifications Repository storing in-app notifications
+   */
+  constructor(private notifications: INotificationRepository) {}
+
+  async deliver(reminder: IDueReminder): Promise<void> {
+    await this.notifications.create({
+      user_id: reminder.user_id,
+      type: NotificationType.REMINDER,
+      title: `Reminder: ${reminder.task_title}`,
+      body: Reminder.describeDueDate(reminder.task_due_date),
+      task_id: reminder.task_id
+    });
+  }
+}
@@ -0,0 +1,53 @@
+import { IDueReminder, IReminderNotifier, ReminderChannel } from '../../interfaces/reminder.interface';
+import { isPublicUrl } from '../../utils/network.utils';
+
+/**
+ * Notifier that POSTs the reminder as JSON to the recipient's webhook URL
+ * Each firing is sent with a stable Idempotency-Key, so a receiver can drop
+ * the duplicate of a delivery whose response was lost and got retried.
+ * Webhooks are only called on public hosts, checked again on every call since
+ * DNS records change, and redirects are not followed.
+ */
+export class WebhookNotifier implements IReminderNotifier {
+  readonly channel = ReminderChannel.WEBHOOK;
+
+  /**
+   * @param timeoutMs Time to wait for the receiver before the attempt fails
+   */
+  constructor(private timeoutMs: number) {}
+
+  async deliver(reminder: IDueReminder): Promise<void> {
+    // Nothing to call until the recipient configures a webhook
+    if (!reminder.webhook_url) {
+      return;
+    }
+
+    if (!(await isPublicUrl(reminder.webhook_url))) {
+      throw new Error('Webhook URL does not point to a public host');
+    }
+
+    const response = await fetch(reminder.webhook_url, {
+      method: 'POST',
+      redirect: 'manual',
+      headers: {
+        'Content-Type': 'application/json',
+        'Idempotency-Key': `reminder-${reminder.reminder_id}-${reminder.fire_at?.getTime() ?? 0}`
+      },
+      body: JSON.stringify({
+        type: 'task.reminder',
+        reminder_id: reminder.reminder_id,
+        fire_at: reminder.fire_at,
+        task: {
+          task_id: reminder.task_id,
+          title: reminder.task_title,
+          due_date: reminder.task_due_date
+        }
+      }),
+      signal: AbortSignal.timeout(this.timeoutMs)
+    });
+
+    if (!response.ok) {
+      throw new Error(`Webhook responded with status ${response.status}`);
+    }
+  }
+}
@@ -0,0 +1,141 @@
+import { IDueReminder, IReminderNotifier } from '../interfaces/reminder.interface';
+import { IReminderRepository } from '../interfaces/reminderRepository.interface';
+import { Status } from '../models/status.model';
+
+export interface IReminderSchedulerOptions {
+  batchSize: number;
+  maxAttempts: number;
+  retryDelayMs: number;
+  pollIntervalMs: number;
+}
+
+/**
+ * Reminder Scheduler
+ * Fires due reminders in the background on each of their channels
+ * Channels that delivered are recorded one by one, so a reminder interrupted by a
+ * failure or a restart is retried on the remaining channels only
+ */
+export class ReminderScheduler {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  private notifiers: Map<string, IReminderNotifier>;
+
+  constructor(
+    private repository: IReminderRepository,
+    notifiers: IReminderNotifier[],
+    private options: IReminderSchedulerOptions
+  ) {
+    this.notifiers = new Map(notifiers.map(notifier => [notifier.channel, notifier]));
+  }
+
+  /**
+   * Fire the reminders that are currently due
+   * @returns Number of reminders sent
+   */
+  async fireDue(): Promise<number> {
+    // Lease long enough to cover delivering the whole batch
+    const reminders = await this.repository.claimDue(this.options.batchSize, this.options.pollIntervalMs * 6);
+    let sent = 0;
+
+    for (const reminder of reminders) {
+      // Done and cancelled tasks need no reminding
+      if (reminder.task_status_category && !Status.isOpen(reminder.task_status_category)) {
+        await this.repository.markSkipped(reminder.reminder_id);
+        continue;
+      }
+
+      try {
+        await this.deliver(reminder);
+        await this.repository.markSent(reminder.reminder_id);
+        sent++;
+      } catch (error) {
+        const attempts = reminder.attempts + 1;
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(`Error delivering reminder ${reminder.reminder_id} (attempt ${attempts}):`, message);
+        await this.repository.markFailed(reminder.reminder_id, message, this.getNextAttemptAt(attempts));
+      }
+    }
+
+    return sent;
+  }
+
+  /**
+   * Start polling for due reminders
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      // Skip a tick if the previous batch is still being delivered
+      if (this.running) {
+        return;
+      }
+      this.running = true;
+      this.fireDue()
+        .catch(error => console.error('Error firing reminders:', error))
+        .finally(() => {
+          this.running = false;
+        });
+    }, this.options.pollIntervalMs);
+
+    // Polling alone should not keep the process alive
+    this.timer.unref();
+  }
+
+  /**
+   * Stop polling for due reminders
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Deliver a reminder on the channels it has not been delivered on yet
+   * @param reminder Claimed reminder
+   * @throws Error if a channel is unavailable or fails to deliver; the error of a failed
+   * delivery only names the channel, since it is shown to the recipient
+   */
+  private async deliver(reminder: IDueReminder): Promise<void> {
+    for (const channel of reminder.channels) {
+      if (reminder.delivered_channels.includes(channel)) {
+        continue;
+      }
+
+      const notifier = this.notifiers.get(channel);
+      if (!notifier) {
+        throw new Error(`No notifier for reminder channel: ${channel}`);
+      }
+
+      try {
+        await notifier.deliver(reminder);
+      } catch (error) {
+        // Receiver responses and network errors stay in the server log
+        console.error(
+          `Error delivering reminder ${reminder.reminder_id} on ${channel}:`,
+          error instanceof Error ? error.message : String(error)
+        );
+        throw new Error(`Delivery failed on the ${channel} channel`);
+      }
+      await this.repository.markChannelDelivered(reminder.reminder_id, channel);
+    }
+  }
+
+  /**
+   * Work out when to retry after a failed attempt
+   * @param attempts Number of attempts made so far
+   * @returns Time of the next attempt, or null once attempts are exhausted
+   */
+  private getNextAttemptAt(attempts: number): Date | null {
+    if (attempts >= this.options.maxAttempts) {
+      return null;
+    }
+
+    const delay = this.options.retryDelayMs * Math.pow(2, attempts - 1);
+    return new Date(Date.now() + delay);
+  }
+}
@@ -0,0 +1,290 @@
+import { query, transaction } from '../config/database';
+import { ApiError, isUniqueViolation } from '../utils/error.utils';
+import { ICategory, ICategoryCreate, ICategoryDeleteResult, ICategoryUpdate } from '../interfaces/category.interface';
+import { ICategoryRepository } from '../interfaces/categoryRepository.interface';
+import { Category } from '../models/category.model';
+
+/**
+ * PostgreSQL implementation of the Category Repository
+ */
+export class CategoryRepository implements ICategoryRepository {
+  /**
+   * Find a category by ID
+   * @param id Category ID
+   * @returns Category object or null if not found
+   */
+  async findById(id: number): Promise<ICategory | null> {
+    try {
+      const result = await query(
+        `SELECT * FROM categories WHERE category_id = $1`,
+        [id]
+      );
+
+      return result.rows.length > 0 ? Category.fromDatabaseRow(result.rows[0]) : null;
+    } catch (error) {
+      console.error('Error in findById:', error);
+      throw new ApiError('Error finding category by ID', 500);
+    }
+  }
+
+  /**
+   * Find the categories a user can access: their personal categories and the
+   * categories of every workspace they are a member of
+   * @param userId User ID
+   * @param filter Optional filter criteria
+   * @returns Array of categories ordered by name
+   */
+  async findByUserId(userId: number, filter?: Partial<ICategory>): Promise<ICategory[]> {
+    try {
+      let queryText = `SELECT * FROM categories c
+         WHERE ((c.workspace_id IS NULL AND c.user_id = $1)
+           OR c.workspace_id IN (SELECT wm.workspace_id FROM workspace_members wm WHERE wm.user_id = $1))`;
+      const values: any[] = [userId];
+
+      if (filter?.workspace_id) {
+        values.push(filter.workspace_id);
+        queryText += ` AND c.workspace_id = $${values.length}`;
+      }
+
+      if (filter?.name) {
+        values.push(Category.namePattern(filter.name));
+        queryText += ` AND c.name ILIKE $${values.length} ESCAPE '\\'`;
+      }
+
+      queryText += ` ORDER BY c.name ASC`;
+
+      const result = await query(queryText, values);
+
+      return result.rows.map(Category.fromDatabaseRow);
+    } catch (error) {
+      console.error('Error in findByUserId:', error);
+      throw new ApiError('Error finding user categories', 500);
+    }
+  }
+
+  /**
+   * Create a new category
+   * @param data Category data to create
+   * @returns Created category object
+   * @throws ApiError 409 if the user (or workspace) already has a category with this name
+   */
+  async create(data: ICategoryCreate): Promise<ICategory> {
+    try {
+      // Validate category data
+      Category.validateCreate(data);
+
+      const result = await query(
+        `INSERT INTO categories (user_id, workspace_id, name, color, icon, is_default)
+         VALUES ($1, $2, $3, $4, $5, $6)
+         RETURNING *`,
+        [
+          data.user_id,
+          data.workspace_id || null,
+          data.name.trim(),
+          data.color || Category.DEFAULT_COLOR,
+          data.icon || null,
+          data.is_default || false
+        ]
+      );
+
+      return Category.fromDatabaseRow(result.rows[0]);
+    } catch (error) {
+      if (error instanceof ApiError) {
+        throw error;
+      }
+      if (isUniqueViolation(error)) {
+        throw ApiError.conflict(
+          data.workspace_id
+            ? 'This workspace already has a category with this name'
+            : 'You already have a category with this name',
+          'CATEGORY_EXISTS'
+        );
+      }
+      console.error('Error in create:', error);
+      throw new ApiError('Error creating category', 500);
+    }
+  }
+
+  /**
+   * Create the default categories for a newly registered user
+   * Defaults the user already has (by name) are skipped
+   * @param userId User ID
+   * @returns Created default categories
+   */
+  async createDefaults(userId: number): Promise<ICategory[]> {
+    try {
+      return await transaction(async (client) => {
+        const created: ICategory[] = [];
+
+        for (const defaults of Category.DEFAULTS) {
+          const result = await client.query(
+            `INSERT INTO categories (user_id, name, color, icon, is_default)
+             VALUES ($1, $2, $3, $4, TRUE)
+             ON CONFLICT (user_id, name) WHERE workspace_id IS NULL DO NOTHING
+             RETURNING *`,
+            [userId, defaults.name, defaults.color, defaults.icon]
+          );
+
+          if (result.rows.length > 0) {
+            created.push(Category.fromDatabaseRow(result.rows[0]));
+          }
+        }
+
+        return created;
+      });
+    } catch (error) {
+      console.error('Error in createDefaults:', error);
+      throw new ApiError('Error creating default categories', 500);
+    }
+  }
+
+  /**
+   * Update an existing category
+   * @param id Category ID
+   * @param data Category data to update
+   * @returns Updated category object or null if not found
+   * @throws ApiError 409 if the owner (or workspace) already has a category with the new name
+   */
+  async update(id: number, data: ICategoryUpdate): Promise<ICategory | null> {
+    try {
+      // Validate update data
+      Category.validateUpdate(data);
+
+      // Build update query
+      const updates: string[] = [];
+      const values: any[] = [];
+      let paramCount = 1;
+
+      if (data.name !== undefined) {
+        updates.push(`name = $${paramCount++}`);
+        values.push(data.name.trim());
+      }
+
+      if (data.color !== undefined) {
+        updates.push(`color = $${paramCount++}`);
+        values.push(data.color);
+      }
+
+      if (data.icon !== undefined) {
+        updates.push(`icon = $${paramCount++}`);
+        values.push(data.icon || null);
+      }
+
+      // If nothing to update
+      if (updates.length === 0) {
+        return this.findById(id);
+      }
+
+      // Add category_id to values
+      values.push(id);
+
+      const result = await query(
+        `UPDATE categories
+         SET ${updates.join(', ')}
+         WHERE category_id = $${paramCount}
+         RETURNING *`,
+        values
+      );
+
+      return result.rows.length > 0 ? Category.fromDatabaseRow(result.rows[0]) : null;
+    } catch (error) {
+      if (error instanceof ApiError) {
+        throw error;
+      }
+      if (isUniqueViolation(error)) {
+        throw ApiError.conflict('A category with this name already exists', 'CATEGORY_EXISTS');
+      }
+      console.error('Error in update:', error);
+      throw new ApiError('Error updating category', 500);
+    }
+  }
+
+  /**
+   * Delete a category
+   * @param id Category ID
+   * @returns Boolean indicating if deletion was successful
+   */
+  async delete(id: number): Promise<boolean> {
+    const result = await this.deleteWithTaskCount(id);
+    return result.deleted;
+  }
+
+  /**
+   * Delete a category and count the tasks whose category_id the
+   * ON DELETE SET NULL foreign key clears
+   * @param id Category ID
+   * @returns Deletion result with number of affected tasks
+   */
+  async deleteWithTaskCount(id: number): Promise<ICategoryDeleteResult> {
+    try {
+      return await transaction(async (client) => {
+        // Lock the referencing tasks so the count matches what the FK nulls out
+        const tasks = await client.query(
+          `SELECT task_id FROM tasks WHERE category_id = $1 FOR UPDATE`,
+          [id]
+        );
+
+        const result = await client.query(
+          `DELETE FROM categories WHERE category_id = $1 RETURNING category_id`,
+          [id]
+        );
+
+        const deleted = result.rowCount !== null && result.rowCount > 0;
+
+        return {
+          deleted,
+          affected_tasks: deleted ? tasks.rows.length : 0
+        };
+      });
+    } catch (error) {
+      console.error('Error in deleteWithTaskCount:', error);
+      throw new ApiError('Error deleting category', 500);
+    }
+  }
+
+  /**
+   * Find all categories (optionally filtered)
+   * @param filter Optional filter criteria
+   * @returns Array of categories ordered by name
+   */
+  async findAll(filter?: Partial<ICategory>): Promise<ICategory[]> {
+    try {
+      let queryText = `SELECT * FROM categories`;
+      const values: any[] = [];
+      let paramCount = 1;
+
+      // Build WHERE clause if filters are provided
+      if (filter && Object.keys(filter).length > 0) {
+        const conditions: string[] = [];
+
+        if (filter.user_id !== undefined) {
+          conditions.push(`user_id = $${paramCount++}`);
+          values.push(filter.user_id);
+        }
+
+        if (filter.workspace_id !== undefined) {
+          conditions.push(`workspace_id = $${paramCount++}`);
+          values.push(filter.workspace_id);
+        }
+
+        if (filter.name) {
+          conditions.push(`name ILIKE $${paramCount++} ESCAPE '\\'`);
+          values.push(Category.namePattern(filter.name));
+        }
+
+        if (conditions.length > 0) {
+          queryText += ` WHERE ${conditions.join(' AND ')}`;
+        }
+      }
+
+      queryText += ` ORDER BY name ASC`;
+
+      const result = await query(queryText, values);
+
+      return result.rows.map(Category.fromDatabaseRow);
+    } catch (error) {
+      console.error('Error in findAll:', error);
+      throw new ApiError('Error finding categories', 500);
+    }
+  }
+}
@@ -0,0 +1,142 @@
+import { query, transaction } from '../config/database';
+import { ApiError } from '../utils/error.utils';
+import { IChecklistItem, IChecklistItemCreate, IChecklistItemUpdate } from '../interfaces/checklist.interface';
+import { IChecklistRepository } from '../interfaces/checklistRepository.interface';
+import { ChecklistItem } from '../models/checklistItem.model';
+
+/**
+ * PostgreSQL implementation of the Checklist Repository
+ */
+export class ChecklistRepository implements IChecklistRepository {
+  /**
+   * Find the checklist items of a task
+   * @param taskId Task ID
+   * @returns Items ordered by position, then by creation
+   */
+  async findByTask(taskId: number): Promise<IChecklistItem[]> {
+    try {
+      const result = await query(
+        `SELECT * FROM task_checklist_items WHERE task_id = $1 ORDER BY position ASC, item_id ASC`,
+        [taskId]
+      );
+
+      return result.rows.map(ChecklistItem.fromDatabaseRow);
+    } catch (error) {
+      console.error('Error in findByTask:', error);
+      throw new ApiError('Error finding checklist items', 500);
+    }
+  }
+
+  /**
+   * Add an item to the checklist of a task
+   * The task row is locked so concurrent additions cannot exceed the item limit
+   * @param data Item data; without a position the item goes to the end
+   * @returns Created item
+   * @throws ApiError 404 if the task does not exist
+   * @throws ApiError 409 if the checklist is full
+   */
+  async create(data: IChecklistItemCreate): Promise<IChecklistItem> {
+    try {
+      ChecklistItem.validateCreate(data);
+
+      return await transaction(async (client) => {
+        const task = await client.query(`SELECT task_id FROM tasks WHERE task_id = $1 FOR UPDATE`, [data.task_id]);
+        if (task.rows.length === 0) {
+          throw ApiError.notFound('Task not found', 'TASK_NOT_FOUND');
+        }
+
+        const items = await client.query(
+          `SELECT COUNT(*) AS count, COALESCE(MAX(position) + 1, 0) AS next_position
+           FROM task_checklist_items WHERE task_id = $1`,
+          [data.task_id]
+        );
+        if (parseInt(items.rows[0].count) >= ChecklistItem.MAX_ITEMS) {
+          throw ApiError.conflict(`A checklist can have at most ${ChecklistItem.MAX_ITEMS} items`, 'CHECKLIST_FULL');
+        }
+
+        const result = await client.query(
+          `INSERT INTO task_checklist_items (task_id, content, position)
+           VALUES ($1, $2, $3)
+           RETURNING *`,
+          [data.task_id, data.content.trim(), data.position ?? items.rows[0].next_position]
+        );
+
+        return ChecklistItem.fromDatabaseRow(result.rows[0]);
+      });
+    } catch (error) {
+      if (error instanceof ApiError) {
+        throw error;
+      }
+      console.error('Error in create:', error);
+      throw new ApiError('Error creating checklist item', 500);
+    }
+  }
+
+  /**
+   * Update an item of a task's checklist
+   * @param itemId Item ID
+   * @param taskId Task ID
+   * @param data Item data to update
+   * @returns Updated item or null if not found
+   */
+  async update(itemId: number, taskId: number, data: IChecklistItemUpdate): Promise<IChecklistItem | null> {
+    try {
+      ChecklistItem.validateUpdate(data);
+
+      const updates: string[] = [];
+      const values: any[] = [];
+
+      if (data.content !== undefined) {
+        values.push(data.content.trim());
+        updates.push(`content = $${values.length}`);
+      }
+
+      if (data.is_done !== undefined) {
+        values.push(data.is_done);
+        updates.push(`is_done = $${values.length}`);
+      }
+
+      if (data.position !== undefined) {
+        values.push(data.position);
+        updates.push(`position = $${values.length}`);
+      }
+
+      values.push(itemId, taskId);
+      const result = await query(
+        `UPDATE task_checklist_items
+         SET ${[...updates, 'updated_at = NOW()'].join(', ')}
+         WHERE item_id = $${values.length - 1} AND task_id = $${values.length}
+         RETURNING *`,
+        values
+      );
+
+      return result.rows.length > 0 ? ChecklistItem.fromDatabaseRow(result.rows[0]) : null;
+    } catch (error) {
+      if (error instanceof ApiError) {
+        throw error;
+      }
+      console.error('Error in update:', error);
+      throw new ApiError('Error updating checklist item', 500);
+    }
+  }
+
+  /**
+   * Delete an item of a task's checklist
+   * @param itemId Item ID
+   * @param taskId Task ID
+   * @returns Boolean indicating if an item was deleted
+   */
+  async delete(itemId: number, taskId: number): Promise<boolean> {
+    try {
+      const result = await query(
+        `DELETE FROM task_checklist_items WHERE item_id = $1 AND task_id = $2`,
+        [itemId, taskId]
+      );
+
+      return (result.rowCount ?? 0) > 0;
+    } catch (error) {
+      console.error('Error in delete:', error);
+      throw new ApiError('Error deleting checklist item', 500);
+    }
+  }
+}
@@ -0,0 +1,111 @@
+import { query, transaction } from '../config/database';
+import { ApiError } from '../utils/error.utils';
+import { EmailStatus, IEmailOutboxMessage } from '../interfaces/emailOutbox.interface';
+import { IEmailOutboxRepository } from '../interfaces/emailOutboxRepository.interface';
+import { IMailMessage } from '../interfaces/mailer.interface';
+import { EmailOutbox } from '../models/emailOutbox.model';
+
+/**
+ * PostgreSQL implementation of the Email Outbox Repository
+ */
+export class EmailOutboxRepository implements IEmailOutboxRepository {
+  /**
+   * Queue a message for delivery
+   * @param message Rendered message
+   * @returns Queued outbox entry
+   */
+  async enqueue(message: IMailMessage): Promise<IEmailOutboxMessage> {
+    try {
+      const result = await query(
+        `INSERT INTO email_outbox (recipient, subject, text_body, html_body)
+         VALUES ($1, $2, $3, $4)
+         RETURNING *`,
+        [message.to, message.subject, message.text, message.html || null]
+      );
+
+      return EmailOutbox.fromDatabaseRow(result.rows[0]);
+    } catch (error) {
+      console.error('Error in enqueue:', error);
+      throw new ApiError('Error queueing email', 500);
+    }
+  }
+
+  /**
+   * Claim pending messages that are due for a delivery attempt
+   * Claimed rows have their next attempt pushed back by the lease, so a worker
+   * that crashes mid-send leaves them to be retried instead of stuck
+   * @param limit Maximum number of messages to claim
+   * @param leaseMs Lease duration in milliseconds
+   * @returns Claimed messages
+   */
+  async claimDue(limit: number, leaseMs: number): Promise<IEmailOutboxMessage[]> {
+    try {
+      return await transaction(async (client) => {
+        const due = await client.query(
+          `SELECT email_id FROM email_outbox
+           WHERE status = $1 AND next_attempt_at <= CURRENT_TIMESTAMP
+           ORDER BY next_attempt_at
+           LIMIT $2
+           FOR UPDATE SKIP LOCKED`,
+          [EmailStatus.PENDING, limit]
+        );
+
+        if (due.rows.length === 0) {
+          return [];
+        }
+
+        const result = await client.query(
+          `UPDATE email_outbox
+           SET next_attempt_at = CURRENT_TIMESTAMP + ($1 * INTERVAL '1 millisecond')
+           WHERE email_id = ANY($2::int[])
+           RETURNING *`,
+          [leaseMs, due.rows.map(row => row.email_id)]
+        );
+
+        return result.rows.map(row => EmailOutbox.fromDatabaseRow(row));
+      });
+    } catch (error) {
+      console.error('Error in claimDue:', error);
+      throw new ApiError('Error claiming queued email', 500);
+    }
+  }
+
+  /**
+   * Mark a message as delivered
+   * @param emailId Outbox entry ID
+   */
+  async markSent(emailId: number): Promise<void> {
+    try {
+      await query(
+        `UPDATE email_outbox
+         SET status = $1, attempts = attempts + 1, sent_at = CURRENT_TIMESTAMP, last_error = NULL
+         WHERE email_id = $2`,
+        [EmailStatus.SENT, emailId]
+      );
+    } catch (error) {
+      console.error('Error in markSent:', error);
+      throw new ApiError('Error updating queued email', 500);
+    }
+  }
+
+  /**
+   * Record a failed delivery attempt
+   * @param emailId Outbox entry ID
+   * @param errorMessage Error message of the attempt
+   * @param nextAttemptAt When to retry, or null to mark the message as failed
+   */
+  async markFailed(emailId: number, errorMessage: string, nextAttemptAt: Date | null): Promise<void> {
+    try {
+      await query(
+        `UPDATE email_outbox
+         SET status = $1, attempts = attempts + 1, last_error = $2,
+             next_attempt_at = COALESCE($3, next_attempt_at)
+         WHERE email_id = $4`,
+        [nextAttemptAt ? EmailStatus.PENDING : EmailStatus.FAILED, errorMessage, nextAttemptAt, emailId]
+      );
+    } catch (error) {
+      console.error('Error in markFailed:', error);
+      throw new ApiError('Error updating queued email', 500);
+    }
+  }
+}
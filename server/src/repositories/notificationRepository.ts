@@ -0,0 +1,238 @@
+import { query } from '../config/database';
+import { ApiError } from '../utils/error.utils';
+import {
+  INotification,
+  INotificationCreate,
+  INotificationPreference,
+  INotificationQuery,
+  IOverdueTask,
+  NotificationChannel,
+  NotificationType
+} from '../interfaces/notification.interface';
+import { INotificationRepository } from '../interfaces/notificationRepository.interface';
+import { Notification } from '../models/notification.model';
+
+/**
+ * PostgreSQL implementation of the Notification Repository
+ */
+export class NotificationRepository implements INotificationRepository {
+  /**
+   * Create a notification
+   * @param data Notification data
+   * @returns Created notification
+   */
+  async create(data: INotificationCreate): Promise<INotification> {
+    try {
+      const result = await query(
+        `INSERT INTO notifications (user_id, type, title, body, task_id)
+         VALUES ($1, $2, $3, $4, $5)
+         RETURNING *`,
+        [data.user_id, data.type, data.title, data.body ?? null, data.task_id ?? null]
+      );
+
+      return Notification.fromDatabaseRow(result.rows[0]);
+    } catch (error) {
+      console.error('Error in create:', error);
+      throw new ApiError('Error creating notification', 500);
+    }
+  }
+
+  /**
+   * Find the notifications of a user, newest first
+   * @param userId User ID
+   * @param queryParams Unread filter, page size and position
+   * @returns Notifications
+   */
+  async findByUser(userId: number, queryParams: INotificationQuery): Promise<INotification[]> {
+    try {
+      const values: any[] = [userId];
+      let conditions = '';
+
+      if (queryParams.unread) {
+        conditions += ` AND read_at IS NULL`;
+      }
+
+      if (queryParams.before !== undefined) {
+        values.push(queryParams.before);
+        conditions += ` AND notification_id < $${values.length}`;
+      }
+
+      values.push(queryParams.limit || Notification.DEFAULT_PAGE_SIZE);
+      const result = await query(
+        `SELECT * FROM notifications
+         WHERE user_id = $1${conditions}
+         ORDER BY notification_id DESC
+         LIMIT $${values.length}`,
+        values
+      );
+
+      return result.rows.map(Notification.fromDatabaseRow);
+    } catch (error) {
+      console.error('Error in findByUser:', error);
+      throw new ApiError('Error finding notifications', 500);
+    }
+  }
+
+  /**
+   * Count the unread notifications of a user
+   * @param userId User ID
+   * @returns Number of unread notifications
+   */
+  async countUnread(userId: number): Promise<number> {
+    try {
+      const result = await query(
+        `SELECT COUNT(*) AS count FROM notifications WHERE user_id = $1 AND read_at IS NULL`,
+        [userId]
+      );
+
+      return parseInt(result.rows[0].count);
+    } catch (error) {
+      console.error('Error in countUnread:', error);
+      throw new ApiError('Error counting notifications', 500);
+    }
+  }
+
+  /**
+   * Mark a notification of a user as read
+   * @param notificationId Notification ID
+   * @param userId User ID
+   * @returns Notification or null if not found
+   */
+  async markRead(notificationId: number, userId: number): Promise<INotification | null> {
+    try {
+      const result = await query(
+        `UPDATE notifications
+         SET read_at = COALESCE(read_at, CURRENT_TIMESTAMP)
+         WHERE notification_id = $1 AND user_id = $2
+         RETURNING *`,
+        [notificationId, userId]
+      );
+
+      return result.rows.length > 0 ? Notification.fromDatabaseRow(result.rows[0]) : null;
+    } catch (error) {
+      console.error('Error in markRead:', error);
+      throw new ApiError('Error updating notification', 500);
+    }
+  }
+
+  /**
+   * Mark all notifications of a user as read
+   * @param userId User ID
+   * @returns Number of notifications marked
+   */
+  async markAllRead(userId: number): Promise<number> {
+    try {
+      const result = await query(
+        `UPDATE notifications SET read_at = CURRENT_TIMESTAMP WHERE user_id = $1 AND read_at IS NULL`,
+        [userId]
+      );
+
+      return result.rowCount ?? 0;
+    } catch (error) {
+      console.error('Error in markAllRead:', error);
+      throw new ApiError('Error updating notifications', 500);
+    }
+  }
+
+  /**
+   * Get the preferences a user saved
+   * @param userId User ID
+   * @returns Saved preferences
+   */
+  async getPreferences(userId: number): Promise<INotificationPreference[]> {
+    try {
+      const result = await query(
+        `SELECT type, channel, enabled FROM notification_preferences WHERE user_id = $1`,
+        [userId]
+      );
+
+      return result.rows.map(row => ({
+        type: row.type as NotificationType,
+        channel: row.channel as NotificationChannel,
+        enabled: row.enabled
+      }));
+    } catch (error) {
+      console.error('Error in getPreferences:', error);
+      throw new ApiError('Error finding notification preferences', 500);
+    }
+  }
+
+  /**
+   * Save preferences of a user
+   * @param userId User ID
+   * @param preferences Preferences to save
+   */
+  async savePreferences(userId: number, preferences: INotificationPreference[]): Promise<void> {
+    try {
+      Notification.validatePreferences(preferences);
+
+      await query(
+        `INSERT INTO notification_preferences (user_id, type, channel, enabled)
+         SELECT $1, p.type, p.channel, p.enabled
+         FROM unnest($2::text[], $3::text[], $4::boolean[]) AS p(type, channel, enabled)
+         ON CONFLICT (user_id, type, channel) DO UPDATE SET enabled = EXCLUDED.enabled`,
+        [
+          userId,
+          preferences.map(preference => preference.type),
+          preferences.map(preference => preference.channel),
+          preferences.map(preference => preference.enabled)
+        ]
+      );
+    } catch (error) {
+      if (error instanceof ApiError) {
+        throw error;
+      }
+      console.error('Error in savePreferences:', error);
+      throw new ApiError('Error saving notification preferences', 500);
+    }
+  }
+
+  /**
+   * Claim open tasks that became overdue since they were last announced
+   * Claimed tasks remember the due date they were announced for, so each due date is
+   * announced once; SKIP LOCKED keeps several server instances from claiming the same tasks
+   * @param limit Maximum number of tasks to claim
+   * @returns Claimed tasks, once per owner and assignee
+   */
+  async claimOverdue(limit: number): Promise<IOverdueTask[]> {
+    try {
+      const result = await query(
+        `WITH due AS (
+           SELECT t.task_id FROM tasks t
+           WHERE t.due_date < CURRENT_DATE
+             AND t.overdue_notified_on IS DISTINCT FROM t.due_date
+             AND t.completed_at IS NULL AND t.cancelled_at IS NULL
+           ORDER BY t.due_date, t.task_id
+           LIMIT $1
+           FOR UPDATE SKIP LOCKED
+         ), claimed AS (
+           UPDATE tasks t
+           SET overdue_notified_on = t.due_date
+           FROM due
+           WHERE t.task_id = due.task_id
+           RETURNING t.task_id, t.user_id, t.title, t.due_date
+         )
+         SELECT claimed.task_id, recipients.user_id, claimed.title,
+           to_char(claimed.due_date, 'YYYY-MM-DD') AS due_date
+         FROM claimed
+         CROSS JOIN LATERAL (
+           SELECT claimed.user_id
+           UNION
+           SELECT ta.user_id FROM task_assignments ta WHERE ta.task_id = claimed.task_id
+         ) AS recipients(user_id)
+         ORDER BY claimed.task_id, recipients.user_id`,
+        [limit]
+      );
+
+      return result.rows.map(row => ({
+        task_id: row.task_id,
+        user_id: row.user_id,
+        title: row.title,
+        due_date: row.due_date
+      }));
+    } catch (error) {
+      console.error('Error in claimOverdue:', error);
+      throw new ApiError('Error claiming overdue tasks', 500);
+    }
+  }
+}
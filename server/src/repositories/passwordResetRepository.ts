@@ -0,0 +1,75 @@
+import { PoolClient } from 'pg';
+import { query } from '../config/database';
+import { ApiError } from '../utils/error.utils';
+import { IPasswordResetToken, IPasswordResetTokenCreate } from '../interfaces/passwordReset.interface';
+import { IPasswordResetRepository } from '../interfaces/passwordResetRepository.interface';
+import { PasswordReset } from '../models/passwordReset.model';
+
+/**
+ * PostgreSQL implementation of the Password Reset Repository
+ */
+export class PasswordResetRepository implements IPasswordResetRepository {
+  /**
+   * Store a new password reset token
+   * @param data Reset token data (hash only)
+   * @returns Stored reset token
+   */
+  async create(data: IPasswordResetTokenCreate): Promise<IPasswordResetToken> {
+    try {
+      const result = await query(
+        `INSERT INTO password_reset_tokens (user_id, token_hash, expires_at)
+         VALUES ($1, $2, $3)
+         RETURNING *`,
+        [data.user_id, data.token_hash, data.expires_at]
+      );
+
+      return PasswordReset.fromDatabaseRow(result.rows[0]);
+    } catch (error) {
+      console.error('Error in create:', error);
+      throw new ApiError('Error storing password reset token', 500);
+    }
+  }
+
+  /**
+   * Mark an unused, unexpired token as used
+   * The check and the update are a single statement, so a token can only be consumed once
+   * @param tokenHash SHA-256 hash of the reset token
+   * @param client Database client of a surrounding transaction, if any
+   * @returns Consumed token or null if no usable token matched
+   */
+  async consume(tokenHash: string, client?: PoolClient): Promise<IPasswordResetToken | null> {
+    try {
+      const text = `UPDATE password_reset_tokens
+         SET used_at = CURRENT_TIMESTAMP
+         WHERE token_hash = $1 AND used_at IS NULL AND expires_at > CURRENT_TIMESTAMP
+         RETURNING *`;
+      const result = client ? await client.query(text, [tokenHash]) : await query(text, [tokenHash]);
+
+      return result.rows.length > 0 ? PasswordReset.fromDatabaseRow(result.rows[0]) : null;
+    } catch (error) {
+      console.error('Error in consume:', error);
+      throw new ApiError('Error consuming password reset token', 500);
+    }
+  }
+
+  /**
+   * Mark every outstanding reset token of a user as used
+   * @param userId User ID
+   * @returns Number of invalidated tokens
+   */
+  async invalidateForUser(userId: number): Promise<number> {
+    try {
+      const result = await query(
+        `UPDATE password_reset_tokens
+         SET used_at = CURRENT_TIMESTAMP
+         WHERE user_id = $1 AND used_at IS NULL`,
+        [userId]
+      );
+
+      return result.rowCount ?? 0;
+    } catch (error) {
+      console.error('Error in invalidateForUser:', error);
+      throw new ApiError('Error invalidating password reset tokens', 500);
+    }
+  }
+}
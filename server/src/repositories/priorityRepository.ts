@@ -0,0 +1,182 @@
+import { query } from '../config/database';
+import { ApiError, isUniqueViolation } from '../utils/error.utils';
+import { IPriority, IPriorityCreate, IPriorityUpdate } from '../interfaces/priority.interface';
+import { IPriorityRepository } from '../interfaces/priorityRepository.interface';
+import { Priority } from '../models/priority.model';
+
+/**
+ * PostgreSQL implementation of the Priority Repository
+ */
+export class PriorityRepository implements IPriorityRepository {
+  /**
+   * Find a priority by ID
+   * @param id Priority ID
+   * @returns Priority object or null if not found
+   */
+  async findById(id: number): Promise<IPriority | null> {
+    try {
+      const result = await query(
+        `SELECT * FROM priorities WHERE priority_id = $1`,
+        [id]
+      );
+
+      return result.rows.length > 0 ? Priority.fromDatabaseRow(result.rows[0]) : null;
+    } catch (error) {
+      console.error('Error in findById:', error);
+      throw new ApiError('Error finding priority by ID', 500);
+    }
+  }
+
+  /**
+   * Find a priority by name
+   * @param name Priority name
+   * @returns Priority object or null if not found
+   */
+  async findByName(name: string): Promise<IPriority | null> {
+    try {
+      const result = await query(
+        `SELECT * FROM priorities WHERE name = $1`,
+        [name]
+      );
+
+      return result.rows.length > 0 ? Priority.fromDatabaseRow(result.rows[0]) : null;
+    } catch (error) {
+      console.error('Error in findByName:', error);
+      throw new ApiError('Error finding priority by name', 500);
+    }
+  }
+
+  /**
+   * Create a new priority
+   * When no rank is given the priority is ranked above all existing ones
+   * @param data Priority data to create
+   * @returns Created priority object
+   * @throws ApiError 409 if the name is already taken
+   */
+  async create(data: IPriorityCreate): Promise<IPriority> {
+    try {
+      // Validate priority data
+      Priority.validateCreate(data);
+
+      const result = await query(
+        `INSERT INTO priorities (name, rank)
+         VALUES ($1, COALESCE($2, (SELECT COALESCE(MAX(rank), 0) + 1 FROM priorities)))
+         RETURNING *`,
+        [data.name.trim(), data.rank ?? null]
+      );
+
+      return Priority.fromDatabaseRow(result.rows[0]);
+    } catch (error) {
+      if (error instanceof ApiError) {
+        throw error;
+      }
+      if (isUniqueViolation(error)) {
+        throw ApiError.conflict('Priority name is already in use', 'PRIORITY_EXISTS');
+      }
+      console.error('Error in create:', error);
+      throw new ApiError('Error creating priority', 500);
+    }
+  }
+
+  /**
+   * Update an existing priority
+   * @param id Priority ID
+   * @param data Priority data to update
+   * @returns Updated priority object or null if not found
+   * @throws ApiError 409 if the new name is already taken
+   */
+  async update(id: number, data: IPriorityUpdate): Promise<IPriority | null> {
+    try {
+      // Validate update data
+      Priority.validateUpdate(data);
+
+      // Build update query
+      const updates: string[] = [];
+      const values: any[] = [];
+      let paramCount = 1;
+
+      if (data.name !== undefined) {
+        updates.push(`name = $${paramCount++}`);
+        values.push(data.name.trim());
+      }
+
+      if (data.rank !== undefined) {
+        updates.push(`rank = $${paramCount++}`);
+        values.push(data.rank);
+      }
+
+      // If nothing to update
+      if (updates.length === 0) {
+        return this.findById(id);
+      }
+
+      // Add priority_id to values
+      values.push(id);
+
+      const result = await query(
+        `UPDATE priorities
+         SET ${updates.join(', ')}
+         WHERE priority_id = $${paramCount}
+         RETURNING *`,
+        values
+      );
+
+      return result.rows.length > 0 ? Priority.fromDatabaseRow(result.rows[0]) : null;
+    } catch (error) {
+      if (error instanceof ApiError) {
+        throw error;
+      }
+      if (isUniqueViolation(error)) {
+        throw ApiError.conflict('Priority name is already in use', 'PRIORITY_EXISTS');
+      }
+      console.error('Error in update:', error);
+      throw new ApiError('Error updating priority', 500);
+    }
+  }
+
+  /**
+   * Delete a priority
+   * Tasks with this priority have their priority cleared by the foreign key
+   * @param id Priority ID
+   * @returns Boolean indicating if deletion was successful
+   */
+  async delete(id: number): Promise<boolean> {
+    try {
+      const result = await query(
+        `DELETE FROM priorities WHERE priority_id = $1 RETURNING priority_id`,
+        [id]
+      );
+
+      return result.rowCount !== null && result.rowCount > 0;
+    } catch (error) {
+      console.error('Error in delete:', error);
+      throw new ApiError('Error deleting priority', 500);
+    }
+  }
+
+  /**
+   * Find all priorities (optionally filtered)
+   * @param filter Optional filter criteria
+   * @returns Array of priorities ordered from highest to lowest rank
+   */
+  async findAll(filter?: Partial<IPriority>): Promise<IPriority[]> {
+    try {
+      let queryText = `SELECT * FROM priorities`;
+      const values: any[] = [];
+
+      if (filter && filter.name) {
+        queryText += ` WHERE name ILIKE $1`;
+        values.push(`%${filter.name}%`);
+      }
+
+      queryText += ` ORDER BY rank DESC, name ASC`;
+
+      const result = await query(queryText, values);
+
+      return result.rows.map(Priority.fromDatabaseRow);
+    } catch (error) {
+      console.error('Error in findAll:', error);
+      throw new ApiError('Error finding priorities', 500);
+    }
+  }
+}
@@ -0,0 +1,162 @@
+import { PoolClient } from 'pg';
+import { query, transaction } from '../config/database';
+import { ApiError } from '../utils/error.utils';
+import { IRefreshToken, IRefreshTokenCreate, IRefreshTokenRotation } from '../interfaces/refreshToken.interface';
+import { IRefreshTokenRepository } from '../interfaces/refreshTokenRepository.interface';
+import { RefreshToken } from '../models/refreshToken.model';
+
+/**
+ * PostgreSQL implementation of the Refresh Token Repository
+ */
+export class RefreshTokenRepository implements IRefreshTokenRepository {
+  /**
+   * Find a refresh token by its token ID
+   * @param tokenId Token ID (jti claim)
+   * @returns Refresh token or null if not found
+   */
+  async findById(tokenId: string): Promise<IRefreshToken | null> {
+    try {
+      const result = await query(
+        `SELECT * FROM refresh_tokens WHERE token_id = $1`,
+        [tokenId]
+      );
+
+      return result.rows.length > 0 ? RefreshToken.fromDatabaseRow(result.rows[0]) : null;
+    } catch (error) {
+      console.error('Error in findById:', error);
+      throw new ApiError('Error finding refresh token', 500);
+    }
+  }
+
+  /**
+   * Store a newly issued refresh token
+   * @param data Refresh token data
+   * @returns Stored refresh token
+   */
+  async create(data: IRefreshTokenCreate): Promise<IRefreshToken> {
+    try {
+      const result = await query(
+        `INSERT INTO refresh_tokens (token_id, user_id, family_id)
+         VALUES ($1, $2, $3)
+         RETURNING *`,
+        [data.token_id, data.user_id, data.family_id]
+      );
+
+      return RefreshToken.fromDatabaseRow(result.rows[0]);
+    } catch (error) {
+      console.error('Error in create:', error);
+      throw new ApiError('Error storing refresh token', 500);
+    }
+  }
+
+  /**
+   * Exchange a refresh token for its successor
+   * The used token is locked so two concurrent refreshes cannot both rotate it
+   * @param tokenId ID of the token being used
+   * @param next Successor token to store
+   * @returns Rotation outcome; the successor is only stored when status is 'rotated'
+   */
+  async rotate(tokenId: string, next: IRefreshTokenCreate): Promise<IRefreshTokenRotation> {
+    try {
+      return await transaction(async (client) => {
+        const current = await client.query(
+          `SELECT * FROM refresh_tokens WHERE token_id = $1 FOR UPDATE`,
+          [tokenId]
+        );
+
+        if (current.rows.length === 0) {
+          return { status: 'not_found' };
+        }
+
+        const token = RefreshToken.fromDatabaseRow(current.rows[0]);
+        if (token.revoked_at) {
+          return { status: 'revoked', token };
+        }
+        if (token.rotated_at) {
+          return { status: 'reused', token };
+        }
+
+        const inserted = await client.query(
+          `INSERT INTO refresh_tokens (token_id, user_id, family_id)
+           VALUES ($1, $2, $3)
+           RETURNING *`,
+          [next.token_id, next.user_id, next.family_id]
+        );
+
+        await client.query(
+          `UPDATE refresh_tokens
+           SET rotated_at = CURRENT_TIMESTAMP, replaced_by = $1
+           WHERE token_id = $2`,
+          [next.token_id, tokenId]
+        );
+
+        return { status: 'rotated', token: RefreshToken.fromDatabaseRow(inserted.rows[0]) };
+      });
+    } catch (error) {
+      console.error('Error in rotate:', error);
+      throw new ApiError('Error rotating refresh token', 500);
+    }
+  }
+
+  /**
+   * Revoke a single refresh token
+   * @param tokenId Token ID
+   * @returns Boolean indicating if an active token was revoked
+   */
+  async revoke(tokenId: string): Promise<boolean> {
+    try {
+      const result = await query(
+        `UPDATE refresh_tokens
+         SET revoked_at = CURRENT_TIMESTAMP
+         WHERE token_id = $1 AND revoked_at IS NULL`,
+        [tokenId]
+      );
+
+      return result.rowCount !== null && result.rowCount > 0;
+    } catch (error) {
+      console.error('Error in revoke:', error);
+      throw new ApiError('Error revoking refresh token', 500);
+    }
+  }
+
+  /**
+   * Revoke every active token in a family
+   * @param familyId Family ID
+   * @returns Number of revoked tokens
+   */
+  async revokeFamily(familyId: string): Promise<number> {
+    try {
+      const result = await query(
+        `UPDATE refresh_tokens
+         SET revoked_at = CURRENT_TIMESTAMP
+         WHERE family_id = $1 AND revoked_at IS NULL`,
+        [familyId]
+      );
+
+      return result.rowCount ?? 0;
+    } catch (error) {
+      console.error('Error in revokeFamily:', error);
+      throw new ApiError('Error revoking refresh token family', 500);
+    }
+  }
+
+  /**
+   * Revoke every active token of a user, ending all of their sessions
+   * @param userId User ID
+   * @param client Database client of a surrounding transaction, if any
+   * @returns Number of revoked tokens
+   */
+  async revokeAllForUser(userId: number, client?: PoolClient): Promise<number> {
+    try {
+      const text = `UPDATE refresh_tokens
+         SET revoked_at = CURRENT_TIMESTAMP
+         WHERE user_id = $1 AND revoked_at IS NULL`;
+      const result = client ? await client.query(text, [userId]) : await query(text, [userId]);
+
+      return result.rowCount ?? 0;
+    } catch (error) {
+      console.error('Error in revokeAllForUser:', error);
+      throw new ApiError('Error revoking refresh tokens', 500);
+    }
+  }
+}
@@ -0,0 +1,342 @@
+import { PoolClient } from 'pg';
+import { query, transaction } from '../config/database';
+import { ApiError } from '../utils/error.utils';
+import {
+  IDueReminder,
+  IReminder,
+  IReminderCreate,
+  IReminderSettings,
+  IReminderSettingsUpdate,
+  ReminderChannel,
+  ReminderStatus
+} from '../interfaces/reminder.interface';
+import { IReminderRepository } from '../interfaces/reminderRepository.interface';
+import { Reminder } from '../models/reminder.model';
+
+/**
+ * Build the firing time of a reminder relative to its task's due date
+ * Due dates are days, so offsets count back from the start of the due day
+ * @param reminderOffset Expression of the offset in minutes
+ * @param taskAlias Alias of the tasks relation in the surrounding query
+ * @returns Timestamp expression, NULL when the task has no due date
+ */
+const relativeFireAt = (reminderOffset: string, taskAlias: string): string =>
+  `(${taskAlias}.due_date::timestamp - ${reminderOffset} * INTERVAL '1 minute')`;
+
+/**
+ * PostgreSQL implementation of the Reminder Repository
+ */
+export class ReminderRepository implements IReminderRepository {
+  /**
+   * Find the reminders a user set on a task
+   * @param taskId Task ID
+   * @param userId Recipient ID
+   * @returns Reminders, soonest first
+   */
+  async findByTask(taskId: number, userId: number): Promise<IReminder[]> {
+    try {
+      const result = await query(
+        `SELECT * FROM task_reminders
+         WHERE task_id = $1 AND user_id = $2
+         ORDER BY fire_at ASC NULLS LAST, reminder_id ASC`,
+        [taskId, userId]
+      );
+
+      return result.rows.map(Reminder.fromDatabaseRow);
+    } catch (error) {
+      console.error('Error in findByTask:', error);
+      throw new ApiError('Error finding reminders', 500);
+    }
+  }
+
+  /**
+   * Create a reminder
+   * @param data Reminder data
+   * @returns Created reminder
+   */
+  async create(data: IReminderCreate): Promise<IReminder> {
+    try {
+      Reminder.validateCreate(data);
+
+      const result = await query(
+        `INSERT INTO task_reminders (task_id, user_id, remind_at, offset_minutes, fire_at, next_attempt_at, channels)
+         SELECT t.task_id, $2, $3::timestamp, $4::int, f.fire_at, f.fire_at, $5
+         FROM tasks t
+         CROSS JOIN LATERAL (
+           SELECT COALESCE($3::timestamp, ${relativeFireAt('$4::int', 't')}) AS fire_at
+         ) f
+         WHERE t.task_id = $1
+         RETURNING *`,
+        [
+          data.task_id,
+          data.user_id,
+          data.remind_at ?? null,
+          data.offset_minutes ?? null,
+          data.channels || Reminder.DEFAULT_CHANNELS
+        ]
+      );
+
+      if (result.rows.length === 0) {
+        throw ApiError.notFound('Task not found', 'TASK_NOT_FOUND');
+      }
+
+      return Reminder.fromDatabaseRow(result.rows[0]);
+    } catch (error) {
+      if (error instanceof ApiError) {
+        throw error;
+      }
+      console.error('Error in create:', error);
+      throw new ApiError('Error creating reminder', 500);
+    }
+  }
+
+  /**
+   * Delete a reminder of a user
+   * @param reminderId Reminder ID
+   * @param taskId Task ID
+   * @param userId Recipient ID
+   * @returns Boolean indicating if a reminder was deleted
+   */
+  async delete(reminderId: number, taskId: number, userId: number): Promise<boolean> {
+    try {
+      const result = await query(
+        `DELETE FROM task_reminders WHERE reminder_id = $1 AND task_id = $2 AND user_id = $3`,
+        [reminderId, taskId, userId]
+      );
+
+      return (result.rowCount ?? 0) > 0;
+    } catch (error) {
+      console.error('Error in delete:', error);
+      throw new ApiError('Error deleting reminder', 500);
+    }
+  }
+
+  /**
+   * Get the reminder defaults of a user
+   * @param userId User ID
+   * @returns Settings; users who never saved any have no default reminders
+   */
+  async getSettings(userId: number): Promise<IReminderSettings> {
+    try {
+      const result = await query(`SELECT * FROM reminder_settings WHERE user_id = $1`, [userId]);
+
+      return result.rows.length > 0
+        ? Reminder.settingsFromDatabaseRow(result.rows[0])
+        : { user_id: userId, default_offsets: [], default_channels: [...Reminder.DEFAULT_CHANNELS], webhook_url: null };
+    } catch (error) {
+      console.error('Error in getSettings:', error);
+      throw new ApiError('Error finding reminder settings', 500);
+    }
+  }
+
+  /**
+   * Save the reminder defaults of a user
+   * @param userId User ID
+   * @param data Settings to change; undefined fields are kept
+   * @returns Saved settings
+   */
+  async updateSettings(userId: number, data: IReminderSettingsUpdate): Promise<IReminderSettings> {
+    try {
+      Reminder.validateSettings(data);
+
+      const result = await query(
+        `INSERT INTO reminder_settings (user_id, default_offsets, default_channels, webhook_url)
+         VALUES ($1, COALESCE($2::int[], '{}'), COALESCE($3::text[], $4::text[]), $5)
+         ON CONFLICT (user_id) DO UPDATE SET
+           default_offsets = COALESCE($2::int[], reminder_settings.default_offsets),
+           default_channels = COALESCE($3::text[], reminder_settings.default_channels),
+           webhook_url = CASE WHEN $6 THEN $5 ELSE reminder_settings.webhook_url END,
+           updated_at = NOW()
+         RETURNING *`,
+        [
+          userId,
+          data.default_offsets ?? null,
+          data.default_channels ?? null,
+          Reminder.DEFAULT_CHANNELS,
+          data.webhook_url ?? null,
+          data.webhook_url !== undefined
+        ]
+      );
+
+      return Reminder.settingsFromDatabaseRow(result.rows[0]);
+    } catch (error) {
+      if (error instanceof ApiError) {
+        throw error;
+      }
+      console.error('Error in updateSettings:', error);
+      throw new ApiError('Error updating reminder settings', 500);
+    }
+  }
+
+  /**
+   * Add the default reminders of a task's owner within the transaction creating the task
+   * or setting its due date; offsets the owner already has on the task are skipped
+   * Errors propagate so the task change is rolled back with its reminders
+   * @param client Client of the open transaction
+   * @param taskId Task ID
+   */
+  async createDefaults(client: PoolClient, taskId: number): Promise<void> {
+    await client.query(
+      `INSERT INTO task_reminders (task_id, user_id, offset_minutes, fire_at, next_attempt_at, channels)
+       SELECT t.task_id, t.user_id, o.offset_minutes,
+         ${relativeFireAt('o.offset_minutes', 't')}, ${relativeFireAt('o.offset_minutes', 't')}, s.default_channels
+       FROM tasks t
+       JOIN reminder_settings s ON s.user_id = t.user_id
+       CROSS JOIN LATERAL unnest(s.default_offsets) AS o(offset_minutes)
+       WHERE t.task_id = $1 AND t.due_date IS NOT NULL
+         AND NOT EXISTS (
+           SELECT 1 FROM task_reminders r
+           WHERE r.task_id = t.task_id AND r.user_id = t.user_id AND r.offset_minutes = o.offset_minutes
+         )`,
+      [taskId]
+    );
+  }
+
+  /**
+   * Move the reminders relative to a task's due date after the due date changed
+   * Pending reminders follow the due date; sent ones fire again if they now fall in the future
+   * Errors propagate so the task change is rolled back with its reminders
+   * @param client Client of the open transaction
+   * @param taskId Task ID
+   */
+  async reschedule(client: PoolClient, taskId: number): Promise<void> {
+    const fireAt = relativeFireAt('r.offset_minutes', 't');
+
+    await client.query(
+      `UPDATE task_reminders r
+       SET fire_at = ${fireAt}, next_attempt_at = ${fireAt}, status = $2,
+           delivered_channels = '{}', attempts = 0, last_error = NULL, sent_at = NULL
+       FROM tasks t
+       WHERE r.task_id = $1 AND t.task_id = r.task_id AND r.offset_minutes IS NOT NULL
+         AND (r.status = $2 OR ${fireAt} > CURRENT_TIMESTAMP)`,
+      [taskId, ReminderStatus.PENDING]
+    );
+  }
+
+  /**
+   * Claim pending reminders that are due
+   * Claimed rows have their next attempt pushed back by the lease, so reminders
+   * claimed by a process that stops mid-delivery are retried instead of lost.
+   * SKIP LOCKED lets several server instances poll without claiming the same rows.
+   * @param limit Maximum number of reminders to claim
+   * @param leaseMs Lease duration in milliseconds
+   * @returns Claimed reminders with their task and recipient
+   */
+  async claimDue(limit: number, leaseMs: number): Promise<IDueReminder[]> {
+    try {
+      return await transaction(async (client) => {
+        const due = await client.query(
+          `SELECT reminder_id FROM task_reminders
+           WHERE status = $1 AND next_attempt_at <= CURRENT_TIMESTAMP
+           ORDER BY next_attempt_at
+           LIMIT $2
+           FOR UPDATE SKIP LOCKED`,
+          [ReminderStatus.PENDING, limit]
+        );
+
+        if (due.rows.length === 0) {
+          return [];
+        }
+
+        const result = await client.query(
+          `WITH claimed AS (
+             UPDATE task_reminders
+             SET next_attempt_at = CURRENT_TIMESTAMP + ($1 * INTERVAL '1 millisecond')
+             WHERE reminder_id = ANY($2::int[])
+             RETURNING *
+           )
+           SELECT claimed.*, t.title AS task_title, to_char(t.due_date, 'YYYY-MM-DD') AS task_due_date,
+             (SELECT st.category FROM statuses st
+              WHERE st.key = t.status AND (st.workspace_id IS NULL OR st.workspace_id = t.workspace_id)
+              LIMIT 1) AS task_status_category,
+             u.username, u.email, s.webhook_url
+           FROM claimed
+           JOIN tasks t ON t.task_id = claimed.task_id
+           JOIN users u ON u.user_id = claimed.user_id
+           LEFT JOIN reminder_settings s ON s.user_id = claimed.user_id
+           ORDER BY claimed.next_attempt_at, claimed.reminder_id`,
+          [leaseMs, due.rows.map(row => row.reminder_id)]
+        );
+
+        return result.rows.map(Reminder.dueFromDatabaseRow);
+      });
+    } catch (error) {
+      console.error('Error in claimDue:', error);
+      throw new ApiError('Error claiming due reminders', 500);
+    }
+  }
+
+  /**
+   * Record that a channel delivered a reminder, so a retry does not deliver it again
+   * @param reminderId Reminder ID
+   * @param channel Channel
+   */
+  async markChannelDelivered(reminderId: number, channel: ReminderChannel): Promise<void> {
+    try {
+      await query(
+        `UPDATE task_reminders
+         SET delivered_channels = array_append(delivered_channels, $2::text)
+         WHERE reminder_id = $1 AND NOT ($2::text = ANY(delivered_channels))`,
+        [reminderId, channel]
+      );
+    } catch (error) {
+      console.error('Error in markChannelDelivered:', error);
+      throw new ApiError('Error updating reminder', 500);
+    }
+  }
+
+  /**
+   * Mark a reminder as delivered on all its channels
+   * @param reminderId Reminder ID
+   */
+  async markSent(reminderId: number): Promise<void> {
+    try {
+      await query(
+        `UPDATE task_reminders
+         SET status = $1, attempts = attempts + 1, sent_at = CURRENT_TIMESTAMP, last_error = NULL
+         WHERE reminder_id = $2`,
+        [ReminderStatus.SENT, reminderId]
+      );
+    } catch (error) {
+      console.error('Error in markSent:', error);
+      throw new ApiError('Error updating reminder', 500);
+    }
+  }
+
+  /**
+   * Mark a reminder whose task was closed when it fired
+   * @param reminderId Reminder ID
+   */
+  async markSkipped(reminderId: number): Promise<void> {
+    try {
+      await query(
+        `UPDATE task_reminders SET status = $1 WHERE reminder_id = $2`,
+        [ReminderStatus.SKIPPED, reminderId]
+      );
+    } catch (error) {
+      console.error('Error in markSkipped:', error);
+      throw new ApiError('Error updating reminder', 500);
+    }
+  }
+
+  /**
+   * Record a failed delivery attempt
+   * @param reminderId Reminder ID
+   * @param errorMessage Error message of the attempt
+   * @param nextAttemptAt When to retry, or null to mark the reminder as failed
+   */
+  async markFailed(reminderId: number, errorMessage: string, nextAttemptAt: Date | null): Promise<void> {
+    try {
+      await query(
+        `UPDATE task_reminders
+         SET status = $1, attempts = attempts + 1, last_error = $2,
+             next_attempt_at = COALESCE($3, next_attempt_at)
+         WHERE reminder_id = $4`,
+        [nextAttemptAt ? ReminderStatus.PENDING : ReminderStatus.FAILED, errorMessage, nextAttemptAt, reminderId]
+      );
+    } catch (error) {
+      console.error('Error in markFailed:', error);
+      throw new ApiError('Error updating reminder', 500);
+    }
+  }
+}
@@ -0,0 +1,73 @@
+import { query, transaction } from '../config/database';
+import { ApiError } from '../utils/error.utils';
+import { AppSettingKey, IAppSettings } from '../interfaces/settings.interface';
+import { ISettingsRepository } from '../interfaces/settingsRepository.interface';
+import { Setting } from '../models/setting.model';
+
+/**
+ * PostgreSQL implementation of the Settings Repository
+ */
+export class SettingsRepository implements ISettingsRepository {
+  /**
+   * Get all settings
+   * @returns Application settings, with defaults for settings that were never stored
+   */
+  async getAll(): Promise<IAppSettings> {
+    try {
+      const result = await query(`SELECT key, value FROM app_settings`);
+      return Setting.fromDatabaseRows(result.rows);
+    } catch (error) {
+      console.error('Error in getAll:', error);
+      throw new ApiError('Error loading settings', 500);
+    }
+  }
+
+  /**
+   * Get a single setting
+   * @param key Setting name
+   * @returns Setting value
+   */
+  async get<K extends AppSettingKey>(key: K): Promise<IAppSettings[K]> {
+    try {
+      const result = await query(
+        `SELECT key, value FROM app_settings WHERE key = $1`,
+        [key]
+      );
+      return Setting.fromDatabaseRows(result.rows)[key];
+    } catch (error) {
+      console.error('Error in get:', error);
+      throw new ApiError('Error loading setting', 500);
+    }
+  }
+
+  /**
+   * Store new values for some settings
+   * @param settings Settings to change
+   * @returns Updated application settings
+   */
+  async update(settings: Partial<IAppSettings>): Promise<IAppSettings> {
+    try {
+      // Validate settings
+      Setting.validateUpdate(settings);
+
+      await transaction(async (client) => {
+        for (const [key, value] of Object.entries(settings)) {
+          await client.query(
+            `INSERT INTO app_settings (key, value)
+             VALUES ($1, $2)
+             ON CONFLICT (key) DO UPDATE SET value = EXCLUDED.value, updated_at = NOW()`,
+            [key, JSON.stringify(value)]
+          );
+        }
+      });
+
+      return this.getAll();
+    } catch (error) {
+      if (error instanceof ApiError) {
+        throw error;
+      }
+      console.error('Error in update:', error);
+      throw new ApiError('Error updating settings', 500);
+    }
+  }
+}
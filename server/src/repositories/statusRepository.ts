@@ -0,0 +1,259 @@
+import { query, transaction } from '../config/database';
+import { ApiError, isUniqueViolation } from '../utils/error.utils';
+import { IStatus, IStatusCreate, IStatusUpdate } from '../interfaces/status.interface';
+import { IStatusRepository } from '../interfaces/statusRepository.interface';
+import { Status } from '../models/status.model';
+
+/**
+ * PostgreSQL implementation of the Status Repository
+ */
+export class StatusRepository implements IStatusRepository {
+  /**
+   * Find a status by ID
+   * @param id Status ID
+   * @returns Status object or null if not found
+   */
+  async findById(id: number): Promise<IStatus | null> {
+    try {
+      const result = await query(
+        `SELECT * FROM statuses WHERE status_id = $1`,
+        [id]
+      );
+
+      return result.rows.length > 0 ? Status.fromDatabaseRow(result.rows[0]) : null;
+    } catch (error) {
+      console.error('Error in findById:', error);
+      throw new ApiError('Error finding status by ID', 500);
+    }
+  }
+
+  /**
+   * Find the statuses available to tasks: the built-in ones and those of a workspace
+   * @param workspaceId Workspace ID (null for personal tasks)
+   * @returns Array of statuses ordered by position
+   */
+  async findAvailable(workspaceId: number | null): Promise<IStatus[]> {
+    try {
+      const result = await query(
+        `SELECT * FROM statuses
+         WHERE workspace_id IS NULL OR workspace_id = $1
+         ORDER BY position ASC, status_id ASC`,
+        [workspaceId]
+      );
+
+      return result.rows.map(Status.fromDatabaseRow);
+    } catch (error) {
+      console.error('Error in findAvailable:', error);
+      throw new ApiError('Error finding statuses', 500);
+    }
+  }
+
+  /**
+   * Find a status available to tasks by its key
+   * @param key Status key
+   * @param workspaceId Workspace ID (null for personal tasks)
+   * @returns Status object or null if not found
+   */
+  async findByKey(key: string, workspaceId: number | null): Promise<IStatus | null> {
+    try {
+      const result = await query(
+        `SELECT * FROM statuses
+         WHERE key = $1 AND (workspace_id IS NULL OR workspace_id = $2)
+         LIMIT 1`,
+        [key, workspaceId]
+      );
+
+      return result.rows.length > 0 ? Status.fromDatabaseRow(result.rows[0]) : null;
+    } catch (error) {
+      console.error('Error in findByKey:', error);
+      throw new ApiError('Error finding status by key', 500);
+    }
+  }
+
+  /**
+   * Create a new workspace status
+   * @param data Status data to create
+   * @returns Created status object
+   * @throws ApiError 409 if the workspace already has a status with this key
+   */
+  async create(data: IStatusCreate): Promise<IStatus> {
+    try {
+      const key = data.key ?? Status.keyFromName(data.name || '');
+
+      // Validate status data
+      Status.validateCreate({ ...data, key });
+
+      // New statuses go last unless a position is given
+      const result = await query(
+        `INSERT INTO statuses (workspace_id, key, name, category, position, color)
+         VALUES ($1, $2, $3, $4,
+           COALESCE($5, (SELECT COALESCE(MAX(position), 0) + 1 FROM statuses WHERE workspace_id IS NULL OR workspace_id = $1)),
+           $6)
+         RETURNING *`,
+        [
+          data.workspace_id,
+          key,
+          data.name.trim(),
+          data.category,
+          data.position ?? null,
+          data.color || Status.DEFAULT_COLOR
+        ]
+      );
+
+      return Status.fromDatabaseRow(result.rows[0]);
+    } catch (error) {
+      if (error instanceof ApiError) {
+        throw error;
+      }
+      if (isUniqueViolation(error)) {
+        throw ApiError.conflict('This workspace already has a status with this key', 'STATUS_EXISTS');
+      }
+      console.error('Error in create:', error);
+      throw new ApiError('Error creating status', 500);
+    }
+  }
+
+  /**
+   * Update an existing status
+   * @param id Status ID
+   * @param data Status data to update
+   * @returns Updated status object or null if not found
+   */
+  async update(id: number, data: IStatusUpdate): Promise<IStatus | null> {
+    try {
+      // Validate update data
+      Status.validateUpdate(data);
+
+      // Build update query
+      const updates: string[] = [];
+      const values: any[] = [];
+      let paramCount = 1;
+
+      if (data.name !== undefined) {
+        updates.push(`name = $${paramCount++}`);
+        values.push(data.name.trim());
+      }
+
+      if (data.position !== undefined) {
+        updates.push(`position = $${paramCount++}`);
+        values.push(data.position);
+      }
+
+      if (data.color !== undefined) {
+        updates.push(`color = $${paramCount++}`);
+        values.push(data.color);
+      }
+
+      // If nothing to update
+      if (updates.length === 0) {
+        return this.findById(id);
+      }
+
+      // Add status_id to values
+      values.push(id);
+
+      const result = await query(
+        `UPDATE statuses
+         SET ${updates.join(', ')}
+         WHERE status_id = $${paramCount}
+         RETURNING *`,
+        values
+      );
+
+      return result.rows.length > 0 ? Status.fromDatabaseRow(result.rows[0]) : null;
+    } catch (error) {
+      if (error instanceof ApiError) {
+        throw error;
+      }
+      console.error('Error in update:', error);
+      throw new ApiError('Error updating status', 500);
+    }
+  }
+
+  /**
+   * Delete a workspace status that no task is in
+   * @param id Status ID
+   * @returns Boolean indicating if deletion was successful
+   * @throws ApiError 409 if tasks are still in the status
+   */
+  async delete(id: number): Promise<boolean> {
+    try {
+      return await transaction(async (client) => {
+        // Lock the status so no task moves into it while it is deleted
+        const existing = await client.query(
+          `SELECT * FROM statuses WHERE status_id = $1 FOR UPDATE`,
+          [id]
+        );
+        if (existing.rows.length === 0) {
+          return false;
+        }
+
+        const status = existing.rows[0];
+        const tasks = await client.query(
+          `SELECT COUNT(*) AS count FROM tasks WHERE workspace_id = $1 AND status = $2`,
+          [status.workspace_id, status.key]
+        );
+        const count = parseInt(tasks.rows[0].count);
+        if (count > 0) {
+          throw ApiError.conflict(
+            `${count} task(s) are still in this status; move them to another status first`,
+            'STATUS_IN_USE'
+          );
+        }
+
+        await client.query(`DELETE FROM statuses WHERE status_id = $1`, [id]);
+
+        return true;
+      });
+    } catch (error) {
+      if (error instanceof ApiError) {
+        throw error;
+      }
+      console.error('Error in delete:', error);
+      throw new ApiError('Error deleting status', 500);
+    }
+  }
+
+  /**
+   * Find all statuses (optionally filtered)
+   * @param filter Optional filter criteria
+   * @returns Array of statuses ordered by position
+   */
+  async findAll(filter?: Partial<IStatus>): Promise<IStatus[]> {
+    try {
+      let queryText = `SELECT * FROM statuses`;
+      const values: any[] = [];
+      let paramCount = 1;
+
+      // Build WHERE clause if filters are provided
+      if (filter && Object.keys(filter).length > 0) {
+        const conditions: string[] = [];
+
+        if (filter.workspace_id === null) {
+          conditions.push(`workspace_id IS NULL`);
+        } else if (filter.workspace_id !== undefined) {
+          conditions.push(`workspace_id = $${paramCount++}`);
+          values.push(filter.workspace_id);
+        }
+
+        if (filter.category !== undefined) {
+          conditions.push(`category = $${paramCount++}`);
+          values.push(filter.category);
+        }
+
+        if (conditions.length > 0) {
+          queryText += ` WHERE ${conditions.join(' AND ')}`;
+        }
+      }
+
+      queryText += ` ORDER BY position ASC, status_id ASC`;
+
+      const result = await query(queryText, values);
+
+      return result.rows.map(Status.fromDatabaseRow);
+    } catch (error) {
+      console.error('Error in findAll:', error);
+      throw new ApiError('Error finding statuses', 500);
+    }
+  }
+}
@@ -0,0 +1,207 @@
+import { PoolClient } from 'pg';
+import { query, transaction } from '../config/database';
+import { ApiError, isUniqueViolation } from '../utils/error.utils';
+import { ITag, ITaggedTask, ITagQuery, ITaskTagChange } from '../interfaces/tag.interface';
+import { ITagRepository } from '../interfaces/tagRepository.interface';
+import { Tag } from '../models/tag.model';
+
+/**
+ * PostgreSQL implementation of the Tag Repository
+ *
+ * Tags are scoped like categories: personal tasks carry the personal tags of their
+ * owner and workspace tasks the tags of their workspace. Names are unique per scope,
+ * ignoring case.
+ */
+export class TagRepository implements ITagRepository {
+  /**
+   * Find the tags a user can access: their personal tags and the tags of their workspaces
+   * @param userId User ID
+   * @param queryParams Optional prefix, workspace and limit
+   * @returns Tags with their task counts, most used first
+   */
+  async findByUserId(userId: number, queryParams?: ITagQuery): Promise<ITag[]> {
+    try {
+      let queryText = `SELECT g.*, COUNT(tt.task_id) AS task_count FROM tags g
+         LEFT JOIN task_tags tt ON tt.tag_id = g.tag_id
+         WHERE ((g.workspace_id IS NULL AND g.user_id = $1)
+           OR g.workspace_id IN (SELECT wm.workspace_id FROM workspace_members wm WHERE wm.user_id = $1))`;
+      const values: any[] = [userId];
+
+      if (queryParams?.workspace_id) {
+        values.push(queryParams.workspace_id);
+        queryText += ` AND g.workspace_id = $${values.length}`;
+      }
+
+      if (queryParams?.prefix) {
+        values.push(Tag.prefixPattern(queryParams.prefix));
+        queryText += ` AND lower(g.name) LIKE lower($${values.length})`;
+      }
+
+      queryText += ` GROUP BY g.tag_id ORDER BY task_count DESC, lower(g.name) ASC, g.tag_id ASC`;
+
+      if (queryParams?.limit) {
+        values.push(queryParams.limit);
+        queryText += ` LIMIT $${values.length}`;
+      }
+
+      const result = await query(queryText, values);
+
+      return result.rows.map(Tag.fromDatabaseRow);
+    } catch (error) {
+      console.error('Error in findByUserId:', error);
+      throw new ApiError('Error finding tags', 500);
+    }
+  }
+
+  /**
+   * Find a tag by ID
+   * @param id Tag ID
+   * @returns Tag or null if not found
+   */
+  async findById(id: number): Promise<ITag | null> {
+    try {
+      const result = await query(`SELECT * FROM tags WHERE tag_id = $1`, [id]);
+
+      return result.rows.length > 0 ? Tag.fromDatabaseRow(result.rows[0]) : null;
+    } catch (error) {
+      console.error('Error in findById:', error);
+      throw new ApiError('Error finding tag by ID', 500);
+    }
+  }
+
+  /**
+   * Rename a tag
+   * @param id Tag ID
+   * @param name New name
+   * @returns Renamed tag or null if not found
+   * @throws ApiError 409 if another tag of the scope has this name
+   */
+  async rename(id: number, name: string): Promise<ITag | null> {
+    try {
+      const result = await query(
+        `UPDATE tags SET name = $2 WHERE tag_id = $1 RETURNING *`,
+        [id, Tag.normalizeName(name)]
+      );
+
+      return result.rows.length > 0 ? Tag.fromDatabaseRow(result.rows[0]) : null;
+    } catch (error) {
+      if (error instanceof ApiError) {
+        throw error;
+      }
+      if (isUniqueViolation(error)) {
+        throw ApiError.conflict('A tag with this name already exists; merge the tags instead', 'TAG_EXISTS');
+      }
+      console.error('Error in rename:', error);
+      throw new ApiError('Error renaming tag', 500);
+    }
+  }
+
+  /**
+   * Move the tasks of a tag to another tag of the same scope and delete it
+   * Tasks carrying both tags keep the target once
+   * @param sourceId ID of the tag merged away
+   * @param targetId ID of the tag kept
+   * @returns Kept tag with its task count
+   */
+  async merge(sourceId: number, targetId: number): Promise<ITag> {
+    try {
+      return await transaction(async (client) => {
+        await client.query(
+          `INSERT INTO task_tags (task_id, tag_id)
+           SELECT task_id, $2::int FROM task_tags WHERE tag_id = $1
+           ON CONFLICT DO NOTHING`,
+          [sourceId, targetId]
+        );
+        await client.query(`DELETE FROM tags WHERE tag_id = $1`, [sourceId]);
+
+        const result = await client.query(
+          `SELECT g.*, (SELECT COUNT(*) FROM task_tags tt WHERE tt.tag_id = g.tag_id) AS task_count
+           FROM tags g WHERE g.tag_id = $1`,
+          [targetId]
+        );
+
+        return Tag.fromDatabaseRow(result.rows[0]);
+      });
+    } catch (error) {
+      console.error('Error in merge:', error);
+      throw new ApiError('Error merging tags', 500);
+    }
+  }
+
+  /**
+   * Delete a tag; tasks carrying it keep their other tags
+   * @param id Tag ID
+   * @returns Boolean indicating if a tag was deleted
+   */
+  async delete(id: number): Promise<boolean> {
+    try {
+      const result = await query(`DELETE FROM tags WHERE tag_id = $1 RETURNING tag_id`, [id]);
+
+      return result.rows.length > 0;
+    } catch (error) {
+      console.error('Error in delete:', error);
+      throw new ApiError('Error deleting tag', 500);
+    }
+  }
+
+  /**
+   * Replace the tags of a task within the transaction making the change
+   * Names match existing tags of the task's scope ignoring case; missing tags are created,
+   * owned by the task's owner for personal tasks and by the actor for workspace tasks.
+   * Errors propagate so the change is rolled back with its tags.
+   * @param client Client of the open transaction
+   * @param task Task to tag
+   * @param names Normalized tag names
+   * @param actorId ID of the user tagging the task
+   * @returns Tag names before and after the change, sorted by name
+   */
+  async setTaskTags(
+    client: PoolClient,
+    task: ITaggedTask,
+    names: string[],
+    actorId: number | null
+  ): Promise<ITaskTagChange> {
+    const before = await client.query(
+      `SELECT g.name FROM task_tags tt JOIN tags g ON g.tag_id = tt.tag_id
+       WHERE tt.task_id = $1 ORDER BY lower(g.name)`,
+      [task.task_id]
+    );
+
+    let tags: Array<{ tag_id: number; name: string }> = [];
+    if (names.length > 0) {
+      const workspaceId = task.workspace_id || null;
+      await client.query(
+        `INSERT INTO tags (user_id, workspace_id, name)
+         SELECT $1::int, $2::int, name FROM unnest($3::text[]) AS name
+         ON CONFLICT DO NOTHING`,
+        [workspaceId ? actorId ?? task.user_id : task.user_id, workspaceId, names]
+      );
+
+      const result = await client.query(
+        `SELECT tag_id, name FROM tags
+         WHERE ${workspaceId ? 'workspace_id = $1' : 'workspace_id IS NULL AND user_id = $1'}
+           AND lower(name) = ANY($2::text[])
+         ORDER BY lower(name)`,
+        [workspaceId ?? task.user_id, names.map(name => name.toLowerCase())]
+      );
+      tags = result.rows;
+    }
+
+    const tagIds = tags.map(tag => tag.tag_id);
+    await client.query(
+      `DELETE FROM task_tags WHERE task_id = $1 AND NOT (tag_id = ANY($2::int[]))`,
+      [task.task_id, tagIds]
+    );
+    await client.query(
+      `INSERT INTO task_tags (task_id, tag_id)
+       SELECT $1::int, tag_id FROM unnest($2::int[]) AS tag_id
+       ON CONFLICT DO NOTHING`,
+      [task.task_id, tagIds]
+    );
+
+    return {
+      from: before.rows.map(row => row.name),
+      to: tags.map(tag => tag.name)
+    };
+  }
+}
@@ -0,0 +1,83 @@
+import { transaction } from '../config/database';
+import { ApiError, isUniqueViolation } from '../utils/error.utils';
+import { ITaskAssignment } from '../interfaces/taskAssignment.interface';
+import { ITaskAssignmentRepository } from '../interfaces/taskAssignmentRepository.interface';
+import { TaskEventType } from '../interfaces/taskEvent.interface';
+import { TaskAssignment } from '../models/taskAssignment.model';
+import { TaskEventRepository } from './taskEventRepository';
+
+/**
+ * PostgreSQL implementation of the Task Assignment Repository
+ */
+export class TaskAssignmentRepository implements ITaskAssignmentRepository {
+  private eventRepository: TaskEventRepository = new TaskEventRepository();
+
+  /**
+   * Assign a user to a task and record it in the task history
+   * @param taskId Task ID
+   * @param userId ID of the user to assign
+   * @param actorId ID of the user making the assignment
+   * @returns Created assignment
+   * @throws ApiError 409 if the user is already assigned to the task
+   */
+  async assign(taskId: number, userId: number, actorId: number | null = null): Promise<ITaskAssignment> {
+    try {
+      return await transaction(async (client) => {
+        const result = await client.query(
+          `INSERT INTO task_assignments (task_id, user_id)
+           VALUES ($1, $2)
+           RETURNING *`,
+          [taskId, userId]
+        );
+
+        await this.eventRepository.record(client, {
+          task_id: taskId,
+          user_id: actorId,
+          event_type: TaskEventType.ASSIGNED,
+          changes: { assignee: { from: null, to: userId } }
+        });
+
+        return TaskAssignment.fromDatabaseRow(result.rows[0]);
+      });
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        throw ApiError.conflict('User is already assigned to this task', 'ALREADY_ASSIGNED');
+      }
+      console.error('Error in assign:', error);
+      throw new ApiError('Error assigning user to task', 500);
+    }
+  }
+
+  /**
+   * Remove a user from a task and record it in the task history
+   * @param taskId Task ID
+   * @param userId ID of the user to unassign
+   * @param actorId ID of the user removing the assignment
+   * @returns Boolean indicating if the user was assigned
+   */
+  async unassign(taskId: number, userId: number, actorId: number | null = null): Promise<boolean> {
+    try {
+      return await transaction(async (client) => {
+        const result = await client.query(
+          `DELETE FROM task_assignments WHERE task_id = $1 AND user_id = $2`,
+          [taskId, userId]
+        );
+        if (result.rowCount === null || result.rowCount === 0) {
+          return false;
+        }
+
+        await this.eventRepository.record(client, {
+          task_id: taskId,
+          user_id: actorId,
+          event_type: TaskEventType.UNASSIGNED,
+          changes: { assignee: { from: userId, to: null } }
+        });
+
+        return true;
+      });
+    } catch (error) {
+      console.error('Error in unassign:', error);
+      throw new ApiError('Error unassigning user from task', 500);
+    }
+  }
+}
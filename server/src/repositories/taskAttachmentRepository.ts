@@ -0,0 +1,197 @@
+import { query, transaction } from '../config/database';
+import { ApiError, isUniqueViolation } from '../utils/error.utils';
+import { ITaskAttachment, ITaskAttachmentCreate } from '../interfaces/taskAttachment.interface';
+import { ITaskAttachmentRepository } from '../interfaces/taskAttachmentRepository.interface';
+import { TaskEventType } from '../interfaces/taskEvent.interface';
+import { TaskAttachment } from '../models/taskAttachment.model';
+import { TaskEventRepository } from './taskEventRepository';
+
+/**
+ * PostgreSQL implementation of the Task Attachment Repository
+ *
+ * Contents are deduplicated by checksum: attachment_blobs has one row per stored content
+ * and task_attachments refers to it. Uploads and purges lock the attachment_blobs row,
+ * so contents are never removed while they are being attached again.
+ */
+export class TaskAttachmentRepository implements ITaskAttachmentRepository {
+  private eventRepository: TaskEventRepository = new TaskEventRepository();
+
+  /**
+   * Find the attachments of a task
+   * @param taskId Task ID
+   * @returns Attachments with the username of their uploader, oldest first
+   */
+  async findByTask(taskId: number): Promise<ITaskAttachment[]> {
+    try {
+      const result = await query(
+        `SELECT a.*, b.size_bytes, u.username FROM task_attachments a
+         JOIN attachment_blobs b ON b.sha256 = a.sha256
+         LEFT JOIN users u ON u.user_id = a.user_id
+         WHERE a.task_id = $1
+         ORDER BY a.created_at ASC, a.attachment_id ASC`,
+        [taskId]
+      );
+
+      return result.rows.map(TaskAttachment.fromDatabaseRow);
+    } catch (error) {
+      console.error('Error in findByTask:', error);
+      throw new ApiError('Error finding attachments', 500);
+    }
+  }
+
+  /**
+   * Find an attachment of a task
+   * @param attachmentId Attachment ID
+   * @param taskId Task ID
+   * @returns Attachment or null if not found
+   */
+  async findById(attachmentId: number, taskId: number): Promise<ITaskAttachment | null> {
+    try {
+      const result = await query(
+        `SELECT a.*, b.size_bytes, u.username FROM task_attachments a
+         JOIN attachment_blobs b ON b.sha256 = a.sha256
+         LEFT JOIN users u ON u.user_id = a.user_id
+         WHERE a.attachment_id = $1 AND a.task_id = $2`,
+        [attachmentId, taskId]
+      );
+
+      return result.rows.length > 0 ? TaskAttachment.fromDatabaseRow(result.rows[0]) : null;
+    } catch (error) {
+      console.error('Error in findById:', error);
+      throw new ApiError('Error finding attachment', 500);
+    }
+  }
+
+  /**
+   * Attach a file to a task and record it in the task's history
+   * @param data Attachment data
+   * @param storeContent Called to store the contents when no attachment has them yet
+   * @returns Created attachment
+   * @throws ApiError 409 if the task already has a file with the same contents
+   */
+  async create(data: ITaskAttachmentCreate, storeContent: (sha256: string) => Promise<void>): Promise<ITaskAttachment> {
+    try {
+      return await transaction(async (client) => {
+        const duplicate = await client.query(
+          `SELECT 1 FROM task_attachments WHERE task_id = $1 AND sha256 = $2`,
+          [data.task_id, data.sha256]
+        );
+        if (duplicate.rows.length > 0) {
+          throw ApiError.conflict('This file is already attached to the task', 'ATTACHMENT_EXISTS');
+        }
+
+        // Locking the stored contents keeps a concurrent purge from removing them
+        const stored = await client.query(
+          `SELECT sha256 FROM attachment_blobs WHERE sha256 = $1 FOR UPDATE`,
+          [data.sha256]
+        );
+        if (stored.rows.length === 0) {
+          await storeContent(data.sha256);
+          await client.query(
+            `INSERT INTO attachment_blobs (sha256, size_bytes) VALUES ($1, $2)
+             ON CONFLICT (sha256) DO NOTHING`,
+            [data.sha256, data.size_bytes]
+          );
+        }
+
+        const result = await client.query(
+          `WITH inserted AS (
+             INSERT INTO task_attachments (task_id, user_id, sha256, file_name, mime_type)
+             VALUES ($1, $2, $3, $4, $5)
+             RETURNING *
+           )
+           SELECT inserted.*, b.size_bytes, u.username FROM inserted
+           JOIN attachment_blobs b ON b.sha256 = inserted.sha256
+           LEFT JOIN users u ON u.user_id = inserted.user_id`,
+          [data.task_id, data.user_id, data.sha256, data.file_name, data.mime_type]
+        );
+
+        const attachment = TaskAttachment.fromDatabaseRow(result.rows[0]);
+        await this.eventRepository.record(client, {
+          task_id: data.task_id,
+          user_id: data.user_id,
+          event_type: TaskEventType.ATTACHMENT_ADDED,
+          changes: { file_name: { from: null, to: attachment.file_name } }
+        });
+
+        return attachment;
+      });
+    } catch (error) {
+      if (error instanceof ApiError) {
+        throw error;
+      }
+      if (isUniqueViolation(error)) {
+        throw ApiError.conflict('This file is already attached to the task', 'ATTACHMENT_EXISTS');
+      }
+      console.error('Error in create:', error);
+      throw new ApiError('Error creating attachment', 500);
+    }
+  }
+
+  /**
+   * Remove an attachment from a task and record it in the task's history
+   * The contents stay stored until purgeUnreferenced finds them unused
+   * @param attachmentId Attachment ID
+   * @param taskId Task ID
+   * @param actorId ID of the user removing the attachment
+   * @returns Boolean indicating if an attachment was removed
+   */
+  async delete(attachmentId: number, taskId: number, actorId: number): Promise<boolean> {
+    try {
+      return await transaction(async (client) => {
+        const result = await client.query(
+          `DELETE FROM task_attachments WHERE attachment_id = $1 AND task_id = $2 RETURNING file_name`,
+          [attachmentId, taskId]
+        );
+        if (result.rows.length === 0) {
+          return false;
+        }
+
+        await this.eventRepository.record(client, {
+          task_id: taskId,
+          user_id: actorId,
+          event_type: TaskEventType.ATTACHMENT_REMOVED,
+          changes: { file_name: { from: result.rows[0].file_name, to: null } }
+        });
+
+        return true;
+      });
+    } catch (error) {
+      console.error('Error in delete:', error);
+      throw new ApiError('Error deleting attachment', 500);
+    }
+  }
+
+  /**
+   * Remove stored contents that no attachment refers to any more, e.g. after their
+   * last attachment or its task was deleted; contents being attached are skipped
+   * @param removeContent Called to remove the contents of each checksum
+   * @returns Number of contents removed
+   */
+  async purgeUnreferenced(removeContent: (sha256: string) => Promise<void>): Promise<number> {
+    try {
+      return await transaction(async (client) => {
+        const result = await client.query(
+          `SELECT b.sha256 FROM attachment_blobs b
+           WHERE NOT EXISTS (SELECT 1 FROM task_attachments a WHERE a.sha256 = b.sha256)
+           LIMIT $1
+           FOR UPDATE SKIP LOCKED`,
+          [TaskAttachment.PURGE_BATCH_SIZE]
+        );
+
+        const checksums: string[] = result.rows.map(row => row.sha256);
+        for (const sha256 of checksums) {
+          await removeContent(sha256);
+        }
+        if (checksums.length > 0) {
+          await client.query(`DELETE FROM attachment_blobs WHERE sha256 = ANY($1::text[])`, [checksums]);
+        }
+
+        return checksums.length;
+      });
+    } catch (error) {
+      console.error('Error in purgeUnreferenced:', error);
+      throw new ApiError('Error purging attachment contents', 500);
+    }
+  }
+}
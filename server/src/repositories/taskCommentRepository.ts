@@ -0,0 +1,195 @@
+import { query, transaction } from '../config/database';
+import { ApiError } from '../utils/error.utils';
+import { ITaskComment, ITaskCommentCreate } from '../interfaces/taskComment.interface';
+import { ITaskCommentRepository } from '../interfaces/taskCommentRepository.interface';
+import { TaskEventType } from '../interfaces/taskEvent.interface';
+import { TaskComment } from '../models/taskComment.model';
+import { TaskEventRepository } from './taskEventRepository';
+
+/**
+ * PostgreSQL implementation of the Task Comment Repository
+ */
+export class TaskCommentRepository implements ITaskCommentRepository {
+  private eventRepository: TaskEventRepository = new TaskEventRepository();
+
+  /**
+   * Find the comments on a task, deleted ones included so their replies keep their thread
+   * @param taskId Task ID
+   * @returns Comments with the username of their author, oldest first
+   */
+  async findByTask(taskId: number): Promise<ITaskComment[]> {
+    try {
+      const result = await query(
+        `SELECT c.*, u.username FROM task_comments c
+         LEFT JOIN users u ON u.user_id = c.user_id
+         WHERE c.task_id = $1
+         ORDER BY c.created_at ASC, c.comment_id ASC`,
+        [taskId]
+      );
+
+      return result.rows.map(TaskComment.fromDatabaseRow);
+    } catch (error) {
+      console.error('Error in findByTask:', error);
+      throw new ApiError('Error finding comments', 500);
+    }
+  }
+
+  /**
+   * Find a comment on a task
+   * @param commentId Comment ID
+   * @param taskId Task ID
+   * @returns Comment or null if not found
+   */
+  async findById(commentId: number, taskId: number): Promise<ITaskComment | null> {
+    try {
+      const result = await query(
+        `SELECT c.*, u.username FROM task_comments c
+         LEFT JOIN users u ON u.user_id = c.user_id
+         WHERE c.comment_id = $1 AND c.task_id = $2`,
+        [commentId, taskId]
+      );
+
+      return result.rows.length > 0 ? TaskComment.fromDatabaseRow(result.rows[0]) : null;
+    } catch (error) {
+      console.error('Error in findById:', error);
+      throw new ApiError('Error finding comment', 500);
+    }
+  }
+
+  /**
+   * Add a comment to a task and record it in the task's history
+   * Threads are one level deep: replies to a reply join the thread of the comment it replies to
+   * @param data Comment data
+   * @returns Created comment
+   * @throws ApiError 400 if the comment replied to is not a comment on the task
+   */
+  async create(data: ITaskCommentCreate): Promise<ITaskComment> {
+    try {
+      TaskComment.validateContent(data.content);
+
+      return await transaction(async (client) => {
+        let parentId: number | null = null;
+        if (data.parent_comment_id !== undefined) {
+          const parent = await client.query(
+            `SELECT comment_id, parent_comment_id FROM task_comments
+             WHERE comment_id = $1 AND task_id = $2 AND deleted_at IS NULL`,
+            [data.parent_comment_id, data.task_id]
+          );
+          if (parent.rows.length === 0) {
+            throw ApiError.badRequest('Comment to reply to not found', 'INVALID_PARENT_COMMENT');
+          }
+          parentId = parent.rows[0].parent_comment_id ?? parent.rows[0].comment_id;
+        }
+
+        const result = await client.query(
+          `WITH inserted AS (
+             INSERT INTO task_comments (task_id, user_id, parent_comment_id, content)
+             VALUES ($1, $2, $3, $4)
+             RETURNING *
+           )
+           SELECT inserted.*, u.username FROM inserted
+           LEFT JOIN users u ON u.user_id = inserted.user_id`,
+          [data.task_id, data.user_id, parentId, data.content.trim()]
+        );
+
+        const comment = TaskComment.fromDatabaseRow(result.rows[0]);
+        await this.eventRepository.record(client, {
+          task_id: data.task_id,
+          user_id: data.user_id,
+          event_type: TaskEventType.COMMENTED,
+          changes: { comment_id: { from: null, to: comment.comment_id } }
+        });
+
+        return comment;
+      });
+    } catch (error) {
+      if (error instanceof ApiError) {
+        throw error;
+      }
+      console.error('Error in create:', error);
+      throw new ApiError('Error creating comment', 500);
+    }
+  }
+
+  /**
+   * Change the text of a comment and record the edit in the task's history
+   * @param commentId Comment ID
+   * @param taskId Task ID
+   * @param content New text
+   * @param actorId ID of the user editing the comment
+   * @returns Updated comment or null if not found or deleted
+   */
+  async update(commentId: number, taskId: number, content: string, actorId: number): Promise<ITaskComment | null> {
+    try {
+      TaskComment.validateContent(content);
+
+      return await transaction(async (client) => {
+        const result = await client.query(
+          `WITH updated AS (
+             UPDATE task_comments
+             SET content = $1, edited_at = NOW(), updated_at = NOW()
+             WHERE comment_id = $2 AND task_id = $3 AND deleted_at IS NULL
+             RETURNING *
+           )
+           SELECT updated.*, u.username FROM updated
+           LEFT JOIN users u ON u.user_id = updated.user_id`,
+          [content.trim(), commentId, taskId]
+        );
+        if (result.rows.length === 0) {
+          return null;
+        }
+
+        await this.eventRepository.record(client, {
+          task_id: taskId,
+          user_id: actorId,
+          event_type: TaskEventType.COMMENT_EDITED,
+          changes: { comment_id: { from: commentId, to: commentId } }
+        });
+
+        return TaskComment.fromDatabaseRow(result.rows[0]);
+      });
+    } catch (error) {
+      if (error instanceof ApiError) {
+        throw error;
+      }
+      console.error('Error in update:', error);
+      throw new ApiError('Error updating comment', 500);
+    }
+  }
+
+  /**
+   * Soft-delete a comment and record the deletion in the task's history
+   * The row stays so replies keep their thread; its text is no longer returned
+   * @param commentId Comment ID
+   * @param taskId Task ID
+   * @param actorId ID of the user deleting the comment
+   * @returns Boolean indicating if a comment was deleted
+   */
+  async softDelete(commentId: number, taskId: number, actorId: number): Promise<boolean> {
+    try {
+      return await transaction(async (client) => {
+        const result = await client.query(
+          `UPDATE task_comments
+           SET deleted_at = NOW(), updated_at = NOW()
+           WHERE comment_id = $1 AND task_id = $2 AND deleted_at IS NULL`,
+          [commentId, taskId]
+        );
+        if ((result.rowCount ?? 0) === 0) {
+          return false;
+        }
+
+        await this.eventRepository.record(client, {
+          task_id: taskId,
+          user_id: actorId,
+          event_type: TaskEventType.COMMENT_DELETED,
+          changes: { comment_id: { from: commentId, to: null } }
+        });
+
+        return true;
+      });
+    } catch (error) {
+      console.error('Error in softDelete:', error);
+      throw new ApiError('Error deleting comment', 500);
+    }
+  }
+}
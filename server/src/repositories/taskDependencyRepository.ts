@@ -0,0 +1,176 @@
+import { query, transaction } from '../config/database';
+import { ApiError, isUniqueViolation } from '../utils/error.utils';
+import { StatusCategory } from '../interfaces/status.interface';
+import { ITaskDependency, ITaskGraph, ITaskGraphNode } from '../interfaces/taskDependency.interface';
+import { ITaskDependencyRepository } from '../interfaces/taskDependencyRepository.interface';
+import { TaskDependency } from '../models/taskDependency.model';
+import { statusCategoryColumn } from './taskRepository';
+
+/**
+ * PostgreSQL implementation of the Task Dependency Repository
+ */
+export class TaskDependencyRepository implements ITaskDependencyRepository {
+  /**
+   * Find the open tasks that directly block a task
+   * @param taskId Task ID
+   * @returns Blockers that are neither done nor cancelled
+   */
+  async findOpenBlockers(taskId: number): Promise<ITaskGraphNode[]> {
+    try {
+      const result = await query(
+        `SELECT * FROM (
+           SELECT t.task_id, t.title, t.status, ${statusCategoryColumn('t')} AS status_category, 1 AS depth
+           FROM task_dependencies d
+           JOIN tasks t ON t.task_id = d.blocker_task_id
+           WHERE d.blocked_task_id = $1
+         ) blockers
+         WHERE status_category IS NULL OR status_category NOT IN ($2, $3)
+         ORDER BY task_id`,
+        [taskId, StatusCategory.DONE, StatusCategory.CANCELLED]
+      );
+
+      return result.rows.map(TaskDependency.nodeFromDatabaseRow);
+    } catch (error) {
+      console.error('Error in findOpenBlockers:', error);
+      throw new ApiError('Error finding blocking tasks', 500);
+    }
+  }
+
+  /**
+   * Find the tasks upstream and downstream of a task
+   * Personal tasks of other users are left out unless the viewer is assigned to them
+   * @param taskId Task ID
+   * @param depth Maximum number of links followed in each direction
+   * @param viewerId User the graph is shown to, or null to show every task
+   * @returns Dependency graph
+   */
+  async findGraph(taskId: number, depth: number, viewerId: number | null): Promise<ITaskGraph> {
+    try {
+      // UNION drops repeated rows, so each walk ends even if the links ever formed a cycle
+      const nodes = await query(
+        `WITH RECURSIVE upstream AS (
+           SELECT blocker_task_id AS task_id, 1 AS depth FROM task_dependencies WHERE blocked_task_id = $1
+           UNION
+           SELECT d.blocker_task_id, u.depth + 1 FROM task_dependencies d
+           JOIN upstream u ON d.blocked_task_id = u.task_id
+           WHERE u.depth < $2
+         ), downstream AS (
+           SELECT blocked_task_id AS task_id, 1 AS depth FROM task_dependencies WHERE blocker_task_id = $1
+           UNION
+           SELECT d.blocked_task_id, w.depth + 1 FROM task_dependencies d
+           JOIN downstream w ON d.blocker_task_id = w.task_id
+           WHERE w.depth < $2
+         ), nodes AS (
+           SELECT 'upstream' AS direction, task_id, MIN(depth) AS depth FROM upstream GROUP BY task_id
+           UNION ALL
+           SELECT 'downstream' AS direction, task_id, MIN(depth) AS depth FROM downstream GROUP BY task_id
+         )
+         SELECT n.direction, n.depth, t.task_id, t.title, t.status, ${statusCategoryColumn('t')} AS status_category
+         FROM nodes n
+         JOIN tasks t ON t.task_id = n.task_id
+         WHERE $3::integer IS NULL OR t.workspace_id IS NOT NULL OR t.user_id = $3
+           OR EXISTS (SELECT 1 FROM task_assignments ta WHERE ta.task_id = t.task_id AND ta.user_id = $3)
+         ORDER BY n.depth, t.task_id`,
+        [taskId, depth, viewerId]
+      );
+
+      const taskIds = [taskId, ...nodes.rows.map(row => row.task_id)];
+      const edges = await query(
+        `SELECT blocker_task_id, blocked_task_id FROM task_dependencies
+         WHERE blocker_task_id = ANY($1::integer[]) AND blocked_task_id = ANY($1::integer[])
+         ORDER BY blocker_task_id, blocked_task_id`,
+        [taskIds]
+      );
+
+      return {
+        task_id: taskId,
+        upstream: nodes.rows.filter(row => row.direction === 'upstream').map(TaskDependency.nodeFromDatabaseRow),
+        downstream: nodes.rows.filter(row => row.direction === 'downstream').map(TaskDependency.nodeFromDatabaseRow),
+        edges: edges.rows.map(row => ({
+          blocker_task_id: row.blocker_task_id,
+          blocked_task_id: row.blocked_task_id
+        }))
+      };
+    } catch (error) {
+      console.error('Error in findGraph:', error);
+      throw new ApiError('Error finding task dependencies', 500);
+    }
+  }
+
+  /**
+   * Make a task block another task
+   * Dependencies are added one at a time, so two concurrent additions cannot
+   * close a cycle that neither of them sees on its own
+   * @param blockerId ID of the blocker task
+   * @param blockedId ID of the blocked task
+   * @param actorId ID of the user adding the dependency
+   * @returns Created dependency
+   * @throws ApiError 400 if a task would block itself
+   * @throws ApiError 409 if the dependency exists or would create a cycle
+   */
+  async create(blockerId: number, blockedId: number, actorId: number | null): Promise<ITaskDependency> {
+    try {
+      TaskDependency.validate(blockerId, blockedId);
+
+      return await transaction(async (client) => {
+        await client.query(`SELECT pg_advisory_xact_lock(hashtext('task_dependencies'))`);
+
+        // The new link closes a cycle if the blocked task already blocks the blocker
+        const cycle = await client.query(
+          `WITH RECURSIVE downstream AS (
+             SELECT blocked_task_id AS task_id FROM task_dependencies WHERE blocker_task_id = $1
+             UNION
+             SELECT d.blocked_task_id FROM task_dependencies d
+             JOIN downstream w ON d.blocker_task_id = w.task_id
+           )
+           SELECT 1 FROM downstream WHERE task_id = $2 LIMIT 1`,
+          [blockedId, blockerId]
+        );
+        if (cycle.rows.length > 0) {
+          throw ApiError.conflict(
+            `Task ${blockedId} already blocks task ${blockerId}, directly or through other tasks`,
+            'DEPENDENCY_CYCLE'
+          );
+        }
+
+        const result = await client.query(
+          `INSERT INTO task_dependencies (blocker_task_id, blocked_task_id, created_by)
+           VALUES ($1, $2, $3)
+           RETURNING *`,
+          [blockerId, blockedId, actorId]
+        );
+
+        return TaskDependency.fromDatabaseRow(result.rows[0]);
+      });
+    } catch (error) {
+      if (error instanceof ApiError) {
+        throw error;
+      }
+      if (isUniqueViolation(error)) {
+        throw ApiError.conflict('Task is already blocked by this task', 'DEPENDENCY_EXISTS');
+      }
+      console.error('Error in create:', error);
+      throw new ApiError('Error creating task dependency', 500);
+    }
+  }
+
+  /**
+   * Remove a dependency
+   * @param blockerId ID of the blocker task
+   * @param blockedId ID of the blocked task
+   * @returns Boolean indicating if a dependency was removed
+   */
+  async delete(blockerId: number, blockedId: number): Promise<boolean> {
+    try {
+      const result = await query(
+        `DELETE FROM task_dependencies WHERE blocker_task_id = $1 AND blocked_task_id = $2`,
+        [blockerId, blockedId]
+      );
+
+      return (result.rowCount ?? 0) > 0;
+    } catch (error) {
+      console.error('Error in delete:', error);
+      throw new ApiError('Error deleting task dependency', 500);
+    }
+  }
+}
@@ -0,0 +1,47 @@
+import { PoolClient } from 'pg';
+import { query } from '../config/database';
+import { ApiError } from '../utils/error.utils';
+import { ITaskEvent, ITaskEventCreate } from '../interfaces/taskEvent.interface';
+import { ITaskEventRepository } from '../interfaces/taskEventRepository.interface';
+import { TaskEvent } from '../models/taskEvent.model';
+
+/**
+ * PostgreSQL implementation of the Task Event Repository
+ */
+export class TaskEventRepository implements ITaskEventRepository {
+  /**
+   * Record an event within the transaction making the change
+   * Errors propagate so the change is rolled back with its event
+   * @param client Client of the open transaction
+   * @param event Event to record
+   */
+  async record(client: PoolClient, event: ITaskEventCreate): Promise<void> {
+    await client.query(
+      `INSERT INTO task_events (task_id, user_id, event_type, changes)
+       VALUES ($1, $2, $3, $4)`,
+      [event.task_id, event.user_id, event.event_type, JSON.stringify(event.changes)]
+    );
+  }
+
+  /**
+   * Find the events of a task
+   * @param taskId Task ID
+   * @returns Events with the username of the actor, newest first
+   */
+  async findByTaskId(taskId: number): Promise<ITaskEvent[]> {
+    try {
+      const result = await query(
+        `SELECT e.*, u.username FROM task_events e
+         LEFT JOIN users u ON u.user_id = e.user_id
+         WHERE e.task_id = $1
+         ORDER BY e.created_at DESC, e.event_id DESC`,
+        [taskId]
+      );
+
+      return result.rows.map(TaskEvent.fromDatabaseRow);
+    } catch (error) {
+      console.error('Error in findByTaskId:', error);
+      throw new ApiError('Error finding task history', 500);
+    }
+  }
+}
@@ -1,13 +1,135 @@
-import { query } from '../config/database';
+import { PoolClient } from 'pg';
+import { query, runInTransaction, transaction } from '../config/database';
 import { ApiError } from '../utils/error.utils';
-import { ITask, ITaskCreate, ITaskQuery, ITaskUpdate, TaskStatus } from '../interfaces/task.interface';
+import { CursorValueType, decodeCursor, encodeCursor, isCursorValue } from '../utils/cursor.utils';
+import {
+  ITask,
+  ITaskCreate,
+  ITaskFilter,
+  ITaskPage,
+  ITaskQuery,
+  ITaskSearchResult,
+  ITaskSort,
+  ITaskUpdate,
+  SubtaskCompletion,
+  TaskFilterField,
+  TaskSortField,
+  TaskStatus,
+  TaskStatusTransitions
+} from '../interfaces/task.interface';
+import { StatusCategory } from '../interfaces/status.interface';
 import { ITaskRepository } from '../interfaces/taskRepository.interface';
+import { TaskEventType } from '../interfaces/taskEvent.interface';
+import { ITaskSeriesUpdate, RecurrenceScope } from '../interfaces/taskSeries.interface';
+import { Recurrence } from '../models/recurrence.model';
+import { Tag } from '../models/tag.model';
 import { Task } from '../models/task.model';
+import { TaskEvent } from '../models/taskEvent.model';
+import { TaskWorkflow } from '../models/taskWorkflow.model';
+import { ReminderRepository } from './reminderRepository';
+import { TagRepository } from './tagRepository';
+import { TaskEventRepository } from './taskEventRepository';
+import { TaskSeriesRepository } from './taskSeriesRepository';
+
+/**
+ * Build the expression of the category of a task's status
+ * Tasks can be in a built-in status or in a status of their workspace
+ * @param alias Alias of the tasks relation in the surrounding query
+ * @returns Scalar subquery selecting the status category
+ */
+export const statusCategoryColumn = (alias: string): string =>
+  `(SELECT s.category FROM statuses s
+    WHERE s.key = ${alias}.status AND (s.workspace_id IS NULL OR s.workspace_id = ${alias}.workspace_id)
+    LIMIT 1)`;
+
+/**
+ * Build a recursive query of the subtasks of a task at any depth
+ * @param taskParam Placeholder of the task ID parameter (e.g. $1)
+ * @returns WITH RECURSIVE clause defining the relation subtree(task_id, level);
+ * direct subtasks are on level 1
+ */
+const subtreeOf = (taskParam: string): string =>
+  `WITH RECURSIVE subtree AS (
+     SELECT task_id, 1 AS level FROM tasks WHERE parent_task_id = ${taskParam}
+     UNION ALL
+     SELECT t.task_id, s.level + 1 FROM tasks t JOIN subtree s ON t.parent_task_id = s.task_id
+   )`;
+
+/**
+ * Column expression of each sort field; priorities are joined as p
+ */
+const SORT_COLUMNS: Record<TaskSortField, string> = {
+  due_date: 't.due_date',
+  priority: 'p.rank',
+  created_at: 't.created_at',
+  updated_at: 't.updated_at',
+  title: 't.title',
+  status: 't.status'
+};
+
+/**
+ * Type of the cursor value of each sort field, as json_build_array encodes its column
+ */
+const SORT_KEY_TYPES: Record<TaskSortField, CursorValueType> = {
+  due_date: 'date',
+  priority: 'integer',
+  created_at: 'timestamp',
+  updated_at: 'timestamp',
+  title: 'string',
+  status: 'string'
+};
+
+/**
+ * Column expression of each filter field; priorities are joined as p
+ */
+const FILTER_COLUMNS: Record<Exclude<TaskFilterField, 'text'>, string> = {
+  status: 't.status',
+  status_category: statusCategoryColumn('t'),
+  priority: 'p.name',
+  priority_id: 't.priority_id',
+  category_id: 't.category_id',
+  due_date: 't.due_date',
+  created_at: 't.created_at',
+  updated_at: 't.updated_at'
+};
+
+/**
+ * SQL operator of each comparison filter operator
+ */
+const COMPARISON_OPERATORS: Record<string, string> = {
+  lt: '<',
+  lte: '<=',
+  gt: '>',
+  gte: '>='
+};
+
+/**
+ * ts_headline options; matches are wrapped in <mark> tags
+ */
+const HEADLINE_OPTIONS = 'StartSel=<mark>, StopSel=</mark>';
+
+/**
+ * Task fields copied to new occurrences of a recurring task
+ */
+const SERIES_TEMPLATE_FIELDS = ['title', 'description', 'category_id', 'priority_id'] as const;
+
+/**
+ * Position encoded in a task page cursor
+ */
+interface ITaskCursor {
+  sort: string;
+  key: any[];
+}
 
 /**
  * PostgreSQL implementation of the Task Repository
  */
 export class TaskRepository implements ITaskRepository {
+  private eventRepository: TaskEventRepository = new TaskEventRepository();
+  private seriesRepository: TaskSeriesRepository = new TaskSeriesRepository();
+  private reminderRepository: ReminderRepository = new ReminderRepository();
+  private tagRepository: TagRepository = new TagRepository();
+
   /**
    * Find a task by ID
    * @param id Task ID
@@ -16,7 +138,7 @@ export class TaskRepository implements ITaskRepository {
   async findById(id: number): Promise<ITask | null> {
     try {
       const result = await query(
-        `SELECT * FROM tasks WHERE task_id = $1`,
+        `SELECT ${this.taskColumns('t')} FROM tasks t WHERE t.task_id = $1`,
         [id]
       );
       
@@ -28,7 +150,8 @@ export class TaskRepository implements ITaskRepository {
   }
 
   /**
-   * Create a new task
+   * Create a new task and record its creation
+   * A task with a recurrence is created as the first occurrence of a new series
    * @param data Task data to create
    * @returns Created task object
    */
@@ -37,19 +160,27 @@ export class TaskRepository implements ITaskRepository {
       // Validate task data
       Task.validateCreate(data);
       
-      const { user_id, title, description, category_id, priority_id, due_date } = data;
-      
-      // Create task
-      const result = await query(
-        `INSERT INTO tasks 
-         (user_id, title, description, category_id, priority_id, due_date, status)
-         VALUES 
-         ($1, $2, $3, $4, $5, $6, $7)
-         RETURNING *`,
-        [user_id, title, description, category_id, priority_id, due_date, TaskStatus.PENDING]
-      );
-      
-      return Task.fromDatabaseRow(result.rows[0]);
+      return await transaction(async (client) => {
+        let seriesId: number | null = null;
+        if (data.recurrence) {
+          const series = await this.seriesRepository.create(client, {
+            recurrence: Recurrence.validate(data.recurrence),
+            title: data.title,
+            description: data.description,
+            category_id: data.category_id,
+            priority_id: data.priority_id
+          });
+          seriesId = series.series_id;
+        }
+
+        const row = await this.insertTask(client, data, seriesId, data.user_id);
+        const result = await client.query(
+          `SELECT ${this.taskColumns('t')} FROM tasks t WHERE t.task_id = $1`,
+          [row.task_id]
+        );
+        
+        return Task.fromDatabaseRow(result.rows[0]);
+      });
     } catch (error) {
       if (error instanceof ApiError) {
         throw error;
@@ -60,19 +191,27 @@ export class TaskRepository implements ITaskRepository {
   }
 
   /**
-   * Update an existing task
+   * Update an existing task and record the changed fields
    * @param id Task ID
    * @param data Task data to update
+   * @param actorId ID of the user making the change
+   * @param transitions Status transition graph (default: the default workflow)
+   * @param scope Occurrences of a recurring task the changes apply to: with 'future', the
+   * title, description, category and priority changes also apply to the later open
+   * occurrences and to the ones not generated yet. Recurrence changes always apply to the series.
    * @returns Updated task object or null if not found
+   * @throws ApiError 400 if the status does not exist for the task, or a recurrence is set without a due date
+   * @throws ApiError 409 if the status change is not allowed, the task is cancelled or
+   * would be completed with open subtasks
    */
-  async update(id: number, data: ITaskUpdate): Promise<ITask | null> {
+  async update(
+    id: number,
+    data: ITaskUpdate,
+    actorId: number | null = null,
+    transitions: TaskStatusTransitions = TaskWorkflow.DEFAULT_TRANSITIONS,
+    scope: RecurrenceScope = RecurrenceScope.THIS
+  ): Promise<ITask | null> {
     try {
-      // Check if task exists
-      const existingTask = await this.findById(id);
-      if (!existingTask) {
-        return null;
-      }
-      
       // Validate update data
       Task.validateUpdate(data);
       
@@ -105,29 +244,116 @@ export class TaskRepository implements ITaskRepository {
         updates.push(`due_date = $${paramCount++}`);
         values.push(data.due_date);
       }
-      
-      if (data.status !== undefined) {
-        updates.push(`status = $${paramCount++}`);
-        values.push(data.status);
+
+      if (data.parent_task_id !== undefined) {
+        updates.push(`parent_task_id = $${paramCount++}`);
+        values.push(data.parent_task_id);
       }
       
       // If nothing to update
-      if (updates.length === 0) {
-        return existingTask;
+      if (updates.length === 0 && data.status === undefined && data.recurrence === undefined && data.tags === undefined) {
+        return this.findById(id);
       }
       
-      // Add task_id to values
-      values.push(id);
-      
-      const result = await query(
-        `UPDATE tasks
-         SET ${updates.join(', ')}, updated_at = NOW()
-         WHERE task_id = $${paramCount}
-         RETURNING *`,
-        values
-      );
-      
-      return Task.fromDatabaseRow(result.rows[0]);
+      return await transaction(async (client) => {
+        // Lock the row so the recorded old values are the ones overwritten
+        const existing = await client.query(
+          `SELECT to_jsonb(t.*) AS snapshot, ${statusCategoryColumn('t')} AS status_category
+           FROM tasks t WHERE t.task_id = $1 FOR UPDATE`,
+          [id]
+        );
+        if (existing.rows.length === 0) {
+          return null;
+        }
+
+        const { snapshot } = existing.rows[0];
+        const currentCategory: StatusCategory = existing.rows[0].status_category || StatusCategory.TODO;
+        if (data.status === undefined) {
+          TaskWorkflow.assertEditable(currentCategory);
+        } else {
+          const nextCategory = await this.resolveStatusCategory(client, data.status, snapshot.workspace_id);
+          TaskWorkflow.assertEditable(currentCategory, nextCategory);
+          TaskWorkflow.assertTransition(currentCategory, nextCategory, transitions);
+          if (nextCategory === StatusCategory.DONE) {
+            TaskWorkflow.assertSubtasksClosed(currentCategory, nextCategory, await this.countOpenSubtasks(client, id));
+          }
+
+          updates.push(this.statusAssignments(`$${paramCount++}`, currentCategory, nextCategory));
+          values.push(data.status);
+        }
+
+        if (data.recurrence === null && snapshot.series_id) {
+          // Occurrences of a deleted series become standalone tasks
+          await this.seriesRepository.delete(client, snapshot.series_id);
+        } else if (data.recurrence && snapshot.series_id) {
+          await this.seriesRepository.update(client, snapshot.series_id, {
+            recurrence: Recurrence.validate(data.recurrence)
+          });
+        } else if (data.recurrence) {
+          if (!(data.due_date !== undefined ? data.due_date : snapshot.due_date)) {
+            throw ApiError.badRequest('A recurring task needs a due date', 'RECURRENCE_REQUIRES_DUE_DATE');
+          }
+          const series = await this.seriesRepository.create(client, {
+            title: snapshot.title,
+            ...this.seriesTemplate({ ...snapshot, ...data }),
+            recurrence: Recurrence.validate(data.recurrence)
+          });
+          updates.push(`series_id = $${paramCount++}`);
+          values.push(series.series_id);
+        }
+
+        if (scope === RecurrenceScope.FUTURE && snapshot.series_id && data.recurrence !== null) {
+          const template = this.seriesTemplate(data);
+          await this.seriesRepository.update(client, snapshot.series_id, template);
+          await this.updateLaterOccurrences(client, snapshot, template, actorId);
+        }
+
+        const tagChange = data.tags !== undefined
+          ? await this.tagRepository.setTaskTags(client, snapshot, Tag.normalizeNames(data.tags), actorId)
+          : null;
+
+        // Add task_id to values
+        values.push(id);
+
+        const result = await client.query(
+          `WITH updated AS (
+             UPDATE tasks
+             SET ${[...updates, 'updated_at = NOW()'].join(', ')}
+             WHERE task_id = $${paramCount}
+             RETURNING *
+           )
+           SELECT ${this.taskColumns('updated')}, to_jsonb(updated.*) AS snapshot FROM updated`,
+          values
+        );
+
+        const row = result.rows[0];
+        const changes = TaskEvent.diff(snapshot, row.snapshot);
+        if (tagChange && tagChange.from.join(',') !== tagChange.to.join(',')) {
+          changes.tags = tagChange;
+        }
+        if (Object.keys(changes).length > 0) {
+          await this.eventRepository.record(client, {
+            task_id: id,
+            user_id: actorId,
+            event_type: TaskEventType.UPDATED,
+            changes
+          });
+        }
+
+        // Reminders relative to the due date follow it; the owner's defaults apply once one is set
+        if (row.snapshot.due_date !== snapshot.due_date) {
+          await this.reminderRepository.reschedule(client, id);
+          if (!snapshot.due_date) {
+            await this.reminderRepository.createDefaults(client, id);
+          }
+        }
+
+        if (row.series_id && currentCategory !== StatusCategory.DONE && row.status_category === StatusCategory.DONE) {
+          await this.createNextOccurrence(client, row.snapshot, actorId);
+        }
+        
+        return Task.fromDatabaseRow(row);
+      });
     } catch (error) {
       if (error instanceof ApiError) {
         throw error;
@@ -138,18 +364,45 @@ export class TaskRepository implements ITaskRepository {
   }
 
   /**
-   * Delete a task
+   * Delete a task and record its last values
+   * Subtasks at any depth are deleted with it and get their own deleted event.
    * @param id Task ID
+   * @param actorId ID of the user deleting the task
    * @returns Boolean indicating if deletion was successful
    */
-  async delete(id: number): Promise<boolean> {
+  async delete(id: number, actorId: number | null = null): Promise<boolean> {
     try {
-      const result = await query(
-        `DELETE FROM tasks WHERE task_id = $1 RETURNING task_id`,
-        [id]
-      );
-      
-      return result.rowCount !== null && result.rowCount > 0;
+      return await transaction(async (client) => {
+        // Subtasks go with the task, so their last values are read before the delete
+        const subtasks = await client.query(
+          `${subtreeOf('$1')}
+           SELECT t.task_id, to_jsonb(t.*) AS snapshot FROM tasks t
+           JOIN subtree s ON s.task_id = t.task_id
+           ORDER BY t.task_id
+           FOR UPDATE OF t`,
+          [id]
+        );
+
+        const result = await client.query(
+          `DELETE FROM tasks WHERE task_id = $1 RETURNING to_jsonb(tasks.*) AS snapshot`,
+          [id]
+        );
+        if (result.rows.length === 0) {
+          return false;
+        }
+
+        const deleted = [{ task_id: id, snapshot: result.rows[0].snapshot }, ...subtasks.rows];
+        for (const row of deleted) {
+          await this.eventRepository.record(client, {
+            task_id: row.task_id,
+            user_id: actorId,
+            event_type: TaskEventType.DELETED,
+            changes: TaskEvent.diff(row.snapshot, {})
+          });
+        }
+
+        return true;
+      });
     } catch (error) {
       console.error('Error in delete:', error);
       throw new ApiError('Error deleting task', 500);
@@ -163,7 +416,7 @@ export class TaskRepository implements ITaskRepository {
    */
   async findAll(filter?: Partial<ITask>): Promise<ITask[]> {
     try {
-      let queryText = `SELECT * FROM tasks`;
+      let queryText = `SELECT ${this.taskColumns('t')} FROM tasks t`;
       const values: any[] = [];
       let paramCount = 1;
       
@@ -172,22 +425,22 @@ export class TaskRepository implements ITaskRepository {
         const conditions: string[] = [];
         
         if (filter.user_id !== undefined) {
-          conditions.push(`user_id = $${paramCount++}`);
+          conditions.push(`t.user_id = $${paramCount++}`);
           values.push(filter.user_id);
         }
         
         if (filter.category_id !== undefined) {
-          conditions.push(`category_id = $${paramCount++}`);
+          conditions.push(`t.category_id = $${paramCount++}`);
           values.push(filter.category_id);
         }
         
         if (filter.priority_id !== undefined) {
-          conditions.push(`priority_id = $${paramCount++}`);
+          conditions.push(`t.priority_id = $${paramCount++}`);
           values.push(filter.priority_id);
         }
         
         if (filter.status !== undefined) {
-          conditions.push(`status = $${paramCount++}`);
+          conditions.push(`t.status = $${paramCount++}`);
           values.push(filter.status);
         }
         
@@ -196,7 +449,7 @@ export class TaskRepository implements ITaskRepository {
         }
       }
       
-      queryText += ` ORDER BY due_date ASC NULLS LAST, created_at DESC`;
+      queryText += ` ORDER BY t.due_date ASC NULLS LAST, t.created_at DESC`;
       
       const result = await query(queryText, values);
       
@@ -208,48 +461,22 @@ export class TaskRepository implements ITaskRepository {
   }
 
   /**
-   * Find tasks by user ID with optional filtering and searching
+   * Find the tasks a user can access with optional filtering and searching:
+   * their personal tasks and the tasks of every workspace they are a member of
    * @param userId User ID
    * @param queryParams Optional query parameters
    * @returns Array of tasks
    */
   async findByUserId(userId: number, queryParams?: ITaskQuery): Promise<ITask[]> {
     try {
-      let queryText = `SELECT * FROM tasks WHERE user_id = $1`;
+      // Priorities are joined so tasks can be ordered by priority rank
       const values: any[] = [userId];
-      let paramCount = 2;
-      
-      // Apply filters if provided
-      if (queryParams) {
-        if (queryParams.category_id !== undefined) {
-          queryText += ` AND category_id = $${paramCount++}`;
-          values.push(queryParams.category_id);
-        }
-        
-        if (queryParams.priority_id !== undefined) {
-          queryText += ` AND priority_id = $${paramCount++}`;
-          values.push(queryParams.priority_id);
-        }
-        
-        if (queryParams.status !== undefined) {
-          queryText += ` AND status = $${paramCount++}`;
-          values.push(queryParams.status);
-        }
-        
-        if (queryParams.due_date !== undefined) {
-          queryText += ` AND DATE(due_date) = DATE($${paramCount++})`;
-          values.push(queryParams.due_date);
-        }
-        
-        if (queryParams.search) {
-          queryText += ` AND (title ILIKE $${paramCount} OR description ILIKE $${paramCount})`;
-          values.push(`%${queryParams.search}%`);
-          paramCount++;
-        }
-      }
+      let queryText = `SELECT ${this.taskColumns('t')} FROM tasks t
+         LEFT JOIN priorities p ON p.priority_id = t.priority_id
+         WHERE ${this.accessibleBy('$1')}`;
       
-      // Order tasks: first by due date (nulls last), then by creation date (newest first)
-      queryText += ` ORDER BY due_date ASC NULLS LAST, created_at DESC`;
+      queryText += this.buildFilters(values, queryParams);
+      queryText += ` ORDER BY ${this.buildOrderBy(Task.resolveSort(queryParams))}`;
       
       const result = await query(queryText, values);
       
@@ -260,6 +487,123 @@ export class TaskRepository implements ITaskRepository {
     }
   }
 
+  /**
+   * Find the IDs of the tasks a user can access, in listing order
+   * @param userId User ID
+   * @param queryParams Optional query parameters
+   * @param limit Maximum number of IDs
+   * @returns Task IDs
+   */
+  async findIdsByUserId(userId: number, queryParams: ITaskQuery | undefined, limit: number): Promise<number[]> {
+    try {
+      const values: any[] = [userId];
+      let queryText = `SELECT t.task_id FROM tasks t
+         LEFT JOIN priorities p ON p.priority_id = t.priority_id
+         WHERE ${this.accessibleBy('$1')}`;
+
+      queryText += this.buildFilters(values, queryParams);
+      values.push(limit);
+      queryText += ` ORDER BY ${this.buildOrderBy(Task.resolveSort(queryParams))} LIMIT $${values.length}`;
+
+      const result = await query(queryText, values);
+
+      return result.rows.map(row => row.task_id);
+    } catch (error) {
+      console.error('Error in findIdsByUserId:', error);
+      throw new ApiError('Error finding user tasks', 500);
+    }
+  }
+
+  /**
+   * Find one page of the tasks a user can access
+   * Pages are keyed on the sort values of the last returned task, so tasks
+   * created or deleted between requests do not shift later pages
+   * @param userId User ID
+   * @param queryParams Optional query parameters
+   * @returns Page of tasks with the total count and the cursor of the next page
+   * @throws ApiError 400 if the cursor is malformed or was issued for another sort
+   */
+  async findPageByUserId(userId: number, queryParams?: ITaskQuery): Promise<ITaskPage> {
+    try {
+      const sort = Task.resolveSort(queryParams);
+      const limit = queryParams?.limit || Task.DEFAULT_PAGE_SIZE;
+      const fields = queryParams?.fields;
+
+      const values: any[] = [userId];
+      let conditions = `WHERE ${this.accessibleBy('$1')}`;
+      conditions += this.buildFilters(values, queryParams);
+
+      // The total ignores the cursor so it stays the same on every page
+      const countResult = await query(
+        `SELECT COUNT(*) AS total FROM tasks t
+         LEFT JOIN priorities p ON p.priority_id = t.priority_id
+         ${conditions}`,
+        [...values]
+      );
+
+      if (queryParams?.cursor) {
+        conditions += ` AND ${this.buildCursorCondition(values, sort, queryParams.cursor)}`;
+      }
+
+      // Fetch one extra row to know whether there is a next page
+      values.push(limit + 1);
+      const sortKey = [...sort.map(key => SORT_COLUMNS[key.field]), 't.task_id'].join(', ');
+      const result = await query(
+        `SELECT ${this.taskColumns('t', !fields || fields.includes('assignees'))},
+           json_build_array(${sortKey}) AS sort_key
+         FROM tasks t
+         LEFT JOIN priorities p ON p.priority_id = t.priority_id
+         ${conditions}
+         ORDER BY ${this.buildOrderBy(sort)}
+         LIMIT $${values.length}`,
+        values
+      );
+
+      const rows = result.rows.slice(0, limit);
+      const hasMore = result.rows.length > limit;
+
+      return {
+        tasks: rows.map(row => Task.pickFields(Task.fromDatabaseRow(row), fields)),
+        total: parseInt(countResult.rows[0].total),
+        next_cursor: hasMore
+          ? encodeCursor({ sort: this.sortSignature(sort), key: rows[rows.length - 1].sort_key })
+          : null
+      };
+    } catch (error) {
+      if (error instanceof ApiError) {
+        throw error;
+      }
+      console.error('Error in findPageByUserId:', error);
+      throw new ApiError('Error finding user tasks', 500);
+    }
+  }
+
+  /**
+   * Find tasks a user is assigned to with optional filtering and searching
+   * @param userId ID of the assignee
+   * @param queryParams Optional query parameters
+   * @returns Array of tasks
+   */
+  async findAssignedToUser(userId: number, queryParams?: ITaskQuery): Promise<ITask[]> {
+    try {
+      const values: any[] = [userId];
+      let queryText = `SELECT ${this.taskColumns('t')} FROM tasks t
+         JOIN task_assignments ta ON ta.task_id = t.task_id
+         LEFT JOIN priorities p ON p.priority_id = t.priority_id
+         WHERE ta.user_id = $1`;
+      
+      queryText += this.buildFilters(values, queryParams);
+      queryText += ` ORDER BY ${this.buildOrderBy(Task.resolveSort(queryParams))}`;
+      
+      const result = await query(queryText, values);
+      
+      return result.rows.map(Task.fromDatabaseRow);
+    } catch (error) {
+      console.error('Error in findAssignedToUser:', error);
+      throw new ApiError('Error finding assigned tasks', 500);
+    }
+  }
+
   /**
    * Find tasks by category ID
    * @param categoryId Category ID
@@ -268,7 +612,9 @@ export class TaskRepository implements ITaskRepository {
   async findByCategoryId(categoryId: number): Promise<ITask[]> {
     try {
       const result = await query(
-        `SELECT * FROM tasks WHERE category_id = $1 ORDER BY due_date ASC NULLS LAST, created_at DESC`,
+        `SELECT ${this.taskColumns('t')} FROM tasks t
+         WHERE t.category_id = $1
+         ORDER BY t.due_date ASC NULLS LAST, t.created_at DESC`,
         [categoryId]
       );
       
@@ -287,7 +633,9 @@ export class TaskRepository implements ITaskRepository {
   async findByPriorityId(priorityId: number): Promise<ITask[]> {
     try {
       const result = await query(
-        `SELECT * FROM tasks WHERE priority_id = $1 ORDER BY due_date ASC NULLS LAST, created_at DESC`,
+        `SELECT ${this.taskColumns('t')} FROM tasks t
+         WHERE t.priority_id = $1
+         ORDER BY t.due_date ASC NULLS LAST, t.created_at DESC`,
         [priorityId]
       );
       
@@ -299,22 +647,45 @@ export class TaskRepository implements ITaskRepository {
   }
 
   /**
-   * Search tasks by title or description
+   * Full-text search the tasks a user can access by title and description
+   * The term is parsed with websearch_to_tsquery, so it supports "quoted phrases",
+   * -exclusions and or. Highlights are only built for the returned rows.
    * @param userId User ID
    * @param searchTerm Search term
-   * @returns Array of matching tasks
+   * @param queryParams Optional query parameters for filtering and the result limit
+   * @returns Matching tasks, most relevant first, with highlighted title and description
    */
-  async search(userId: number, searchTerm: string): Promise<ITask[]> {
+  async search(userId: number, searchTerm: string, queryParams?: ITaskQuery): Promise<ITaskSearchResult[]> {
     try {
+      const values: any[] = [userId, searchTerm];
+      let conditions = `WHERE ${this.accessibleBy('$1')} AND t.search_vector @@ q.search_query`;
+      conditions += this.buildFilters(values, queryParams);
+      values.push(queryParams?.limit || Task.DEFAULT_SEARCH_LIMIT);
+
+      // Rank normalization 1 keeps long descriptions from outranking title matches
       const result = await query(
-        `SELECT * FROM tasks 
-         WHERE user_id = $1 
-         AND (title ILIKE $2 OR description ILIKE $2)
-         ORDER BY due_date ASC NULLS LAST, created_at DESC`,
-        [userId, `%${searchTerm}%`]
+        `SELECT ranked.*,
+           ts_headline('english', ranked.title, ranked.search_query,
+             '${HEADLINE_OPTIONS}, HighlightAll=true') AS title_highlight,
+           CASE WHEN ranked.description IS NOT NULL THEN
+             ts_headline('english', ranked.description, ranked.search_query,
+               '${HEADLINE_OPTIONS}, MaxFragments=2, MaxWords=30, MinWords=10')
+           END AS description_highlight
+         FROM (
+           SELECT ${this.taskColumns('t')}, q.search_query,
+             ts_rank_cd(t.search_vector, q.search_query, 1) AS rank
+           FROM tasks t
+           CROSS JOIN websearch_to_tsquery('english', $2) AS q(search_query)
+           LEFT JOIN priorities p ON p.priority_id = t.priority_id
+           ${conditions}
+           ORDER BY rank DESC, t.task_id ASC
+           LIMIT $${values.length}
+         ) ranked
+         ORDER BY ranked.rank DESC, ranked.task_id ASC`,
+        values
       );
       
-      return result.rows.map(Task.fromDatabaseRow);
+      return result.rows.map(Task.searchResultFromDatabaseRow);
     } catch (error) {
       console.error('Error in search:', error);
       throw new ApiError('Error searching tasks', 500);
@@ -322,31 +693,79 @@ export class TaskRepository implements ITaskRepository {
   }
 
   /**
-   * Change task status
+   * Change task status and record the transition
    * @param taskId Task ID
    * @param status New status
+   * @param actorId ID of the user changing the status
+   * @param transitions Status transition graph (default: the default workflow)
+   * @param reason Reason of a cancellation
+   * @param subtasks What completing the task does to its open subtasks (default: reject)
    * @returns Updated task or null if not found
+   * @throws ApiError 400 if the status does not exist for the task
+   * @throws ApiError 409 if the transition is not allowed, or the task is completed with
+   * open subtasks that are not completed with it
    */
-  async changeStatus(taskId: number, status: string): Promise<ITask | null> {
+  async changeStatus(
+    taskId: number,
+    status: string,
+    actorId: number | null = null,
+    transitions: TaskStatusTransitions = TaskWorkflow.DEFAULT_TRANSITIONS,
+    reason: string | null = null,
+    subtasks: SubtaskCompletion = SubtaskCompletion.REJECT
+  ): Promise<ITask | null> {
     try {
-      // Validate status
-      const validStatuses = Object.values(TaskStatus);
-      if (!validStatuses.includes(status as TaskStatus)) {
-        throw ApiError.badRequest(
-          `Status must be one of: ${validStatuses.join(', ')}`,
-          'INVALID_STATUS'
+      return await transaction(async (client) => {
+        // Lock the row so the transition is checked against the status it replaces
+        const existing = await client.query(
+          `SELECT to_jsonb(t.*) AS snapshot, ${statusCategoryColumn('t')} AS status_category
+           FROM tasks t WHERE t.task_id = $1 FOR UPDATE`,
+          [taskId]
         );
-      }
-      
-      const result = await query(
-        `UPDATE tasks
-         SET status = $1, updated_at = NOW()
-         WHERE task_id = $2
-         RETURNING *`,
-        [status, taskId]
-      );
-      
-      return result.rows.length > 0 ? Task.fromDatabaseRow(result.rows[0]) : null;
+        if (existing.rows.length === 0) {
+          return null;
+        }
+
+        const before = existing.rows[0].snapshot;
+        const currentCategory: StatusCategory = existing.rows[0].status_category || StatusCategory.TODO;
+        const nextCategory = await this.resolveStatusCategory(client, status, before.workspace_id);
+        TaskWorkflow.assertTransition(currentCategory, nextCategory, transitions);
+
+        if (currentCategory !== StatusCategory.DONE && nextCategory === StatusCategory.DONE) {
+          if (subtasks === SubtaskCompletion.CASCADE) {
+            await this.completeSubtasks(client, taskId, status, actorId);
+          } else {
+            TaskWorkflow.assertSubtasksClosed(currentCategory, nextCategory, await this.countOpenSubtasks(client, taskId));
+          }
+        }
+
+        const result = await client.query(
+          `WITH updated AS (
+             UPDATE tasks
+             SET ${this.statusAssignments('$1', currentCategory, nextCategory, '$2')}, updated_at = NOW()
+             WHERE task_id = $3
+             RETURNING *
+           )
+           SELECT ${this.taskColumns('updated')}, to_jsonb(updated.*) AS snapshot FROM updated`,
+          [status, reason, taskId]
+        );
+
+        const row = result.rows[0];
+        const changes = TaskEvent.diff(before, row.snapshot);
+        if (Object.keys(changes).length > 0) {
+          await this.eventRepository.record(client, {
+            task_id: taskId,
+            user_id: actorId,
+            event_type: changes.status ? TaskEventType.STATUS_CHANGED : TaskEventType.UPDATED,
+            changes
+          });
+        }
+
+        if (row.series_id && currentCategory !== StatusCategory.DONE && nextCategory === StatusCategory.DONE) {
+          await this.createNextOccurrence(client, row.snapshot, actorId);
+        }
+        
+        return Task.fromDatabaseRow(row);
+      });
     } catch (error) {
       if (error instanceof ApiError) {
         throw error;
@@ -355,4 +774,702 @@ export class TaskRepository implements ITaskRepository {
       throw new ApiError('Error changing task status', 500);
     }
   }
+
+  /**
+   * Archive or restore a task and record it in the task history
+   * @param taskId Task ID
+   * @param archived Whether the task is archived or restored
+   * @param actorId ID of the user archiving the task
+   * @returns Updated task or null if not found
+   */
+  async setArchived(taskId: number, archived: boolean, actorId: number | null = null): Promise<ITask | null> {
+    try {
+      return await transaction(async (client) => {
+        const existing = await client.query(
+          `SELECT to_jsonb(t.*) AS snapshot FROM tasks t WHERE t.task_id = $1 FOR UPDATE`,
+          [taskId]
+        );
+        if (existing.rows.length === 0) {
+          return null;
+        }
+
+        const result = await client.query(
+          `WITH updated AS (
+             UPDATE tasks
+             SET archived_at = ${archived ? 'COALESCE(archived_at, NOW())' : 'NULL'}, updated_at = NOW()
+             WHERE task_id = $1
+             RETURNING *
+           )
+           SELECT ${this.taskColumns('updated')}, to_jsonb(updated.*) AS snapshot FROM updated`,
+          [taskId]
+        );
+
+        const row = result.rows[0];
+        const changes = TaskEvent.diff(existing.rows[0].snapshot, row.snapshot);
+        if (Object.keys(changes).length > 0) {
+          await this.eventRepository.record(client, {
+            task_id: taskId,
+            user_id: actorId,
+            event_type: TaskEventType.UPDATED,
+            changes
+          });
+        }
+
+        return Task.fromDatabaseRow(row);
+      });
+    } catch (error) {
+      console.error('Error in setArchived:', error);
+      throw new ApiError('Error archiving task', 500);
+    }
+  }
+
+  /**
+   * Run work in a single transaction
+   * Repository calls made by the work join the transaction, and the transactions
+   * they open become savepoints that roll back on their own
+   * @param work Work to run
+   * @returns Result of the work
+   */
+  async withTransaction<T>(work: () => Promise<T>): Promise<T> {
+    return runInTransaction(work);
+  }
+
+  /**
+   * Find the direct subtasks of a task
+   * @param taskId Task ID
+   * @returns Subtasks, oldest first
+   */
+  async findSubtasks(taskId: number): Promise<ITask[]> {
+    try {
+      const result = await query(
+        `SELECT ${this.taskColumns('t')} FROM tasks t
+         WHERE t.parent_task_id = $1
+         ORDER BY t.created_at ASC, t.task_id ASC`,
+        [taskId]
+      );
+
+      return result.rows.map(Task.fromDatabaseRow);
+    } catch (error) {
+      console.error('Error in findSubtasks:', error);
+      throw new ApiError('Error finding subtasks', 500);
+    }
+  }
+
+  /**
+   * Find the open subtasks of a task at any depth
+   * These are the subtasks completing the task with its subtasks completes.
+   * @param taskId Task ID
+   * @returns Subtasks that are neither completed nor cancelled, by ID
+   */
+  async findOpenSubtasks(taskId: number): Promise<ITask[]> {
+    try {
+      const result = await query(
+        `${subtreeOf('$1')}
+         SELECT ${this.taskColumns('t')} FROM tasks t
+         JOIN subtree s ON s.task_id = t.task_id
+         WHERE t.completed_at IS NULL AND t.cancelled_at IS NULL
+         ORDER BY t.task_id`,
+        [taskId]
+      );
+
+      return result.rows.map(Task.fromDatabaseRow);
+    } catch (error) {
+      console.error('Error in findOpenSubtasks:', error);
+      throw new ApiError('Error finding open subtasks', 500);
+    }
+  }
+
+  /**
+   * Find the ancestors of a task
+   * @param taskId Task ID
+   * @returns IDs of the parent, its parent and so on; empty for top-level tasks
+   */
+  async findAncestorIds(taskId: number): Promise<number[]> {
+    try {
+      // The depth bound keeps the walk finite should the hierarchy ever contain a cycle
+      const result = await query(
+        `WITH RECURSIVE ancestors AS (
+           SELECT parent_task_id AS task_id, 1 AS depth FROM tasks
+           WHERE task_id = $1 AND parent_task_id IS NOT NULL
+           UNION ALL
+           SELECT t.parent_task_id, a.depth + 1 FROM tasks t
+           JOIN ancestors a ON t.task_id = a.task_id
+           WHERE t.parent_task_id IS NOT NULL AND a.depth <= $2
+         )
+         SELECT task_id FROM ancestors ORDER BY depth`,
+        [taskId, Task.MAX_DEPTH]
+      );
+
+      return result.rows.map(row => row.task_id);
+    } catch (error) {
+      console.error('Error in findAncestorIds:', error);
+      throw new ApiError('Error finding parent tasks', 500);
+    }
+  }
+
+  /**
+   * Count the levels of a task and its subtasks
+   * @param taskId Task ID
+   * @returns 1 for a task without subtasks, 2 when its subtasks have none, and so on
+   */
+  async getSubtreeHeight(taskId: number): Promise<number> {
+    try {
+      const result = await query(
+        `${subtreeOf('$1')}
+         SELECT COALESCE(MAX(level), 0) + 1 AS height FROM subtree`,
+        [taskId]
+      );
+
+      return parseInt(result.rows[0].height);
+    } catch (error) {
+      console.error('Error in getSubtreeHeight:', error);
+      throw new ApiError('Error finding subtasks', 500);
+    }
+  }
+
+  /**
+   * Insert a task in the initial status with its tags, record its creation and add the owner's default reminders
+   * @param client Database client of the surrounding transaction
+   * @param data Task data; generated occurrences pass their due date as YYYY-MM-DD
+   * @param seriesId Series of a recurring task, if any
+   * @param actorId ID of the user creating the task
+   * @returns Inserted row
+   */
+  private async insertTask(
+    client: PoolClient,
+    data: Omit<ITaskCreate, 'due_date'> & { due_date?: Date | string },
+    seriesId: number | null,
+    actorId: number | null
+  ): Promise<any> {
+    const { user_id, workspace_id, parent_task_id, title, description, category_id, priority_id, due_date } = data;
+
+    const result = await client.query(
+      `INSERT INTO tasks 
+       (user_id, workspace_id, parent_task_id, title, description, category_id, priority_id, due_date, status, series_id)
+       VALUES 
+       ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+       RETURNING *, to_jsonb(tasks.*) AS snapshot`,
+      [
+        user_id,
+        workspace_id || null,
+        parent_task_id || null,
+        title,
+        description,
+        category_id,
+        priority_id,
+        due_date,
+        TaskStatus.PENDING,
+        seriesId
+      ]
+    );
+
+    const row = result.rows[0];
+    const changes = TaskEvent.diff({}, row.snapshot);
+    if (data.tags && data.tags.length > 0) {
+      const tagChange = await this.tagRepository.setTaskTags(client, row, Tag.normalizeNames(data.tags), actorId);
+      changes.tags = { from: null, to: tagChange.to };
+    }
+    await this.eventRepository.record(client, {
+      task_id: row.task_id,
+      user_id: actorId,
+      event_type: TaskEventType.CREATED,
+      changes
+    });
+
+    if (row.due_date) {
+      await this.reminderRepository.createDefaults(client, row.task_id);
+    }
+
+    return row;
+  }
+
+  /**
+   * Create the occurrence following a completed occurrence of a recurring task
+   * The new occurrence takes the values of the series and the owner, workspace and parent of the completed one.
+   * Nothing is created when the series is over, or when the occurrence already exists
+   * because the completed one was reopened and completed again.
+   * @param client Database client of the surrounding transaction
+   * @param completed Snapshot of the completed occurrence
+   * @param actorId ID of the user completing the occurrence
+   */
+  private async createNextOccurrence(
+    client: PoolClient,
+    completed: Record<string, any>,
+    actorId: number | null
+  ): Promise<void> {
+    const series = await this.seriesRepository.lock(client, completed.series_id);
+    if (!series || !completed.due_date) {
+      return;
+    }
+
+    const recurrence = Recurrence.anchor(series.recurrence, completed.due_date);
+    const dueDate = Recurrence.nextOccurrence(recurrence, completed.due_date, series.occurrence_count);
+    if (!dueDate) {
+      return;
+    }
+
+    const existing = await client.query(
+      `SELECT 1 FROM tasks WHERE series_id = $1 AND due_date = $2`,
+      [series.series_id, dueDate]
+    );
+    if (existing.rows.length > 0) {
+      return;
+    }
+
+    // Keep the day of monthly and yearly series so that clamping to shorter months does not move it
+    if (recurrence !== series.recurrence) {
+      await this.seriesRepository.update(client, series.series_id, { recurrence });
+    }
+
+    // Occurrences keep the tags of the occurrence they follow
+    const tags = await client.query(
+      `SELECT g.name FROM task_tags tt JOIN tags g ON g.tag_id = tt.tag_id WHERE tt.task_id = $1`,
+      [completed.task_id]
+    );
+
+    await this.insertTask(client, {
+      user_id: completed.user_id,
+      workspace_id: completed.workspace_id,
+      parent_task_id: completed.parent_task_id ?? undefined,
+      title: series.title,
+      description: series.description ?? undefined,
+      category_id: series.category_id ?? undefined,
+      priority_id: series.priority_id ?? undefined,
+      due_date: dueDate,
+      tags: tags.rows.map(tag => tag.name)
+    }, series.series_id, actorId);
+    await this.seriesRepository.incrementOccurrences(client, series.series_id);
+  }
+
+  /**
+   * Apply changes to the open occurrences of a series due after an occurrence and record them
+   * @param client Database client of the surrounding transaction
+   * @param occurrence Snapshot of the edited occurrence
+   * @param changes Series template fields to set
+   * @param actorId ID of the user making the change
+   */
+  private async updateLaterOccurrences(
+    client: PoolClient,
+    occurrence: Record<string, any>,
+    changes: ITaskSeriesUpdate,
+    actorId: number | null
+  ): Promise<void> {
+    const fields = Object.keys(changes) as Array<keyof ITaskSeriesUpdate>;
+    if (fields.length === 0 || !occurrence.due_date) {
+      return;
+    }
+
+    const values: any[] = [occurrence.series_id, occurrence.task_id, occurrence.due_date];
+    const assignments = fields.map(field => {
+      values.push(changes[field]);
+      return `${field} = $${values.length}`;
+    });
+
+    const result = await client.query(
+      `WITH later AS (
+         SELECT t.task_id, to_jsonb(t.*) AS snapshot FROM tasks t
+         WHERE t.series_id = $1 AND t.task_id <> $2 AND t.due_date > $3
+           AND t.completed_at IS NULL AND t.cancelled_at IS NULL
+         FOR UPDATE
+       ), updated AS (
+         UPDATE tasks t
+         SET ${assignments.join(', ')}, updated_at = NOW()
+         FROM later
+         WHERE t.task_id = later.task_id
+         RETURNING t.task_id, to_jsonb(t.*) AS snapshot
+       )
+       SELECT updated.task_id, later.snapshot AS before, updated.snapshot AS after
+       FROM updated JOIN later ON later.task_id = updated.task_id`,
+      values
+    );
+
+    for (const row of result.rows) {
+      const rowChanges = TaskEvent.diff(row.before, row.after);
+      if (Object.keys(rowChanges).length > 0) {
+        await this.eventRepository.record(client, {
+          task_id: row.task_id,
+          user_id: actorId,
+          event_type: TaskEventType.UPDATED,
+          changes: rowChanges
+        });
+      }
+    }
+  }
+
+  /**
+   * Count the open subtasks of a task at any depth
+   * @param client Database client of the surrounding transaction
+   * @param taskId Task ID
+   * @returns Number of subtasks neither completed nor cancelled
+   */
+  private async countOpenSubtasks(client: PoolClient, taskId: number): Promise<number> {
+    const result = await client.query(
+      `${subtreeOf('$1')}
+       SELECT COUNT(*) AS count FROM subtree s
+       JOIN tasks t ON t.task_id = s.task_id
+       WHERE t.completed_at IS NULL AND t.cancelled_at IS NULL`,
+      [taskId]
+    );
+
+    return parseInt(result.rows[0].count);
+  }
+
+  /**
+   * Complete the open subtasks of a task at any depth and record the status changes
+   * Subtasks share the workspace of the task, so they can take its new status.
+   * Completed occurrences of recurring subtasks create their next occurrence.
+   * @param client Database client of the surrounding transaction
+   * @param taskId Task ID
+   * @param status Done status of the task
+   * @param actorId ID of the user completing the task
+   */
+  private async completeSubtasks(
+    client: PoolClient,
+    taskId: number,
+    status: string,
+    actorId: number | null
+  ): Promise<void> {
+    const result = await client.query(
+      `${subtreeOf('$1')}, open AS (
+         SELECT t.task_id, to_jsonb(t.*) AS snapshot FROM tasks t
+         JOIN subtree s ON s.task_id = t.task_id
+         WHERE t.completed_at IS NULL AND t.cancelled_at IS NULL
+         FOR UPDATE OF t
+       ), updated AS (
+         UPDATE tasks t
+         SET ${this.statusAssignments('$2', StatusCategory.TODO, StatusCategory.DONE)}, updated_at = NOW()
+         FROM open
+         WHERE t.task_id = open.task_id
+         RETURNING t.task_id, to_jsonb(t.*) AS snapshot
+       )
+       SELECT updated.task_id, open.snapshot AS before, updated.snapshot AS after
+       FROM updated JOIN open ON open.task_id = updated.task_id
+       ORDER BY updated.task_id`,
+      [taskId, status]
+    );
+
+    for (const row of result.rows) {
+      await this.eventRepository.record(client, {
+        task_id: row.task_id,
+        user_id: actorId,
+        event_type: TaskEventType.STATUS_CHANGED,
+        changes: TaskEvent.diff(row.before, row.after)
+      });
+
+      if (row.after.series_id) {
+        await this.createNextOccurrence(client, row.after, actorId);
+      }
+    }
+  }
+
+  /**
+   * Pick the fields of a task copied to new occurrences of its series
+   * @param data Task data or snapshot
+   * @returns Defined template fields
+   */
+  private seriesTemplate(data: Record<string, any>): ITaskSeriesUpdate {
+    const template: Record<string, any> = {};
+    for (const field of SERIES_TEMPLATE_FIELDS) {
+      if (data[field] !== undefined) {
+        template[field] = data[field];
+      }
+    }
+    return template as ITaskSeriesUpdate;
+  }
+
+  /**
+   * Find the category of a status a task can be moved to
+   * The status is share-locked so it cannot be deleted while the task moves into it
+   * @param client Database client of the surrounding transaction
+   * @param key Status key
+   * @param workspaceId Workspace of the task (null for personal tasks)
+   * @returns Status category
+   * @throws ApiError 400 if the status does not exist for the task
+   */
+  private async resolveStatusCategory(
+    client: PoolClient,
+    key: string,
+    workspaceId: number | null
+  ): Promise<StatusCategory> {
+    const result = await client.query(
+      `SELECT category FROM statuses
+       WHERE key = $1 AND (workspace_id IS NULL OR workspace_id = $2)
+       LIMIT 1
+       FOR SHARE`,
+      [key, workspaceId]
+    );
+    if (result.rows.length === 0) {
+      throw ApiError.badRequest(`Status ${key} does not exist for this task`, 'INVALID_STATUS');
+    }
+
+    return result.rows[0].category as StatusCategory;
+  }
+
+  /**
+   * Build the SET assignments of a status change
+   * Completion and cancellation times are set when a task enters a done or cancelled
+   * status, kept while it moves within the category and cleared when it leaves;
+   * so is the cancellation reason. Reopening a task restores it from the archive
+   * @param statusParam Placeholder of the new status parameter (e.g. $1)
+   * @param from Category of the current status
+   * @param to Category of the new status
+   * @param reasonParam Placeholder of the cancellation reason parameter, if any
+   * @returns Assignments for an UPDATE of the tasks table
+   */
+  private statusAssignments(
+    statusParam: string,
+    from: StatusCategory,
+    to: StatusCategory,
+    reasonParam?: string
+  ): string {
+    const timestamp = (category: StatusCategory, column: string): string => {
+      if (to !== category) {
+        return 'NULL';
+      }
+      return from === category ? column : 'NOW()';
+    };
+    const reason = reasonParam ? `COALESCE(${reasonParam}, cancellation_reason)` : 'cancellation_reason';
+
+    return `status = ${statusParam},
+      completed_at = ${timestamp(StatusCategory.DONE, 'completed_at')},
+      cancelled_at = ${timestamp(StatusCategory.CANCELLED, 'cancelled_at')},
+      cancellation_reason = ${to === StatusCategory.CANCELLED ? reason : 'NULL'},
+      archived_at = ${to === StatusCategory.DONE || to === StatusCategory.CANCELLED ? 'archived_at' : 'NULL'}`;
+  }
+
+  /**
+   * Build the select list for a task row, its status category, its recurrence, the progress
+   * of its subtasks and checklist, its tag names and its assignees
+   * Tag names and assignees are aggregated into JSON arrays, or NULL when the task has none.
+   * Cancelled subtasks do not count towards the progress.
+   * @param alias Alias of the tasks relation in the surrounding query
+   * @param withAssignees Whether to aggregate the assignees (default: true)
+   * @returns Select list without the keyword
+   */
+  private taskColumns(alias: string, withAssignees: boolean = true): string {
+    const columns = `${alias}.*, ${statusCategoryColumn(alias)} AS status_category,
+      (SELECT ts.recurrence FROM task_series ts WHERE ts.series_id = ${alias}.series_id) AS recurrence,
+      (SELECT json_build_object(
+        'total', COUNT(*) FILTER (WHERE st.cancelled_at IS NULL),
+        'done', COUNT(*) FILTER (WHERE st.completed_at IS NOT NULL)
+      ) FROM tasks st WHERE st.parent_task_id = ${alias}.task_id) AS subtask_progress,
+      (SELECT json_build_object('total', COUNT(*), 'done', COUNT(*) FILTER (WHERE ci.is_done))
+       FROM task_checklist_items ci WHERE ci.task_id = ${alias}.task_id) AS checklist_progress,
+      (SELECT json_agg(g.name ORDER BY lower(g.name))
+       FROM task_tags tg JOIN tags g ON g.tag_id = tg.tag_id WHERE tg.task_id = ${alias}.task_id) AS tags`;
+    if (!withAssignees) {
+      return columns;
+    }
+
+    return `${columns}, (
+      SELECT json_agg(json_build_object(
+        'user_id', u.user_id,
+        'username', u.username,
+        'email', u.email,
+        'assigned_at', a.assigned_at
+      ) ORDER BY a.assigned_at)
+      FROM task_assignments a
+      JOIN users u ON u.user_id = a.user_id
+      WHERE a.task_id = ${alias}.task_id
+    ) AS assignees`;
+  }
+
+  /**
+   * Build the condition matching the tasks a user can access: their personal
+   * tasks and the tasks of the workspaces they are a member of
+   * @param userParam Placeholder of the user ID parameter (e.g. $1)
+   * @returns Condition for a WHERE clause on the tasks relation aliased t
+   */
+  private accessibleBy(userParam: string): string {
+    return `(
+      (t.workspace_id IS NULL AND t.user_id = ${userParam})
+      OR t.workspace_id IN (SELECT wm.workspace_id FROM workspace_members wm WHERE wm.user_id = ${userParam})
+    )`;
+  }
+
+  /**
+   * Build the filter conditions for task listings
+   * @param values Query parameter values; filter values are appended in place
+   * @param queryParams Optional query parameters
+   * @returns Conditions to append to an existing WHERE clause
+   */
+  private buildFilters(values: any[], queryParams?: ITaskQuery): string {
+    // Archived tasks are only listed when asked for
+    let conditions = queryParams?.archived ? ' AND t.archived_at IS NOT NULL' : ' AND t.archived_at IS NULL';
+    if (!queryParams) {
+      return conditions;
+    }
+
+    if (queryParams.workspace_id !== undefined) {
+      values.push(queryParams.workspace_id);
+      conditions += ` AND t.workspace_id = $${values.length}`;
+    }
+
+    if (queryParams.category_id !== undefined) {
+      values.push(queryParams.category_id);
+      conditions += ` AND t.category_id = $${values.length}`;
+    }
+    
+    if (queryParams.priority_id !== undefined) {
+      values.push(queryParams.priority_id);
+      conditions += ` AND t.priority_id = $${values.length}`;
+    }
+    
+    if (queryParams.status !== undefined) {
+      values.push(queryParams.status);
+      conditions += ` AND t.status = $${values.length}`;
+    }
+    
+    if (queryParams.due_date !== undefined) {
+      values.push(queryParams.due_date);
+      conditions += ` AND DATE(t.due_date) = DATE($${values.length})`;
+    }
+    
+    if (queryParams.search) {
+      values.push(queryParams.search);
+      conditions += ` AND t.search_vector @@ websearch_to_tsquery('english', $${values.length})`;
+    }
+
+    if (queryParams.tags && queryParams.tags.length > 0) {
+      values.push(queryParams.tags.map(tag => tag.toLowerCase()));
+      const tagged = `FROM task_tags tt JOIN tags g ON g.tag_id = tt.tag_id
+        WHERE tt.task_id = t.task_id AND lower(g.name) = ANY($${values.length}::text[])`;
+      if (queryParams.tags_match === 'all') {
+        // Names are unique within the scope of a task's tags, so each listed name matches at most once
+        values.push(queryParams.tags.length);
+        conditions += ` AND (SELECT COUNT(*) ${tagged}) = $${values.length}`;
+      } else {
+        conditions += ` AND EXISTS (SELECT 1 ${tagged})`;
+      }
+    }
+
+    for (const filter of queryParams.filters || []) {
+      conditions += ` AND ${this.buildFilterCondition(values, filter)}`;
+    }
+
+    return conditions;
+  }
+
+  /**
+   * Build the SQL condition of a filter; listings must join priorities as p
+   * @param values Query parameter values; filter values are appended in place
+   * @param filter Filter condition
+   * @returns Parenthesized condition
+   */
+  private buildFilterCondition(values: any[], filter: ITaskFilter): string {
+    let condition: string;
+
+    if (filter.field === 'text') {
+      values.push(filter.value);
+      condition = `t.search_vector @@ phraseto_tsquery('english', $${values.length})`;
+    } else {
+      const column = FILTER_COLUMNS[filter.field];
+
+      switch (filter.operator) {
+        case 'in': {
+          const listed = (filter.values || []).filter(value => value !== null);
+          const parts: string[] = [];
+          if (listed.length > 0) {
+            values.push(listed);
+            parts.push(`${column} = ANY($${values.length})`);
+          }
+          if (listed.length < (filter.values || []).length) {
+            parts.push(`${column} IS NULL`);
+          }
+          condition = parts.length > 0 ? parts.join(' OR ') : 'FALSE';
+          break;
+        }
+        case 'is_null':
+          condition = `${column} IS NULL`;
+          break;
+        case 'on':
+          values.push(filter.value);
+          condition = `DATE(${column}) = DATE($${values.length})`;
+          break;
+        default: {
+          values.push(filter.value);
+          const operator = COMPARISON_OPERATORS[filter.operator];
+          // Priorities compare by rank; the value is a priority name
+          condition = filter.field === 'priority'
+            ? `p.rank ${operator} (SELECT rank FROM priorities WHERE name = $${values.length})`
+            : `${column} ${operator} $${values.length}`;
+        }
+      }
+    }
+
+    // Empty fields do not match a condition, so they do match its negation
+    return filter.negate ? `NOT COALESCE((${condition}), FALSE)` : `(${condition})`;
+  }
+
+  /**
+   * Build the ORDER BY clause for task listings
+   * Empty values always sort last and the task ID breaks ties, so the order is total
+   * @param sort Sort keys
+   * @returns ORDER BY clause without the keyword
+   */
+  private buildOrderBy(sort: ITaskSort[]): string {
+    const keys = sort.map(key => `${SORT_COLUMNS[key.field]} ${key.direction === 'desc' ? 'DESC' : 'ASC'} NULLS LAST`);
+    return [...keys, 't.task_id ASC'].join(', ');
+  }
+
+  /**
+   * Build the condition matching the tasks that come after a cursor in the given order
+   * @param values Query parameter values; cursor values are appended in place
+   * @param sort Sort keys of the listing
+   * @param cursor Cursor returned with the previous page
+   * @returns Condition for a WHERE clause
+   * @throws ApiError 400 if the cursor is malformed, was issued for another sort or holds
+   * values that do not fit the sort fields
+   */
+  private buildCursorCondition(values: any[], sort: ITaskSort[], cursor: string): string {
+    const position = decodeCursor<ITaskCursor>(cursor);
+    if (
+      position.sort !== this.sortSignature(sort)
+      || !Array.isArray(position.key)
+      || position.key.length !== sort.length + 1
+    ) {
+      throw ApiError.badRequest('Cursor does not match the requested sort', 'INVALID_CURSOR');
+    }
+    const fitsSort = sort.every((key, index) =>
+      position.key[index] === null || isCursorValue(position.key[index], SORT_KEY_TYPES[key.field])
+    );
+    if (!fitsSort || !isCursorValue(position.key[sort.length], 'integer')) {
+      throw ApiError.badRequest('Invalid cursor', 'INVALID_CURSOR');
+    }
+
+    // A task comes after the cursor when it ties on the first keys and sorts
+    // after it on the next one; NULLs sort last in both directions
+    const branches: string[] = [];
+    const ties: string[] = [];
+
+    sort.forEach((key, index) => {
+      const column = SORT_COLUMNS[key.field];
+      const value = position.key[index];
+
+      if (value === null) {
+        ties.push(`${column} IS NULL`);
+        return;
+      }
+
+      values.push(value);
+      const param = `$${values.length}`;
+      const operator = key.direction === 'desc' ? '<' : '>';
+      branches.push([...ties, `(${column} ${operator} ${param} OR ${column} IS NULL)`].join(' AND '));
+      ties.push(`${column} = ${param}`);
+    });
+
+    values.push(position.key[sort.length]);
+    branches.push([...ties, `t.task_id > $${values.length}`].join(' AND '));
+
+    return `(${branches.map(branch => `(${branch})`).join(' OR ')})`;
+  }
+
+  /**
+   * Describe sort keys so a cursor is only reused with the sort it was issued for
+   * @param sort Sort keys
+   * @returns Signature such as "due_date:asc,created_at:desc"
+   */
+  private sortSignature(sort: ITaskSort[]): string {
+    return sort.map(key => `${key.field}:${key.direction}`).join(',');
+  }
 }
\ No newline at end of file
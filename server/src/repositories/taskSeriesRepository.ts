@@ -0,0 +1,102 @@
+import { PoolClient } from 'pg';
+import { ITaskSeries, ITaskSeriesCreate, ITaskSeriesUpdate } from '../interfaces/taskSeries.interface';
+import { ITaskSeriesRepository } from '../interfaces/taskSeriesRepository.interface';
+import { Recurrence } from '../models/recurrence.model';
+
+/**
+ * Columns of a series that can be updated
+ */
+const SERIES_FIELDS: Array<keyof ITaskSeriesUpdate> = ['recurrence', 'title', 'description', 'category_id', 'priority_id'];
+
+/**
+ * PostgreSQL implementation of the Task Series Repository
+ * Errors propagate so the surrounding task change is rolled back with them
+ */
+export class TaskSeriesRepository implements ITaskSeriesRepository {
+  /**
+   * Create a series whose first occurrence is being created
+   * @param client Client of the open transaction
+   * @param data Series data
+   * @returns Created series
+   */
+  async create(client: PoolClient, data: ITaskSeriesCreate): Promise<ITaskSeries> {
+    const result = await client.query(
+      `INSERT INTO task_series (recurrence, title, description, category_id, priority_id)
+       VALUES ($1, $2, $3, $4, $5)
+       RETURNING *`,
+      [
+        JSON.stringify(data.recurrence),
+        data.title,
+        data.description ?? null,
+        data.category_id ?? null,
+        data.priority_id ?? null
+      ]
+    );
+
+    return Recurrence.seriesFromDatabaseRow(result.rows[0]);
+  }
+
+  /**
+   * Find a series and lock it until the transaction ends
+   * @param client Client of the open transaction
+   * @param seriesId Series ID
+   * @returns Series or null if not found
+   */
+  async lock(client: PoolClient, seriesId: number): Promise<ITaskSeries | null> {
+    const result = await client.query(
+      `SELECT * FROM task_series WHERE series_id = $1 FOR UPDATE`,
+      [seriesId]
+    );
+
+    return result.rows.length > 0 ? Recurrence.seriesFromDatabaseRow(result.rows[0]) : null;
+  }
+
+  /**
+   * Update the rule or the values copied to new occurrences
+   * @param client Client of the open transaction
+   * @param seriesId Series ID
+   * @param data Series data to update; undefined fields are kept
+   */
+  async update(client: PoolClient, seriesId: number, data: ITaskSeriesUpdate): Promise<void> {
+    const updates: string[] = [];
+    const values: any[] = [];
+
+    for (const field of SERIES_FIELDS) {
+      if (data[field] !== undefined) {
+        values.push(field === 'recurrence' ? JSON.stringify(data[field]) : data[field]);
+        updates.push(`${field} = $${values.length}`);
+      }
+    }
+
+    if (updates.length === 0) {
+      return;
+    }
+
+    values.push(seriesId);
+    await client.query(
+      `UPDATE task_series SET ${updates.join(', ')}, updated_at = NOW() WHERE series_id = $${values.length}`,
+      values
+    );
+  }
+
+  /**
+   * Count a newly generated occurrence
+   * @param client Client of the open transaction
+   * @param seriesId Series ID
+   */
+  async incrementOccurrences(client: PoolClient, seriesId: number): Promise<void> {
+    await client.query(
+      `UPDATE task_series SET occurrence_count = occurrence_count + 1, updated_at = NOW() WHERE series_id = $1`,
+      [seriesId]
+    );
+  }
+
+  /**
+   * Delete a series; its occurrences stay as standalone tasks
+   * @param client Client of the open transaction
+   * @param seriesId Series ID
+   */
+  async delete(client: PoolClient, seriesId: number): Promise<void> {
+    await client.query(`DELETE FROM task_series WHERE series_id = $1`, [seriesId]);
+  }
+}
@@ -1,3 +1,4 @@
+import { PoolClient } from 'pg';
 import { query, transaction } from '../config/database';
 import { ApiError } from '../utils/error.utils';
 import { IUser, IUserCreate } from '../interfaces/user.interface';
@@ -36,7 +37,7 @@ export class UserRepository implements IUserRepository {
   async findByIdSafe(id: number): Promise<Omit<IUser, 'password_hash'> | null> {
     try {
       const result = await query(
-        `SELECT user_id, username, email, created_at, role 
+        `SELECT user_id, username, email, created_at, role, email_verified_at
          FROM users 
          WHERE user_id = $1`,
         [id]
@@ -156,6 +157,11 @@ export class UserRepository implements IUserRepository {
         }
         updates.push(`email = $${paramCount++}`);
         values.push(userData.email);
+
+        // A new address has to be verified again
+        if (userData.email !== existingUser.email) {
+          updates.push(`email_verified_at = NULL`);
+        }
       }
       
       if (userData.role) {
@@ -215,7 +221,7 @@ export class UserRepository implements IUserRepository {
    */
   async findAll(filter?: Partial<IUser>): Promise<IUser[]> {
     try {
-      let queryText = `SELECT user_id, username, email, created_at, role FROM users`;
+      let queryText = `SELECT user_id, username, email, created_at, role, email_verified_at FROM users`;
       const values: any[] = [];
       let paramCount = 1;
       
@@ -292,13 +298,39 @@ export class UserRepository implements IUserRepository {
     }
   }
 
+  /**
+   * Find users by username (without password hash)
+   * @param usernames Usernames
+   * @returns Users with one of the usernames; unknown usernames are left out
+   */
+  async findByUsernames(usernames: string[]): Promise<Omit<IUser, 'password_hash'>[]> {
+    try {
+      if (usernames.length === 0) {
+        return [];
+      }
+
+      const result = await query(
+        `SELECT user_id, username, email, created_at, role, email_verified_at
+         FROM users
+         WHERE username = ANY($1::text[])`,
+        [usernames]
+      );
+
+      return result.rows;
+    } catch (error) {
+      console.error('Error in findByUsernames:', error);
+      throw new ApiError('Error finding users by username', 500);
+    }
+  }
+
   /**
    * Change user password
    * @param userId User ID
    * @param newPassword New password (plain text)
+   * @param client Database client of a surrounding transaction, if any
    * @returns Boolean indicating if password change was successful
    */
-  async changePassword(userId: number, newPassword: string): Promise<boolean> {
+  async changePassword(userId: number, newPassword: string, client?: PoolClient): Promise<boolean> {
     try {
       // Validate password
       validatePassword(newPassword);
@@ -307,13 +339,13 @@ export class UserRepository implements IUserRepository {
       const salt = await bcrypt.genSalt(10);
       const password_hash = await bcrypt.hash(newPassword, salt);
       
-      const result = await query(
-        `UPDATE users
+      const text = `UPDATE users
          SET password_hash = $1, updated_at = NOW()
          WHERE user_id = $2
-         RETURNING user_id`,
-        [password_hash, userId]
-      );
+         RETURNING user_id`;
+      const result = client
+        ? await client.query(text, [password_hash, userId])
+        : await query(text, [password_hash, userId]);
       
       return result.rowCount !== null && result.rowCount > 0;
     } catch (error) {
@@ -325,6 +357,29 @@ export class UserRepository implements IUserRepository {
     }
   }
 
+  /**
+   * Mark a user's email address as verified
+   * @param userId User ID
+   * @param email Address that was verified; nothing changes if the user's email differs
+   * @returns Updated user or null if no matching user
+   */
+  async markEmailVerified(userId: number, email: string): Promise<IUser | null> {
+    try {
+      const result = await query(
+        `UPDATE users
+         SET email_verified_at = COALESCE(email_verified_at, NOW()), updated_at = NOW()
+         WHERE user_id = $1 AND email = $2
+         RETURNING *`,
+        [userId, email]
+      );
+
+      return result.rows[0] || null;
+    } catch (error) {
+      console.error('Error in markEmailVerified:', error);
+      throw new ApiError('Error verifying email', 500);
+    }
+  }
+
   /**
    * Validate user data
    * @param userData User data to validate
@@ -0,0 +1,338 @@
+import { query, transaction } from '../config/database';
+import { ApiError, isUniqueViolation } from '../utils/error.utils';
+import {
+  IWorkspace,
+  IWorkspaceCreate,
+  IWorkspaceMember,
+  IWorkspaceUpdate,
+  WorkspaceRole
+} from '../interfaces/workspace.interface';
+import { IWorkspaceRepository } from '../interfaces/workspaceRepository.interface';
+import { TaskEventType } from '../interfaces/taskEvent.interface';
+import { Workspace } from '../models/workspace.model';
+
+/**
+ * PostgreSQL implementation of the Workspace Repository
+ */
+export class WorkspaceRepository implements IWorkspaceRepository {
+  /**
+   * Find a workspace by ID
+   * @param id Workspace ID
+   * @returns Workspace object or null if not found
+   */
+  async findById(id: number): Promise<IWorkspace | null> {
+    try {
+      const result = await query(
+        `SELECT * FROM workspaces WHERE workspace_id = $1`,
+        [id]
+      );
+
+      return result.rows.length > 0 ? Workspace.fromDatabaseRow(result.rows[0]) : null;
+    } catch (error) {
+      console.error('Error in findById:', error);
+      throw new ApiError('Error finding workspace by ID', 500);
+    }
+  }
+
+  /**
+   * Find the workspaces a user is a member of
+   * @param userId User ID
+   * @returns Array of workspaces including the user's role, ordered by name
+   */
+  async findByUserId(userId: number): Promise<IWorkspace[]> {
+    try {
+      const result = await query(
+        `SELECT w.*, wm.role FROM workspaces w
+         JOIN workspace_members wm ON wm.workspace_id = w.workspace_id
+         WHERE wm.user_id = $1
+         ORDER BY w.name ASC`,
+        [userId]
+      );
+
+      return result.rows.map(Workspace.fromDatabaseRow);
+    } catch (error) {
+      console.error('Error in findByUserId:', error);
+      throw new ApiError('Error finding user workspaces', 500);
+    }
+  }
+
+  /**
+   * Create a new workspace with its creator as owner
+   * @param data Workspace data to create
+   * @returns Created workspace object
+   */
+  async create(data: IWorkspaceCreate): Promise<IWorkspace> {
+    try {
+      // Validate workspace data
+      Workspace.validateCreate(data);
+
+      return await transaction(async (client) => {
+        const result = await client.query(
+          `INSERT INTO workspaces (name, created_by)
+           VALUES ($1, $2)
+           RETURNING *`,
+          [data.name.trim(), data.created_by]
+        );
+
+        const workspace = result.rows[0];
+
+        await client.query(
+          `INSERT INTO workspace_members (workspace_id, user_id, role)
+           VALUES ($1, $2, $3)`,
+          [workspace.workspace_id, data.created_by, WorkspaceRole.OWNER]
+        );
+
+        return Workspace.fromDatabaseRow({ ...workspace, role: WorkspaceRole.OWNER });
+      });
+    } catch (error) {
+      if (error instanceof ApiError) {
+        throw error;
+      }
+      console.error('Error in create:', error);
+      throw new ApiError('Error creating workspace', 500);
+    }
+  }
+
+  /**
+   * Update an existing workspace
+   * @param id Workspace ID
+   * @param data Workspace data to update
+   * @returns Updated workspace object or null if not found
+   */
+  async update(id: number, data: IWorkspaceUpdate): Promise<IWorkspace | null> {
+    try {
+      // Validate update data
+      Workspace.validateUpdate(data);
+
+      const updates: string[] = [];
+      const values: any[] = [];
+      let paramCount = 1;
+
+      if (data.name !== undefined) {
+        updates.push(`name = $${paramCount++}`);
+        values.push(data.name.trim());
+      }
+
+      if (data.status_transitions !== undefined) {
+        updates.push(`status_transitions = $${paramCount++}`);
+        values.push(data.status_transitions === null ? null : JSON.stringify(data.status_transitions));
+      }
+
+      values.push(id);
+
+      const result = await query(
+        `UPDATE workspaces
+         SET ${updates.join(', ')}, updated_at = NOW()
+         WHERE workspace_id = $${paramCount}
+         RETURNING *`,
+        values
+      );
+
+      return result.rows.length > 0 ? Workspace.fromDatabaseRow(result.rows[0]) : null;
+    } catch (error) {
+      if (error instanceof ApiError) {
+        throw error;
+      }
+      console.error('Error in update:', error);
+      throw new ApiError('Error updating workspace', 500);
+    }
+  }
+
+  /**
+   * Delete a workspace together with its memberships, tasks and categories
+   * @param id Workspace ID
+   * @returns Boolean indicating if deletion was successful
+   */
+  async delete(id: number): Promise<boolean> {
+    try {
+      const result = await query(
+        `DELETE FROM workspaces WHERE workspace_id = $1`,
+        [id]
+      );
+
+      return result.rowCount !== null && result.rowCount > 0;
+    } catch (error) {
+      console.error('Error in delete:', error);
+      throw new ApiError('Error deleting workspace', 500);
+    }
+  }
+
+  /**
+   * Find all workspaces (optionally filtered)
+   * @param filter Optional filter criteria
+   * @returns Array of workspaces ordered by name
+   */
+  async findAll(filter?: Partial<IWorkspace>): Promise<IWorkspace[]> {
+    try {
+      let queryText = `SELECT * FROM workspaces`;
+      const values: any[] = [];
+
+      if (filter?.created_by !== undefined) {
+        queryText += ` WHERE created_by = $1`;
+        values.push(filter.created_by);
+      }
+
+      queryText += ` ORDER BY name ASC`;
+
+      const result = await query(queryText, values);
+
+      return result.rows.map(Workspace.fromDatabaseRow);
+    } catch (error) {
+      console.error('Error in findAll:', error);
+      throw new ApiError('Error finding workspaces', 500);
+    }
+  }
+
+  /**
+   * Find the members of a workspace
+   * @param workspaceId Workspace ID
+   * @returns Array of members, highest role first
+   */
+  async findMembers(workspaceId: number): Promise<IWorkspaceMember[]> {
+    try {
+      const result = await query(
+        `SELECT wm.*, u.username, u.email FROM workspace_members wm
+         JOIN users u ON u.user_id = wm.user_id
+         WHERE wm.workspace_id = $1
+         ORDER BY CASE wm.role
+           WHEN 'owner' THEN 1 WHEN 'admin' THEN 2 WHEN 'member' THEN 3 ELSE 4
+         END, u.username ASC`,
+        [workspaceId]
+      );
+
+      return result.rows.map(Workspace.memberFromDatabaseRow);
+    } catch (error) {
+      console.error('Error in findMembers:', error);
+      throw new ApiError('Error finding workspace members', 500);
+    }
+  }
+
+  /**
+   * Get the role of a user in a workspace
+   * @param workspaceId Workspace ID
+   * @param userId User ID
+   * @returns Role or null if the user is not a member
+   */
+  async getMemberRole(workspaceId: number, userId: number): Promise<WorkspaceRole | null> {
+    try {
+      const result = await query(
+        `SELECT role FROM workspace_members WHERE workspace_id = $1 AND user_id = $2`,
+        [workspaceId, userId]
+      );
+
+      return result.rows.length > 0 ? (result.rows[0].role as WorkspaceRole) : null;
+    } catch (error) {
+      console.error('Error in getMemberRole:', error);
+      throw new ApiError('Error finding workspace membership', 500);
+    }
+  }
+
+  /**
+   * Add a member to a workspace
+   * @param workspaceId Workspace ID
+   * @param userId User ID
+   * @param role Membership role
+   * @returns Added member
+   * @throws ApiError 409 if the user is already a member
+   */
+  async addMember(workspaceId: number, userId: number, role: WorkspaceRole): Promise<IWorkspaceMember> {
+    try {
+      Workspace.validateRole(role);
+
+      const result = await query(
+        `WITH inserted AS (
+           INSERT INTO workspace_members (workspace_id, user_id, role)
+           VALUES ($1, $2, $3)
+           RETURNING *
+         )
+         SELECT inserted.*, u.username, u.email FROM inserted
+         JOIN users u ON u.user_id = inserted.user_id`,
+        [workspaceId, userId, role]
+      );
+
+      return Workspace.memberFromDatabaseRow(result.rows[0]);
+    } catch (error) {
+      if (error instanceof ApiError) {
+        throw error;
+      }
+      if (isUniqueViolation(error)) {
+        throw ApiError.conflict('User is already a member of this workspace', 'ALREADY_MEMBER');
+      }
+      console.error('Error in addMember:', error);
+      throw new ApiError('Error adding workspace member', 500);
+    }
+  }
+
+  /**
+   * Change the role of a workspace member
+   * @param workspaceId Workspace ID
+   * @param userId User ID
+   * @param role New membership role
+   * @returns Updated member or null if the user is not a member
+   */
+  async updateMemberRole(
+    workspaceId: number,
+    userId: number,
+    role: WorkspaceRole
+  ): Promise<IWorkspaceMember | null> {
+    try {
+      Workspace.validateRole(role);
+
+      const result = await query(
+        `WITH updated AS (
+           UPDATE workspace_members
+           SET role = $3
+           WHERE workspace_id = $1 AND user_id = $2
+           RETURNING *
+         )
+         SELECT updated.*, u.username, u.email FROM updated
+         JOIN users u ON u.user_id = updated.user_id`,
+        [workspaceId, userId, role]
+      );
+
+      return result.rows.length > 0 ? Workspace.memberFromDatabaseRow(result.rows[0]) : null;
+    } catch (error) {
+      if (error instanceof ApiError) {
+        throw error;
+      }
+      console.error('Error in updateMemberRole:', error);
+      throw new ApiError('Error updating workspace member', 500);
+    }
+  }
+
+  /**
+   * Remove a member from a workspace along with their assignments to its tasks
+   * The removed assignments are recorded in the task history as system changes
+   * @param workspaceId Workspace ID
+   * @param userId User ID
+   * @returns Boolean indicating if the user was a member
+   */
+  async removeMember(workspaceId: number, userId: number): Promise<boolean> {
+    try {
+      return await transaction(async (client) => {
+        const result = await client.query(
+          `DELETE FROM workspace_members WHERE workspace_id = $1 AND user_id = $2`,
+          [workspaceId, userId]
+        );
+
+        await client.query(
+          `WITH removed AS (
+             DELETE FROM task_assignments ta
+             USING tasks t
+             WHERE t.task_id = ta.task_id AND t.workspace_id = $1 AND ta.user_id = $2
+             RETURNING ta.task_id, ta.user_id
+           )
+           INSERT INTO task_events (task_id, user_id, event_type, changes)
+           SELECT task_id, NULL, $3, jsonb_build_object('assignee', jsonb_build_object('from', user_id, 'to', NULL))
+           FROM removed`,
+          [workspaceId, userId, TaskEventType.UNASSIGNED]
+        );
+
+        return result.rowCount !== null && result.rowCount > 0;
+      });
+    } catch (error) {
+      console.error('Error in removeMember:', error);
+      throw new ApiError('Error removing workspace member', 500);
+    }
+  }
+}
@@ -54,6 +54,99 @@ router.post(
   UserController.login
 );
 
+/**
+ * @route   POST /api/auth/refresh-token
+ * @desc    Exchange a refresh token for a new access token and refresh token
+ * @access  Public
+ */
+router.post(
+  '/refresh-token',
+  [
+    body('refresh_token')
+      .isString()
+      .notEmpty()
+      .withMessage('Refresh token is required'),
+  ],
+  UserController.refreshToken
+);
+
+/**
+ * @route   POST /api/auth/logout
+ * @desc    Logout user by revoking the refresh token
+ * @access  Public
+ */
+router.post(
+  '/logout',
+  [
+    body('refresh_token')
+      .isString()
+      .notEmpty()
+      .withMessage('Refresh token is required'),
+  ],
+  UserController.logout
+);
+
+/**
+ * @route   POST /api/auth/forgot-password
+ * @desc    Email a password reset link
+ * @access  Public
+ */
+router.post(
+  '/forgot-password',
+  authRateLimiter, // Limit reset emails sent per client
+  [
+    body('email')
+      .isEmail()
+      .normalizeEmail()
+      .withMessage('Please include a valid email'),
+  ],
+  UserController.forgotPassword
+);
+
+/**
+ * @route   POST /api/auth/reset-password
+ * @desc    Set a new password using a reset token
+ * @access  Public
+ */
+router.post(
+  '/reset-password',
+  authRateLimiter, // Add rate limiting to prevent token guessing
+  [
+    body('token')
+      .isString()
+      .notEmpty()
+      .withMessage('Reset token is required'),
+    body('password')
+      .isLength({ min: 6 })
+      .withMessage('Password must be at least 6 characters'),
+  ],
+  validatePasswordStrength,
+  UserController.resetPassword
+);
+
+/**
+ * @route   POST /api/auth/verify-email
+ * @desc    Verify email address using the token from a verification link
+ * @access  Public
+ */
+router.post(
+  '/verify-email',
+  [
+    body('token')
+      .isString()
+      .notEmpty()
+      .withMessage('Verification token is required'),
+  ],
+  UserController.verifyEmail
+);
+
+/**
+ * @route   POST /api/auth/resend-verification
+ * @desc    Send a new email verification link to the current user
+ * @access  Private
+ */
+router.post('/resend-verification', protect, authRateLimiter, UserController.resendVerification);
+
 /**
  * @route   GET /api/auth/me
  * @desc    Get current user profile
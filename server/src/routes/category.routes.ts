@@ -1,27 +1,107 @@
 import { Router } from 'express';
+import { body, param, query } from 'express-validator';
+import { CategoryController } from '../controllers/category.controller';
 import { protect } from '../middlewares/auth.middleware';
 
 const router = Router();
 
-// Category routes - will be implemented with actual controllers later
-router.get('/', protect, (req, res) => {
-  res.status(200).json({ message: 'Get all categories' });
-});
+/**
+ * @route   GET /api/categories
+ * @desc    Get all categories of the current user and their workspaces
+ * @access  Private
+ */
+router.get(
+  '/',
+  protect,
+  query('workspace_id').optional().isInt().withMessage('Workspace ID must be an integer'),
+  CategoryController.getAllCategories
+);
 
-router.get('/:id', protect, (req, res) => {
-  res.status(200).json({ message: `Get category with id ${req.params.id}` });
-});
+/**
+ * @route   GET /api/categories/:id
+ * @desc    Get category by ID
+ * @access  Private
+ */
+router.get(
+  '/:id',
+  protect,
+  param('id').isInt().withMessage('Category ID must be an integer'),
+  CategoryController.getCategoryById
+);
 
-router.post('/', protect, (req, res) => {
-  res.status(201).json({ message: 'Create new category', data: req.body });
-});
+/**
+ * @route   POST /api/categories
+ * @desc    Create a new category
+ * @access  Private
+ */
+router.post(
+  '/',
+  protect,
+  [
+    body('name')
+      .trim()
+      .notEmpty()
+      .withMessage('Name is required')
+      .isLength({ max: 50 })
+      .withMessage('Name must be 50 characters or less'),
+    body('workspace_id')
+      .optional()
+      .isInt()
+      .withMessage('Workspace ID must be an integer')
+      .toInt(),
+    body('color')
+      .optional()
+      .matches(/^#[0-9A-Fa-f]{6}$/)
+      .withMessage('Color must be a hex color like #3B82F6'),
+    body('icon')
+      .optional()
+      .isString()
+      .isLength({ max: 50 })
+      .withMessage('Icon must be 50 characters or less')
+  ],
+  CategoryController.createCategory
+);
 
-router.put('/:id', protect, (req, res) => {
-  res.status(200).json({ message: `Update category with id ${req.params.id}`, data: req.body });
-});
+/**
+ * @route   PUT /api/categories/:id
+ * @desc    Update a category
+ * @access  Private
+ */
+router.put(
+  '/:id',
+  protect,
+  [
+    param('id').isInt().withMessage('Category ID must be an integer'),
+    body('name')
+      .optional()
+      .trim()
+      .notEmpty()
+      .withMessage('Name cannot be empty')
+      .isLength({ max: 50 })
+      .withMessage('Name must be 50 characters or less'),
+    body('color')
+      .optional()
+      .matches(/^#[0-9A-Fa-f]{6}$/)
+      .withMessage('Color must be a hex color like #3B82F6'),
+    body('icon')
+      .optional({ values: 'null' })
+      .isString()
+      .isLength({ max: 50 })
+      .withMessage('Icon must be 50 characters or less')
+  ],
+  CategoryController.updateCategory
+);
 
-router.delete('/:id', protect, (req, res) => {
-  res.status(200).json({ message: `Delete category with id ${req.params.id}` });
-});
+/**
+ * @route   DELETE /api/categories/:id
+ * @desc    Delete a category
+ * @access  Private
+ */
+router.delete(
+  '/:id',
+  protect,
+  param('id').isInt().withMessage('Category ID must be an integer'),
+  CategoryController.deleteCategory
+);
 
-export default router;
\ No newline at end of file
+export default router;
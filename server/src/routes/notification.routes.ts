@@ -0,0 +1,80 @@
+import { Router } from 'express';
+import { body, param, query } from 'express-validator';
+import { NotificationController } from '../controllers/notification.controller';
+import { protect } from '../middlewares/auth.middleware';
+import { NotificationChannel } from '../interfaces/notification.interface';
+import { Notification } from '../models/notification.model';
+
+const router = Router();
+
+/**
+ * @route   GET /api/notifications
+ * @desc    Get the current user's notifications, newest first, with the unread count
+ * @access  Private
+ */
+router.get(
+  '/',
+  protect,
+  [
+    query('unread').optional().isIn(['true', 'false']).withMessage('Unread must be true or false'),
+    query('limit')
+      .optional()
+      .isInt({ min: 1, max: Notification.MAX_PAGE_SIZE })
+      .withMessage(`Limit must be between 1 and ${Notification.MAX_PAGE_SIZE}`),
+    query('before').optional().isInt({ min: 1 }).withMessage('Before must be a notification ID')
+  ],
+  NotificationController.getNotifications
+);
+
+/**
+ * @route   POST /api/notifications/read-all
+ * @desc    Mark all of the current user's notifications as read
+ * @access  Private
+ */
+router.post('/read-all', protect, NotificationController.markAllRead);
+
+/**
+ * @route   GET /api/notifications/preferences
+ * @desc    Get the current user's notification preferences
+ * @access  Private
+ */
+router.get('/preferences', protect, NotificationController.getPreferences);
+
+/**
+ * @route   PATCH /api/notifications/preferences
+ * @desc    Update the current user's notification preferences
+ * @access  Private
+ */
+router.patch(
+  '/preferences',
+  protect,
+  [
+    body('preferences')
+      .isArray({ min: 1 })
+      .withMessage('Preferences must be a non-empty array'),
+    body('preferences.*.type')
+      .isIn([...Notification.CONFIGURABLE_TYPES])
+      .withMessage(`Type must be among: ${Notification.CONFIGURABLE_TYPES.join(', ')}`),
+    body('preferences.*.channel')
+      .isIn(Object.values(NotificationChannel))
+      .withMessage(`Channel must be among: ${Object.values(NotificationChannel).join(', ')}`),
+    body('preferences.*.enabled')
+      .isBoolean({ strict: true })
+      .withMessage('Enabled must be a boolean')
+  ],
+  NotificationController.updatePreferences
+);
+
+/**
+ * @route   PATCH /api/notifications/:id/read
+ * @desc    Mark one of the current user's notifications as read
+ * @access  Private
+ */
+router.patch(
+  '/:id/read',
+  protect,
+  param('id').isInt().withMessage('Notification ID must be an integer'),
+  NotificationController.markRead
+);
+
+export default router;
@@ -1,27 +1,90 @@
 import { Router } from 'express';
-import { protect } from '../middlewares/auth.middleware';
+import { body, param } from 'express-validator';
+import { PriorityController } from '../controllers/priority.controller';
+import { protect, authorize } from '../middlewares/auth.middleware';
 
 const router = Router();
 
-// Priority routes - will be implemented with actual controllers later
-router.get('/', protect, (req, res) => {
-  res.status(200).json({ message: 'Get all priorities' });
-});
+/**
+ * @route   GET /api/priorities
+ * @desc    Get all priorities ordered by rank (highest first)
+ * @access  Private
+ */
+router.get('/', protect, PriorityController.getAllPriorities);
 
-router.get('/:id', protect, (req, res) => {
-  res.status(200).json({ message: `Get priority with id ${req.params.id}` });
-});
+/**
+ * @route   GET /api/priorities/:id
+ * @desc    Get priority by ID
+ * @access  Private
+ */
+router.get(
+  '/:id',
+  protect,
+  param('id').isInt().withMessage('Priority ID must be an integer'),
+  PriorityController.getPriorityById
+);
 
-router.post('/', protect, (req, res) => {
-  res.status(201).json({ message: 'Create new priority', data: req.body });
-});
+/**
+ * @route   POST /api/priorities
+ * @desc    Create a new priority
+ * @access  Private/Admin
+ */
+router.post(
+  '/',
+  protect,
+  authorize('admin'),
+  [
+    body('name')
+      .trim()
+      .notEmpty()
+      .withMessage('Name is required')
+      .isLength({ max: 20 })
+      .withMessage('Name must be 20 characters or less'),
+    body('rank')
+      .optional()
+      .isInt({ min: 0 })
+      .withMessage('Rank must be a non-negative integer')
+  ],
+  PriorityController.createPriority
+);
 
-router.put('/:id', protect, (req, res) => {
-  res.status(200).json({ message: `Update priority with id ${req.params.id}`, data: req.body });
-});
+/**
+ * @route   PUT /api/priorities/:id
+ * @desc    Rename or re-rank a priority
+ * @access  Private/Admin
+ */
+router.put(
+  '/:id',
+  protect,
+  authorize('admin'),
+  [
+    param('id').isInt().withMessage('Priority ID must be an integer'),
+    body('name')
+      .optional()
+      .trim()
+      .notEmpty()
+      .withMessage('Name cannot be empty')
+      .isLength({ max: 20 })
+      .withMessage('Name must be 20 characters or less'),
+    body('rank')
+      .optional()
+      .isInt({ min: 0 })
+      .withMessage('Rank must be a non-negative integer')
+  ],
+  PriorityController.updatePriority
+);
 
-router.delete('/:id', protect, (req, res) => {
-  res.status(200).json({ message: `Delete priority with id ${req.params.id}` });
-});
+/**
+ * @route   DELETE /api/priorities/:id
+ * @desc    Delete a priority
+ * @access  Private/Admin
+ */
+router.delete(
+  '/:id',
+  protect,
+  authorize('admin'),
+  param('id').isInt().withMessage('Priority ID must be an integer'),
+  PriorityController.deletePriority
+);
 
-export default router;
\ No newline at end of file
+export default router;
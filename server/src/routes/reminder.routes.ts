@@ -0,0 +1,49 @@
+import { Router } from 'express';
+import { body } from 'express-validator';
+import { ReminderController } from '../controllers/reminder.controller';
+import { protect } from '../middlewares/auth.middleware';
+import { ReminderChannel } from '../interfaces/reminder.interface';
+import { Reminder } from '../models/reminder.model';
+
+const router = Router();
+
+/**
+ * @route   GET /api/reminders/settings
+ * @desc    Get the current user's reminder defaults
+ * @access  Private
+ */
+router.get('/settings', protect, ReminderController.getSettings);
+
+/**
+ * @route   PATCH /api/reminders/settings
+ * @desc    Update the current user's reminder defaults
+ * @access  Private
+ */
+router.patch(
+  '/settings',
+  protect,
+  [
+    body('default_offsets')
+      .optional()
+      .isArray({ max: Reminder.MAX_DEFAULT_OFFSETS })
+      .withMessage(`Default offsets must be an array of at most ${Reminder.MAX_DEFAULT_OFFSETS} offsets`),
+    body('default_offsets.*')
+      .isInt({ min: 0, max: Reminder.MAX_OFFSET_MINUTES })
+      .withMessage(`Offsets must be between 0 and ${Reminder.MAX_OFFSET_MINUTES} minutes`)
+      .toInt(),
+    body('default_channels')
+      .optional()
+      .isArray({ min: 1 })
+      .withMessage('Default channels must be a non-empty array'),
+    body('default_channels.*')
+      .isIn(Object.values(ReminderChannel))
+      .withMessage(`Channels must be among: ${Object.values(ReminderChannel).join(', ')}`),
+    body('webhook_url')
+      .optional({ values: 'null' })
+      .isURL({ protocols: ['http', 'https'], require_protocol: true, require_tld: false })
+      .withMessage('Webhook URL must be an http or https URL')
+  ],
+  ReminderController.updateSettings
+);
+
+export default router;
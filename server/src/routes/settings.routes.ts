@@ -0,0 +1,33 @@
+import { Router } from 'express';
+import { body } from 'express-validator';
+import { SettingsController } from '../controllers/settings.controller';
+import { protect, authorize } from '../middlewares/auth.middleware';
+
+const router = Router();
+
+/**
+ * @route   GET /api/settings
+ * @desc    Get application settings
+ * @access  Private/Admin
+ */
+router.get('/', protect, authorize('admin'), SettingsController.getSettings);
+
+/**
+ * @route   PATCH /api/settings
+ * @desc    Update application settings
+ * @access  Private/Admin
+ */
+router.patch(
+  '/',
+  protect,
+  authorize('admin'),
+  [
+    body('require_verified_email_for_tasks')
+      .optional()
+      .isBoolean({ strict: true })
+      .withMessage('require_verified_email_for_tasks must be a boolean'),
+  ],
+  SettingsController.updateSettings
+);
+
+export default router;
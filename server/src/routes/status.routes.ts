@@ -0,0 +1,103 @@
+import { Router } from 'express';
+import { body, param, query } from 'express-validator';
+import { StatusController } from '../controllers/status.controller';
+import { protect } from '../middlewares/auth.middleware';
+import { StatusCategory } from '../interfaces/status.interface';
+import { Status } from '../models/status.model';
+
+const router = Router();
+
+/**
+ * @route   GET /api/statuses
+ * @desc    Get the built-in statuses, plus the statuses of a workspace
+ * @access  Private
+ */
+router.get(
+  '/',
+  protect,
+  query('workspace_id').optional().isInt().withMessage('Workspace ID must be an integer'),
+  StatusController.getStatuses
+);
+
+/**
+ * @route   POST /api/statuses
+ * @desc    Create a workspace status
+ * @access  Private (workspace owner or admin)
+ */
+router.post(
+  '/',
+  protect,
+  [
+    body('workspace_id')
+      .isInt()
+      .withMessage('Workspace ID must be an integer')
+      .toInt(),
+    body('name')
+      .trim()
+      .notEmpty()
+      .withMessage('Name is required')
+      .isLength({ max: 50 })
+      .withMessage('Name must be 50 characters or less'),
+    body('category')
+      .isIn(Object.values(StatusCategory))
+      .withMessage(`Category must be one of: ${Object.values(StatusCategory).join(', ')}`),
+    body('key')
+      .optional()
+      .matches(Status.KEY_PATTERN)
+      .withMessage('Key must start with a letter and contain at most 30 lowercase letters, digits or underscores'),
+    body('position')
+      .optional()
+      .isInt({ min: 0 })
+      .withMessage('Position must be a non-negative integer')
+      .toInt(),
+    body('color')
+      .optional()
+      .matches(/^#[0-9A-Fa-f]{6}$/)
+      .withMessage('Color must be a hex color like #3B82F6')
+  ],
+  StatusController.createStatus
+);
+
+/**
+ * @route   PUT /api/statuses/:id
+ * @desc    Update a workspace status
+ * @access  Private (workspace owner or admin)
+ */
+router.put(
+  '/:id',
+  protect,
+  [
+    param('id').isInt().withMessage('Status ID must be an integer'),
+    body('name')
+      .optional()
+      .trim()
+      .notEmpty()
+      .withMessage('Name cannot be empty')
+      .isLength({ max: 50 })
+      .withMessage('Name must be 50 characters or less'),
+    body('position')
+      .optional()
+      .isInt({ min: 0 })
+      .withMessage('Position must be a non-negative integer')
+      .toInt(),
+    body('color')
+      .optional()
+      .matches(/^#[0-9A-Fa-f]{6}$/)
+      .withMessage('Color must be a hex color like #3B82F6')
+  ],
+  StatusController.updateStatus
+);
+
+/**
+ * @route   DELETE /api/statuses/:id
+ * @desc    Delete a workspace status no task is in
+ * @access  Private (workspace owner or admin)
+ */
+router.delete(
+  '/:id',
+  protect,
+  param('id').isInt().withMessage('Status ID must be an integer'),
+  StatusController.deleteStatus
+);
+
+export default router;
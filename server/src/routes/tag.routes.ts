@@ -0,0 +1,70 @@
+import { Router } from 'express';
+import { body, param, query } from 'express-validator';
+import { TagController } from '../controllers/tag.controller';
+import { protect } from '../middlewares/auth.middleware';
+import { Tag } from '../models/tag.model';
+
+const router = Router();
+
+/**
+ * @route   GET /api/tags
+ * @desc    Get the tags of the current user and their workspaces with task counts; ?prefix= for autocomplete
+ * @access  Private
+ */
+router.get(
+  '/',
+  protect,
+  [
+    query('prefix').optional().isString().isLength({ max: Tag.MAX_NAME_LENGTH }).withMessage(`Prefix must be ${Tag.MAX_NAME_LENGTH} characters or less`),
+    query('workspace_id').optional().isInt().withMessage('Workspace ID must be an integer'),
+    query('limit').optional().isInt({ min: 1, max: Tag.MAX_LIMIT }).withMessage(`Limit must be between 1 and ${Tag.MAX_LIMIT}`)
+  ],
+  TagController.getAllTags
+);
+
+/**
+ * @route   PUT /api/tags/:id
+ * @desc    Rename a tag
+ * @access  Private
+ */
+router.put(
+  '/:id',
+  protect,
+  [
+    param('id').isInt().withMessage('Tag ID must be an integer'),
+    body('name').custom((value: unknown) => {
+      Tag.normalizeName(value);
+      return true;
+    })
+  ],
+  TagController.renameTag
+);
+
+/**
+ * @route   POST /api/tags/:id/merge
+ * @desc    Merge a tag into another tag of the same workspace; tasks carrying it get the other tag
+ * @access  Private
+ */
+router.post(
+  '/:id/merge',
+  protect,
+  [
+    param('id').isInt().withMessage('Tag ID must be an integer'),
+    body('target_id').isInt().withMessage('Target tag ID must be an integer').toInt()
+  ],
+  TagController.mergeTags
+);
+
+/**
+ * @route   DELETE /api/tags/:id
+ * @desc    Delete a tag
+ * @access  Private
+ */
+router.delete(
+  '/:id',
+  protect,
+  param('id').isInt().withMessage('Tag ID must be an integer'),
+  TagController.deleteTag
+);
+
+export default router;
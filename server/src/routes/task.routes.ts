@@ -1,8 +1,21 @@
 import express from 'express';
-import { body, param, query } from 'express-validator';
+import { ValidationChain, body, param, query } from 'express-validator';
 import { TaskController } from '../controllers/task.controller';
 import { protect } from '../middlewares/auth.middleware';
-import { TaskStatus } from '../interfaces/task.interface';
+import { uploadSingleFile } from '../middlewares/upload.middleware';
+import { ReminderChannel } from '../interfaces/reminder.interface';
+import { SubtaskCompletion } from '../interfaces/task.interface';
+import { RecurrenceScope } from '../interfaces/taskSeries.interface';
+import { ChecklistItem } from '../models/checklistItem.model';
+import { Recurrence } from '../models/recurrence.model';
+import { Reminder } from '../models/reminder.model';
+import { Status } from '../models/status.model';
+import { Tag } from '../models/tag.model';
+import { Task } from '../models/task.model';
+import { TaskComment } from '../models/taskComment.model';
+import { TaskDependency } from '../models/taskDependency.model';
+import { TaskFilter } from '../models/taskFilter.model';
+import { TaskWorkflow } from '../models/taskWorkflow.model';
 
 const router = express.Router();
 
@@ -32,20 +45,111 @@ router.get(
 );
 
 /**
- * @route   GET /api/tasks
- * @desc    Get all tasks for current user with optional filtering
+ * Validators of the filter parameters of task listings, found in the query string
+ * of listings and in the filter of bulk operations
+ * @param field Builds the validation chain of a parameter
+ * @returns Validators of every filter parameter
+ */
+const taskFilterValidators = (field: (name: string) => ValidationChain): ValidationChain[] => [
+  field('workspace_id').optional().isInt().withMessage('Workspace ID must be an integer'),
+  field('category_id').optional().isString().custom((value: string) => {
+    TaskFilter.fromIdList('category_id', value);
+    return true;
+  }),
+  field('priority_id').optional().isString().custom((value: string) => {
+    TaskFilter.fromIdList('priority_id', value);
+    return true;
+  }),
+  field('status').optional().isString().custom((value: string) => {
+    TaskFilter.fromStatusList(value);
+    return true;
+  }),
+  field('search').optional().isString().withMessage('Search term must be a string'),
+  field('tags').optional().isString().custom((value: string) => {
+    Tag.parseList(value);
+    return true;
+  }),
+  field('tags_match').optional().isIn(['any', 'all']).withMessage('Tags match must be either any or all'),
+  field('due_date').optional().isISO8601().withMessage('Due date must be a valid date'),
+  field('due_before').optional().isISO8601().withMessage('Due before must be a valid date'),
+  field('due_after').optional().isISO8601().withMessage('Due after must be a valid date'),
+  field('created_since').optional().isISO8601().withMessage('Created since must be a valid date'),
+  field('has_due_date').optional().isIn(['true', 'false']).withMessage('Has due date must be true or false'),
+  field('filter').optional().isString().custom((value: string) => {
+    TaskFilter.parse(value);
+    return true;
+  }),
+  field('archived').optional().isIn(['true', 'false']).withMessage('Archived must be true or false')
+];
+
+/**
+ * Query validators shared by task listings
+ */
+const taskQueryValidators = [
+  ...taskFilterValidators(query),
+  query('sort_by').optional().isIn(Task.SORT_FIELDS).withMessage(`Sort by must be one of: ${Task.SORT_FIELDS.join(', ')}`),
+  query('sort_order').optional().isIn(['asc', 'desc']).withMessage('Sort order must be either asc or desc'),
+  query('sort').optional().isString().custom((value: string) => {
+    Task.parseSort(value);
+    return true;
+  })
+];
+
+/**
+ * Query validators for paginated task listings
+ */
+const taskPageValidators = [
+  query('limit').optional().isInt({ min: 1, max: Task.MAX_PAGE_SIZE }).withMessage(`Limit must be between 1 and ${Task.MAX_PAGE_SIZE}`),
+  query('cursor').optional().isString().notEmpty().withMessage('Cursor must be a non-empty string'),
+  query('fields').optional().isString().custom((value: string) => {
+    Task.parseFields(value);
+    return true;
+  })
+];
+
+/**
+ * @route   GET /api/tasks/assigned
+ * @desc    Get tasks assigned to current user with optional filtering
  * @access  Private
  */
 router.get(
-  '/',
+  '/assigned',
+  protect,
+  taskQueryValidators,
+  TaskController.getAssignedTasks
+);
+
+/**
+ * @route   GET /api/tasks/search
+ * @desc    Full-text search tasks for current user, ranked by relevance with highlighted matches
+ * @access  Private
+ */
+router.get(
+  '/search',
   protect,
   [
-    query('category_id').optional().isInt().withMessage('Category ID must be an integer'),
-    query('priority_id').optional().isInt().withMessage('Priority ID must be an integer'),
-    query('status').optional().isIn(Object.values(TaskStatus)).withMessage(`Status must be one of: ${Object.values(TaskStatus).join(', ')}`),
-    query('search').optional().isString().withMessage('Search term must be a string'),
-    query('due_date').optional().isISO8601().withMessage('Due date must be a valid date')
+    query('q')
+      .trim()
+      .notEmpty()
+      .withMessage('Search query is required')
+      .isLength({ max: 200 })
+      .withMessage('Search query must be 200 characters or less'),
+    query('limit').optional().isInt({ min: 1, max: Task.MAX_PAGE_SIZE }).withMessage(`Limit must be between 1 and ${Task.MAX_PAGE_SIZE}`)
   ],
+  taskQueryValidators,
+  TaskController.searchTasks
+);
+
+/**
+ * @route   GET /api/tasks
+ * @desc    Get a page of tasks for current user with optional filtering, sorting and field selection
+ * @access  Private
+ */
+router.get(
+  '/',
+  protect,
+  taskQueryValidators,
+  taskPageValidators,
   TaskController.getAllTasks
 );
 
@@ -61,6 +165,30 @@ router.get(
   TaskController.getTaskById
 );
 
+/**
+ * @route   GET /api/tasks/:id/history
+ * @desc    Get the activity history of a task
+ * @access  Private
+ */
+router.get(
+  '/:id/history',
+  protect,
+  param('id').isInt().withMessage('Task ID must be an integer'),
+  TaskController.getTaskHistory
+);
+
+/**
+ * @route   GET /api/tasks/:id/subtasks
+ * @desc    Get the direct subtasks of a task
+ * @access  Private
+ */
+router.get(
+  '/:id/subtasks',
+  protect,
+  param('id').isInt().withMessage('Task ID must be an integer'),
+  TaskController.getSubtasks
+);
+
 /**
  * @route   POST /api/tasks
  * @desc    Create a new task
@@ -79,6 +207,16 @@ router.post(
       .optional()
       .isString()
       .withMessage('Description must be a string'),
+    body('workspace_id')
+      .optional()
+      .isInt()
+      .withMessage('Workspace ID must be an integer')
+      .toInt(),
+    body('parent_task_id')
+      .optional()
+      .isInt()
+      .withMessage('Parent task ID must be an integer')
+      .toInt(),
     body('category_id')
       .optional()
       .isInt()
@@ -90,14 +228,110 @@ router.post(
     body('due_date')
       .optional()
       .isISO8601()
-      .withMessage('Due date must be a valid date')
+      .withMessage('Due date must be a valid date'),
+    body('recurrence').optional().custom((value: unknown) => {
+      Recurrence.validate(value);
+      return true;
+    }),
+    body('tags').optional().custom((value: unknown) => {
+      Tag.normalizeNames(value);
+      return true;
+    })
   ],
   TaskController.createTask
 );
 
+/**
+ * @route   POST /api/tasks/bulk
+ * @desc    Apply one operation in a single transaction to the tasks listed in task_ids, or to the tasks
+ *          matching filter (the parameters of task listings): update (fields), change_status (status, reason,
+ *          subtasks, force), delete, archive, unarchive or assign (user_id). Each task is checked like its
+ *          single-task operation and gets its own result
+ * @access  Private
+ */
+router.post(
+  '/bulk',
+  protect,
+  [
+    body('task_ids')
+      .optional()
+      .isArray({ min: 1, max: Task.MAX_BULK_SIZE })
+      .withMessage(`Task IDs must be a list of 1 to ${Task.MAX_BULK_SIZE} IDs`),
+    body('task_ids.*').isInt({ min: 1 }).withMessage('Task IDs must be integers').toInt(),
+    body('filter').optional().isObject().withMessage('Filter must be an object'),
+    ...taskFilterValidators((name) => body(`filter.${name}`)),
+    body().custom((value: Record<string, unknown>) => {
+      if ((value.task_ids === undefined) === (value.filter === undefined)) {
+        throw new Error('Either task IDs or a filter is required');
+      }
+      return true;
+    }),
+    body('operation')
+      .isIn(Task.BULK_OPERATIONS)
+      .withMessage(`Operation must be one of: ${Task.BULK_OPERATIONS.join(', ')}`),
+    body('fields')
+      .if(body('operation').equals('update'))
+      .isObject()
+      .withMessage('Fields are required for updates')
+      .custom((value: Record<string, unknown>) => {
+        const keys = Object.keys(value);
+        if (keys.length === 0 || keys.some(key => !(Task.BULK_UPDATE_FIELDS as string[]).includes(key))) {
+          throw new Error(`Fields must set some of: ${Task.BULK_UPDATE_FIELDS.join(', ')}`);
+        }
+        return true;
+      }),
+    body('fields.category_id')
+      .optional()
+      .isInt()
+      .withMessage('Category ID must be an integer'),
+    body('fields.priority_id')
+      .optional()
+      .isInt()
+      .withMessage('Priority ID must be an integer'),
+    body('fields.due_date')
+      .optional()
+      .isISO8601()
+      .withMessage('Due date must be a valid date'),
+    body('fields.tags').optional().custom((value: unknown) => {
+      Tag.normalizeNames(value);
+      return true;
+    }),
+    body('status')
+      .if(body('operation').equals('change_status'))
+      .notEmpty()
+      .withMessage('Status is required')
+      .matches(Status.KEY_PATTERN)
+      .withMessage('Status must be a valid status key'),
+    body('reason')
+      .optional({ nullable: true })
+      .isString()
+      .withMessage('Reason must be a string')
+      .trim()
+      .isLength({ max: TaskWorkflow.MAX_REASON_LENGTH })
+      .withMessage(`Reason must be ${TaskWorkflow.MAX_REASON_LENGTH} characters or less`),
+    body('subtasks')
+      .optional()
+      .isIn(Object.values(SubtaskCompletion))
+      .withMessage(`Subtasks must be one of: ${Object.values(SubtaskCompletion).join(', ')}`),
+    body('force')
+      .optional()
+      .isBoolean({ strict: true })
+      .withMessage('Force must be a boolean')
+      .toBoolean(true),
+    body('user_id')
+      .if(body('operation').equals('assign'))
+      .notEmpty()
+      .withMessage('User ID is required')
+      .isInt()
+      .withMessage('User ID must be an integer')
+      .toInt()
+  ],
+  TaskController.bulkUpdateTasks
+);
+
 /**
  * @route   PUT /api/tasks/:id
- * @desc    Update a task
+ * @desc    Update a task; ?scope=future also applies the edit to later occurrences of a recurring task
  * @access  Private
  */
 router.put(
@@ -129,8 +363,25 @@ router.put(
       .withMessage('Due date must be a valid date'),
     body('status')
       .optional()
-      .isIn(Object.values(TaskStatus))
-      .withMessage(`Status must be one of: ${Object.values(TaskStatus).join(', ')}`)
+      .matches(Status.KEY_PATTERN)
+      .withMessage('Status must be a valid status key'),
+    body('recurrence').optional({ nullable: true }).custom((value: unknown) => {
+      Recurrence.validate(value);
+      return true;
+    }),
+    body('parent_task_id')
+      .optional({ nullable: true })
+      .isInt()
+      .withMessage('Parent task ID must be an integer')
+      .toInt(),
+    body('tags').optional().custom((value: unknown) => {
+      Tag.normalizeNames(value);
+      return true;
+    }),
+    query('scope')
+      .optional()
+      .isIn(Object.values(RecurrenceScope))
+      .withMessage(`Scope must be one of: ${Object.values(RecurrenceScope).join(', ')}`)
   ],
   TaskController.updateTask
 );
@@ -149,7 +400,9 @@ router.delete(
 
 /**
  * @route   PATCH /api/tasks/:id/status
- * @desc    Update task status
+ * @desc    Update task status along the workflow, with an optional reason when cancelling;
+ *          subtasks=cascade completes the open subtasks with the task instead of rejecting the change,
+ *          force=true starts or completes the task even while tasks blocking it or its cascaded subtasks are open
  * @access  Private
  */
 router.patch(
@@ -160,10 +413,407 @@ router.patch(
     body('status')
       .notEmpty()
       .withMessage('Status is required')
-      .isIn(Object.values(TaskStatus))
-      .withMessage(`Status must be one of: ${Object.values(TaskStatus).join(', ')}`)
+      .matches(Status.KEY_PATTERN)
+      .withMessage('Status must be a valid status key'),
+    body('reason')
+      .optional({ nullable: true })
+      .isString()
+      .withMessage('Reason must be a string')
+      .trim()
+      .isLength({ max: TaskWorkflow.MAX_REASON_LENGTH })
+      .withMessage(`Reason must be ${TaskWorkflow.MAX_REASON_LENGTH} characters or less`),
+    body('subtasks')
+      .optional()
+      .isIn(Object.values(SubtaskCompletion))
+      .withMessage(`Subtasks must be one of: ${Object.values(SubtaskCompletion).join(', ')}`),
+    body('force')
+      .optional()
+      .isBoolean({ strict: true })
+      .withMessage('Force must be a boolean')
+      .toBoolean(true)
   ],
   TaskController.updateTaskStatus
 );
 
+/**
+ * @route   POST /api/tasks/:id/assignees
+ * @desc    Assign a user to a task
+ * @access  Private (task owner)
+ */
+router.post(
+  '/:id/assignees',
+  protect,
+  [
+    param('id').isInt().withMessage('Task ID must be an integer'),
+    body('user_id')
+      .notEmpty()
+      .withMessage('User ID is required')
+      .isInt()
+      .withMessage('User ID must be an integer')
+  ],
+  TaskController.assignUser
+);
+
+/**
+ * @route   DELETE /api/tasks/:id/assignees/:userId
+ * @desc    Remove a user from a task
+ * @access  Private (task owner, or the assignee themselves)
+ */
+router.delete(
+  '/:id/assignees/:userId',
+  protect,
+  [
+    param('id').isInt().withMessage('Task ID must be an integer'),
+    param('userId').isInt().withMessage('User ID must be an integer')
+  ],
+  TaskController.unassignUser
+);
+
+/**
+ * @route   GET /api/tasks/:id/reminders
+ * @desc    Get the current user's reminders on a task
+ * @access  Private
+ */
+router.get(
+  '/:id/reminders',
+  protect,
+  param('id').isInt().withMessage('Task ID must be an integer'),
+  TaskController.getTaskReminders
+);
+
+/**
+ * @route   POST /api/tasks/:id/reminders
+ * @desc    Add a reminder for the current user, at a time or a number of minutes before the due date
+ * @access  Private
+ */
+router.post(
+  '/:id/reminders',
+  protect,
+  [
+    param('id').isInt().withMessage('Task ID must be an integer'),
+    body('remind_at')
+      .optional()
+      .isISO8601()
+      .withMessage('Reminder time must be a valid date'),
+    body('offset_minutes')
+      .optional()
+      .isInt({ min: 0, max: Reminder.MAX_OFFSET_MINUTES })
+      .withMessage(`Offset must be between 0 and ${Reminder.MAX_OFFSET_MINUTES} minutes`),
+    body('channels')
+      .optional()
+      .isArray({ min: 1 })
+      .withMessage('Channels must be a non-empty array'),
+    body('channels.*')
+      .isIn(Object.values(ReminderChannel))
+      .withMessage(`Channels must be among: ${Object.values(ReminderChannel).join(', ')}`)
+  ],
+  TaskController.addTaskReminder
+);
+
+/**
+ * @route   DELETE /api/tasks/:id/reminders/:reminderId
+ * @desc    Delete one of the current user's reminders on a task
+ * @access  Private
+ */
+router.delete(
+  '/:id/reminders/:reminderId',
+  protect,
+  [
+    param('id').isInt().withMessage('Task ID must be an integer'),
+    param('reminderId').isInt().withMessage('Reminder ID must be an integer')
+  ],
+  TaskController.deleteTaskReminder
+);
+
+/**
+ * @route   GET /api/tasks/:id/checklist
+ * @desc    Get the checklist of a task
+ * @access  Private
+ */
+router.get(
+  '/:id/checklist',
+  protect,
+  param('id').isInt().withMessage('Task ID must be an integer'),
+  TaskController.getChecklist
+);
+
+/**
+ * @route   POST /api/tasks/:id/checklist
+ * @desc    Add an item to the checklist of a task, at the end unless a position is given
+ * @access  Private
+ */
+router.post(
+  '/:id/checklist',
+  protect,
+  [
+    param('id').isInt().withMessage('Task ID must be an integer'),
+    body('content')
+      .isString()
+      .withMessage('Content is required')
+      .trim()
+      .notEmpty()
+      .withMessage('Content is required')
+      .isLength({ max: ChecklistItem.MAX_CONTENT_LENGTH })
+      .withMessage(`Content must be ${ChecklistItem.MAX_CONTENT_LENGTH} characters or less`),
+    body('position')
+      .optional()
+      .isInt({ min: 0 })
+      .withMessage('Position must be a non-negative integer')
+      .toInt()
+  ],
+  TaskController.addChecklistItem
+);
+
+/**
+ * @route   PATCH /api/tasks/:id/checklist/:itemId
+ * @desc    Update an item of a task's checklist; assignees can tick items off
+ * @access  Private
+ */
+router.patch(
+  '/:id/checklist/:itemId',
+  protect,
+  [
+    param('id').isInt().withMessage('Task ID must be an integer'),
+    param('itemId').isInt().withMessage('Checklist item ID must be an integer'),
+    body('content')
+      .optional()
+      .isString()
+      .withMessage('Content must be a string')
+      .trim()
+      .notEmpty()
+      .withMessage('Content cannot be empty')
+      .isLength({ max: ChecklistItem.MAX_CONTENT_LENGTH })
+      .withMessage(`Content must be ${ChecklistItem.MAX_CONTENT_LENGTH} characters or less`),
+    body('is_done')
+      .optional()
+      .isBoolean({ strict: true })
+      .withMessage('Done must be a boolean'),
+    body('position')
+      .optional()
+      .isInt({ min: 0 })
+      .withMessage('Position must be a non-negative integer')
+      .toInt()
+  ],
+  TaskController.updateChecklistItem
+);
+
+/**
+ * @route   DELETE /api/tasks/:id/checklist/:itemId
+ * @desc    Delete an item of a task's checklist
+ * @access  Private
+ */
+router.delete(
+  '/:id/checklist/:itemId',
+  protect,
+  [
+    param('id').isInt().withMessage('Task ID must be an integer'),
+    param('itemId').isInt().withMessage('Checklist item ID must be an integer')
+  ],
+  TaskController.deleteChecklistItem
+);
+
+/**
+ * @route   GET /api/tasks/:id/graph
+ * @desc    Get the tasks upstream (blocking it) and downstream (blocked by it) of a task
+ * @access  Private
+ */
+router.get(
+  '/:id/graph',
+  protect,
+  [
+    param('id').isInt().withMessage('Task ID must be an integer'),
+    query('depth')
+      .optional()
+      .isInt({ min: 1, max: TaskDependency.MAX_GRAPH_DEPTH })
+      .withMessage(`Depth must be an integer between 1 and ${TaskDependency.MAX_GRAPH_DEPTH}`)
+  ],
+  TaskController.getTaskGraph
+);
+
+/**
+ * @route   POST /api/tasks/:id/blockers
+ * @desc    Make a task blocked by another task; rejected if it would create a cycle
+ * @access  Private
+ */
+router.post(
+  '/:id/blockers',
+  protect,
+  [
+    param('id').isInt().withMessage('Task ID must be an integer'),
+    body('blocker_task_id')
+      .notEmpty()
+      .withMessage('Blocking task ID is required')
+      .isInt()
+      .withMessage('Blocking task ID must be an integer')
+      .toInt()
+  ],
+  TaskController.addTaskBlocker
+);
+
+/**
+ * @route   DELETE /api/tasks/:id/blockers/:blockerId
+ * @desc    Remove a task blocking another task
+ * @access  Private
+ */
+router.delete(
+  '/:id/blockers/:blockerId',
+  protect,
+  [
+    param('id').isInt().withMessage('Task ID must be an integer'),
+    param('blockerId').isInt().withMessage('Blocking task ID must be an integer')
+  ],
+  TaskController.removeTaskBlocker
+);
+
+/**
+ * @route   GET /api/tasks/:id/comments
+ * @desc    Get the comments on a task, oldest first; deleted comments are listed without their text
+ * @access  Private
+ */
+router.get(
+  '/:id/comments',
+  protect,
+  param('id').isInt().withMessage('Task ID must be an integer'),
+  TaskController.getComments
+);
+
+/**
+ * @route   POST /api/tasks/:id/comments
+ * @desc    Comment on a task, or reply to a comment; mentioned users are notified
+ * @access  Private
+ */
+router.post(
+  '/:id/comments',
+  protect,
+  [
+    param('id').isInt().withMessage('Task ID must be an integer'),
+    body('content')
+      .isString()
+      .withMessage('Content is required')
+      .trim()
+      .notEmpty()
+      .withMessage('Content is required')
+      .isLength({ max: TaskComment.MAX_CONTENT_LENGTH })
+      .withMessage(`Content must be ${TaskComment.MAX_CONTENT_LENGTH} characters or less`),
+    body('parent_comment_id')
+      .optional()
+      .isInt()
+      .withMessage('Parent comment ID must be an integer')
+      .toInt()
+  ],
+  TaskController.addComment
+);
+
+/**
+ * @route   PATCH /api/tasks/:id/comments/:commentId
+ * @desc    Edit a comment on a task (author only)
+ * @access  Private
+ */
+router.patch(
+  '/:id/comments/:commentId',
+  protect,
+  [
+    param('id').isInt().withMessage('Task ID must be an integer'),
+    param('commentId').isInt().withMessage('Comment ID must be an integer'),
+    body('content')
+      .isString()
+      .withMessage('Content is required')
+      .trim()
+      .notEmpty()
+      .withMessage('Content is required')
+      .isLength({ max: TaskComment.MAX_CONTENT_LENGTH })
+      .withMessage(`Content must be ${TaskComment.MAX_CONTENT_LENGTH} characters or less`)
+  ],
+  TaskController.updateComment
+);
+
+/**
+ * @route   DELETE /api/tasks/:id/comments/:commentId
+ * @desc    Delete a comment on a task (author, task creator or workspace admin)
+ * @access  Private
+ */
+router.delete(
+  '/:id/comments/:commentId',
+  protect,
+  [
+    param('id').isInt().withMessage('Task ID must be an integer'),
+    param('commentId').isInt().withMessage('Comment ID must be an integer')
+  ],
+  TaskController.deleteComment
+);
+
+/**
+ * @route   GET /api/tasks/:id/attachments
+ * @desc    Get the attachments of a task, oldest first
+ * @access  Private
+ */
+router.get(
+  '/:id/attachments',
+  protect,
+  param('id').isInt().withMessage('Task ID must be an integer'),
+  TaskController.getAttachments
+);
+
+/**
+ * @route   POST /api/tasks/:id/attachments
+ * @desc    Attach a file to a task (multipart/form-data with a `file` field)
+ * @access  Private
+ */
+router.post(
+  '/:id/attachments',
+  protect,
+  param('id').isInt().withMessage('Task ID must be an integer'),
+  uploadSingleFile('file'),
+  TaskController.addAttachment
+);
+
+/**
+ * @route   GET /api/tasks/:id/attachments/:attachmentId/url
+ * @desc    Get a signed download URL for an attachment, valid for a few minutes
+ * @access  Private
+ */
+router.get(
+  '/:id/attachments/:attachmentId/url',
+  protect,
+  [
+    param('id').isInt().withMessage('Task ID must be an integer'),
+    param('attachmentId').isInt().withMessage('Attachment ID must be an integer')
+  ],
+  TaskController.getAttachmentUrl
+);
+
+/**
+ * @route   GET /api/tasks/:id/attachments/:attachmentId/content
+ * @desc    Download an attachment through a signed URL
+ * @access  Public (the URL's signature grants access until it expires)
+ */
+router.get(
+  '/:id/attachments/:attachmentId/content',
+  [
+    param('id').isInt().withMessage('Task ID must be an integer'),
+    param('attachmentId').isInt().withMessage('Attachment ID must be an integer'),
+    query('expires').isInt({ min: 0 }).withMessage('Expires must be a timestamp'),
+    query('signature')
+      .isHexadecimal()
+      .isLength({ min: 64, max: 64 })
+      .withMessage('Signature must be a 64 character hex string')
+  ],
+  TaskController.downloadAttachment
+);
+
+/**
+ * @route   DELETE /api/tasks/:id/attachments/:attachmentId
+ * @desc    Remove an attachment from a task (uploader, task creator or workspace admin)
+ * @access  Private
+ */
+router.delete(
+  '/:id/attachments/:attachmentId',
+  protect,
+  [
+    param('id').isInt().withMessage('Task ID must be an integer'),
+    param('attachmentId').isInt().withMessage('Attachment ID must be an integer')
+  ],
+  TaskController.deleteAttachment
+);
+
 export default router;
\ No newline at end of file
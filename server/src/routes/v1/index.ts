@@ -4,6 +4,12 @@ import userRoutes from '../user.routes';
 import taskRoutes from '../task.routes';
 import categoryRoutes from '../category.routes';
 import priorityRoutes from '../priority.routes';
+import settingsRoutes from '../settings.routes';
+import workspaceRoutes from '../workspace.routes';
+import statusRoutes from '../status.routes';
+import reminderRoutes from '../reminder.routes';
+import notificationRoutes from '../notification.routes';
+import tagRoutes from '../tag.routes';
 
 const v1Routes = Router();
 
@@ -13,5 +19,11 @@ v1Routes.use('/users', userRoutes);
 v1Routes.use('/tasks', taskRoutes);
 v1Routes.use('/categories', categoryRoutes);
 v1Routes.use('/priorities', priorityRoutes);
+v1Routes.use('/settings', settingsRoutes);
+v1Routes.use('/workspaces', workspaceRoutes);
+v1Routes.use('/statuses', statusRoutes);
+v1Routes.use('/reminders', reminderRoutes);
+v1Routes.use('/notifications', notificationRoutes);
+v1Routes.use('/tags', tagRoutes);
 
 export default v1Routes;
\ No newline at end of file
@@ -0,0 +1,164 @@
+import { Router } from 'express';
+import { body, param } from 'express-validator';
+import { WorkspaceController } from '../controllers/workspace.controller';
+import { authorizeWorkspace, protect } from '../middlewares/auth.middleware';
+import { WorkspaceRole } from '../interfaces/workspace.interface';
+import { TaskWorkflow } from '../models/taskWorkflow.model';
+
+const router = Router();
+
+/**
+ * @route   GET /api/workspaces
+ * @desc    Get the workspaces of the current user
+ * @access  Private
+ */
+router.get('/', protect, WorkspaceController.getAllWorkspaces);
+
+/**
+ * @route   GET /api/workspaces/:id
+ * @desc    Get workspace by ID
+ * @access  Private (workspace members)
+ */
+router.get(
+  '/:id',
+  protect,
+  param('id').isInt().withMessage('Workspace ID must be an integer'),
+  authorizeWorkspace(),
+  WorkspaceController.getWorkspaceById
+);
+
+/**
+ * @route   POST /api/workspaces
+ * @desc    Create a new workspace
+ * @access  Private
+ */
+router.post(
+  '/',
+  protect,
+  [
+    body('name')
+      .trim()
+      .notEmpty()
+      .withMessage('Name is required')
+      .isLength({ max: 100 })
+      .withMessage('Name must be 100 characters or less')
+  ],
+  WorkspaceController.createWorkspace
+);
+
+/**
+ * @route   PUT /api/workspaces/:id
+ * @desc    Update a workspace's name or additional task status transitions
+ * @access  Private (workspace owner or admin)
+ */
+router.put(
+  '/:id',
+  protect,
+  [
+    param('id').isInt().withMessage('Workspace ID must be an integer'),
+    body('name')
+      .optional()
+      .trim()
+      .notEmpty()
+      .withMessage('Name cannot be empty')
+      .isLength({ max: 100 })
+      .withMessage('Name must be 100 characters or less'),
+    body('status_transitions')
+      .optional({ nullable: true })
+      .custom((value: unknown) => {
+        TaskWorkflow.validateTransitions(value);
+        return true;
+      })
+  ],
+  authorizeWorkspace(WorkspaceRole.OWNER, WorkspaceRole.ADMIN),
+  WorkspaceController.updateWorkspace
+);
+
+/**
+ * @route   DELETE /api/workspaces/:id
+ * @desc    Delete a workspace
+ * @access  Private (workspace owner)
+ */
+router.delete(
+  '/:id',
+  protect,
+  param('id').isInt().withMessage('Workspace ID must be an integer'),
+  authorizeWorkspace(WorkspaceRole.OWNER),
+  WorkspaceController.deleteWorkspace
+);
+
+/**
+ * @route   GET /api/workspaces/:id/members
+ * @desc    Get workspace members
+ * @access  Private (workspace members)
+ */
+router.get(
+  '/:id/members',
+  protect,
+  param('id').isInt().withMessage('Workspace ID must be an integer'),
+  authorizeWorkspace(),
+  WorkspaceController.getMembers
+);
+
+/**
+ * @route   POST /api/workspaces/:id/members
+ * @desc    Add a member to a workspace
+ * @access  Private (workspace owner or admin)
+ */
+router.post(
+  '/:id/members',
+  protect,
+  [
+    param('id').isInt().withMessage('Workspace ID must be an integer'),
+    body('user_id')
+      .notEmpty()
+      .withMessage('User ID is required')
+      .isInt()
+      .withMessage('User ID must be an integer'),
+    body('role')
+      .optional()
+      .isIn(Object.values(WorkspaceRole))
+      .withMessage(`Role must be one of: ${Object.values(WorkspaceRole).join(', ')}`)
+  ],
+  authorizeWorkspace(WorkspaceRole.OWNER, WorkspaceRole.ADMIN),
+  WorkspaceController.addMember
+);
+
+/**
+ * @route   PATCH /api/workspaces/:id/members/:userId
+ * @desc    Change the role of a workspace member
+ * @access  Private (workspace owner or admin)
+ */
+router.patch(
+  '/:id/members/:userId',
+  protect,
+  [
+    param('id').isInt().withMessage('Workspace ID must be an integer'),
+    param('userId').isInt().withMessage('User ID must be an integer'),
+    body('role')
+      .notEmpty()
+      .withMessage('Role is required')
+      .isIn(Object.values(WorkspaceRole))
+      .withMessage(`Role must be one of: ${Object.values(WorkspaceRole).join(', ')}`)
+  ],
+  authorizeWorkspace(WorkspaceRole.OWNER, WorkspaceRole.ADMIN),
+  WorkspaceController.updateMemberRole
+);
+
+/**
+ * @route   DELETE /api/workspaces/:id/members/:userId
+ * @desc    Remove a member from a workspace (members can remove themselves to leave)
+ * @access  Private (workspace owner or admin, or the member themselves)
+ */
+router.delete(
+  '/:id/members/:userId',
+  protect,
+  [
+    param('id').isInt().withMessage('Workspace ID must be an integer'),
+    param('userId').isInt().withMessage('User ID must be an integer')
+  ],
+  authorizeWorkspace(),
+  WorkspaceController.removeMember
+);
+
+export default router;
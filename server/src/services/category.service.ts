@@ -0,0 +1,178 @@
+import { ApiError } from '../utils/error.utils';
+import { ICategory, ICategoryCreate, ICategoryDeleteResult, ICategoryUpdate } from '../interfaces/category.interface';
+import { CategoryRepository } from '../repositories/categoryRepository';
+import { WorkspaceRepository } from '../repositories/workspaceRepository';
+import { WorkspaceRole } from '../interfaces/workspace.interface';
+import { Workspace } from '../models/workspace.model';
+
+/**
+ * Category Service
+ * Handles business logic for category operations
+ */
+export class CategoryService {
+  private repository: CategoryRepository;
+  private workspaceRepository: WorkspaceRepository;
+
+  /**
+   * Create a new CategoryService instance
+   */
+  constructor() {
+    this.repository = new CategoryRepository();
+    this.workspaceRepository = new WorkspaceRepository();
+  }
+
+  /**
+   * Get the categories a user can access: their own and those of their workspaces
+   * @param userId User ID
+   * @param filter Optional filter criteria
+   * @returns Array of categories
+   */
+  async getUserCategories(userId: number, filter?: Partial<ICategory>): Promise<ICategory[]> {
+    try {
+      return await this.repository.findByUserId(userId, filter);
+    } catch (error) {
+      console.error('Error in getUserCategories:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a category by its ID
+   * @param categoryId Category ID
+   * @param userId User ID (for authorization)
+   * @returns Category object or null if not found
+   * @throws ApiError if the user cannot access the category
+   */
+  async getCategoryById(categoryId: number, userId: number): Promise<ICategory | null> {
+    try {
+      const category = await this.repository.findById(categoryId);
+      if (!category) {
+        return null;
+      }
+
+      await this.authorizeCategoryOperation(category, userId, false);
+
+      return category;
+    } catch (error) {
+      console.error('Error in getCategoryById:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Create a new category
+   * @param categoryData Category data
+   * @returns Created category
+   * @throws ApiError if validation fails, the user cannot add categories to the workspace
+   * or a category with this name already exists
+   */
+  async createCategory(categoryData: ICategoryCreate): Promise<ICategory> {
+    try {
+      // Viewers and non-members cannot add categories to a workspace
+      if (categoryData.workspace_id) {
+        const role = await this.workspaceRepository.getMemberRole(categoryData.workspace_id, categoryData.user_id);
+        if (!Workspace.hasRole(role, WorkspaceRole.MEMBER)) {
+          throw ApiError.forbidden('Not authorized to create categories in this workspace', 'FORBIDDEN');
+        }
+      }
+
+      return await this.repository.create(categoryData);
+    } catch (error) {
+      console.error('Error in createCategory:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Seed the default categories for a user
+   * @param userId User ID
+   * @returns Created default categories
+   */
+  async createDefaultCategories(userId: number): Promise<ICategory[]> {
+    try {
+      return await this.repository.createDefaults(userId);
+    } catch (error) {
+      console.error('Error in createDefaultCategories:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update an existing category (rename, recolor or change icon)
+   * @param categoryId Category ID
+   * @param categoryData Category data to update
+   * @param userId User ID (for authorization)
+   * @returns Updated category or null if not found
+   * @throws ApiError if validation fails, user is not authorized or the name is already taken
+   */
+  async updateCategory(
+    categoryId: number,
+    categoryData: ICategoryUpdate,
+    userId: number
+  ): Promise<ICategory | null> {
+    try {
+      const existingCategory = await this.repository.findById(categoryId);
+      if (!existingCategory) {
+        return null;
+      }
+
+      await this.authorizeCategoryOperation(existingCategory, userId, true);
+
+      return await this.repository.update(categoryId, categoryData);
+    } catch (error) {
+      console.error('Error in updateCategory:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a category
+   * Tasks in the category are kept and have their category cleared
+   * @param categoryId Category ID
+   * @param userId User ID (for authorization)
+   * @returns Deletion result with number of tasks left without a category
+   * @throws ApiError if user is not authorized
+   */
+  async deleteCategory(categoryId: number, userId: number): Promise<ICategoryDeleteResult> {
+    try {
+      const existingCategory = await this.repository.findById(categoryId);
+      if (!existingCategory) {
+        return { deleted: false, affected_tasks: 0 };
+      }
+
+      await this.authorizeCategoryOperation(existingCategory, userId, true);
+
+      return await this.repository.deleteWithTaskCount(categoryId);
+    } catch (error) {
+      console.error('Error in deleteCategory:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Check if a user is authorized to perform operations on a category
+   * Personal categories are limited to their owner. Workspace categories can be
+   * viewed by every member and changed by their creator or a workspace admin.
+   * @param category Category object
+   * @param userId User ID
+   * @param modify Whether the operation changes the category
+   * @throws ApiError if user is not authorized
+   */
+  private async authorizeCategoryOperation(category: ICategory, userId: number, modify: boolean): Promise<void> {
+    let allowed: boolean;
+
+    if (!category.workspace_id) {
+      allowed = category.user_id === userId;
+    } else {
+      const role = await this.workspaceRepository.getMemberRole(category.workspace_id, userId);
+      allowed = modify
+        ? Workspace.hasRole(role, WorkspaceRole.ADMIN)
+          || (category.user_id === userId && Workspace.hasRole(role, WorkspaceRole.MEMBER))
+        : role !== null;
+    }
+
+    if (!allowed) {
+      throw ApiError.forbidden('Not authorized to perform this action on this category', 'FORBIDDEN');
+    }
+  }
+}
@@ -0,0 +1,103 @@
+import {
+  INotification,
+  INotificationPage,
+  INotificationPreference,
+  INotificationQuery
+} from '../interfaces/notification.interface';
+import { NotificationRepository } from '../repositories/notificationRepository';
+import { Notification } from '../models/notification.model';
+
+/**
+ * Notification Service
+ * Handles business logic for the notifications and notification preferences of users
+ */
+export class NotificationService {
+  private repository: NotificationRepository;
+
+  /**
+   * Create a new NotificationService instance
+   */
+  constructor() {
+    this.repository = new NotificationRepository();
+  }
+
+  /**
+   * Get a page of the notifications of a user with their unread count
+   * @param userId User ID
+   * @param queryParams Unread filter, page size and position
+   * @returns Notifications, newest first, and the number of unread notifications
+   */
+  async getNotifications(userId: number, queryParams: INotificationQuery = {}): Promise<INotificationPage> {
+    try {
+      const [notifications, unreadCount] = await Promise.all([
+        this.repository.findByUser(userId, queryParams),
+        this.repository.countUnread(userId)
+      ]);
+
+      return { notifications, unread_count: unreadCount };
+    } catch (error) {
+      console.error('Error in getNotifications:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Mark a notification of a user as read
+   * @param notificationId Notification ID
+   * @param userId User ID
+   * @returns Notification or null if not found
+   */
+  async markRead(notificationId: number, userId: number): Promise<INotification | null> {
+    try {
+      return await this.repository.markRead(notificationId, userId);
+    } catch (error) {
+      console.error('Error in markRead:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Mark all notifications of a user as read
+   * @param userId User ID
+   * @returns Number of notifications marked
+   */
+  async markAllRead(userId: number): Promise<number> {
+    try {
+      return await this.repository.markAllRead(userId);
+    } catch (error) {
+      console.error('Error in markAllRead:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the notification preferences of a user
+   * @param userId User ID
+   * @returns One preference per configurable type and channel
+   */
+  async getPreferences(userId: number): Promise<INotificationPreference[]> {
+    try {
+      return Notification.resolvePreferences(await this.repository.getPreferences(userId));
+    } catch (error) {
+      console.error('Error in getPreferences:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update notification preferences of a user
+   * @param userId User ID
+   * @param preferences Preferences to change; others are kept
+   * @returns One preference per configurable type and channel
+   * @throws ApiError if a type, channel or value is invalid
+   */
+  async updatePreferences(userId: number, preferences: INotificationPreference[]): Promise<INotificationPreference[]> {
+    try {
+      await this.repository.savePreferences(userId, preferences);
+      return Notification.resolvePreferences(await this.repository.getPreferences(userId));
+    } catch (error) {
+      console.error('Error in updatePreferences:', error);
+      throw error;
+    }
+  }
+}
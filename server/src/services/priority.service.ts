@@ -0,0 +1,95 @@
+import { IPriority, IPriorityCreate, IPriorityUpdate } from '../interfaces/priority.interface';
+import { PriorityRepository } from '../repositories/priorityRepository';
+
+/**
+ * Priority Service
+ * Handles business logic for priority operations
+ */
+export class PriorityService {
+  private repository: PriorityRepository;
+
+  /**
+   * Create a new PriorityService instance
+   */
+  constructor() {
+    this.repository = new PriorityRepository();
+  }
+
+  /**
+   * Get all priorities, highest rank first
+   * @param filter Optional filter criteria
+   * @returns Array of priorities
+   */
+  async getAllPriorities(filter?: Partial<IPriority>): Promise<IPriority[]> {
+    try {
+      return await this.repository.findAll(filter);
+    } catch (error) {
+      console.error('Error in getAllPriorities:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a priority by its ID
+   * @param priorityId Priority ID
+   * @returns Priority object or null if not found
+   */
+  async getPriorityById(priorityId: number): Promise<IPriority | null> {
+    try {
+      return await this.repository.findById(priorityId);
+    } catch (error) {
+      console.error('Error in getPriorityById:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Create a new priority
+   * @param priorityData Priority data
+   * @returns Created priority
+   * @throws ApiError if validation fails or the name is already taken
+   */
+  async createPriority(priorityData: IPriorityCreate): Promise<IPriority> {
+    try {
+      return await this.repository.create(priorityData);
+    } catch (error) {
+      console.error('Error in createPriority:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update an existing priority (rename or re-rank)
+   * @param priorityId Priority ID
+   * @param priorityData Priority data to update
+   * @returns Updated priority or null if not found
+   * @throws ApiError if validation fails or the name is already taken
+   */
+  async updatePriority(priorityId: number, priorityData: IPriorityUpdate): Promise<IPriority | null> {
+    try {
+      const existingPriority = await this.repository.findById(priorityId);
+      if (!existingPriority) {
+        return null;
+      }
+
+      return await this.repository.update(priorityId, priorityData);
+    } catch (error) {
+      console.error('Error in updatePriority:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a priority
+   * @param priorityId Priority ID
+   * @returns Boolean indicating if deletion was successful
+   */
+  async deletePriority(priorityId: number): Promise<boolean> {
+    try {
+      return await this.repository.delete(priorityId);
+    } catch (error) {
+      console.error('Error in deletePriority:', error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,59 @@
+import { IReminderSettings, IReminderSettingsUpdate } from '../interfaces/reminder.interface';
+import { ReminderRepository } from '../repositories/reminderRepository';
+import { Reminder } from '../models/reminder.model';
+import { ApiError } from '../utils/error.utils';
+import { isPublicUrl } from '../utils/network.utils';
+
+/**
+ * Reminder Service
+ * Handles business logic for the reminder defaults of users
+ */
+export class ReminderService {
+  private repository: ReminderRepository;
+
+  /**
+   * Create a new ReminderService instance
+   */
+  constructor() {
+    this.repository = new ReminderRepository();
+  }
+
+  /**
+   * Get the reminder defaults of a user
+   * @param userId User ID
+   * @returns Reminder settings
+   */
+  async getSettings(userId: number): Promise<IReminderSettings> {
+    try {
+      return await this.repository.getSettings(userId);
+    } catch (error) {
+      console.error('Error in getSettings:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update the reminder defaults of a user
+   * Defaults apply to tasks whose due date is set afterwards
+   * @param userId User ID
+   * @param settings Settings to change
+   * @returns Updated reminder settings
+   * @throws ApiError if an offset, channel or the webhook URL is invalid, or the webhook
+   * URL does not point to a public host
+   */
+  async updateSettings(userId: number, settings: IReminderSettingsUpdate): Promise<IReminderSettings> {
+    try {
+      Reminder.validateSettings(settings);
+
+      // Webhooks are called by the server, so they must not reach its private network
+      if (settings.webhook_url && !(await isPublicUrl(settings.webhook_url))) {
+        throw ApiError.badRequest('Webhook URL must point to a public host', 'INVALID_WEBHOOK_URL');
+      }
+
+      return await this.repository.updateSettings(userId, settings);
+    } catch (error) {
+      console.error('Error in updateSettings:', error);
+      throw error;
+    }
+  }
+}
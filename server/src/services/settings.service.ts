@@ -0,0 +1,45 @@
+import { IAppSettings } from '../interfaces/settings.interface';
+import { SettingsRepository } from '../repositories/settingsRepository';
+
+/**
+ * Settings Service
+ * Handles business logic for application settings
+ */
+export class SettingsService {
+  private repository: SettingsRepository;
+
+  /**
+   * Create a new SettingsService instance
+   */
+  constructor() {
+    this.repository = new SettingsRepository();
+  }
+
+  /**
+   * Get the application settings
+   * @returns Application settings
+   */
+  async getSettings(): Promise<IAppSettings> {
+    try {
+      return await this.repository.getAll();
+    } catch (error) {
+      console.error('Error in getSettings:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update application settings
+   * @param settings Settings to change
+   * @returns Updated application settings
+   * @throws ApiError if a setting is unknown or has the wrong type
+   */
+  async updateSettings(settings: Partial<IAppSettings>): Promise<IAppSettings> {
+    try {
+      return await this.repository.update(settings);
+    } catch (error) {
+      console.error('Error in updateSettings:', error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,139 @@
+import { ApiError } from '../utils/error.utils';
+import { IStatus, IStatusCreate, IStatusUpdate } from '../interfaces/status.interface';
+import { WorkspaceRole } from '../interfaces/workspace.interface';
+import { StatusRepository } from '../repositories/statusRepository';
+import { WorkspaceRepository } from '../repositories/workspaceRepository';
+import { Workspace } from '../models/workspace.model';
+
+/**
+ * Status Service
+ * Handles business logic for task statuses
+ */
+export class StatusService {
+  private repository: StatusRepository;
+  private workspaceRepository: WorkspaceRepository;
+
+  /**
+   * Create a new StatusService instance
+   */
+  constructor() {
+    this.repository = new StatusRepository();
+    this.workspaceRepository = new WorkspaceRepository();
+  }
+
+  /**
+   * Get the statuses available to tasks: the built-in ones, plus those of a workspace
+   * @param userId User ID (for authorization)
+   * @param workspaceId Optional workspace ID
+   * @returns Array of statuses ordered by position
+   * @throws ApiError if the user is not a member of the workspace
+   */
+  async getStatuses(userId: number, workspaceId?: number): Promise<IStatus[]> {
+    try {
+      if (workspaceId) {
+        const role = await this.workspaceRepository.getMemberRole(workspaceId, userId);
+        if (!role) {
+          throw ApiError.forbidden('Not authorized to access this workspace', 'FORBIDDEN');
+        }
+      }
+
+      return await this.repository.findAvailable(workspaceId || null);
+    } catch (error) {
+      console.error('Error in getStatuses:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Create a status in a workspace
+   * @param statusData Status data
+   * @param userId User ID (for authorization)
+   * @returns Created status
+   * @throws ApiError if validation fails, the user is not a workspace admin or the key is taken
+   */
+  async createStatus(statusData: IStatusCreate, userId: number): Promise<IStatus> {
+    try {
+      await this.authorizeWorkspaceAdmin(statusData.workspace_id, userId);
+
+      return await this.repository.create(statusData);
+    } catch (error) {
+      console.error('Error in createStatus:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update a workspace status (rename, reorder or recolor)
+   * @param statusId Status ID
+   * @param statusData Status data to update
+   * @param userId User ID (for authorization)
+   * @returns Updated status or null if not found
+   * @throws ApiError if validation fails or the user cannot change the status
+   */
+  async updateStatus(statusId: number, statusData: IStatusUpdate, userId: number): Promise<IStatus | null> {
+    try {
+      const existingStatus = await this.repository.findById(statusId);
+      if (!existingStatus) {
+        return null;
+      }
+
+      await this.authorizeStatusChange(existingStatus, userId);
+
+      return await this.repository.update(statusId, statusData);
+    } catch (error) {
+      console.error('Error in updateStatus:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a workspace status
+   * @param statusId Status ID
+   * @param userId User ID (for authorization)
+   * @returns Boolean indicating if deletion was successful
+   * @throws ApiError if the user cannot change the status or tasks are still in it
+   */
+  async deleteStatus(statusId: number, userId: number): Promise<boolean> {
+    try {
+      const existingStatus = await this.repository.findById(statusId);
+      if (!existingStatus) {
+        return false;
+      }
+
+      await this.authorizeStatusChange(existingStatus, userId);
+
+      return await this.repository.delete(statusId);
+    } catch (error) {
+      console.error('Error in deleteStatus:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Check if a user can change a status
+   * Built-in statuses are shared by every task and cannot be changed
+   * @param status Status object
+   * @param userId User ID
+   * @throws ApiError if the status is built-in or the user is not a workspace admin
+   */
+  private async authorizeStatusChange(status: IStatus, userId: number): Promise<void> {
+    if (!status.workspace_id) {
+      throw ApiError.forbidden('Built-in statuses cannot be changed', 'BUILT_IN_STATUS');
+    }
+
+    await this.authorizeWorkspaceAdmin(status.workspace_id, userId);
+  }
+
+  /**
+   * Check if a user manages the statuses of a workspace
+   * @param workspaceId Workspace ID
+   * @param userId User ID
+   * @throws ApiError if the user is not an owner or admin of the workspace
+   */
+  private async authorizeWorkspaceAdmin(workspaceId: number, userId: number): Promise<void> {
+    const role = await this.workspaceRepository.getMemberRole(workspaceId, userId);
+    if (!Workspace.hasRole(role, WorkspaceRole.ADMIN)) {
+      throw ApiError.forbidden('Only workspace admins can manage statuses', 'FORBIDDEN');
+    }
+  }
+}
@@ -0,0 +1,150 @@
+import { ApiError } from '../utils/error.utils';
+import { ITag, ITagQuery } from '../interfaces/tag.interface';
+import { TagRepository } from '../repositories/tagRepository';
+import { WorkspaceRepository } from '../repositories/workspaceRepository';
+import { WorkspaceRole } from '../interfaces/workspace.interface';
+import { Workspace } from '../models/workspace.model';
+
+/**
+ * Tag Service
+ * Handles business logic for tag operations; tags are added to tasks through the task endpoints
+ */
+export class TagService {
+  private repository: TagRepository;
+  private workspaceRepository: WorkspaceRepository;
+
+  /**
+   * Create a new TagService instance
+   */
+  constructor() {
+    this.repository = new TagRepository();
+    this.workspaceRepository = new WorkspaceRepository();
+  }
+
+  /**
+   * Get the tags a user can access with the number of tasks carrying them
+   * @param userId User ID
+   * @param queryParams Optional prefix, workspace and limit
+   * @returns Array of tags, most used first
+   */
+  async getUserTags(userId: number, queryParams?: ITagQuery): Promise<ITag[]> {
+    try {
+      return await this.repository.findByUserId(userId, queryParams);
+    } catch (error) {
+      console.error('Error in getUserTags:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Rename a tag on every task carrying it
+   * @param tagId Tag ID
+   * @param name New name
+   * @param userId User ID (for authorization)
+   * @returns Renamed tag or null if not found
+   * @throws ApiError if the user is not authorized or the name is already taken
+   */
+  async renameTag(tagId: number, name: string, userId: number): Promise<ITag | null> {
+    try {
+      const existingTag = await this.repository.findById(tagId);
+      if (!existingTag) {
+        return null;
+      }
+
+      await this.authorizeTagOperation(existingTag, userId);
+
+      return await this.repository.rename(tagId, name);
+    } catch (error) {
+      console.error('Error in renameTag:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Merge a tag into another tag of the same scope
+   * @param sourceId ID of the tag merged away
+   * @param targetId ID of the tag kept
+   * @param userId User ID (for authorization)
+   * @returns Kept tag or null if either tag is not found
+   * @throws ApiError 400 if the tags are the same or belong to different scopes,
+   * 403 if the user is not authorized to change both
+   */
+  async mergeTags(sourceId: number, targetId: number, userId: number): Promise<ITag | null> {
+    try {
+      if (sourceId === targetId) {
+        throw ApiError.badRequest('A tag cannot be merged into itself', 'INVALID_MERGE');
+      }
+
+      const [source, target] = await Promise.all([
+        this.repository.findById(sourceId),
+        this.repository.findById(targetId)
+      ]);
+      if (!source || !target) {
+        return null;
+      }
+
+      await this.authorizeTagOperation(source, userId);
+      await this.authorizeTagOperation(target, userId);
+
+      // Tasks only carry tags of their own scope
+      const sameScope = source.workspace_id
+        ? source.workspace_id === target.workspace_id
+        : !target.workspace_id && source.user_id === target.user_id;
+      if (!sameScope) {
+        throw ApiError.badRequest('Only tags of the same workspace can be merged', 'TAG_SCOPE_MISMATCH');
+      }
+
+      return await this.repository.merge(sourceId, targetId);
+    } catch (error) {
+      console.error('Error in mergeTags:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a tag and remove it from every task
+   * @param tagId Tag ID
+   * @param userId User ID (for authorization)
+   * @returns Boolean indicating if the tag was deleted
+   * @throws ApiError if user is not authorized
+   */
+  async deleteTag(tagId: number, userId: number): Promise<boolean> {
+    try {
+      const existingTag = await this.repository.findById(tagId);
+      if (!existingTag) {
+        return false;
+      }
+
+      await this.authorizeTagOperation(existingTag, userId);
+
+      return await this.repository.delete(tagId);
+    } catch (error) {
+      console.error('Error in deleteTag:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Check if a user is authorized to change a tag
+   * Like categories, personal tags are limited to their owner, and workspace tags can be
+   * changed by their creator or a workspace admin.
+   * @param tag Tag object
+   * @param userId User ID
+   * @throws ApiError if user is not authorized
+   */
+  private async authorizeTagOperation(tag: ITag, userId: number): Promise<void> {
+    let allowed: boolean;
+
+    if (!tag.workspace_id) {
+      allowed = tag.user_id === userId;
+    } else {
+      const role = await this.workspaceRepository.getMemberRole(tag.workspace_id, userId);
+      allowed = Workspace.hasRole(role, WorkspaceRole.ADMIN)
+        || (tag.user_id === userId && Workspace.hasRole(role, WorkspaceRole.MEMBER));
+    }
+
+    if (!allowed) {
+      throw ApiError.forbidden('Not authorized to perform this action on this tag', 'FORBIDDEN');
+    }
+  }
+}
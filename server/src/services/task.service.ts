@@ -1,6 +1,57 @@
 import { ApiError } from '../utils/error.utils';
-import { ITask, ITaskCreate, ITaskQuery, ITaskUpdate, TaskStatus } from '../interfaces/task.interface';
+import {
+  ITask,
+  ITaskBulkOperation,
+  ITaskBulkResult,
+  ITaskBulkTarget,
+  ITaskCreate,
+  ITaskPage,
+  ITaskQuery,
+  ITaskSearchResult,
+  ITaskUpdate,
+  SubtaskCompletion,
+  TaskAction,
+  TaskStatusTransitions
+} from '../interfaces/task.interface';
+import { IStatus, StatusCategory } from '../interfaces/status.interface';
+import { ITaskEvent } from '../interfaces/taskEvent.interface';
+import { IReminder, IReminderCreate } from '../interfaces/reminder.interface';
+import { IChecklistItem, IChecklistItemCreate, IChecklistItemUpdate } from '../interfaces/checklist.interface';
+import { ITaskDependency, ITaskGraph } from '../interfaces/taskDependency.interface';
+import { ITaskComment, ITaskCommentCreate } from '../interfaces/taskComment.interface';
+import {
+  IAttachmentContent,
+  IAttachmentUpload,
+  IAttachmentUrl,
+  ITaskAttachment
+} from '../interfaces/taskAttachment.interface';
+import { IStorageDriver } from '../interfaces/storage.interface';
+import { INotifier, NotificationType } from '../interfaces/notification.interface';
+import { RecurrenceScope } from '../interfaces/taskSeries.interface';
+import { WorkspaceRole } from '../interfaces/workspace.interface';
 import { TaskRepository } from '../repositories/taskRepository';
+import { CategoryRepository } from '../repositories/categoryRepository';
+import { UserRepository } from '../repositories/userRepository';
+import { SettingsRepository } from '../repositories/settingsRepository';
+import { TaskAssignmentRepository } from '../repositories/taskAssignmentRepository';
+import { WorkspaceRepository } from '../repositories/workspaceRepository';
+import { TaskEventRepository } from '../repositories/taskEventRepository';
+import { StatusRepository } from '../repositories/statusRepository';
+import { ReminderRepository } from '../repositories/reminderRepository';
+import { ChecklistRepository } from '../repositories/checklistRepository';
+import { TaskDependencyRepository } from '../repositories/taskDependencyRepository';
+import { TaskCommentRepository } from '../repositories/taskCommentRepository';
+import { TaskAttachmentRepository } from '../repositories/taskAttachmentRepository';
+import { getNotifier } from '../notifications';
+import { getStorage } from '../storage';
+import { config } from '../config/config';
+import { Workspace } from '../models/workspace.model';
+import { TaskWorkflow } from '../models/taskWorkflow.model';
+import { Status } from '../models/status.model';
+import { Task } from '../models/task.model';
+import { TaskDependency } from '../models/taskDependency.model';
+import { TaskComment } from '../models/taskComment.model';
+import { TaskAttachment } from '../models/taskAttachment.model';
 
 /**
  * Task Service
@@ -8,12 +59,42 @@ import { TaskRepository } from '../repositories/taskRepository';
  */
 export class TaskService {
   private repository: TaskRepository;
+  private categoryRepository: CategoryRepository;
+  private userRepository: UserRepository;
+  private settingsRepository: SettingsRepository;
+  private assignmentRepository: TaskAssignmentRepository;
+  private workspaceRepository: WorkspaceRepository;
+  private eventRepository: TaskEventRepository;
+  private statusRepository: StatusRepository;
+  private reminderRepository: ReminderRepository;
+  private checklistRepository: ChecklistRepository;
+  private dependencyRepository: TaskDependencyRepository;
+  private commentRepository: TaskCommentRepository;
+  private attachmentRepository: TaskAttachmentRepository;
+  private notifier: INotifier;
+  private storage: IStorageDriver;
 
   /**
    * Create a new TaskService instance
+   * @param notifier Notifier telling users about task events (defaults to the application notifier)
+   * @param storage Driver storing attachment contents (defaults to the configured driver)
    */
-  constructor() {
+  constructor(notifier: INotifier = getNotifier(), storage: IStorageDriver = getStorage()) {
     this.repository = new TaskRepository();
+    this.categoryRepository = new CategoryRepository();
+    this.userRepository = new UserRepository();
+    this.settingsRepository = new SettingsRepository();
+    this.assignmentRepository = new TaskAssignmentRepository();
+    this.workspaceRepository = new WorkspaceRepository();
+    this.eventRepository = new TaskEventRepository();
+    this.statusRepository = new StatusRepository();
+    this.reminderRepository = new ReminderRepository();
+    this.checklistRepository = new ChecklistRepository();
+    this.dependencyRepository = new TaskDependencyRepository();
+    this.commentRepository = new TaskCommentRepository();
+    this.attachmentRepository = new TaskAttachmentRepository();
+    this.notifier = notifier;
+    this.storage = storage;
   }
 
   /**
@@ -46,14 +127,45 @@ export class TaskService {
   }
 
   /**
-   * Search for tasks by keyword
+   * Get one page of a user's tasks with optional filtering, sorting and field selection
    * @param userId User ID
-   * @param searchTerm Search term
-   * @returns Array of tasks matching the search term
+   * @param queryParams Optional query parameters, including limit and the cursor of the previous page
+   * @returns Page of tasks with the total count and the cursor of the next page
    */
-  async searchTasks(userId: number, searchTerm: string): Promise<ITask[]> {
+  async getUserTaskPage(userId: number, queryParams?: ITaskQuery): Promise<ITaskPage> {
     try {
-      return await this.repository.search(userId, searchTerm);
+      return await this.repository.findPageByUserId(userId, queryParams);
+    } catch (error) {
+      console.error('Error in getUserTaskPage:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the tasks a user is assigned to with optional filtering
+   * @param userId ID of the assignee
+   * @param queryParams Optional query parameters for filtering
+   * @returns Array of tasks
+   */
+  async getAssignedTasks(userId: number, queryParams?: ITaskQuery): Promise<ITask[]> {
+    try {
+      return await this.repository.findAssignedToUser(userId, queryParams);
+    } catch (error) {
+      console.error('Error in getAssignedTasks:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Full-text search a user's tasks
+   * @param userId User ID
+   * @param searchTerm Search term (supports "quoted phrases" and -exclusions)
+   * @param queryParams Optional query parameters for filtering and the result limit
+   * @returns Matching tasks, most relevant first, with highlighted title and description
+   */
+  async searchTasks(userId: number, searchTerm: string, queryParams?: ITaskQuery): Promise<ITaskSearchResult[]> {
+    try {
+      return await this.repository.search(userId, searchTerm, queryParams);
     } catch (error) {
       console.error('Error in searchTasks:', error);
       throw error;
@@ -61,114 +173,1028 @@ export class TaskService {
   }
 
   /**
-   * Create a new task
-   * @param taskData Task data
-   * @returns Created task
-   * @throws ApiError if validation fails
+   * Create a new task
+   * Subtasks are created in the workspace of their parent
+   * @param taskData Task data
+   * @returns Created task
+   * @throws ApiError if validation fails, the creator must verify their email first,
+   * cannot create tasks in the workspace or cannot edit the parent task
+   */
+  async createTask(taskData: ITaskCreate): Promise<ITask> {
+    try {
+      await this.ensureEmailVerifiedIfRequired(taskData.user_id);
+
+      if (taskData.parent_task_id) {
+        const parent = await this.validateParent(taskData.parent_task_id, taskData.user_id);
+        if (taskData.workspace_id !== undefined && taskData.workspace_id !== parent.workspace_id) {
+          throw ApiError.badRequest('Subtasks must be in the workspace of their parent', 'INVALID_PARENT');
+        }
+        taskData = { ...taskData, workspace_id: parent.workspace_id ?? undefined };
+      }
+
+      // Viewers and non-members cannot add tasks to a workspace
+      if (taskData.workspace_id) {
+        const role = await this.workspaceRepository.getMemberRole(taskData.workspace_id, taskData.user_id);
+        if (!Workspace.hasRole(role, WorkspaceRole.MEMBER)) {
+          throw ApiError.forbidden('Not authorized to create tasks in this workspace', 'FORBIDDEN');
+        }
+      }
+
+      // Additional business validation can go here
+      if (taskData.due_date) {
+        this.validateDueDate(taskData.due_date);
+      }
+
+      // Tasks may only be filed under categories of their own workspace (or the creator's personal ones)
+      if (taskData.category_id) {
+        await this.validateCategoryScope(taskData.category_id, taskData.user_id, taskData.workspace_id);
+      }
+      
+      return await this.repository.create(taskData);
+    } catch (error) {
+      console.error('Error in createTask:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update an existing task
+   * @param taskId Task ID
+   * @param taskData Task data to update
+   * @param userId User ID (for authorization)
+   * @param scope Occurrences of a recurring task the changes apply to (default: this one)
+   * @returns Updated task or null if not found
+   * @throws ApiError if validation fails or user is not authorized
+   */
+  async updateTask(
+    taskId: number,
+    taskData: ITaskUpdate,
+    userId: number,
+    scope: RecurrenceScope = RecurrenceScope.THIS
+  ): Promise<ITask | null> {
+    try {
+      // Check if task exists
+      const existingTask = await this.repository.findById(taskId);
+      if (!existingTask) {
+        return null;
+      }
+      
+      // Authorize the user
+      await this.authorizeTask(existingTask, userId, 'edit');
+      
+      // Additional business validation
+      if (taskData.due_date) {
+        this.validateDueDate(taskData.due_date);
+      }
+
+      if (taskData.category_id) {
+        await this.validateCategoryScope(taskData.category_id, existingTask.user_id, existingTask.workspace_id);
+      }
+
+      // Tasks can only move under tasks of their own workspace
+      if (taskData.parent_task_id) {
+        const parent = await this.validateParent(taskData.parent_task_id, userId, taskId);
+        if ((parent.workspace_id ?? null) !== (existingTask.workspace_id ?? null)) {
+          throw ApiError.badRequest('Subtasks must be in the workspace of their parent', 'INVALID_PARENT');
+        }
+      }
+      
+      // Cancelled tasks are locked and status changes follow the workflow
+      const currentCategory = existingTask.status_category ?? StatusCategory.TODO;
+      const nextStatus = taskData.status !== undefined
+        ? await this.resolveStatus(existingTask, taskData.status)
+        : undefined;
+      TaskWorkflow.assertEditable(currentCategory, nextStatus?.category);
+      const transitions = await this.getStatusTransitions(existingTask);
+      if (nextStatus) {
+        TaskWorkflow.assertTransition(currentCategory, nextStatus.category, transitions);
+        await this.assertUnblocked(taskId, currentCategory, nextStatus.category);
+      }
+      
+      return await this.repository.update(taskId, taskData, userId, transitions, scope);
+    } catch (error) {
+      console.error('Error in updateTask:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a task
+   * @param taskId Task ID
+   * @param userId User ID (for authorization)
+   * @returns Boolean indicating if deletion was successful
+   * @throws ApiError if user is not authorized
+   */
+  async deleteTask(taskId: number, userId: number): Promise<boolean> {
+    try {
+      // Check if task exists
+      const existingTask = await this.repository.findById(taskId);
+      if (!existingTask) {
+        return false;
+      }
+      // Authorize the user
+      await this.authorizeTask(existingTask, userId, 'delete');
+      
+      const deleted = await this.repository.delete(taskId, userId);
+      if (deleted) {
+        // The attachments of the task and its subtasks went with it
+        await this.purgeAttachmentContents();
+      }
+
+      return deleted;
+    } catch (error) {
+      console.error('Error in deleteTask:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Change task status along the task's workflow
+   * Completing an occurrence of a recurring task creates the next occurrence
+   * @param taskId Task ID
+   * @param status New status
+   * @param userId User ID (for authorization)
+   * @param reason Optional reason, only when cancelling
+   * @param subtasks When completing the task: reject while subtasks are open (default),
+   * or complete the open subtasks with it
+   * @param force Start or complete the task even while tasks blocking it are open
+   * @returns Updated task or null if not found
+   * @throws ApiError if validation fails, user is not authorized, the transition is not allowed,
+   * subtasks are open and the completion does not cascade, or blockers are open and the change is not forced
+   */
+  async changeTaskStatus(
+    taskId: number,
+    status: string,
+    userId: number,
+    reason: string | null = null,
+    subtasks: SubtaskCompletion = SubtaskCompletion.REJECT,
+    force: boolean = false
+  ): Promise<ITask | null> {
+    try {
+      // Check if task exists
+      const existingTask = await this.repository.findById(taskId);
+      if (!existingTask) {
+        return null;
+      }
+      // Assignees may change the status as well as the owner
+      await this.authorizeTask(existingTask, userId, 'change_status');
+      // Check if the status exists for the task
+      const nextStatus = await this.resolveStatus(existingTask, status);
+
+      if (reason !== null && nextStatus.category !== StatusCategory.CANCELLED) {
+        throw ApiError.badRequest('A reason can only be given when cancelling a task', 'INVALID_REASON');
+      }
+
+      const currentCategory = existingTask.status_category ?? StatusCategory.TODO;
+      const transitions = await this.getStatusTransitions(existingTask);
+      TaskWorkflow.assertTransition(currentCategory, nextStatus.category, transitions);
+      if (!force) {
+        await this.assertUnblocked(taskId, currentCategory, nextStatus.category);
+      }
+      if (
+        subtasks === SubtaskCompletion.CASCADE &&
+        currentCategory !== StatusCategory.DONE &&
+        nextStatus.category === StatusCategory.DONE
+      ) {
+        await this.assertSubtasksCompletable(taskId, transitions, force);
+      }
+      
+      return await this.repository.changeStatus(taskId, status, userId, transitions, reason, subtasks);
+    } catch (error) {
+      console.error('Error in changeTaskStatus:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Assign a user to a task
+   * @param taskId Task ID
+   * @param assigneeId ID of the user to assign
+   * @param userId User ID (for authorization)
+   * @returns Task with its updated assignees or null if not found
+   * @throws ApiError if the user is not the task owner, the assignee does not exist or is already assigned
+   */
+  async assignUser(taskId: number, assigneeId: number, userId: number): Promise<ITask | null> {
+    try {
+      const existingTask = await this.repository.findById(taskId);
+      if (!existingTask) {
+        return null;
+      }
+
+      // Only users who can edit the task decide who works on it
+      await this.authorizeTask(existingTask, userId, 'edit');
+
+      const assignee = await this.userRepository.findById(assigneeId);
+      if (!assignee) {
+        throw ApiError.badRequest('User not found', 'INVALID_ASSIGNEE');
+      }
+
+      // Workspace tasks can only be assigned to members who can work on them
+      if (existingTask.workspace_id) {
+        const role = await this.workspaceRepository.getMemberRole(existingTask.workspace_id, assigneeId);
+        if (!Workspace.hasRole(role, WorkspaceRole.MEMBER)) {
+          throw ApiError.badRequest('User is not a member of this workspace', 'INVALID_ASSIGNEE');
+        }
+      }
+
+      await this.assignmentRepository.assign(taskId, assigneeId, userId);
+
+      if (assigneeId !== userId) {
+        await this.notifier.notify({
+          user_id: assigneeId,
+          type: NotificationType.ASSIGNMENT,
+          title: `You were assigned to "${existingTask.title}"`,
+          task_id: taskId
+        });
+      }
+
+      return await this.repository.findById(taskId);
+    } catch (error) {
+      console.error('Error in assignUser:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Remove a user from a task
+   * Users who can edit the task can unassign anyone; assignees can unassign themselves
+   * @param taskId Task ID
+   * @param assigneeId ID of the user to unassign
+   * @param userId User ID (for authorization)
+   * @returns Task with its updated assignees or null if not found
+   * @throws ApiError if the user is not authorized or the assignee is not assigned
+   */
+  async unassignUser(taskId: number, assigneeId: number, userId: number): Promise<ITask | null> {
+    try {
+      const existingTask = await this.repository.findById(taskId);
+      if (!existingTask) {
+        return null;
+      }
+
+      if (assigneeId !== userId) {
+        await this.authorizeTask(existingTask, userId, 'edit');
+      }
+
+      const removed = await this.assignmentRepository.unassign(taskId, assigneeId, userId);
+      if (!removed) {
+        throw ApiError.notFound('User is not assigned to this task', 'ASSIGNMENT_NOT_FOUND');
+      }
+
+      return await this.repository.findById(taskId);
+    } catch (error) {
+      console.error('Error in unassignUser:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Apply one operation to many tasks in a single transaction
+   * Each task goes through the checks of the matching single-task operation. A task
+   * failing them is rolled back on its own and reported; the other tasks are still changed.
+   * @param target IDs of the tasks, or a listing query selecting tasks the user can access
+   * @param operation Operation to apply
+   * @param userId User ID (for authorization)
+   * @returns Result of each task, in the order of the IDs or of the listing
+   * @throws ApiError 400 if the query selects more than Task.MAX_BULK_SIZE tasks
+   */
+  async bulkUpdateTasks(
+    target: ITaskBulkTarget,
+    operation: ITaskBulkOperation,
+    userId: number
+  ): Promise<ITaskBulkResult[]> {
+    try {
+      const results = await this.repository.withTransaction(async () => {
+        // One ID past the limit tells that the query selects too many tasks
+        const taskIds = target.task_ids
+          ? Array.from(new Set(target.task_ids))
+          : await this.repository.findIdsByUserId(userId, target.query, Task.MAX_BULK_SIZE + 1);
+        if (taskIds.length > Task.MAX_BULK_SIZE) {
+          throw ApiError.badRequest(
+            `Bulk operations apply to at most ${Task.MAX_BULK_SIZE} tasks; narrow down the filter`,
+            'TOO_MANY_TASKS'
+          );
+        }
+
+        const outcomes: ITaskBulkResult[] = [];
+        for (const taskId of taskIds) {
+          try {
+            // Each task runs in a savepoint so a failure only undoes its own changes
+            outcomes.push(await this.repository.withTransaction(
+              () => this.applyBulkOperation(taskId, operation, userId)
+            ));
+          } catch (error) {
+            if (!(error instanceof ApiError)) {
+              throw error;
+            }
+            outcomes.push({
+              task_id: taskId,
+              success: false,
+              error: { message: error.message, code: error.code, status: error.statusCode }
+            });
+          }
+        }
+
+        return outcomes;
+      });
+
+      if (operation.type === 'delete' && results.some(result => result.success)) {
+        // Contents are only purged once their attachments are gone for good
+        await this.purgeAttachmentContents();
+      }
+
+      return results;
+    } catch (error) {
+      console.error('Error in bulkUpdateTasks:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the activity history of a task, newest first
+   * @param taskId Task ID
+   * @param userId User ID (for authorization)
+   * @param isAdmin Whether the user is an admin
+   * @returns Task events or null if the task is not found
+   * @throws ApiError if the user is not allowed to view the task
+   */
+  async getTaskHistory(taskId: number, userId: number, isAdmin: boolean = false): Promise<ITaskEvent[] | null> {
+    try {
+      const existingTask = await this.repository.findById(taskId);
+      if (!existingTask) {
+        return null;
+      }
+
+      if (!await this.canViewTask(existingTask, userId, isAdmin)) {
+        throw ApiError.forbidden('Not authorized to access this task', 'FORBIDDEN');
+      }
+
+      return await this.eventRepository.findByTaskId(taskId);
+    } catch (error) {
+      console.error('Error in getTaskHistory:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the reminders a user set on a task
+   * @param taskId Task ID
+   * @param userId User ID (the recipient)
+   * @param isAdmin Whether the user is an admin
+   * @returns Reminders or null if the task is not found
+   * @throws ApiError if the user is not allowed to view the task
+   */
+  async getTaskReminders(taskId: number, userId: number, isAdmin: boolean = false): Promise<IReminder[] | null> {
+    try {
+      const existingTask = await this.repository.findById(taskId);
+      if (!existingTask) {
+        return null;
+      }
+
+      if (!await this.canViewTask(existingTask, userId, isAdmin)) {
+        throw ApiError.forbidden('Not authorized to access this task', 'FORBIDDEN');
+      }
+
+      return await this.reminderRepository.findByTask(taskId, userId);
+    } catch (error) {
+      console.error('Error in getTaskReminders:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Add a reminder for a user on a task
+   * @param taskId Task ID
+   * @param userId User ID (the recipient)
+   * @param data Reminder time or offset before the due date, and channels
+   * @param isAdmin Whether the user is an admin
+   * @returns Created reminder or null if the task is not found
+   * @throws ApiError if the user is not allowed to view the task or the task has no due date for an offset
+   */
+  async addTaskReminder(
+    taskId: number,
+    userId: number,
+    data: Omit<IReminderCreate, 'task_id' | 'user_id'>,
+    isAdmin: boolean = false
+  ): Promise<IReminder | null> {
+    try {
+      const existingTask = await this.repository.findById(taskId);
+      if (!existingTask) {
+        return null;
+      }
+
+      if (!await this.canViewTask(existingTask, userId, isAdmin)) {
+        throw ApiError.forbidden('Not authorized to access this task', 'FORBIDDEN');
+      }
+
+      if (data.offset_minutes !== undefined && !existingTask.due_date) {
+        throw ApiError.badRequest('Reminders before the due date require a due date', 'REMINDER_REQUIRES_DUE_DATE');
+      }
+
+      return await this.reminderRepository.create({ ...data, task_id: taskId, user_id: userId });
+    } catch (error) {
+      console.error('Error in addTaskReminder:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a reminder of a user on a task
+   * @param taskId Task ID
+   * @param reminderId Reminder ID
+   * @param userId User ID (the recipient)
+   * @returns Boolean indicating if the reminder was deleted, or null if the task is not found
+   */
+  async deleteTaskReminder(taskId: number, reminderId: number, userId: number): Promise<boolean | null> {
+    try {
+      const existingTask = await this.repository.findById(taskId);
+      if (!existingTask) {
+        return null;
+      }
+
+      return await this.reminderRepository.delete(reminderId, taskId, userId);
+    } catch (error) {
+      console.error('Error in deleteTaskReminder:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the direct subtasks of a task
+   * @param taskId Task ID
+   * @param userId User ID (for authorization)
+   * @param isAdmin Whether the user is an admin
+   * @returns Subtasks or null if the task is not found
+   * @throws ApiError if the user is not allowed to view the task
+   */
+  async getSubtasks(taskId: number, userId: number, isAdmin: boolean = false): Promise<ITask[] | null> {
+    try {
+      const existingTask = await this.repository.findById(taskId);
+      if (!existingTask) {
+        return null;
+      }
+
+      if (!await this.canViewTask(existingTask, userId, isAdmin)) {
+        throw ApiError.forbidden('Not authorized to access this task', 'FORBIDDEN');
+      }
+
+      return await this.repository.findSubtasks(taskId);
+    } catch (error) {
+      console.error('Error in getSubtasks:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the checklist of a task
+   * @param taskId Task ID
+   * @param userId User ID (for authorization)
+   * @param isAdmin Whether the user is an admin
+   * @returns Checklist items or null if the task is not found
+   * @throws ApiError if the user is not allowed to view the task
+   */
+  async getChecklist(taskId: number, userId: number, isAdmin: boolean = false): Promise<IChecklistItem[] | null> {
+    try {
+      const existingTask = await this.repository.findById(taskId);
+      if (!existingTask) {
+        return null;
+      }
+
+      if (!await this.canViewTask(existingTask, userId, isAdmin)) {
+        throw ApiError.forbidden('Not authorized to access this task', 'FORBIDDEN');
+      }
+
+      return await this.checklistRepository.findByTask(taskId);
+    } catch (error) {
+      console.error('Error in getChecklist:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Add an item to the checklist of a task
+   * @param taskId Task ID
+   * @param data Item text and optional position
+   * @param userId User ID (for authorization)
+   * @returns Created item or null if the task is not found
+   * @throws ApiError if the user cannot edit the task, the task is cancelled or the checklist is full
+   */
+  async addChecklistItem(
+    taskId: number,
+    data: Omit<IChecklistItemCreate, 'task_id'>,
+    userId: number
+  ): Promise<IChecklistItem | null> {
+    try {
+      const existingTask = await this.repository.findById(taskId);
+      if (!existingTask) {
+        return null;
+      }
+
+      await this.authorizeTask(existingTask, userId, 'edit');
+      TaskWorkflow.assertEditable(existingTask.status_category ?? StatusCategory.TODO);
+
+      return await this.checklistRepository.create({ ...data, task_id: taskId });
+    } catch (error) {
+      console.error('Error in addChecklistItem:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update an item of a task's checklist
+   * Ticking items off is part of working on the task, so users who can change the
+   * task's status may do it; other changes need edit rights
+   * @param taskId Task ID
+   * @param itemId Item ID
+   * @param data Item data to update
+   * @param userId User ID (for authorization)
+   * @returns Updated item, or null if the task or the item is not found
+   * @throws ApiError if the user is not authorized or the task is cancelled
+   */
+  async updateChecklistItem(
+    taskId: number,
+    itemId: number,
+    data: IChecklistItemUpdate,
+    userId: number
+  ): Promise<IChecklistItem | null> {
+    try {
+      const existingTask = await this.repository.findById(taskId);
+      if (!existingTask) {
+        return null;
+      }
+
+      const onlyTicks = Object.keys(data).every(field => field === 'is_done');
+      await this.authorizeTask(existingTask, userId, onlyTicks ? 'change_status' : 'edit');
+      TaskWorkflow.assertEditable(existingTask.status_category ?? StatusCategory.TODO);
+
+      return await this.checklistRepository.update(itemId, taskId, data);
+    } catch (error) {
+      console.error('Error in updateChecklistItem:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete an item of a task's checklist
+   * @param taskId Task ID
+   * @param itemId Item ID
+   * @param userId User ID (for authorization)
+   * @returns Boolean indicating if the item was deleted, or null if the task is not found
+   * @throws ApiError if the user cannot edit the task or the task is cancelled
+   */
+  async deleteChecklistItem(taskId: number, itemId: number, userId: number): Promise<boolean | null> {
+    try {
+      const existingTask = await this.repository.findById(taskId);
+      if (!existingTask) {
+        return null;
+      }
+
+      await this.authorizeTask(existingTask, userId, 'edit');
+      TaskWorkflow.assertEditable(existingTask.status_category ?? StatusCategory.TODO);
+
+      return await this.checklistRepository.delete(itemId, taskId);
+    } catch (error) {
+      console.error('Error in deleteChecklistItem:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the tasks upstream and downstream of a task
+   * @param taskId Task ID
+   * @param userId User ID (for authorization)
+   * @param isAdmin Whether the user is an admin
+   * @param depth Maximum number of links followed in each direction
+   * @returns Dependency graph or null if the task is not found
+   * @throws ApiError if the user is not allowed to view the task
+   */
+  async getTaskGraph(
+    taskId: number,
+    userId: number,
+    isAdmin: boolean = false,
+    depth: number = TaskDependency.DEFAULT_GRAPH_DEPTH
+  ): Promise<ITaskGraph | null> {
+    try {
+      const existingTask = await this.repository.findById(taskId);
+      if (!existingTask) {
+        return null;
+      }
+
+      if (!await this.canViewTask(existingTask, userId, isAdmin)) {
+        throw ApiError.forbidden('Not authorized to access this task', 'FORBIDDEN');
+      }
+
+      return await this.dependencyRepository.findGraph(
+        taskId,
+        Math.min(depth, TaskDependency.MAX_GRAPH_DEPTH),
+        isAdmin ? null : userId
+      );
+    } catch (error) {
+      console.error('Error in getTaskGraph:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Make a task blocked by another task
+   * Dependencies link tasks of the same workspace, or personal tasks of the same owner
+   * @param taskId ID of the blocked task
+   * @param blockerId ID of the blocker task
+   * @param userId User ID (for authorization)
+   * @returns Created dependency or null if the blocked task is not found
+   * @throws ApiError if the user cannot edit the blocked task, the blocker is not found or
+   * in another workspace, the blocked task is cancelled, or the dependency exists or would create a cycle
+   */
+  async addBlocker(taskId: number, blockerId: number, userId: number): Promise<ITaskDependency | null> {
+    try {
+      const existingTask = await this.repository.findById(taskId);
+      if (!existingTask) {
+        return null;
+      }
+
+      await this.authorizeTask(existingTask, userId, 'edit');
+      TaskWorkflow.assertEditable(existingTask.status_category ?? StatusCategory.TODO);
+
+      // Blockers the user cannot see are reported as missing
+      const blocker = await this.repository.findById(blockerId);
+      if (!blocker || !await this.canViewTask(blocker, userId)) {
+        throw ApiError.badRequest('Blocking task not found', 'INVALID_DEPENDENCY');
+      }
+
+      const sameScope = existingTask.workspace_id
+        ? blocker.workspace_id === existingTask.workspace_id
+        : !blocker.workspace_id && blocker.user_id === existingTask.user_id;
+      if (!sameScope) {
+        throw ApiError.badRequest('Tasks can only be blocked by tasks of the same workspace', 'INVALID_DEPENDENCY');
+      }
+
+      return await this.dependencyRepository.create(blockerId, taskId, userId);
+    } catch (error) {
+      console.error('Error in addBlocker:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Remove a task blocking another task
+   * @param taskId ID of the blocked task
+   * @param blockerId ID of the blocker task
+   * @param userId User ID (for authorization)
+   * @returns Boolean indicating if the dependency was removed, or null if the blocked task is not found
+   * @throws ApiError if the user cannot edit the blocked task or it is cancelled
+   */
+  async removeBlocker(taskId: number, blockerId: number, userId: number): Promise<boolean | null> {
+    try {
+      const existingTask = await this.repository.findById(taskId);
+      if (!existingTask) {
+        return null;
+      }
+
+      await this.authorizeTask(existingTask, userId, 'edit');
+      TaskWorkflow.assertEditable(existingTask.status_category ?? StatusCategory.TODO);
+
+      return await this.dependencyRepository.delete(blockerId, taskId);
+    } catch (error) {
+      console.error('Error in removeBlocker:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the comments on a task
+   * @param taskId Task ID
+   * @param userId User ID (for authorization)
+   * @param isAdmin Whether the user is an admin
+   * @returns Comments, oldest first, or null if the task is not found
+   * @throws ApiError if the user is not allowed to view the task
+   */
+  async getComments(taskId: number, userId: number, isAdmin: boolean = false): Promise<ITaskComment[] | null> {
+    try {
+      const existingTask = await this.repository.findById(taskId);
+      if (!existingTask) {
+        return null;
+      }
+
+      if (!await this.canViewTask(existingTask, userId, isAdmin)) {
+        throw ApiError.forbidden('Not authorized to access this task', 'FORBIDDEN');
+      }
+
+      return await this.commentRepository.findByTask(taskId);
+    } catch (error) {
+      console.error('Error in getComments:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Comment on a task, or reply to a comment
+   * Users mentioned with @username who can view the task are notified
+   * @param taskId Task ID
+   * @param data Comment text and the comment replied to, if any
+   * @param userId User ID (for authorization)
+   * @returns Created comment or null if the task is not found
+   * @throws ApiError if the user cannot comment on the task, the task is cancelled
+   * or the comment replied to is not found
+   */
+  async addComment(
+    taskId: number,
+    data: Pick<ITaskCommentCreate, 'content' | 'parent_comment_id'>,
+    userId: number
+  ): Promise<ITaskComment | null> {
+    try {
+      const existingTask = await this.repository.findById(taskId);
+      if (!existingTask) {
+        return null;
+      }
+
+      await this.authorizeTask(existingTask, userId, 'comment');
+      TaskWorkflow.assertEditable(existingTask.status_category ?? StatusCategory.TODO);
+
+      const comment = await this.commentRepository.create({ ...data, task_id: taskId, user_id: userId });
+      await this.notifyMentions(existingTask, comment);
+
+      return comment;
+    } catch (error) {
+      console.error('Error in addComment:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Edit a comment on a task
+   * Only the author can edit a comment; users newly mentioned by the edit are notified
+   * @param taskId Task ID
+   * @param commentId Comment ID
+   * @param content New text
+   * @param userId User ID (for authorization)
+   * @returns Updated comment, or null if the task or the comment is not found
+   * @throws ApiError if the user is not the author or cannot comment on the task, or the task is cancelled
    */
-  async createTask(taskData: ITaskCreate): Promise<ITask> {
+  async updateComment(
+    taskId: number,
+    commentId: number,
+    content: string,
+    userId: number
+  ): Promise<ITaskComment | null> {
     try {
-      // Additional business validation can go here
-      if (taskData.due_date) {
-        this.validateDueDate(taskData.due_date);
+      const existingTask = await this.repository.findById(taskId);
+      if (!existingTask) {
+        return null;
       }
-      
-      return await this.repository.create(taskData);
+
+      await this.authorizeTask(existingTask, userId, 'comment');
+      TaskWorkflow.assertEditable(existingTask.status_category ?? StatusCategory.TODO);
+
+      const comment = await this.commentRepository.findById(commentId, taskId);
+      if (!comment || comment.deleted_at) {
+        return null;
+      }
+      if (comment.user_id !== userId) {
+        throw ApiError.forbidden('Only the author can edit a comment', 'FORBIDDEN');
+      }
+
+      const updated = await this.commentRepository.update(commentId, taskId, content, userId);
+      if (updated) {
+        await this.notifyMentions(existingTask, updated, comment.content);
+      }
+
+      return updated;
     } catch (error) {
-      console.error('Error in createTask:', error);
+      console.error('Error in updateComment:', error);
       throw error;
     }
   }
 
   /**
-   * Update an existing task
+   * Delete a comment on a task
+   * Authors delete their own comments; users who can delete the task can delete any comment.
+   * Comments are soft-deleted so their replies stay in the thread.
    * @param taskId Task ID
-   * @param taskData Task data to update
+   * @param commentId Comment ID
    * @param userId User ID (for authorization)
-   * @returns Updated task or null if not found
-   * @throws ApiError if validation fails or user is not authorized
+   * @returns Boolean indicating if the comment was deleted, or null if the task is not found
+   * @throws ApiError if the user is not authorized or the task is cancelled
    */
-  async updateTask(taskId: number, taskData: ITaskUpdate, userId: number): Promise<ITask | null> {
+  async deleteComment(taskId: number, commentId: number, userId: number): Promise<boolean | null> {
     try {
-      // Check if task exists
       const existingTask = await this.repository.findById(taskId);
       if (!existingTask) {
         return null;
       }
-      
-      // Authorize the user
-      this.authorizeTaskOperation(existingTask, userId);
-      
-      // Additional business validation
-      if (taskData.due_date) {
-        this.validateDueDate(taskData.due_date);
+
+      const comment = await this.commentRepository.findById(commentId, taskId);
+      if (!comment || comment.deleted_at) {
+        return false;
       }
-      
-      return await this.repository.update(taskId, taskData);
+
+      await this.authorizeTask(existingTask, userId, comment.user_id === userId ? 'comment' : 'delete');
+      TaskWorkflow.assertEditable(existingTask.status_category ?? StatusCategory.TODO);
+
+      return await this.commentRepository.softDelete(commentId, taskId, userId);
     } catch (error) {
-      console.error('Error in updateTask:', error);
+      console.error('Error in deleteComment:', error);
       throw error;
     }
   }
 
   /**
-   * Delete a task
+   * Get the attachments of a task
    * @param taskId Task ID
    * @param userId User ID (for authorization)
-   * @returns Boolean indicating if deletion was successful
-   * @throws ApiError if user is not authorized
+   * @param isAdmin Whether the user is an admin
+   * @returns Attachments, oldest first, or null if the task is not found
+   * @throws ApiError if the user is not allowed to view the task
    */
-  async deleteTask(taskId: number, userId: number): Promise<boolean> {
+  async getAttachments(taskId: number, userId: number, isAdmin: boolean = false): Promise<ITaskAttachment[] | null> {
+    try {
+      const existingTask = await this.repository.findById(taskId);
+      if (!existingTask) {
+        return null;
+      }
+
+      if (!await this.canViewTask(existingTask, userId, isAdmin)) {
+        throw ApiError.forbidden('Not authorized to access this task', 'FORBIDDEN');
+      }
+
+      return await this.attachmentRepository.findByTask(taskId);
+    } catch (error) {
+      console.error('Error in getAttachments:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Attach a file to a task
+   * Users who can comment on a task can attach files to it. Contents are stored once
+   * by checksum, however many tasks they are attached to.
+   * @param taskId Task ID
+   * @param file Uploaded file
+   * @param userId User ID (for authorization)
+   * @returns Created attachment or null if the task is not found
+   * @throws ApiError if the user cannot comment on the task, the task is cancelled,
+   * the file is not allowed or already attached to the task
+   */
+  async addAttachment(taskId: number, file: IAttachmentUpload, userId: number): Promise<ITaskAttachment | null> {
+    try {
+      const existingTask = await this.repository.findById(taskId);
+      if (!existingTask) {
+        return null;
+      }
+
+      await this.authorizeTask(existingTask, userId, 'comment');
+      TaskWorkflow.assertEditable(existingTask.status_category ?? StatusCategory.TODO);
+      TaskAttachment.validateFile(
+        file.mime_type,
+        file.data.length,
+        config.ATTACHMENTS.ALLOWED_MIME_TYPES,
+        config.ATTACHMENTS.MAX_FILE_SIZE_BYTES
+      );
+
+      return await this.attachmentRepository.create(
+        {
+          task_id: taskId,
+          user_id: userId,
+          file_name: TaskAttachment.sanitizeFileName(file.file_name),
+          mime_type: file.mime_type,
+          size_bytes: file.data.length,
+          sha256: TaskAttachment.checksum(file.data)
+        },
+        (sha256) => this.storage.put(TaskAttachment.storageKey(sha256), file.data, file.mime_type)
+      );
+    } catch (error) {
+      console.error('Error in addAttachment:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Remove an attachment from a task
+   * Uploaders remove their own files; users who can delete the task can remove any file.
+   * @param taskId Task ID
+   * @param attachmentId Attachment ID
+   * @param userId User ID (for authorization)
+   * @returns Boolean indicating if the attachment was removed, or null if the task is not found
+   * @throws ApiError if the user is not authorized or the task is cancelled
+   */
+  async deleteAttachment(taskId: number, attachmentId: number, userId: number): Promise<boolean | null> {
     try {
-      // Check if task exists
       const existingTask = await this.repository.findById(taskId);
       if (!existingTask) {
+        return null;
+      }
+
+      const attachment = await this.attachmentRepository.findById(attachmentId, taskId);
+      if (!attachment) {
         return false;
       }
-      // Authorize the user
-      this.authorizeTaskOperation(existingTask, userId);
-      
-      return await this.repository.delete(taskId);
+
+      await this.authorizeTask(existingTask, userId, attachment.user_id === userId ? 'comment' : 'delete');
+      TaskWorkflow.assertEditable(existingTask.status_category ?? StatusCategory.TODO);
+
+      const deleted = await this.attachmentRepository.delete(attachmentId, taskId, userId);
+      if (deleted) {
+        await this.purgeAttachmentContents();
+      }
+
+      return deleted;
     } catch (error) {
-      console.error('Error in deleteTask:', error);
+      console.error('Error in deleteAttachment:', error);
       throw error;
     }
   }
 
   /**
-   * Change task status
+   * Create a signed, time-limited download URL for an attachment
+   * The URL works without the bearer token, so it can be used in links and <img> tags
    * @param taskId Task ID
-   * @param status New status
+   * @param attachmentId Attachment ID
    * @param userId User ID (for authorization)
-   * @returns Updated task or null if not found
-   * @throws ApiError if validation fails or user is not authorized
+   * @param isAdmin Whether the user is an admin
+   * @returns Download URL, or null if the task or the attachment is not found
+   * @throws ApiError if the user is not allowed to view the task
    */
-  async changeTaskStatus(taskId: number, status: string, userId: number): Promise<ITask | null> {
+  async getAttachmentUrl(
+    taskId: number,
+    attachmentId: number,
+    userId: number,
+    isAdmin: boolean = false
+  ): Promise<IAttachmentUrl | null> {
     try {
-      // Check if task exists
       const existingTask = await this.repository.findById(taskId);
       if (!existingTask) {
         return null;
       }
-      // Authorize the user
-      this.authorizeTaskOperation(existingTask, userId);
-      // Check if the status is valid
-      if (!Object.values(TaskStatus).includes(status as TaskStatus)) {
-        throw ApiError.badRequest(
-          `Status must be one of: ${Object.values(TaskStatus).join(', ')}`,
-          'INVALID_STATUS'
-        );
+
+      if (!await this.canViewTask(existingTask, userId, isAdmin)) {
+        throw ApiError.forbidden('Not authorized to access this task', 'FORBIDDEN');
       }
-      
-      // Apply business logic based on status changes
-      if (status === TaskStatus.COMPLETED) {
-        // Possibly update statistics, etc.
-        console.log(`Task ${taskId} marked as completed`);
+
+      const attachment = await this.attachmentRepository.findById(attachmentId, taskId);
+      if (!attachment) {
+        return null;
       }
-      
-      return await this.repository.changeStatus(taskId, status);
+
+      const expires = Math.floor(Date.now() / 1000) + config.ATTACHMENTS.URL_TTL_SECONDS;
+      const signature = TaskAttachment.signDownload(taskId, attachmentId, expires, config.ATTACHMENTS.URL_SECRET);
+
+      return {
+        url: `${config.ATTACHMENTS.PUBLIC_URL}/api/tasks/${taskId}/attachments/${attachmentId}/content`
+          + `?expires=${expires}&signature=${signature}`,
+        expires_at: new Date(expires * 1000)
+      };
     } catch (error) {
-      console.error('Error in changeTaskStatus:', error);
+      console.error('Error in getAttachmentUrl:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the contents of an attachment through a signed download URL
+   * @param taskId Task ID
+   * @param attachmentId Attachment ID
+   * @param expires Expiry of the URL in seconds since the epoch
+   * @param signature Signature of the URL
+   * @returns Attachment with its contents, or null if it is not found
+   * @throws ApiError 403 if the signature does not match or the URL has expired
+   */
+  async getAttachmentContent(
+    taskId: number,
+    attachmentId: number,
+    expires: number,
+    signature: string
+  ): Promise<IAttachmentContent | null> {
+    try {
+      TaskAttachment.verifyDownload(taskId, attachmentId, expires, signature, config.ATTACHMENTS.URL_SECRET);
+
+      const attachment = await this.attachmentRepository.findById(attachmentId, taskId);
+      if (!attachment) {
+        return null;
+      }
+
+      const data = await this.storage.get(TaskAttachment.storageKey(attachment.sha256));
+      if (!data) {
+        console.error(`Contents of attachment ${attachmentId} are missing from storage`);
+        return null;
+      }
+
+      return { attachment, data };
+    } catch (error) {
+      console.error('Error in getAttachmentContent:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Check if a user can view a task
+   * @param task Task object
+   * @param userId User ID
+   * @param isAdmin Whether the user is an admin
+   * @returns Boolean indicating if the user is an admin or allowed to view the task
+   */
+  async canViewTask(task: ITask, userId: number, isAdmin: boolean = false): Promise<boolean> {
+    try {
+      return isAdmin || await this.hasTaskPermission(task, userId, 'view');
+    } catch (error) {
+      console.error('Error in canViewTask:', error);
       throw error;
     }
   }
@@ -181,9 +1207,8 @@ export class TaskService {
    */
   async getTasksByCategory(categoryId: number, userId: number): Promise<ITask[]> {
     try {
-      const tasks = await this.repository.findByCategoryId(categoryId);
-      // Filter tasks to only return those owned by the user
-      return tasks.filter(task => task.user_id === userId);
+      // Only tasks the user can access
+      return await this.repository.findByUserId(userId, { category_id: categoryId });
     } catch (error) {
       console.error('Error in getTasksByCategory:', error);
       throw error;
@@ -198,9 +1223,8 @@ export class TaskService {
    */
   async getTasksByPriority(priorityId: number, userId: number): Promise<ITask[]> {
     try {
-      const tasks = await this.repository.findByPriorityId(priorityId);
-      // Filter tasks to only return those owned by the user
-      return tasks.filter(task => task.user_id === userId);
+      // Only tasks the user can access
+      return await this.repository.findByUserId(userId, { priority_id: priorityId });
     } catch (error) {
       console.error('Error in getTasksByPriority:', error);
       throw error;
@@ -222,9 +1246,9 @@ export class TaskService {
       const cutoffDate = new Date();
       cutoffDate.setDate(cutoffDate.getDate() + days);
       
-      // Filter tasks due within the specified days that aren't completed
+      // Filter tasks due within the specified days that are still open
       return userTasks.filter(task => {
-        if (!task.due_date || task.status === TaskStatus.COMPLETED) {
+        if (!task.due_date || !Status.isOpen(task.status_category)) {
           return false;
         }
         
@@ -248,9 +1272,9 @@ export class TaskService {
       const userTasks = await this.repository.findByUserId(userId);
       const today = new Date();
       
-      // Filter tasks that are overdue and not completed
+      // Filter tasks that are overdue and still open
       return userTasks.filter(task => {
-        if (!task.due_date || task.status === TaskStatus.COMPLETED) {
+        if (!task.due_date || !Status.isOpen(task.status_category)) {
           return false;
         }
         
@@ -266,10 +1290,10 @@ export class TaskService {
   /**
    * Get tasks by status
    * @param userId User ID
-   * @param status Task status
+   * @param status Status key
    * @returns Array of tasks with the specified status
    */
-  async getTasksByStatus(userId: number, status: TaskStatus): Promise<ITask[]> {
+  async getTasksByStatus(userId: number, status: string): Promise<ITask[]> {
     try {
       const filter: ITaskQuery = { 
         status: status 
@@ -282,17 +1306,361 @@ export class TaskService {
   }
 
   /**
-   * Check if a user is authorized to perform operations on a task
+   * Check if a user is authorized to perform an action on a task
    * @param task Task object
    * @param userId User ID
+   * @param action Action to perform
    * @throws ApiError if user is not authorized
    */
-  private authorizeTaskOperation(task: ITask, userId: number, isAdmin: boolean = false): void {
-    if (task.user_id !== userId && !isAdmin) {
+  private async authorizeTask(task: ITask, userId: number, action: TaskAction): Promise<void> {
+    if (!await this.hasTaskPermission(task, userId, action)) {
       throw ApiError.forbidden('Not authorized to perform this action on this task', 'FORBIDDEN');
     }
   }
 
+  /**
+   * Decide whether a user may perform an action on a task
+   *
+   * Personal tasks: the owner can do everything; assignees can view, change the status and comment.
+   * Workspace tasks: every member can view; members and above can edit, change the status and
+   * comment (as can assignees); the creator or a workspace admin can delete.
+   * Attaching files follows the rule for comments.
+   * @param task Task object including its assignees
+   * @param userId User ID
+   * @param action Action to perform
+   * @returns Boolean indicating if the action is allowed
+   */
+  private async hasTaskPermission(task: ITask, userId: number, action: TaskAction): Promise<boolean> {
+    const isAssignee = this.isAssignee(task, userId);
+
+    if (!task.workspace_id) {
+      if (task.user_id === userId) {
+        return true;
+      }
+      return isAssignee && (action === 'view' || action === 'change_status' || action === 'comment');
+    }
+
+    const role = await this.workspaceRepository.getMemberRole(task.workspace_id, userId);
+    switch (action) {
+      case 'view':
+        return role !== null;
+      case 'change_status':
+      case 'comment':
+        return Workspace.hasRole(role, WorkspaceRole.MEMBER) || (role !== null && isAssignee);
+      case 'edit':
+        return Workspace.hasRole(role, WorkspaceRole.MEMBER);
+      case 'delete':
+        return Workspace.hasRole(role, WorkspaceRole.ADMIN)
+          || (task.user_id === userId && Workspace.hasRole(role, WorkspaceRole.MEMBER));
+    }
+  }
+
+  /**
+   * Find a status a task can be moved to: a built-in status or one of its workspace
+   * @param task Task object
+   * @param key Status key
+   * @returns Status
+   * @throws ApiError 400 if the status does not exist for the task
+   */
+  private async resolveStatus(task: ITask, key: string): Promise<IStatus> {
+    const status = await this.statusRepository.findByKey(key, task.workspace_id ?? null);
+    if (!status) {
+      throw ApiError.badRequest(`Status ${key} does not exist for this task`, 'INVALID_STATUS');
+    }
+
+    return status;
+  }
+
+  /**
+   * Get the status transition graph of a task
+   * Workspace tasks also allow the transitions configured by the workspace admins
+   * @param task Task object
+   * @returns Transition graph
+   */
+  private async getStatusTransitions(task: ITask): Promise<TaskStatusTransitions> {
+    if (!task.workspace_id) {
+      return TaskWorkflow.DEFAULT_TRANSITIONS;
+    }
+
+    const workspace = await this.workspaceRepository.findById(task.workspace_id);
+    return TaskWorkflow.transitions(workspace?.status_transitions);
+  }
+
+  /**
+   * Ensure a task is not started or completed while tasks blocking it are open
+   * @param taskId Task ID
+   * @param from Category of the current status
+   * @param to Category of the new status
+   * @throws ApiError 409 if open blockers forbid the change
+   */
+  private async assertUnblocked(taskId: number, from: StatusCategory, to: StatusCategory): Promise<void> {
+    if (from === to || !TaskWorkflow.BLOCKED_CATEGORIES.includes(to)) {
+      return;
+    }
+
+    TaskWorkflow.assertUnblocked(from, to, await this.dependencyRepository.findOpenBlockers(taskId));
+  }
+
+  /**
+   * Ensure the open subtasks of a task can be completed along with it
+   * Each subtask must be allowed to change to done and, unless forced, must not be blocked
+   * by open tasks other than the task and the subtasks completed with it.
+   * @param taskId Task ID
+   * @param transitions Status transition graph of the task
+   * @param force Whether open blockers are ignored
+   * @throws ApiError 409 if a subtask cannot change to done or is blocked
+   */
+  private async assertSubtasksCompletable(
+    taskId: number,
+    transitions: TaskStatusTransitions,
+    force: boolean
+  ): Promise<void> {
+    const openSubtasks = await this.repository.findOpenSubtasks(taskId);
+    const completedIds = new Set([taskId, ...openSubtasks.map(subtask => subtask.task_id)]);
+
+    for (const subtask of openSubtasks) {
+      const category = subtask.status_category ?? StatusCategory.TODO;
+      try {
+        TaskWorkflow.assertTransition(category, StatusCategory.DONE, transitions);
+        if (!force && category !== StatusCategory.DONE) {
+          const blockers = await this.dependencyRepository.findOpenBlockers(subtask.task_id);
+          TaskWorkflow.assertUnblocked(
+            category,
+            StatusCategory.DONE,
+            blockers.filter(blocker => !completedIds.has(blocker.task_id))
+          );
+        }
+      } catch (error) {
+        if (error instanceof ApiError) {
+          throw new ApiError(`Subtask "${subtask.title}" cannot be completed: ${error.message}`, error.statusCode, error.code);
+        }
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Apply a bulk operation to one task through the matching single-task operation
+   * @param taskId Task ID
+   * @param operation Operation to apply
+   * @param userId User ID (for authorization)
+   * @returns Successful result of the task
+   * @throws ApiError if the task is not found or the operation is not allowed on it
+   */
+  private async applyBulkOperation(
+    taskId: number,
+    operation: ITaskBulkOperation,
+    userId: number
+  ): Promise<ITaskBulkResult> {
+    let task: ITask | null;
+
+    switch (operation.type) {
+      case 'update':
+        task = await this.updateTask(taskId, operation.fields || {}, userId);
+        break;
+      case 'change_status':
+        task = await this.changeTaskStatus(
+          taskId,
+          operation.status as string,
+          userId,
+          operation.reason ?? null,
+          operation.subtasks,
+          operation.force
+        );
+        break;
+      case 'assign':
+        task = await this.assignUser(taskId, operation.user_id as number, userId);
+        break;
+      case 'archive':
+      case 'unarchive':
+        task = await this.archiveTask(taskId, operation.type === 'archive', userId);
+        break;
+      case 'delete': {
+        // Attachment contents are purged once the whole batch is committed
+        const existingTask = await this.repository.findById(taskId);
+        if (existingTask) {
+          await this.authorizeTask(existingTask, userId, 'delete');
+          if (await this.repository.delete(taskId, userId)) {
+            return { task_id: taskId, success: true };
+          }
+        }
+        task = null;
+        break;
+      }
+      default:
+        throw ApiError.badRequest(`Unknown bulk operation: ${operation.type}`, 'INVALID_OPERATION');
+    }
+
+    if (!task) {
+      throw ApiError.notFound('Task not found', 'TASK_NOT_FOUND');
+    }
+
+    return { task_id: taskId, success: true, task };
+  }
+
+  /**
+   * Archive or restore a task
+   * Only completed or cancelled tasks can be archived; reopening a task restores it
+   * @param taskId Task ID
+   * @param archived Whether the task is archived or restored
+   * @param userId User ID (for authorization)
+   * @returns Updated task or null if not found
+   * @throws ApiError if the user is not authorized or the task is still open
+   */
+  private async archiveTask(taskId: number, archived: boolean, userId: number): Promise<ITask | null> {
+    const existingTask = await this.repository.findById(taskId);
+    if (!existingTask) {
+      return null;
+    }
+
+    await this.authorizeTask(existingTask, userId, 'edit');
+
+    if (archived && Status.isOpen(existingTask.status_category)) {
+      throw ApiError.conflict('Only completed or cancelled tasks can be archived', 'TASK_OPEN');
+    }
+
+    if (Boolean(existingTask.archived_at) === archived) {
+      return existingTask;
+    }
+
+    return await this.repository.setArchived(taskId, archived, userId);
+  }
+
+  /**
+   * Remove attachment contents that are no longer attached to any task
+   * Best effort: failures are logged and the contents are purged on a later deletion
+   */
+  private async purgeAttachmentContents(): Promise<void> {
+    try {
+      await this.attachmentRepository.purgeUnreferenced(
+        (sha256) => this.storage.delete(TaskAttachment.storageKey(sha256))
+      );
+    } catch (error) {
+      console.error('Error in purgeAttachmentContents:', error);
+    }
+  }
+
+  /**
+   * Notify the users mentioned in a comment
+   * Authors are not notified of their own mentions, nor are users who cannot view the task.
+   * Mentions are best effort: failures are logged and the comment is kept.
+   * @param task Task commented on
+   * @param comment Created or edited comment
+   * @param previousContent Text before an edit; users it already mentioned are not notified again
+   */
+  private async notifyMentions(task: ITask, comment: ITaskComment, previousContent: string | null = null): Promise<void> {
+    try {
+      const previous = previousContent ? TaskComment.extractMentions(previousContent) : [];
+      const usernames = TaskComment.extractMentions(comment.content || '')
+        .filter(username => !previous.includes(username));
+      if (usernames.length === 0) {
+        return;
+      }
+
+      const users = await this.userRepository.findByUsernames(usernames);
+      for (const user of users) {
+        if (user.user_id === comment.user_id || !await this.hasTaskPermission(task, user.user_id, 'view')) {
+          continue;
+        }
+
+        await this.notifier.notify({
+          user_id: user.user_id,
+          type: NotificationType.MENTION,
+          title: `${comment.username || 'Someone'} mentioned you on "${task.title}"`,
+          body: TaskComment.excerpt(comment.content || ''),
+          task_id: task.task_id
+        });
+      }
+    } catch (error) {
+      console.error('Error notifying mentions:', error);
+    }
+  }
+
+  /**
+   * Check if a user is assigned to a task
+   * @param task Task object including its assignees
+   * @param userId User ID
+   * @returns Boolean indicating if the user is an assignee
+   */
+  private isAssignee(task: ITask, userId: number): boolean {
+    return (task.assignees || []).some(assignee => assignee.user_id === userId);
+  }
+
+  /**
+   * Reject unverified users when admins require a verified email to create tasks
+   * @param userId User ID
+   * @throws ApiError 403 if the user's email address is not verified
+   */
+  private async ensureEmailVerifiedIfRequired(userId: number): Promise<void> {
+    const required = await this.settingsRepository.get('require_verified_email_for_tasks');
+    if (!required) {
+      return;
+    }
+
+    const user = await this.userRepository.findById(userId);
+    if (!user || !user.email_verified_at) {
+      throw ApiError.forbidden('Verify your email address before creating tasks', 'EMAIL_NOT_VERIFIED');
+    }
+  }
+
+  /**
+   * Validate the parent of a new subtask or of a task moved under another one
+   * Users can only add subtasks to tasks they can edit. A task cannot move under itself
+   * or its own subtasks, and subtasks nest at most Task.MAX_DEPTH levels deep.
+   * @param parentId ID of the parent task
+   * @param userId User ID (for authorization)
+   * @param taskId ID of the moved task (none for new tasks)
+   * @returns Parent task
+   * @throws ApiError 400 if the parent does not exist, would create a cycle or nest the task too deep
+   * @throws ApiError 403 if the user cannot edit the parent
+   * @throws ApiError 409 if the parent is cancelled
+   */
+  private async validateParent(parentId: number, userId: number, taskId?: number): Promise<ITask> {
+    const parent = await this.repository.findById(parentId);
+    if (!parent) {
+      throw ApiError.badRequest('Parent task not found', 'INVALID_PARENT');
+    }
+
+    await this.authorizeTask(parent, userId, 'edit');
+    TaskWorkflow.assertEditable(parent.status_category ?? StatusCategory.TODO);
+
+    const ancestorIds = await this.repository.findAncestorIds(parentId);
+    if (taskId !== undefined && (parentId === taskId || ancestorIds.includes(taskId))) {
+      throw ApiError.badRequest('A task cannot be a subtask of itself or of its subtasks', 'INVALID_PARENT');
+    }
+
+    // The parent's level plus the levels the task brings along
+    const height = taskId !== undefined ? await this.repository.getSubtreeHeight(taskId) : 1;
+    if (ancestorIds.length + 1 + height > Task.MAX_DEPTH) {
+      throw ApiError.badRequest(`Subtasks can be nested at most ${Task.MAX_DEPTH} levels deep`, 'MAX_DEPTH_EXCEEDED');
+    }
+
+    return parent;
+  }
+
+  /**
+   * Validate that a category exists in the task's scope: the task's workspace,
+   * or the owner's personal categories for personal tasks
+   * @param categoryId Category ID
+   * @param userId ID of the task owner
+   * @param workspaceId ID of the task's workspace (none for personal tasks)
+   * @throws ApiError if the category does not exist or belongs to another scope
+   */
+  private async validateCategoryScope(
+    categoryId: number,
+    userId: number,
+    workspaceId?: number | null
+  ): Promise<void> {
+    const category = await this.categoryRepository.findById(categoryId);
+    const inScope = category && (workspaceId
+      ? category.workspace_id === workspaceId
+      : !category.workspace_id && category.user_id === userId);
+
+    if (!inScope) {
+      throw ApiError.badRequest('Category not found', 'INVALID_CATEGORY');
+    }
+  }
+
   /**
    * Validate due date - ensure it's not in the past
    * @param dueDate Due date to validate
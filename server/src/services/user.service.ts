@@ -1,10 +1,23 @@
 import bcrypt from 'bcryptjs';
 import crypto from 'crypto';
 import { ApiError } from '../utils/error.utils';
-import { IUser, IUserCreate, IUserLogin } from '../interfaces/user.interface';
+import { IAuthTokens, IUser, IUserCreate, IUserLogin } from '../interfaces/user.interface';
 import { UserRepository } from '../repositories/userRepository';
+import { CategoryRepository } from '../repositories/categoryRepository';
+import { RefreshTokenRepository } from '../repositories/refreshTokenRepository';
+import { PasswordResetRepository } from '../repositories/passwordResetRepository';
+import { IMailer } from '../interfaces/mailer.interface';
+import { getMailer } from '../mailer';
+import { config } from '../config/config';
+import { transaction } from '../config/database';
 import { validatePassword } from '../utils/password.utils';
-import { generateTokens, verifyToken } from '../utils/jwt.utils';
+import {
+  generateEmailVerificationToken,
+  generateTokens,
+  verifyEmailVerificationToken,
+  verifyToken
+} from '../utils/jwt.utils';
+import { generateRandomToken, hashToken } from '../utils/token.utils';
 
 /**
  * User Service
@@ -12,12 +25,21 @@ import { generateTokens, verifyToken } from '../utils/jwt.utils';
  */
 export class UserService {
   private repository: UserRepository;
+  private categoryRepository: CategoryRepository;
+  private refreshTokenRepository: RefreshTokenRepository;
+  private passwordResetRepository: PasswordResetRepository;
+  private mailer: IMailer;
 
   /**
    * Create a new UserService instance
+   * @param mailer Mailer used for account email (defaults to the application mailer)
    */
-  constructor() {
+  constructor(mailer: IMailer = getMailer()) {
     this.repository = new UserRepository();
+    this.categoryRepository = new CategoryRepository();
+    this.refreshTokenRepository = new RefreshTokenRepository();
+    this.passwordResetRepository = new PasswordResetRepository();
+    this.mailer = mailer;
   }
 
   /**
@@ -51,13 +73,18 @@ export class UserService {
       // Create user
       const newUser = await this.repository.create(userData);
 
-      // Generate tokens
-      const tokens = generateTokens({
-        id: newUser.user_id,
-        username: newUser.username,
-        email: newUser.email,
-        role: newUser.role
-      });
+      // Seed the default categories; the account stays usable if this fails
+      try {
+        await this.categoryRepository.createDefaults(newUser.user_id);
+      } catch (error) {
+        console.error('Error seeding default categories:', error);
+      }
+
+      // Ask the user to confirm their email address
+      await this.sendVerificationEmail(newUser);
+
+      // Generate tokens and start a new refresh token family
+      const tokens = await this.issueTokens(newUser);
 
       // Return user without password and tokens
       const { password_hash, ...userWithoutPassword } = newUser;
@@ -98,13 +125,8 @@ export class UserService {
         throw ApiError.unauthorized('Invalid credentials', 'INVALID_CREDENTIALS');
       }
 
-      // Generate tokens
-      const tokens = generateTokens({
-        id: user.user_id,
-        username: user.username,
-        email: user.email,
-        role: user.role
-      });
+      // Generate tokens and start a new refresh token family
+      const tokens = await this.issueTokens(user);
 
       // Return user without password and tokens
       const { password_hash, ...userWithoutPassword } = user;
@@ -211,6 +233,11 @@ export class UserService {
         return null;
       }
 
+      // A changed address has to be verified again
+      if (updatedUser.email !== existingUser.email) {
+        await this.sendVerificationEmail(updatedUser);
+      }
+
       // Return user without password
       const { password_hash, ...userWithoutPassword } = updatedUser;
       return userWithoutPassword;
@@ -305,30 +332,46 @@ export class UserService {
   }
 
   /**
-   * Initiate password reset (generate token and store in DB)
+   * Initiate password reset
+   * Stores a hash of a single-use token with an expiry and emails the token to the user.
+   * Earlier reset links of the user stop working.
    * @param email User email
-   * @returns Boolean indicating if reset was initiated
-   * Note: In a real application, this would send an email with the reset token
+   * Note: Resolves the same way whether or not the email is registered
    */
-  async initiatePasswordReset(email: string): Promise<{ success: boolean, resetToken?: string }> {
+  async initiatePasswordReset(email: string): Promise<void> {
     try {
       // Check if user exists
       const user = await this.repository.findByEmail(email);
       if (!user) {
         // For security reasons, don't reveal that the email doesn't exist
-        return { success: true };
+        return;
       }
 
-      // Generate reset token (32 bytes converted to hex string = 64 chars)
-      const resetToken = crypto.randomBytes(32).toString('hex');
-      
-      // In a real application, you would:
-      // 1. Hash the token and store it in the database with an expiration
-      // 2. Send an email to the user with a link containing the token
-      
-      // For demonstration purposes, we'll return the token
-      // In production, you would never return this directly to the client
-      return { success: true, resetToken };
+      // Only the most recent reset link should be usable
+      await this.passwordResetRepository.invalidateForUser(user.user_id);
+
+      // Generate reset token; only its hash is stored
+      const resetToken = generateRandomToken();
+      const ttlMinutes = config.PASSWORD_RESET.TOKEN_TTL_MINUTES;
+      await this.passwordResetRepository.create({
+        user_id: user.user_id,
+        token_hash: hashToken(resetToken),
+        expires_at: new Date(Date.now() + ttlMinutes * 60 * 1000)
+      });
+
+      // Queue the email; a failure must not reveal that the account exists
+      try {
+        await this.mailer.sendTemplate('password_reset', {
+          to: user.email,
+          data: {
+            username: user.username,
+            resetUrl: `${config.CLIENT.URL}/reset-password?token=${resetToken}`,
+            ttlMinutes
+          }
+        });
+      } catch (error) {
+        console.error('Error sending password reset email:', error);
+      }
     } catch (error) {
       console.error('Error in initiatePasswordReset:', error);
       throw new ApiError('Error initiating password reset', 500);
@@ -337,26 +380,34 @@ export class UserService {
 
   /**
    * Reset password using token
-   * @param resetToken Password reset token
+   * The token is consumed, so it cannot be used twice, and every refresh token
+   * of the user is revoked to sign out existing sessions. All three happen in one
+   * transaction, so a failure leaves the token usable and the old password in place.
+   * @param resetToken Password reset token from the emailed link
    * @param newPassword New password
    * @returns Boolean indicating if password was reset successfully
-   * Note: In a real application, this would verify a token stored in DB
+   * @throws ApiError if the token is invalid, expired or already used, or the password is too weak
    */
   async resetPassword(resetToken: string, newPassword: string): Promise<boolean> {
     try {
-      // In a real application, you would:
-      // 1. Verify that the reset token exists in the database and hasn't expired
-      // 2. Get the associated user
-      // 3. Update the password
-      // 4. Delete the used reset token
-      
-      // For demonstration purposes, we'll just return success
-      // In a real implementation, this would use an actual token from the database
-      
-      // Validate new password
+      // Validate new password before the token is spent
       validatePassword(newPassword);
-      
-      return true;
+
+      return await transaction(async (client) => {
+        const token = await this.passwordResetRepository.consume(hashToken(resetToken), client);
+        if (!token) {
+          throw ApiError.badRequest('Password reset token is invalid or has expired', 'INVALID_RESET_TOKEN');
+        }
+
+        const updated = await this.repository.changePassword(token.user_id, newPassword, client);
+        if (!updated) {
+          throw ApiError.badRequest('Password reset token is invalid or has expired', 'INVALID_RESET_TOKEN');
+        }
+
+        await this.refreshTokenRepository.revokeAllForUser(token.user_id, client);
+
+        return true;
+      });
     } catch (error) {
       if (error instanceof ApiError) {
         throw error;
@@ -367,25 +418,98 @@ export class UserService {
   }
 
   /**
-   * Refresh access token using refresh token
+   * Verify a user's email address using the token from a verification link
+   * Verifying an already verified address succeeds without changes
+   * @param token Email verification token
+   * @returns Verified user (without password)
+   * @throws ApiError 400 if the token is invalid, expired or was issued for another address
+   */
+  async verifyEmail(token: string): Promise<Omit<IUser, 'password_hash'>> {
+    try {
+      const verification = verifyEmailVerificationToken(token);
+      if (!verification.valid) {
+        if (verification.reason === 'expired') {
+          throw ApiError.badRequest('Verification link has expired', 'VERIFICATION_TOKEN_EXPIRED');
+        }
+        throw ApiError.badRequest('Invalid verification link', 'INVALID_VERIFICATION_TOKEN');
+      }
+
+      // Links for a previous address no longer match and are rejected
+      const user = await this.repository.markEmailVerified(verification.userId, verification.email);
+      if (!user) {
+        throw ApiError.badRequest('Invalid verification link', 'INVALID_VERIFICATION_TOKEN');
+      }
+
+      const { password_hash, ...userWithoutPassword } = user;
+      return userWithoutPassword;
+    } catch (error) {
+      if (error instanceof ApiError) {
+        throw error;
+      }
+      console.error('Error in verifyEmail:', error);
+      throw new ApiError('Error verifying email', 500);
+    }
+  }
+
+  /**
+   * Send a new verification link to a user
+   * @param userId User ID
+   * @throws ApiError if the user does not exist or is already verified
+   */
+  async resendVerificationEmail(userId: number): Promise<void> {
+    try {
+      const user = await this.repository.findById(userId);
+      if (!user) {
+        throw ApiError.notFound('User not found', 'USER_NOT_FOUND');
+      }
+
+      if (user.email_verified_at) {
+        throw ApiError.badRequest('Email is already verified', 'EMAIL_ALREADY_VERIFIED');
+      }
+
+      await this.sendVerificationEmail(user);
+    } catch (error) {
+      if (error instanceof ApiError) {
+        throw error;
+      }
+      console.error('Error in resendVerificationEmail:', error);
+      throw new ApiError('Error sending verification email', 500);
+    }
+  }
+
+  /**
+   * Exchange a refresh token for a new access token and refresh token
+   * Each refresh token can be used once; presenting an already rotated token
+   * revokes every token in its family
    * @param refreshToken Refresh token
-   * @returns New access token or null if refresh token is invalid
+   * @returns New access token and refresh token
+   * @throws ApiError 401 if the refresh token is invalid, expired, revoked or reused
    */
-  async refreshAccessToken(refreshToken: string): Promise<string | null> {
+  async refreshTokens(refreshToken: string): Promise<IAuthTokens> {
     try {
-      // Verify refresh token
-      const payload = verifyToken(refreshToken, true);
-      if (!payload) {
-        return null;
+      // Verify refresh token signature and claims
+      const verification = verifyToken(refreshToken, true);
+      if (!verification.valid) {
+        if (verification.reason === 'expired') {
+          throw ApiError.unauthorized('Refresh token has expired', 'REFRESH_TOKEN_EXPIRED');
+        }
+        throw ApiError.unauthorized('Invalid refresh token', 'INVALID_REFRESH_TOKEN');
+      }
+      const { payload } = verification;
+
+      // The token must have been issued by us for this user
+      const storedToken = await this.refreshTokenRepository.findById(payload.jti);
+      if (!storedToken || storedToken.user_id !== payload.id) {
+        throw ApiError.unauthorized('Invalid refresh token', 'INVALID_REFRESH_TOKEN');
       }
 
       // Check if user still exists
-      const user = await this.repository.findById(payload.id);
+      const user = await this.repository.findById(storedToken.user_id);
       if (!user) {
-        return null;
+        throw ApiError.unauthorized('Invalid refresh token', 'INVALID_REFRESH_TOKEN');
       }
 
-      // Generate new access token
+      // Issue the successor in the same family and retire the used token
       const tokens = generateTokens({
         id: user.user_id,
         username: user.username,
@@ -393,10 +517,103 @@ export class UserService {
         role: user.role
       });
 
-      return tokens.accessToken;
+      const rotation = await this.refreshTokenRepository.rotate(storedToken.token_id, {
+        token_id: tokens.refreshTokenId,
+        user_id: user.user_id,
+        family_id: storedToken.family_id
+      });
+
+      switch (rotation.status) {
+        case 'rotated':
+          return {
+            accessToken: tokens.accessToken,
+            refreshToken: tokens.refreshToken
+          };
+        case 'reused':
+          // A rotated token was replayed: assume it leaked and end the whole session
+          await this.refreshTokenRepository.revokeFamily(storedToken.family_id);
+          throw ApiError.unauthorized('Refresh token has already been used', 'REFRESH_TOKEN_REUSED');
+        case 'revoked':
+          throw ApiError.unauthorized('Refresh token has been revoked', 'REFRESH_TOKEN_REVOKED');
+        default:
+          throw ApiError.unauthorized('Invalid refresh token', 'INVALID_REFRESH_TOKEN');
+      }
     } catch (error) {
-      console.error('Error in refreshAccessToken:', error);
-      throw new ApiError('Error refreshing access token', 500);
+      if (error instanceof ApiError) {
+        throw error;
+      }
+      console.error('Error in refreshTokens:', error);
+      throw new ApiError('Error refreshing tokens', 500);
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * Logout by revoking a refresh token
+   * Revoking an already revoked token is not an error
+   * @param refreshToken Refresh token to revoke
+   * @throws ApiError 401 if the refresh token is invalid
+   */
+  async logout(refreshToken: string): Promise<void> {
+    try {
+      const verification = verifyToken(refreshToken, true);
+      if (!verification.valid) {
+        throw ApiError.unauthorized('Invalid refresh token', 'INVALID_REFRESH_TOKEN');
+      }
+
+      await this.refreshTokenRepository.revoke(verification.payload.jti);
+    } catch (error) {
+      if (error instanceof ApiError) {
+        throw error;
+      }
+      console.error('Error in logout:', error);
+      throw new ApiError('Error logging out', 500);
+    }
+  }
+
+  /**
+   * Email a verification link for the user's current address
+   * Failures are logged only; the user can ask for a new link
+   * @param user User to verify
+   */
+  private async sendVerificationEmail(user: IUser): Promise<void> {
+    try {
+      const token = generateEmailVerificationToken(user.user_id, user.email);
+      await this.mailer.sendTemplate('email_verification', {
+        to: user.email,
+        data: {
+          username: user.username,
+          email: user.email,
+          verifyUrl: `${config.CLIENT.URL}/verify-email?token=${token}`,
+          ttlHours: config.EMAIL_VERIFICATION.TOKEN_TTL_HOURS
+        }
+      });
+    } catch (error) {
+      console.error('Error sending verification email:', error);
+    }
+  }
+
+  /**
+   * Generate tokens for a user and store the refresh token as the start of a new family
+   * @param user User to issue tokens for
+   * @returns Access token and refresh token
+   */
+  private async issueTokens(user: IUser): Promise<IAuthTokens> {
+    const tokens = generateTokens({
+      id: user.user_id,
+      username: user.username,
+      email: user.email,
+      role: user.role
+    });
+
+    await this.refreshTokenRepository.create({
+      token_id: tokens.refreshTokenId,
+      user_id: user.user_id,
+      family_id: crypto.randomUUID()
+    });
+
+    return {
+      accessToken: tokens.accessToken,
+      refreshToken: tokens.refreshToken
+    };
+  }
+}
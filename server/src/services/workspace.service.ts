@@ -0,0 +1,265 @@
+import { ApiError } from '../utils/error.utils';
+import {
+  IWorkspace,
+  IWorkspaceCreate,
+  IWorkspaceMember,
+  IWorkspaceMemberCreate,
+  IWorkspaceUpdate,
+  WorkspaceRole
+} from '../interfaces/workspace.interface';
+import { WorkspaceRepository } from '../repositories/workspaceRepository';
+import { UserRepository } from '../repositories/userRepository';
+import { Workspace } from '../models/workspace.model';
+
+/**
+ * Workspace Service
+ * Handles business logic for workspaces and their members
+ * Membership of the acting user is checked by the authorizeWorkspace middleware
+ */
+export class WorkspaceService {
+  private repository: WorkspaceRepository;
+  private userRepository: UserRepository;
+
+  /**
+   * Create a new WorkspaceService instance
+   */
+  constructor() {
+    this.repository = new WorkspaceRepository();
+    this.userRepository = new UserRepository();
+  }
+
+  /**
+   * Get the workspaces a user is a member of
+   * @param userId User ID
+   * @returns Array of workspaces including the user's role
+   */
+  async getUserWorkspaces(userId: number): Promise<IWorkspace[]> {
+    try {
+      return await this.repository.findByUserId(userId);
+    } catch (error) {
+      console.error('Error in getUserWorkspaces:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a workspace by its ID
+   * @param workspaceId Workspace ID
+   * @returns Workspace object or null if not found
+   */
+  async getWorkspaceById(workspaceId: number): Promise<IWorkspace | null> {
+    try {
+      return await this.repository.findById(workspaceId);
+    } catch (error) {
+      console.error('Error in getWorkspaceById:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Create a new workspace owned by its creator
+   * @param workspaceData Workspace data
+   * @returns Created workspace
+   * @throws ApiError if validation fails
+   */
+  async createWorkspace(workspaceData: IWorkspaceCreate): Promise<IWorkspace> {
+    try {
+      return await this.repository.create(workspaceData);
+    } catch (error) {
+      console.error('Error in createWorkspace:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update a workspace
+   * @param workspaceId Workspace ID
+   * @param workspaceData Workspace data to update
+   * @returns Updated workspace or null if not found
+   * @throws ApiError if validation fails
+   */
+  async updateWorkspace(workspaceId: number, workspaceData: IWorkspaceUpdate): Promise<IWorkspace | null> {
+    try {
+      return await this.repository.update(workspaceId, workspaceData);
+    } catch (error) {
+      console.error('Error in updateWorkspace:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a workspace with its tasks and categories
+   * @param workspaceId Workspace ID
+   * @returns Boolean indicating if deletion was successful
+   */
+  async deleteWorkspace(workspaceId: number): Promise<boolean> {
+    try {
+      return await this.repository.delete(workspaceId);
+    } catch (error) {
+      console.error('Error in deleteWorkspace:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the members of a workspace
+   * @param workspaceId Workspace ID
+   * @returns Array of members
+   */
+  async getMembers(workspaceId: number): Promise<IWorkspaceMember[]> {
+    try {
+      return await this.repository.findMembers(workspaceId);
+    } catch (error) {
+      console.error('Error in getMembers:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Add a member to a workspace
+   * Only the owner can add admins; the owner role cannot be granted
+   * @param workspaceId Workspace ID
+   * @param memberData User to add and their role (default: member)
+   * @param actingRole Role of the user adding the member
+   * @returns Added member
+   * @throws ApiError if the role is not allowed, the user does not exist or is already a member
+   */
+  async addMember(
+    workspaceId: number,
+    memberData: IWorkspaceMemberCreate,
+    actingRole: WorkspaceRole
+  ): Promise<IWorkspaceMember> {
+    try {
+      const role = memberData.role || WorkspaceRole.MEMBER;
+      this.authorizeRoleGrant(role, actingRole);
+
+      const user = await this.userRepository.findById(memberData.user_id);
+      if (!user) {
+        throw ApiError.badRequest('User not found', 'INVALID_MEMBER');
+      }
+
+      return await this.repository.addMember(workspaceId, memberData.user_id, role);
+    } catch (error) {
+      console.error('Error in addMember:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Change the role of a workspace member
+   * Only the owner can promote members to admin or change an admin's role
+   * @param workspaceId Workspace ID
+   * @param userId ID of the member
+   * @param role New membership role
+   * @param actingRole Role of the user making the change
+   * @returns Updated member
+   * @throws ApiError if the member does not exist, is the owner or the change is not allowed
+   */
+  async updateMemberRole(
+    workspaceId: number,
+    userId: number,
+    role: WorkspaceRole,
+    actingRole: WorkspaceRole
+  ): Promise<IWorkspaceMember> {
+    try {
+      this.authorizeRoleGrant(role, actingRole);
+
+      const currentRole = await this.getExistingMemberRole(workspaceId, userId);
+      if (currentRole === WorkspaceRole.OWNER) {
+        throw ApiError.badRequest('The role of the workspace owner cannot be changed', 'CANNOT_CHANGE_OWNER');
+      }
+      this.authorizeMemberManagement(currentRole, actingRole);
+
+      const member = await this.repository.updateMemberRole(workspaceId, userId, role);
+      if (!member) {
+        throw ApiError.notFound('User is not a member of this workspace', 'MEMBER_NOT_FOUND');
+      }
+
+      return member;
+    } catch (error) {
+      console.error('Error in updateMemberRole:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Remove a member from a workspace
+   * Members can leave on their own; removing someone else requires admin
+   * @param workspaceId Workspace ID
+   * @param userId ID of the member to remove
+   * @param actingUserId ID of the user removing the member
+   * @param actingRole Role of the user removing the member
+   * @throws ApiError if the member does not exist, is the owner or the removal is not allowed
+   */
+  async removeMember(
+    workspaceId: number,
+    userId: number,
+    actingUserId: number,
+    actingRole: WorkspaceRole
+  ): Promise<void> {
+    try {
+      const currentRole = await this.getExistingMemberRole(workspaceId, userId);
+      if (currentRole === WorkspaceRole.OWNER) {
+        throw ApiError.badRequest('The workspace owner cannot be removed', 'CANNOT_REMOVE_OWNER');
+      }
+
+      if (userId !== actingUserId) {
+        this.authorizeMemberManagement(currentRole, actingRole);
+      }
+
+      await this.repository.removeMember(workspaceId, userId);
+    } catch (error) {
+      console.error('Error in removeMember:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the role of an existing workspace member
+   * @param workspaceId Workspace ID
+   * @param userId User ID
+   * @returns Membership role
+   * @throws ApiError 404 if the user is not a member
+   */
+  private async getExistingMemberRole(workspaceId: number, userId: number): Promise<WorkspaceRole> {
+    const role = await this.repository.getMemberRole(workspaceId, userId);
+    if (!role) {
+      throw ApiError.notFound('User is not a member of this workspace', 'MEMBER_NOT_FOUND');
+    }
+    return role;
+  }
+
+  /**
+   * Check that a role can be granted by the acting user
+   * @param role Role being granted
+   * @param actingRole Role of the acting user
+   * @throws ApiError if the role is the owner role or only the owner may grant it
+   */
+  private authorizeRoleGrant(role: WorkspaceRole, actingRole: WorkspaceRole): void {
+    Workspace.validateRole(role);
+
+    if (role === WorkspaceRole.OWNER) {
+      throw ApiError.badRequest('A workspace has a single owner', 'INVALID_ROLE');
+    }
+
+    if (role === WorkspaceRole.ADMIN && actingRole !== WorkspaceRole.OWNER) {
+      throw ApiError.forbidden('Only the workspace owner can grant the admin role', 'FORBIDDEN');
+    }
+  }
+
+  /**
+   * Check that the acting user can manage a member with the given role
+   * @param memberRole Current role of the member being managed
+   * @param actingRole Role of the acting user
+   * @throws ApiError if the acting user is not an admin or the member is an admin and the acting user is not the owner
+   */
+  private authorizeMemberManagement(memberRole: WorkspaceRole, actingRole: WorkspaceRole): void {
+    if (!Workspace.hasRole(actingRole, WorkspaceRole.ADMIN)) {
+      throw ApiError.forbidden('Only workspace admins can manage members', 'FORBIDDEN');
+    }
+
+    if (memberRole === WorkspaceRole.ADMIN && actingRole !== WorkspaceRole.OWNER) {
+      throw ApiError.forbidden('Only the workspace owner can manage admins', 'FORBIDDEN');
+    }
+  }
+}
@@ -0,0 +1,54 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { IStorageDriver } from '../../interfaces/storage.interface';
+
+/**
+ * Driver that keeps contents as files below a directory on the local disk
+ * Files are written to a temporary name and renamed, so readers never see a partial file
+ */
+export class LocalStorageDriver implements IStorageDriver {
+  /**
+   * @param directory Directory the files are stored in
+   */
+  constructor(private directory: string) {}
+
+  async put(key: string, data: Buffer, contentType: string): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+
+    const tempPath = `${filePath}.${crypto.randomBytes(4).toString('hex')}.tmp`;
+    await fs.writeFile(tempPath, data);
+    await fs.rename(tempPath, filePath);
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    try {
+      return await fs.readFile(this.resolve(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.resolve(key), { force: true });
+  }
+
+  /**
+   * Map a key to a path inside the storage directory
+   * @param key Storage key
+   * @returns Absolute file path
+   * @throws Error if the key points outside the storage directory
+   */
+  private resolve(key: string): string {
+    const root = path.resolve(this.directory);
+    const filePath = path.resolve(root, key);
+    if (!filePath.startsWith(root + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  }
+}
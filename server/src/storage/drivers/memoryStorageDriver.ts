@@ -0,0 +1,28 @@
+import { IStorageDriver } from '../../interfaces/storage.interface';
+
+/**
+ * Driver that keeps contents in memory
+ * Used by tests to assert on stored files
+ */
+export class MemoryStorageDriver implements IStorageDriver {
+  readonly objects = new Map<string, { data: Buffer; contentType: string }>();
+
+  async put(key: string, data: Buffer, contentType: string): Promise<void> {
+    this.objects.set(key, { data: Buffer.from(data), contentType });
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    return this.objects.get(key)?.data ?? null;
+  }
+
+  async delete(key: string): Promise<void> {
+    this.objects.delete(key);
+  }
+
+  /**
+   * Remove all stored contents
+   */
+  clear(): void {
+    this.objects.clear();
+  }
+}
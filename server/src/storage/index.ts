@@ -0,0 +1,56 @@
+import { config } from '../config/config';
+import { IStorageDriver } from '../interfaces/storage.interface';
+import { LocalStorageDriver } from './drivers/localStorageDriver';
+import { MemoryStorageDriver } from './drivers/memoryStorageDriver';
+import { S3StorageDriver } from './drivers/s3StorageDriver';
+
+export { LocalStorageDriver } from './drivers/localStorageDriver';
+export { MemoryStorageDriver } from './drivers/memoryStorageDriver';
+export { S3StorageDriver } from './drivers/s3StorageDriver';
+
+let storage: IStorageDriver | null = null;
+
+/**
+ * Create the driver selected by ATTACHMENTS_STORAGE_DRIVER
+ * @returns Storage driver
+ * @throws Error if the configured driver is unknown
+ */
+const createStorage = (): IStorageDriver => {
+  switch (config.ATTACHMENTS.STORAGE_DRIVER) {
+    case 'local':
+      return new LocalStorageDriver(config.ATTACHMENTS.LOCAL_DIR);
+    case 'memory':
+      return new MemoryStorageDriver();
+    case 's3':
+      return new S3StorageDriver({
+        endpoint: config.ATTACHMENTS.S3_ENDPOINT,
+        region: config.ATTACHMENTS.S3_REGION,
+        bucket: config.ATTACHMENTS.S3_BUCKET,
+        accessKeyId: config.ATTACHMENTS.S3_ACCESS_KEY_ID,
+        secretAccessKey: config.ATTACHMENTS.S3_SECRET_ACCESS_KEY,
+        forcePathStyle: config.ATTACHMENTS.S3_FORCE_PATH_STYLE,
+        timeoutMs: config.ATTACHMENTS.S3_TIMEOUT_MS
+      });
+    default:
+      throw new Error(`Unknown storage driver: ${config.ATTACHMENTS.STORAGE_DRIVER}`);
+  }
+};
+
+/**
+ * Get the configured storage driver for attachment contents
+ * @returns Storage driver
+ */
+export const getStorage = (): IStorageDriver => {
+  if (!storage) {
+    storage = createStorage();
+  }
+  return storage;
+};
+
+/**
+ * Replace the storage driver (e.g. with a MemoryStorageDriver in tests)
+ * @param instance Storage driver to use
+ */
+export const setStorage = (instance: IStorageDriver): void => {
+  storage = instance;
+};
@@ -0,0 +1,67 @@
+import { ApiError } from './error.utils';
+
+/**
+ * Encode a pagination cursor; clients treat it as an opaque string
+ * @param payload Position of the last returned item
+ * @returns URL-safe base64 encoded cursor
+ */
+export const encodeCursor = (payload: object): string => {
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+};
+
+/**
+ * Decode a pagination cursor
+ * @param cursor Cursor returned with a previous page
+ * @returns Decoded payload
+ * @throws ApiError 400 if the cursor is malformed
+ */
+export const decodeCursor = <T>(cursor: string): T => {
+  try {
+    const payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (payload === null || typeof payload !== 'object') {
+      throw new Error('Cursor payload must be an object');
+    }
+    return payload as T;
+  } catch (error) {
+    throw ApiError.badRequest('Invalid cursor', 'INVALID_CURSOR');
+  }
+};
+
+/**
+ * Types of the values a cursor position holds
+ */
+export type CursorValueType = 'date' | 'timestamp' | 'integer' | 'string';
+
+const TIMESTAMP_PATTERN = /^(\d{4}-\d{2}-\d{2})T([01]\d|2[0-3]):[0-5]\d:[0-5]\d(\.\d{1,6})?(Z|[+-]\d{2}:\d{2})?$/;
+
+/**
+ * Check that a calendar day exists
+ * @param day Date as YYYY-MM-DD
+ */
+const isCalendarDay = (day: string): boolean => {
+  const date = new Date(`${day}T00:00:00Z`);
+  return !isNaN(date.getTime()) && date.toISOString().slice(0, 10) === day;
+};
+
+/**
+ * Check a value of a decoded cursor against the type of the column it is compared with,
+ * so tampered cursors are rejected instead of failing in the database
+ * @param value Value from the cursor
+ * @param type Expected type: an ISO date or timestamp, a 32-bit integer or a string
+ * @returns Whether the value has the type
+ */
+export const isCursorValue = (value: unknown, type: CursorValueType): boolean => {
+  switch (type) {
+    case 'date':
+      return typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && isCalendarDay(value);
+    case 'timestamp': {
+      const match = typeof value === 'string' ? TIMESTAMP_PATTERN.exec(value) : null;
+      return match !== null && isCalendarDay(match[1]);
+    }
+    case 'integer':
+      return Number.isInteger(value) && Math.abs(value as number) <= 2147483647;
+    case 'string':
+      // PostgreSQL text cannot hold NUL characters
+      return typeof value === 'string' && !value.includes('\u0000');
+  }
+};
@@ -72,4 +72,13 @@ export class ApiError extends Error {
   static internal(message: string = 'Internal server error'): ApiError {
     return new ApiError(message, 500, 'SERVER_ERROR');
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Check whether a database error is a PostgreSQL unique constraint violation
+ * @param error Error thrown by the pg driver
+ * @returns Boolean indicating if the error is a unique violation (SQLSTATE 23505)
+ */
+export const isUniqueViolation = (error: unknown): boolean => {
+  return typeof error === 'object' && error !== null && (error as { code?: string }).code === '23505';
+};
@@ -1,11 +1,31 @@
+import crypto from 'crypto';
 import jwt from 'jsonwebtoken';
 import { config } from '../config/config';
 import { IUserTokenPayload } from '../interfaces/user.interface';
 
+/**
+ * Reason a token failed verification
+ */
+export type TokenFailureReason =
+  | 'expired'
+  | 'invalid_signature'
+  | 'invalid_audience'
+  | 'invalid_issuer'
+  | 'malformed';
+
+/**
+ * Result of verifying a token: the decoded payload, or why it was rejected
+ */
+export type TokenVerificationResult =
+  | { valid: true; payload: IUserTokenPayload & { jti: string } }
+  | { valid: false; reason: TokenFailureReason };
+
 /**
  * Generate JWT token for a user
+ * Both tokens expire as configured and carry jti, iat, iss and aud claims;
+ * the refresh token ID is returned so it can be stored and revoked
  * @param user User data to include in the token payload
- * @returns Object containing access token and refresh token
+ * @returns Object containing access token, refresh token and the refresh token ID
  */
 export const generateTokens = (user: IUserTokenPayload) => {
   const payload = {
@@ -19,56 +39,137 @@ export const generateTokens = (user: IUserTokenPayload) => {
   const accessToken = jwt.sign(
     payload,
     config.JWT.SECRET as jwt.Secret,
+    {
+      expiresIn: config.JWT.EXPIRES_IN as jwt.SignOptions['expiresIn'],
+      issuer: config.JWT.ISSUER,
+      audience: config.JWT.AUDIENCE,
+      jwtid: crypto.randomUUID()
+    }
   );
 
   // Generate refresh token
+  const refreshTokenId = crypto.randomUUID();
   const refreshToken = jwt.sign(
     payload,
     config.JWT.REFRESH_SECRET as jwt.Secret,
+    {
+      expiresIn: config.JWT.REFRESH_EXPIRES_IN as jwt.SignOptions['expiresIn'],
+      issuer: config.JWT.ISSUER,
+      audience: config.JWT.AUDIENCE,
+      jwtid: refreshTokenId
+    }
   );
 
   return {
     accessToken,
-    refreshToken
+    refreshToken,
+    refreshTokenId
   };
 };
 
 /**
- * Verify a JWT token
+ * Verify a JWT token's signature, expiry, issuer and audience
  * @param token JWT token to verify
  * @param isRefreshToken Whether this is a refresh token
- * @returns Decoded token payload or null if invalid
+ * @returns Decoded token payload, or the reason the token was rejected
  */
-export const verifyToken = (token: string, isRefreshToken = false): IUserTokenPayload | null => {
+export const verifyToken = (token: string, isRefreshToken = false): TokenVerificationResult => {
   try {
     const secret = isRefreshToken ? config.JWT.REFRESH_SECRET : config.JWT.SECRET;
-    return jwt.verify(token, secret as jwt.Secret) as IUserTokenPayload;
+    const payload = jwt.verify(token, secret as jwt.Secret, {
+      issuer: config.JWT.ISSUER,
+      audience: config.JWT.AUDIENCE
+    }) as IUserTokenPayload;
+
+    // Tokens issued before these claims existed are not accepted
+    if (typeof payload !== 'object' || !payload.jti || !payload.iat || !payload.exp) {
+      return { valid: false, reason: 'malformed' };
+    }
+
+    return { valid: true, payload: { ...payload, jti: payload.jti } };
   } catch (error) {
-    return null;
+    return { valid: false, reason: getFailureReason(error) };
   }
 };
 
 /**
- * Generate a new access token using a refresh token
- * @param refreshToken Refresh token
- * @returns New access token or null if refresh token is invalid
+ * Audience of email verification tokens; distinct from the API audience so
+ * verification links cannot be used as access tokens and vice versa
  */
-export const refreshAccessToken = (refreshToken: string) => {
-  const decoded = verifyToken(refreshToken, true);
-  
-  if (!decoded) {
-    return null;
-  }
-  
-  const payload = {
-    id: decoded.id,
-    username: decoded.username,
-    email: decoded.email,
-    role: decoded.role
-  };
-  
+const EMAIL_VERIFICATION_AUDIENCE = `${config.JWT.AUDIENCE}:email-verification`;
+
+/**
+ * Result of verifying an email verification token
+ */
+export type EmailVerificationTokenResult =
+  | { valid: true; userId: number; email: string }
+  | { valid: false; reason: TokenFailureReason };
+
+/**
+ * Generate a signed token for an email verification link
+ * The email is part of the token, so links stop working once the address changes
+ * @param userId User ID
+ * @param email Email address being verified
+ * @returns Signed verification token
+ */
+export const generateEmailVerificationToken = (userId: number, email: string): string => {
   return jwt.sign(
-    payload,
+    { email },
     config.JWT.SECRET as jwt.Secret,
+    {
+      subject: String(userId),
+      expiresIn: `${config.EMAIL_VERIFICATION.TOKEN_TTL_HOURS}h`,
+      issuer: config.JWT.ISSUER,
+      audience: EMAIL_VERIFICATION_AUDIENCE,
+      jwtid: crypto.randomUUID()
+    }
   );
-};
\ No newline at end of file
+};
+
+/**
+ * Verify an email verification token
+ * @param token Verification token
+ * @returns User ID and email the token was issued for, or the reason it was rejected
+ */
+export const verifyEmailVerificationToken = (token: string): EmailVerificationTokenResult => {
+  try {
+    const payload = jwt.verify(token, config.JWT.SECRET as jwt.Secret, {
+      issuer: config.JWT.ISSUER,
+      audience: EMAIL_VERIFICATION_AUDIENCE
+    }) as jwt.JwtPayload;
+
+    const userId = Number(payload.sub);
+    if (!Number.isInteger(userId) || typeof payload.email !== 'string') {
+      return { valid: false, reason: 'malformed' };
+    }
+
+    return { valid: true, userId, email: payload.email };
+  } catch (error) {
+    return { valid: false, reason: getFailureReason(error) };
+  }
+};
+
+/**
+ * Map a jsonwebtoken error to a token failure reason
+ * @param error Error thrown by jwt.verify
+ * @returns Token failure reason
+ */
+const getFailureReason = (error: unknown): TokenFailureReason => {
+  if (error instanceof jwt.TokenExpiredError) {
+    return 'expired';
+  }
+
+  if (error instanceof jwt.JsonWebTokenError) {
+    if (error.message === 'invalid signature') {
+      return 'invalid_signature';
+    }
+    if (error.message.startsWith('jwt audience invalid')) {
+      return 'invalid_audience';
+    }
+    if (error.message.startsWith('jwt issuer invalid')) {
+      return 'invalid_issuer';
+    }
+  }
+
+  return 'malformed';
+};
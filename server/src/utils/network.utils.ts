@@ -0,0 +1,68 @@
+import { promises as dns } from 'dns';
+import { BlockList, isIP } from 'net';
+
+/**
+ * Address ranges the server must not call on behalf of users: loopback, private,
+ * link-local (including cloud metadata endpoints), unique-local and other special ranges
+ */
+const privateRanges = new BlockList();
+privateRanges.addSubnet('0.0.0.0', 8, 'ipv4');
+privateRanges.addSubnet('10.0.0.0', 8, 'ipv4');
+privateRanges.addSubnet('100.64.0.0', 10, 'ipv4');
+privateRanges.addSubnet('127.0.0.0', 8, 'ipv4');
+privateRanges.addSubnet('169.254.0.0', 16, 'ipv4');
+privateRanges.addSubnet('172.16.0.0', 12, 'ipv4');
+privateRanges.addSubnet('192.0.0.0', 24, 'ipv4');
+privateRanges.addSubnet('192.168.0.0', 16, 'ipv4');
+privateRanges.addSubnet('198.18.0.0', 15, 'ipv4');
+privateRanges.addSubnet('224.0.0.0', 3, 'ipv4'); // multicast and reserved
+privateRanges.addAddress('::', 'ipv6');
+privateRanges.addAddress('::1', 'ipv6');
+privateRanges.addSubnet('fc00::', 7, 'ipv6');
+privateRanges.addSubnet('fe80::', 10, 'ipv6');
+privateRanges.addSubnet('ff00::', 8, 'ipv6');
+
+/**
+ * Check whether an IP address is publicly routable
+ * @param address IPv4 or IPv6 address
+ * @returns False for loopback, private, link-local, unique-local and other special addresses
+ */
+export const isPublicAddress = (address: string): boolean => {
+  // IPv4-mapped IPv6 addresses (::ffff:127.0.0.1) reach the IPv4 host
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  const ip = mapped ? mapped[1] : address;
+
+  const family = isIP(ip);
+  if (family === 0) {
+    return false;
+  }
+
+  return !privateRanges.check(ip, family === 4 ? 'ipv4' : 'ipv6');
+};
+
+/**
+ * Check whether a URL points to a public host
+ * Host names are resolved and must only resolve to public addresses
+ * @param url URL to check
+ * @returns False if the URL is malformed, its host does not resolve or resolves to a non-public address
+ */
+export const isPublicUrl = async (url: string): Promise<boolean> => {
+  let hostname: string;
+  try {
+    // IPv6 hosts come in brackets
+    hostname = new URL(url).hostname.replace(/^\[(.*)\]$/, '$1');
+  } catch {
+    return false;
+  }
+
+  if (isIP(hostname) !== 0) {
+    return isPublicAddress(hostname);
+  }
+
+  try {
+    const addresses = await dns.lookup(hostname, { all: true });
+    return addresses.length > 0 && addresses.every(({ address }) => isPublicAddress(address));
+  } catch {
+    return false;
+  }
+};
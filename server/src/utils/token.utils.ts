@@ -0,0 +1,43 @@
+import crypto from 'crypto';
+
+/**
+ * Generate a random, URL-safe token for single-use links
+ * @param bytes Number of random bytes (default: 32, giving a 64 character hex string)
+ * @returns Hex encoded token
+ */
+export const generateRandomToken = (bytes: number = 32): string => {
+  return crypto.randomBytes(bytes).toString('hex');
+};
+
+/**
+ * Hash a token for storage; only the hash is persisted so a database leak
+ * does not expose usable tokens
+ * @param token Plain token
+ * @returns SHA-256 hex digest of the token
+ */
+export const hashToken = (token: string): string => {
+  return crypto.createHash('sha256').update(token).digest('hex');
+};
+
+/**
+ * Sign a payload with a secret, e.g. to build links that work without a login
+ * @param payload Data covered by the signature
+ * @param secret Signing secret
+ * @returns HMAC-SHA256 hex digest of the payload
+ */
+export const signPayload = (payload: string, secret: string): string => {
+  return crypto.createHmac('sha256', secret).update(payload).digest('hex');
+};
+
+/**
+ * Check a signature created by signPayload, in constant time
+ * @param payload Data covered by the signature
+ * @param signature Signature to check
+ * @param secret Signing secret
+ * @returns Boolean indicating if the signature matches the payload
+ */
+export const verifyPayloadSignature = (payload: string, signature: string, secret: string): boolean => {
+  const expected = Buffer.from(signPayload(payload, secret), 'hex');
+  const actual = Buffer.from(signature, 'hex');
+  return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+};